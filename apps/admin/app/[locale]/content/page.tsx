@@ -0,0 +1,210 @@
+/**
+ * Content Page
+ *
+ * Storefront pages and blog posts written in Markdown, with drafts,
+ * scheduled publishing and per-locale translations.
+ */
+
+'use client'
+
+import { AlertTriangle, Edit, FileText, Plus, Search, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ContentFormDialog, DeleteContentDialog } from '@/components/content/ContentDialogs'
+import { useContentEntries } from '@/lib/hooks/use-api'
+import type { ContentSummary, ContentType, ContentVisibility } from '@/lib/api'
+import { useT } from 'shared/src/i18n/react'
+
+const PAGE_SIZE = 20
+
+const VISIBILITY_STYLES: Record<ContentVisibility, string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  scheduled: 'bg-amber-50 text-amber-700',
+  live: 'bg-green-50 text-green-700',
+}
+
+type ContentDialog =
+  | { kind: 'create' }
+  | { kind: 'edit'; entry: ContentSummary }
+  | { kind: 'delete'; entry: ContentSummary }
+
+export default function ContentPage() {
+  const t = useT()
+  const [type, setType] = useState<ContentType>('PAGE')
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [dialog, setDialog] = useState<ContentDialog | null>(null)
+  const { data, isLoading, error, refetch } = useContentEntries({
+    type,
+    search: search.trim() || undefined,
+    page,
+    limit: PAGE_SIZE,
+  })
+
+  // Helper function for translations with fallback
+  const getText = (key: string, fallback: string): string => {
+    if (!t) return fallback
+    const translated = t(key)
+    return translated === key ? fallback : translated
+  }
+
+  const visibilityLabel = (visibility: ContentVisibility): string => {
+    switch (visibility) {
+      case 'live':
+        return getText('merchant.content.visibility.live', 'Live')
+      case 'scheduled':
+        return getText('merchant.content.visibility.scheduled', 'Scheduled')
+      default:
+        return getText('merchant.content.visibility.draft', 'Draft')
+    }
+  }
+
+  const storefrontPath = (entry: ContentSummary): string =>
+    entry.type === 'POST' ? `/blog/${entry.slug}` : `/pages/${entry.slug}`
+
+  const closeDialog = (open: boolean) => {
+    if (!open) setDialog(null)
+  }
+
+  const entries = data?.items ?? []
+  const totalPages = data?.totalPages ?? 1
+
+  return (
+    <div className="w-full bg-[#fcfdfe] min-h-screen">
+      {/* Header Bar */}
+      <div className="sticky top-0 z-40 flex items-center justify-between border-b border-gray-100 bg-white/80 py-4 pl-4 pr-4 backdrop-blur-md sm:pl-20 sm:pr-8 lg:px-8">
+        <div className="flex flex-col">
+          <h1 className="text-xl font-bold text-gray-900 tracking-tight leading-none">
+            {getText('merchant.content.title', 'Content')}
+          </h1>
+          <span className="text-[10px] font-bold text-blue-600 uppercase tracking-widest mt-1">
+            {getText('merchant.content.subtitle', 'Pages and blog posts')}
+          </span>
+        </div>
+
+        <Button
+          className="h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold shadow-lg shadow-blue-500/20 transition-all hover:bg-blue-700 sm:px-6"
+          onClick={() => setDialog({ kind: 'create' })}
+        >
+          <Plus className="mr-0 h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">
+            {type === 'POST'
+              ? getText('merchant.content.addPost', 'New Post')
+              : getText('merchant.content.addPage', 'New Page')}
+          </span>
+        </Button>
+      </div>
+
+      <div className="w-full max-w-[1600px] mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <Tabs
+            value={type}
+            onValueChange={(value) => {
+              setType(value as ContentType)
+              setPage(1)
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="PAGE">{getText('merchant.content.pages', 'Pages')}</TabsTrigger>
+              <TabsTrigger value="POST">{getText('merchant.content.posts', 'Blog Posts')}</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="relative w-full sm:w-72">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              className="pl-9"
+              placeholder={getText('merchant.content.search', 'Search by title or slug')}
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value)
+                setPage(1)
+              }}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[400px]">
+            <div className="w-12 h-12 border-4 border-blue-50 border-t-blue-600 rounded-full animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center min-h-[400px]">
+            <div className="text-center bg-red-50 p-10 rounded-[3rem] border border-red-100 max-w-md">
+              <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-6" />
+              <h3 className="text-xl font-bold text-red-900 mb-8">{getText('merchant.content.loadFailed', 'Failed to load content')}</h3>
+              <Button
+                variant="outline"
+                className="rounded-2xl border-red-200 text-red-600 hover:bg-red-100"
+                onClick={() => refetch()}
+              >
+                {getText('merchant.content.tryAgain', 'Try Again')}
+              </Button>
+            </div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-[2rem] border border-gray-100 bg-white py-20">
+            <FileText className="mb-4 h-12 w-12 text-gray-200" />
+            <p className="text-sm font-bold text-gray-400">{getText('merchant.content.empty', 'Nothing here yet')}</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-50 rounded-3xl border border-gray-100 bg-white shadow-sm">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 px-6 py-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="truncate text-sm font-bold text-gray-900">{entry.title}</h3>
+                    <Badge variant="secondary" className={`text-[10px] ${VISIBILITY_STYLES[entry.visibility]}`}>
+                      {visibilityLabel(entry.visibility)}
+                    </Badge>
+                  </div>
+                  <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                    <span className="font-mono">{storefrontPath(entry)}</span>
+                    {entry.publishedAt && <span>{new Date(entry.publishedAt).toLocaleString()}</span>}
+                    {entry.tags.length > 0 && <span>{entry.tags.join(', ')}</span>}
+                    {entry.locales.length > 0 && (
+                      <span>{getText('merchant.content.translations', 'Translations')}: {entry.locales.join(', ')}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setDialog({ kind: 'edit', entry })}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0 text-gray-400 hover:text-red-600"
+                    onClick={() => setDialog({ kind: 'delete', entry })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 text-sm">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              {getText('common.actions.previous', 'Previous')}
+            </Button>
+            <span className="text-gray-500">{page} / {totalPages}</span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              {getText('common.actions.next', 'Next')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {dialog?.kind === 'create' && <ContentFormDialog open onOpenChange={closeDialog} type={type} />}
+      {dialog?.kind === 'edit' && (
+        <ContentFormDialog open onOpenChange={closeDialog} type={dialog.entry.type} entryId={dialog.entry.id} />
+      )}
+      {dialog?.kind === 'delete' && <DeleteContentDialog open onOpenChange={closeDialog} entry={dialog.entry} />}
+    </div>
+  )
+}
@@ -15,7 +15,7 @@ import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
-import { useAdminDashboard, useUser, useUpdateUser } from '@/lib/hooks/use-api'
+import { useAdminDashboard, useCustomerMemberships, useUser, useUpdateUser } from '@/lib/hooks/use-api'
 import { useT } from 'shared/src/i18n/react'
 import { useState, useEffect } from 'react'
 import { useToast } from '@/hooks/use-toast'
@@ -51,6 +51,7 @@ export default function CustomerDetailPage() {
   }
 
   const { data: user, isLoading, error, refetch } = useUser(userId)
+  const { data: memberships = [] } = useCustomerMemberships(userId)
   const updateUserMutation = useUpdateUser()
 
   // Initialize form data when user data loads
@@ -326,6 +327,24 @@ export default function CustomerDetailPage() {
                   )}
                 </div>
 
+                <div className="space-y-3">
+                  <Label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest leading-none block">
+                    {getText('merchant.customers.groups.title', 'Groups')}
+                  </Label>
+                  <div className="min-h-10 flex flex-wrap items-center gap-2 px-4 py-2 bg-gray-50/50 rounded-xl border border-transparent">
+                    {memberships.length > 0 ? memberships.map((membership) => (
+                      <Badge key={membership.groupId} variant="outline" className="text-[10px] font-bold border-gray-200 text-gray-600">
+                        {membership.name}
+                        {membership.source === 'RULE' && (
+                          <span className="ml-1 font-normal text-gray-400">({getText('merchant.customers.groups.automatic', 'automatic')})</span>
+                        )}
+                      </Badge>
+                    )) : (
+                      <span className="text-sm text-gray-400">{getText('merchant.customers.groups.noGroups', 'Not in any group')}</span>
+                    )}
+                  </div>
+                </div>
+
                 <div className="space-y-3">
                   <Label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest leading-none block">
                     {getText('merchant.customers.detail.avatarUrl', 'Interface Skin URL')}
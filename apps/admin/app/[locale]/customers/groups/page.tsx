@@ -0,0 +1,183 @@
+/**
+ * Customer Groups Page
+ *
+ * Customer groups with their membership rules, plus dialogs to manage
+ * members, group price lists and group-only products.
+ */
+
+'use client'
+
+import { AlertTriangle, Edit, Plus, Settings2, Trash2, UsersRound } from 'lucide-react'
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { PageNav } from '@/components/layout/page-nav'
+import {
+  CustomerGroupFormDialog,
+  DeleteCustomerGroupDialog,
+  ManageCustomerGroupDialog,
+} from '@/components/customers/CustomerGroupDialogs'
+import { useCustomerGroups } from '@/lib/hooks/use-api'
+import type { CustomerGroup } from '@/lib/api'
+import { useT } from 'shared/src/i18n/react'
+
+type GroupDialog =
+  | { kind: 'create' }
+  | { kind: 'edit'; group: CustomerGroup }
+  | { kind: 'manage'; group: CustomerGroup }
+  | { kind: 'delete'; group: CustomerGroup }
+
+export default function CustomerGroupsPage() {
+  const t = useT()
+  const { data: groups = [], isLoading, error, refetch } = useCustomerGroups()
+  const [dialog, setDialog] = useState<GroupDialog | null>(null)
+
+  // Helper function for translations with fallback
+  const getText = (key: string, fallback: string): string => {
+    if (!t) return fallback
+    const translated = t(key)
+    return translated === key ? fallback : translated
+  }
+
+  const navItems = [
+    { label: getText('merchant.customers.allCustomers', 'All Customers'), href: '/customers', exact: true },
+    { label: getText('merchant.customers.groups.title', 'Groups'), href: '/customers/groups' },
+  ]
+
+  const describeRules = (group: CustomerGroup): string[] => {
+    const rules: string[] = []
+    if (group.minLifetimeSpend != null) {
+      rules.push(`${getText('merchant.customers.groups.minLifetimeSpend', 'Minimum lifetime spend')}: ${group.minLifetimeSpend}`)
+    }
+    if (group.minOrderCount != null) {
+      rules.push(`${getText('merchant.customers.groups.minOrderCount', 'Minimum paid orders')}: ${group.minOrderCount}`)
+    }
+    if (group.emailDomains.length > 0) {
+      rules.push(`${getText('merchant.customers.groups.emailDomains', 'Email domains')}: ${group.emailDomains.join(', ')}`)
+    }
+    return rules
+  }
+
+  const closeDialog = (open: boolean) => {
+    if (!open) setDialog(null)
+  }
+
+  // Keep the open dialog on the refetched group so counts stay current
+  const currentGroup = (group: CustomerGroup) => groups.find((item) => item.id === group.id) ?? group
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-12 h-12 border-4 border-blue-50 border-t-blue-600 rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center bg-red-50 p-10 rounded-[3rem] border border-red-100 max-w-md">
+          <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-6" />
+          <h3 className="text-xl font-bold text-red-900 mb-8">{getText('merchant.customers.loadFailed', 'Failed to load customers')}</h3>
+          <Button
+            variant="outline"
+            className="rounded-2xl border-red-200 text-red-600 hover:bg-red-100"
+            onClick={() => refetch()}
+          >
+            {getText('merchant.customers.tryAgain', 'Try Again')}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full bg-[#fcfdfe] min-h-screen">
+      {/* Header Bar */}
+      <div className="sticky top-0 z-40 flex items-center justify-between border-b border-gray-100 bg-white/80 py-4 pl-4 pr-4 backdrop-blur-md sm:pl-20 sm:pr-8 lg:px-8">
+        <div className="flex flex-col">
+          <h1 className="text-xl font-bold text-gray-900 tracking-tight leading-none">
+            {getText('merchant.customers.groups.title', 'Groups')}
+          </h1>
+          <span className="text-[10px] font-bold text-blue-600 uppercase tracking-widest mt-1">
+            {getText('merchant.customers.groups.subtitle', 'Segments, prices and exclusive products')}
+          </span>
+        </div>
+
+        <Button
+          className="h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold shadow-lg shadow-blue-500/20 transition-all hover:bg-blue-700 sm:px-6"
+          onClick={() => setDialog({ kind: 'create' })}
+        >
+          <Plus className="mr-0 h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">{getText('merchant.customers.groups.addGroup', 'Add Group')}</span>
+        </Button>
+      </div>
+
+      <div className="w-full max-w-[1600px] mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-6">
+        {/* In-page Navigation */}
+        <PageNav items={navItems} />
+
+        {groups.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-[2rem] border border-gray-100 bg-white py-20">
+            <UsersRound className="mb-4 h-12 w-12 text-gray-200" />
+            <p className="text-sm font-bold text-gray-400">{getText('merchant.customers.groups.empty', 'No customer groups yet')}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            {groups.map((group) => {
+              const rules = describeRules(group)
+              return (
+                <div key={group.id} className="rounded-3xl border border-gray-100 bg-white p-6 shadow-sm">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="truncate text-base font-bold text-gray-900">{group.name}</h3>
+                        <Badge variant="secondary" className="font-mono text-[10px]">{group.code}</Badge>
+                      </div>
+                      {group.description && <p className="mt-1 text-sm text-gray-500">{group.description}</p>}
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setDialog({ kind: 'manage', group })}>
+                        <Settings2 className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setDialog({ kind: 'edit', group })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-gray-400 hover:text-red-600"
+                        onClick={() => setDialog({ kind: 'delete', group })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="mt-4 space-y-1 text-xs text-gray-500">
+                    {rules.length > 0
+                      ? rules.map((rule) => <p key={rule}>{rule}</p>)
+                      : <p>{getText('merchant.customers.groups.manualOnly', 'Manual membership only')}</p>}
+                  </div>
+
+                  <div className="mt-4 flex gap-6 text-xs font-semibold text-gray-700">
+                    <span>{group.memberCount} {getText('merchant.customers.groups.members', 'Members')}</span>
+                    <span>{group.priceCount} {getText('merchant.customers.groups.prices', 'Prices')}</span>
+                    <span>{group.productCount} {getText('merchant.customers.groups.products', 'Products')}</span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {dialog?.kind === 'create' && <CustomerGroupFormDialog open onOpenChange={closeDialog} />}
+      {dialog?.kind === 'edit' && <CustomerGroupFormDialog open onOpenChange={closeDialog} group={dialog.group} />}
+      {dialog?.kind === 'manage' && (
+        <ManageCustomerGroupDialog open onOpenChange={closeDialog} group={currentGroup(dialog.group)} />
+      )}
+      {dialog?.kind === 'delete' && <DeleteCustomerGroupDialog open onOpenChange={closeDialog} group={dialog.group} />}
+    </div>
+  )
+}
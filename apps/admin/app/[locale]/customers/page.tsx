@@ -47,6 +47,7 @@ export default function CustomersPage() {
   // Page navigation items for Customers module
   const navItems = [
     { label: getText('merchant.customers.allCustomers', 'All Customers'), href: '/customers', exact: true },
+    { label: getText('merchant.customers.groups.title', 'Groups'), href: '/customers/groups' },
   ]
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedStatus, setSelectedStatus] = useState('All')
@@ -14,6 +14,7 @@ import { useT } from 'shared/src/i18n/react'
 import { useState } from 'react'
 import { RefundDialog } from '@/components/orders/RefundDialog'
 import { ShipOrderDialog } from '@/components/orders/ShipOrderDialog'
+import { OrderReturnsPanel } from '@/components/orders/OrderReturnsPanel'
 import { formatCurrency, cn } from '@/lib/utils'
 
 export default function OrderDetailPage() {
@@ -239,6 +240,9 @@ export default function OrderDetailPage() {
               </div>
             )}
 
+            {/* Return Requests */}
+            <OrderReturnsPanel returns={order.returns ?? []} />
+
             {/* Financial Status Section */}
             <div className="bg-gray-900 rounded-[2.5rem] p-10 text-white relative overflow-hidden group shadow-xl">
               <div className="absolute top-0 right-0 p-12 opacity-5 scale-110 -translate-y-4 translate-x-4">
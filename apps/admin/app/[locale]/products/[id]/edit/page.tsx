@@ -44,6 +44,7 @@ interface ProductFormData {
   description: string
   category: string
   requiresShipping: boolean
+  productType: string
   images: string[]
   variants: any[]
   seoMeta: {
@@ -85,6 +86,7 @@ export default function EditProductPage() {
     description: '',
     category: 'none',
     requiresShipping: true,
+    productType: 'physical',
     images: [],
     variants: [],
     seoMeta: {
@@ -115,6 +117,7 @@ export default function EditProductPage() {
         description: product.description ?? '',
         category: product.categoryId || 'none',
         requiresShipping: product.requiresShipping !== false,
+        productType: product.productType || 'physical',
         images: Array.isArray(product.images) ? product.images : [],
         variants: product.variants?.map((v: any) => ({
           id: v.id,
@@ -168,6 +171,7 @@ export default function EditProductPage() {
         name: formData.name,
         description: formData.description,
         categoryId: formData.category === 'none' ? null : formData.category,
+        productType: formData.productType,
         requiresShipping: formData.requiresShipping,
         images: formData.images,
         variants: formData.variants,
@@ -429,6 +433,28 @@ export default function EditProductPage() {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest pl-1">
+                    {getText('merchant.products.giftCard', 'Gift Card')}
+                  </Label>
+                  <div className="h-11 rounded-xl bg-gray-50/50 border border-gray-100 px-4 flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-700">
+                      {getText('merchant.products.giftCardHint', 'Each unit sold issues a gift card worth its price')}
+                    </span>
+                    <Switch
+                      checked={formData.productType === 'gift_card'}
+                      onCheckedChange={(checked) => setFormData(prev => ({
+                        ...prev,
+                        // Switching back restores the type the product had, unless it started as a gift card
+                        productType: checked
+                          ? 'gift_card'
+                          : (product?.productType && product.productType !== 'gift_card' ? product.productType : 'physical'),
+                        requiresShipping: checked ? false : prev.requiresShipping,
+                      }))}
+                    />
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <Label className="text-[10px] font-bold text-gray-400 uppercase tracking-widest pl-1">Description</Label>
                   <Textarea
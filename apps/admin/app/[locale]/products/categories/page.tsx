@@ -0,0 +1,175 @@
+/**
+ * Product Categories Page
+ *
+ * Category tree with drag-and-drop ordering and nesting, plus create, edit,
+ * translate and delete dialogs.
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, ArrowLeft, FolderTree, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { CategoryTree, type CategoryDrop } from '@/components/products/CategoryTree'
+import { CategoryFormDialog, DeleteCategoryDialog, type CategoryOption } from '@/components/products/CategoryDialogs'
+import { useCategoryTree, useMoveCategory, useReorderCategories } from '@/lib/hooks/use-api'
+import type { CategoryTreeNode } from '@/lib/api'
+import { useT, useLocale } from 'shared/src/i18n/react'
+
+type CategoryDialog =
+  | { kind: 'create'; parentId: string | null }
+  | { kind: 'edit'; categoryId: string }
+  | { kind: 'delete'; category: CategoryTreeNode }
+
+function flattenTree(nodes: CategoryTreeNode[], result: CategoryOption[] = []): CategoryOption[] {
+  for (const node of nodes) {
+    result.push({ id: node.id, name: node.name, level: node.level })
+    flattenTree(node.children, result)
+  }
+  return result
+}
+
+function findNode(nodes: CategoryTreeNode[], id: string): CategoryTreeNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node
+    const found = findNode(node.children, id)
+    if (found) return found
+  }
+  return null
+}
+
+export default function CategoriesPage() {
+  const t = useT()
+  const locale = useLocale()
+  const { data: tree = [], isLoading, error, refetch } = useCategoryTree()
+  const moveMutation = useMoveCategory()
+  const reorderMutation = useReorderCategories()
+  const [dialog, setDialog] = useState<CategoryDialog | null>(null)
+
+  // Helper function for translations with fallback
+  const getText = (key: string, fallback: string): string => {
+    if (!t) return fallback
+    const translated = t(key)
+    return translated === key ? fallback : translated
+  }
+
+  const options = useMemo(() => flattenTree(tree), [tree])
+
+  const handleDrop = ({ categoryId, targetId, placement }: CategoryDrop) => {
+    const dragged = findNode(tree, categoryId)
+    if (!dragged) return
+
+    if (placement === 'inside') {
+      if (dragged.parentId === targetId) return
+      moveMutation.mutate({ id: categoryId, parentId: targetId })
+      return
+    }
+
+    const target = targetId ? findNode(tree, targetId) : null
+    if (!target || target.id === categoryId) return
+    const parentId = target.parentId
+    const siblings = parentId ? findNode(tree, parentId)?.children ?? [] : tree
+    const orderedIds = siblings.map((sibling) => sibling.id).filter((id) => id !== categoryId)
+    const position = orderedIds.indexOf(target.id)
+
+    if (dragged.parentId === parentId) {
+      orderedIds.splice(position, 0, categoryId)
+      reorderMutation.mutate({ parentId, categoryIds: orderedIds })
+    } else {
+      moveMutation.mutate({ id: categoryId, parentId, position })
+    }
+  }
+
+  const closeDialog = (open: boolean) => {
+    if (!open) setDialog(null)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-12 h-12 border-4 border-blue-50 border-t-blue-600 rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center bg-red-50 p-10 rounded-[3rem] border border-red-100 max-w-md">
+          <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-6" />
+          <h3 className="text-xl font-bold text-red-900 mb-8">{getText('merchant.products.loadFailed', 'System Communication Failure')}</h3>
+          <Button
+            variant="outline"
+            className="rounded-2xl border-red-200 text-red-600 hover:bg-red-100"
+            onClick={() => refetch()}
+          >
+            {getText('merchant.products.retry', 'Retry Sync')}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full bg-[#fcfdfe] min-h-screen">
+      {/* Header Bar */}
+      <div className="sticky top-0 z-40 flex items-center justify-between border-b border-gray-100 bg-white/80 py-4 pl-4 pr-4 backdrop-blur-md sm:pl-20 sm:pr-8 lg:px-8">
+        <div className="flex items-center gap-4">
+          <Link href={`/${locale}/products`} className="text-gray-400 hover:text-gray-900">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div className="flex flex-col">
+            <h1 className="text-xl font-bold text-gray-900 tracking-tight leading-none">
+              {getText('merchant.products.categories.title', 'Categories')}
+            </h1>
+            <span className="text-[10px] font-bold text-blue-600 uppercase tracking-widest mt-1">
+              {getText('merchant.products.categories.subtitle', 'Organize your catalog')}
+            </span>
+          </div>
+        </div>
+
+        <Button
+          className="h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold shadow-lg shadow-blue-500/20 transition-all hover:bg-blue-700 sm:px-6"
+          onClick={() => setDialog({ kind: 'create', parentId: null })}
+        >
+          <Plus className="mr-0 h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">{getText('merchant.products.categories.addCategory', 'Add Category')}</span>
+        </Button>
+      </div>
+
+      <div className="w-full max-w-[1000px] mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4">
+        <p className="text-xs text-gray-400">
+          {getText('merchant.products.categories.dragHint', 'Drag a category onto another to nest it, or between categories to reorder.')}
+        </p>
+
+        {tree.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-[2rem] border border-gray-100 bg-white py-20">
+            <FolderTree className="mb-4 h-12 w-12 text-gray-200" />
+            <p className="text-sm font-bold text-gray-400">{getText('merchant.products.categories.empty', 'No categories yet')}</p>
+          </div>
+        ) : (
+          <CategoryTree
+            nodes={tree}
+            productsLabel={getText('merchant.products.categories.products', 'products')}
+            moveToRootLabel={getText('merchant.products.categories.moveToRoot', 'Drop here to move to the top level')}
+            onDrop={handleDrop}
+            onAddChild={(parent) => setDialog({ kind: 'create', parentId: parent.id })}
+            onEdit={(category) => setDialog({ kind: 'edit', categoryId: category.id })}
+            onDelete={(category) => setDialog({ kind: 'delete', category })}
+          />
+        )}
+      </div>
+
+      {dialog?.kind === 'create' && (
+        <CategoryFormDialog open onOpenChange={closeDialog} parentId={dialog.parentId} options={options} />
+      )}
+      {dialog?.kind === 'edit' && (
+        <CategoryFormDialog open onOpenChange={closeDialog} categoryId={dialog.categoryId} options={options} />
+      )}
+      {dialog?.kind === 'delete' && (
+        <DeleteCategoryDialog open onOpenChange={closeDialog} category={dialog.category} options={options} />
+      )}
+    </div>
+  )
+}
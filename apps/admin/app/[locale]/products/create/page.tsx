@@ -33,6 +33,7 @@ interface ProductFormData {
   description: string
   category: string
   requiresShipping: boolean
+  isGiftCard: boolean
   images: string[]
   variants: Array<{
     id?: string
@@ -66,6 +67,7 @@ export default function CreateProductPage() {
     description: '',
     category: 'none',
     requiresShipping: true,
+    isGiftCard: false,
     images: [],
     variants: [{
       tempId: generateId(),
@@ -115,6 +117,7 @@ export default function CreateProductPage() {
         name: formData.name,
         description: formData.description,
         categoryId: formData.category === 'none' ? null : formData.category,
+        productType: formData.isGiftCard ? 'gift_card' : 'physical',
         requiresShipping: formData.requiresShipping,
         images: formData.images,
         variants: formData.variants
@@ -205,6 +208,24 @@ export default function CreateProductPage() {
                       />
                     </div>
                   </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs font-bold text-gray-500 uppercase tracking-tighter">
+                      {getText('merchant.products.giftCard', 'Gift Card')}
+                    </Label>
+                    <div className="h-12 rounded-2xl bg-gray-50/50 border border-gray-100 px-4 flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-700">
+                        {getText('merchant.products.giftCardHint', 'Each unit sold issues a gift card worth its price')}
+                      </span>
+                      <Switch
+                        checked={formData.isGiftCard}
+                        onCheckedChange={(checked) => setFormData(prev => ({
+                          ...prev,
+                          isGiftCard: checked,
+                          requiresShipping: checked ? false : prev.requiresShipping,
+                        }))}
+                      />
+                    </div>
+                  </div>
                 </div>
 
                 <div className="space-y-2">
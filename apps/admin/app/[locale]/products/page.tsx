@@ -8,7 +8,7 @@
 
 'use client'
 
-import { AlertTriangle, Box, CheckCircle, Pencil, Plus, Search, Trash2 } from 'lucide-react'
+import { AlertTriangle, Box, CheckCircle, FolderTree, MessageSquare, Pencil, Plus, Search, Trash2 } from 'lucide-react'
 import { useState } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
@@ -163,6 +163,18 @@ export default function ProductsPage() {
         </div>
 
         <div className="flex gap-3">
+          <Link href={`/${locale}/products/categories`}>
+            <Button variant="outline" className="h-10 rounded-xl border-gray-200 px-4 text-sm font-semibold text-gray-600 hover:bg-gray-50 sm:px-6">
+              <FolderTree className="mr-0 h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{getText('merchant.products.categories.title', 'Categories')}</span>
+            </Button>
+          </Link>
+          <Link href={`/${locale}/products/reviews`}>
+            <Button variant="outline" className="h-10 rounded-xl border-gray-200 px-4 text-sm font-semibold text-gray-600 hover:bg-gray-50 sm:px-6">
+              <MessageSquare className="mr-0 h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{getText('merchant.products.reviews.title', 'Reviews')}</span>
+            </Button>
+          </Link>
           <Link href={`/${locale}/products/create`}>
             <Button className="h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold shadow-lg shadow-blue-500/20 transition-all hover:bg-blue-700 sm:px-6">
               <Plus className="mr-0 h-4 w-4 sm:mr-2" />
@@ -0,0 +1,300 @@
+/**
+ * Product Reviews Page
+ *
+ * Moderation queue for customer reviews: approve or reject pending reviews,
+ * reply on behalf of the store and delete abusive ones.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, ArrowLeft, BadgeCheck, Check, MessageSquare, Star, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  useApproveReview,
+  useDeleteReview,
+  useDeleteReviewReply,
+  useRejectReview,
+  useReviews,
+  useSaveReviewReply,
+} from '@/lib/hooks/use-api'
+import type { AdminProductReviewDTO, ProductReviewStatus } from 'shared'
+import { useT, useLocale } from 'shared/src/i18n/react'
+import { cn } from '@/lib/utils'
+
+const STATUS_TABS: Array<{ status: ProductReviewStatus; key: string; fallback: string }> = [
+  { status: 'PENDING', key: 'merchant.products.reviews.pending', fallback: 'Pending' },
+  { status: 'APPROVED', key: 'merchant.products.reviews.approved', fallback: 'Approved' },
+  { status: 'REJECTED', key: 'merchant.products.reviews.rejected', fallback: 'Rejected' },
+]
+
+type ReviewAction =
+  | { kind: 'reject'; reviewId: string }
+  | { kind: 'reply'; reviewId: string }
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <div className="flex items-center">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <Star
+          key={i}
+          className={cn('h-3.5 w-3.5', i < rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-200')}
+        />
+      ))}
+    </div>
+  )
+}
+
+export default function ProductReviewsPage() {
+  const t = useT()
+  const locale = useLocale()
+  const [status, setStatus] = useState<ProductReviewStatus>('PENDING')
+  const [page, setPage] = useState(1)
+  const [action, setAction] = useState<ReviewAction | null>(null)
+  const [text, setText] = useState('')
+  const { data, isLoading, error, refetch } = useReviews({ status, page, limit: 20 })
+  const approveMutation = useApproveReview()
+  const rejectMutation = useRejectReview()
+  const saveReplyMutation = useSaveReviewReply()
+  const deleteReplyMutation = useDeleteReviewReply()
+  const deleteMutation = useDeleteReview()
+
+  // Helper function for translations with fallback
+  const getText = (key: string, fallback: string): string => {
+    if (!t) return fallback
+    const translated = t(key)
+    return translated === key ? fallback : translated
+  }
+
+  const reviews = data?.items ?? []
+  const totalPages = data?.totalPages ?? 1
+
+  const openAction = (next: ReviewAction, initialText = '') => {
+    setAction(next)
+    setText(initialText)
+  }
+
+  const closeAction = () => {
+    setAction(null)
+    setText('')
+  }
+
+  const submitAction = (review: AdminProductReviewDTO) => {
+    if (!action) return
+    if (action.kind === 'reject') {
+      rejectMutation.mutate({ id: review.id, reason: text.trim() || undefined }, { onSuccess: closeAction })
+    } else if (text.trim()) {
+      saveReplyMutation.mutate({ id: review.id, reply: text.trim() }, { onSuccess: closeAction })
+    }
+  }
+
+  const handleDelete = (review: AdminProductReviewDTO) => {
+    if (window.confirm(getText('merchant.products.reviews.deleteConfirm', 'Delete this review? This cannot be undone.'))) {
+      deleteMutation.mutate(review.id)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center bg-red-50 p-10 rounded-[3rem] border border-red-100 max-w-md">
+          <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-6" />
+          <h3 className="text-xl font-bold text-red-900 mb-8">{getText('merchant.products.loadFailed', 'System Communication Failure')}</h3>
+          <Button
+            variant="outline"
+            className="rounded-2xl border-red-200 text-red-600 hover:bg-red-100"
+            onClick={() => refetch()}
+          >
+            {getText('merchant.products.retry', 'Retry Sync')}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-full bg-[#fcfdfe] min-h-screen">
+      {/* Header Bar */}
+      <div className="sticky top-0 z-40 flex items-center justify-between border-b border-gray-100 bg-white/80 py-4 pl-4 pr-4 backdrop-blur-md sm:pl-20 sm:pr-8 lg:px-8">
+        <div className="flex items-center gap-4">
+          <Link href={`/${locale}/products`} className="text-gray-400 hover:text-gray-900">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div className="flex flex-col">
+            <h1 className="text-xl font-bold text-gray-900 tracking-tight leading-none">
+              {getText('merchant.products.reviews.title', 'Reviews')}
+            </h1>
+            <span className="text-[10px] font-bold text-blue-600 uppercase tracking-widest mt-1">
+              {getText('merchant.products.reviews.subtitle', 'Moderate customer reviews')}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full max-w-[1000px] mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4">
+        <div className="flex gap-2">
+          {STATUS_TABS.map((tab) => (
+            <Button
+              key={tab.status}
+              variant={status === tab.status ? 'default' : 'outline'}
+              className="h-9 rounded-xl px-4 text-sm font-semibold"
+              onClick={() => {
+                setStatus(tab.status)
+                setPage(1)
+                closeAction()
+              }}
+            >
+              {getText(tab.key, tab.fallback)}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[300px]">
+            <div className="w-12 h-12 border-4 border-blue-50 border-t-blue-600 rounded-full animate-spin" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-[2rem] border border-gray-100 bg-white py-20">
+            <MessageSquare className="mb-4 h-12 w-12 text-gray-200" />
+            <p className="text-sm font-bold text-gray-400">{getText('merchant.products.reviews.empty', 'No reviews in this queue')}</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {reviews.map((review) => (
+              <li key={review.id} className="rounded-2xl border border-gray-100 bg-white p-5 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Stars rating={review.rating} />
+                      {review.title && <span className="text-sm font-bold text-gray-900">{review.title}</span>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-400">
+                      <Link href={`/${locale}/products/${review.productId}`} className="font-semibold text-blue-600 hover:underline">
+                        {review.productName}
+                      </Link>
+                      {review.variantName && <span>· {review.variantName}</span>}
+                      <span>· {review.customer.username} ({review.customer.email})</span>
+                      <span>· {new Date(review.createdAt).toLocaleString(locale)}</span>
+                      {review.verifiedPurchase && (
+                        <span className="inline-flex items-center gap-1 text-green-600">
+                          <BadgeCheck className="h-3.5 w-3.5" />
+                          {getText('merchant.products.reviews.verifiedPurchase', 'Verified purchase')}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    {review.status !== 'APPROVED' && (
+                      <Button
+                        size="sm"
+                        className="rounded-xl bg-green-600 hover:bg-green-700"
+                        disabled={approveMutation.isPending}
+                        onClick={() => approveMutation.mutate(review.id)}
+                      >
+                        <Check className="mr-1 h-4 w-4" />
+                        {getText('merchant.products.reviews.approve', 'Approve')}
+                      </Button>
+                    )}
+                    {review.status !== 'REJECTED' && (
+                      <Button size="sm" variant="outline" className="rounded-xl" onClick={() => openAction({ kind: 'reject', reviewId: review.id })}>
+                        <X className="mr-1 h-4 w-4" />
+                        {getText('merchant.products.reviews.reject', 'Reject')}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="rounded-xl"
+                      onClick={() => openAction({ kind: 'reply', reviewId: review.id }, review.reply ?? '')}
+                    >
+                      <MessageSquare className="mr-1 h-4 w-4" />
+                      {review.reply
+                        ? getText('merchant.products.reviews.editReply', 'Edit reply')
+                        : getText('merchant.products.reviews.reply', 'Reply')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="rounded-xl text-red-600 hover:bg-red-50"
+                      aria-label={getText('merchant.products.reviews.delete', 'Delete')}
+                      onClick={() => handleDelete(review)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-700 whitespace-pre-line">{review.body}</p>
+
+                {review.rejectionReason && (
+                  <p className="text-xs text-red-500">{review.rejectionReason}</p>
+                )}
+
+                {review.reply && action?.reviewId !== review.id && (
+                  <div className="rounded-xl bg-gray-50 p-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                        {getText('merchant.products.reviews.storeReply', 'Store reply')}
+                      </span>
+                      <button
+                        className="text-xs text-gray-400 hover:text-red-600"
+                        onClick={() => deleteReplyMutation.mutate(review.id)}
+                      >
+                        {getText('merchant.products.reviews.removeReply', 'Remove reply')}
+                      </button>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{review.reply}</p>
+                  </div>
+                )}
+
+                {action?.reviewId === review.id && (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={text}
+                      onChange={(event) => setText(event.target.value)}
+                      placeholder={action.kind === 'reject'
+                        ? getText('merchant.products.reviews.rejectReason', 'Reason shown to the customer (optional)')
+                        : getText('merchant.products.reviews.replyPlaceholder', 'Write a public reply from the store')}
+                      maxLength={action.kind === 'reject' ? 2000 : 5000}
+                      className="rounded-xl"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" className="rounded-xl" onClick={closeAction}>
+                        {getText('merchant.products.reviews.cancel', 'Cancel')}
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="rounded-xl"
+                        disabled={(action.kind === 'reply' && !text.trim()) || rejectMutation.isPending || saveReplyMutation.isPending}
+                        onClick={() => submitAction(review)}
+                      >
+                        {action.kind === 'reject'
+                          ? getText('merchant.products.reviews.reject', 'Reject')
+                          : getText('merchant.products.reviews.saveReply', 'Save reply')}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" className="rounded-xl" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              {getText('merchant.products.reviews.previous', 'Previous')}
+            </Button>
+            <span className="text-xs text-gray-400">{page} / {totalPages}</span>
+            <Button variant="outline" size="sm" className="rounded-xl" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              {getText('merchant.products.reviews.next', 'Next')}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,241 @@
+/**
+ * Theme Editor Page
+ *
+ * Visual editor for the active storefront Theme Pack: page blocks and theme
+ * settings are saved as a draft, previewed in the shop with a signed link and
+ * published as a new version that can be reverted later.
+ */
+
+'use client'
+
+import { AlertTriangle, Eye, Loader2, Plus, Upload, X } from 'lucide-react'
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { PageNav } from '@/components/layout/page-nav'
+import {
+  PageBlocksEditor,
+  PublishThemeDialog,
+  TemplateSourceBadge,
+  ThemePublicationHistory,
+  ThemeSettingsEditor,
+} from '@/components/themes/ThemeEditorPanels'
+import {
+  useCreateThemePreview,
+  useDiscardThemeDraft,
+  useThemeAppBlocks,
+  useThemeEditor,
+} from '@/lib/hooks/use-api'
+import { useT } from 'shared/src/i18n/react'
+
+const TARGET = 'shop' as const
+const PAGE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+export default function ThemeEditorPage() {
+  const t = useT()
+  const { data: state, isLoading, error, refetch } = useThemeEditor(TARGET)
+  const { data: appBlocks = [] } = useThemeAppBlocks()
+  const discardMutation = useDiscardThemeDraft()
+  const previewMutation = useCreateThemePreview()
+  const [selectedPage, setSelectedPage] = useState<string | null>(null)
+  const [newPage, setNewPage] = useState('')
+  const [extraPages, setExtraPages] = useState<string[]>([])
+  const [publishOpen, setPublishOpen] = useState(false)
+  // Bumped when the draft is discarded so editors drop their local copies
+  const [resetCount, setResetCount] = useState(0)
+
+  // Helper function for translations with fallback
+  const getText = (key: string, fallback: string): string => {
+    if (!t) return fallback
+    const translated = t(key)
+    return translated === key ? fallback : translated
+  }
+
+  const navItems = [
+    { label: getText('merchant.themes.management', 'Themes'), href: '/themes', exact: true },
+    { label: getText('merchant.themes.editor.title', 'Theme Editor'), href: '/themes/editor' },
+  ]
+
+  const openPreview = () => {
+    // Open the tab synchronously so popup blockers allow it
+    const previewWindow = window.open('about:blank', '_blank')
+    previewMutation.mutate(TARGET, {
+      onSuccess: ({ previewUrl }) => {
+        if (previewWindow && previewUrl) {
+          previewWindow.location.href = previewUrl
+        } else {
+          previewWindow?.close()
+        }
+      },
+      onError: () => previewWindow?.close(),
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-12 h-12 border-4 border-blue-50 border-t-blue-600 rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !state) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center bg-red-50 p-10 rounded-[3rem] border border-red-100 max-w-md">
+          <AlertTriangle className="w-16 h-16 text-red-500 mx-auto mb-6" />
+          <h3 className="text-xl font-bold text-red-900 mb-2">{getText('merchant.themes.editor.loadFailed', 'Theme editor unavailable')}</h3>
+          <p className="text-sm text-red-700 mb-8">
+            {getText('merchant.themes.editor.packOnly', 'The editor works with an active Theme Pack.')}
+          </p>
+          <Button
+            variant="outline"
+            className="rounded-2xl border-red-200 text-red-600 hover:bg-red-100"
+            onClick={() => refetch()}
+          >
+            {getText('merchant.customers.tryAgain', 'Try Again')}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const pages = [
+    ...state.pages,
+    ...extraPages
+      .filter((page) => !state.pages.some((item) => item.page === page))
+      .map((page) => ({ page, source: 'theme' as const, blockCount: 0 })),
+  ]
+  const currentPage = selectedPage ?? pages[0]?.page ?? null
+
+  const addPage = () => {
+    const page = newPage.trim().toLowerCase()
+    if (!PAGE_NAME_PATTERN.test(page)) return
+    setExtraPages((prev) => (prev.includes(page) ? prev : [...prev, page]))
+    setSelectedPage(page)
+    setNewPage('')
+  }
+
+  return (
+    <div className="w-full bg-[#fcfdfe] min-h-screen">
+      {/* Header Bar */}
+      <div className="sticky top-0 z-40 flex items-center justify-between border-b border-gray-100 bg-white/80 py-4 pl-4 pr-4 backdrop-blur-md sm:pl-20 sm:pr-8 lg:px-8">
+        <div className="flex flex-col">
+          <h1 className="text-xl font-bold text-gray-900 tracking-tight leading-none">
+            {state.theme.name}
+          </h1>
+          <span className="text-[10px] font-bold text-blue-600 uppercase tracking-widest mt-1">
+            {state.liveVersion
+              ? `${getText('merchant.themes.editor.liveVersion', 'Live version')} v${state.liveVersion}`
+              : getText('merchant.themes.editor.subtitle', 'Blocks, settings and versions')}
+            {state.draft ? ` · ${getText('merchant.themes.editor.unpublishedChanges', 'Unpublished changes')}` : ''}
+          </span>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="h-10 rounded-xl"
+            disabled={!state.draft || discardMutation.isPending}
+            onClick={() => discardMutation.mutate(TARGET, { onSuccess: () => setResetCount((count) => count + 1) })}
+          >
+            <X className="mr-0 h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">{getText('merchant.themes.editor.discard', 'Discard')}</span>
+          </Button>
+          <Button variant="outline" className="h-10 rounded-xl" disabled={!state.draft || previewMutation.isPending} onClick={openPreview}>
+            {previewMutation.isPending ? <Loader2 className="mr-0 h-4 w-4 animate-spin sm:mr-2" /> : <Eye className="mr-0 h-4 w-4 sm:mr-2" />}
+            <span className="hidden sm:inline">{getText('merchant.themes.editor.preview', 'Preview')}</span>
+          </Button>
+          <Button
+            className="h-10 rounded-xl bg-blue-600 px-4 text-sm font-semibold shadow-lg shadow-blue-500/20 transition-all hover:bg-blue-700 sm:px-6"
+            disabled={!state.draft}
+            onClick={() => setPublishOpen(true)}
+          >
+            <Upload className="mr-0 h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">{getText('merchant.themes.editor.publish', 'Publish')}</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="w-full max-w-[1600px] mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-6">
+        {/* In-page Navigation */}
+        <PageNav items={navItems} />
+
+        <Tabs defaultValue="pages">
+          <TabsList>
+            <TabsTrigger value="pages">{getText('merchant.themes.editor.pages', 'Pages')}</TabsTrigger>
+            <TabsTrigger value="settings">{getText('merchant.themes.editor.settings', 'Theme settings')}</TabsTrigger>
+            <TabsTrigger value="history">{getText('merchant.themes.editor.history', 'History')}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pages" className="mt-6">
+            <div className="grid gap-6 lg:grid-cols-[240px_minmax(0,1fr)]">
+              <div className="space-y-3">
+                <ul className="space-y-1">
+                  {pages.map((item) => (
+                    <li key={item.page}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedPage(item.page)}
+                        className={`flex w-full items-center justify-between gap-2 rounded-xl px-3 py-2 text-left text-sm ${item.page === currentPage ? 'bg-blue-50 font-semibold text-blue-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        <span className="truncate font-mono">{item.page}</span>
+                        <TemplateSourceBadge source={item.source} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Input
+                    value={newPage}
+                    onChange={(e) => setNewPage(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addPage()}
+                    placeholder={getText('merchant.themes.editor.newPage', 'New page')}
+                    className="h-9 rounded-xl font-mono text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-9 w-9 shrink-0 rounded-xl p-0"
+                    disabled={!PAGE_NAME_PATTERN.test(newPage.trim().toLowerCase())}
+                    onClick={addPage}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {currentPage ? (
+                <PageBlocksEditor
+                  key={`${currentPage}-${state.liveVersion ?? 0}-${resetCount}`}
+                  target={TARGET}
+                  page={currentPage}
+                  appBlocks={appBlocks}
+                />
+              ) : (
+                <p className="py-20 text-center text-sm text-gray-400">
+                  {getText('merchant.themes.editor.noPages', 'This theme has no page templates')}
+                </p>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-6">
+            <ThemeSettingsEditor
+              key={`${state.liveVersion ?? 0}-${resetCount}`}
+              target={TARGET}
+              state={state}
+            />
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-6">
+            <ThemePublicationHistory target={TARGET} />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <PublishThemeDialog open={publishOpen} onOpenChange={setPublishOpen} target={TARGET} />
+    </div>
+  )
+}
@@ -0,0 +1,410 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FileText, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useT } from 'shared/src/i18n/react'
+import { DEFAULT_LOCALE, LOCALES, LOCALE_CONFIG } from 'shared/src/i18n'
+import type { ContentStatus, ContentSummary, ContentTranslation, ContentType } from '@/lib/api'
+import {
+    useContentEntry,
+    useCreateContent,
+    useDeleteContent,
+    useDeleteContentTranslation,
+    useSaveContentTranslation,
+    useUpdateContent,
+} from '@/lib/hooks/use-api'
+import { toast } from 'sonner'
+
+function useGetText() {
+    const t = useT()
+    return (key: string, fallback: string): string => {
+        if (!t) return fallback
+        const translated = t(key)
+        return translated === key ? fallback : translated
+    }
+}
+
+/** ISO timestamp to the `YYYY-MM-DDTHH:mm` local time a datetime-local input expects */
+function toLocalDateTime(value: string | null): string {
+    if (!value) return ''
+    const date = new Date(value)
+    const offset = date.getTimezoneOffset() * 60_000
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+function parseTags(value: string): string[] {
+    return Array.from(new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean)))
+}
+
+function TranslationEditor({ entryId, locale, translation }: {
+    entryId: string
+    locale: string
+    translation?: ContentTranslation
+}) {
+    const getText = useGetText()
+    const saveMutation = useSaveContentTranslation()
+    const deleteMutation = useDeleteContentTranslation()
+    const [form, setForm] = useState({ title: '', excerpt: '', body: '', metaTitle: '', metaDescription: '' })
+
+    useEffect(() => {
+        setForm({
+            title: translation?.title ?? '',
+            excerpt: translation?.excerpt ?? '',
+            body: translation?.body ?? '',
+            metaTitle: translation?.metaTitle ?? '',
+            metaDescription: translation?.metaDescription ?? '',
+        })
+    }, [translation])
+
+    const setField = (field: keyof typeof form) => (value: string) =>
+        setForm((current) => ({ ...current, [field]: value }))
+
+    const handleSave = async () => {
+        if (!form.title.trim()) {
+            toast.error(getText('merchant.content.titleRequired', 'Please enter a title'))
+            return
+        }
+        try {
+            await saveMutation.mutateAsync({
+                id: entryId,
+                locale,
+                data: {
+                    title: form.title.trim(),
+                    excerpt: form.excerpt || null,
+                    body: form.body,
+                    metaTitle: form.metaTitle || null,
+                    metaDescription: form.metaDescription || null,
+                },
+            })
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <div className="grid gap-2 rounded-2xl border border-gray-100 p-4">
+            <span className="text-[10px] font-black uppercase tracking-widest text-blue-600">
+                {LOCALE_CONFIG[locale as keyof typeof LOCALE_CONFIG]?.nativeName ?? locale}
+            </span>
+            <Input
+                placeholder={getText('merchant.content.entryTitle', 'Title')}
+                value={form.title}
+                onChange={(e) => setField('title')(e.target.value)}
+            />
+            <Textarea
+                placeholder={getText('merchant.content.excerpt', 'Excerpt')}
+                value={form.excerpt}
+                onChange={(e) => setField('excerpt')(e.target.value)}
+                rows={2}
+            />
+            <Textarea
+                placeholder={getText('merchant.content.body', 'Body (Markdown)')}
+                value={form.body}
+                onChange={(e) => setField('body')(e.target.value)}
+                rows={8}
+                className="font-mono text-xs"
+            />
+            <Input
+                placeholder={getText('merchant.products.create.seoTitle', 'SEO Title')}
+                value={form.metaTitle}
+                onChange={(e) => setField('metaTitle')(e.target.value)}
+            />
+            <Textarea
+                placeholder={getText('merchant.products.create.seoDescription', 'SEO Description')}
+                value={form.metaDescription}
+                onChange={(e) => setField('metaDescription')(e.target.value)}
+                rows={2}
+            />
+            <div className="flex justify-end gap-2">
+                {translation && (
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="rounded-xl text-red-600"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate({ id: entryId, locale })}
+                    >
+                        {getText('merchant.content.removeTranslation', 'Remove translation')}
+                    </Button>
+                )}
+                <Button size="sm" className="rounded-xl" disabled={saveMutation.isPending} onClick={handleSave}>
+                    {getText('common.actions.save', 'Save')}
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+interface ContentFormDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    type: ContentType
+    /** Entry being edited; omit to create one */
+    entryId?: string
+}
+
+/**
+ * Create or edit a page or blog post. A published entry with a future date
+ * stays hidden until then; translations are edited once the entry exists.
+ */
+export function ContentFormDialog({ open, onOpenChange, type, entryId }: ContentFormDialogProps) {
+    const getText = useGetText()
+    const { data: entry } = useContentEntry(entryId ?? null)
+    const createMutation = useCreateContent()
+    const updateMutation = useUpdateContent()
+    const [form, setForm] = useState({
+        title: '',
+        slug: '',
+        excerpt: '',
+        body: '',
+        coverImage: '',
+        tags: '',
+        status: 'DRAFT' as ContentStatus,
+        publishedAt: '',
+        metaTitle: '',
+        metaDescription: '',
+        canonicalUrl: '',
+    })
+    const isPending = createMutation.isPending || updateMutation.isPending
+    const translationLocales = LOCALES.filter((locale) => locale !== DEFAULT_LOCALE)
+
+    useEffect(() => {
+        if (!entry) return
+        setForm({
+            title: entry.title,
+            slug: entry.slug,
+            excerpt: entry.excerpt ?? '',
+            body: entry.body,
+            coverImage: entry.coverImage ?? '',
+            tags: entry.tags.join(', '),
+            status: entry.status,
+            publishedAt: toLocalDateTime(entry.publishedAt),
+            metaTitle: entry.metaTitle ?? '',
+            metaDescription: entry.metaDescription ?? '',
+            canonicalUrl: entry.canonicalUrl ?? '',
+        })
+    }, [entry])
+
+    const setField = (field: keyof typeof form) => (value: string) =>
+        setForm((current) => ({ ...current, [field]: value }))
+
+    const handleSubmit = async () => {
+        if (!form.title.trim()) {
+            toast.error(getText('merchant.content.titleRequired', 'Please enter a title'))
+            return
+        }
+        const data = {
+            title: form.title.trim(),
+            slug: form.slug.trim() || undefined,
+            excerpt: form.excerpt || null,
+            body: form.body,
+            coverImage: form.coverImage.trim() || null,
+            tags: parseTags(form.tags),
+            status: form.status,
+            publishedAt: form.publishedAt ? new Date(form.publishedAt).toISOString() : null,
+            metaTitle: form.metaTitle || null,
+            metaDescription: form.metaDescription || null,
+            canonicalUrl: form.canonicalUrl || null,
+        }
+        try {
+            if (entryId) {
+                await updateMutation.mutateAsync({ id: entryId, data })
+            } else {
+                await createMutation.mutateAsync({ ...data, type })
+            }
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    const title = type === 'POST'
+        ? (entryId ? getText('merchant.content.editPost', 'Edit Post') : getText('merchant.content.addPost', 'New Post'))
+        : (entryId ? getText('merchant.content.editPage', 'Edit Page') : getText('merchant.content.addPage', 'New Page'))
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <FileText className="w-5 h-5 text-blue-600" />
+                        {title}
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="content-title">{getText('merchant.content.entryTitle', 'Title')}</Label>
+                        <Input id="content-title" value={form.title} onChange={(e) => setField('title')(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="content-slug">{getText('merchant.content.slug', 'Slug')}</Label>
+                        <Input
+                            id="content-slug"
+                            placeholder={getText('merchant.content.slugHint', 'Leave empty to generate from the title')}
+                            value={form.slug}
+                            onChange={(e) => setField('slug')(e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="content-excerpt">{getText('merchant.content.excerpt', 'Excerpt')}</Label>
+                        <Textarea id="content-excerpt" value={form.excerpt} onChange={(e) => setField('excerpt')(e.target.value)} rows={2} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="content-body">{getText('merchant.content.body', 'Body (Markdown)')}</Label>
+                        <Textarea
+                            id="content-body"
+                            value={form.body}
+                            onChange={(e) => setField('body')(e.target.value)}
+                            rows={14}
+                            className="font-mono text-xs"
+                        />
+                    </div>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                        <div className="grid gap-2">
+                            <Label>{getText('merchant.content.status', 'Status')}</Label>
+                            <Select value={form.status} onValueChange={setField('status')}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="DRAFT">{getText('merchant.content.statuses.draft', 'Draft')}</SelectItem>
+                                    <SelectItem value="PUBLISHED">{getText('merchant.content.statuses.published', 'Published')}</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="content-published-at">{getText('merchant.content.publishedAt', 'Publish date')}</Label>
+                            <Input
+                                id="content-published-at"
+                                type="datetime-local"
+                                value={form.publishedAt}
+                                onChange={(e) => setField('publishedAt')(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <p className="-mt-2 text-xs text-gray-400">
+                        {getText('merchant.content.scheduleHint', 'Published entries with a future date go live at that time. Leave the date empty to publish now.')}
+                    </p>
+                    {type === 'POST' && (
+                        <div className="grid gap-2">
+                            <Label htmlFor="content-tags">{getText('merchant.content.tags', 'Tags')}</Label>
+                            <Input
+                                id="content-tags"
+                                placeholder={getText('merchant.content.tagsHint', 'Comma separated')}
+                                value={form.tags}
+                                onChange={(e) => setField('tags')(e.target.value)}
+                            />
+                        </div>
+                    )}
+                    <div className="grid gap-2">
+                        <Label htmlFor="content-cover">{getText('merchant.content.coverImage', 'Cover image URL')}</Label>
+                        <Input id="content-cover" placeholder="https://" value={form.coverImage} onChange={(e) => setField('coverImage')(e.target.value)} />
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label>{getText('merchant.products.create.seo', 'Search Engine Optimization')}</Label>
+                        <Input
+                            placeholder={getText('merchant.products.create.seoTitle', 'SEO Title')}
+                            value={form.metaTitle}
+                            onChange={(e) => setField('metaTitle')(e.target.value)}
+                        />
+                        <Textarea
+                            placeholder={getText('merchant.products.create.seoDescription', 'SEO Description')}
+                            value={form.metaDescription}
+                            onChange={(e) => setField('metaDescription')(e.target.value)}
+                            rows={2}
+                        />
+                        <Input placeholder="https://" value={form.canonicalUrl} onChange={(e) => setField('canonicalUrl')(e.target.value)} />
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label>{getText('merchant.content.translations', 'Translations')}</Label>
+                        {entryId && entry ? (
+                            translationLocales.map((locale) => (
+                                <TranslationEditor
+                                    key={locale}
+                                    entryId={entryId}
+                                    locale={locale}
+                                    translation={entry.translations.find((translation) => translation.locale === locale)}
+                                />
+                            ))
+                        ) : (
+                            <p className="text-xs text-gray-400">
+                                {getText('merchant.content.createFirst', 'Save the entry before adding translations')}
+                            </p>
+                        )}
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={isPending} className="bg-blue-600 hover:bg-blue-700">
+                        {isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('common.actions.save', 'Save')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+interface DeleteContentDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    entry: ContentSummary
+}
+
+export function DeleteContentDialog({ open, onOpenChange, entry }: DeleteContentDialogProps) {
+    const getText = useGetText()
+    const deleteMutation = useDeleteContent()
+
+    const handleDelete = async () => {
+        try {
+            await deleteMutation.mutateAsync(entry.id)
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Trash2 className="w-5 h-5 text-red-600" />
+                        {getText('merchant.content.deleteTitle', 'Delete')}: {entry.title}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {getText('merchant.content.deleteDescription', 'The entry and its translations are removed from the storefront.')}
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={deleteMutation.isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleDelete} disabled={deleteMutation.isPending} className="bg-red-600 hover:bg-red-700">
+                        {deleteMutation.isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('common.actions.delete', 'Delete')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,524 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Trash2, UsersRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useT } from 'shared/src/i18n/react'
+import type { CustomerGroup } from '@/lib/api'
+import {
+    useAddCustomerGroupMembers,
+    useAddCustomerGroupProducts,
+    useCreateCustomerGroup,
+    useCustomerGroupMembers,
+    useCustomerGroupPrices,
+    useCustomerGroupProducts,
+    useDeleteCustomerGroup,
+    useProduct,
+    useProducts,
+    useRemoveCustomerGroupMember,
+    useRemoveCustomerGroupPrice,
+    useRemoveCustomerGroupProduct,
+    useSetCustomerGroupPrices,
+    useUpdateCustomerGroup,
+    useUsers,
+} from '@/lib/hooks/use-api'
+import { toast } from 'sonner'
+
+function useGetText() {
+    const t = useT()
+    return (key: string, fallback: string): string => {
+        if (!t) return fallback
+        const translated = t(key)
+        return translated === key ? fallback : translated
+    }
+}
+
+function toOptionalNumber(value: string): number | null {
+    return value.trim() === '' ? null : Number(value)
+}
+
+interface CustomerGroupFormDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    /** Group being edited; omit to create one */
+    group?: CustomerGroup
+}
+
+/**
+ * Create or edit a customer group. Customers matching every rule set here are
+ * members without being added; the code is fixed once discounts can refer to it.
+ */
+export function CustomerGroupFormDialog({ open, onOpenChange, group }: CustomerGroupFormDialogProps) {
+    const getText = useGetText()
+    const createMutation = useCreateCustomerGroup()
+    const updateMutation = useUpdateCustomerGroup()
+    const [form, setForm] = useState({
+        name: group?.name ?? '',
+        code: group?.code ?? '',
+        description: group?.description ?? '',
+        minLifetimeSpend: group?.minLifetimeSpend?.toString() ?? '',
+        minOrderCount: group?.minOrderCount?.toString() ?? '',
+        emailDomains: group?.emailDomains.join(', ') ?? '',
+    })
+    const isPending = createMutation.isPending || updateMutation.isPending
+
+    const setField = (field: keyof typeof form) => (value: string) =>
+        setForm((current) => ({ ...current, [field]: value }))
+
+    const handleSubmit = async () => {
+        if (!form.name.trim()) {
+            toast.error(getText('merchant.customers.groups.nameRequired', 'Please enter a name'))
+            return
+        }
+        const data = {
+            name: form.name.trim(),
+            description: form.description || null,
+            minLifetimeSpend: toOptionalNumber(form.minLifetimeSpend),
+            minOrderCount: toOptionalNumber(form.minOrderCount),
+            emailDomains: form.emailDomains.split(',').map((domain) => domain.trim()).filter(Boolean),
+        }
+        try {
+            if (group) {
+                await updateMutation.mutateAsync({ id: group.id, data })
+            } else {
+                await createMutation.mutateAsync({ ...data, code: form.code.trim() || undefined })
+            }
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <UsersRound className="w-5 h-5 text-blue-600" />
+                        {group
+                            ? getText('merchant.customers.groups.editGroup', 'Edit Group')
+                            : getText('merchant.customers.groups.addGroup', 'Add Group')}
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="group-name">{getText('merchant.customers.groups.name', 'Name')}</Label>
+                        <Input id="group-name" value={form.name} onChange={(e) => setField('name')(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="group-code">{getText('merchant.customers.groups.code', 'Code')}</Label>
+                        <Input
+                            id="group-code"
+                            placeholder={getText('merchant.customers.groups.codeHint', 'Leave empty to generate from the name')}
+                            value={form.code}
+                            disabled={!!group}
+                            onChange={(e) => setField('code')(e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="group-description">{getText('merchant.customers.groups.description', 'Description')}</Label>
+                        <Textarea id="group-description" value={form.description} onChange={(e) => setField('description')(e.target.value)} rows={2} />
+                    </div>
+
+                    <div className="grid gap-3 rounded-2xl border border-gray-100 p-4">
+                        <div>
+                            <Label>{getText('merchant.customers.groups.rules', 'Automatic membership')}</Label>
+                            <p className="mt-1 text-xs text-gray-400">
+                                {getText('merchant.customers.groups.rulesHint', 'Customers matching every rule set here join the group automatically.')}
+                            </p>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="grid gap-2">
+                                <Label htmlFor="group-spend" className="text-xs">
+                                    {getText('merchant.customers.groups.minLifetimeSpend', 'Minimum lifetime spend')}
+                                </Label>
+                                <Input
+                                    id="group-spend"
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={form.minLifetimeSpend}
+                                    onChange={(e) => setField('minLifetimeSpend')(e.target.value)}
+                                />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="group-orders" className="text-xs">
+                                    {getText('merchant.customers.groups.minOrderCount', 'Minimum paid orders')}
+                                </Label>
+                                <Input
+                                    id="group-orders"
+                                    type="number"
+                                    min="1"
+                                    step="1"
+                                    value={form.minOrderCount}
+                                    onChange={(e) => setField('minOrderCount')(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="group-domains" className="text-xs">
+                                {getText('merchant.customers.groups.emailDomains', 'Email domains')}
+                            </Label>
+                            <Input
+                                id="group-domains"
+                                placeholder="example.com, example.org"
+                                value={form.emailDomains}
+                                onChange={(e) => setField('emailDomains')(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={isPending} className="bg-blue-600 hover:bg-blue-700">
+                        {isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('common.actions.save', 'Save')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+interface DeleteCustomerGroupDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    group: CustomerGroup
+}
+
+/**
+ * Delete a group. Groups that discount codes are restricted to cannot be deleted.
+ */
+export function DeleteCustomerGroupDialog({ open, onOpenChange, group }: DeleteCustomerGroupDialogProps) {
+    const getText = useGetText()
+    const deleteMutation = useDeleteCustomerGroup()
+
+    const handleDelete = async () => {
+        try {
+            await deleteMutation.mutateAsync(group.id)
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Trash2 className="w-5 h-5 text-red-600" />
+                        {getText('merchant.customers.groups.deleteTitle', 'Delete Group')}: {group.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {getText('merchant.customers.groups.deleteDescription', 'Members lose the group prices and group-only products.')}
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={deleteMutation.isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleDelete} disabled={deleteMutation.isPending} className="bg-red-600 hover:bg-red-700">
+                        {deleteMutation.isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('common.actions.delete', 'Delete')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+function RemoveButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
+    return (
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-gray-400 hover:text-red-600" disabled={disabled} onClick={onClick}>
+            <Trash2 className="h-4 w-4" />
+        </Button>
+    )
+}
+
+/**
+ * Search field with the first matching products; used to pick products for
+ * group prices and group-only products
+ */
+function ProductPicker({ onSelect, actionLabel }: { onSelect: (productId: string) => void; actionLabel: string }) {
+    const getText = useGetText()
+    const [search, setSearch] = useState('')
+    const { data } = useProducts({ page: 1, limit: 5, search })
+    const products = data?.data ?? []
+
+    return (
+        <div className="grid gap-2">
+            <Input
+                placeholder={getText('merchant.customers.groups.searchProducts', 'Search products...')}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+            />
+            {products.map((product) => (
+                <div key={product.id} className="flex items-center justify-between rounded-xl border border-gray-100 px-3 py-2 text-sm">
+                    <span className="truncate">{product.name}</span>
+                    <Button size="sm" variant="outline" className="rounded-xl" onClick={() => onSelect(product.id)}>
+                        {actionLabel}
+                    </Button>
+                </div>
+            ))}
+        </div>
+    )
+}
+
+function MembersPanel({ group }: { group: CustomerGroup }) {
+    const getText = useGetText()
+    const [page, setPage] = useState(1)
+    const [search, setSearch] = useState('')
+    const { data: members } = useCustomerGroupMembers(group.id, page)
+    const { data: users } = useUsers({ page: 1, limit: 5, search })
+    const addMutation = useAddCustomerGroupMembers()
+    const removeMutation = useRemoveCustomerGroupMember()
+    const memberIds = new Set(members?.items.map((member) => member.userId) ?? [])
+
+    return (
+        <div className="grid gap-4">
+            <p className="text-xs text-gray-400">
+                {getText('merchant.customers.groups.membersHint', 'Customers added by hand. Customers matching the group rules are members without being listed.')}
+            </p>
+            <div className="grid gap-2">
+                {members?.items.length ? members.items.map((member) => (
+                    <div key={member.userId} className="flex items-center justify-between rounded-xl bg-gray-50 px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                            <p className="truncate font-semibold text-gray-900">{member.username}</p>
+                            <p className="truncate text-xs text-gray-400">{member.email}</p>
+                        </div>
+                        <RemoveButton
+                            disabled={removeMutation.isPending}
+                            onClick={() => removeMutation.mutate({ id: group.id, userId: member.userId })}
+                        />
+                    </div>
+                )) : (
+                    <p className="text-sm text-gray-400">{getText('merchant.customers.groups.noMembers', 'No members added yet')}</p>
+                )}
+                {members && members.totalPages > 1 && (
+                    <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                            {getText('merchant.customers.previous', 'Previous')}
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={page >= members.totalPages} onClick={() => setPage(page + 1)}>
+                            {getText('merchant.customers.next', 'Next')}
+                        </Button>
+                    </div>
+                )}
+            </div>
+            <div className="grid gap-2">
+                <Label>{getText('merchant.customers.groups.addMembers', 'Add customers')}</Label>
+                <Input
+                    placeholder={getText('merchant.customers.searchPlaceholder', 'Search customers by name or email...')}
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                />
+                {(users?.data ?? []).filter((user) => !memberIds.has(user.id)).map((user) => (
+                    <div key={user.id} className="flex items-center justify-between rounded-xl border border-gray-100 px-3 py-2 text-sm">
+                        <span className="truncate">{user.email}</span>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="rounded-xl"
+                            disabled={addMutation.isPending}
+                            onClick={() => addMutation.mutate({ id: group.id, userIds: [user.id] })}
+                        >
+                            {getText('merchant.customers.groups.add', 'Add')}
+                        </Button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+function VariantPriceEditor({ group, productId, onDone }: { group: CustomerGroup; productId: string; onDone: () => void }) {
+    const getText = useGetText()
+    const { data: product } = useProduct(productId)
+    const { data: prices = [] } = useCustomerGroupPrices(group.id)
+    const setMutation = useSetCustomerGroupPrices()
+    const [values, setValues] = useState<Record<string, string>>({})
+
+    useEffect(() => {
+        setValues(Object.fromEntries(
+            prices.filter((row) => row.productId === productId).map((row) => [row.variantId, row.price.toString()])
+        ))
+    }, [prices, productId])
+
+    const handleSave = async () => {
+        const entries = Object.entries(values)
+            .filter(([, value]) => value.trim() !== '')
+            .map(([variantId, value]) => ({ variantId, price: Number(value) }))
+        if (entries.length === 0) {
+            onDone()
+            return
+        }
+        try {
+            await setMutation.mutateAsync({ id: group.id, prices: entries })
+            onDone()
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    if (!product) return null
+
+    return (
+        <div className="grid gap-2 rounded-2xl border border-gray-100 p-4">
+            <span className="text-sm font-semibold text-gray-900">{product.name}</span>
+            {(product.variants ?? []).map((variant) => (
+                <div key={variant.id} className="grid grid-cols-[1fr_auto_120px] items-center gap-3 text-sm">
+                    <span className="truncate">{variant.name}</span>
+                    <span className="text-xs text-gray-400">{variant.salePrice}</span>
+                    <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder={getText('merchant.customers.groups.groupPrice', 'Group price')}
+                        value={values[variant.id] ?? ''}
+                        onChange={(e) => setValues((current) => ({ ...current, [variant.id]: e.target.value }))}
+                    />
+                </div>
+            ))}
+            <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" className="rounded-xl" onClick={onDone}>
+                    {getText('common.actions.cancel', 'Cancel')}
+                </Button>
+                <Button size="sm" className="rounded-xl" disabled={setMutation.isPending} onClick={handleSave}>
+                    {getText('common.actions.save', 'Save')}
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+function PricesPanel({ group }: { group: CustomerGroup }) {
+    const getText = useGetText()
+    const { data: prices = [] } = useCustomerGroupPrices(group.id)
+    const removeMutation = useRemoveCustomerGroupPrice()
+    const [productId, setProductId] = useState<string | null>(null)
+
+    return (
+        <div className="grid gap-4">
+            <p className="text-xs text-gray-400">
+                {getText('merchant.customers.groups.pricesHint', 'Members pay the group price instead of the sale price. Prices are in the store currency.')}
+            </p>
+            <div className="grid gap-2">
+                {prices.length ? prices.map((row) => (
+                    <div key={row.variantId} className="flex items-center justify-between gap-3 rounded-xl bg-gray-50 px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                            <p className="truncate font-semibold text-gray-900">{row.productName}</p>
+                            <p className="truncate text-xs text-gray-400">{row.variantName}</p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <span className="text-xs text-gray-400 line-through">{row.salePrice}</span>
+                            <span className="font-bold text-blue-600">{row.price}</span>
+                            <RemoveButton
+                                disabled={removeMutation.isPending}
+                                onClick={() => removeMutation.mutate({ id: group.id, variantId: row.variantId })}
+                            />
+                        </div>
+                    </div>
+                )) : (
+                    <p className="text-sm text-gray-400">{getText('merchant.customers.groups.noPrices', 'No group prices yet')}</p>
+                )}
+            </div>
+            {productId ? (
+                <VariantPriceEditor group={group} productId={productId} onDone={() => setProductId(null)} />
+            ) : (
+                <ProductPicker onSelect={setProductId} actionLabel={getText('merchant.customers.groups.setPrices', 'Set prices')} />
+            )}
+        </div>
+    )
+}
+
+function ProductsPanel({ group }: { group: CustomerGroup }) {
+    const getText = useGetText()
+    const { data: products = [] } = useCustomerGroupProducts(group.id)
+    const addMutation = useAddCustomerGroupProducts()
+    const removeMutation = useRemoveCustomerGroupProduct()
+
+    return (
+        <div className="grid gap-4">
+            <p className="text-xs text-gray-400">
+                {getText('merchant.customers.groups.productsHint', 'Products listed here are only visible to members of this group or another group they are assigned to.')}
+            </p>
+            <div className="grid gap-2">
+                {products.length ? products.map((row) => (
+                    <div key={row.productId} className="flex items-center justify-between rounded-xl bg-gray-50 px-3 py-2 text-sm">
+                        <span className="truncate font-semibold text-gray-900">{row.productName}</span>
+                        <RemoveButton
+                            disabled={removeMutation.isPending}
+                            onClick={() => removeMutation.mutate({ id: group.id, productId: row.productId })}
+                        />
+                    </div>
+                )) : (
+                    <p className="text-sm text-gray-400">{getText('merchant.customers.groups.noProducts', 'Visible to all customers')}</p>
+                )}
+            </div>
+            <ProductPicker
+                actionLabel={getText('merchant.customers.groups.restrict', 'Restrict')}
+                onSelect={(productId) => addMutation.mutate({ id: group.id, productIds: [productId] })}
+            />
+        </div>
+    )
+}
+
+interface ManageCustomerGroupDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    group: CustomerGroup
+}
+
+/**
+ * Members, price list and group-only products of a group
+ */
+export function ManageCustomerGroupDialog({ open, onOpenChange, group }: ManageCustomerGroupDialogProps) {
+    const getText = useGetText()
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <UsersRound className="w-5 h-5 text-blue-600" />
+                        {group.name}
+                    </DialogTitle>
+                    <DialogDescription>{group.code}</DialogDescription>
+                </DialogHeader>
+                <Tabs defaultValue="members">
+                    <TabsList>
+                        <TabsTrigger value="members">{getText('merchant.customers.groups.members', 'Members')}</TabsTrigger>
+                        <TabsTrigger value="prices">{getText('merchant.customers.groups.prices', 'Prices')}</TabsTrigger>
+                        <TabsTrigger value="products">{getText('merchant.customers.groups.products', 'Products')}</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="members" className="pt-4">
+                        <MembersPanel group={group} />
+                    </TabsContent>
+                    <TabsContent value="prices" className="pt-4">
+                        <PricesPanel group={group} />
+                    </TabsContent>
+                    <TabsContent value="products" className="pt-4">
+                        <ProductsPanel group={group} />
+                    </TabsContent>
+                </Tabs>
+            </DialogContent>
+        </Dialog>
+    )
+}
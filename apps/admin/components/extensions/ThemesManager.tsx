@@ -243,6 +243,14 @@ export function ThemesManager() {
             </TabsList>
           </Tabs>
 
+          {target === 'shop' && currentActiveTheme && (currentActiveTheme.type ?? 'pack') === 'pack' ? (
+            <Button asChild variant="outline" className="rounded-xl">
+              <Link href={`/${locale}/themes/editor`}>
+                {getText('merchant.themes.editor.open', 'Customize')}
+              </Link>
+            </Button>
+          ) : null}
+
           <Dialog open={configOpen} onOpenChange={setConfigOpen}>
             <DialogTrigger asChild>
               <Button variant="outline" disabled={!currentActiveTheme || updateConfigMutation.isPending} className="rounded-xl">
@@ -29,6 +29,7 @@ import {
   ChevronUp,
   Monitor,
   ShieldCheck,
+  Newspaper,
 } from 'lucide-react'
 import { useAuthStore } from '@/lib/store'
 import {
@@ -101,6 +102,13 @@ const baseNavigationConfig: NavigationItem[] = [
     href: '/themes',
     icon: Palette,
   },
+  {
+    id: 'content',
+    nameKey: 'merchant.nav.content',
+    fallback: 'Content',
+    href: '/content',
+    icon: Newspaper,
+  },
   {
     id: 'system',
     nameKey: 'merchant.nav.system',
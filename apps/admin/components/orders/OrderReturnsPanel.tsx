@@ -0,0 +1,131 @@
+'use client'
+
+import { useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { ReturnRequestDTO } from 'shared'
+import { useRefundReturn } from '@/lib/hooks/use-api'
+import { formatCurrency, cn } from '@/lib/utils'
+import { ReceiveReturnDialog, RejectReturnDialog, ReturnLabelDialog } from './ReturnDialogs'
+
+type ReturnAction = { kind: 'label' | 'reject' | 'receive'; returnRequest: ReturnRequestDTO }
+
+function getReturnStatusStyle(status: string) {
+    if (status === 'RECEIVED') return 'border-green-100 text-green-600 bg-green-50/50'
+    if (status === 'REJECTED') return 'border-red-100 text-red-600 bg-red-50/50'
+    if (status === 'APPROVED') return 'border-blue-100 text-blue-600 bg-blue-50/50'
+    return 'border-orange-100 text-orange-600 bg-orange-50/50'
+}
+
+export function OrderReturnsPanel({ returns }: { returns: ReturnRequestDTO[] }) {
+    const [action, setAction] = useState<ReturnAction | null>(null)
+    const refundMutation = useRefundReturn()
+
+    if (returns.length === 0) {
+        return null
+    }
+
+    const closeDialog = (open: boolean) => {
+        if (!open) setAction(null)
+    }
+
+    return (
+        <div className="bg-white rounded-[2rem] border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-8 border-b border-gray-50 flex items-center justify-between">
+                <h3 className="text-lg font-bold text-gray-900 uppercase tracking-tight">Returns</h3>
+                <RotateCcw className="w-5 h-5 text-gray-300" />
+            </div>
+            <div className="divide-y divide-gray-50">
+                {returns.map((ret) => (
+                    <div key={ret.id} className="p-8 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <div className="space-y-1">
+                                <span className="text-[10px] font-black text-blue-600 uppercase tracking-[0.2em]">{ret.reason.replace(/_/g, ' ')}</span>
+                                <h4 className="text-sm font-black text-gray-900 uppercase font-mono">#{ret.id.slice(-8)}</h4>
+                            </div>
+                            <span className={cn('px-3 py-1 rounded-xl border text-[10px] font-black uppercase tracking-widest', getReturnStatusStyle(ret.status))}>
+                                {ret.status}
+                            </span>
+                        </div>
+
+                        <ul className="space-y-1">
+                            {ret.items.map((item) => (
+                                <li key={item.id} className="flex justify-between text-xs font-bold text-gray-700">
+                                    <span>{item.productName ?? item.orderItemId}{item.variantName ? ` / ${item.variantName}` : ''} × {item.quantity}</span>
+                                    {item.inspectionResult && (
+                                        <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{item.inspectionResult}</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+
+                        {ret.customerNote && <p className="text-xs text-gray-500">{ret.customerNote}</p>}
+                        {ret.photos.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                                {ret.photos.map((url) => (
+                                    <a key={url} href={url} target="_blank" rel="noreferrer">
+                                        <img src={url} alt="" className="w-16 h-16 object-cover rounded-xl border border-gray-100" />
+                                    </a>
+                                ))}
+                            </div>
+                        )}
+                        {ret.trackingNumber && (
+                            <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                                Return label: {ret.carrier} {ret.trackingNumber}
+                                {ret.labelUrl && (
+                                    <a href={ret.labelUrl} target="_blank" rel="noreferrer" className="ml-2 text-blue-600">View</a>
+                                )}
+                            </p>
+                        )}
+                        {ret.rejectionReason && <p className="text-xs text-red-600">{ret.rejectionReason}</p>}
+                        {ret.inspectionNote && <p className="text-xs text-gray-500">{ret.inspectionNote}</p>}
+                        {ret.refund && (
+                            <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">
+                                Refund: {formatCurrency(ret.refund.amount, ret.refund.currency)} ({ret.refund.status})
+                            </p>
+                        )}
+
+                        <div className="flex flex-wrap gap-2">
+                            {(ret.status === 'REQUESTED' || ret.status === 'APPROVED') && (
+                                <Button size="sm" variant="outline" className="rounded-xl" onClick={() => setAction({ kind: 'label', returnRequest: ret })}>
+                                    {ret.status === 'REQUESTED' ? 'Approve' : 'Return Label'}
+                                </Button>
+                            )}
+                            {ret.status === 'APPROVED' && (
+                                <Button size="sm" className="rounded-xl bg-green-600 hover:bg-green-700" onClick={() => setAction({ kind: 'receive', returnRequest: ret })}>
+                                    Receive
+                                </Button>
+                            )}
+                            {(ret.status === 'REQUESTED' || ret.status === 'APPROVED') && (
+                                <Button size="sm" variant="outline" className="rounded-xl text-red-600" onClick={() => setAction({ kind: 'reject', returnRequest: ret })}>
+                                    Reject
+                                </Button>
+                            )}
+                            {ret.status === 'RECEIVED' && ret.refund?.status === 'FAILED' && (
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="rounded-xl"
+                                    disabled={refundMutation.isPending}
+                                    onClick={() => refundMutation.mutate({ id: ret.id, orderId: ret.orderId })}
+                                >
+                                    Retry Refund
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {action?.kind === 'label' && (
+                <ReturnLabelDialog returnRequest={action.returnRequest} open onOpenChange={closeDialog} />
+            )}
+            {action?.kind === 'reject' && (
+                <RejectReturnDialog returnRequest={action.returnRequest} open onOpenChange={closeDialog} />
+            )}
+            {action?.kind === 'receive' && (
+                <ReceiveReturnDialog returnRequest={action.returnRequest} open onOpenChange={closeDialog} />
+            )}
+        </div>
+    )
+}
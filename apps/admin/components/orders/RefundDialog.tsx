@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import { Textarea } from '@/components/ui/textarea'
 import { useT } from 'shared/src/i18n/react'
 import { useRefundOrder } from '@/lib/hooks/use-api'
@@ -27,6 +28,7 @@ interface RefundDialogProps {
 export function RefundDialog({ order, open, onOpenChange, onSuccess }: RefundDialogProps) {
   const t = useT()
   const [reason, setReason] = useState('')
+  const [toStoreCredit, setToStoreCredit] = useState(false)
   const refundOrderMutation = useRefundOrder()
 
   const handleRefund = async () => {
@@ -36,10 +38,12 @@ export function RefundDialog({ order, open, onOpenChange, onSuccess }: RefundDia
         data: {
           reason,
           idempotencyKey: `refund-${order.id}-${Date.now()}`,
+          refundTo: toStoreCredit ? 'store_credit' : 'original',
         },
       })
       onOpenChange(false)
       setReason('')
+      setToStoreCredit(false)
       onSuccess?.()
     } catch (_error) {
       // Error toast is already handled by the mutation hook.
@@ -93,6 +97,24 @@ export function RefundDialog({ order, open, onOpenChange, onSuccess }: RefundDia
             </p>
           </div>
 
+          {order.userId && (
+            <div className="flex items-center justify-between gap-4 p-4 bg-gray-50/50 rounded-xl border border-gray-100">
+              <div className="space-y-1">
+                <Label htmlFor="refund-to-store-credit" className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">
+                  {getText('merchant.orders.refund.toStoreCredit', 'Refund to store credit')}
+                </Label>
+                <p className="text-xs font-medium text-gray-500">
+                  {getText('merchant.orders.refund.toStoreCreditHint', 'Add the amount to the customer\'s store credit instead of the original payment. Required for orders paid with gift cards or store credit.')}
+                </p>
+              </div>
+              <Switch
+                id="refund-to-store-credit"
+                checked={toStoreCredit}
+                onCheckedChange={setToStoreCredit}
+              />
+            </div>
+          )}
+
           <div className="space-y-3">
             <Label htmlFor="reason" className="text-[10px] font-black text-gray-400 uppercase tracking-[0.2em]">
               {getText('merchant.orders.refund.reason', 'Reason (Optional)')}
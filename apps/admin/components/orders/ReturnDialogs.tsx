@@ -0,0 +1,285 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckCircle2, PackageCheck, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useT } from 'shared/src/i18n/react'
+import type { ReturnRequestDTO, Warehouse } from 'shared'
+import { useApproveReturn, useReceiveReturn, useRecordReturnLabel, useRejectReturn } from '@/lib/hooks/use-api'
+import { warehouseApi } from '@/lib/api/inventory'
+import { toast } from 'sonner'
+
+interface ReturnDialogProps {
+    returnRequest: ReturnRequestDTO
+    open: boolean
+    onOpenChange: (open: boolean) => void
+}
+
+function useGetText() {
+    const t = useT()
+    return (key: string, fallback: string): string => {
+        if (!t) return fallback
+        const translated = t(key)
+        return translated === key ? fallback : translated
+    }
+}
+
+/**
+ * Approve a requested return, or record the label of an approved one. The
+ * label is optional on approval.
+ */
+export function ReturnLabelDialog({ returnRequest, open, onOpenChange }: ReturnDialogProps) {
+    const getText = useGetText()
+    const approveMutation = useApproveReturn()
+    const labelMutation = useRecordReturnLabel()
+    const approving = returnRequest.status === 'REQUESTED'
+    const [carrier, setCarrier] = useState(returnRequest.carrier ?? '')
+    const [trackingNumber, setTrackingNumber] = useState(returnRequest.trackingNumber ?? '')
+    const [labelUrl, setLabelUrl] = useState(returnRequest.labelUrl ?? '')
+    const isPending = approveMutation.isPending || labelMutation.isPending
+
+    const handleSubmit = async () => {
+        const hasLabel = Boolean(carrier && trackingNumber)
+        if (!approving && !hasLabel) {
+            toast.error(getText('merchant.orders.ship.errorEmpty', 'Please fill in both carrier and tracking number'))
+            return
+        }
+
+        const label = hasLabel ? { carrier, trackingNumber, labelUrl: labelUrl || undefined } : undefined
+        try {
+            if (approving) {
+                await approveMutation.mutateAsync({ id: returnRequest.id, orderId: returnRequest.orderId, label })
+            } else {
+                await labelMutation.mutateAsync({ id: returnRequest.id, orderId: returnRequest.orderId, label: label! })
+            }
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <CheckCircle2 className="w-5 h-5 text-blue-600" />
+                        {approving
+                            ? getText('merchant.orders.returns.approveTitle', 'Approve Return')
+                            : getText('merchant.orders.returns.labelTitle', 'Return Shipping Label')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {getText('merchant.orders.returns.labelDescription', 'Record the return shipping label the customer should use.')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="return-carrier">{getText('merchant.orders.ship.carrier', 'Shipping Carrier')}</Label>
+                        <Input id="return-carrier" value={carrier} onChange={(e) => setCarrier(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="return-tracking">{getText('merchant.orders.ship.trackingNumber', 'Tracking Number')}</Label>
+                        <Input id="return-tracking" value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="return-label-url">{getText('merchant.orders.returns.labelUrl', 'Label URL')}</Label>
+                        <Input id="return-label-url" placeholder="https://" value={labelUrl} onChange={(e) => setLabelUrl(e.target.value)} />
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={isPending} className="bg-blue-600 hover:bg-blue-700">
+                        {isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : approving
+                                ? getText('merchant.orders.returns.approve', 'Approve')
+                                : getText('common.actions.save', 'Save')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export function RejectReturnDialog({ returnRequest, open, onOpenChange }: ReturnDialogProps) {
+    const getText = useGetText()
+    const rejectMutation = useRejectReturn()
+    const [reason, setReason] = useState('')
+
+    const handleReject = async () => {
+        if (!reason.trim()) {
+            toast.error(getText('merchant.orders.returns.reasonRequired', 'Please enter a reason'))
+            return
+        }
+        try {
+            await rejectMutation.mutateAsync({ id: returnRequest.id, orderId: returnRequest.orderId, reason: reason.trim() })
+            onOpenChange(false)
+            setReason('')
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <XCircle className="w-5 h-5 text-red-600" />
+                        {getText('merchant.orders.returns.rejectTitle', 'Reject Return')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {getText('merchant.orders.returns.rejectDescription', 'The reason is shown to the customer.')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="py-4">
+                    <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={4} />
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={rejectMutation.isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleReject} disabled={rejectMutation.isPending} className="bg-red-600 hover:bg-red-700">
+                        {rejectMutation.isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('merchant.orders.returns.reject', 'Reject')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+/**
+ * Record the inspection result of every returned line. Resellable items go
+ * back into the chosen warehouse and the refund is requested on submit.
+ */
+export function ReceiveReturnDialog({ returnRequest, open, onOpenChange }: ReturnDialogProps) {
+    const getText = useGetText()
+    const receiveMutation = useReceiveReturn()
+    const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+    const [warehouseId, setWarehouseId] = useState('')
+    const [inspectionNote, setInspectionNote] = useState('')
+    const [results, setResults] = useState<Record<string, 'RESELLABLE' | 'DAMAGED'>>({})
+
+    useEffect(() => {
+        if (!open) return
+        warehouseApi.getAll({ limit: 100, isActive: true }).then((response) => {
+            if (response.success && response.data) {
+                setWarehouses(response.data.items)
+                const defaultWarehouse = response.data.items.find((warehouse) => warehouse.isDefault)
+                if (defaultWarehouse) setWarehouseId((current) => current || defaultWarehouse.id)
+            }
+        })
+    }, [open])
+
+    const resultFor = (orderItemId: string) => results[orderItemId] ?? 'RESELLABLE'
+    const needsWarehouse = returnRequest.items.some((item) => resultFor(item.orderItemId) === 'RESELLABLE')
+
+    const handleReceive = async () => {
+        if (needsWarehouse && !warehouseId) {
+            toast.error(getText('merchant.orders.returns.warehouseRequired', 'Choose a warehouse to restock resellable items'))
+            return
+        }
+        try {
+            await receiveMutation.mutateAsync({
+                id: returnRequest.id,
+                orderId: returnRequest.orderId,
+                data: {
+                    warehouseId: needsWarehouse ? warehouseId : undefined,
+                    inspectionNote: inspectionNote || undefined,
+                    items: returnRequest.items.map((item) => ({
+                        orderItemId: item.orderItemId,
+                        inspectionResult: resultFor(item.orderItemId),
+                    })),
+                },
+            })
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[500px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <PackageCheck className="w-5 h-5 text-green-600" />
+                        {getText('merchant.orders.returns.receiveTitle', 'Receive Return')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {getText('merchant.orders.returns.receiveDescription', 'Resellable items are restocked and the returned items are refunded.')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                    {returnRequest.items.map((item) => (
+                        <div key={item.id} className="flex items-center justify-between gap-4">
+                            <span className="text-sm font-medium text-gray-900 flex-1">
+                                {item.productName ?? item.orderItemId} × {item.quantity}
+                            </span>
+                            <Select
+                                value={resultFor(item.orderItemId)}
+                                onValueChange={(value) => setResults((current) => ({
+                                    ...current,
+                                    [item.orderItemId]: value as 'RESELLABLE' | 'DAMAGED',
+                                }))}
+                            >
+                                <SelectTrigger className="w-[150px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="RESELLABLE">{getText('merchant.orders.returns.resellable', 'Resellable')}</SelectItem>
+                                    <SelectItem value="DAMAGED">{getText('merchant.orders.returns.damaged', 'Damaged')}</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    ))}
+                    {needsWarehouse && (
+                        <div className="grid gap-2">
+                            <Label>{getText('merchant.orders.returns.warehouse', 'Restock Warehouse')}</Label>
+                            <Select value={warehouseId} onValueChange={setWarehouseId}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder={getText('merchant.orders.returns.selectWarehouse', 'Select warehouse')} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {warehouses.map((warehouse) => (
+                                        <SelectItem key={warehouse.id} value={warehouse.id}>{warehouse.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div className="grid gap-2">
+                        <Label>{getText('merchant.orders.returns.inspectionNote', 'Inspection Note')}</Label>
+                        <Textarea value={inspectionNote} onChange={(e) => setInspectionNote(e.target.value)} rows={3} />
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={receiveMutation.isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleReceive} disabled={receiveMutation.isPending} className="bg-green-600 hover:bg-green-700">
+                        {receiveMutation.isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('merchant.orders.returns.receive', 'Receive & Refund')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,362 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FolderTree, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useT } from 'shared/src/i18n/react'
+import { DEFAULT_LOCALE, LOCALES, LOCALE_CONFIG } from 'shared/src/i18n'
+import type { CategoryTranslation } from '@/lib/api'
+import {
+    useCategory,
+    useCreateCategory,
+    useDeleteCategory,
+    useDeleteCategoryTranslation,
+    useSaveCategoryTranslation,
+    useUpdateCategory,
+} from '@/lib/hooks/use-api'
+import { toast } from 'sonner'
+
+// Radix Select items cannot use an empty string value
+const ROOT_VALUE = '__root__'
+
+export interface CategoryOption {
+    id: string
+    name: string
+    level: number
+}
+
+function useGetText() {
+    const t = useT()
+    return (key: string, fallback: string): string => {
+        if (!t) return fallback
+        const translated = t(key)
+        return translated === key ? fallback : translated
+    }
+}
+
+function CategoryOptionItems({ options, excludeId }: { options: CategoryOption[]; excludeId?: string }) {
+    return (
+        <>
+            {options.filter((option) => option.id !== excludeId).map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                    {'— '.repeat(option.level - 1)}{option.name}
+                </SelectItem>
+            ))}
+        </>
+    )
+}
+
+function TranslationEditor({ categoryId, locale, translation }: {
+    categoryId: string
+    locale: string
+    translation?: CategoryTranslation
+}) {
+    const getText = useGetText()
+    const saveMutation = useSaveCategoryTranslation()
+    const deleteMutation = useDeleteCategoryTranslation()
+    const [name, setName] = useState(translation?.name ?? '')
+    const [description, setDescription] = useState(translation?.description ?? '')
+
+    useEffect(() => {
+        setName(translation?.name ?? '')
+        setDescription(translation?.description ?? '')
+    }, [translation])
+
+    const handleSave = async () => {
+        if (!name.trim()) {
+            toast.error(getText('merchant.products.categories.nameRequired', 'Please enter a name'))
+            return
+        }
+        try {
+            await saveMutation.mutateAsync({ id: categoryId, locale, data: { name: name.trim(), description: description || null } })
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <div className="grid gap-2 rounded-2xl border border-gray-100 p-4">
+            <span className="text-[10px] font-black uppercase tracking-widest text-blue-600">
+                {LOCALE_CONFIG[locale as keyof typeof LOCALE_CONFIG]?.nativeName ?? locale}
+            </span>
+            <Input
+                placeholder={getText('merchant.products.categories.translationName', 'Translated name')}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+            />
+            <Textarea
+                placeholder={getText('merchant.products.categories.translationDescription', 'Translated description')}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+            />
+            <div className="flex justify-end gap-2">
+                {translation && (
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="rounded-xl text-red-600"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate({ id: categoryId, locale })}
+                    >
+                        {getText('merchant.products.categories.removeTranslation', 'Remove translation')}
+                    </Button>
+                )}
+                <Button size="sm" className="rounded-xl" disabled={saveMutation.isPending} onClick={handleSave}>
+                    {getText('common.actions.save', 'Save')}
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+interface CategoryFormDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    /** Category being edited; omit to create one */
+    categoryId?: string
+    /** Initial parent when creating */
+    parentId?: string | null
+    options: CategoryOption[]
+}
+
+/**
+ * Create or edit a category. Translations are edited per locale once the
+ * category exists; re-parenting is done by dragging in the tree.
+ */
+export function CategoryFormDialog({ open, onOpenChange, categoryId, parentId = null, options }: CategoryFormDialogProps) {
+    const getText = useGetText()
+    const { data: category } = useCategory(categoryId ?? null)
+    const createMutation = useCreateCategory()
+    const updateMutation = useUpdateCategory()
+    const [form, setForm] = useState({
+        name: '',
+        slug: '',
+        description: '',
+        parentId: parentId ?? ROOT_VALUE,
+        metaTitle: '',
+        metaDescription: '',
+        canonicalUrl: '',
+    })
+    const isPending = createMutation.isPending || updateMutation.isPending
+    const translationLocales = LOCALES.filter((locale) => locale !== DEFAULT_LOCALE)
+
+    useEffect(() => {
+        if (!category) return
+        setForm({
+            name: category.name,
+            slug: category.slug,
+            description: category.description ?? '',
+            parentId: category.parentId ?? ROOT_VALUE,
+            metaTitle: category.metaTitle ?? '',
+            metaDescription: category.metaDescription ?? '',
+            canonicalUrl: category.canonicalUrl ?? '',
+        })
+    }, [category])
+
+    const setField = (field: keyof typeof form) => (value: string) =>
+        setForm((current) => ({ ...current, [field]: value }))
+
+    const handleSubmit = async () => {
+        if (!form.name.trim()) {
+            toast.error(getText('merchant.products.categories.nameRequired', 'Please enter a name'))
+            return
+        }
+        const data = {
+            name: form.name.trim(),
+            slug: form.slug.trim() || undefined,
+            description: form.description || null,
+            metaTitle: form.metaTitle || null,
+            metaDescription: form.metaDescription || null,
+            canonicalUrl: form.canonicalUrl || null,
+        }
+        try {
+            if (categoryId) {
+                await updateMutation.mutateAsync({ id: categoryId, data })
+            } else {
+                await createMutation.mutateAsync({
+                    ...data,
+                    parentId: form.parentId === ROOT_VALUE ? null : form.parentId,
+                })
+            }
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <FolderTree className="w-5 h-5 text-blue-600" />
+                        {categoryId
+                            ? getText('merchant.products.categories.editCategory', 'Edit Category')
+                            : getText('merchant.products.categories.addCategory', 'Add Category')}
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                    <div className="grid gap-2">
+                        <Label htmlFor="category-name">{getText('merchant.products.categories.name', 'Name')}</Label>
+                        <Input id="category-name" value={form.name} onChange={(e) => setField('name')(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="category-slug">{getText('merchant.products.categories.slug', 'Slug')}</Label>
+                        <Input
+                            id="category-slug"
+                            placeholder={getText('merchant.products.categories.slugHint', 'Leave empty to generate from the name')}
+                            value={form.slug}
+                            onChange={(e) => setField('slug')(e.target.value)}
+                        />
+                    </div>
+                    {!categoryId && (
+                        <div className="grid gap-2">
+                            <Label>{getText('merchant.products.categories.parent', 'Parent')}</Label>
+                            <Select value={form.parentId} onValueChange={setField('parentId')}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ROOT_VALUE}>{getText('merchant.products.categories.noParent', 'None (top level)')}</SelectItem>
+                                    <CategoryOptionItems options={options} />
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div className="grid gap-2">
+                        <Label htmlFor="category-description">{getText('merchant.products.categories.description', 'Description')}</Label>
+                        <Textarea id="category-description" value={form.description} onChange={(e) => setField('description')(e.target.value)} rows={3} />
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label>{getText('merchant.products.create.seo', 'Search Engine Optimization')}</Label>
+                        <Input
+                            placeholder={getText('merchant.products.create.seoTitle', 'SEO Title')}
+                            value={form.metaTitle}
+                            onChange={(e) => setField('metaTitle')(e.target.value)}
+                        />
+                        <Textarea
+                            placeholder={getText('merchant.products.create.seoDescription', 'SEO Description')}
+                            value={form.metaDescription}
+                            onChange={(e) => setField('metaDescription')(e.target.value)}
+                            rows={2}
+                        />
+                        <Input placeholder="https://" value={form.canonicalUrl} onChange={(e) => setField('canonicalUrl')(e.target.value)} />
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label>{getText('merchant.products.categories.translations', 'Translations')}</Label>
+                        {categoryId && category ? (
+                            translationLocales.map((locale) => (
+                                <TranslationEditor
+                                    key={locale}
+                                    categoryId={categoryId}
+                                    locale={locale}
+                                    translation={category.translations.find((translation) => translation.locale === locale)}
+                                />
+                            ))
+                        ) : (
+                            <p className="text-xs text-gray-400">
+                                {getText('merchant.products.categories.createFirst', 'Save the category before adding translations')}
+                            </p>
+                        )}
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={isPending} className="bg-blue-600 hover:bg-blue-700">
+                        {isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('common.actions.save', 'Save')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+interface DeleteCategoryDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    category: { id: string; name: string; productCount: number }
+    options: CategoryOption[]
+}
+
+/**
+ * Delete a category. Products in it must be moved to another category first.
+ */
+export function DeleteCategoryDialog({ open, onOpenChange, category, options }: DeleteCategoryDialogProps) {
+    const getText = useGetText()
+    const deleteMutation = useDeleteCategory()
+    const [reassignTo, setReassignTo] = useState('')
+    const needsTarget = category.productCount > 0
+
+    const handleDelete = async () => {
+        if (needsTarget && !reassignTo) {
+            toast.error(getText('merchant.products.categories.reassignRequired', 'Choose a category for the products in this category'))
+            return
+        }
+        try {
+            await deleteMutation.mutateAsync({ id: category.id, reassignProductsTo: needsTarget ? reassignTo : undefined })
+            onOpenChange(false)
+        } catch (_error) {
+            // Error toast is already handled by the mutation hook.
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Trash2 className="w-5 h-5 text-red-600" />
+                        {getText('merchant.products.categories.deleteTitle', 'Delete Category')}: {category.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {getText('merchant.products.categories.deleteDescription', 'Subcategories move up one level.')}
+                    </DialogDescription>
+                </DialogHeader>
+                {needsTarget && (
+                    <div className="grid gap-2 py-4">
+                        <Label>
+                            {getText('merchant.products.categories.reassignProducts', 'Move products to')} ({category.productCount})
+                        </Label>
+                        <Select value={reassignTo} onValueChange={setReassignTo}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <CategoryOptionItems options={options} excludeId={category.id} />
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={deleteMutation.isPending}>
+                        {getText('common.actions.cancel', 'Cancel')}
+                    </Button>
+                    <Button onClick={handleDelete} disabled={deleteMutation.isPending} className="bg-red-600 hover:bg-red-700">
+                        {deleteMutation.isPending
+                            ? getText('common.actions.processing', 'Processing...')
+                            : getText('common.actions.delete', 'Delete')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
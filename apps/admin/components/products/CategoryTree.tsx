@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, GripVertical, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { CategoryTreeNode } from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+/**
+ * Where a dragged category was dropped: `inside` nests it under the target,
+ * `before` places it in front of the target among the target's siblings.
+ */
+export interface CategoryDrop {
+  categoryId: string
+  targetId: string | null
+  placement: 'inside' | 'before'
+}
+
+interface CategoryTreeProps {
+  nodes: CategoryTreeNode[]
+  productsLabel: string
+  moveToRootLabel: string
+  onDrop: (drop: CategoryDrop) => void
+  onAddChild: (parent: CategoryTreeNode) => void
+  onEdit: (category: CategoryTreeNode) => void
+  onDelete: (category: CategoryTreeNode) => void
+}
+
+function collectIds(node: CategoryTreeNode, ids: Set<string> = new Set()): Set<string> {
+  ids.add(node.id)
+  node.children.forEach((child) => collectIds(child, ids))
+  return ids
+}
+
+function findNode(nodes: CategoryTreeNode[], id: string): CategoryTreeNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node
+    const found = findNode(node.children, id)
+    if (found) return found
+  }
+  return null
+}
+
+export function CategoryTree({
+  nodes,
+  productsLabel,
+  moveToRootLabel,
+  onDrop,
+  onAddChild,
+  onEdit,
+  onDelete,
+}: CategoryTreeProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  // A category cannot be dropped onto itself or anything below it
+  const draggingNode = draggingId ? findNode(nodes, draggingId) : null
+  const blockedIds = draggingNode ? collectIds(draggingNode) : new Set<string>()
+
+  const toggle = (id: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const dropProps = (key: string, targetId: string | null, placement: CategoryDrop['placement']) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!draggingId || (targetId && blockedIds.has(targetId))) return
+      event.preventDefault()
+      event.stopPropagation()
+      setDropTarget(key)
+    },
+    onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault()
+      event.stopPropagation()
+      const categoryId = draggingId
+      setDraggingId(null)
+      setDropTarget(null)
+      if (!categoryId || (targetId && blockedIds.has(targetId))) return
+      onDrop({ categoryId, targetId, placement })
+    },
+  })
+
+  const renderNode = (node: CategoryTreeNode) => {
+    const isCollapsed = collapsed.has(node.id)
+    const hasChildren = node.children.length > 0
+
+    return (
+      <li key={node.id}>
+        <div
+          {...dropProps(`before:${node.id}`, node.id, 'before')}
+          className={cn('h-2 rounded-full transition-colors', dropTarget === `before:${node.id}` && 'bg-blue-500')}
+        />
+        <div
+          draggable
+          onDragStart={(event) => {
+            event.dataTransfer.effectAllowed = 'move'
+            setDraggingId(node.id)
+          }}
+          onDragEnd={() => {
+            setDraggingId(null)
+            setDropTarget(null)
+          }}
+          {...dropProps(`inside:${node.id}`, node.id, 'inside')}
+          className={cn(
+            'group flex items-center gap-3 rounded-2xl border bg-white px-4 py-3 transition-colors',
+            dropTarget === `inside:${node.id}` ? 'border-blue-500 bg-blue-50/50' : 'border-gray-100',
+            draggingId === node.id && 'opacity-40'
+          )}
+        >
+          <GripVertical className="h-4 w-4 cursor-grab text-gray-300" />
+          <button
+            type="button"
+            onClick={() => toggle(node.id)}
+            className={cn('text-gray-400', !hasChildren && 'invisible')}
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          <div className="flex-1 min-w-0">
+            <p className="truncate text-sm font-bold text-gray-900">{node.name}</p>
+            <p className="truncate text-[10px] font-bold uppercase tracking-widest text-gray-400">
+              /{node.slug} · {node.productCount} {productsLabel}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+            <Button size="icon" variant="ghost" className="h-8 w-8 rounded-xl" onClick={() => onAddChild(node)}>
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8 rounded-xl" onClick={() => onEdit(node)}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8 rounded-xl text-red-600" onClick={() => onDelete(node)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {hasChildren && !isCollapsed && (
+          <ul className="ml-8">{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div>
+      <ul>{nodes.map(renderNode)}</ul>
+      {draggingId && (
+        <div
+          {...dropProps('root', null, 'inside')}
+          className={cn(
+            'mt-3 rounded-2xl border-2 border-dashed px-4 py-3 text-center text-xs font-bold uppercase tracking-widest',
+            dropTarget === 'root' ? 'border-blue-500 text-blue-600' : 'border-gray-200 text-gray-400'
+          )}
+        >
+          {moveToRootLabel}
+        </div>
+      )}
+    </div>
+  )
+}
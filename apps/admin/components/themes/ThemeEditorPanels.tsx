@@ -0,0 +1,630 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, History, Loader2, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type {
+  ThemeAppBlock,
+  ThemeBlockInstance,
+  ThemeEditorState,
+  ThemeEditorTemplateSource,
+  ThemePublicationSummary,
+} from '@/lib/api';
+import {
+  usePublishTheme,
+  useRevertThemePublication,
+  useSaveThemeDraftConfig,
+  useSaveThemeDraftPage,
+  useThemeEditorPage,
+  useThemePublications,
+} from '@/lib/hooks/use-api';
+import { useT } from 'shared/src/i18n/react';
+
+type ThemeTarget = 'shop' | 'admin';
+
+type JsonSchema = {
+  type?: string;
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+};
+
+/**
+ * Storefront built-in blocks with the defaults of the shop block registry
+ * (apps/shop/lib/theme-pack/block-registry.ts). Settings fields are inferred
+ * from the defaults since built-in blocks ship no schema.
+ */
+const BUILTIN_BLOCKS: Array<{ type: string; name: string; defaultSettings: Record<string, unknown> }> = [
+  {
+    type: 'hero',
+    name: 'Hero Banner',
+    defaultSettings: {
+      headline: 'Welcome to Our Store',
+      subtitle: 'Discover amazing products at great prices',
+      ctaText: 'Shop Now',
+      ctaHref: '/products',
+      backgroundImage: '',
+      overlayOpacity: 0.4,
+      textAlign: 'center',
+      height: 'large',
+    },
+  },
+  {
+    type: 'product_grid',
+    name: 'Product Grid',
+    defaultSettings: { title: 'Featured Products', columns: 4, limit: 8, gap: 'md', showTitle: true, category: '', sortBy: 'newest' },
+  },
+  {
+    type: 'banner',
+    name: 'Promotional Banner',
+    defaultSettings: { image: '', title: '', subtitle: '', link: '', position: 'center' },
+  },
+  {
+    type: 'featured_categories',
+    name: 'Featured Categories',
+    defaultSettings: { title: 'Shop by Category', limit: 6, columns: 3, showTitle: true },
+  },
+  {
+    type: 'faq',
+    name: 'FAQ Section',
+    defaultSettings: { title: 'Frequently Asked Questions', items: [], showTitle: true },
+  },
+  {
+    type: 'testimonial',
+    name: 'Testimonials',
+    defaultSettings: { title: 'What Our Customers Say', items: [], showTitle: true, autoplay: true },
+  },
+];
+
+function useGetText() {
+  const t = useT();
+  return (key: string, fallback: string): string => {
+    if (!t) return fallback;
+    const translated = t(key);
+    return translated === key ? fallback : translated;
+  };
+}
+
+function appBlockType(block: ThemeAppBlock): string {
+  return `app_block:${block.pluginSlug}:${block.extensionId}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Defaults declared by a JSON schema (`properties.*.default`)
+ */
+function schemaDefaults(schema: JsonSchema | null): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  for (const [key, property] of Object.entries(schema?.properties || {})) {
+    if (property.default !== undefined) {
+      defaults[key] = property.default;
+    } else if (property.type === 'object' && property.properties) {
+      defaults[key] = schemaDefaults(property);
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Schema for a value without one: one field per key, typed from the current value
+ */
+function inferSchema(value: Record<string, unknown>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const [key, current] of Object.entries(value)) {
+    if (typeof current === 'boolean') properties[key] = { type: 'boolean' };
+    else if (typeof current === 'number') properties[key] = { type: 'number' };
+    else if (typeof current === 'string') properties[key] = { type: 'string' };
+    else if (isPlainObject(current)) properties[key] = inferSchema(current);
+    else properties[key] = { type: 'array' };
+  }
+  return { type: 'object', properties };
+}
+
+function humanize(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/^./, (c) => c.toUpperCase());
+}
+
+/**
+ * Raw JSON editor for arrays and values the form fields cannot express.
+ * Keeps the text locally so half-typed JSON is not lost.
+ */
+function JsonValueField({ id, value, onChange }: { id: string; value: unknown; onChange: (value: unknown) => void }) {
+  const [text, setText] = useState(() => JSON.stringify(value ?? null, null, 2));
+  const [invalid, setInvalid] = useState(false);
+
+  return (
+    <Textarea
+      id={id}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        try {
+          onChange(JSON.parse(e.target.value));
+          setInvalid(false);
+        } catch {
+          setInvalid(true);
+        }
+      }}
+      className={`min-h-24 font-mono text-xs rounded-xl ${invalid ? 'border-red-300' : ''}`}
+    />
+  );
+}
+
+interface SchemaFieldsProps {
+  /** JSON schema (object); inferred from `value` when null */
+  schema: JsonSchema | null;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+  idPrefix: string;
+}
+
+/**
+ * Form fields for a settings object driven by a JSON schema
+ */
+export function SchemaFields({ schema, value, onChange, idPrefix }: SchemaFieldsProps) {
+  const resolved = schema?.properties ? schema : inferSchema(value);
+  const entries = Object.entries(resolved.properties || {});
+
+  if (entries.length === 0) {
+    return <JsonValueField id={`${idPrefix}-json`} value={value} onChange={(next) => onChange(isPlainObject(next) ? next : {})} />;
+  }
+
+  const setField = (key: string, next: unknown) => onChange({ ...value, [key]: next });
+
+  return (
+    <div className="grid gap-4">
+      {entries.map(([key, property]) => {
+        const id = `${idPrefix}-${key}`;
+        const label = property.title || humanize(key);
+        const current = value[key] ?? property.default;
+
+        if (property.type === 'object') {
+          return (
+            <fieldset key={key} className="grid gap-3 rounded-2xl border border-gray-100 p-4">
+              <legend className="px-1 text-xs font-bold uppercase tracking-widest text-gray-400">{label}</legend>
+              <SchemaFields
+                schema={property.properties ? property : null}
+                value={isPlainObject(current) ? current : {}}
+                onChange={(next) => setField(key, next)}
+                idPrefix={id}
+              />
+            </fieldset>
+          );
+        }
+
+        if (property.type === 'boolean') {
+          return (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <Label htmlFor={id}>{label}</Label>
+              <Switch id={id} checked={current === true} onCheckedChange={(checked) => setField(key, checked)} />
+            </div>
+          );
+        }
+
+        return (
+          <div key={key} className="grid gap-2">
+            <Label htmlFor={id}>{label}</Label>
+            {property.enum ? (
+              <select
+                id={id}
+                value={String(current ?? '')}
+                onChange={(e) => setField(key, property.enum?.find((option) => String(option) === e.target.value))}
+                className="h-10 rounded-xl border border-gray-200 bg-white px-3 text-sm"
+              >
+                {property.enum.map((option) => (
+                  <option key={String(option)} value={String(option)}>{String(option)}</option>
+                ))}
+              </select>
+            ) : property.type === 'number' || property.type === 'integer' ? (
+              <Input
+                id={id}
+                type="number"
+                value={typeof current === 'number' ? current : ''}
+                onChange={(e) => setField(key, e.target.value === '' ? undefined : Number(e.target.value))}
+                className="rounded-xl"
+              />
+            ) : property.type === 'string' ? (
+              <Input
+                id={id}
+                value={typeof current === 'string' ? current : ''}
+                onChange={(e) => setField(key, e.target.value)}
+                className="rounded-xl"
+              />
+            ) : (
+              <JsonValueField id={id} value={current} onChange={(next) => setField(key, next)} />
+            )}
+            {property.description && <p className="text-xs text-gray-500">{property.description}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function TemplateSourceBadge({ source }: { source: ThemeEditorTemplateSource }) {
+  const getText = useGetText();
+  const labels: Record<ThemeEditorTemplateSource, string> = {
+    draft: getText('merchant.themes.editor.sourceDraft', 'Draft'),
+    published: getText('merchant.themes.editor.sourcePublished', 'Published'),
+    theme: getText('merchant.themes.editor.sourceTheme', 'Theme default'),
+  };
+  return (
+    <Badge variant={source === 'draft' ? 'default' : 'secondary'} className="text-[10px]">
+      {labels[source]}
+    </Badge>
+  );
+}
+
+interface PageBlocksEditorProps {
+  target: ThemeTarget;
+  page: string;
+  appBlocks: ThemeAppBlock[];
+}
+
+/**
+ * Block list of one page: add, reorder, remove and configure blocks, then
+ * save them into the draft. Mount with `key={page}` to reset on page change.
+ */
+export function PageBlocksEditor({ target, page, appBlocks }: PageBlocksEditorProps) {
+  const getText = useGetText();
+  const { data, isLoading, isFetching } = useThemeEditorPage(page, target);
+  const saveMutation = useSaveThemeDraftPage();
+  const [blocks, setBlocks] = useState<ThemeBlockInstance[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [newType, setNewType] = useState(BUILTIN_BLOCKS[0].type);
+  const [dirty, setDirty] = useState(false);
+
+  // Wait for refetches so a remount after publish/discard starts from fresh data
+  useEffect(() => {
+    if (data && !isFetching && blocks === null) {
+      setBlocks(data.template.blocks);
+    }
+  }, [data, isFetching, blocks]);
+
+  const blockNames = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const block of BUILTIN_BLOCKS) names.set(block.type, block.name);
+    for (const block of appBlocks) names.set(appBlockType(block), `${block.name} (${block.pluginSlug})`);
+    return names;
+  }, [appBlocks]);
+
+  const schemaFor = (type: string): JsonSchema | null => {
+    const appBlock = appBlocks.find((block) => appBlockType(block) === type);
+    return appBlock && isPlainObject(appBlock.schema) ? (appBlock.schema as JsonSchema) : null;
+  };
+
+  if (isLoading || blocks === null) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-300" />
+      </div>
+    );
+  }
+
+  const update = (next: ThemeBlockInstance[]) => {
+    setBlocks(next);
+    setDirty(true);
+  };
+
+  const addBlock = () => {
+    const builtin = BUILTIN_BLOCKS.find((block) => block.type === newType);
+    const settings = builtin ? { ...builtin.defaultSettings } : schemaDefaults(schemaFor(newType));
+    // The server assigns the id
+    update([...blocks, { type: newType, id: '', settings }]);
+    setSelected(blocks.length);
+  };
+
+  const moveBlock = (index: number, offset: -1 | 1) => {
+    const next = [...blocks];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    update(next);
+    if (selected === index) setSelected(index + offset);
+  };
+
+  const removeBlock = (index: number) => {
+    update(blocks.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  const save = () => {
+    saveMutation.mutate(
+      { page, blocks, target },
+      {
+        onSuccess: (template) => {
+          setBlocks(template.blocks);
+          setDirty(false);
+        },
+      }
+    );
+  };
+
+  const selectedBlock = selected !== null ? blocks[selected] : null;
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <h2 className="font-mono text-sm font-bold text-gray-900">{page}</h2>
+            {data && <TemplateSourceBadge source={dirty ? 'draft' : data.source} />}
+          </div>
+          <Button onClick={save} disabled={!dirty || saveMutation.isPending} className="rounded-xl">
+            {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            {getText('merchant.themes.editor.saveDraft', 'Save draft')}
+          </Button>
+        </div>
+
+        {blocks.length === 0 ? (
+          <p className="rounded-2xl border border-dashed border-gray-200 py-10 text-center text-sm text-gray-400">
+            {getText('merchant.themes.editor.noBlocks', 'This page has no blocks yet')}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {blocks.map((block, index) => (
+              <li
+                key={`${block.id}-${index}`}
+                className={`flex items-center justify-between gap-2 rounded-2xl border bg-white px-4 py-3 ${selected === index ? 'border-blue-300 ring-2 ring-blue-100' : 'border-gray-100'}`}
+              >
+                <button type="button" className="min-w-0 flex-1 text-left" onClick={() => setSelected(index)}>
+                  <p className="truncate text-sm font-semibold text-gray-900">{blockNames.get(block.type) || block.type}</p>
+                  <p className="truncate font-mono text-[10px] text-gray-400">{block.id || getText('merchant.themes.editor.unsaved', 'unsaved')}</p>
+                </button>
+                <div className="flex shrink-0 gap-1">
+                  <Button size="sm" variant="ghost" className="h-8 w-8 p-0" disabled={index === 0} onClick={() => moveBlock(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-8 w-8 p-0" disabled={index === blocks.length - 1} onClick={() => moveBlock(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-gray-400 hover:text-red-600" onClick={() => removeBlock(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <select
+            value={newType}
+            onChange={(e) => setNewType(e.target.value)}
+            className="h-10 min-w-0 flex-1 rounded-xl border border-gray-200 bg-white px-3 text-sm"
+          >
+            <optgroup label={getText('merchant.themes.editor.builtinBlocks', 'Built-in blocks')}>
+              {BUILTIN_BLOCKS.map((block) => (
+                <option key={block.type} value={block.type}>{block.name}</option>
+              ))}
+            </optgroup>
+            {appBlocks.length > 0 && (
+              <optgroup label={getText('merchant.themes.editor.appBlocks', 'App blocks')}>
+                {appBlocks.map((block) => (
+                  <option key={block.id} value={appBlockType(block)}>{block.name} ({block.pluginSlug})</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <Button variant="outline" onClick={addBlock} className="rounded-xl">
+            <Plus className="mr-2 h-4 w-4" />
+            {getText('merchant.themes.editor.addBlock', 'Add block')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-3xl border border-gray-100 bg-white p-6">
+        {selectedBlock && selected !== null ? (
+          <div className="space-y-4">
+            <h3 className="text-sm font-bold text-gray-900">
+              {blockNames.get(selectedBlock.type) || selectedBlock.type}
+            </h3>
+            <SchemaFields
+              key={`${selected}-${selectedBlock.type}`}
+              schema={schemaFor(selectedBlock.type)}
+              value={selectedBlock.settings}
+              onChange={(settings) => update(blocks.map((block, i) => (i === selected ? { ...block, settings } : block)))}
+              idPrefix={`block-${selected}`}
+            />
+          </div>
+        ) : (
+          <p className="py-10 text-center text-sm text-gray-400">
+            {getText('merchant.themes.editor.selectBlock', 'Select a block to edit its settings')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Theme settings (colors, typography, layout...) saved into the draft
+ */
+export function ThemeSettingsEditor({ target, state }: { target: ThemeTarget; state: ThemeEditorState }) {
+  const getText = useGetText();
+  const saveMutation = useSaveThemeDraftConfig();
+  const [config, setConfig] = useState<Record<string, unknown>>(state.config);
+  const [dirty, setDirty] = useState(false);
+
+  return (
+    <div className="max-w-2xl space-y-6 rounded-3xl border border-gray-100 bg-white p-6">
+      <SchemaFields
+        schema={(state.settingsSchema as JsonSchema | null) ?? null}
+        value={config}
+        onChange={(next) => {
+          setConfig(next);
+          setDirty(true);
+        }}
+        idPrefix="theme-settings"
+      />
+      <div className="flex justify-end">
+        <Button
+          onClick={() => saveMutation.mutate({ config, target }, { onSuccess: () => setDirty(false) })}
+          disabled={!dirty || saveMutation.isPending}
+          className="rounded-xl"
+        >
+          {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          {getText('merchant.themes.editor.saveDraft', 'Save draft')}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface PublishThemeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: ThemeTarget;
+}
+
+export function PublishThemeDialog({ open, onOpenChange, target }: PublishThemeDialogProps) {
+  const getText = useGetText();
+  const publishMutation = usePublishTheme();
+  const [note, setNote] = useState('');
+
+  const publish = () => {
+    publishMutation.mutate(
+      { note: note.trim() || undefined, target },
+      {
+        onSuccess: () => {
+          setNote('');
+          onOpenChange(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-3xl">
+        <DialogHeader>
+          <DialogTitle>{getText('merchant.themes.editor.publishTitle', 'Publish theme changes?')}</DialogTitle>
+          <DialogDescription>
+            {getText('merchant.themes.editor.publishDescription', 'The draft goes live on the storefront and is saved as a new version.')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-2">
+          <Label htmlFor="theme-publish-note">{getText('merchant.themes.editor.publishNote', 'Change note (optional)')}</Label>
+          <Input id="theme-publish-note" value={note} maxLength={500} onChange={(e) => setNote(e.target.value)} className="rounded-xl" />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="rounded-xl">
+            {getText('common.actions.cancel', 'Cancel')}
+          </Button>
+          <Button onClick={publish} disabled={publishMutation.isPending} className="rounded-xl">
+            {publishMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            {getText('merchant.themes.editor.publish', 'Publish')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Published versions, newest first, with one-click revert
+ */
+export function ThemePublicationHistory({ target }: { target: ThemeTarget }) {
+  const getText = useGetText();
+  const { data: publications = [], isLoading } = useThemePublications(target);
+  const revertMutation = useRevertThemePublication();
+  const [reverting, setReverting] = useState<ThemePublicationSummary | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-300" />
+      </div>
+    );
+  }
+
+  if (publications.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-[2rem] border border-gray-100 bg-white py-20">
+        <History className="mb-4 h-12 w-12 text-gray-200" />
+        <p className="text-sm font-bold text-gray-400">{getText('merchant.themes.editor.noPublications', 'Nothing published yet')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ul className="space-y-2">
+        {publications.map((publication) => (
+          <li key={publication.version} className="flex items-center justify-between gap-4 rounded-2xl border border-gray-100 bg-white px-5 py-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-bold text-gray-900">v{publication.version}</span>
+                {publication.isLive && <Badge className="text-[10px]">{getText('merchant.themes.editor.live', 'Live')}</Badge>}
+                {publication.revertedFrom !== null && (
+                  <Badge variant="secondary" className="text-[10px]">
+                    {getText('merchant.themes.editor.revertedFrom', 'Reverted from')} v{publication.revertedFrom}
+                  </Badge>
+                )}
+              </div>
+              {publication.note && <p className="mt-1 truncate text-sm text-gray-600">{publication.note}</p>}
+              <p className="mt-1 text-xs text-gray-400">
+                {new Date(publication.createdAt).toLocaleString()} · {publication.pages.join(', ') || '-'}
+              </p>
+            </div>
+            {!publication.isLive && (
+              <Button variant="outline" size="sm" className="shrink-0 rounded-xl" onClick={() => setReverting(publication)}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {getText('merchant.themes.editor.revert', 'Revert')}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={!!reverting} onOpenChange={(open) => !open && setReverting(null)}>
+        <DialogContent className="rounded-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {getText('merchant.themes.editor.revertTitle', 'Revert to this version?')} v{reverting?.version}
+            </DialogTitle>
+            <DialogDescription>
+              {getText('merchant.themes.editor.revertDescription', 'Its templates and settings are published again as a new version. Unpublished draft changes are discarded.')}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReverting(null)} className="rounded-xl">
+              {getText('common.actions.cancel', 'Cancel')}
+            </Button>
+            <Button
+              disabled={revertMutation.isPending}
+              className="rounded-xl"
+              onClick={() => reverting && revertMutation.mutate(
+                { version: reverting.version, target },
+                { onSuccess: () => setReverting(null) }
+              )}
+            >
+              {revertMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              {getText('common.actions.confirm', 'Confirm')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -120,7 +120,7 @@ export function getRequiredPermissionsForAdminPath(
     return [ADMIN_PERMISSIONS.THEMES_READ];
   }
 
-  if (path.startsWith('/package') || path.startsWith('/settings') || path.startsWith('/seo')) {
+  if (path.startsWith('/package') || path.startsWith('/settings') || path.startsWith('/seo') || path.startsWith('/content')) {
     return [ADMIN_PERMISSIONS.SETTINGS_READ];
   }
 
@@ -18,6 +18,10 @@ import {
   type AdminProductDetailDTO,
   type AdminOrderListItemDTO,
   type AdminOrderDetailDTO,
+  type ReturnRequestDTO,
+  type ReturnStatus,
+  type AdminProductReviewDTO,
+  type ProductReviewStatus,
 } from 'shared';
 import type {
   OfficialCatalogSolutionOffer,
@@ -109,6 +113,54 @@ export interface ThemeTargetsResponse {
   targets: Array<'shop' | 'admin'>;
 }
 
+export interface ThemeBlockInstance {
+  type: string;
+  id: string;
+  settings: Record<string, unknown>;
+}
+
+export interface ThemePageTemplate {
+  schemaVersion: 1;
+  page: string;
+  blocks: ThemeBlockInstance[];
+}
+
+export type ThemeEditorTemplateSource = 'draft' | 'published' | 'theme';
+
+export interface ThemeEditorState {
+  theme: { slug: string; name: string; version: string };
+  pages: Array<{ page: string; source: ThemeEditorTemplateSource; blockCount: number }>;
+  settingsSchema: Record<string, unknown> | null;
+  config: Record<string, unknown>;
+  draft: { updatedAt: string; updatedBy: string | null; baseVersion: number | null; hasConfigChanges: boolean } | null;
+  liveVersion: number | null;
+}
+
+export interface ThemePublicationSummary {
+  version: number;
+  note: string | null;
+  revertedFrom: number | null;
+  publishedBy: string | null;
+  pages: string[];
+  isLive: boolean;
+  createdAt: string;
+}
+
+export interface ThemePreviewToken {
+  token: string;
+  expiresAt: string;
+  previewUrl: string | null;
+}
+
+export interface ThemeAppBlock {
+  id: string;
+  extensionId: string;
+  name: string;
+  pluginSlug: string;
+  schema: Record<string, unknown> | null;
+  dataEndpoint: string | null;
+}
+
 export type SystemSettingsMap = Record<string, unknown>;
 
 export interface ProductStatsData {
@@ -466,10 +518,343 @@ export const ordersApi = {
   cancelOrder: (id: string, cancelReason: string): Promise<ApiResponse<OrderDetail>> =>
     apiClient.post(`/admin/orders/${id}/cancel`, { cancelReason }),
 
-  refundOrder: (id: string, data: { reason?: string; idempotencyKey: string }): Promise<ApiResponse<OrderDetail>> =>
+  refundOrder: (id: string, data: { reason?: string; idempotencyKey: string; refundTo?: 'original' | 'store_credit' }): Promise<ApiResponse<OrderDetail>> =>
     apiClient.post(`/admin/orders/${id}/refund`, data),
 };
 
+// Returns (RMA) API
+export interface ReturnLabelForm {
+  carrier: string;
+  trackingNumber: string;
+  labelUrl?: string;
+}
+
+export interface ReceiveReturnForm {
+  warehouseId?: string;
+  inspectionNote?: string;
+  items: Array<{ orderItemId: string; inspectionResult: 'RESELLABLE' | 'DAMAGED' }>;
+}
+
+export const returnsApi = {
+  getAll: (params: { page?: number; limit?: number; status?: ReturnStatus; orderId?: string } = {}): Promise<ApiResponse<PageResult<ReturnRequestDTO>>> =>
+    apiClient.get('/admin/returns', { params }),
+
+  getById: (id: string): Promise<ApiResponse<ReturnRequestDTO>> =>
+    apiClient.get(`/admin/returns/${id}`),
+
+  approve: (id: string, label?: ReturnLabelForm): Promise<ApiResponse<ReturnRequestDTO>> =>
+    apiClient.post(`/admin/returns/${id}/approve`, { label }),
+
+  reject: (id: string, reason: string): Promise<ApiResponse<ReturnRequestDTO>> =>
+    apiClient.post(`/admin/returns/${id}/reject`, { reason }),
+
+  recordLabel: (id: string, label: ReturnLabelForm): Promise<ApiResponse<ReturnRequestDTO>> =>
+    apiClient.put(`/admin/returns/${id}/label`, label),
+
+  receive: (id: string, data: ReceiveReturnForm): Promise<ApiResponse<ReturnRequestDTO>> =>
+    apiClient.post(`/admin/returns/${id}/receive`, data),
+
+  refund: (id: string): Promise<ApiResponse<ReturnRequestDTO>> =>
+    apiClient.post(`/admin/returns/${id}/refund`, {}),
+};
+
+// Product reviews API
+export const reviewsApi = {
+  getAll: (params: { page?: number; limit?: number; status?: ProductReviewStatus; productId?: string; rating?: number } = {}): Promise<ApiResponse<PageResult<AdminProductReviewDTO>>> =>
+    apiClient.get('/admin/reviews', { params }),
+
+  approve: (id: string): Promise<ApiResponse<AdminProductReviewDTO>> =>
+    apiClient.post(`/admin/reviews/${id}/approve`, {}),
+
+  reject: (id: string, reason?: string): Promise<ApiResponse<AdminProductReviewDTO>> =>
+    apiClient.post(`/admin/reviews/${id}/reject`, { reason }),
+
+  setReply: (id: string, reply: string): Promise<ApiResponse<AdminProductReviewDTO>> =>
+    apiClient.put(`/admin/reviews/${id}/reply`, { reply }),
+
+  deleteReply: (id: string): Promise<ApiResponse<AdminProductReviewDTO>> =>
+    apiClient.delete(`/admin/reviews/${id}/reply`),
+
+  delete: (id: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/reviews/${id}`),
+};
+
+// Categories API
+export interface CategoryTreeNode {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  level: number;
+  sortOrder: number;
+  productCount: number;
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryTranslation {
+  locale: string;
+  name: string;
+  description: string | null;
+  updatedAt: string;
+}
+
+export interface CategoryDetail {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  parentId: string | null;
+  level: number;
+  sortOrder: number;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+  structuredData: Record<string, unknown> | null;
+  productCount: number;
+  childCount: number;
+  translations: CategoryTranslation[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryForm {
+  name: string;
+  slug?: string;
+  description?: string | null;
+  parentId?: string | null;
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+  canonicalUrl?: string | null;
+}
+
+export const categoriesApi = {
+  getTree: (): Promise<ApiResponse<CategoryTreeNode[]>> =>
+    apiClient.get('/admin/categories'),
+
+  getById: (id: string): Promise<ApiResponse<CategoryDetail>> =>
+    apiClient.get(`/admin/categories/${id}`),
+
+  create: (data: CategoryForm): Promise<ApiResponse<CategoryDetail>> =>
+    apiClient.post('/admin/categories', data),
+
+  update: (id: string, data: Omit<CategoryForm, 'parentId'>): Promise<ApiResponse<CategoryDetail>> =>
+    apiClient.put(`/admin/categories/${id}`, data),
+
+  move: (id: string, parentId: string | null, position?: number): Promise<ApiResponse<CategoryDetail>> =>
+    apiClient.post(`/admin/categories/${id}/move`, { parentId, position }),
+
+  reorder: (parentId: string | null, categoryIds: string[]): Promise<ApiResponse<CategoryTreeNode[]>> =>
+    apiClient.put('/admin/categories/reorder', { parentId, categoryIds }),
+
+  delete: (id: string, reassignProductsTo?: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/categories/${id}`, { params: { reassignProductsTo } }),
+
+  setTranslation: (id: string, locale: string, data: { name: string; description?: string | null }): Promise<ApiResponse<CategoryTranslation>> =>
+    apiClient.put(`/admin/categories/${id}/translations/${locale}`, data),
+
+  deleteTranslation: (id: string, locale: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/categories/${id}/translations/${locale}`),
+};
+
+// Customer Groups API
+export interface CustomerGroupRulesForm {
+  minLifetimeSpend?: number | null;
+  minOrderCount?: number | null;
+  emailDomains?: string[];
+}
+
+export interface CustomerGroupForm extends CustomerGroupRulesForm {
+  name: string;
+  code?: string;
+  description?: string | null;
+}
+
+export interface CustomerGroup {
+  id: string;
+  name: string;
+  code: string;
+  description: string | null;
+  minLifetimeSpend: number | null;
+  minOrderCount: number | null;
+  emailDomains: string[];
+  memberCount: number;
+  priceCount: number;
+  productCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerGroupMember {
+  userId: string;
+  email: string;
+  username: string;
+  addedAt: string;
+}
+
+export interface CustomerGroupPrice {
+  variantId: string;
+  variantName: string;
+  productId: string;
+  productName: string;
+  salePrice: number;
+  price: number;
+  updatedAt: string;
+}
+
+export interface CustomerGroupProduct {
+  productId: string;
+  productName: string;
+  isActive: boolean;
+  addedAt: string;
+}
+
+export interface CustomerGroupMembership {
+  groupId: string;
+  name: string;
+  code: string;
+  source: 'MANUAL' | 'RULE';
+}
+
+export const customerGroupsApi = {
+  getAll: (): Promise<ApiResponse<CustomerGroup[]>> =>
+    apiClient.get('/admin/customer-groups'),
+
+  create: (data: CustomerGroupForm): Promise<ApiResponse<CustomerGroup>> =>
+    apiClient.post('/admin/customer-groups', data),
+
+  update: (id: string, data: Omit<CustomerGroupForm, 'code'>): Promise<ApiResponse<CustomerGroup>> =>
+    apiClient.put(`/admin/customer-groups/${id}`, data),
+
+  delete: (id: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/customer-groups/${id}`),
+
+  getMembers: (id: string, params: { page?: number; limit?: number } = {}): Promise<ApiResponse<PageResult<CustomerGroupMember>>> =>
+    apiClient.get(`/admin/customer-groups/${id}/members`, { params }),
+
+  addMembers: (id: string, userIds: string[]): Promise<ApiResponse<CustomerGroup>> =>
+    apiClient.post(`/admin/customer-groups/${id}/members`, { userIds }),
+
+  removeMember: (id: string, userId: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/customer-groups/${id}/members/${userId}`),
+
+  getPrices: (id: string): Promise<ApiResponse<CustomerGroupPrice[]>> =>
+    apiClient.get(`/admin/customer-groups/${id}/prices`),
+
+  setPrices: (id: string, prices: Array<{ variantId: string; price: number }>): Promise<ApiResponse<CustomerGroupPrice[]>> =>
+    apiClient.put(`/admin/customer-groups/${id}/prices`, { prices }),
+
+  removePrice: (id: string, variantId: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/customer-groups/${id}/prices/${variantId}`),
+
+  getProducts: (id: string): Promise<ApiResponse<CustomerGroupProduct[]>> =>
+    apiClient.get(`/admin/customer-groups/${id}/products`),
+
+  addProducts: (id: string, productIds: string[]): Promise<ApiResponse<CustomerGroupProduct[]>> =>
+    apiClient.post(`/admin/customer-groups/${id}/products`, { productIds }),
+
+  removeProduct: (id: string, productId: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/customer-groups/${id}/products/${productId}`),
+
+  getCustomerMemberships: (userId: string): Promise<ApiResponse<CustomerGroupMembership[]>> =>
+    apiClient.get(`/admin/customer-groups/customers/${userId}`),
+};
+
+// Content (CMS pages and blog posts) API
+export type ContentType = 'PAGE' | 'POST';
+export type ContentStatus = 'DRAFT' | 'PUBLISHED';
+/** `scheduled` is a published entry whose publish date is still in the future */
+export type ContentVisibility = 'draft' | 'scheduled' | 'live';
+
+export interface ContentTranslation {
+  locale: string;
+  title: string;
+  excerpt: string | null;
+  body: string;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  updatedAt: string;
+}
+
+export interface ContentSummary {
+  id: string;
+  type: ContentType;
+  slug: string;
+  title: string;
+  status: ContentStatus;
+  visibility: ContentVisibility;
+  publishedAt: string | null;
+  tags: string[];
+  locales: string[];
+  updatedAt: string;
+}
+
+export interface ContentEntry {
+  id: string;
+  type: ContentType;
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  body: string;
+  coverImage: string | null;
+  tags: string[];
+  status: ContentStatus;
+  visibility: ContentVisibility;
+  publishedAt: string | null;
+  authorId: string | null;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+  structuredData: Record<string, unknown> | null;
+  translations: ContentTranslation[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContentForm {
+  title: string;
+  slug?: string;
+  excerpt?: string | null;
+  body?: string;
+  coverImage?: string | null;
+  tags?: string[];
+  status?: ContentStatus;
+  publishedAt?: string | null;
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+  canonicalUrl?: string | null;
+}
+
+export interface ContentTranslationForm {
+  title: string;
+  excerpt?: string | null;
+  body?: string;
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+}
+
+export const contentApi = {
+  getAll: (params: { type?: ContentType; status?: ContentStatus; search?: string; page?: number; limit?: number } = {}): Promise<ApiResponse<PageResult<ContentSummary>>> =>
+    apiClient.get('/admin/content', { params }),
+
+  getById: (id: string): Promise<ApiResponse<ContentEntry>> =>
+    apiClient.get(`/admin/content/${id}`),
+
+  create: (data: ContentForm & { type: ContentType }): Promise<ApiResponse<ContentEntry>> =>
+    apiClient.post('/admin/content', data),
+
+  update: (id: string, data: ContentForm): Promise<ApiResponse<ContentEntry>> =>
+    apiClient.put(`/admin/content/${id}`, data),
+
+  delete: (id: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/content/${id}`),
+
+  setTranslation: (id: string, locale: string, data: ContentTranslationForm): Promise<ApiResponse<ContentTranslation>> =>
+    apiClient.put(`/admin/content/${id}/translations/${locale}`, data),
+
+  deleteTranslation: (id: string, locale: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(`/admin/content/${id}/translations/${locale}`),
+};
+
 // Users API
 export const usersApi = {
   getAll: (params: PaginationParams = {}): Promise<ApiResponse<PageResult<UserProfile>>> => {
@@ -1161,6 +1546,47 @@ export const themesApi = {
     const kind = type === 'app' ? `theme-app-${target}` : `theme-${target}`;
     return apiClient.delete(`/extensions/${kind}/${slug}`);
   },
+
+  // Theme editor (Theme Packs only): drafts, preview, publish and history
+  getEditor: (target: 'shop' | 'admin' = 'shop'): Promise<ApiResponse<ThemeEditorState>> =>
+    apiClient.get(`/admin/themes/${target}/editor`),
+
+  getEditorPage: (
+    page: string,
+    target: 'shop' | 'admin' = 'shop'
+  ): Promise<ApiResponse<{ template: ThemePageTemplate; source: ThemeEditorTemplateSource }>> =>
+    apiClient.get(`/admin/themes/${target}/editor/pages/${encodeURIComponent(page)}`),
+
+  saveDraftPage: (
+    page: string,
+    blocks: Array<Partial<ThemeBlockInstance> & { type: string }>,
+    target: 'shop' | 'admin' = 'shop'
+  ): Promise<ApiResponse<ThemePageTemplate>> =>
+    apiClient.put(`/admin/themes/${target}/editor/pages/${encodeURIComponent(page)}`, { blocks }),
+
+  saveDraftConfig: (
+    config: Record<string, unknown>,
+    target: 'shop' | 'admin' = 'shop'
+  ): Promise<ApiResponse<Record<string, unknown>>> =>
+    apiClient.put(`/admin/themes/${target}/editor/config`, config),
+
+  discardDraft: (target: 'shop' | 'admin' = 'shop'): Promise<ApiResponse<{ discarded: boolean }>> =>
+    apiClient.delete(`/admin/themes/${target}/editor/draft`),
+
+  createPreviewToken: (target: 'shop' | 'admin' = 'shop'): Promise<ApiResponse<ThemePreviewToken>> =>
+    apiClient.post(`/admin/themes/${target}/editor/preview-token`, {}),
+
+  publish: (note?: string, target: 'shop' | 'admin' = 'shop'): Promise<ApiResponse<ThemePublicationSummary>> =>
+    apiClient.post(`/admin/themes/${target}/editor/publish`, note ? { note } : {}),
+
+  getPublications: (target: 'shop' | 'admin' = 'shop'): Promise<ApiResponse<ThemePublicationSummary[]>> =>
+    apiClient.get(`/admin/themes/${target}/editor/publications`),
+
+  revert: (version: number, target: 'shop' | 'admin' = 'shop'): Promise<ApiResponse<ThemePublicationSummary>> =>
+    apiClient.post(`/admin/themes/${target}/editor/publications/${version}/revert`, {}),
+
+  getAppBlocks: (): Promise<ApiResponse<{ items: ThemeAppBlock[] }>> =>
+    apiClient.get('/extensions/theme-extensions/blocks'),
 };
 
 // Upload API
@@ -5,7 +5,7 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { PaginationParams, productsApi, ordersApi, usersApi, pluginsApi, themesApi, marketApi, managedPackageApi, platformConnectionApi, uploadApi, dashboardApi, inventoryApi, accountApi, authApi, healthApi, errorsApi, promotionsApi, redirectsApi, staffApi, unwrapApiResponse, ProductStatsData, OrderStatsData, UserStatsData, InventoryStatsData, type SeoRedirect, type Promotion, type PromotionForm as PromotionFormData, type StaffCreatePayload, type StaffMutationPayload } from '../api';
+import { PaginationParams, productsApi, ordersApi, returnsApi, type ReturnLabelForm, type ReceiveReturnForm, categoriesApi, type CategoryForm, customerGroupsApi, type CustomerGroupForm, contentApi, type ContentForm, type ContentStatus, type ContentTranslationForm, type ContentType, reviewsApi, type ApiResponse, usersApi, pluginsApi, themesApi, marketApi, managedPackageApi, platformConnectionApi, uploadApi, dashboardApi, inventoryApi, accountApi, authApi, healthApi, errorsApi, promotionsApi, redirectsApi, staffApi, unwrapApiResponse, ProductStatsData, OrderStatsData, UserStatsData, InventoryStatsData, type SeoRedirect, type ThemeAppBlock, type ThemeBlockInstance, type ThemeEditorState, type ThemePublicationSummary, type Promotion, type PromotionForm as PromotionFormData, type StaffCreatePayload, type StaffMutationPayload } from '../api';
 import { toast } from 'sonner';
 import { ProductForm, DashboardStats, Product, Order, OrderDetail, User, OrderItem, ThemeMeta, ActiveTheme, HealthMetricsResponse, HealthSummaryResponse, ErrorLog, ErrorListParams } from '../types';
 import { PageResult } from 'shared';
@@ -46,6 +46,17 @@ export const queryKeys = {
   products: ['products'] as const,
   product: (id: string) => ['products', id] as const,
   productExternalSource: (id: string) => ['products', id, 'external-source'] as const,
+  categories: ['categories'] as const,
+  categoryTree: ['categories', 'tree'] as const,
+  category: (id: string) => ['categories', 'detail', id] as const,
+  customerGroups: ['customer-groups'] as const,
+  customerGroupMembers: (id: string, page: number) => ['customer-groups', id, 'members', page] as const,
+  customerGroupPrices: (id: string) => ['customer-groups', id, 'prices'] as const,
+  customerGroupProducts: (id: string) => ['customer-groups', id, 'products'] as const,
+  customerMemberships: (userId: string) => ['customer-groups', 'customers', userId] as const,
+  content: ['content'] as const,
+  contentEntry: (id: string) => ['content', 'detail', id] as const,
+  reviews: ['reviews'] as const,
   orders: ['orders'] as const,
   order: (id: string) => ['orders', id] as const,
   orderStats: ['order-stats'] as const,
@@ -390,7 +401,7 @@ export function useRefundOrder() {
   const { getErrorMessage } = useLocalizedApiFeedback();
 
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { reason?: string; idempotencyKey: string } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: { reason?: string; idempotencyKey: string; refundTo?: 'original' | 'store_credit' } }) => {
       const response = await ordersApi.refundOrder(id, data);
       return unwrapApiResponse(response);
     },
@@ -436,6 +447,65 @@ export function useShipOrder() {
   });
 }
 
+// Returns (RMA) hooks
+function useReturnMutation<TVariables extends { id: string; orderId: string }>(
+  request: (variables: TVariables) => ReturnType<typeof returnsApi.getById>,
+  successMessage: string
+) {
+  const queryClient = useQueryClient();
+  const { getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const response = await request(variables);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: (_, { orderId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders });
+      queryClient.invalidateQueries({ queryKey: queryKeys.order(orderId) });
+      toast.success(successMessage);
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+export function useApproveReturn() {
+  return useReturnMutation(
+    ({ id, label }: { id: string; orderId: string; label?: ReturnLabelForm }) => returnsApi.approve(id, label),
+    'Return approved'
+  );
+}
+
+export function useRejectReturn() {
+  return useReturnMutation(
+    ({ id, reason }: { id: string; orderId: string; reason: string }) => returnsApi.reject(id, reason),
+    'Return rejected'
+  );
+}
+
+export function useRecordReturnLabel() {
+  return useReturnMutation(
+    ({ id, label }: { id: string; orderId: string; label: ReturnLabelForm }) => returnsApi.recordLabel(id, label),
+    'Return label saved'
+  );
+}
+
+export function useReceiveReturn() {
+  return useReturnMutation(
+    ({ id, data }: { id: string; orderId: string; data: ReceiveReturnForm }) => returnsApi.receive(id, data),
+    'Return received'
+  );
+}
+
+export function useRefundReturn() {
+  return useReturnMutation(
+    ({ id }: { id: string; orderId: string }) => returnsApi.refund(id),
+    'Return refund requested'
+  );
+}
+
 // Users hooks
 export function useUsers(params: PaginationParams = {}) {
   return useQuery({
@@ -774,7 +844,7 @@ export function useProductStats() {
 
 export function useCategories() {
   return useQuery({
-    queryKey: ['categories'],
+    queryKey: queryKeys.categories,
     queryFn: async () => {
       const response = await productsApi.getCategories();
       const data = unwrapApiResponse(response);
@@ -783,6 +853,371 @@ export function useCategories() {
   });
 }
 
+// Category management hooks
+export function useCategoryTree() {
+  return useQuery({
+    queryKey: queryKeys.categoryTree,
+    queryFn: async () => {
+      const response = await categoriesApi.getTree();
+      return unwrapApiResponse(response);
+    },
+  });
+}
+
+export function useCategory(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.category(id ?? ''),
+    queryFn: async () => {
+      const response = await categoriesApi.getById(id!);
+      return unwrapApiResponse(response);
+    },
+    enabled: !!id,
+  });
+}
+
+function useCategoryMutation<TVariables, TResult>(
+  request: (variables: TVariables) => Promise<ApiResponse<TResult>>,
+  successMessage?: string
+) {
+  const queryClient = useQueryClient();
+  const { getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const response = await request(variables);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: () => {
+      // Product lists show category names, so refresh them along with the tree
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products });
+      if (successMessage) toast.success(successMessage);
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+export function useCreateCategory() {
+  return useCategoryMutation((data: CategoryForm) => categoriesApi.create(data), 'Category created');
+}
+
+export function useUpdateCategory() {
+  return useCategoryMutation(
+    ({ id, data }: { id: string; data: Omit<CategoryForm, 'parentId'> }) => categoriesApi.update(id, data),
+    'Category updated'
+  );
+}
+
+export function useMoveCategory() {
+  return useCategoryMutation(
+    ({ id, parentId, position }: { id: string; parentId: string | null; position?: number }) =>
+      categoriesApi.move(id, parentId, position)
+  );
+}
+
+export function useReorderCategories() {
+  return useCategoryMutation(
+    ({ parentId, categoryIds }: { parentId: string | null; categoryIds: string[] }) =>
+      categoriesApi.reorder(parentId, categoryIds)
+  );
+}
+
+export function useDeleteCategory() {
+  return useCategoryMutation(
+    ({ id, reassignProductsTo }: { id: string; reassignProductsTo?: string }) =>
+      categoriesApi.delete(id, reassignProductsTo),
+    'Category deleted'
+  );
+}
+
+export function useSaveCategoryTranslation() {
+  return useCategoryMutation(
+    ({ id, locale, data }: { id: string; locale: string; data: { name: string; description?: string | null } }) =>
+      categoriesApi.setTranslation(id, locale, data),
+    'Translation saved'
+  );
+}
+
+export function useDeleteCategoryTranslation() {
+  return useCategoryMutation(
+    ({ id, locale }: { id: string; locale: string }) => categoriesApi.deleteTranslation(id, locale),
+    'Translation removed'
+  );
+}
+
+// Content management hooks
+export function useContentEntries(params: { type?: ContentType; status?: ContentStatus; search?: string; page?: number; limit?: number } = {}) {
+  return useQuery({
+    queryKey: [...queryKeys.content, 'list', params],
+    queryFn: async () => {
+      const response = await contentApi.getAll(params);
+      return unwrapApiResponse(response);
+    },
+  });
+}
+
+export function useContentEntry(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.contentEntry(id ?? ''),
+    queryFn: async () => {
+      const response = await contentApi.getById(id!);
+      return unwrapApiResponse(response);
+    },
+    enabled: !!id,
+  });
+}
+
+function useContentMutation<TVariables, TResult>(
+  request: (variables: TVariables) => Promise<ApiResponse<TResult>>,
+  successMessage: string
+) {
+  const queryClient = useQueryClient();
+  const { getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const response = await request(variables);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.content });
+      toast.success(successMessage);
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+export function useCreateContent() {
+  return useContentMutation(
+    (data: ContentForm & { type: ContentType }) => contentApi.create(data),
+    'Content created'
+  );
+}
+
+export function useUpdateContent() {
+  return useContentMutation(
+    ({ id, data }: { id: string; data: ContentForm }) => contentApi.update(id, data),
+    'Content updated'
+  );
+}
+
+export function useDeleteContent() {
+  return useContentMutation((id: string) => contentApi.delete(id), 'Content deleted');
+}
+
+export function useSaveContentTranslation() {
+  return useContentMutation(
+    ({ id, locale, data }: { id: string; locale: string; data: ContentTranslationForm }) =>
+      contentApi.setTranslation(id, locale, data),
+    'Translation saved'
+  );
+}
+
+export function useDeleteContentTranslation() {
+  return useContentMutation(
+    ({ id, locale }: { id: string; locale: string }) => contentApi.deleteTranslation(id, locale),
+    'Translation removed'
+  );
+}
+
+// Customer group hooks
+export function useCustomerGroups() {
+  return useQuery({
+    queryKey: queryKeys.customerGroups,
+    queryFn: async () => {
+      const response = await customerGroupsApi.getAll();
+      return unwrapApiResponse(response);
+    },
+  });
+}
+
+export function useCustomerGroupMembers(id: string | null, page = 1) {
+  return useQuery({
+    queryKey: queryKeys.customerGroupMembers(id ?? '', page),
+    queryFn: async () => {
+      const response = await customerGroupsApi.getMembers(id!, { page, limit: 20 });
+      return unwrapApiResponse(response);
+    },
+    enabled: !!id,
+  });
+}
+
+export function useCustomerGroupPrices(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.customerGroupPrices(id ?? ''),
+    queryFn: async () => {
+      const response = await customerGroupsApi.getPrices(id!);
+      return unwrapApiResponse(response);
+    },
+    enabled: !!id,
+  });
+}
+
+export function useCustomerGroupProducts(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.customerGroupProducts(id ?? ''),
+    queryFn: async () => {
+      const response = await customerGroupsApi.getProducts(id!);
+      return unwrapApiResponse(response);
+    },
+    enabled: !!id,
+  });
+}
+
+export function useCustomerMemberships(userId: string) {
+  return useQuery({
+    queryKey: queryKeys.customerMemberships(userId),
+    queryFn: async () => {
+      const response = await customerGroupsApi.getCustomerMemberships(userId);
+      return unwrapApiResponse(response);
+    },
+    enabled: !!userId,
+  });
+}
+
+function useCustomerGroupMutation<TVariables, TResult>(
+  request: (variables: TVariables) => Promise<ApiResponse<TResult>>,
+  successMessage?: string
+) {
+  const queryClient = useQueryClient();
+  const { getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const response = await request(variables);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customerGroups });
+      if (successMessage) toast.success(successMessage);
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+export function useCreateCustomerGroup() {
+  return useCustomerGroupMutation((data: CustomerGroupForm) => customerGroupsApi.create(data), 'Customer group created');
+}
+
+export function useUpdateCustomerGroup() {
+  return useCustomerGroupMutation(
+    ({ id, data }: { id: string; data: Omit<CustomerGroupForm, 'code'> }) => customerGroupsApi.update(id, data),
+    'Customer group updated'
+  );
+}
+
+export function useDeleteCustomerGroup() {
+  return useCustomerGroupMutation((id: string) => customerGroupsApi.delete(id), 'Customer group deleted');
+}
+
+export function useAddCustomerGroupMembers() {
+  return useCustomerGroupMutation(
+    ({ id, userIds }: { id: string; userIds: string[] }) => customerGroupsApi.addMembers(id, userIds),
+    'Members added'
+  );
+}
+
+export function useRemoveCustomerGroupMember() {
+  return useCustomerGroupMutation(
+    ({ id, userId }: { id: string; userId: string }) => customerGroupsApi.removeMember(id, userId),
+    'Member removed'
+  );
+}
+
+export function useSetCustomerGroupPrices() {
+  return useCustomerGroupMutation(
+    ({ id, prices }: { id: string; prices: Array<{ variantId: string; price: number }> }) =>
+      customerGroupsApi.setPrices(id, prices),
+    'Group prices saved'
+  );
+}
+
+export function useRemoveCustomerGroupPrice() {
+  return useCustomerGroupMutation(
+    ({ id, variantId }: { id: string; variantId: string }) => customerGroupsApi.removePrice(id, variantId),
+    'Group price removed'
+  );
+}
+
+export function useAddCustomerGroupProducts() {
+  return useCustomerGroupMutation(
+    ({ id, productIds }: { id: string; productIds: string[] }) => customerGroupsApi.addProducts(id, productIds),
+    'Products restricted to the group'
+  );
+}
+
+export function useRemoveCustomerGroupProduct() {
+  return useCustomerGroupMutation(
+    ({ id, productId }: { id: string; productId: string }) => customerGroupsApi.removeProduct(id, productId),
+    'Product restriction removed'
+  );
+}
+
+// Review moderation hooks
+export function useReviews(params: Parameters<typeof reviewsApi.getAll>[0] = {}) {
+  return useQuery({
+    queryKey: [...queryKeys.reviews, params],
+    queryFn: async () => {
+      const response = await reviewsApi.getAll(params);
+      return unwrapApiResponse(response);
+    },
+  });
+}
+
+function useReviewMutation<TVariables, TResult>(
+  request: (variables: TVariables) => Promise<ApiResponse<TResult>>,
+  successMessage: string
+) {
+  const queryClient = useQueryClient();
+  const { getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const response = await request(variables);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.reviews });
+      toast.success(successMessage);
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
+
+export function useApproveReview() {
+  return useReviewMutation((id: string) => reviewsApi.approve(id), 'Review approved');
+}
+
+export function useRejectReview() {
+  return useReviewMutation(
+    ({ id, reason }: { id: string; reason?: string }) => reviewsApi.reject(id, reason),
+    'Review rejected'
+  );
+}
+
+export function useSaveReviewReply() {
+  return useReviewMutation(
+    ({ id, reply }: { id: string; reply: string }) => reviewsApi.setReply(id, reply),
+    'Reply saved'
+  );
+}
+
+export function useDeleteReviewReply() {
+  return useReviewMutation((id: string) => reviewsApi.deleteReply(id), 'Reply removed');
+}
+
+export function useDeleteReview() {
+  return useReviewMutation((id: string) => reviewsApi.delete(id), 'Review deleted');
+}
+
 // Upload hooks
 export function useUploadProductImage() {
   const { getErrorMessage } = useLocalizedApiFeedback();
@@ -1548,6 +1983,10 @@ const themeQueryKeys = {
   all: ['themes'] as const,
   installed: (target: string) => [...themeQueryKeys.all, 'installed', target] as const,
   active: (target: string) => [...themeQueryKeys.all, 'active', target] as const,
+  editor: (target: string) => [...themeQueryKeys.all, 'editor', target] as const,
+  editorPage: (target: string, page: string) => [...themeQueryKeys.editor(target), 'page', page] as const,
+  publications: (target: string) => [...themeQueryKeys.editor(target), 'publications'] as const,
+  appBlocks: () => [...themeQueryKeys.all, 'app-blocks'] as const,
 };
 
 export function useThemes(target: 'shop' | 'admin' = 'shop'): UseQueryResult<PageResult<ThemeMeta>> {
@@ -1610,6 +2049,160 @@ export function useRollbackTheme() {
   });
 }
 
+// --- Theme Editor Hooks ---
+
+export function useThemeEditor(target: 'shop' | 'admin' = 'shop'): UseQueryResult<ThemeEditorState> {
+  return useQuery({
+    queryKey: themeQueryKeys.editor(target),
+    queryFn: async () => {
+      const response = await themesApi.getEditor(target);
+      return unwrapApiResponse(response);
+    },
+    retry: false,
+  });
+}
+
+export function useThemeEditorPage(page: string | null, target: 'shop' | 'admin' = 'shop') {
+  return useQuery({
+    queryKey: themeQueryKeys.editorPage(target, page || ''),
+    queryFn: async () => {
+      const response = await themesApi.getEditorPage(page as string, target);
+      return unwrapApiResponse(response);
+    },
+    enabled: !!page,
+  });
+}
+
+export function useThemePublications(target: 'shop' | 'admin' = 'shop'): UseQueryResult<ThemePublicationSummary[]> {
+  return useQuery({
+    queryKey: themeQueryKeys.publications(target),
+    queryFn: async () => {
+      const response = await themesApi.getPublications(target);
+      return unwrapApiResponse(response);
+    },
+  });
+}
+
+export function useThemeAppBlocks(): UseQueryResult<ThemeAppBlock[]> {
+  return useQuery({
+    queryKey: themeQueryKeys.appBlocks(),
+    queryFn: async () => {
+      const response = await themesApi.getAppBlocks();
+      return unwrapApiResponse(response).items;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSaveThemeDraftPage() {
+  const queryClient = useQueryClient();
+  const { getText, getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async ({ page, blocks, target }: { page: string; blocks: ThemeBlockInstance[]; target: 'shop' | 'admin' }) => {
+      const response = await themesApi.saveDraftPage(page, blocks, target);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: (_data, { target }) => {
+      queryClient.invalidateQueries({ queryKey: themeQueryKeys.editor(target) });
+      toast.success(getText('merchant.themes.editor.draftSaved', 'Draft saved'));
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error, 'merchant.themes.editor.saveFailed', 'Failed to save draft'));
+    },
+  });
+}
+
+export function useSaveThemeDraftConfig() {
+  const queryClient = useQueryClient();
+  const { getText, getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async ({ config, target }: { config: Record<string, unknown>; target: 'shop' | 'admin' }) => {
+      const response = await themesApi.saveDraftConfig(config, target);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: (_data, { target }) => {
+      queryClient.invalidateQueries({ queryKey: themeQueryKeys.editor(target) });
+      toast.success(getText('merchant.themes.editor.draftSaved', 'Draft saved'));
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error, 'merchant.themes.editor.saveFailed', 'Failed to save draft'));
+    },
+  });
+}
+
+export function useDiscardThemeDraft() {
+  const queryClient = useQueryClient();
+  const { getText, getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async (target: 'shop' | 'admin') => {
+      const response = await themesApi.discardDraft(target);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: (_data, target) => {
+      queryClient.invalidateQueries({ queryKey: themeQueryKeys.editor(target) });
+      toast.success(getText('merchant.themes.editor.draftDiscarded', 'Draft discarded'));
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error, 'merchant.themes.editor.discardFailed', 'Failed to discard draft'));
+    },
+  });
+}
+
+export function useCreateThemePreview() {
+  const { getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async (target: 'shop' | 'admin') => {
+      const response = await themesApi.createPreviewToken(target);
+      return unwrapApiResponse(response);
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error, 'merchant.themes.editor.previewFailed', 'Failed to create preview'));
+    },
+  });
+}
+
+export function usePublishTheme() {
+  const queryClient = useQueryClient();
+  const { getText, getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async ({ note, target }: { note?: string; target: 'shop' | 'admin' }) => {
+      const response = await themesApi.publish(note, target);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: themeQueryKeys.all });
+      toast.success(getText('merchant.themes.editor.publishSuccess', 'Theme changes published'));
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error, 'merchant.themes.editor.publishFailed', 'Failed to publish theme changes'));
+    },
+  });
+}
+
+export function useRevertThemePublication() {
+  const queryClient = useQueryClient();
+  const { getText, getErrorMessage } = useLocalizedApiFeedback();
+
+  return useMutation({
+    mutationFn: async ({ version, target }: { version: number; target: 'shop' | 'admin' }) => {
+      const response = await themesApi.revert(version, target);
+      return unwrapApiResponse(response);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: themeQueryKeys.all });
+      toast.success(getText('merchant.themes.editor.revertSuccess', 'Theme reverted'));
+    },
+    onError: (error: unknown) => {
+      toast.error(getErrorMessage(error, 'merchant.themes.editor.revertFailed', 'Failed to revert theme'));
+    },
+  });
+}
+
 // ==================== Inventory Forecasting Hooks ====================
 
 // Get aggregated inventory dashboard data
@@ -60,6 +60,7 @@ describe('Admin access policy', () => {
     ['/en/plugins', ADMIN_PERMISSIONS.PLUGINS_READ],
     ['/en/themes', ADMIN_PERMISSIONS.THEMES_READ],
     ['/en/settings', ADMIN_PERMISSIONS.SETTINGS_READ],
+    ['/en/content', ADMIN_PERMISSIONS.SETTINGS_READ],
     ['/en/system/updates', ADMIN_PERMISSIONS.SETTINGS_READ],
     ['/en/system/health', ADMIN_PERMISSIONS.HEALTH_READ],
     ['/en/errors', ADMIN_PERMISSIONS.HEALTH_READ],
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "public"."plugin_kv_entries" (
+    "id" TEXT NOT NULL,
+    "installationId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" JSONB,
+    "sizeBytes" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plugin_kv_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."plugin_storage_files" (
+    "id" TEXT NOT NULL,
+    "installationId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "contentType" TEXT,
+    "sizeBytes" INTEGER NOT NULL DEFAULT 0,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plugin_storage_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plugin_kv_entries_installationId_key_key" ON "public"."plugin_kv_entries"("installationId", "key");
+
+-- CreateIndex
+CREATE INDEX "plugin_kv_entries_installationId_idx" ON "public"."plugin_kv_entries"("installationId");
+
+-- CreateIndex
+CREATE INDEX "plugin_kv_entries_expiresAt_idx" ON "public"."plugin_kv_entries"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plugin_storage_files_installationId_key_key" ON "public"."plugin_storage_files"("installationId", "key");
+
+-- CreateIndex
+CREATE INDEX "plugin_storage_files_installationId_idx" ON "public"."plugin_storage_files"("installationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."plugin_kv_entries"
+ADD CONSTRAINT "plugin_kv_entries_installationId_fkey"
+FOREIGN KEY ("installationId") REFERENCES "public"."plugin_installations"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."plugin_storage_files"
+ADD CONSTRAINT "plugin_storage_files_installationId_fkey"
+FOREIGN KEY ("installationId") REFERENCES "public"."plugin_installations"("id")
+ON DELETE CASCADE ON UPDATE CASCADE;
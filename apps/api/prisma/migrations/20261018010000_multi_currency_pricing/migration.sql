@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "public"."exchange_rates" (
+    "id" TEXT NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validUntil" TIMESTAMP(3),
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."currency_prices" (
+    "id" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "price" DECIMAL(18,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "currency_prices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_fromCurrency_toCurrency_validFrom_idx" ON "public"."exchange_rates"("fromCurrency", "toCurrency", "validFrom");
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_createdAt_idx" ON "public"."exchange_rates"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "currency_prices_currency_idx" ON "public"."currency_prices"("currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "currency_prices_variantId_currency_key" ON "public"."currency_prices"("variantId", "currency");
+
+-- AddForeignKey
+ALTER TABLE "public"."currency_prices" ADD CONSTRAINT "currency_prices_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: orders were charged in the shop currency while the column kept its "USD" default
+UPDATE "public"."orders" SET "currency" = COALESCE(
+    (SELECT NULLIF("settings"->>'localization.currency', '') FROM "public"."system_settings" WHERE "id" = 'system'),
+    "currency"
+);
+
+UPDATE "public"."order_items" SET "currency" = "orders"."currency"
+FROM "public"."orders"
+WHERE "order_items"."orderId" = "orders"."id";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."inventory_reservations" ADD COLUMN "warehouseId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."inventory_reservations" ADD CONSTRAINT "inventory_reservations_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "public"."warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "public"."products" ADD COLUMN "taxClass" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."order_items" ADD COLUMN "taxAmount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN "taxRate" DECIMAL(9,4) NOT NULL DEFAULT 0,
+ADD COLUMN "taxBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."tax_zones" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "state" TEXT,
+    "postalCodePattern" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."tax_rates" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "taxClass" TEXT,
+    "name" TEXT NOT NULL,
+    "rate" DECIMAL(9,4) NOT NULL,
+    "isCompound" BOOLEAN NOT NULL DEFAULT false,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tax_zones_country_isActive_idx" ON "public"."tax_zones"("country", "isActive");
+
+-- CreateIndex
+CREATE INDEX "tax_rates_zoneId_taxClass_idx" ON "public"."tax_rates"("zoneId", "taxClass");
+
+-- AddForeignKey
+ALTER TABLE "public"."tax_rates" ADD CONSTRAINT "tax_rates_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "public"."tax_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN "shippingAmount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN "shippingMethodId" TEXT,
+ADD COLUMN "shippingMethodName" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."shipping_zones" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT,
+    "state" TEXT,
+    "postalCodePattern" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipping_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."shipping_methods" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rateType" TEXT NOT NULL DEFAULT 'FLAT',
+    "amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "tiers" JSONB,
+    "classSurcharges" JSONB,
+    "freeShippingThreshold" DECIMAL(18,2),
+    "minDeliveryDays" INTEGER,
+    "maxDeliveryDays" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipping_methods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shipping_zones_country_isActive_idx" ON "public"."shipping_zones"("country", "isActive");
+
+-- CreateIndex
+CREATE INDEX "shipping_methods_zoneId_isActive_idx" ON "public"."shipping_methods"("zoneId", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "public"."shipping_methods" ADD CONSTRAINT "shipping_methods_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "public"."shipping_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."orders" ADD CONSTRAINT "orders_shippingMethodId_fkey" FOREIGN KEY ("shippingMethodId") REFERENCES "public"."shipping_methods"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."carts" ALTER COLUMN "userId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."orders" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN "guestAccessTokenHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."discount_usages" ALTER COLUMN "userId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "orders_customerEmail_idx" ON "public"."orders"("customerEmail");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."staff_two_factor" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "enabledAt" TIMESTAMP(3),
+    "recoveryCodeHashes" JSONB NOT NULL DEFAULT '[]',
+    "lastUsedStep" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "staff_two_factor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "staff_two_factor_userId_key" ON "public"."staff_two_factor"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."staff_two_factor" ADD CONSTRAINT "staff_two_factor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
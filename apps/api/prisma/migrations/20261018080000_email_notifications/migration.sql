@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "locale" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."email_templates" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."email_logs" (
+    "id" TEXT NOT NULL,
+    "templateKey" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "variables" JSONB NOT NULL DEFAULT '{}',
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "transport" TEXT,
+    "providerMessageId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3),
+    "sourceEventId" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_key_locale_key" ON "public"."email_templates"("key", "locale");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_logs_sourceEventId_templateKey_key" ON "public"."email_logs"("sourceEventId", "templateKey");
+
+-- CreateIndex
+CREATE INDEX "email_logs_status_nextAttemptAt_idx" ON "public"."email_logs"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "email_logs_recipient_idx" ON "public"."email_logs"("recipient");
+
+-- CreateIndex
+CREATE INDEX "email_logs_createdAt_idx" ON "public"."email_logs"("createdAt");
@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "public"."OrderPaymentStatus" ADD VALUE 'PARTIALLY_REFUNDED' BEFORE 'REFUNDED';
+
+-- AlterTable
+ALTER TABLE "public"."refunds" ADD COLUMN "failureReason" TEXT,
+ADD COLUMN "completedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."refund_items" (
+    "id" TEXT NOT NULL,
+    "refundId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "restock" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "refund_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refunds_status_idx" ON "public"."refunds"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refund_items_refundId_orderItemId_key" ON "public"."refund_items"("refundId", "orderItemId");
+
+-- CreateIndex
+CREATE INDEX "refund_items_orderItemId_idx" ON "public"."refund_items"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."refund_items" ADD CONSTRAINT "refund_items_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "public"."refunds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."refund_items" ADD CONSTRAINT "refund_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "public"."ReturnStatus" AS ENUM ('REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED');
+
+-- CreateEnum
+CREATE TYPE "public"."ReturnInspectionResult" AS ENUM ('RESELLABLE', 'DAMAGED');
+
+-- CreateTable
+CREATE TABLE "public"."return_requests" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" "public"."ReturnStatus" NOT NULL DEFAULT 'REQUESTED',
+    "reason" TEXT NOT NULL,
+    "customerNote" TEXT,
+    "photos" JSONB,
+    "rejectionReason" TEXT,
+    "carrier" TEXT,
+    "trackingNumber" TEXT,
+    "labelUrl" TEXT,
+    "warehouseId" TEXT,
+    "inspectionNote" TEXT,
+    "refundId" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "return_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."return_items" (
+    "id" TEXT NOT NULL,
+    "returnRequestId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reason" TEXT,
+    "inspectionResult" "public"."ReturnInspectionResult",
+
+    CONSTRAINT "return_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_requests_refundId_key" ON "public"."return_requests"("refundId");
+
+-- CreateIndex
+CREATE INDEX "return_requests_orderId_idx" ON "public"."return_requests"("orderId");
+
+-- CreateIndex
+CREATE INDEX "return_requests_status_idx" ON "public"."return_requests"("status");
+
+-- CreateIndex
+CREATE INDEX "return_requests_trackingNumber_idx" ON "public"."return_requests"("trackingNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_items_returnRequestId_orderItemId_key" ON "public"."return_items"("returnRequestId", "orderItemId");
+
+-- CreateIndex
+CREATE INDEX "return_items_orderItemId_idx" ON "public"."return_items"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."return_requests" ADD CONSTRAINT "return_requests_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."return_requests" ADD CONSTRAINT "return_requests_warehouseId_fkey" FOREIGN KEY ("warehouseId") REFERENCES "public"."warehouses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."return_requests" ADD CONSTRAINT "return_requests_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "public"."refunds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."return_items" ADD CONSTRAINT "return_items_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "public"."return_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."return_items" ADD CONSTRAINT "return_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
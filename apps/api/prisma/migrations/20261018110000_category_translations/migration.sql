@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."category_translations" (
+    "id" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "category_translations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "category_translations_categoryId_idx" ON "public"."category_translations"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "category_translations_locale_idx" ON "public"."category_translations"("locale");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "category_translations_categoryId_locale_key" ON "public"."category_translations"("categoryId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "public"."category_translations" ADD CONSTRAINT "category_translations_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "public"."categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
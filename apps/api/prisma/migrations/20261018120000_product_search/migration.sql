@@ -0,0 +1,138 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateTable
+CREATE TABLE "public"."product_search_documents" (
+    "productId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "skus" TEXT NOT NULL DEFAULT '',
+    "description" TEXT NOT NULL DEFAULT '',
+    "document" tsvector NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_search_documents_pkey" PRIMARY KEY ("productId", "locale")
+);
+
+-- CreateIndex
+CREATE INDEX "product_search_documents_document_idx" ON "public"."product_search_documents" USING GIN ("document");
+
+-- CreateIndex
+CREATE INDEX "product_search_documents_name_idx" ON "public"."product_search_documents" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "product_search_documents_skus_idx" ON "public"."product_search_documents" USING GIN ("skus" gin_trgm_ops);
+
+-- AddForeignKey
+ALTER TABLE "public"."product_search_documents" ADD CONSTRAINT "product_search_documents_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateFunction
+-- Text search dictionary per storefront locale. Locales without a stemming
+-- dictionary (e.g. zh-Hant) fall back to 'simple', which still tokenizes and
+-- lowercases; typo tolerance for those comes from the trigram indexes.
+CREATE OR REPLACE FUNCTION "public"."product_search_config"(locale TEXT)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE locale
+        WHEN 'en' THEN 'english'::regconfig
+        ELSE 'simple'::regconfig
+    END
+$$;
+
+-- CreateFunction
+-- Rebuilds every search document of one product: the base row in the default
+-- locale ('en') plus one row per translation. Weights: name A, SKU codes B,
+-- description C.
+CREATE OR REPLACE FUNCTION "public"."refresh_product_search_documents"(target_product_id TEXT)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    sku_text TEXT;
+BEGIN
+    DELETE FROM "public"."product_search_documents" WHERE "productId" = target_product_id;
+
+    -- Cascading product deletes reach this function after the product row is gone
+    IF NOT EXISTS (SELECT 1 FROM "public"."products" WHERE "id" = target_product_id) THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(string_agg(v."skuCode", ' ' ORDER BY v."skuCode"), '')
+    INTO sku_text
+    FROM "public"."product_variants" v
+    WHERE v."productId" = target_product_id
+      AND v."isActive"
+      AND v."skuCode" IS NOT NULL;
+
+    INSERT INTO "public"."product_search_documents" ("productId", "locale", "name", "skus", "description", "document", "updatedAt")
+    SELECT
+        p."id",
+        'en',
+        p."name",
+        sku_text,
+        COALESCE(p."description", ''),
+        setweight(to_tsvector("public"."product_search_config"('en'), p."name"), 'A')
+            || setweight(to_tsvector('simple'::regconfig, sku_text), 'B')
+            || setweight(to_tsvector("public"."product_search_config"('en'), COALESCE(p."description", '')), 'C'),
+        CURRENT_TIMESTAMP
+    FROM "public"."products" p
+    WHERE p."id" = target_product_id
+    UNION ALL
+    SELECT
+        t."productId",
+        t."locale",
+        t."name",
+        sku_text,
+        COALESCE(t."description", ''),
+        setweight(to_tsvector("public"."product_search_config"(t."locale"), t."name"), 'A')
+            || setweight(to_tsvector('simple'::regconfig, sku_text), 'B')
+            || setweight(to_tsvector("public"."product_search_config"(t."locale"), COALESCE(t."description", '')), 'C'),
+        CURRENT_TIMESTAMP
+    FROM "public"."product_translations" t
+    WHERE t."productId" = target_product_id
+      AND t."locale" <> 'en';
+END;
+$$;
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION "public"."product_search_documents_sync"()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'products' THEN
+        PERFORM "public"."refresh_product_search_documents"(NEW."id");
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM "public"."refresh_product_search_documents"(OLD."productId");
+    END IF;
+
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW."productId" IS DISTINCT FROM OLD."productId") THEN
+        PERFORM "public"."refresh_product_search_documents"(NEW."productId");
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- CreateTrigger
+CREATE TRIGGER "products_search_sync"
+AFTER INSERT OR UPDATE OF "name", "description" ON "public"."products"
+FOR EACH ROW EXECUTE FUNCTION "public"."product_search_documents_sync"();
+
+-- CreateTrigger
+CREATE TRIGGER "product_variants_search_sync"
+AFTER INSERT OR DELETE OR UPDATE OF "productId", "skuCode", "isActive" ON "public"."product_variants"
+FOR EACH ROW EXECUTE FUNCTION "public"."product_search_documents_sync"();
+
+-- CreateTrigger
+CREATE TRIGGER "product_translations_search_sync"
+AFTER INSERT OR DELETE OR UPDATE OF "productId", "locale", "name", "description" ON "public"."product_translations"
+FOR EACH ROW EXECUTE FUNCTION "public"."product_search_documents_sync"();
+
+-- Backfill
+SELECT "public"."refresh_product_search_documents"(p."id") FROM "public"."products" p;
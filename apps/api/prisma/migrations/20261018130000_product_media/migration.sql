@@ -0,0 +1,90 @@
+-- CreateTable
+CREATE TABLE "public"."product_media" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT,
+    "variantId" TEXT,
+    "url" TEXT NOT NULL,
+    "filename" TEXT,
+    "mimeType" TEXT,
+    "fileSize" INTEGER,
+    "width" INTEGER,
+    "height" INTEGER,
+    "alt" TEXT,
+    "focalX" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "focalY" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "sizes" JSONB,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_media_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."product_media_translations" (
+    "id" TEXT NOT NULL,
+    "mediaId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "alt" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_media_translations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_media_productId_sortOrder_idx" ON "public"."product_media"("productId", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX "product_media_variantId_idx" ON "public"."product_media"("variantId");
+
+-- CreateIndex
+CREATE INDEX "product_media_filename_idx" ON "public"."product_media"("filename");
+
+-- CreateIndex
+CREATE INDEX "product_media_translations_locale_idx" ON "public"."product_media_translations"("locale");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_media_translations_mediaId_locale_key" ON "public"."product_media_translations"("mediaId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "public"."product_media" ADD CONSTRAINT "product_media_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_media" ADD CONSTRAINT "product_media_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_media_translations" ADD CONSTRAINT "product_media_translations_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "public"."product_media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Lift typeData.images into product_media
+-- Uploaded images (/uploads/products/<file>) keep their filename and the
+-- thumb_/medium_/large_ variants the upload pipeline already generated.
+INSERT INTO "public"."product_media" ("id", "productId", "url", "filename", "sizes", "sortOrder", "createdAt", "updatedAt")
+SELECT
+    'pm_' || md5(p."id" || ':' || img.ordinality::text),
+    p."id",
+    img.url,
+    upload.filename,
+    CASE
+        WHEN upload.filename IS NULL THEN NULL
+        ELSE jsonb_build_object(
+            'thumbnail', regexp_replace(img.url, '/uploads/products/([^/?#]+)$', '/uploads/products/thumb_\1'),
+            'medium', regexp_replace(img.url, '/uploads/products/([^/?#]+)$', '/uploads/products/medium_\1'),
+            'large', regexp_replace(img.url, '/uploads/products/([^/?#]+)$', '/uploads/products/large_\1')
+        )
+    END,
+    (img.ordinality - 1)::INTEGER,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "public"."products" p
+CROSS JOIN LATERAL jsonb_array_elements_text(
+    CASE
+        WHEN jsonb_typeof(p."typeData") = 'object' AND jsonb_typeof(p."typeData" -> 'images') = 'array'
+            THEN p."typeData" -> 'images'
+        ELSE '[]'::jsonb
+    END
+) WITH ORDINALITY AS img(url, ordinality)
+CROSS JOIN LATERAL (
+    SELECT substring(img.url FROM '/uploads/products/([^/?#]+)$') AS filename
+) upload
+WHERE length(trim(img.url)) > 0;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "public"."ReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "public"."products" ADD COLUMN     "ratingAverage" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."product_variants" ADD COLUMN     "ratingAverage" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."product_reviews" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "userId" TEXT NOT NULL,
+    "orderItemId" TEXT,
+    "rating" INTEGER NOT NULL,
+    "title" TEXT,
+    "body" TEXT NOT NULL,
+    "status" "public"."ReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "rejectionReason" TEXT,
+    "moderatedAt" TIMESTAMP(3),
+    "moderatedById" TEXT,
+    "reply" TEXT,
+    "repliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_reviews_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "product_reviews_rating_check" CHECK ("rating" BETWEEN 1 AND 5)
+);
+
+-- CreateIndex
+CREATE INDEX "product_reviews_productId_status_createdAt_idx" ON "public"."product_reviews"("productId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "product_reviews_variantId_status_idx" ON "public"."product_reviews"("variantId", "status");
+
+-- CreateIndex
+CREATE INDEX "product_reviews_status_createdAt_idx" ON "public"."product_reviews"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_reviews_userId_productId_key" ON "public"."product_reviews"("userId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "public"."product_reviews" ADD CONSTRAINT "product_reviews_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_reviews" ADD CONSTRAINT "product_reviews_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_reviews" ADD CONSTRAINT "product_reviews_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_reviews" ADD CONSTRAINT "product_reviews_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."order_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "public"."WishlistType" AS ENUM ('WISHLIST', 'SAVED_FOR_LATER');
+
+-- CreateTable
+CREATE TABLE "public"."wishlists" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "public"."WishlistType" NOT NULL DEFAULT 'WISHLIST',
+    "shareToken" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wishlists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."wishlist_items" (
+    "id" TEXT NOT NULL,
+    "wishlistId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "addedPrice" DECIMAL(18,2) NOT NULL,
+    "notifyBackInStock" BOOLEAN NOT NULL DEFAULT false,
+    "notifyPriceDrop" BOOLEAN NOT NULL DEFAULT false,
+    "backInStockNotifiedAt" TIMESTAMP(3),
+    "lastNotifiedPrice" DECIMAL(18,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wishlist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wishlists_shareToken_key" ON "public"."wishlists"("shareToken");
+
+-- CreateIndex
+CREATE INDEX "wishlists_userId_type_idx" ON "public"."wishlists"("userId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wishlists_userId_saved_for_later_key" ON "public"."wishlists"("userId") WHERE "type" = 'SAVED_FOR_LATER';
+
+-- CreateIndex
+CREATE INDEX "wishlist_items_variantId_notifyBackInStock_idx" ON "public"."wishlist_items"("variantId", "notifyBackInStock");
+
+-- CreateIndex
+CREATE INDEX "wishlist_items_variantId_notifyPriceDrop_idx" ON "public"."wishlist_items"("variantId", "notifyPriceDrop");
+
+-- CreateIndex
+CREATE INDEX "wishlist_items_productId_idx" ON "public"."wishlist_items"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wishlist_items_wishlistId_variantId_key" ON "public"."wishlist_items"("wishlistId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "public"."wishlists" ADD CONSTRAINT "wishlists_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."wishlist_items" ADD CONSTRAINT "wishlist_items_wishlistId_fkey" FOREIGN KEY ("wishlistId") REFERENCES "public"."wishlists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."wishlist_items" ADD CONSTRAINT "wishlist_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."wishlist_items" ADD CONSTRAINT "wishlist_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."customer_addresses" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "label" TEXT,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "email" TEXT,
+    "company" TEXT,
+    "addressLine1" TEXT NOT NULL,
+    "addressLine2" TEXT,
+    "city" TEXT NOT NULL,
+    "state" TEXT,
+    "postalCode" TEXT,
+    "country" TEXT NOT NULL,
+    "isDefaultShipping" BOOLEAN NOT NULL DEFAULT false,
+    "isDefaultBilling" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_addresses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customer_addresses_userId_idx" ON "public"."customer_addresses"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_addresses_userId_default_shipping_key" ON "public"."customer_addresses"("userId") WHERE "isDefaultShipping";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_addresses_userId_default_billing_key" ON "public"."customer_addresses"("userId") WHERE "isDefaultBilling";
+
+-- AddForeignKey
+ALTER TABLE "public"."customer_addresses" ADD CONSTRAINT "customer_addresses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,85 @@
+-- CreateTable
+CREATE TABLE "public"."customer_groups" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "minLifetimeSpend" DECIMAL(18,2),
+    "minOrderCount" INTEGER,
+    "emailDomains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."customer_group_members" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_group_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."customer_group_prices" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "price" DECIMAL(18,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_group_prices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."product_customer_groups" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_customer_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_groups_code_key" ON "public"."customer_groups"("code");
+
+-- CreateIndex
+CREATE INDEX "customer_group_members_userId_idx" ON "public"."customer_group_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_group_members_groupId_userId_key" ON "public"."customer_group_members"("groupId", "userId");
+
+-- CreateIndex
+CREATE INDEX "customer_group_prices_variantId_idx" ON "public"."customer_group_prices"("variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_group_prices_groupId_variantId_key" ON "public"."customer_group_prices"("groupId", "variantId");
+
+-- CreateIndex
+CREATE INDEX "product_customer_groups_groupId_idx" ON "public"."product_customer_groups"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_customer_groups_productId_groupId_key" ON "public"."product_customer_groups"("productId", "groupId");
+
+-- AddForeignKey
+ALTER TABLE "public"."customer_group_members" ADD CONSTRAINT "customer_group_members_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."customer_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."customer_group_members" ADD CONSTRAINT "customer_group_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."customer_group_prices" ADD CONSTRAINT "customer_group_prices_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."customer_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."customer_group_prices" ADD CONSTRAINT "customer_group_prices_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_customer_groups" ADD CONSTRAINT "product_customer_groups_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_customer_groups" ADD CONSTRAINT "product_customer_groups_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."customer_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
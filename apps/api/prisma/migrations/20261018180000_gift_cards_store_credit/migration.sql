@@ -0,0 +1,95 @@
+-- CreateEnum
+CREATE TYPE "public"."GiftCardTransactionType" AS ENUM ('ISSUE', 'REDEEM', 'RELEASE', 'ADJUST');
+
+-- CreateEnum
+CREATE TYPE "public"."StoreCreditTransactionType" AS ENUM ('REFUND', 'ADJUST', 'REDEEM', 'RELEASE');
+
+-- CreateTable
+CREATE TABLE "public"."gift_cards" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "initialBalance" DECIMAL(18,2) NOT NULL,
+    "balance" DECIMAL(18,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "expiresAt" TIMESTAMP(3),
+    "orderItemId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "gift_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."gift_card_transactions" (
+    "id" TEXT NOT NULL,
+    "giftCardId" TEXT NOT NULL,
+    "type" "public"."GiftCardTransactionType" NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "balanceAfter" DECIMAL(18,2) NOT NULL,
+    "orderId" TEXT,
+    "paymentId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gift_card_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."store_credit_accounts" (
+    "userId" TEXT NOT NULL,
+    "balance" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_credit_accounts_pkey" PRIMARY KEY ("userId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."store_credit_transactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "public"."StoreCreditTransactionType" NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "balanceAfter" DECIMAL(18,2) NOT NULL,
+    "orderId" TEXT,
+    "paymentId" TEXT,
+    "refundId" TEXT,
+    "note" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "store_credit_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gift_cards_code_key" ON "public"."gift_cards"("code");
+
+-- CreateIndex
+CREATE INDEX "gift_cards_orderItemId_idx" ON "public"."gift_cards"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "gift_card_transactions_giftCardId_idx" ON "public"."gift_card_transactions"("giftCardId");
+
+-- CreateIndex
+CREATE INDEX "gift_card_transactions_paymentId_idx" ON "public"."gift_card_transactions"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "store_credit_transactions_userId_createdAt_idx" ON "public"."store_credit_transactions"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "store_credit_transactions_paymentId_idx" ON "public"."store_credit_transactions"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."gift_cards" ADD CONSTRAINT "gift_cards_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."order_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."gift_card_transactions" ADD CONSTRAINT "gift_card_transactions_giftCardId_fkey" FOREIGN KEY ("giftCardId") REFERENCES "public"."gift_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."store_credit_accounts" ADD CONSTRAINT "store_credit_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."store_credit_transactions" ADD CONSTRAINT "store_credit_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."store_credit_accounts"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."webhook_subscriptions" ADD COLUMN     "disabledAt" TIMESTAMP(3),
+ADD COLUMN     "disabledReason" TEXT,
+ADD COLUMN     "failingSince" TIMESTAMP(3),
+ADD COLUMN     "previousSecret" TEXT,
+ADD COLUMN     "previousSecretExpiresAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."webhook_delivery_logs" ADD COLUMN     "eventType" TEXT,
+ADD COLUMN     "payload" JSONB;
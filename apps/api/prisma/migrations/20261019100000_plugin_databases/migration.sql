@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."plugin_databases" (
+    "id" TEXT NOT NULL,
+    "pluginSlug" TEXT NOT NULL,
+    "schemaName" TEXT NOT NULL,
+    "roleName" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "envVar" TEXT NOT NULL,
+    "appliedMigrations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "archivedSchema" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plugin_databases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plugin_databases_pluginSlug_key" ON "public"."plugin_databases"("pluginSlug");
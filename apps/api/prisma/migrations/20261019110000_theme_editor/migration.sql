@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."theme_drafts" (
+    "id" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "themeSlug" TEXT NOT NULL,
+    "templates" JSONB NOT NULL DEFAULT '{}',
+    "config" JSONB,
+    "baseVersion" INTEGER,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "theme_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."theme_publications" (
+    "id" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "themeSlug" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "templates" JSONB NOT NULL,
+    "config" JSONB NOT NULL,
+    "note" TEXT,
+    "revertedFrom" INTEGER,
+    "publishedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "theme_publications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "theme_drafts_target_themeSlug_key" ON "public"."theme_drafts"("target", "themeSlug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "theme_publications_target_themeSlug_version_key" ON "public"."theme_publications"("target", "themeSlug", "version");
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "public"."ContentType" AS ENUM ('PAGE', 'POST');
+
+-- CreateEnum
+CREATE TYPE "public"."ContentStatus" AS ENUM ('DRAFT', 'PUBLISHED');
+
+-- CreateTable
+CREATE TABLE "public"."content_entries" (
+    "id" TEXT NOT NULL,
+    "type" "public"."ContentType" NOT NULL,
+    "slug" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "body" TEXT NOT NULL DEFAULT '',
+    "coverImage" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "public"."ContentStatus" NOT NULL DEFAULT 'DRAFT',
+    "publishedAt" TIMESTAMP(3),
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "metaTitle" TEXT,
+    "metaDescription" TEXT,
+    "canonicalUrl" TEXT,
+    "structuredData" JSONB,
+
+    CONSTRAINT "content_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."content_entry_translations" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "body" TEXT NOT NULL DEFAULT '',
+    "metaTitle" TEXT,
+    "metaDescription" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "content_entry_translations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "content_entries_type_status_publishedAt_idx" ON "public"."content_entries"("type", "status", "publishedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_entries_type_slug_key" ON "public"."content_entries"("type", "slug");
+
+-- CreateIndex
+CREATE INDEX "content_entry_translations_locale_idx" ON "public"."content_entry_translations"("locale");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_entry_translations_entryId_locale_key" ON "public"."content_entry_translations"("entryId", "locale");
+
+-- AddForeignKey
+ALTER TABLE "public"."content_entry_translations" ADD CONSTRAINT "content_entry_translations_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."content_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."staff_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "staff_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "staff_recovery_codes_userId_hash_key" ON "public"."staff_recovery_codes"("userId", "hash");
+
+-- AddForeignKey
+ALTER TABLE "public"."staff_recovery_codes" ADD CONSTRAINT "staff_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."staff_two_factor"("userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move unused recovery codes out of the JSON array, one row per code
+INSERT INTO "public"."staff_recovery_codes" ("id", "userId", "hash")
+SELECT md5(random()::text || clock_timestamp()::text || codes.hash), codes."userId", codes.hash
+FROM (
+    SELECT DISTINCT t."userId", jsonb_array_elements_text(t."recoveryCodeHashes") AS hash
+    FROM "public"."staff_two_factor" t
+    WHERE jsonb_typeof(t."recoveryCodeHashes") = 'array'
+) codes;
+
+-- AlterTable
+ALTER TABLE "public"."staff_two_factor" DROP COLUMN "recoveryCodeHashes";
@@ -25,6 +25,8 @@ const envSchema = z.object({
   // JWT
   JWT_SECRET: z.string(),
   JWT_EXPIRES_IN: z.string().default('7d'),
+  // Key for plugin secrets stored in the database (defaults to one derived from JWT_SECRET)
+  PLUGIN_SECRETS_KEY: z.string().optional(),
 
   // CORS
   CORS_ENABLED: z.string().transform((v) => v === 'true').default('true'),
@@ -60,7 +62,16 @@ const envSchema = z.object({
   EMAIL_FROM: z.string().optional(),
   EMAIL_FROM_NAME: z.string().optional(),
   EMAIL_REPLY_TO: z.string().optional(),
+  // resend | smtp | file | log; unset picks resend when RESEND_API_KEY is set, otherwise log
+  EMAIL_TRANSPORT: z.enum(['resend', 'smtp', 'file', 'log']).optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().transform(Number).default('587'),
+  SMTP_SECURE: z.string().transform((v) => v.trim().toLowerCase() === 'true').default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  EMAIL_FILE_DIR: z.string().default('./tmp/emails'),
   AUTH_REQUIRE_EMAIL_VERIFICATION: z.string().transform((v) => v.trim().toLowerCase() !== 'false').default('true'),
+  AUTH_MAGIC_LINK_ENABLED: z.string().transform((v) => v.trim().toLowerCase() === 'true').default('false'),
 
   // Optional: Google OAuth
   GOOGLE_CLIENT_ID: z.string().optional(),
@@ -0,0 +1,232 @@
+/**
+ * Customer Address Book
+ *
+ * Saved addresses a signed-in customer can pick at checkout instead of
+ * typing them again. Addresses are validated like checkout shipping
+ * addresses (OrderService.validateShippingAddress).
+ *
+ * A customer has at most one default shipping and one default billing
+ * address. The first saved address becomes both; making another address a
+ * default clears the flag on the previous one, and deleting a default
+ * passes it to the most recently updated remaining address.
+ */
+
+import { prisma } from '@/config/database';
+import { OrderService } from '@/core/order/service';
+import {
+  CUSTOMER_ADDRESS_LIMIT,
+  CustomerAddressRequest,
+  CustomerAddressResponse,
+  UpdateCustomerAddressRequest,
+} from './types';
+
+type CustomerAddressRow = {
+  id: string;
+  label: string | null;
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email: string | null;
+  company: string | null;
+  addressLine1: string;
+  addressLine2: string | null;
+  city: string;
+  state: string | null;
+  postalCode: string | null;
+  country: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type AddressTx = Pick<typeof prisma, 'customerAddress'>;
+
+function formatAddress(address: CustomerAddressRow): CustomerAddressResponse {
+  return {
+    id: address.id,
+    label: address.label,
+    firstName: address.firstName,
+    lastName: address.lastName,
+    phone: address.phone,
+    email: address.email,
+    company: address.company,
+    addressLine1: address.addressLine1,
+    addressLine2: address.addressLine2,
+    city: address.city,
+    state: address.state,
+    postalCode: address.postalCode,
+    country: address.country,
+    isDefaultShipping: address.isDefaultShipping,
+    isDefaultBilling: address.isDefaultBilling,
+    createdAt: address.createdAt.toISOString(),
+    updatedAt: address.updatedAt.toISOString(),
+  };
+}
+
+/** Empty optional fields are stored as null */
+function addressData(input: UpdateCustomerAddressRequest) {
+  const optional = (value: string | undefined) => (value === undefined ? undefined : value || null);
+  return {
+    label: optional(input.label),
+    firstName: input.firstName,
+    lastName: input.lastName,
+    phone: input.phone,
+    email: optional(input.email),
+    company: optional(input.company),
+    addressLine1: input.addressLine1,
+    addressLine2: optional(input.addressLine2),
+    city: input.city,
+    state: optional(input.state),
+    postalCode: optional(input.postalCode),
+    country: input.country,
+  };
+}
+
+export class CustomerAddressService {
+  /**
+   * The customer's addresses, defaults first
+   */
+  static async listAddresses(userId: string): Promise<CustomerAddressResponse[]> {
+    const addresses = await prisma.customerAddress.findMany({
+      where: { userId },
+      orderBy: [{ isDefaultShipping: 'desc' }, { isDefaultBilling: 'desc' }, { updatedAt: 'desc' }],
+    });
+    return addresses.map(formatAddress);
+  }
+
+  /**
+   * @throws Error if the address does not exist or belongs to someone else
+   */
+  static async getAddress(userId: string, addressId: string): Promise<CustomerAddressResponse> {
+    return formatAddress(await this.findOwnAddress(userId, addressId));
+  }
+
+  /**
+   * Save a new address; the first one becomes the default shipping and
+   * billing address
+   *
+   * @throws Error if the address is incomplete or the address book is full
+   */
+  static async createAddress(userId: string, input: CustomerAddressRequest): Promise<CustomerAddressResponse> {
+    await OrderService.validateShippingAddress(input);
+
+    const address = await prisma.$transaction(async (tx) => {
+      const count = await tx.customerAddress.count({ where: { userId } });
+      if (count >= CUSTOMER_ADDRESS_LIMIT) {
+        throw new Error(`Address book is full: at most ${CUSTOMER_ADDRESS_LIMIT} addresses`);
+      }
+
+      const isDefaultShipping = count === 0 || Boolean(input.isDefaultShipping);
+      const isDefaultBilling = count === 0 || Boolean(input.isDefaultBilling);
+      await this.clearDefaults(tx, userId, { isDefaultShipping, isDefaultBilling });
+
+      return tx.customerAddress.create({
+        data: { ...addressData(input), userId, isDefaultShipping, isDefaultBilling },
+      });
+    });
+    return formatAddress(address);
+  }
+
+  /**
+   * Update an address; omitted fields keep their value
+   *
+   * @throws Error if the address is not the customer's or the result is incomplete
+   */
+  static async updateAddress(
+    userId: string,
+    addressId: string,
+    input: UpdateCustomerAddressRequest
+  ): Promise<CustomerAddressResponse> {
+    const existing = await this.findOwnAddress(userId, addressId);
+    const data = addressData(input);
+    await OrderService.validateShippingAddress({
+      firstName: data.firstName ?? existing.firstName,
+      lastName: data.lastName ?? existing.lastName,
+      phone: data.phone ?? existing.phone,
+      addressLine1: data.addressLine1 ?? existing.addressLine1,
+      city: data.city ?? existing.city,
+      country: data.country ?? existing.country,
+      state: data.state === undefined ? existing.state ?? undefined : data.state ?? undefined,
+      postalCode: data.postalCode === undefined ? existing.postalCode ?? undefined : data.postalCode ?? undefined,
+    });
+
+    const address = await prisma.$transaction(async (tx) => {
+      await this.clearDefaults(tx, userId, {
+        isDefaultShipping: input.isDefaultShipping === true,
+        isDefaultBilling: input.isDefaultBilling === true,
+      }, existing.id);
+
+      return tx.customerAddress.update({
+        where: { id: existing.id },
+        data: {
+          ...data,
+          ...(input.isDefaultShipping !== undefined ? { isDefaultShipping: input.isDefaultShipping } : {}),
+          ...(input.isDefaultBilling !== undefined ? { isDefaultBilling: input.isDefaultBilling } : {}),
+        },
+      });
+    });
+    return formatAddress(address);
+  }
+
+  /**
+   * Delete an address; a default passes to the most recently updated
+   * remaining address
+   */
+  static async deleteAddress(userId: string, addressId: string): Promise<void> {
+    const existing = await this.findOwnAddress(userId, addressId);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.customerAddress.delete({ where: { id: existing.id } });
+      if (!existing.isDefaultShipping && !existing.isDefaultBilling) {
+        return;
+      }
+
+      const successor = await tx.customerAddress.findFirst({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+        select: { id: true },
+      });
+      if (!successor) {
+        return;
+      }
+      await tx.customerAddress.update({
+        where: { id: successor.id },
+        data: {
+          ...(existing.isDefaultShipping ? { isDefaultShipping: true } : {}),
+          ...(existing.isDefaultBilling ? { isDefaultBilling: true } : {}),
+        },
+      });
+    });
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private static async findOwnAddress(userId: string, addressId: string): Promise<CustomerAddressRow> {
+    const address = await prisma.customerAddress.findFirst({ where: { id: addressId, userId } });
+    if (!address) {
+      throw new Error('Address not found');
+    }
+    return address;
+  }
+
+  /**
+   * Clear the default flags about to be set on another address
+   */
+  private static async clearDefaults(
+    tx: AddressTx,
+    userId: string,
+    flags: { isDefaultShipping: boolean; isDefaultBilling: boolean },
+    exceptId?: string
+  ): Promise<void> {
+    const where = { userId, ...(exceptId ? { id: { not: exceptId } } : {}) };
+    if (flags.isDefaultShipping) {
+      await tx.customerAddress.updateMany({ where: { ...where, isDefaultShipping: true }, data: { isDefaultShipping: false } });
+    }
+    if (flags.isDefaultBilling) {
+      await tx.customerAddress.updateMany({ where: { ...where, isDefaultBilling: true }, data: { isDefaultBilling: false } });
+    }
+  }
+}
@@ -1,13 +1,17 @@
 import { FastifyInstance } from 'fastify';
 import { AccountService } from './service';
-import { UpdateEmailSchema, UpdateProfileSchema } from './types';
+import { CustomerAddressService } from './addresses';
+import { CustomerAddressSchema, UpdateCustomerAddressSchema, UpdateEmailSchema, UpdateProfileSchema } from './types';
 import { authMiddleware } from '@/core/auth/middleware';
 import { sendSuccess, sendError } from '@/utils/response';
 import { UploadService } from '@/core/upload/service';
-import { mapAccountRouteError } from '@/utils/route-error-mapper';
+import { mapAccountRouteError, mapAddressRouteError } from '@/utils/route-error-mapper';
+import { LOCALES } from '@jiffoo/shared';
 import {
   uploadResultSchema,
+  createTypedCreateResponses,
   createTypedCrudResponses,
+  createTypedDeleteResponses,
   createTypedReadResponses,
   createTypedUpdateResponses,
 } from '@/types/common-dto';
@@ -19,6 +23,7 @@ const userProfileSchema = {
     email: { type: 'string' },
     username: { type: 'string' },
     avatar: { type: ['string', 'null'] },
+    locale: { type: ['string', 'null'] },
     role: { type: 'string' },
     isActive: { type: 'boolean' },
     orderCount: { type: 'number' },
@@ -44,6 +49,59 @@ const userProfileSchema = {
   additionalProperties: false,
 } as const;
 
+const customerAddressSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    label: { type: ['string', 'null'] },
+    firstName: { type: 'string' },
+    lastName: { type: 'string' },
+    phone: { type: 'string' },
+    email: { type: ['string', 'null'] },
+    company: { type: ['string', 'null'] },
+    addressLine1: { type: 'string' },
+    addressLine2: { type: ['string', 'null'] },
+    city: { type: 'string' },
+    state: { type: ['string', 'null'] },
+    postalCode: { type: ['string', 'null'] },
+    country: { type: 'string' },
+    isDefaultShipping: { type: 'boolean' },
+    isDefaultBilling: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: [
+    'id', 'firstName', 'lastName', 'phone', 'addressLine1', 'city', 'country',
+    'isDefaultShipping', 'isDefaultBilling', 'createdAt', 'updatedAt',
+  ],
+  additionalProperties: false,
+} as const;
+
+const customerAddressBodyProperties = {
+  label: { type: 'string', maxLength: 50, description: 'Name shown in the address picker, e.g. Home' },
+  firstName: { type: 'string' },
+  lastName: { type: 'string' },
+  phone: { type: 'string' },
+  email: { type: 'string' },
+  company: { type: 'string', maxLength: 100 },
+  addressLine1: { type: 'string' },
+  addressLine2: { type: 'string' },
+  city: { type: 'string' },
+  state: { type: 'string' },
+  postalCode: { type: 'string' },
+  country: { type: 'string' },
+  isDefaultShipping: { type: 'boolean', description: 'Make this the default shipping address' },
+  isDefaultBilling: { type: 'boolean', description: 'Make this the default billing address' },
+} as const;
+
+const addressIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Address ID' },
+  },
+} as const;
+
 /**
  * User Account Routes
  * Path prefix: /api/account
@@ -94,7 +152,12 @@ export async function accountRoutes(fastify: FastifyInstance) {
         type: 'object',
         properties: {
           username: { type: 'string', minLength: 3, maxLength: 50 },
-          avatar: { type: 'string' }
+          avatar: { type: 'string' },
+          locale: {
+            type: ['string', 'null'],
+            enum: [...LOCALES, null],
+            description: 'Language for emails; null follows the shop locale'
+          }
         }
       },
       response: createTypedUpdateResponses(userProfileSchema),
@@ -186,7 +249,149 @@ export async function accountRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * List saved addresses
+   * GET /api/account/addresses
+   */
+  fastify.get('/addresses', {
+    schema: {
+      tags: ['account'],
+      summary: 'List saved addresses',
+      description: 'Address book of the current user, default addresses first',
+      security: [{ bearerAuth: [] }],
+      response: createTypedReadResponses({ type: 'array', items: customerAddressSchema }),
+    }
+  }, async (request, reply) => {
+    try {
+      const addresses = await CustomerAddressService.listAddresses(request.user!.id);
+      return sendSuccess(reply, addresses);
+    } catch (error: unknown) {
+      const mapped = mapAddressRouteError(error, {
+        defaultStatus: 500,
+        defaultCode: 'INTERNAL_SERVER_ERROR',
+        defaultMessage: 'Failed to get addresses',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
+
+  /**
+   * Save an address
+   * POST /api/account/addresses
+   */
+  fastify.post('/addresses', {
+    schema: {
+      tags: ['account'],
+      summary: 'Save address',
+      description: 'Add an address to the address book; the first address becomes the default shipping and billing address',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['firstName', 'lastName', 'phone', 'addressLine1', 'city', 'country'],
+        properties: customerAddressBodyProperties,
+      },
+      response: createTypedCreateResponses(customerAddressSchema),
+    }
+  }, async (request, reply) => {
+    try {
+      const data = CustomerAddressSchema.parse(request.body);
+      const address = await CustomerAddressService.createAddress(request.user!.id, data);
+      return sendSuccess(reply, address, 'Address saved', 201);
+    } catch (error: unknown) {
+      const mapped = mapAddressRouteError(error, {
+        defaultStatus: 500,
+        defaultCode: 'INTERNAL_SERVER_ERROR',
+        defaultMessage: 'Failed to save address',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
 
+  /**
+   * Get a saved address
+   * GET /api/account/addresses/:id
+   */
+  fastify.get('/addresses/:id', {
+    schema: {
+      tags: ['account'],
+      summary: 'Get saved address',
+      security: [{ bearerAuth: [] }],
+      params: addressIdParams,
+      response: createTypedReadResponses(customerAddressSchema),
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const address = await CustomerAddressService.getAddress(request.user!.id, id);
+      return sendSuccess(reply, address);
+    } catch (error: unknown) {
+      const mapped = mapAddressRouteError(error, {
+        defaultStatus: 500,
+        defaultCode: 'INTERNAL_SERVER_ERROR',
+        defaultMessage: 'Failed to get address',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
 
+  /**
+   * Update a saved address
+   * PUT /api/account/addresses/:id
+   */
+  fastify.put('/addresses/:id', {
+    schema: {
+      tags: ['account'],
+      summary: 'Update saved address',
+      description: 'Update address fields or default flags; omitted fields keep their value',
+      security: [{ bearerAuth: [] }],
+      params: addressIdParams,
+      body: {
+        type: 'object',
+        properties: customerAddressBodyProperties,
+      },
+      response: createTypedUpdateResponses(customerAddressSchema),
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const data = UpdateCustomerAddressSchema.parse(request.body);
+      const address = await CustomerAddressService.updateAddress(request.user!.id, id, data);
+      return sendSuccess(reply, address, 'Address updated');
+    } catch (error: unknown) {
+      const mapped = mapAddressRouteError(error, {
+        defaultStatus: 500,
+        defaultCode: 'INTERNAL_SERVER_ERROR',
+        defaultMessage: 'Failed to update address',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
 
+  /**
+   * Delete a saved address
+   * DELETE /api/account/addresses/:id
+   */
+  fastify.delete('/addresses/:id', {
+    schema: {
+      tags: ['account'],
+      summary: 'Delete saved address',
+      description: 'Remove an address; its default flags pass to the most recently updated remaining address',
+      security: [{ bearerAuth: [] }],
+      params: addressIdParams,
+      response: createTypedDeleteResponses({ type: 'null' }),
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      await CustomerAddressService.deleteAddress(request.user!.id, id);
+      return sendSuccess(reply, null, 'Address deleted');
+    } catch (error: unknown) {
+      const mapped = mapAddressRouteError(error, {
+        defaultStatus: 500,
+        defaultCode: 'INTERNAL_SERVER_ERROR',
+        defaultMessage: 'Failed to delete address',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
 }
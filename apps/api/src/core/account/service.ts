@@ -12,6 +12,7 @@ export class AccountService {
     email: true,
     username: true,
     avatar: true,
+    locale: true,
     role: true,
     isActive: true,
     createdAt: true,
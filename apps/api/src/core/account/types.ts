@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { LOCALES } from '@jiffoo/shared';
+import { ShippingAddressSchema } from '@/core/order/types';
 
 /**
  * User Account Types
@@ -9,6 +11,7 @@ import { z } from 'zod';
 export const UpdateProfileSchema = z.object({
   username: z.string().min(3).max(50).optional(),
   avatar: z.string().url().optional(),
+  locale: z.enum(LOCALES).nullable().optional(),
 });
 
 export const UpdateEmailSchema = z.object({
@@ -16,9 +19,45 @@ export const UpdateEmailSchema = z.object({
   currentPassword: z.string().min(1),
 });
 
+/** Saved addresses per customer */
+export const CUSTOMER_ADDRESS_LIMIT = 20;
+
+// Address book entry: the checkout shipping address plus a label and default flags
+export const CustomerAddressSchema = ShippingAddressSchema.extend({
+  label: z.string().trim().max(50).optional(),
+  company: z.string().trim().max(100).optional(),
+  isDefaultShipping: z.boolean().optional(),
+  isDefaultBilling: z.boolean().optional(),
+});
+
+export const UpdateCustomerAddressSchema = CustomerAddressSchema.partial();
+
 // TypeScript type definition
 export type UpdateProfileRequest = z.infer<typeof UpdateProfileSchema>;
 export type UpdateEmailRequest = z.infer<typeof UpdateEmailSchema>;
+export type CustomerAddressRequest = z.infer<typeof CustomerAddressSchema>;
+export type UpdateCustomerAddressRequest = z.infer<typeof UpdateCustomerAddressSchema>;
+
+// Saved address response structure
+export interface CustomerAddressResponse {
+  id: string;
+  label: string | null;
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email: string | null;
+  company: string | null;
+  addressLine1: string;
+  addressLine2: string | null;
+  city: string;
+  state: string | null;
+  postalCode: string | null;
+  country: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
 
 // User profile response structure
 export interface UserProfileResponse {
@@ -26,6 +65,7 @@ export interface UserProfileResponse {
   email: string;
   username: string;
   avatar?: string;
+  locale?: string | null;
   role: string;
   isActive: boolean;
   orderCount: number;
@@ -2,6 +2,7 @@
 import crypto from 'crypto';
 import { prisma } from '@/config/database';
 import { InventoryService } from '@/core/inventory/service';
+import { ProductMediaService } from '@/core/media/service';
 import { WarehouseService } from '@/core/warehouse/service';
 
 type ExternalCategoryInput = {
@@ -498,6 +499,12 @@ export class AdminCatalogImportService {
         throw new Error(`Failed to resolve core product for external product ${externalProductCode}`);
       }
 
+      await ProductMediaService.replaceProductImages(
+        prisma,
+        coreProductId,
+        Array.isArray(product.images) ? product.images : []
+      );
+
       const incomingVariantCodes = new Set<string>();
       for (const [index, variant] of (product.variants || []).entries()) {
         if (!variant.externalVariantCode?.trim()) continue;
@@ -15,7 +15,7 @@ const orderStatusEnum = [
   'REFUNDED',
 ] as const;
 
-const paymentStatusEnum = ['PENDING', 'PAID', 'FAILED', 'REFUNDED'] as const;
+const paymentStatusEnum = ['PENDING', 'PAID', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED'] as const;
 
 // ============================================================================
 // Dashboard Metrics Schema
@@ -46,7 +46,7 @@ export class AdminDashboardService {
             prisma.order.aggregate({
                 _sum: { totalAmount: true },
                 where: {
-                    paymentStatus: 'PAID',
+                    paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
                     status: { notIn: ['CANCELLED', 'REFUNDED'] }
                 }
             }),
@@ -56,7 +56,7 @@ export class AdminDashboardService {
             prisma.order.aggregate({
                 _sum: { totalAmount: true },
                 where: {
-                    paymentStatus: 'PAID',
+                    paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
                     status: { notIn: ['CANCELLED', 'REFUNDED'] },
                     createdAt: { gte: startOfTodayUtc }
                 }
@@ -64,7 +64,7 @@ export class AdminDashboardService {
             prisma.order.aggregate({
                 _sum: { totalAmount: true },
                 where: {
-                    paymentStatus: 'PAID',
+                    paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
                     status: { notIn: ['CANCELLED', 'REFUNDED'] },
                     createdAt: { gte: startOfYesterdayUtc, lt: startOfTodayUtc }
                 }
@@ -210,7 +210,7 @@ export class AdminDashboardService {
                     _sum: { totalAmount: true },
                     where: {
                         storeId: store.id,
-                        paymentStatus: 'PAID',
+                        paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
                         status: { notIn: ['CANCELLED', 'REFUNDED'] }
                     }
                 }),
@@ -11,6 +11,9 @@
  * - `plugin_gateway_requests_total{slug,status}` — counter
  * - `plugin_gateway_duration_seconds{slug}` — histogram
  * - `plugin_gateway_breaker_state{slug,state}` — gauge
+ * - `plugin_runtime_up{slug,installation}` — gauge (isolated plugin processes)
+ * - `plugin_runtime_restarts_total{slug,installation}` — counter
+ * - `plugin_runtime_memory_bytes{slug,installation}` — gauge (RSS)
  */
 
 // ============================================================================
@@ -21,6 +24,13 @@ export interface GatewayMetricsSnapshot {
   requestsTotal: Map<string, number>; // key: "slug|status"
   durationBuckets: Map<string, number[]>; // key: slug, value: durations in ms
   breakerStates: Map<string, string>; // key: slug, value: state
+  runtimeStates: Map<string, PluginRuntimeMetrics>; // key: "slug|installationId"
+}
+
+export interface PluginRuntimeMetrics {
+  up: boolean;
+  restarts: number;
+  rssBytes: number;
 }
 
 // ============================================================================
@@ -31,6 +41,7 @@ class GatewayMetricsRegistry {
   private requestsTotal = new Map<string, number>();
   private durationBuckets = new Map<string, number[]>();
   private breakerStates = new Map<string, string>();
+  private runtimeStates = new Map<string, PluginRuntimeMetrics>();
 
   /** Histogram buckets in milliseconds (Prometheus-style) */
   private readonly durationBucketMs = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
@@ -70,6 +81,13 @@ class GatewayMetricsRegistry {
     this.breakerStates.set(slug, state);
   }
 
+  /**
+   * Update the runtime gauges of an isolated plugin process.
+   */
+  recordRuntimeState(slug: string, installationId: string, state: PluginRuntimeMetrics): void {
+    this.runtimeStates.set(`${slug}|${installationId}`, { ...state });
+  }
+
   /**
    * Get a snapshot of all metrics (for Prometheus export or testing).
    */
@@ -78,6 +96,7 @@ class GatewayMetricsRegistry {
       requestsTotal: new Map(this.requestsTotal),
       durationBuckets: new Map(this.durationBuckets),
       breakerStates: new Map(this.breakerStates),
+      runtimeStates: new Map(this.runtimeStates),
     };
   }
 
@@ -123,6 +142,30 @@ class GatewayMetricsRegistry {
       lines.push(`plugin_gateway_breaker_state{slug="${slug}"} ${stateMap[state] ?? 0}`);
     }
 
+    // Isolated plugin processes
+    if (this.runtimeStates.size > 0) {
+      lines.push('# HELP plugin_runtime_up Isolated plugin process is running (1) or down (0)');
+      lines.push('# TYPE plugin_runtime_up gauge');
+      for (const [key, state] of this.runtimeStates) {
+        const [slug, installationId] = key.split('|');
+        lines.push(`plugin_runtime_up{slug="${slug}",installation="${installationId}"} ${state.up ? 1 : 0}`);
+      }
+
+      lines.push('# HELP plugin_runtime_restarts_total Isolated plugin process restarts after crashes');
+      lines.push('# TYPE plugin_runtime_restarts_total counter');
+      for (const [key, state] of this.runtimeStates) {
+        const [slug, installationId] = key.split('|');
+        lines.push(`plugin_runtime_restarts_total{slug="${slug}",installation="${installationId}"} ${state.restarts}`);
+      }
+
+      lines.push('# HELP plugin_runtime_memory_bytes Isolated plugin process resident memory');
+      lines.push('# TYPE plugin_runtime_memory_bytes gauge');
+      for (const [key, state] of this.runtimeStates) {
+        const [slug, installationId] = key.split('|');
+        lines.push(`plugin_runtime_memory_bytes{slug="${slug}",installation="${installationId}"} ${state.rssBytes}`);
+      }
+    }
+
     return lines.join('\n') + '\n';
   }
 
@@ -133,6 +176,7 @@ class GatewayMetricsRegistry {
     this.requestsTotal.clear();
     this.durationBuckets.clear();
     this.breakerStates.clear();
+    this.runtimeStates.clear();
   }
 }
 
@@ -0,0 +1,157 @@
+/**
+ * Plugin API Client
+ *
+ * Server-side calls into a plugin through the runtime gateway
+ * (`/api/extensions/plugin/:slug/api/*`). Paths are given as they appear under
+ * the gateway, e.g. `/api/tax/calculate`; the plugin receives `/tax/calculate`.
+ *
+ * Retries timeouts, network errors and retryable statuses with backoff.
+ * Callers that need a circuit breaker pass one in.
+ */
+
+export type PluginCallResult = {
+  ok: boolean;
+  status: number;
+  payload: Record<string, unknown>;
+  error?: string;
+};
+
+type RetryOptions = {
+  retries: number;
+  minDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+  jitter: number;
+};
+
+export type PluginCallOptions = {
+  pluginSlug: string;
+  path: string;
+  body?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retryOptions?: Partial<RetryOptions>;
+};
+
+/** Told about every attempt, so a breaker sees each failure and not just the last */
+export interface PluginCallObserver {
+  recordSuccess(): void;
+  recordFailure(): void;
+}
+
+const defaultRetryOptions: RetryOptions = {
+  retries: 2,
+  minDelayMs: 200,
+  maxDelayMs: 2000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getBackoffDelay(attempt: number, options: RetryOptions): number {
+  const base = Math.min(options.minDelayMs * Math.pow(options.factor, attempt - 1), options.maxDelayMs);
+  const jitter = base * options.jitter * Math.random();
+  return Math.round(base + jitter);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function getPluginApiUrl(pluginSlug: string, path: string): string {
+  const gatewayBase = process.env.API_SERVICE_URL || 'http://127.0.0.1:3001';
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+  return `${gatewayBase}/api/extensions/plugin/${pluginSlug}${normalizedPath}`;
+}
+
+/**
+ * POST JSON to a plugin through the gateway
+ *
+ * Never throws: an unreachable plugin comes back as `{ ok: false, status: 502 }`.
+ */
+export async function callPluginApi(
+  options: PluginCallOptions,
+  observer?: PluginCallObserver
+): Promise<PluginCallResult> {
+  const url = getPluginApiUrl(options.pluginSlug, options.path);
+
+  const retryOptions: RetryOptions = {
+    ...defaultRetryOptions,
+    ...(options.retryOptions || {}),
+  };
+
+  const timeoutMs = options.timeoutMs ?? 8000;
+  const headers = {
+    'content-type': 'application/json',
+    ...(options.headers || {}),
+  };
+
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= retryOptions.retries + 1; attempt += 1) {
+    try {
+      const response = await fetchWithTimeout(
+        url,
+        {
+          method: 'POST',
+          headers,
+          body: options.body ? JSON.stringify(options.body) : undefined,
+        },
+        timeoutMs
+      );
+
+      const payload = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+
+      if (response.ok) {
+        observer?.recordSuccess();
+        return { ok: true, status: response.status, payload };
+      }
+
+      if (isRetryableStatus(response.status)) {
+        observer?.recordFailure();
+        if (attempt <= retryOptions.retries) {
+          await sleep(getBackoffDelay(attempt, retryOptions));
+          continue;
+        }
+      } else {
+        observer?.recordSuccess();
+      }
+
+      return { ok: false, status: response.status, payload };
+    } catch (error) {
+      lastError = error;
+      observer?.recordFailure();
+      if (attempt <= retryOptions.retries) {
+        await sleep(getBackoffDelay(attempt, retryOptions));
+        continue;
+      }
+      break;
+    }
+  }
+
+  return {
+    ok: false,
+    status: 502,
+    payload: {
+      error: 'plugin_unreachable',
+      message: lastError instanceof Error ? lastError.message : 'Plugin request failed',
+    },
+  };
+}
@@ -0,0 +1,534 @@
+/**
+ * Plugin Managed Database
+ *
+ * Plugins that ship a Prisma schema (`prisma/schema.prisma` + `prisma/migrations`)
+ * get an isolated Postgres schema and login role in the core database:
+ * - Schema `plugin_<slug>` owned by role `plugin_<slug>_role` (dashes become underscores)
+ * - The role's search_path is its own schema. It is granted nothing on `public`
+ *   beyond what PUBLIC has there (USAGE, and CREATE before PostgreSQL 15), and
+ *   no core tables; its password is stored encrypted
+ * - Migrations are applied by the installer on install and upgrade, all pending
+ *   migrations in one transaction on a connection that logs in as the plugin
+ *   role, so plugin SQL never runs with the core user's privileges and a
+ *   failing migration leaves the schema untouched. On upgrade the transaction
+ *   stays open until the new version has warmed up, and is rolled back if it
+ *   does not
+ * - The connection string is injected into the env var the plugin's datasource
+ *   reads (`url = env("STRIPE_DATABASE_URL")`) before its runtime is loaded
+ *
+ * An env var already set by the operator wins: the plugin is treated as using an
+ * externally managed database and is neither provisioned nor migrated.
+ * PLUGIN_DATABASE_PROVISIONING=off disables provisioning entirely (e.g. when the
+ * core database user lacks CREATEROLE).
+ *
+ * On purge the schema is archived (renamed, role loses LOGIN) or dropped.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { env } from '@/config/env';
+import { decryptConfigSecret, encryptConfigSecret } from '@/core/admin/plugin-management/config-secrets';
+import { LoggerService, logger } from '@/core/logger/unified-logger';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PRISMA_SCHEMA_FILE = path.join('prisma', 'schema.prisma');
+const PRISMA_MIGRATIONS_DIR = path.join('prisma', 'migrations');
+
+/**
+ * Upper bound for applying a plugin's pending migrations (interactive transaction
+ * timeout), including the warm-up a held transaction waits for
+ */
+const MIGRATION_TIMEOUT_MS = 120_000;
+
+export type PluginDatabaseReleaseMode = 'archive' | 'drop';
+
+/** Migrations applied in a transaction that is still open */
+export type PendingPluginMigrations = {
+  names: string[];
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+};
+
+export type ProvisionedPluginDatabase = {
+  schemaName: string;
+  envVar: string;
+  created: boolean;
+  appliedMigrations: string[];
+  /** Only with `holdMigrations`: the caller commits or rolls back */
+  migrations?: PendingPluginMigrations;
+};
+
+/** Connection strings injected by this module, by env var (to tell them apart from operator-set values) */
+const injectedEnvValues = new Map<string, string>();
+
+function isProvisioningEnabled(): boolean {
+  return (process.env.PLUGIN_DATABASE_PROVISIONING || 'on').trim().toLowerCase() !== 'off';
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Schema and role names for a plugin slug.
+ * Slugs are validated against ^[a-z][a-z0-9-]{0,30}[a-z0-9]$ so the result is a
+ * safe Postgres identifier well below the 63 character limit.
+ */
+export function getPluginDatabaseIdentifiers(slug: string): { schemaName: string; roleName: string } {
+  const base = `plugin_${slug.replace(/-/g, '_')}`;
+  return { schemaName: base, roleName: `${base}_role` };
+}
+
+function quoteIdent(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Read the env var name from the datasource block of a Prisma schema
+ * (`url = env("STRIPE_DATABASE_URL")`).
+ */
+export function resolvePluginDatabaseEnvVar(schemaSource: string): string | null {
+  const datasource = schemaSource.match(/datasource\s+\w+\s*\{([\s\S]*?)\}/);
+  if (!datasource) return null;
+
+  const provider = datasource[1].match(/provider\s*=\s*"([^"]+)"/);
+  if (provider && provider[1] !== 'postgresql') return null;
+
+  const url = datasource[1].match(/url\s*=\s*env\(\s*"([A-Za-z_][A-Za-z0-9_]*)"\s*\)/);
+  return url ? url[1] : null;
+}
+
+/**
+ * Split a migration script into single statements.
+ * Prisma executes raw SQL as prepared statements, which accept one statement at
+ * a time. Quoted strings, quoted identifiers, dollar-quoted bodies and comments
+ * are respected; comments are dropped.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === char) {
+          if (sql[end + 1] === char) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '$') {
+      const tag = sql.slice(i).match(/^\$[A-Za-z_]*\$/);
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        const end = close === -1 ? sql.length : close + tag[0].length;
+        current += sql.slice(i, end);
+        i = end;
+        continue;
+      }
+    }
+
+    if (char === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+async function readPluginPrismaSchema(pluginDir: string): Promise<{ envVar: string } | null> {
+  let schemaSource: string;
+  try {
+    schemaSource = await fs.readFile(path.join(pluginDir, PRISMA_SCHEMA_FILE), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const envVar = resolvePluginDatabaseEnvVar(schemaSource);
+  if (!envVar) {
+    logger.warn('Plugin Prisma schema has no postgresql datasource with env() url, skipping database provisioning', {
+      pluginDir,
+    });
+    return null;
+  }
+  return { envVar };
+}
+
+/** Migration folders in apply order (Prisma's timestamp-prefixed naming sorts chronologically). */
+async function listPluginMigrations(pluginDir: string): Promise<Array<{ name: string; sql: string }>> {
+  const migrationsDir = path.join(pluginDir, PRISMA_MIGRATIONS_DIR);
+  let entries: Array<{ name: string; isDirectory(): boolean }>;
+  try {
+    entries = await fs.readdir(migrationsDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const migrations: Array<{ name: string; sql: string }> = [];
+  for (const entry of entries.filter((item) => item.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    try {
+      const sql = await fs.readFile(path.join(migrationsDir, entry.name, 'migration.sql'), 'utf-8');
+      migrations.push({ name: entry.name, sql });
+    } catch {
+      // Folder without migration.sql (e.g. leftovers) - nothing to apply
+    }
+  }
+  return migrations;
+}
+
+/** `password` as stored on PluginDatabase (encrypted) */
+function buildConnectionString(roleName: string, password: string, schemaName: string): string {
+  const url = new URL(env.DATABASE_URL);
+  url.username = roleName;
+  url.password = decryptConfigSecret(password);
+  url.searchParams.set('schema', schemaName);
+  return url.toString();
+}
+
+/**
+ * Client logged in as the plugin role, for running plugin SQL. A `SET ROLE` or
+ * `RESET ROLE` in a migration stays within what that role may do.
+ */
+function createPluginRoleClient(record: { roleName: string; password: string; schemaName: string }): PrismaClient {
+  const url = new URL(buildConnectionString(record.roleName, record.password, record.schemaName));
+  url.searchParams.set('connection_limit', '1');
+  return new PrismaClient({ datasourceUrl: url.toString() });
+}
+
+function isExternallyManaged(envVar: string): boolean {
+  const current = process.env[envVar];
+  return !!current && current !== injectedEnvValues.get(envVar);
+}
+
+function injectEnv(envVar: string, connectionString: string): void {
+  process.env[envVar] = connectionString;
+  injectedEnvValues.set(envVar, connectionString);
+}
+
+// ============================================================================
+// Provisioning
+// ============================================================================
+
+async function createSchemaAndRole(schemaName: string, roleName: string, password: string): Promise<void> {
+  // Identifiers derive from validated slugs and the password is hex, so inlining is safe;
+  // DDL does not accept bind parameters.
+  await prisma.$executeRawUnsafe(
+    `DO $$ BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = '${roleName}') THEN
+        CREATE ROLE ${quoteIdent(roleName)} LOGIN PASSWORD '${password}';
+      ELSE
+        ALTER ROLE ${quoteIdent(roleName)} LOGIN PASSWORD '${password}';
+      END IF;
+    END $$`,
+  );
+  // Membership lets the core connection archive or drop the plugin's schema later
+  await prisma.$executeRawUnsafe(`GRANT ${quoteIdent(roleName)} TO CURRENT_USER`);
+  await prisma.$executeRawUnsafe(`CREATE SCHEMA IF NOT EXISTS ${quoteIdent(schemaName)} AUTHORIZATION ${quoteIdent(roleName)}`);
+  await prisma.$executeRawUnsafe(`REVOKE ALL ON SCHEMA public FROM ${quoteIdent(roleName)}`);
+  await prisma.$executeRawUnsafe(`ALTER ROLE ${quoteIdent(roleName)} SET search_path = ${quoteIdent(schemaName)}`);
+}
+
+/**
+ * Apply a plugin's pending migrations in one transaction on the plugin role's
+ * connection and leave it open. Nothing is visible to other connections, nor
+ * recorded as applied, until commit().
+ *
+ * @throws Error if a migration fails; the transaction is rolled back
+ */
+async function beginPendingMigrations(
+  slug: string,
+  pluginDir: string,
+  record: { schemaName: string; roleName: string; password: string; appliedMigrations: string[] },
+): Promise<PendingPluginMigrations> {
+  const migrations = await listPluginMigrations(pluginDir);
+  const applied = new Set(record.appliedMigrations);
+  const pending = migrations.filter((migration) => !applied.has(migration.name));
+  const names = pending.map((migration) => migration.name);
+  if (pending.length === 0) {
+    return { names, commit: async () => {}, rollback: async () => {} };
+  }
+
+  let currentMigration = pending[0].name;
+  let markApplied!: () => void;
+  const allApplied = new Promise<void>((resolve) => { markApplied = resolve; });
+  let settle!: (commit: boolean) => void;
+  const verdict = new Promise<boolean>((resolve) => { settle = resolve; });
+
+  const client = createPluginRoleClient(record);
+  const transaction = client.$transaction(async (tx) => {
+    for (const migration of pending) {
+      currentMigration = migration.name;
+      for (const statement of splitSqlStatements(migration.sql)) {
+        await tx.$executeRawUnsafe(statement);
+      }
+    }
+    markApplied();
+    if (!(await verdict)) {
+      throw new Error('Rolled back');
+    }
+  }, { timeout: MIGRATION_TIMEOUT_MS });
+
+  try {
+    await Promise.race([allApplied, transaction]);
+  } catch (error: any) {
+    await client.$disconnect();
+    throw new Error(`Plugin database migration "${currentMigration}" failed: ${error?.message || 'Unknown error'}`);
+  }
+
+  return {
+    names,
+    async commit() {
+      settle(true);
+      try {
+        await transaction;
+      } catch (error: any) {
+        throw new Error(`Plugin database migrations could not be committed: ${error?.message || 'Unknown error'}`);
+      } finally {
+        await client.$disconnect();
+      }
+      await prisma.pluginDatabase.update({
+        where: { pluginSlug: slug },
+        data: { appliedMigrations: [...record.appliedMigrations, ...names] },
+      });
+    },
+    async rollback() {
+      settle(false);
+      await transaction.catch(() => undefined);
+      await client.$disconnect();
+    },
+  };
+}
+
+/**
+ * Provision (if needed) and migrate the managed database of a plugin whose files
+ * are in `pluginDir`, then inject its connection string.
+ *
+ * Returns null when the plugin has no Prisma schema or its database is managed
+ * externally. `created` is true when this call created the schema; a failed
+ * migration on a freshly created schema drops it again. With `holdMigrations`
+ * the migrations are left uncommitted and returned as `migrations`; rolling
+ * them back also drops a freshly created schema.
+ */
+async function provisionPluginDatabase(
+  slug: string,
+  pluginDir: string,
+  options: { holdMigrations?: boolean } = {},
+): Promise<ProvisionedPluginDatabase | null> {
+  const prismaSchema = await readPluginPrismaSchema(pluginDir);
+  if (!prismaSchema || !isProvisioningEnabled()) {
+    return null;
+  }
+
+  const { envVar } = prismaSchema;
+  if (isExternallyManaged(envVar)) {
+    logger.info(`Plugin "${slug}" uses an operator-provided ${envVar}, skipping managed database`, { slug });
+    return null;
+  }
+
+  const { schemaName, roleName } = getPluginDatabaseIdentifiers(slug);
+  let record = await prisma.pluginDatabase.findUnique({ where: { pluginSlug: slug } });
+  const created = !record || record.status !== 'active';
+
+  if (created) {
+    const password = randomBytes(24).toString('hex');
+    await createSchemaAndRole(schemaName, roleName, password);
+    const data = {
+      schemaName,
+      roleName,
+      password: encryptConfigSecret(password),
+      envVar,
+      appliedMigrations: [],
+      status: 'active',
+      archivedSchema: null,
+      archivedAt: null,
+    };
+    record = await prisma.pluginDatabase.upsert({
+      where: { pluginSlug: slug },
+      create: { pluginSlug: slug, ...data },
+      update: data,
+    });
+  } else if (record!.envVar !== envVar) {
+    record = await prisma.pluginDatabase.update({ where: { pluginSlug: slug }, data: { envVar } });
+  }
+
+  const active = record!;
+  const dropIfCreated = async () => {
+    if (!created) return;
+    await releasePluginDatabase(slug, 'drop').catch((releaseError) => {
+      LoggerService.logError(releaseError instanceof Error ? releaseError : new Error(String(releaseError)), {
+        context: 'Failed to drop plugin database after migration failure',
+        slug,
+      });
+    });
+  };
+
+  let migrations: PendingPluginMigrations;
+  try {
+    migrations = await beginPendingMigrations(slug, pluginDir, active);
+    if (!options.holdMigrations) {
+      await migrations.commit();
+    }
+  } catch (error) {
+    await dropIfCreated();
+    throw error;
+  }
+  const appliedMigrations = migrations.names;
+
+  injectEnv(envVar, buildConnectionString(active.roleName, active.password, active.schemaName));
+
+  logger.info(`Plugin "${slug}" database ready`, {
+    slug,
+    schemaName: active.schemaName,
+    created,
+    appliedMigrations,
+  });
+
+  return {
+    schemaName: active.schemaName,
+    envVar,
+    created,
+    appliedMigrations,
+    ...(options.holdMigrations
+      ? {
+          migrations: {
+            names: migrations.names,
+            commit: () => migrations.commit(),
+            async rollback() {
+              await migrations.rollback();
+              await dropIfCreated();
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+// ============================================================================
+// Runtime injection
+// ============================================================================
+
+/**
+ * Env vars carrying the plugin's managed connection string (empty when the
+ * plugin has no active managed database).
+ */
+async function getPluginDatabaseEnv(slug: string): Promise<Record<string, string>> {
+  const record = await prisma.pluginDatabase.findUnique({ where: { pluginSlug: slug } });
+  if (!record || record.status !== 'active') {
+    return {};
+  }
+  return { [record.envVar]: buildConnectionString(record.roleName, record.password, record.schemaName) };
+}
+
+/**
+ * Set the plugin's managed connection string in process.env before its entry
+ * module is loaded (internal-fastify plugins share the API process).
+ */
+async function applyPluginDatabaseEnv(slug: string): Promise<void> {
+  const databaseEnv = await getPluginDatabaseEnv(slug);
+  for (const [envVar, connectionString] of Object.entries(databaseEnv)) {
+    if (!isExternallyManaged(envVar)) {
+      injectEnv(envVar, connectionString);
+    }
+  }
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+/**
+ * Archive or drop the managed database of a plugin.
+ * - archive: schema renamed to `<schema>_archived_<timestamp>`, role loses LOGIN
+ * - drop: schema dropped with its objects; the role is dropped unless it still
+ *   owns archived schemas, in which case it only loses LOGIN
+ * The PluginDatabase row is kept to record where archived data lives.
+ */
+async function releasePluginDatabase(slug: string, mode: PluginDatabaseReleaseMode): Promise<boolean> {
+  const record = await prisma.pluginDatabase.findUnique({ where: { pluginSlug: slug } });
+  if (!record || record.status !== 'active') {
+    return false;
+  }
+
+  const now = new Date();
+  if (mode === 'archive') {
+    const stamp = now.toISOString().replace(/\D/g, '').slice(0, 14);
+    const archivedSchema = `${record.schemaName}_archived_${stamp}`;
+    await prisma.$executeRawUnsafe(`ALTER SCHEMA ${quoteIdent(record.schemaName)} RENAME TO ${quoteIdent(archivedSchema)}`);
+    await prisma.$executeRawUnsafe(`ALTER ROLE ${quoteIdent(record.roleName)} NOLOGIN`);
+    await prisma.pluginDatabase.update({
+      where: { pluginSlug: slug },
+      data: { status: 'archived', archivedSchema, archivedAt: now },
+    });
+  } else {
+    await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS ${quoteIdent(record.schemaName)} CASCADE`);
+    try {
+      await prisma.$executeRawUnsafe(`DROP ROLE IF EXISTS ${quoteIdent(record.roleName)}`);
+    } catch {
+      await prisma.$executeRawUnsafe(`ALTER ROLE ${quoteIdent(record.roleName)} NOLOGIN`);
+    }
+    await prisma.pluginDatabase.update({
+      where: { pluginSlug: slug },
+      data: { status: 'dropped', appliedMigrations: [] },
+    });
+  }
+
+  if (injectedEnvValues.has(record.envVar) && !isExternallyManaged(record.envVar)) {
+    delete process.env[record.envVar];
+    injectedEnvValues.delete(record.envVar);
+  }
+
+  logger.info(`Plugin "${slug}" database ${mode === 'archive' ? 'archived' : 'dropped'}`, {
+    slug,
+    schemaName: record.schemaName,
+  });
+  return true;
+}
+
+// ============================================================================
+// Export Service Object
+// ============================================================================
+
+export const PluginDatabaseService = {
+  provision: provisionPluginDatabase,
+  getEnv: getPluginDatabaseEnv,
+  applyEnv: applyPluginDatabaseEnv,
+  release: releasePluginDatabase,
+};
@@ -9,6 +9,7 @@
  * - Idempotent installation based on ZIP SHA-256 hash
  * - Automatic database record creation (PluginInstall + default PluginInstallation)
  * - Atomic directory replacement with rollback on failure
+ * - Managed database schema + migrations for plugins that ship a Prisma schema
  */
 
 import { Readable } from 'stream';
@@ -23,6 +24,7 @@ import {
   PluginManifest,
 } from './types';
 import { CacheService } from '@/core/cache/service';
+import { LoggerService } from '@/core/logger/unified-logger';
 import {
   extractZipToTemp,
   cleanupTemp,
@@ -53,6 +55,7 @@ import {
 } from '@/core/admin/plugin-management/lifecycle-hooks';
 import { WebhookSubscriptionService } from '@/core/webhooks/subscription-service';
 import { ThemeExtensionsService } from '@/core/admin/plugin-management/theme-extensions-service';
+import { PluginDatabaseService, type PendingPluginMigrations } from './plugin-database';
 
 function parseJsonArray(value: unknown): string[] {
   if (!value) return [];
@@ -225,7 +228,15 @@ export class PluginFsInstaller implements IPluginInstaller {
 
       // Phase 3: For UPGRADE scenario, warm all enabled instances BEFORE DB commit
       if (existingBySlug) {
+        let migrations: PendingPluginMigrations | undefined;
         try {
+          // Apply the new version's pending migrations first (all-or-nothing). The transaction
+          // stays open through warm-up, so a warm failure rolls the schema back with the files.
+          if (manifest.runtimeType === 'internal-fastify') {
+            const database = await PluginDatabaseService.provision(manifest.slug, targetDir, { holdMigrations: true });
+            migrations = database?.migrations;
+          }
+
           // Import warmPluginInstanceRuntime
           const { warmPluginInstanceRuntime } = await import('./plugin-runtime');
 
@@ -243,6 +254,9 @@ export class PluginFsInstaller implements IPluginInstaller {
             await warmPluginInstanceRuntime(manifest.slug, instance.id);
           }
 
+          // New version is up: keep its schema changes
+          await migrations?.commit();
+
           // All instances warmed successfully - proceed with DB update
           // CRITICAL: Set deletedAt=null to restore visibility (in case of re-install after soft delete)
           const pluginInstall = await prisma.pluginInstall.update({
@@ -352,6 +366,14 @@ export class PluginFsInstaller implements IPluginInstaller {
           // WARM FAILED: Rollback file system, keep old version
           console.error(`Warm failed for plugin ${manifest.slug}, rolling back:`, warmError);
 
+          // Undo the new version's migrations (no-op once committed)
+          await migrations?.rollback().catch((err) =>
+            LoggerService.logError(err instanceof Error ? err : new Error(String(err)), {
+              context: 'plugin migration rollback after failed upgrade',
+              pluginSlug: manifest.slug,
+            })
+          );
+
           // Remove new directory
           if (targetDir && (await dirExists(targetDir))) {
             await removeDir(targetDir).catch(() => {});
@@ -369,8 +391,13 @@ export class PluginFsInstaller implements IPluginInstaller {
           );
         }
       } else {
-        // NEW INSTALL: Create DB records, then warm default instance
+        // NEW INSTALL: Provision the plugin database, create DB records, then warm default instance
+        let provisionedDatabase: Awaited<ReturnType<typeof PluginDatabaseService.provision>> = null;
         try {
+          if (manifest.runtimeType === 'internal-fastify') {
+            provisionedDatabase = await PluginDatabaseService.provision(manifest.slug, targetDir);
+          }
+
           const result = await prisma.$transaction(async (tx) => {
             const install = await tx.pluginInstall.create({
               data: {
@@ -507,7 +534,16 @@ export class PluginFsInstaller implements IPluginInstaller {
           return installedPlugin;
 
         } catch (dbError) {
-          // DB transaction failed: ROLLBACK file system changes
+          // DB transaction failed: ROLLBACK file system changes and the fresh plugin database
+          if (provisionedDatabase?.created) {
+            await PluginDatabaseService.release(manifest.slug, 'drop').catch((err) =>
+              LoggerService.logError(err instanceof Error ? err : new Error(String(err)), {
+                context: 'plugin database drop after failed install',
+                pluginSlug: manifest.slug,
+              })
+            );
+          }
+
           if (targetDir && (await dirExists(targetDir))) {
             await removeDir(targetDir).catch(() => {});
           }
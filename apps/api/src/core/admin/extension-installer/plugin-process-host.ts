@@ -0,0 +1,127 @@
+/**
+ * Plugin Process Host
+ *
+ * Entry point of the child process that runs one internal-fastify plugin
+ * instance when PLUGIN_ISOLATION_MODE=process (see plugin-process-runtime.ts).
+ * It loads the plugin into its own Fastify instance and serves requests
+ * forwarded by the parent over the IPC channel.
+ *
+ * Messages (parent → child):
+ * - init      { entryPath, version, config } → ready | init-error
+ * - request   { id, method, url, headers, payload? (base64) } → response | response-error
+ * - ping      { id } → pong { id, rssBytes, heapUsedBytes, cpuMicros }
+ * - shutdown  → closes the Fastify instance and exits
+ *
+ * This file is forked directly, so it must not use `@/` path aliases.
+ */
+
+import Fastify, { type FastifyInstance, type FastifyPluginAsync, type InjectOptions } from 'fastify';
+import { loadPluginEntryModule } from './plugin-module-loader';
+
+type ParentMessage =
+  | { type: 'init'; entryPath: string; version: string; config: Record<string, unknown> }
+  | {
+      type: 'request';
+      id: number;
+      method: NonNullable<InjectOptions['method']>;
+      url: string;
+      headers: Record<string, string>;
+      payload?: string;
+    }
+  | { type: 'ping'; id: number }
+  | { type: 'shutdown' };
+
+type PluginOptions = Record<string, unknown>;
+
+let app: FastifyInstance | null = null;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error && error.message ? error.message : 'Unknown error';
+}
+
+/**
+ * The plugin function from a CommonJS export or an ES module default export
+ */
+function resolvePluginExport(mod: unknown): FastifyPluginAsync<PluginOptions> | null {
+  const exported = typeof mod === 'object' && mod !== null && 'default' in mod && mod.default ? mod.default : mod;
+  return typeof exported === 'function' ? (exported as FastifyPluginAsync<PluginOptions>) : null;
+}
+
+function send(message: Record<string, unknown>): void {
+  if (process.send) {
+    process.send(message);
+  }
+}
+
+async function init(entryPath: string, version: string, config: Record<string, unknown>): Promise<void> {
+  try {
+    const mod: unknown = await loadPluginEntryModule(entryPath, { version, bustCache: false });
+    const pluginFn = resolvePluginExport(mod);
+    if (!pluginFn) {
+      throw new Error('Plugin does not export a Fastify plugin function');
+    }
+
+    const candidate = Fastify({ logger: false });
+    await candidate.register(pluginFn, config);
+    await candidate.ready();
+    app = candidate;
+    send({ type: 'ready' });
+  } catch (error) {
+    send({ type: 'init-error', message: errorMessage(error) });
+  }
+}
+
+async function handleRequest(message: Extract<ParentMessage, { type: 'request' }>): Promise<void> {
+  if (!app) {
+    send({ type: 'response-error', id: message.id, message: 'Plugin is not initialized' });
+    return;
+  }
+
+  try {
+    const res = await app.inject({
+      method: message.method,
+      url: message.url,
+      headers: message.headers,
+      payload: message.payload !== undefined ? Buffer.from(message.payload, 'base64') : undefined,
+    });
+
+    send({
+      type: 'response',
+      id: message.id,
+      statusCode: res.statusCode,
+      headers: res.headers,
+      body: res.rawPayload.toString('base64'),
+    });
+  } catch (error) {
+    send({ type: 'response-error', id: message.id, message: errorMessage(error) });
+  }
+}
+
+process.on('message', (message: ParentMessage) => {
+  switch (message.type) {
+    case 'init':
+      void init(message.entryPath, message.version, message.config);
+      break;
+    case 'request':
+      void handleRequest(message);
+      break;
+    case 'ping': {
+      const memory = process.memoryUsage();
+      const cpu = process.cpuUsage();
+      send({
+        type: 'pong',
+        id: message.id,
+        rssBytes: memory.rss,
+        heapUsedBytes: memory.heapUsed,
+        cpuMicros: cpu.user + cpu.system,
+      });
+      break;
+    }
+    case 'shutdown':
+      void (app ? app.close() : Promise.resolve()).finally(() => process.exit(0));
+      break;
+  }
+});
+
+// The parent going away must not leave orphaned plugin processes behind
+process.on('disconnect', () => process.exit(0));
@@ -0,0 +1,491 @@
+/**
+ * Plugin Process Runtime (process isolation for internal-fastify plugins)
+ *
+ * With PLUGIN_ISOLATION_MODE=process every internal-fastify plugin instance
+ * runs in its own child process (plugin-process-host.ts) instead of sharing
+ * the API process. The gateway keeps doing header sanitization, injection and
+ * signing in the parent; only the final inject() crosses the IPC channel.
+ *
+ * Limits:
+ * - Memory: V8 heap capped with --max-old-space-size (PLUGIN_PROCESS_MAX_MEMORY_MB);
+ *   RSS above twice that (native buffers) is also treated as a crash
+ * - CPU: sustained usage above PLUGIN_PROCESS_MAX_CPU_PERCENT for three
+ *   consecutive heartbeats kills the process
+ * - Liveness: two unanswered heartbeats (PLUGIN_PROCESS_HEARTBEAT_MS) kill the process
+ * - Environment: only a small allowlist, PLUGIN_ENV_PASSTHROUGH and the plugin's
+ *   managed database connection string are visible to the plugin
+ *
+ * Crashes reject in-flight requests and restart the process with exponential
+ * backoff (1s doubling up to 60s). The backoff resets once a process has
+ * stayed up for a minute.
+ */
+
+import { fork, type ChildProcess } from 'child_process';
+import path from 'path';
+import { gatewayMetrics } from './gateway-metrics';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PluginIsolationMode = 'none' | 'process';
+
+export type PluginProcessState = 'starting' | 'running' | 'crashed' | 'stopped';
+
+export interface PluginProcessRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  payload?: string | Buffer;
+}
+
+export interface PluginProcessResponse {
+  statusCode: number;
+  headers: Record<string, unknown>;
+  body: Buffer;
+}
+
+export interface PluginProcessStatus {
+  state: PluginProcessState;
+  pid: number | null;
+  restarts: number;
+  rssBytes: number;
+  lastExitReason: string | null;
+  nextRestartAt: Date | null;
+}
+
+export interface PluginProcessOptions {
+  slug: string;
+  installationId: string;
+  entryPath: string;
+  version: string;
+  config: Record<string, unknown>;
+  /** Extra environment for the child (e.g. managed database connection string) */
+  env?: Record<string, string>;
+}
+
+/**
+ * Why a process call failed, so callers can map failures without parsing messages
+ */
+export type PluginProcessErrorCode =
+  | 'START_FAILED'
+  | 'PROCESS_UNAVAILABLE'
+  | 'PROCESS_EXITED'
+  | 'REQUEST_TIMEOUT'
+  | 'REQUEST_FAILED';
+
+export class PluginProcessError extends Error {
+  public readonly code: PluginProcessErrorCode;
+
+  constructor(message: string, code: PluginProcessErrorCode) {
+    super(message);
+    this.name = 'PluginProcessError';
+    this.code = code;
+  }
+}
+
+interface PendingRequest {
+  resolve: (response: PluginProcessResponse) => void;
+  reject: (error: PluginProcessError) => void;
+  timer: NodeJS.Timeout;
+}
+
+type ChildMessage =
+  | { type: 'ready' }
+  | { type: 'init-error'; message: string }
+  | { type: 'response'; id: number; statusCode: number; headers: Record<string, unknown>; body: string }
+  | { type: 'response-error'; id: number; message: string }
+  | { type: 'pong'; id: number; rssBytes: number; heapUsedBytes: number; cpuMicros: number };
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const BASE_ENV_ALLOWLIST = ['NODE_ENV', 'PATH', 'TZ', 'LANG', 'HOME'];
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 60000;
+const STABLE_UPTIME_MS = 60000;
+const START_TIMEOUT_MS = 30000;
+const SHUTDOWN_GRACE_MS = 5000;
+const MISSED_HEARTBEATS_LIMIT = 2;
+const CPU_STRIKES_LIMIT = 3;
+
+function readPositiveNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getPluginIsolationMode(): PluginIsolationMode {
+  return process.env.PLUGIN_ISOLATION_MODE === 'process' ? 'process' : 'none';
+}
+
+/**
+ * Delay before the n-th consecutive restart (1-based): 1s, 2s, 4s ... capped at 60s.
+ */
+export function computeRestartDelay(consecutiveCrashes: number): number {
+  const exponent = Math.max(0, consecutiveCrashes - 1);
+  return Math.min(RESTART_BASE_DELAY_MS * 2 ** exponent, RESTART_MAX_DELAY_MS);
+}
+
+function buildChildEnv(extra: Record<string, string> | undefined): Record<string, string> {
+  const passthrough = (process.env.PLUGIN_ENV_PASSTHROUGH || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const env: Record<string, string> = {};
+  for (const name of [...BASE_ENV_ALLOWLIST, ...passthrough]) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return { ...env, ...extra };
+}
+
+function resolveHostPath(): string {
+  // Same extension as this module: .ts under tsx (dev/tests), .js in the build output
+  return path.join(__dirname, `plugin-process-host${path.extname(__filename)}`);
+}
+
+// ============================================================================
+// Runtime
+// ============================================================================
+
+export class PluginProcessRuntime {
+  private readonly options: PluginProcessOptions;
+  private readonly maxMemoryMb = readPositiveNumber('PLUGIN_PROCESS_MAX_MEMORY_MB', 256);
+  private readonly maxCpuPercent = readPositiveNumber('PLUGIN_PROCESS_MAX_CPU_PERCENT', 90);
+  private readonly heartbeatMs = readPositiveNumber('PLUGIN_PROCESS_HEARTBEAT_MS', 5000);
+
+  private child: ChildProcess | null = null;
+  private state: PluginProcessState = 'stopped';
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+  private restarts = 0;
+  private consecutiveCrashes = 0;
+  private startedAt = 0;
+  private rssBytes = 0;
+  private lastExitReason: string | null = null;
+  private killReason: string | null = null;
+  private nextRestartAt: Date | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private missedHeartbeats = 0;
+  private cpuStrikes = 0;
+  private lastCpuSample: { cpuMicros: number; at: number } | null = null;
+  private everRan = false;
+  private closed = false;
+
+  constructor(options: PluginProcessOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Fork the host process and wait until the plugin has registered.
+   * Rejects when the plugin fails to load; no restart is scheduled in that case.
+   */
+  async start(): Promise<void> {
+    await this.spawn();
+  }
+
+  status(): PluginProcessStatus {
+    return {
+      state: this.state,
+      pid: this.child?.pid ?? null,
+      restarts: this.restarts,
+      rssBytes: this.rssBytes,
+      lastExitReason: this.lastExitReason,
+      nextRestartAt: this.nextRestartAt,
+    };
+  }
+
+  /**
+   * Forward a request to the plugin process.
+   */
+  inject(request: PluginProcessRequest, timeoutMs: number): Promise<PluginProcessResponse> {
+    const child = this.child;
+    if (this.state !== 'running' || !child) {
+      const retry = this.nextRestartAt
+        ? ` (restart in ${Math.max(0, Math.ceil((this.nextRestartAt.getTime() - Date.now()) / 1000))}s)`
+        : '';
+      return Promise.reject(new PluginProcessError(
+        `Plugin "${this.options.slug}" process is unavailable${retry}`,
+        'PROCESS_UNAVAILABLE',
+      ));
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise<PluginProcessResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new PluginProcessError(`Plugin "${this.options.slug}" request timeout (${timeoutMs}ms)`, 'REQUEST_TIMEOUT'));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+
+      const payload = request.payload === undefined
+        ? undefined
+        : Buffer.from(request.payload).toString('base64');
+      child.send({ type: 'request', id, method: request.method, url: request.url, headers: request.headers, payload });
+    });
+  }
+
+  /**
+   * Stop the process for good (runtime replaced, instance disabled or uninstalled).
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.clearTimers();
+    this.state = 'stopped';
+    this.publishMetrics();
+
+    const child = this.child;
+    if (!child || child.exitCode !== null || child.signalCode !== null) {
+      this.rejectPending(`Plugin "${this.options.slug}" process stopped`);
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const forceKill = setTimeout(() => child.kill('SIGKILL'), SHUTDOWN_GRACE_MS);
+      child.once('exit', () => {
+        clearTimeout(forceKill);
+        resolve();
+      });
+      if (child.connected) {
+        child.send({ type: 'shutdown' });
+      } else {
+        child.kill('SIGTERM');
+      }
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Process lifecycle
+  // --------------------------------------------------------------------------
+
+  private spawn(): Promise<void> {
+    this.state = 'starting';
+    this.killReason = null;
+    this.missedHeartbeats = 0;
+    this.cpuStrikes = 0;
+    this.lastCpuSample = null;
+
+    const execArgv = process.execArgv.filter((arg) => !arg.startsWith('--max-old-space-size'));
+    execArgv.push(`--max-old-space-size=${Math.floor(this.maxMemoryMb)}`);
+
+    const child = fork(resolveHostPath(), [], {
+      execArgv,
+      env: buildChildEnv(this.options.env),
+      stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+    });
+    this.child = child;
+
+    return new Promise<void>((resolve, reject) => {
+      let settled = false;
+      const settle = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(startTimer);
+        if (error) reject(error);
+        else resolve();
+      };
+
+      const startTimer = setTimeout(() => {
+        this.kill('start timeout');
+        settle(new PluginProcessError(
+          `Plugin "${this.options.slug}" process did not start within ${START_TIMEOUT_MS}ms`,
+          'START_FAILED',
+        ));
+      }, START_TIMEOUT_MS);
+
+      child.on('message', (message: ChildMessage) => {
+        if (message.type === 'ready') {
+          this.state = 'running';
+          this.everRan = true;
+          this.startedAt = Date.now();
+          this.nextRestartAt = null;
+          this.startHeartbeat();
+          this.publishMetrics();
+          settle();
+          return;
+        }
+        if (message.type === 'init-error') {
+          this.kill('init failed');
+          settle(new PluginProcessError(message.message, 'START_FAILED'));
+          return;
+        }
+        this.handleMessage(message);
+      });
+
+      child.on('error', (error) => {
+        settle(new PluginProcessError(error.message, 'START_FAILED'));
+      });
+
+      child.on('exit', (code, signal) => {
+        const reason = this.killReason || (signal ? `signal ${signal}` : `exit code ${code}`);
+        settle(new PluginProcessError(`Plugin "${this.options.slug}" process exited during start (${reason})`, 'START_FAILED'));
+        this.handleExit(child, reason);
+      });
+   
+      child.send({
+        type: 'init',
+        entryPath: this.options.entryPath,
+        version: this.options.version,
+        config: this.options.config,
+      });
+    });
+  }
+
+  private handleMessage(message: ChildMessage): void {
+    switch (message.type) {
+      case 'response': {
+        const entry = this.takePending(message.id);
+        entry?.resolve({
+          statusCode: message.statusCode,
+          headers: message.headers,
+          body: Buffer.from(message.body, 'base64'),
+        });
+        break;
+      }
+      case 'response-error': {
+        const entry = this.takePending(message.id);
+        entry?.reject(new PluginProcessError(message.message, 'REQUEST_FAILED'));
+        break;
+      }
+      case 'pong':
+        this.handlePong(message);
+        break;
+    }
+  }
+
+  private handleExit(child: ChildProcess, reason: string): void {
+    if (this.child !== child) return;
+
+    this.child = null;
+    this.clearTimers();
+    this.lastExitReason = reason;
+    this.rejectPending(`Plugin "${this.options.slug}" process crashed (${reason})`);
+
+    if (this.closed) {
+      this.state = 'stopped';
+      this.publishMetrics();
+      return;
+    }
+
+    const wasStable = this.startedAt > 0 && Date.now() - this.startedAt >= STABLE_UPTIME_MS;
+    this.consecutiveCrashes = wasStable ? 1 : this.consecutiveCrashes + 1;
+    this.startedAt = 0;
+
+    // A plugin that never came up is reported by start(); the caller discards this runtime
+    if (!this.everRan) {
+      this.state = 'stopped';
+      this.publishMetrics();
+      return;
+    }
+
+    this.state = 'crashed';
+    this.scheduleRestart();
+  }
+
+  private scheduleRestart(): void {
+    const delay = computeRestartDelay(this.consecutiveCrashes);
+    this.nextRestartAt = new Date(Date.now() + delay);
+    this.publishMetrics();
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.closed) return;
+      this.restarts += 1;
+      this.spawn().catch(() => {
+        // Exit handler schedules the next attempt
+      });
+    }, delay);
+    this.restartTimer.unref?.();
+  }
+
+  private kill(reason: string): void {
+    if (!this.child) return;
+    this.killReason = reason;
+    this.child.kill('SIGKILL');
+  }
+
+  // --------------------------------------------------------------------------
+  // Heartbeat and resource limits
+  // --------------------------------------------------------------------------
+
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.child?.connected) return;
+      if (this.missedHeartbeats >= MISSED_HEARTBEATS_LIMIT) {
+        this.kill('unresponsive');
+        return;
+      }
+      this.missedHeartbeats += 1;
+      this.child.send({ type: 'ping', id: Date.now() });
+    }, this.heartbeatMs);
+    this.heartbeatTimer.unref?.();
+  }
+
+  private handlePong(message: Extract<ChildMessage, { type: 'pong' }>): void {
+    this.missedHeartbeats = 0;
+    this.rssBytes = message.rssBytes;
+
+    const now = Date.now();
+    if (this.lastCpuSample) {
+      const elapsedMicros = (now - this.lastCpuSample.at) * 1000;
+      const cpuPercent = elapsedMicros > 0
+        ? ((message.cpuMicros - this.lastCpuSample.cpuMicros) / elapsedMicros) * 100
+        : 0;
+      this.cpuStrikes = cpuPercent > this.maxCpuPercent ? this.cpuStrikes + 1 : 0;
+    }
+    this.lastCpuSample = { cpuMicros: message.cpuMicros, at: now };
+    this.publishMetrics();
+
+    if (message.rssBytes > this.maxMemoryMb * 2 * 1024 * 1024) {
+      this.kill('memory limit exceeded');
+    } else if (this.cpuStrikes >= CPU_STRIKES_LIMIT) {
+      this.kill('cpu limit exceeded');
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Helpers
+  // --------------------------------------------------------------------------
+
+  private takePending(id: number): PendingRequest | undefined {
+    const entry = this.pending.get(id);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(id);
+    }
+    return entry;
+  }
+
+  private rejectPending(message: string): void {
+    for (const [id, entry] of this.pending) {
+      clearTimeout(entry.timer);
+      entry.reject(new PluginProcessError(message, 'PROCESS_EXITED'));
+      this.pending.delete(id);
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.nextRestartAt = null;
+  }
+
+  private publishMetrics(): void {
+    gatewayMetrics.recordRuntimeState(this.options.slug, this.options.installationId, {
+      up: this.state === 'running',
+      restarts: this.restarts,
+      rssBytes: this.rssBytes,
+    });
+  }
+}
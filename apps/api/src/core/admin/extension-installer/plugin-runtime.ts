@@ -13,6 +13,8 @@
  * - Header sanitization and injection (x-plugin-*, x-installation-*, x-user-*, x-platform-*)
  * - SSRF protection for external-http plugins
  * - 30s timeout for all requests
+ * - Optional process isolation for internal-fastify plugins (PLUGIN_ISOLATION_MODE=process,
+ *   see plugin-process-runtime.ts)
  * - Structured audit logging
  *
  * Caller Injection Responsibility (Phase C - EXTENSIONS_BLUEPRINT.md):
@@ -33,6 +35,9 @@ import { PluginManagementService } from '@/core/admin/plugin-management/service'
 import type { PluginManifest } from './types';
 import { getPluginDir } from './utils';
 import { loadPluginEntryModule } from './plugin-module-loader';
+import { recordIssuedPlatformSignature } from './plugin-storage';
+import { PluginDatabaseService } from './plugin-database';
+import { PluginProcessError, PluginProcessRuntime, getPluginIsolationMode } from './plugin-process-runtime';
 import { validatePluginCompatibility, PluginLoaderError } from '@/plugins/loader';
 import {
   isBreakerAllowed,
@@ -111,6 +116,7 @@ export type PluginGatewayErrorCode =
   | 'PLUGIN_UPGRADE_RESTART_REQUIRED'
   | 'PLUGIN_PROXY_FAILED'
   | 'PLUGIN_TIMEOUT'
+  | 'PLUGIN_UNAVAILABLE'
   | 'SSRF_BLOCKED'
   | 'INVALID_SLUG'
   | 'INVALID_INSTANCE_KEY';
@@ -126,12 +132,32 @@ export class PluginGatewayError extends Error {
   }
 }
 
+type InternalRuntimeRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, any>;
+  payload?: string | Buffer;
+};
+
+type InternalRuntimeResponse = {
+  statusCode: number;
+  headers: Record<string, unknown>;
+  body: Buffer;
+};
+
+/**
+ * A loaded internal-fastify plugin instance. Runs either in-process (own Fastify
+ * instance) or in a child process; the gateway only talks to it through inject().
+ */
 type InternalRuntime = {
-  app: FastifyInstance;
   manifest: PluginManifest;
   createdAt: Date;
   installationId: string;
   config: Record<string, unknown>;
+  /** Present when the plugin runs in its own process */
+  process?: PluginProcessRuntime;
+  inject(request: InternalRuntimeRequest, timeoutMs: number): Promise<InternalRuntimeResponse>;
+  close(): Promise<void>;
 };
 
 /** Context for a gateway request (resolved from query params) */
@@ -657,6 +683,35 @@ function buildPlatformSignature(secret: string, method: string, path: string, bo
   return createHmac('sha256', secret).update(payload).digest('hex');
 }
 
+/**
+ * Sign a forwarded request (x-platform-signature / x-platform-timestamp) when a
+ * signature secret is configured, and record the signature so the plugin can
+ * echo it back to the sandbox storage API.
+ */
+async function applyPlatformSignature(
+  headers: Record<string, any>,
+  ctx: GatewayContext,
+  method: string,
+  forwardPath: string,
+  body: unknown
+): Promise<void> {
+  const signatureSecret = resolvePlatformSignatureSecret(ctx);
+  if (!signatureSecret) return;
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const normalizedPath = forwardPath.startsWith('/') ? forwardPath : `/${forwardPath}`;
+  const signatureBody = Buffer.isBuffer(body) ? body.toString('utf-8') : typeof body === 'string' ? body : '';
+  const signature = buildPlatformSignature(signatureSecret, method, normalizedPath, signatureBody, timestamp);
+  headers['x-platform-timestamp'] = timestamp;
+  headers['x-platform-signature'] = signature;
+
+  try {
+    await recordIssuedPlatformSignature(ctx.installationId, signature, timestamp);
+  } catch {
+    // Best-effort: sandbox storage calls will be rejected, the forwarded request is unaffected
+  }
+}
+
 /**
  * Ensure internal runtime exists for a specific installation
  * Key is now installationId (not slug) to support multi-instance
@@ -707,36 +762,18 @@ async function ensureInternalRuntime(
   }
 
   try {
-    const mod = await loadPluginEntryModule(entryPath, { version: manifest.version });
-    const pluginFn = (mod as any).default || mod;
-    if (typeof pluginFn !== 'function') {
-      throw new Error('Plugin does not export a Fastify plugin function');
-    }
+    // Phase 1-2: Create and start candidate runtime (may fail here)
+    const newRuntime = getPluginIsolationMode() === 'process'
+      ? await startIsolatedRuntime(slug, manifest, ctx, entryPath)
+      : await startInProcessRuntime(slug, manifest, ctx, entryPath);
 
-    // Phase 1: Create candidate runtime (new Fastify instance)
-    const candidateApp = Fastify({ logger: false });
-    const config = ctx.config || {};
-    
-    // Phase 2: Register and ready (may fail here)
-    await candidateApp.register(pluginFn, config as any);
-    await candidateApp.ready();
-
-    // Phase 3: Candidate succeeded - create runtime object
-    const newRuntime: InternalRuntime = {
-      app: candidateApp,
-      manifest,
-      createdAt: new Date(),
-      installationId: ctx.installationId,
-      config: ctx.config,
-    };
-
-    // Phase 4: Swap - replace old runtime in map
+    // Phase 3: Swap - replace old runtime in map
     internalRuntimes.set(runtimeKey, newRuntime);
 
-    // Phase 5: Close old runtime AFTER swap (ensures zero-downtime)
+    // Phase 4: Close old runtime AFTER swap (ensures zero-downtime)
     if (existing) {
       try {
-        await existing.app.close();
+        await existing.close();
       } catch (closeError) {
         // Log but don't fail - new runtime is already active
         console.warn(`Failed to close old runtime for ${runtimeKey}:`, closeError);
@@ -754,6 +791,97 @@ async function ensureInternalRuntime(
   }
 }
 
+async function startInProcessRuntime(
+  slug: string,
+  manifest: PluginManifest,
+  ctx: GatewayContext,
+  entryPath: string
+): Promise<InternalRuntime> {
+  // Managed database connection string must be in place before the plugin's Prisma client loads
+  await PluginDatabaseService.applyEnv(slug);
+
+  const mod = await loadPluginEntryModule(entryPath, { version: manifest.version });
+  const pluginFn = (mod as any).default || mod;
+  if (typeof pluginFn !== 'function') {
+    throw new Error('Plugin does not export a Fastify plugin function');
+  }
+
+  const app = Fastify({ logger: false });
+  await app.register(pluginFn, (ctx.config || {}) as any);
+  await app.ready();
+
+  return {
+    manifest,
+    createdAt: new Date(),
+    installationId: ctx.installationId,
+    config: ctx.config,
+    async inject(req, timeoutMs) {
+      let timer: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(new PluginGatewayError(
+            `Plugin "${slug}" request timeout (${timeoutMs}ms)`,
+            'PLUGIN_TIMEOUT',
+            504
+          ));
+        }, timeoutMs);
+      });
+
+      try {
+        const res = await Promise.race([
+          app.inject({ method: req.method as any, url: req.url, headers: req.headers, payload: req.payload }),
+          timeoutPromise,
+        ]);
+        return { statusCode: res.statusCode, headers: res.headers, body: res.rawPayload };
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    close: () => app.close(),
+  };
+}
+
+async function startIsolatedRuntime(
+  slug: string,
+  manifest: PluginManifest,
+  ctx: GatewayContext,
+  entryPath: string
+): Promise<InternalRuntime> {
+  const pluginProcess = new PluginProcessRuntime({
+    slug,
+    installationId: ctx.installationId,
+    entryPath,
+    version: manifest.version,
+    config: ctx.config || {},
+    env: await PluginDatabaseService.getEnv(slug),
+  });
+  await pluginProcess.start();
+
+  return {
+    manifest,
+    createdAt: new Date(),
+    installationId: ctx.installationId,
+    config: ctx.config,
+    process: pluginProcess,
+    async inject(req, timeoutMs) {
+      try {
+        return await pluginProcess.inject(req, timeoutMs);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const code = error instanceof PluginProcessError ? error.code : undefined;
+        if (code === 'REQUEST_TIMEOUT') {
+          throw new PluginGatewayError(message, 'PLUGIN_TIMEOUT', 504);
+        }
+        if (code === 'PROCESS_UNAVAILABLE') {
+          throw new PluginGatewayError(message, 'PLUGIN_UNAVAILABLE', 503);
+        }
+        throw new PluginGatewayError(message, 'PLUGIN_PROXY_FAILED', 502);
+      }
+    },
+    close: () => pluginProcess.close(),
+  };
+}
+
 /**
  * Drop internal runtime for a specific installation
  * Should be called when instance is disabled/deleted or config changes
@@ -762,7 +890,7 @@ export async function dropInternalRuntime(installationId: string): Promise<boole
   const existing = internalRuntimes.get(installationId);
   if (existing) {
     try {
-      await existing.app.close();
+      await existing.close();
     } catch {
       // Ignore close errors
     }
@@ -830,20 +958,7 @@ async function proxyToExternalHttp(
     }
   }
 
-  const signatureSecret = resolvePlatformSignatureSecret(ctx);
-  if (signatureSecret) {
-    const timestamp = Math.floor(Date.now() / 1000).toString();
-    const normalizedPath = forwardPath.startsWith('/') ? forwardPath : `/${forwardPath}`;
-    const signatureBody = Buffer.isBuffer(body) ? body.toString('utf-8') : typeof body === 'string' ? body : '';
-    headers['x-platform-timestamp'] = timestamp;
-    headers['x-platform-signature'] = buildPlatformSignature(
-      signatureSecret,
-      request.method,
-      normalizedPath,
-      signatureBody,
-      timestamp
-    );
-  }
+  await applyPlatformSignature(headers, ctx, request.method, forwardPath, body);
 
   // ── Gateway Protection: Timeout (Task 2.4.1) ──
   const effectiveTimeoutMs = getPluginTimeoutMs(ctx.config);
@@ -949,26 +1064,12 @@ async function forwardToInternalFastify(
     }
   }
 
-  // Timeout wrapper for internal inject
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => {
-      reject(new PluginGatewayError(
-        `Plugin "${slug}" request timeout (${REQUEST_TIMEOUT_MS}ms)`,
-        'PLUGIN_TIMEOUT',
-        504
-      ));
-    }, REQUEST_TIMEOUT_MS);
-  });
+  await applyPlatformSignature(headers, ctx, request.method, forwardPath, payload);
 
-  const res = await Promise.race([
-    runtime.app.inject({
-      method: request.method as any,
-      url: forwardUrl,
-      headers,
-      payload,
-    }),
-    timeoutPromise,
-  ]);
+  const res = await runtime.inject(
+    { method: request.method, url: forwardUrl, headers, payload },
+    REQUEST_TIMEOUT_MS
+  );
 
   reply.code(res.statusCode);
   for (const [k, v] of Object.entries(res.headers)) {
@@ -976,8 +1077,15 @@ async function forwardToInternalFastify(
     if (v !== undefined) reply.header(k, v as any);
   }
 
-  const raw = (res as any).rawPayload;
-  reply.send(raw !== undefined ? raw : res.payload);
+  // Isolated runtimes report their process state (surfaced by /plugin/:slug/health)
+  if (runtime.process) {
+    const status = runtime.process.status();
+    reply.header('x-plugin-runtime-isolation', 'process');
+    reply.header('x-plugin-runtime-state', status.state);
+    reply.header('x-plugin-runtime-restarts', String(status.restarts));
+  }
+
+  reply.send(res.body);
 }
 
 /**
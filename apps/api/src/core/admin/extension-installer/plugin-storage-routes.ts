@@ -0,0 +1,417 @@
+/**
+ * Plugin Sandbox Storage Routes
+ *
+ * Server side of the plugin SDK `createPluginDatabase` / `createPluginStorage` helpers:
+ * - /api/extensions/plugin/storage/kv/*  (key-value store)
+ * - /api/extensions/plugin/files/*       (blob store)
+ *
+ * Callers authenticate with their plugin service token, or with the
+ * x-platform-signature / x-platform-timestamp pair issued by the plugin gateway
+ * (see plugin-storage.ts).
+ */
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { sendSuccess, sendError } from '@/utils/response';
+import { pluginStorageSchemas } from './schemas';
+import {
+  authenticatePluginStorageRequest,
+  getFileNamespace,
+  getKvNamespace,
+  getPluginStorageQuotas,
+  PluginStorageError,
+  PluginStorageService,
+  toRelativeKey,
+  toRelativePrefix,
+  type PluginStorageContext,
+} from './plugin-storage';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    pluginStorage?: PluginStorageContext;
+  }
+}
+
+function getContext(request: FastifyRequest): PluginStorageContext {
+  if (!request.pluginStorage) {
+    throw new PluginStorageError('Missing plugin signature headers', 'UNAUTHORIZED', 401);
+  }
+  return request.pluginStorage;
+}
+
+async function pluginStorageAuth(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    request.pluginStorage = await authenticatePluginStorageRequest(request.headers as Record<string, unknown>);
+  } catch (error: any) {
+    return handleStorageError(reply, error, request.server);
+  }
+}
+
+function handleStorageError(reply: FastifyReply, error: any, fastify: FastifyInstance) {
+  if (error instanceof PluginStorageError) {
+    return sendError(reply, error.statusCode, error.code, error.message);
+  }
+  fastify.log.error({ err: error }, 'Plugin storage request failed');
+  return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error?.message || 'Plugin storage request failed');
+}
+
+function kvKey(ctx: PluginStorageContext, fullKey: string): string {
+  return toRelativeKey(getKvNamespace(ctx), ':', fullKey);
+}
+
+function fileKey(ctx: PluginStorageContext, fullKey: string): string {
+  return toRelativeKey(getFileNamespace(ctx), '/', fullKey);
+}
+
+export async function pluginStorageRoutes(fastify: FastifyInstance) {
+  // ==========================================================================
+  // Key-Value Store
+  // ==========================================================================
+
+  /**
+   * HEAD /api/extensions/plugin/storage/kv/:key
+   * Declared before the GET route so Fastify does not expose an implicit HEAD.
+   */
+  fastify.head<{ Params: { key: string } }>('/plugin/storage/kv/:key', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Check plugin KV key',
+      description: 'Responds 200 when the key exists, 404 otherwise (no body).',
+      ...pluginStorageSchemas.hasValue,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const { exists } = await PluginStorageService.getValue(ctx, kvKey(ctx, request.params.key));
+      return reply.code(exists ? 200 : 404).send();
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * GET /api/extensions/plugin/storage/kv/:key
+   */
+  fastify.get<{ Params: { key: string } }>('/plugin/storage/kv/:key', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Get plugin KV value',
+      description: 'Read a value from the installation-scoped key-value store.',
+      ...pluginStorageSchemas.getValue,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const result = await PluginStorageService.getValue(ctx, kvKey(ctx, request.params.key));
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * PUT /api/extensions/plugin/storage/kv/:key
+   */
+  fastify.put<{ Params: { key: string }; Body: { value?: unknown; ttl?: number } }>('/plugin/storage/kv/:key', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Set plugin KV value',
+      description: 'Write a JSON value, optionally expiring after `ttl` seconds.',
+      ...pluginStorageSchemas.setValue,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const body = request.body || {};
+      await PluginStorageService.setValue(ctx, kvKey(ctx, request.params.key), body.value ?? null, body.ttl);
+      return sendSuccess(reply, { key: request.params.key, stored: true });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * DELETE /api/extensions/plugin/storage/kv/:key
+   */
+  fastify.delete<{ Params: { key: string } }>('/plugin/storage/kv/:key', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Delete plugin KV value',
+      ...pluginStorageSchemas.deleteValue,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const deleted = await PluginStorageService.deleteValue(ctx, kvKey(ctx, request.params.key));
+      return sendSuccess(reply, { deleted });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * GET /api/extensions/plugin/storage/kv?prefix=
+   */
+  fastify.get<{ Querystring: { prefix?: string } }>('/plugin/storage/kv', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'List plugin KV keys',
+      description: 'List live keys under a namespaced prefix. Non-paged: bounded by the per-installation key quota.',
+      ...pluginStorageSchemas.listKeys,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const namespace = getKvNamespace(ctx);
+      const keys = await PluginStorageService.listKeys(ctx, toRelativePrefix(namespace, ':', request.query.prefix));
+      return sendSuccess(reply, { keys: keys.map((key) => `${namespace}:${key}`) });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * DELETE /api/extensions/plugin/storage/kv?prefix=
+   */
+  fastify.delete<{ Querystring: { prefix?: string } }>('/plugin/storage/kv', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Clear plugin KV keys',
+      description: 'Delete every key under a namespaced prefix (the bare namespace clears everything).',
+      ...pluginStorageSchemas.clearKeys,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const prefix = toRelativePrefix(getKvNamespace(ctx), ':', request.query.prefix);
+      const deleted = await PluginStorageService.clearKeys(ctx, prefix);
+      return sendSuccess(reply, { deleted });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * POST /api/extensions/plugin/storage/kv/batch/get
+   */
+  fastify.post<{ Body: { keys: string[] } }>('/plugin/storage/kv/batch/get', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Get many plugin KV values',
+      ...pluginStorageSchemas.getMany,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const fullKeys = request.body.keys;
+      const relativeKeys = fullKeys.map((key) => kvKey(ctx, key));
+      const found = await PluginStorageService.getManyValues(ctx, relativeKeys);
+
+      const values: Record<string, unknown> = {};
+      fullKeys.forEach((fullKey, index) => {
+        values[fullKey] = found.get(relativeKeys[index]) ?? null;
+      });
+      return sendSuccess(reply, { values });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * POST /api/extensions/plugin/storage/kv/batch/set
+   */
+  fastify.post<{ Body: { entries: Array<[string, unknown]> } }>('/plugin/storage/kv/batch/set', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Set many plugin KV values',
+      ...pluginStorageSchemas.setMany,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const entries = request.body.entries.map(([key, value]) => {
+        if (typeof key !== 'string') {
+          throw new PluginStorageError('Entry keys must be strings', 'VALIDATION_ERROR', 400);
+        }
+        return [kvKey(ctx, key), value ?? null] as [string, unknown];
+      });
+      await PluginStorageService.setManyValues(ctx, entries);
+      return sendSuccess(reply, { stored: entries.length });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  // ==========================================================================
+  // File Store
+  // ==========================================================================
+
+  const uploadBodyLimit = Math.ceil((getPluginStorageQuotas().maxFileBytes * 4) / 3) + 64 * 1024;
+
+  /**
+   * POST /api/extensions/plugin/files/upload
+   */
+  fastify.post<{ Body: { key: string; content: string; contentType?: string; public?: boolean } }>('/plugin/files/upload', {
+    preHandler: pluginStorageAuth,
+    bodyLimit: uploadBodyLimit,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Upload plugin file',
+      description: 'Store a base64-encoded file. Public files get a static URL, private files a signed URL.',
+      ...pluginStorageSchemas.uploadFile,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const { key, content, contentType } = request.body;
+      const result = await PluginStorageService.uploadFile(ctx, fileKey(ctx, key), Buffer.from(content, 'base64'), {
+        contentType,
+        public: request.body.public,
+      });
+      return sendSuccess(reply, { key, url: result.url }, undefined, 201);
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * GET /api/extensions/plugin/files/download/:key
+   */
+  fastify.get<{ Params: { key: string } }>('/plugin/files/download/:key', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Download plugin file',
+      ...pluginStorageSchemas.downloadFile,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const file = await PluginStorageService.readFile(ctx, fileKey(ctx, request.params.key));
+      return sendSuccess(reply, { content: file.content.toString('base64'), contentType: file.contentType });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * GET /api/extensions/plugin/files/signed/:token
+   * Unauthenticated: the token itself is the capability.
+   */
+  fastify.get<{ Params: { token: string } }>('/plugin/files/signed/:token', {
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Download plugin file via signed URL',
+      description: 'Streams raw file bytes for a valid, unexpired signed token.',
+      ...pluginStorageSchemas.signedDownload,
+    },
+  }, async (request, reply) => {
+    try {
+      const file = await PluginStorageService.readSignedFile(request.params.token);
+      if (!file) {
+        return sendError(reply, 404, 'NOT_FOUND', 'File not found or link expired');
+      }
+      reply.header('Content-Type', file.contentType || 'application/octet-stream');
+      reply.header('Cache-Control', 'private, no-store');
+      return reply.send(file.content);
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * POST /api/extensions/plugin/files/signed-url
+   */
+  fastify.post<{ Body: { key: string; expiresIn?: number } }>('/plugin/files/signed-url', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Create signed file URL',
+      ...pluginStorageSchemas.createSignedUrl,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const url = await PluginStorageService.createSignedUrl(
+        ctx,
+        fileKey(ctx, request.body.key),
+        request.body.expiresIn ?? 3600
+      );
+      return sendSuccess(reply, { url });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * GET /api/extensions/plugin/files?prefix=
+   */
+  fastify.get<{ Querystring: { prefix?: string } }>('/plugin/files', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'List plugin files',
+      description: 'List stored files under a namespaced prefix. Non-paged: bounded by the per-installation quota.',
+      ...pluginStorageSchemas.listFiles,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const namespace = getFileNamespace(ctx);
+      const files = await PluginStorageService.listFiles(ctx, toRelativePrefix(namespace, '/', request.query.prefix));
+      return sendSuccess(reply, {
+        files: files.map((file) => ({ ...file, key: `${namespace}/${file.key}` })),
+      });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * HEAD /api/extensions/plugin/files/:key
+   */
+  fastify.head<{ Params: { key: string } }>('/plugin/files/:key', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Check plugin file',
+      description: 'Responds 200 when the file exists, 404 otherwise (no body).',
+      ...pluginStorageSchemas.fileExists,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const exists = await PluginStorageService.fileExists(ctx, fileKey(ctx, request.params.key));
+      return reply.code(exists ? 200 : 404).send();
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+
+  /**
+   * DELETE /api/extensions/plugin/files/:key
+   */
+  fastify.delete<{ Params: { key: string } }>('/plugin/files/:key', {
+    preHandler: pluginStorageAuth,
+    schema: {
+      tags: ['plugin-storage'],
+      summary: 'Delete plugin file',
+      ...pluginStorageSchemas.deleteFile,
+    },
+  }, async (request, reply) => {
+    try {
+      const ctx = getContext(request);
+      const deleted = await PluginStorageService.deleteFile(ctx, fileKey(ctx, request.params.key));
+      return sendSuccess(reply, { deleted });
+    } catch (error: any) {
+      return handleStorageError(reply, error, fastify);
+    }
+  });
+}
@@ -0,0 +1,636 @@
+/**
+ * Plugin Sandbox Storage
+ *
+ * Backs the `createPluginDatabase` / `createPluginStorage` helpers of the plugin SDK:
+ * - Key-value store per installation (Postgres, `plugin_kv_entries`) with optional TTL
+ * - Blob store per installation (upload directory + `plugin_storage_files` metadata)
+ *
+ * Authentication (either of):
+ * - `Authorization: Bearer <plugin service token>` (see PluginTokenService). The
+ *   token names the installation, so this also works outside a gateway request,
+ *   e.g. from background jobs.
+ * - The `x-platform-signature` / `x-platform-timestamp` pair the plugin received
+ *   from the gateway. The gateway records every signature it issues (see
+ *   `recordIssuedPlatformSignature`), so a storage call is accepted only while the
+ *   signature is fresh (5 minutes, matching the SDK verifier default) and was issued
+ *   for the same installation. This needs a `platformSignatureSecret`
+ *   (instance config or PLUGIN_PLATFORM_SIGNATURE_SECRET).
+ *
+ * Namespacing:
+ * - KV keys arrive as `plugin:<slug>:<installationId>:<key>`
+ * - File keys arrive as `plugins/<slug>/<installationId>/<filename>`
+ * Keys outside the caller's namespace are rejected; only the relative key is persisted.
+ *
+ * Quotas are per installation and configurable via env (PLUGIN_STORAGE_*).
+ * Deleting an installation removes its storage (`purgeInstallationStorage`); purging
+ * the plugin removes what is left of its blobs (`purgePluginStorage`).
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { env } from '@/config/env';
+import { CacheService } from '@/core/cache/service';
+import { CDNConfig } from '@/core/performance/cdn-config';
+import { PluginTokenService } from '@/core/admin/plugin-management/token-service';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Max age of an issued platform signature (seconds) */
+export const SIGNATURE_MAX_AGE_SECONDS = 300;
+
+const SIGNATURE_CACHE_PREFIX = 'plugin_storage_sig:';
+const STORAGE_ROOT = path.join('uploads', 'plugin-storage');
+const MAX_KEY_LENGTH = 512;
+
+function readLimit(name: string, fallback: number): number {
+  const parsed = Number(process.env[name]);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Per-installation quotas (resolved at call time so tests/operators can override via env) */
+export function getPluginStorageQuotas() {
+  return {
+    maxKeys: readLimit('PLUGIN_STORAGE_MAX_KEYS', 10_000),
+    maxValueBytes: readLimit('PLUGIN_STORAGE_MAX_VALUE_BYTES', 256 * 1024),
+    maxKvBytes: readLimit('PLUGIN_STORAGE_KV_QUOTA_BYTES', 10 * 1024 * 1024),
+    maxFileBytes: readLimit('PLUGIN_STORAGE_MAX_FILE_BYTES', 10 * 1024 * 1024),
+    maxFilesBytes: readLimit('PLUGIN_STORAGE_FILE_QUOTA_BYTES', 100 * 1024 * 1024),
+  };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type PluginStorageErrorCode =
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'VALIDATION_ERROR'
+  | 'QUOTA_EXCEEDED'
+  | 'PAYLOAD_TOO_LARGE';
+
+export class PluginStorageError extends Error {
+  public readonly code: PluginStorageErrorCode;
+  public readonly statusCode: number;
+
+  constructor(message: string, code: PluginStorageErrorCode, statusCode: number) {
+    super(message);
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+// ============================================================================
+// Authentication (service tokens, issued gateway signatures)
+// ============================================================================
+
+export interface PluginStorageContext {
+  installationId: string;
+  pluginSlug: string;
+}
+
+/** Process-local mirror so storage keeps working when Redis is unavailable */
+const issuedSignatures = new Map<string, { timestamp: string; expiresAt: number }>();
+
+function signatureCacheKey(installationId: string, signature: string): string {
+  return `${SIGNATURE_CACHE_PREFIX}${installationId}:${signature}`;
+}
+
+function pruneIssuedSignatures(now: number): void {
+  for (const [key, entry] of issuedSignatures) {
+    if (entry.expiresAt <= now) {
+      issuedSignatures.delete(key);
+    }
+  }
+}
+
+/**
+ * Record a platform signature issued by the plugin gateway.
+ * Called for every forwarded request that carries `x-platform-signature`.
+ */
+export async function recordIssuedPlatformSignature(
+  installationId: string,
+  signature: string,
+  timestamp: string
+): Promise<void> {
+  const now = Date.now();
+  pruneIssuedSignatures(now);
+
+  const key = signatureCacheKey(installationId, signature);
+  issuedSignatures.set(key, { timestamp, expiresAt: now + SIGNATURE_MAX_AGE_SECONDS * 1000 });
+  await CacheService.set(key, { timestamp }, { ttl: SIGNATURE_MAX_AGE_SECONDS });
+}
+
+function readHeader(headers: Record<string, unknown>, name: string): string {
+  const raw = headers[name];
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+async function authenticateServiceToken(
+  token: string,
+  headers: Record<string, unknown>
+): Promise<PluginStorageContext> {
+  const identity = await PluginTokenService.validateToken(token);
+  if (!identity) {
+    throw new PluginStorageError('Invalid or expired plugin service token', 'UNAUTHORIZED', 401);
+  }
+
+  // The namespace headers are optional here, but must agree with the token when sent
+  const pluginSlug = readHeader(headers, 'x-plugin-slug');
+  const installationId = readHeader(headers, 'x-installation-id');
+  if ((pluginSlug && pluginSlug !== identity.pluginSlug) || (installationId && installationId !== identity.installationId)) {
+    throw new PluginStorageError('Service token was issued for another installation', 'FORBIDDEN', 403);
+  }
+
+  return { installationId: identity.installationId, pluginSlug: identity.pluginSlug };
+}
+
+async function authenticateIssuedSignature(headers: Record<string, unknown>): Promise<PluginStorageContext> {
+  const pluginSlug = readHeader(headers, 'x-plugin-slug');
+  const installationId = readHeader(headers, 'x-installation-id');
+  const signature = readHeader(headers, 'x-platform-signature');
+  const timestamp = readHeader(headers, 'x-platform-timestamp');
+
+  if (!pluginSlug || !installationId || !signature || !timestamp) {
+    throw new PluginStorageError('Missing plugin signature headers', 'UNAUTHORIZED', 401);
+  }
+
+  const requestTime = parseInt(timestamp, 10);
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isFinite(requestTime) || Math.abs(now - requestTime) > SIGNATURE_MAX_AGE_SECONDS) {
+    throw new PluginStorageError('Platform signature expired', 'UNAUTHORIZED', 401);
+  }
+
+  const key = signatureCacheKey(installationId, signature);
+  const local = issuedSignatures.get(key);
+  const issued = local && local.expiresAt > Date.now()
+    ? local
+    : await CacheService.get<{ timestamp: string }>(key);
+
+  if (!issued || issued.timestamp !== timestamp) {
+    throw new PluginStorageError('Invalid platform signature', 'UNAUTHORIZED', 401);
+  }
+
+  return { installationId, pluginSlug };
+}
+
+/**
+ * Authenticate a sandbox storage request from its headers.
+ * Throws PluginStorageError (401/403) when the caller cannot be trusted.
+ */
+export async function authenticatePluginStorageRequest(
+  headers: Record<string, unknown>
+): Promise<PluginStorageContext> {
+  const authorization = readHeader(headers, 'authorization');
+  const { installationId, pluginSlug } = authorization.startsWith('Bearer ')
+    ? await authenticateServiceToken(authorization.slice(7).trim(), headers)
+    : await authenticateIssuedSignature(headers);
+
+  const installation = await prisma.pluginInstallation.findUnique({
+    where: { id: installationId },
+    include: { plugin: true },
+  });
+
+  if (!installation || installation.deletedAt || installation.plugin?.deletedAt) {
+    throw new PluginStorageError(`Installation "${installationId}" not found`, 'NOT_FOUND', 404);
+  }
+
+  if (installation.pluginSlug !== pluginSlug) {
+    throw new PluginStorageError('Installation does not belong to this plugin', 'FORBIDDEN', 403);
+  }
+
+  if (!installation.enabled) {
+    throw new PluginStorageError(`Installation "${installationId}" is disabled`, 'FORBIDDEN', 403);
+  }
+
+  return { installationId, pluginSlug };
+}
+
+// ============================================================================
+// Namespaces
+// ============================================================================
+
+export function getKvNamespace(ctx: PluginStorageContext): string {
+  return `plugin:${ctx.pluginSlug}:${ctx.installationId}`;
+}
+
+export function getFileNamespace(ctx: PluginStorageContext): string {
+  return `plugins/${ctx.pluginSlug}/${ctx.installationId}`;
+}
+
+function assertValidRelativeKey(key: string): void {
+  if (!key) {
+    throw new PluginStorageError('Key must not be empty', 'VALIDATION_ERROR', 400);
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new PluginStorageError(`Key exceeds ${MAX_KEY_LENGTH} characters`, 'VALIDATION_ERROR', 400);
+  }
+}
+
+/**
+ * Strip the caller namespace from a fully-qualified key.
+ * Rejects keys that belong to another plugin or installation.
+ */
+export function toRelativeKey(namespace: string, separator: string, fullKey: string): string {
+  const prefix = `${namespace}${separator}`;
+  if (!fullKey.startsWith(prefix)) {
+    throw new PluginStorageError('Key is outside the plugin namespace', 'FORBIDDEN', 403);
+  }
+  const relative = fullKey.slice(prefix.length);
+  assertValidRelativeKey(relative);
+  return relative;
+}
+
+/**
+ * Resolve a list prefix to a relative prefix.
+ * The bare namespace (no separator) means "everything".
+ */
+export function toRelativePrefix(namespace: string, separator: string, fullPrefix?: string): string {
+  if (!fullPrefix || fullPrefix === namespace) return '';
+  return toRelativeKey(namespace, separator, fullPrefix);
+}
+
+// ============================================================================
+// Key-Value Store
+// ============================================================================
+
+function activeEntryWhere(installationId: string): Prisma.PluginKvEntryWhereInput {
+  return {
+    installationId,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+  };
+}
+
+function toJsonInput(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === null || value === undefined ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+}
+
+function measureValue(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value ?? null), 'utf-8');
+}
+
+async function purgeExpiredEntries(installationId: string): Promise<void> {
+  await prisma.pluginKvEntry.deleteMany({
+    where: { installationId, expiresAt: { lte: new Date() } },
+  });
+}
+
+/**
+ * Check KV quotas for a batch of writes (sizes replace existing entries for the same keys).
+ */
+async function assertKvQuota(installationId: string, writes: Array<{ key: string; sizeBytes: number }>): Promise<void> {
+  const quotas = getPluginStorageQuotas();
+
+  for (const write of writes) {
+    if (write.sizeBytes > quotas.maxValueBytes) {
+      throw new PluginStorageError(
+        `Value for key "${write.key}" exceeds ${quotas.maxValueBytes} bytes`,
+        'PAYLOAD_TOO_LARGE',
+        413
+      );
+    }
+  }
+
+  await purgeExpiredEntries(installationId);
+
+  const keys = writes.map((write) => write.key);
+  const [usage, existing] = await Promise.all([
+    prisma.pluginKvEntry.aggregate({
+      where: { installationId },
+      _count: { _all: true },
+      _sum: { sizeBytes: true },
+    }),
+    prisma.pluginKvEntry.findMany({
+      where: { installationId, key: { in: keys } },
+      select: { key: true, sizeBytes: true },
+    }),
+  ]);
+
+  const replacedBytes = existing.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const newKeys = new Set(keys.filter((key) => !existing.some((entry) => entry.key === key))).size;
+  const totalKeys = usage._count._all + newKeys;
+  const totalBytes = (usage._sum.sizeBytes ?? 0) - replacedBytes + writes.reduce((sum, w) => sum + w.sizeBytes, 0);
+
+  if (totalKeys > quotas.maxKeys) {
+    throw new PluginStorageError(`Key quota exceeded (max ${quotas.maxKeys} keys)`, 'QUOTA_EXCEEDED', 409);
+  }
+  if (totalBytes > quotas.maxKvBytes) {
+    throw new PluginStorageError(`Storage quota exceeded (max ${quotas.maxKvBytes} bytes)`, 'QUOTA_EXCEEDED', 409);
+  }
+}
+
+function resolveExpiresAt(ttl?: number | null): Date | null {
+  if (ttl === undefined || ttl === null) return null;
+  if (!Number.isFinite(ttl) || ttl <= 0) {
+    throw new PluginStorageError('ttl must be a positive number of seconds', 'VALIDATION_ERROR', 400);
+  }
+  return new Date(Date.now() + ttl * 1000);
+}
+
+async function getValue(ctx: PluginStorageContext, key: string): Promise<{ value: unknown; exists: boolean }> {
+  const entry = await prisma.pluginKvEntry.findFirst({
+    where: { ...activeEntryWhere(ctx.installationId), key },
+  });
+  return entry ? { value: entry.value ?? null, exists: true } : { value: null, exists: false };
+}
+
+async function setValue(ctx: PluginStorageContext, key: string, value: unknown, ttl?: number | null): Promise<void> {
+  const sizeBytes = measureValue(value);
+  const expiresAt = resolveExpiresAt(ttl);
+  await assertKvQuota(ctx.installationId, [{ key, sizeBytes }]);
+
+  await prisma.pluginKvEntry.upsert({
+    where: { installationId_key: { installationId: ctx.installationId, key } },
+    create: { installationId: ctx.installationId, key, value: toJsonInput(value), sizeBytes, expiresAt },
+    update: { value: toJsonInput(value), sizeBytes, expiresAt },
+  });
+}
+
+async function deleteValue(ctx: PluginStorageContext, key: string): Promise<boolean> {
+  const result = await prisma.pluginKvEntry.deleteMany({
+    where: { installationId: ctx.installationId, key },
+  });
+  return result.count > 0;
+}
+
+async function listKeys(ctx: PluginStorageContext, prefix: string): Promise<string[]> {
+  const entries = await prisma.pluginKvEntry.findMany({
+    where: {
+      ...activeEntryWhere(ctx.installationId),
+      ...(prefix ? { key: { startsWith: prefix } } : {}),
+    },
+    select: { key: true },
+    orderBy: { key: 'asc' },
+  });
+  return entries.map((entry) => entry.key);
+}
+
+async function clearKeys(ctx: PluginStorageContext, prefix: string): Promise<number> {
+  const result = await prisma.pluginKvEntry.deleteMany({
+    where: {
+      installationId: ctx.installationId,
+      ...(prefix ? { key: { startsWith: prefix } } : {}),
+    },
+  });
+  return result.count;
+}
+
+async function getManyValues(ctx: PluginStorageContext, keys: string[]): Promise<Map<string, unknown>> {
+  const entries = await prisma.pluginKvEntry.findMany({
+    where: { ...activeEntryWhere(ctx.installationId), key: { in: keys } },
+  });
+  const values = new Map<string, unknown>();
+  for (const key of keys) {
+    const entry = entries.find((candidate) => candidate.key === key);
+    values.set(key, entry ? entry.value ?? null : null);
+  }
+  return values;
+}
+
+async function setManyValues(ctx: PluginStorageContext, entries: Array<[string, unknown]>): Promise<void> {
+  const writes = entries.map(([key, value]) => ({ key, value, sizeBytes: measureValue(value) }));
+  await assertKvQuota(ctx.installationId, writes);
+
+  await prisma.$transaction(
+    writes.map((write) =>
+      prisma.pluginKvEntry.upsert({
+        where: { installationId_key: { installationId: ctx.installationId, key: write.key } },
+        create: {
+          installationId: ctx.installationId,
+          key: write.key,
+          value: toJsonInput(write.value),
+          sizeBytes: write.sizeBytes,
+        },
+        update: { value: toJsonInput(write.value), sizeBytes: write.sizeBytes, expiresAt: null },
+      })
+    )
+  );
+}
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+export interface PluginStorageFileInfo {
+  key: string;
+  size: number;
+  lastModified: string;
+  contentType: string | null;
+  public: boolean;
+}
+
+function resolveBlobPath(storagePath: string): string {
+  const root = path.resolve(STORAGE_ROOT);
+  const resolved = path.resolve(root, storagePath);
+  if (!resolved.startsWith(`${root}${path.sep}`)) {
+    throw new PluginStorageError('Invalid storage path', 'FORBIDDEN', 403);
+  }
+  return resolved;
+}
+
+function publicUrlFor(storagePath: string): string {
+  return CDNConfig.getAssetUrl(`/uploads/plugin-storage/${storagePath.split(path.sep).join('/')}`);
+}
+
+async function uploadFile(
+  ctx: PluginStorageContext,
+  key: string,
+  content: Buffer,
+  options: { contentType?: string; public?: boolean } = {}
+): Promise<{ key: string; url: string }> {
+  const quotas = getPluginStorageQuotas();
+  if (content.length > quotas.maxFileBytes) {
+    throw new PluginStorageError(`File exceeds ${quotas.maxFileBytes} bytes`, 'PAYLOAD_TOO_LARGE', 413);
+  }
+
+  const existing = await prisma.pluginStorageFile.findUnique({
+    where: { installationId_key: { installationId: ctx.installationId, key } },
+  });
+  const usage = await prisma.pluginStorageFile.aggregate({
+    where: { installationId: ctx.installationId },
+    _sum: { sizeBytes: true },
+  });
+  const projected = (usage._sum.sizeBytes ?? 0) - (existing?.sizeBytes ?? 0) + content.length;
+  if (projected > quotas.maxFilesBytes) {
+    throw new PluginStorageError(`File storage quota exceeded (max ${quotas.maxFilesBytes} bytes)`, 'QUOTA_EXCEEDED', 409);
+  }
+
+  // Blobs get opaque names; the plugin-facing key only lives in the database.
+  const ext = path.extname(key).replace(/[^a-zA-Z0-9.]/g, '').slice(0, 16);
+  const storagePath = path.join(ctx.pluginSlug, ctx.installationId, `${randomUUID()}${ext}`);
+  const blobPath = resolveBlobPath(storagePath);
+  await fs.mkdir(path.dirname(blobPath), { recursive: true });
+  await fs.writeFile(blobPath, content);
+
+  const isPublic = options.public === true;
+  const record = await prisma.pluginStorageFile.upsert({
+    where: { installationId_key: { installationId: ctx.installationId, key } },
+    create: {
+      installationId: ctx.installationId,
+      key,
+      storagePath,
+      contentType: options.contentType || null,
+      sizeBytes: content.length,
+      isPublic,
+    },
+    update: {
+      storagePath,
+      contentType: options.contentType || null,
+      sizeBytes: content.length,
+      isPublic,
+    },
+  });
+
+  if (existing && existing.storagePath !== storagePath) {
+    await fs.rm(resolveBlobPath(existing.storagePath), { force: true }).catch(() => {});
+  }
+
+  const url = isPublic ? publicUrlFor(storagePath) : createSignedFileUrl(record.id, 3600);
+  return { key, url };
+}
+
+async function findFile(ctx: PluginStorageContext, key: string) {
+  return prisma.pluginStorageFile.findUnique({
+    where: { installationId_key: { installationId: ctx.installationId, key } },
+  });
+}
+
+async function readFile(ctx: PluginStorageContext, key: string): Promise<{ content: Buffer; contentType: string | null }> {
+  const record = await findFile(ctx, key);
+  if (!record) {
+    throw new PluginStorageError(`File "${key}" not found`, 'NOT_FOUND', 404);
+  }
+  const content = await fs.readFile(resolveBlobPath(record.storagePath));
+  return { content, contentType: record.contentType };
+}
+
+async function deleteFile(ctx: PluginStorageContext, key: string): Promise<boolean> {
+  const record = await findFile(ctx, key);
+  if (!record) return false;
+
+  await prisma.pluginStorageFile.delete({ where: { id: record.id } });
+  await fs.rm(resolveBlobPath(record.storagePath), { force: true }).catch(() => {});
+  return true;
+}
+
+async function fileExists(ctx: PluginStorageContext, key: string): Promise<boolean> {
+  return Boolean(await findFile(ctx, key));
+}
+
+async function listFiles(ctx: PluginStorageContext, prefix: string): Promise<PluginStorageFileInfo[]> {
+  const records = await prisma.pluginStorageFile.findMany({
+    where: {
+      installationId: ctx.installationId,
+      ...(prefix ? { key: { startsWith: prefix } } : {}),
+    },
+    orderBy: { key: 'asc' },
+  });
+  return records.map((record) => ({
+    key: record.key,
+    size: record.sizeBytes,
+    lastModified: record.updatedAt.toISOString(),
+    contentType: record.contentType,
+    public: record.isPublic,
+  }));
+}
+
+// ----------------------------------------------------------------------------
+// Signed URLs (private files)
+// ----------------------------------------------------------------------------
+
+function signFileToken(fileId: string, expiresAt: number): string {
+  return createHmac('sha256', env.JWT_SECRET)
+    .update(`plugin-storage.${fileId}.${expiresAt}`)
+    .digest('base64url');
+}
+
+/**
+ * Create an absolute, time-limited download URL for a stored file.
+ */
+export function createSignedFileUrl(fileId: string, expiresInSeconds: number): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + Math.max(1, Math.floor(expiresInSeconds));
+  const token = `${fileId}.${expiresAt}.${signFileToken(fileId, expiresAt)}`;
+  const base = (process.env.API_SERVICE_URL || '').replace(/\/+$/, '');
+  return `${base}/api/extensions/plugin/files/signed/${encodeURIComponent(token)}`;
+}
+
+async function createSignedUrl(ctx: PluginStorageContext, key: string, expiresIn: number): Promise<string> {
+  const record = await findFile(ctx, key);
+  if (!record) {
+    throw new PluginStorageError(`File "${key}" not found`, 'NOT_FOUND', 404);
+  }
+  return createSignedFileUrl(record.id, expiresIn);
+}
+
+/**
+ * Resolve a signed download token. Returns null for tampered or expired tokens.
+ */
+async function readSignedFile(token: string): Promise<{ content: Buffer; contentType: string | null } | null> {
+  const [fileId, expiresAtRaw, signature] = token.split('.');
+  const expiresAt = Number(expiresAtRaw);
+  if (!fileId || !signature || !Number.isFinite(expiresAt)) return null;
+  if (expiresAt < Math.floor(Date.now() / 1000)) return null;
+
+  const expected = Buffer.from(signFileToken(fileId, expiresAt));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) return null;
+
+  const record = await prisma.pluginStorageFile.findUnique({ where: { id: fileId } });
+  if (!record) return null;
+
+  const content = await fs.readFile(resolveBlobPath(record.storagePath)).catch(() => null);
+  return content ? { content, contentType: record.contentType } : null;
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+/**
+ * Remove the key-value entries, file records and blobs of one installation.
+ * Installations are soft-deleted, so their rows do not cascade.
+ */
+export async function purgeInstallationStorage(pluginSlug: string, installationId: string): Promise<void> {
+  await prisma.pluginKvEntry.deleteMany({ where: { installationId } });
+  await prisma.pluginStorageFile.deleteMany({ where: { installationId } });
+  await fs.rm(resolveBlobPath(path.join(pluginSlug, installationId)), { recursive: true, force: true }).catch(() => {});
+}
+
+/**
+ * Remove all sandbox storage blobs of a plugin.
+ * Database rows are removed by the PluginInstallation cascade.
+ */
+export async function purgePluginStorage(slug: string): Promise<void> {
+  await fs.rm(resolveBlobPath(slug), { recursive: true, force: true }).catch(() => {});
+}
+
+// ============================================================================
+// Export Service Object
+// ============================================================================
+
+export const PluginStorageService = {
+  // Key-value
+  getValue,
+  setValue,
+  deleteValue,
+  listKeys,
+  clearKeys,
+  getManyValues,
+  setManyValues,
+
+  // Files
+  uploadFile,
+  readFile,
+  deleteFile,
+  fileExists,
+  listFiles,
+  createSignedUrl,
+  readSignedFile,
+};
@@ -18,6 +18,7 @@ import { PluginTokenService } from '@/core/admin/plugin-management/token-service
 import { ThemeExtensionsService } from '@/core/admin/plugin-management/theme-extensions-service';
 import { isOfficialMarketOnly } from './official-only';
 import { sanitizePluginConfigForAdmin } from '@/core/admin/plugin-management/config-secrets';
+import { pluginStorageRoutes } from './plugin-storage-routes';
 
 // Per spec (EXTENSIONS_IMPLEMENTATION.md) size limits for offline ZIP installs
 const ZIP_SIZE_LIMITS: Record<ExtensionKind, number> = {
@@ -144,6 +145,9 @@ function parseJsonArray(value: unknown): string[] {
  * Note: multipart is already registered globally in server.ts, no need to re-register here
  */
 export async function extensionInstallerRoutes(fastify: FastifyInstance) {
+  // Plugin sandbox storage (KV + files) used by the plugin SDK
+  await fastify.register(pluginStorageRoutes);
+
   /**
    * Plugin Gateway API (runtime)
    *
@@ -225,7 +229,7 @@ export async function extensionInstallerRoutes(fastify: FastifyInstance) {
     schema: {
       tags: ['plugin-gateway'],
       summary: 'Plugin Health',
-      description: 'Proxy to a plugin health endpoint.',
+      description: 'Proxy to a plugin health endpoint. Process-isolated plugins also report x-plugin-runtime-state and x-plugin-runtime-restarts headers, and answer 503 while their process is restarting.',
       params: {
         type: 'object',
         properties: {
@@ -238,6 +242,7 @@ export async function extensionInstallerRoutes(fastify: FastifyInstance) {
         400: errorResponseSchema,
         404: errorResponseSchema,
         500: errorResponseSchema,
+        503: errorResponseSchema,
       },
     }
   }, async (request, reply) => {
@@ -784,9 +789,10 @@ export async function extensionInstallerRoutes(fastify: FastifyInstance) {
 
   /**
    * DELETE /api/extensions/plugin/:slug/purge
-   * Permanently purge plugin package and files
+   * Permanently purge plugin package and files; ?database=archive|drop decides
+   * what happens to a managed plugin database (default: archive)
    */
-  fastify.delete<{ Params: { slug: string } }>('/plugin/:slug/purge', {
+  fastify.delete<{ Params: { slug: string }; Querystring: { database?: 'archive' | 'drop' } }>('/plugin/:slug/purge', {
     onRequest: [authMiddleware, adminMiddleware],
     schema: {
       tags: ['admin-plugins'],
@@ -795,10 +801,10 @@ export async function extensionInstallerRoutes(fastify: FastifyInstance) {
       security: [{ bearerAuth: [] }],
       ...extensionInstallerSchemas.purgePlugin,
     }
-  }, async (request: FastifyRequest<{ Params: { slug: string } }>, reply: FastifyReply) => {
+  }, async (request: FastifyRequest<{ Params: { slug: string }; Querystring: { database?: 'archive' | 'drop' } }>, reply: FastifyReply) => {
     try {
       const { slug } = request.params;
-      await PluginManagementService.purgePlugin(slug);
+      await PluginManagementService.purgePlugin(slug, { database: request.query.database });
       return sendSuccess(reply, {
         kind: 'plugin',
         slug,
@@ -348,6 +348,17 @@ export const extensionInstallerSchemas = {
         slug: { type: 'string', description: 'Plugin slug to purge permanently' },
       },
     },
+    querystring: {
+      type: 'object',
+      properties: {
+        database: {
+          type: 'string',
+          enum: ['archive', 'drop'],
+          default: 'archive',
+          description: 'What to do with a managed plugin database: archive (rename schema) or drop it',
+        },
+      },
+    },
     response: createTypedDeleteResponses(purgePluginResultSchema),
   },
 
@@ -408,3 +419,253 @@ export const extensionInstallerSchemas = {
     response: createTypedReadResponses(extensionMetaSchema),
   },
 } as const;
+
+// ============================================================================
+// Plugin Sandbox Storage Schemas
+// ============================================================================
+
+const storageKeyParams = {
+  type: 'object',
+  required: ['key'],
+  properties: {
+    key: { type: 'string', description: 'Namespaced key (plugin:<slug>:<installationId>:<key>)' },
+  },
+} as const;
+
+const storageFileKeyParams = {
+  type: 'object',
+  required: ['key'],
+  properties: {
+    key: { type: 'string', description: 'Namespaced file key (plugins/<slug>/<installationId>/<name>)' },
+  },
+} as const;
+
+const storagePrefixQuery = {
+  type: 'object',
+  properties: {
+    prefix: { type: 'string', description: 'Namespaced key prefix' },
+  },
+} as const;
+
+const storageFileInfoSchema = {
+  type: 'object',
+  properties: {
+    key: { type: 'string', description: 'Namespaced file key' },
+    size: { type: 'integer', description: 'File size in bytes' },
+    lastModified: { type: 'string', format: 'date-time', description: 'Last write time' },
+    contentType: { type: 'string', nullable: true, description: 'Stored content type' },
+    public: { type: 'boolean', description: 'Whether the file has a public URL' },
+  },
+  required: ['key', 'size', 'lastModified'],
+} as const;
+
+export const pluginStorageSchemas = {
+  // GET /api/extensions/plugin/storage/kv/:key
+  getValue: {
+    params: storageKeyParams,
+    response: createTypedReadResponses({
+      type: 'object',
+      properties: {
+        value: { description: 'Stored JSON value (null when missing)' },
+        exists: { type: 'boolean', description: 'Whether the key exists' },
+      },
+      required: ['value', 'exists'],
+    }),
+  },
+
+  // HEAD /api/extensions/plugin/storage/kv/:key
+  hasValue: {
+    params: storageKeyParams,
+  },
+
+  // PUT /api/extensions/plugin/storage/kv/:key
+  setValue: {
+    params: storageKeyParams,
+    body: {
+      type: 'object',
+      properties: {
+        value: { description: 'Any JSON value' },
+        ttl: { type: 'number', minimum: 1, description: 'Time to live in seconds' },
+      },
+    },
+    response: createTypedUpdateResponses({
+      type: 'object',
+      properties: {
+        key: { type: 'string', description: 'Namespaced key' },
+        stored: { type: 'boolean', description: 'Whether the value was stored' },
+      },
+      required: ['key', 'stored'],
+    }),
+  },
+
+  // DELETE /api/extensions/plugin/storage/kv/:key
+  deleteValue: {
+    params: storageKeyParams,
+    response: createTypedDeleteResponses({
+      type: 'object',
+      properties: {
+        deleted: { type: 'boolean', description: 'Whether a value was deleted' },
+      },
+      required: ['deleted'],
+    }),
+  },
+
+  // GET /api/extensions/plugin/storage/kv
+  listKeys: {
+    querystring: storagePrefixQuery,
+    response: createTypedReadResponses({
+      type: 'object',
+      properties: {
+        keys: { type: 'array', items: { type: 'string' }, description: 'Namespaced keys (non-paged: bounded by the per-installation key quota)' },
+      },
+      required: ['keys'],
+    }),
+  },
+
+  // DELETE /api/extensions/plugin/storage/kv
+  clearKeys: {
+    querystring: storagePrefixQuery,
+    response: createTypedDeleteResponses({
+      type: 'object',
+      properties: {
+        deleted: { type: 'integer', description: 'Number of deleted keys' },
+      },
+      required: ['deleted'],
+    }),
+  },
+
+  // POST /api/extensions/plugin/storage/kv/batch/get
+  getMany: {
+    body: {
+      type: 'object',
+      required: ['keys'],
+      properties: {
+        keys: { type: 'array', items: { type: 'string' }, maxItems: 500 },
+      },
+    },
+    response: createTypedReadResponses({
+      type: 'object',
+      properties: {
+        values: { type: 'object', additionalProperties: true, description: 'Values keyed by namespaced key' },
+      },
+      required: ['values'],
+    }),
+  },
+
+  // POST /api/extensions/plugin/storage/kv/batch/set
+  setMany: {
+    body: {
+      type: 'object',
+      required: ['entries'],
+      properties: {
+        entries: {
+          type: 'array',
+          maxItems: 500,
+          items: { type: 'array', minItems: 2, maxItems: 2 },
+          description: 'Array of [namespacedKey, value] tuples',
+        },
+      },
+    },
+    response: createTypedUpdateResponses({
+      type: 'object',
+      properties: {
+        stored: { type: 'integer', description: 'Number of stored entries' },
+      },
+      required: ['stored'],
+    }),
+  },
+
+  // POST /api/extensions/plugin/files/upload
+  uploadFile: {
+    body: {
+      type: 'object',
+      required: ['key', 'content'],
+      properties: {
+        key: { type: 'string', description: 'Namespaced file key' },
+        content: { type: 'string', description: 'Base64-encoded file content' },
+        contentType: { type: 'string' },
+        public: { type: 'boolean', description: 'Expose through a public URL' },
+      },
+    },
+    response: createTypedCreateResponses({
+      type: 'object',
+      properties: {
+        key: { type: 'string', description: 'Namespaced file key' },
+        url: { type: 'string', description: 'Public URL or signed download URL' },
+      },
+      required: ['key', 'url'],
+    }),
+  },
+
+  // GET /api/extensions/plugin/files/download/:key
+  downloadFile: {
+    params: storageFileKeyParams,
+    response: createTypedReadResponses({
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'Base64-encoded file content' },
+        contentType: { type: 'string', nullable: true },
+      },
+      required: ['content'],
+    }),
+  },
+
+  // HEAD /api/extensions/plugin/files/:key
+  fileExists: {
+    params: storageFileKeyParams,
+  },
+
+  // DELETE /api/extensions/plugin/files/:key
+  deleteFile: {
+    params: storageFileKeyParams,
+    response: createTypedDeleteResponses({
+      type: 'object',
+      properties: {
+        deleted: { type: 'boolean', description: 'Whether a file was deleted' },
+      },
+      required: ['deleted'],
+    }),
+  },
+
+  // GET /api/extensions/plugin/files
+  listFiles: {
+    querystring: storagePrefixQuery,
+    response: createTypedReadResponses({
+      type: 'object',
+      properties: {
+        files: { type: 'array', items: storageFileInfoSchema, description: 'Stored files (non-paged: bounded by the per-installation quota)' },
+      },
+      required: ['files'],
+    }),
+  },
+
+  // POST /api/extensions/plugin/files/signed-url
+  createSignedUrl: {
+    body: {
+      type: 'object',
+      required: ['key'],
+      properties: {
+        key: { type: 'string', description: 'Namespaced file key' },
+        expiresIn: { type: 'integer', minimum: 1, maximum: 604800, description: 'Seconds until the URL expires' },
+      },
+    },
+    response: createTypedReadResponses({
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: 'Signed download URL' },
+      },
+      required: ['url'],
+    }),
+  },
+
+  // GET /api/extensions/plugin/files/signed/:token
+  signedDownload: {
+    params: {
+      type: 'object',
+      required: ['token'],
+      properties: {
+        token: { type: 'string', description: 'Signed download token' },
+      },
+    },
+  },
+} as const;
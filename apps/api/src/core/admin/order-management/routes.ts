@@ -146,7 +146,7 @@ export async function adminOrderRoutes(fastify: FastifyInstance) {
     schema: {
       tags: ['admin-orders'],
       summary: 'Refund order (full or partial)',
-      description: 'Process refund for an order (admin only)',
+      description: 'Send a refund to the payment provider, or to the customer\'s store credit (admin only). Provider refunds stay PENDING until the provider confirms them; omit amount and items to refund everything not yet refunded.',
       security: [{ bearerAuth: [] }],
       ...adminOrderSchemas.refundOrder,
     }
@@ -154,10 +154,16 @@ export async function adminOrderRoutes(fastify: FastifyInstance) {
     try {
       const { id } = request.params as any;
       const data = request.body as any;
-      // Explicitly pick only allowed fields, ensuring amount is not passed even if present in raw body
+      // Explicitly pick only allowed fields
       const refund = await AdminOrderService.refundOrder(id, {
         reason: data.reason,
-        idempotencyKey: data.idempotencyKey
+        idempotencyKey: data.idempotencyKey,
+        amount: data.amount,
+        items: data.items,
+        restock: data.restock,
+        refundTo: data.refundTo,
+        actorId: request.user?.id,
+        authorization: request.headers.authorization
       });
       return sendSuccess(reply, refund);
     } catch (error: unknown) {
@@ -7,6 +7,7 @@ import {
   createTypedUpdateResponses,
   createPageResultSchema,
 } from '@/types/common-dto';
+import { returnResponseSchema } from '@/core/returns/schemas';
 
 const orderStatusEnum = [
   'PENDING',
@@ -19,10 +20,12 @@ const orderStatusEnum = [
   'REFUNDED',
 ] as const;
 
-const paymentStatusEnum = ['PENDING', 'PAID', 'FAILED', 'REFUNDED'] as const;
+const paymentStatusEnum = ['PENDING', 'PAID', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED'] as const;
 
 const shipmentStatusEnum = ['PENDING', 'SHIPPED', 'DELIVERED', 'FAILED', 'CANCELLED'] as const;
 
+const refundStatusEnum = ['PENDING', 'COMPLETED', 'FAILED', 'CANCELLED'] as const;
+
 // ============================================================================
 // Admin Order Schemas
 // ============================================================================
@@ -130,6 +133,37 @@ const adminOrderDetailSchema = {
         required: ['id', 'carrier', 'trackingNumber', 'status', 'shippedAt', 'deliveredAt'],
       },
     },
+    refunds: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          amount: { type: 'number' },
+          currency: { type: 'string' },
+          status: { type: 'string', enum: refundStatusEnum },
+          reason: { type: 'string', nullable: true },
+          failureReason: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+          completedAt: { type: 'string', format: 'date-time', nullable: true },
+          items: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                orderItemId: { type: 'string' },
+                quantity: { type: 'integer' },
+                amount: { type: 'number' },
+                restock: { type: 'boolean' },
+              },
+              required: ['orderItemId', 'quantity', 'amount', 'restock'],
+            },
+          },
+        },
+        required: ['id', 'amount', 'currency', 'status', 'reason', 'failureReason', 'createdAt', 'completedAt', 'items'],
+      },
+    },
+    returns: { type: 'array', items: returnResponseSchema },
   },
   required: [
     'id',
@@ -286,6 +320,36 @@ export const adminOrderSchemas = {
       properties: {
         reason: { type: 'string', description: 'Refund reason' },
         idempotencyKey: { type: 'string', description: 'Idempotency key to prevent duplicate refunds' },
+        amount: {
+          type: 'number',
+          exclusiveMinimum: 0,
+          description: 'Amount to refund; defaults to the value of the listed items, or everything not yet refunded',
+        },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['orderItemId', 'quantity'],
+            properties: {
+              orderItemId: { type: 'string' },
+              quantity: { type: 'integer', minimum: 1 },
+              restock: { type: 'boolean', description: 'Overrides the request-level restock choice for this line' },
+            },
+          },
+          description: 'Order lines being refunded',
+        },
+        restock: {
+          type: 'boolean',
+          default: true,
+          description: 'Put refunded quantities back into stock once the provider confirms the refund',
+        },
+        refundTo: {
+          type: 'string',
+          enum: ['original', 'store_credit'],
+          default: 'original',
+          description: 'Pay back through the payment provider, or add the amount to the customer\'s store credit. Gift card and store credit payments can only be refunded as store credit.',
+        },
       },
     },
     response: createTypedUpdateResponses(adminOrderDetailSchema),
@@ -4,17 +4,17 @@
  */
 
 import { prisma } from '@/config/database';
-import { OrderPaymentStatus as PrismaOrderPaymentStatus, OrderStatus as PrismaOrderStatus, Prisma } from '@prisma/client';
+import { OrderPaymentStatus as PrismaOrderPaymentStatus, OrderStatus as PrismaOrderStatus } from '@prisma/client';
 import { systemSettingsService } from '../system-settings/service';
 import { CacheService } from '@/core/cache/service';
 import { getTodayAndYesterdayRangeUtc } from '@/utils/timezone';
-import { ExternalOrderService } from '@/core/external-orders/service';
-import { OrderStatus, OrderStatusType, PaymentStatus } from '@/core/order/types';
+import { OrderStatus, OrderStatusType } from '@/core/order/types';
 import { recordOrderStatusHistory } from '@/core/order/status-history';
 import { InventoryService } from '@/core/inventory/service';
-
-const isUniqueConstraintError = (error: unknown): error is Prisma.PrismaClientKnownRequestError =>
-  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+import { GiftCardService } from '@/core/gift-cards/service';
+import { TenderService } from '@/core/gift-cards/tenders';
+import { requestOrderRefund, type RequestRefundInput } from '@/core/payment/refunds';
+import { formatReturnResponse, returnRequestInclude } from '@/core/returns/service';
 
 function calculateTrendPercent(current: number, previous: number): number {
   if (previous === 0) {
@@ -52,17 +52,17 @@ export class AdminOrderService {
       prisma.order.aggregate({
         _sum: { totalAmount: true },
         where: {
-          paymentStatus: 'PAID',
+          paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
           status: { notIn: ['CANCELLED', 'REFUNDED'] },
         },
       }),
-      prisma.order.count({ where: { paymentStatus: 'PAID' } }),
+      prisma.order.count({ where: { paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] } } }),
       prisma.order.count({ where: { status: 'SHIPPED' } }),
       prisma.order.count({ where: { status: 'REFUNDED' } }),
       prisma.order.count({ where: { createdAt: { gte: startOfTodayUtc } } }),
       prisma.order.count({ where: { createdAt: { gte: startOfYesterdayUtc, lt: startOfTodayUtc } } }),
-      prisma.order.count({ where: { paymentStatus: 'PAID', createdAt: { gte: startOfTodayUtc } } }),
-      prisma.order.count({ where: { paymentStatus: 'PAID', createdAt: { gte: startOfYesterdayUtc, lt: startOfTodayUtc } } }),
+      prisma.order.count({ where: { paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] }, createdAt: { gte: startOfTodayUtc } } }),
+      prisma.order.count({ where: { paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] }, createdAt: { gte: startOfYesterdayUtc, lt: startOfTodayUtc } } }),
       prisma.order.count({ where: { status: 'SHIPPED', createdAt: { gte: startOfTodayUtc } } }),
       prisma.order.count({ where: { status: 'SHIPPED', createdAt: { gte: startOfYesterdayUtc, lt: startOfTodayUtc } } }),
       prisma.order.count({ where: { status: 'REFUNDED', createdAt: { gte: startOfTodayUtc } } }),
@@ -70,7 +70,7 @@ export class AdminOrderService {
       prisma.order.aggregate({
         _sum: { totalAmount: true },
         where: {
-          paymentStatus: 'PAID',
+          paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
           status: { notIn: ['CANCELLED', 'REFUNDED'] },
           createdAt: { gte: startOfTodayUtc },
         },
@@ -78,7 +78,7 @@ export class AdminOrderService {
       prisma.order.aggregate({
         _sum: { totalAmount: true },
         where: {
-          paymentStatus: 'PAID',
+          paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
           status: { notIn: ['CANCELLED', 'REFUNDED'] },
           createdAt: { gte: startOfYesterdayUtc, lt: startOfTodayUtc },
         },
@@ -134,6 +134,12 @@ export class AdminOrderService {
             },
           },
         },
+        {
+          customerEmail: {
+            contains: searchText,
+            mode: 'insensitive',
+          },
+        },
         {
           user: {
             username: {
@@ -169,6 +175,7 @@ export class AdminOrderService {
           totalAmount: true,
           createdAt: true,
           userId: true,
+          customerEmail: true,
           user: {
             select: {
               id: true,
@@ -195,7 +202,7 @@ export class AdminOrderService {
         itemsCount: order._count.items,
         customer: {
           id: order.user?.id || null,
-          email: order.user?.email || null,
+          email: order.user?.email || order.customerEmail || null,
           username: order.user?.username || null
         }
       })),
@@ -230,6 +237,7 @@ export class AdminOrderService {
         cancelledAt: true,
         createdAt: true,
         updatedAt: true,
+        customerEmail: true,
         user: {
           select: {
             id: true,
@@ -281,6 +289,31 @@ export class AdminOrderService {
             shippedAt: true,
             deliveredAt: true
           }
+        },
+        refunds: {
+          select: {
+            id: true,
+            amount: true,
+            currency: true,
+            status: true,
+            reason: true,
+            failureReason: true,
+            createdAt: true,
+            completedAt: true,
+            items: {
+              select: {
+                orderItemId: true,
+                quantity: true,
+                amount: true,
+                restock: true
+              }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
+        },
+        returnRequests: {
+          include: returnRequestInclude,
+          orderBy: { createdAt: 'asc' }
         }
       }
     });
@@ -317,7 +350,7 @@ export class AdminOrderService {
       updatedAt: order.updatedAt.toISOString(),
       customer: {
         id: order.user?.id || null,
-        email: order.user?.email || null,
+        email: order.user?.email || order.customerEmail || null,
         username: order.user?.username || null
       },
       shippingAddress: shippingAddr,
@@ -340,7 +373,24 @@ export class AdminOrderService {
         status: s.status,
         shippedAt: s.shippedAt ? s.shippedAt.toISOString() : null,
         deliveredAt: s.deliveredAt ? s.deliveredAt.toISOString() : null
-      }))
+      })),
+      refunds: order.refunds.map(r => ({
+        id: r.id,
+        amount: Number(r.amount),
+        currency: r.currency,
+        status: r.status,
+        reason: r.reason,
+        failureReason: r.failureReason,
+        createdAt: r.createdAt.toISOString(),
+        completedAt: r.completedAt ? r.completedAt.toISOString() : null,
+        items: r.items.map(item => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+          amount: Number(item.amount),
+          restock: item.restock
+        }))
+      })),
+      returns: order.returnRequests.map(formatReturnResponse)
     };
   }
 
@@ -430,6 +480,7 @@ export class AdminOrderService {
         toPaymentStatus: updated.paymentStatus as PrismaOrderPaymentStatus,
         reason: 'admin_ship_order',
         actorType: 'admin',
+        metadata: { carrier: data.carrier, trackingNumber: data.trackingNumber },
       });
     });
 
@@ -440,119 +491,13 @@ export class AdminOrderService {
   }
 
   /**
-   * Refund order
+   * Refund order (full, partial amount, or per line)
+   *
+   * The refund is sent to the payment plugin and stays PENDING until the
+   * provider confirms it; see requestOrderRefund.
    */
-  static async refundOrder(orderId: string, data: {
-    reason?: string;
-    idempotencyKey: string;
-  }) {
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
-      include: {
-        payments: {
-          where: { status: 'SUCCEEDED' },
-          orderBy: { createdAt: 'desc' },
-          take: 1,
-        },
-        items: true,
-      },
-    });
-
-    if (!order) {
-      throw new Error('Order not found');
-    }
-
-    if (order.paymentStatus !== 'PAID') {
-      throw new Error('Order is not paid, cannot refund');
-    }
-
-    const payment = order.payments[0];
-    if (!payment) {
-      throw new Error('No successful payment found for this order');
-    }
-
-    const refundAmount = Number(order.totalAmount);
-
-    // Check if refund already exists
-    const existingRefund = await prisma.refund.findUnique({
-      where: { idempotencyKey: data.idempotencyKey },
-    });
-
-    if (existingRefund) {
-      return this.getOrderById(orderId);
-    }
-
-    await ExternalOrderService.requestRefundForOrder(orderId);
-
-    try {
-      await prisma.$transaction(async (tx) => {
-        const refund = await tx.refund.create({
-          data: {
-            paymentId: payment.id,
-            orderId,
-            amount: refundAmount,
-            currency: payment.currency,
-            status: 'COMPLETED',
-            reason: data.reason,
-            provider: payment.paymentMethod.toUpperCase(),
-            idempotencyKey: data.idempotencyKey,
-          },
-        });
-
-        await tx.refundLedger.create({
-          data: {
-            refundId: refund.id,
-            paymentId: payment.id,
-            orderId,
-            eventType: 'SUCCEEDED',
-            amount: refundAmount,
-            currency: payment.currency,
-            provider: payment.paymentMethod,
-            idempotencyKey: data.idempotencyKey,
-          },
-        });
-
-        await tx.paymentLedger.create({
-          data: {
-            paymentId: payment.id,
-            orderId,
-            eventType: 'REFUNDED',
-            amount: refundAmount,
-            currency: payment.currency,
-            provider: payment.paymentMethod,
-            providerEventId: `refund:${refund.id}`,
-            idempotencyKey: data.idempotencyKey,
-          },
-        });
-
-        const updated = await tx.order.update({
-          where: { id: orderId },
-          data: {
-            paymentStatus: PaymentStatus.REFUNDED,
-            status: OrderStatus.REFUNDED,
-          },
-        });
-
-        await recordOrderStatusHistory(tx, {
-          orderId: updated.id,
-          fromStatus: order.status as PrismaOrderStatus,
-          toStatus: updated.status as PrismaOrderStatus,
-          fromPaymentStatus: order.paymentStatus as PrismaOrderPaymentStatus,
-          toPaymentStatus: updated.paymentStatus as PrismaOrderPaymentStatus,
-          reason: data.reason ?? 'admin_refund',
-          actorType: 'admin',
-        });
-
-        for (const item of order.items) {
-          await InventoryService.incrementStock(tx, item.variantId, item.quantity);
-        }
-      });
-    } catch (error) {
-      if (isUniqueConstraintError(error)) {
-        return this.getOrderById(orderId);
-      }
-      throw error;
-    }
+  static async refundOrder(orderId: string, data: RequestRefundInput) {
+    await requestOrderRefund(orderId, data);
 
     // Invalidate list cache
     await CacheService.incrementOrderVersion();
@@ -603,9 +548,9 @@ export class AdminOrderService {
         actorType: 'admin',
       });
 
-      for (const item of order.items) {
-        await InventoryService.incrementStock(tx, item.variantId, item.quantity);
-      }
+      await InventoryService.restockOrder(tx, order.id, order.items);
+      await TenderService.releaseForOrder(tx, order.id, 'cancelled');
+      await GiftCardService.voidForOrder(tx, order.id, undefined, 'order_cancelled');
     });
 
     // Invalidate list cache
@@ -1,5 +1,10 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { env } from '@/config/env';
+
 type GenericObject = Record<string, unknown>;
 
+const ENCRYPTED_SECRET_PREFIX = 'enc:v1:';
+
 export type PluginConfigMeta = {
   secretFields?: Record<string, { configured: boolean }>;
 };
@@ -39,6 +44,42 @@ function hasConfiguredSecretValue(value: unknown): boolean {
   return typeof value === 'string' ? value.trim().length > 0 : value !== undefined && value !== null;
 }
 
+function getSecretKey(): Buffer {
+  return createHash('sha256')
+    .update(`plugin-config-secrets:${env.PLUGIN_SECRETS_KEY || env.JWT_SECRET}`)
+    .digest();
+}
+
+/**
+ * Encrypt a plugin secret for storage (AES-256-GCM). The key is derived from
+ * PLUGIN_SECRETS_KEY, or JWT_SECRET when that is not set.
+ */
+export function encryptConfigSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getSecretKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return ENCRYPTED_SECRET_PREFIX + [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join(':');
+}
+
+/**
+ * Decrypt a value from encryptConfigSecret. Values stored before secrets were
+ * encrypted are returned unchanged.
+ *
+ * @throws Error if the value was encrypted with another key or altered
+ */
+export function decryptConfigSecret(value: string): string {
+  if (!value.startsWith(ENCRYPTED_SECRET_PREFIX)) {
+    return value;
+  }
+  const [iv, tag, encrypted] = value
+    .slice(ENCRYPTED_SECRET_PREFIX.length)
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getSecretKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
 export function sanitizePluginConfigForAdmin(
   manifestJson: unknown,
   config: Record<string, unknown>
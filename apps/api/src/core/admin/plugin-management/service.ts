@@ -18,6 +18,11 @@ import { executeLifecycleHook, hasLifecycleHook } from './lifecycle-hooks';
 import { isAllowedExtensionSource, isOfficialMarketOnly } from '@/core/admin/extension-installer/official-only';
 import { ensureOfficialMarketExtensionFiles } from '@/core/admin/market/official-package-recovery';
 import { mergeSecretConfigForUpdate } from './config-secrets';
+import { purgeInstallationStorage, purgePluginStorage } from '@/core/admin/extension-installer/plugin-storage';
+import {
+  PluginDatabaseService,
+  type PluginDatabaseReleaseMode,
+} from '@/core/admin/extension-installer/plugin-database';
 
 const EXTENSIONS_DIR = getPluginDir();
 
@@ -382,6 +387,8 @@ async function deleteInstance(installationId: string): Promise<PluginInstallatio
     },
   });
 
+  await purgeInstallationStorage(existing.pluginSlug, installationId);
+
   await CacheService.incrementPluginVersion();
   return deleted;
 }
@@ -573,8 +580,12 @@ export async function restorePlugin(slug: string): Promise<void> {
 /**
  * Purge plugin (hard delete)
  * Removes plugin files and permanently deletes plugin package + instances records.
+ * A managed plugin database is archived (default) or dropped first.
  */
-export async function purgePlugin(slug: string): Promise<void> {
+export async function purgePlugin(
+  slug: string,
+  options: { database?: PluginDatabaseReleaseMode } = {}
+): Promise<void> {
   const pluginPackage = await prisma.pluginInstall.findUnique({
     where: { slug },
   });
@@ -587,6 +598,17 @@ export async function purgePlugin(slug: string): Promise<void> {
     throw new Error('Cannot purge built-in plugins');
   }
 
+  // Runtimes must not keep using the database while it is archived or dropped
+  const installations = await prisma.pluginInstallation.findMany({
+    where: { pluginSlug: slug },
+    select: { id: true },
+  });
+  const { dropInternalRuntime } = await import('@/core/admin/extension-installer/plugin-runtime');
+  for (const installation of installations) {
+    await dropInternalRuntime(installation.id);
+  }
+  await PluginDatabaseService.release(slug, options.database ?? 'archive');
+
   const pluginDir = getPluginDir(slug);
   await fs.rm(pluginDir, { recursive: true, force: true }).catch(() => {});
 
@@ -594,6 +616,9 @@ export async function purgePlugin(slug: string): Promise<void> {
     where: { slug },
   });
 
+  // Sandbox storage rows cascade with the installations; blobs live on disk
+  await purgePluginStorage(slug);
+
   await CacheService.delete('plugins:installed');
   await CacheService.delete(`plugins:config:${slug}`);
   await CacheService.incrementPluginVersion();
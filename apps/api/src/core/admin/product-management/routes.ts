@@ -8,6 +8,7 @@ import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
 import { storeContextMiddleware } from '@/middleware/store-context';
 import { sendSuccess, sendError } from '@/utils/response';
 import { UploadService } from '@/core/upload/service';
+import { ProductMediaService } from '@/core/media/service';
 import { adminProductSchemas } from './schemas';
 
 export async function adminProductRoutes(fastify: FastifyInstance) {
@@ -232,7 +233,9 @@ export async function adminProductRoutes(fastify: FastifyInstance) {
       }
 
       const result = await UploadService.uploadProductImage(data);
-      return sendSuccess(reply, result);
+      // Tracked as unattached media until a product is saved with this URL
+      const media = await ProductMediaService.createUnattachedMedia(result);
+      return sendSuccess(reply, { ...result, mediaId: media.id });
     } catch (error: any) {
       return sendError(reply, 400, 'UPLOAD_FAILED', error.message || 'Upload failed');
     }
@@ -321,4 +324,36 @@ export async function adminProductRoutes(fastify: FastifyInstance) {
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
     }
   });
+
+  // Delete currency-specific price for variant (falls back to converted base price)
+  fastify.delete('/:id/variants/:variantId/prices/:currency', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'Delete currency-specific price for variant',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id', 'variantId', 'currency'],
+        properties: {
+          id: { type: 'string' },
+          variantId: { type: 'string' },
+          currency: { type: 'string', minLength: 3, maxLength: 3 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, variantId, currency } = request.params as any;
+      const deleted = await AdminProductService.deleteCurrencyPrice(id, variantId, currency.toUpperCase());
+      if (!deleted) {
+        return sendError(reply, 404, 'NOT_FOUND', 'Currency price not found');
+      }
+      return sendSuccess(reply, { variantId, currency: currency.toUpperCase(), deleted: true }, 'Currency price deleted');
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
 }
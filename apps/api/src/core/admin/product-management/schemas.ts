@@ -11,6 +11,7 @@ import {
   createPageResultSchema,
   uploadResultSchema,
 } from '@/types/common-dto';
+import { imageSizesSchema, productMediaSchema } from '@/core/media/schemas';
 
 // ============================================================================
 // Product Variant Schema
@@ -83,8 +84,10 @@ const adminProductSchema = {
     name: { type: 'string', description: 'Product name' },
     description: { type: 'string', nullable: true, description: 'Product description' },
     images: { type: 'array', items: { type: 'string' }, description: 'Product image URLs' },
+    media: { type: 'array', items: productMediaSchema, description: 'Gallery images in display order' },
     isActive: { type: 'boolean', description: 'Whether the product is active' },
     categoryId: { type: 'string', nullable: true, description: 'Category ID' },
+    productType: { type: 'string', description: 'Product type (physical, digital, gift_card, ...)' },
     requiresShipping: { type: 'boolean', description: 'Whether this product requires shipping address' },
     sourceProvider: { type: 'string', nullable: true, description: 'External source provider' },
     sourceIsActive: { type: 'boolean', nullable: true, description: 'Source active state' },
@@ -99,6 +102,18 @@ const adminProductSchema = {
   required: ['id', 'name', 'variants', 'createdAt', 'updatedAt'],
 } as const;
 
+const productImageUploadSchema = {
+  type: 'object',
+  properties: {
+    ...uploadResultSchema.properties,
+    mediaId: { type: 'string', description: 'Media ID; the upload is attached when a product is saved with its URL' },
+    width: { type: 'integer', description: 'Original width in pixels' },
+    height: { type: 'integer', description: 'Original height in pixels' },
+    sizes: imageSizesSchema,
+  },
+  required: [...uploadResultSchema.required, 'mediaId'],
+} as const;
+
 const externalSourceProductSchema = {
   type: 'object',
   nullable: true,
@@ -325,6 +340,7 @@ export const adminProductSchemas = {
         name: { type: 'string', description: 'Product name' },
         description: { type: 'string', description: 'Product description' },
         categoryId: { type: 'string', nullable: true, description: 'Category ID' },
+        productType: { type: 'string', maxLength: 50, description: 'Product type; gift_card products issue a gift card per unit once paid' },
         requiresShipping: { type: 'boolean', description: 'Whether this product requires shipping address' },
         images: { type: 'array', items: { type: 'string' }, description: 'Image URLs' },
         variants: {
@@ -371,6 +387,7 @@ export const adminProductSchemas = {
         name: { type: 'string', description: 'Product name' },
         description: { type: 'string', description: 'Product description' },
         categoryId: { type: 'string', nullable: true, description: 'Category ID' },
+        productType: { type: 'string', maxLength: 50, description: 'Product type; gift_card products issue a gift card per unit once paid' },
         requiresShipping: { type: 'boolean', description: 'Whether this product requires shipping address' },
         images: { type: 'array', items: { type: 'string' }, description: 'Image URLs' },
         variants: {
@@ -415,7 +432,7 @@ export const adminProductSchemas = {
 
   // POST /api/admin/products/upload-image
   uploadImage: {
-    response: createTypedCrudResponses(uploadResultSchema),
+    response: createTypedCrudResponses(productImageUploadSchema),
   },
 
   // GET /api/admin/products/categories
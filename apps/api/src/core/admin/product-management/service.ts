@@ -9,8 +9,12 @@ import { prisma } from '@/config/database';
 import { CacheService } from '@/core/cache/service';
 import { CurrencyService } from '@/core/currency/service';
 import { InventoryService } from '@/core/inventory/service';
+import { ProductMediaService } from '@/core/media/service';
 import { WarehouseService } from '@/core/warehouse/service';
+import { queuePriceDropAlerts } from '@/core/wishlist/alerts';
+import { OutboxService } from '@/infra/outbox';
 import type { CurrencyPriceResponse } from '@/core/currency/types';
+import type { ProductVariantSummary } from '@jiffoo/shared';
 
 function calculateTrendPercent(current: number, previous: number): number {
   if (previous === 0) {
@@ -49,6 +53,30 @@ function parseAttributes(attributes: unknown): Record<string, unknown> {
   return parseJsonObject(attributes) ?? {};
 }
 
+const VARIANT_EVENT_SELECT = {
+  id: true,
+  name: true,
+  skuCode: true,
+  salePrice: true,
+  isActive: true,
+} as const;
+
+function toVariantSummary(variant: {
+  id: string;
+  name: string;
+  skuCode: string | null;
+  salePrice: unknown;
+  isActive: boolean;
+}): ProductVariantSummary {
+  return {
+    id: variant.id,
+    name: variant.name,
+    skuCode: variant.skuCode,
+    salePrice: Number(variant.salePrice),
+    isActive: variant.isActive,
+  };
+}
+
 function resolveVariantSalePrice(variant: ProductVariantData): number {
   const candidate = variant.salePrice ?? variant.basePrice;
   const normalized = Number(candidate);
@@ -623,9 +651,10 @@ export class AdminProductService {
       }),
       this.loadVariantSourceLinks(product.variants.map((variant) => variant.id)),
     ]);
-    const stockMap = await InventoryService.getAvailableStockByVariantIds(
-      product.variants.map((variant) => variant.id)
-    );
+    const [stockMap, media] = await Promise.all([
+      InventoryService.getAvailableStockByVariantIds(product.variants.map((variant) => variant.id)),
+      ProductMediaService.listProductMedia(productId),
+    ]);
 
     // Transform to ProductDetailDTO
     const dto = {
@@ -635,7 +664,9 @@ export class AdminProductService {
       isActive: product.isActive,
       categoryId: product.categoryId,
       categoryName: product.category?.name || null,
-      images: parseImageList(product.typeData),
+      images: media.length > 0 ? media.map((item) => item.url) : parseImageList(product.typeData),
+      media,
+      productType: product.productType,
       requiresShipping: product.requiresShipping,
       sourceProvider: productSourceLink?.provider || null,
       sourceIsActive: productSourceLink?.sourceIsActive ?? null,
@@ -892,9 +923,10 @@ export class AdminProductService {
           typeData: { images: data.images ?? [] },
           storeId: storeId,
         } as any,
-        select: { id: true }
+        select: { id: true, name: true, slug: true, productType: true, categoryId: true }
       });
 
+      const createdVariants: ProductVariantSummary[] = [];
       for (const [index, variant] of variantsToCreate.entries()) {
         const normalizedStock = Math.max(0, Math.trunc(Number(variant.baseStock ?? 0)));
         const salePrice = resolveVariantSalePrice(variant);
@@ -909,8 +941,9 @@ export class AdminProductService {
             isActive: variant.isActive ?? true,
             sortOrder: index,
           },
-          select: { id: true },
+          select: VARIANT_EVENT_SELECT,
         });
+        createdVariants.push(toVariantSummary(createdVariant));
 
         await InventoryService.setStock(
           tx,
@@ -920,6 +953,17 @@ export class AdminProductService {
         );
       }
 
+      await ProductMediaService.replaceProductImages(tx, created.id, data.images ?? []);
+
+      await OutboxService.emit(tx, 'product.created', created.id, {
+        id: created.id,
+        name: created.name,
+        slug: created.slug,
+        productType: created.productType,
+        categoryId: created.categoryId,
+        variants: createdVariants,
+      });
+
       return created;
     });
 
@@ -966,7 +1010,6 @@ export class AdminProductService {
     }
     if (data.productType !== undefined) updateData.productType = data.productType;
     if (!isOdooLinked && data.requiresShipping !== undefined) updateData.requiresShipping = data.requiresShipping;
-    if (data.images !== undefined) updateData.typeData = { images: data.images };
 
     const defaultWarehouse = await WarehouseService.getDefaultWarehouse();
 
@@ -977,6 +1020,15 @@ export class AdminProductService {
         data: updateData,
       });
 
+      if (data.images !== undefined) {
+        await ProductMediaService.replaceProductImages(tx, productId, data.images);
+      }
+
+      await OutboxService.emit(tx, 'product.updated', productId, {
+        id: productId,
+        changes: data.images !== undefined ? [...Object.keys(updateData), 'typeData'] : Object.keys(updateData),
+      });
+
       // Handle Variants Upsert
       if (data.variants && data.variants.length > 0) {
         let variantsToProcess = data.variants;
@@ -984,9 +1036,10 @@ export class AdminProductService {
         // 1. Get existing variants
         const existingVariants = await tx.productVariant.findMany({
           where: { productId },
-          select: { id: true }
+          select: { id: true, salePrice: true }
         });
         const existingIds = existingVariants.map(v => v.id);
+        const previousPrices = new Map(existingVariants.map(v => [v.id, Number(v.salePrice)]));
 
         const incomingIds = variantsToProcess.map(v => v.id).filter(id => id !== undefined) as string[];
 
@@ -996,6 +1049,10 @@ export class AdminProductService {
           await tx.productVariant.deleteMany({
             where: { id: { in: toDelete } }
           });
+
+          for (const variantId of toDelete) {
+            await OutboxService.emit(tx, 'product.variant_deleted', variantId, { id: variantId, productId });
+          }
         }
 
         // 3. Upsert variants
@@ -1004,7 +1061,7 @@ export class AdminProductService {
           const salePrice = resolveVariantSalePrice(variant);
           if (variant.id && existingIds.includes(variant.id)) {
             // Update
-            await tx.productVariant.update({
+            const updatedVariant = await tx.productVariant.update({
               where: { id: variant.id },
               data: {
                 name: variant.name,
@@ -1013,9 +1070,19 @@ export class AdminProductService {
                 skuCode: variant.skuCode,
                 attributes: variant.attributes ?? undefined,
                 isActive: variant.isActive
-              }
+              },
+              select: VARIANT_EVENT_SELECT,
+            });
+
+            await OutboxService.emit(tx, 'product.variant_updated', updatedVariant.id, {
+              ...toVariantSummary(updatedVariant),
+              productId,
             });
 
+            if (salePrice < (previousPrices.get(variant.id) ?? salePrice)) {
+              await queuePriceDropAlerts(tx, variant.id, salePrice);
+            }
+
             await InventoryService.setStock(
               tx,
               variant.id,
@@ -1033,7 +1100,13 @@ export class AdminProductService {
                 skuCode: variant.skuCode,
                 attributes: variant.attributes ?? undefined,
                 isActive: variant.isActive ?? true
-              }
+              },
+              select: VARIANT_EVENT_SELECT,
+            });
+
+            await OutboxService.emit(tx, 'product.variant_created', createdVariant.id, {
+              ...toVariantSummary(createdVariant),
+              productId,
             });
 
             await InventoryService.setStock(
@@ -1058,8 +1131,12 @@ export class AdminProductService {
    * Delete product
    */
   static async deleteProduct(productId: string) {
-    await prisma.product.delete({
-      where: { id: productId }
+    await prisma.$transaction(async (tx) => {
+      await tx.product.delete({
+        where: { id: productId }
+      });
+
+      await OutboxService.emit(tx, 'product.deleted', productId, { id: productId });
     });
 
     await CacheService.incrementProductVersion();
@@ -1070,8 +1147,19 @@ export class AdminProductService {
    * Bulk delete products
    */
   static async deleteProducts(productIds: string[]) {
-    await prisma.product.deleteMany({
-      where: { id: { in: productIds } }
+    await prisma.$transaction(async (tx) => {
+      const existing = await tx.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true },
+      });
+
+      await tx.product.deleteMany({
+        where: { id: { in: productIds } }
+      });
+
+      for (const product of existing) {
+        await OutboxService.emit(tx, 'product.deleted', product.id, { id: product.id });
+      }
     });
 
     await CacheService.incrementProductVersion();
@@ -1137,7 +1225,7 @@ export class AdminProductService {
     }
 
     const currencyService = new CurrencyService();
-    const result = await currencyService.setCurrencyPrice(variantId, currency, price);
+    const result = await currencyService.setCurrencyPrice(variantId, currency.toUpperCase(), price);
 
     // Invalidate product cache
     await CacheService.incrementProductVersion();
@@ -1175,4 +1263,33 @@ export class AdminProductService {
     const currencyService = new CurrencyService();
     return await currencyService.getVariantCurrencyPrices(variantId);
   }
+
+  /**
+   * Delete a currency-specific price for a product variant
+   * The variant falls back to its converted base price in that currency
+   */
+  static async deleteCurrencyPrice(
+    productId: string,
+    variantId: string,
+    currency: string
+  ): Promise<boolean> {
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: variantId, productId },
+      select: { id: true }
+    });
+
+    if (!variant) {
+      throw new Error('Variant not found or does not belong to this product');
+    }
+
+    const currencyService = new CurrencyService();
+    const deleted = await currencyService.deleteCurrencyPrice(variantId, currency);
+
+    if (deleted) {
+      await CacheService.incrementProductVersion();
+      await CacheService.deleteProduct(productId);
+    }
+
+    return deleted;
+  }
 }
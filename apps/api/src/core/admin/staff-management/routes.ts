@@ -3,6 +3,7 @@ import { authMiddleware, requirePermission } from '@/core/auth/middleware';
 import { ADMIN_PERMISSIONS } from 'shared';
 import { sendError, sendSuccess } from '@/utils/response';
 import { StaffManagementError, StaffManagementService } from './service';
+import { TwoFactorService } from '@/core/auth/two-factor';
 
 function mapStaffError(error: unknown, reply: any) {
   if (error instanceof StaffManagementError) {
@@ -37,6 +38,51 @@ export async function adminStaffRoutes(fastify: FastifyInstance) {
     return sendSuccess(reply, StaffManagementService.getPermissionCatalog());
   });
 
+  fastify.get('/security', {
+    preHandler: [requirePermission(ADMIN_PERMISSIONS.STAFF_READ)],
+    schema: {
+      tags: ['admin-staff'],
+      summary: 'Get staff security policy',
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (_request, reply) => {
+    try {
+      return sendSuccess(reply, { requireTwoFactor: await TwoFactorService.isRequiredForStaff() });
+    } catch (error) {
+      return mapStaffError(error, reply);
+    }
+  });
+
+  fastify.put('/security', {
+    preHandler: [requirePermission(ADMIN_PERMISSIONS.STAFF_WRITE)],
+    schema: {
+      tags: ['admin-staff'],
+      summary: 'Update staff security policy (owners only)',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['requireTwoFactor'],
+        properties: {
+          requireTwoFactor: { type: 'boolean' },
+        },
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { requireTwoFactor } = request.body as { requireTwoFactor: boolean };
+      const result = await TwoFactorService.setRequiredForStaff(
+        {
+          userId: request.user!.id,
+          isOwner: request.user!.isOwner ?? false,
+        },
+        requireTwoFactor,
+      );
+      return sendSuccess(reply, result);
+    } catch (error) {
+      return mapStaffError(error, reply);
+    }
+  });
+
   fastify.get('/', {
     preHandler: [requirePermission(ADMIN_PERMISSIONS.STAFF_READ)],
     schema: {
@@ -141,6 +187,30 @@ export async function adminStaffRoutes(fastify: FastifyInstance) {
     }
   });
 
+  fastify.delete('/:userId/two-factor', {
+    preHandler: [requirePermission(ADMIN_PERMISSIONS.STAFF_WRITE)],
+    schema: {
+      tags: ['admin-staff'],
+      summary: 'Reset staff two-factor authentication',
+      security: [{ bearerAuth: [] }],
+    },
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.params as { userId: string };
+      const result = await StaffManagementService.resetStaffTwoFactor(
+        {
+          userId: request.user!.id,
+          permissions: request.user!.permissions ?? [],
+          isOwner: request.user!.isOwner ?? false,
+        },
+        userId,
+      );
+      return sendSuccess(reply, result);
+    } catch (error) {
+      return mapStaffError(error, reply);
+    }
+  });
+
   fastify.post('/', {
     preHandler: [requirePermission(ADMIN_PERMISSIONS.STAFF_WRITE)],
     schema: {
@@ -171,13 +171,14 @@ async function getStaffMembershipByUserId(userId: string) {
           emailVerified: true,
           createdAt: true,
           updatedAt: true,
+          staffTwoFactor: { select: { enabledAt: true } },
         },
       },
     },
   });
 }
 
-async function writeStaffAuditLog(input: {
+export async function writeStaffAuditLog(input: {
   staffUserId: string;
   staffEmail: string;
   staffUsername?: string | null;
@@ -265,6 +266,7 @@ function serializeStaffMembership(membership: NonNullable<StaffMembershipWithUse
     accountRole: membership.user.role,
     accountActive: membership.user.isActive,
     emailVerified: membership.user.emailVerified,
+    twoFactorEnabled: Boolean(membership.user.staffTwoFactor?.enabledAt),
     adminRole: resolvedAccess.role,
     status: resolvedAccess.status,
     isOwner: resolvedAccess.isOwner,
@@ -349,6 +351,7 @@ export class StaffManagementService {
               emailVerified: true,
               createdAt: true,
               updatedAt: true,
+              staffTwoFactor: { select: { enabledAt: true } },
             },
           },
         },
@@ -481,6 +484,7 @@ export class StaffManagementService {
             emailVerified: true,
             createdAt: true,
             updatedAt: true,
+            staffTwoFactor: { select: { enabledAt: true } },
           },
         },
       },
@@ -578,6 +582,7 @@ export class StaffManagementService {
             emailVerified: true,
             createdAt: true,
             updatedAt: true,
+            staffTwoFactor: { select: { enabledAt: true } },
           },
         },
       },
@@ -653,6 +658,37 @@ export class StaffManagementService {
     };
   }
 
+  /**
+   * Clear a staff member's two-factor enrollment (lost device). They enroll
+   * again on their next visit when two-factor is required.
+   */
+  static async resetStaffTwoFactor(actor: StaffActorContext, userId: string) {
+    const existingMembership = await getStaffMembershipByUserId(userId);
+    if (!existingMembership) {
+      throw createStaffError('Staff membership not found', 'NOT_FOUND', 404);
+    }
+
+    assertActorCanManageExistingMembership(actor, existingMembership);
+
+    const { count } = await prisma.staffTwoFactor.deleteMany({ where: { userId } });
+    if (count === 0) {
+      throw createStaffError('Two-factor authentication is not set up for this staff member', 'NOT_FOUND', 404);
+    }
+
+    await writeStaffAuditLog({
+      staffUserId: existingMembership.user.id,
+      staffEmail: existingMembership.user.email,
+      staffUsername: existingMembership.user.username,
+      actorUserId: actor.userId,
+      action: 'STAFF_2FA_RESET',
+    });
+
+    return {
+      userId,
+      twoFactorReset: true,
+    };
+  }
+
   static async resendStaffInvite(actor: StaffActorContext, userId: string) {
     const existingMembership = await getStaffMembershipByUserId(userId);
     if (!existingMembership) {
@@ -207,7 +207,7 @@ export const adminStoreManagementRoutes: FastifyPluginAsync = async (fastify) =>
           _sum: { totalAmount: true },
           where: {
             storeId: id,
-            paymentStatus: 'PAID',
+            paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] },
             status: { notIn: ['CANCELLED', 'REFUNDED'] },
           },
         }),
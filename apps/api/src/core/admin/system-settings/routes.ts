@@ -7,6 +7,7 @@ import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
 import { systemSettingsService } from './service';
 import { sendSuccess, sendError } from '@/utils/response';
 import { adminSettingsSchemas } from './schemas';
+import { REQUIRE_STAFF_TWO_FACTOR_SETTING } from '@/core/auth/two-factor';
 
 const systemSettingsRoutes: FastifyPluginAsync = async (fastify) => {
     // Require Admin for all system settings routes
@@ -47,6 +48,11 @@ const systemSettingsRoutes: FastifyPluginAsync = async (fastify) => {
             return sendError(reply, 400, 'BAD_REQUEST', 'Invalid settings object');
         }
 
+        // Owner-only policy, changed through PUT /api/admin/staff/security
+        if (REQUIRE_STAFF_TWO_FACTOR_SETTING in settings) {
+            return sendError(reply, 403, 'FORBIDDEN', 'The staff two-factor policy can only be changed by an owner');
+        }
+
         try {
             const updated = await systemSettingsService.batchUpdate(settings);
             return sendSuccess(reply, updated, `${Object.keys(updated).length} settings updated`);
@@ -36,6 +36,19 @@ const settingsSchema = {
     'localization.currency': { type: 'string', description: 'Localization currency code' },
     'localization.locale': { type: 'string', description: 'Default locale (e.g. en-US)' },
     'localization.timezone': { type: 'string', description: 'Default timezone (e.g. UTC)' },
+    'currency.enabled': {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Additional ISO 4217 currencies shoppers can browse and pay in (the shop currency is always enabled)',
+    },
+    'tax.pricesIncludeTax': { type: 'boolean', description: 'Catalog prices include tax (tax is extracted instead of added)' },
+    'tax.calculator': {
+      type: 'string',
+      nullable: true,
+      description: 'Plugin slug of an external tax calculator; empty uses the built-in tax zones',
+    },
+    'tax.defaultCountry': { type: 'string', nullable: true, description: 'Tax destination country when no address is known' },
+    'tax.defaultState': { type: 'string', nullable: true, description: 'Tax destination state when no address is known' },
     'theme.active.shop.slug': { type: 'string', description: 'Active shop theme slug' },
     'theme.active.admin.slug': { type: 'string', description: 'Active admin theme slug' },
     'theme.previous.shop.slug': { type: 'string', nullable: true, description: 'Previous shop theme slug' },
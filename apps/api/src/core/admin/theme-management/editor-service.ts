@@ -0,0 +1,559 @@
+/**
+ * Theme Editor Service
+ *
+ * Draft / preview / publish workflow for Theme Pack page templates and config.
+ * - Templates shipped in the pack (templates/{page}.json) are the baseline
+ * - ThemePublication rows are published snapshots; the highest version is live
+ *   and overrides the pack's templates and the active theme config
+ * - ThemeDraft holds unpublished changes; it is only visible to holders of a
+ *   signed preview token
+ * - Revert publishes a copy of an older snapshot as a new version, so history
+ *   is never rewritten
+ */
+
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { prisma } from '@/config/database';
+import { env } from '@/config/env';
+import { CacheService } from '@/core/cache/service';
+import { JwtUtils } from '@/utils/jwt';
+import { ThemeExtensionsService } from '@/core/admin/plugin-management/theme-extensions-service';
+import { getActiveTheme, getThemePackDir, replaceThemeConfig, type ThemeTarget } from './service';
+import type {
+  ThemeBlockInstance,
+  ThemeEditorPage,
+  ThemeEditorState,
+  ThemeEditorTemplateSource,
+  ThemePageTemplate,
+  ThemePreviewToken,
+  ThemePublicationSummary,
+} from './types';
+
+const PAGE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const BLOCK_TYPE_PATTERN = /^(?:[a-z0-9_]{1,64}|app_block:[a-z0-9-]{1,64}:[A-Za-z0-9_-]{1,128})$/;
+const MAX_BLOCKS_PER_PAGE = 100;
+const MAX_SETTINGS_BYTES = 64 * 1024;
+const PREVIEW_TOKEN_TTL_SECONDS = 60 * 60;
+const PREVIEW_TOKEN_TYPE = 'theme-preview';
+
+type TemplateMap = Record<string, ThemePageTemplate>;
+
+interface ThemePackContext {
+  slug: string;
+  name: string;
+  version: string;
+  dir: string;
+  templatesDir: string;
+  settingsSchemaPath: string | null;
+  config: Record<string, unknown>;
+}
+
+interface PreviewTokenPayload {
+  type: typeof PREVIEW_TOKEN_TYPE;
+  target: ThemeTarget;
+  themeSlug: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function templatesCacheKey(target: ThemeTarget, slug: string): string {
+  return `themes:templates:${target}:${slug}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asTemplateMap(value: unknown): TemplateMap {
+  return isPlainObject(value) ? (value as TemplateMap) : {};
+}
+
+function assertPageName(page: string): void {
+  if (!PAGE_NAME_PATTERN.test(page)) {
+    throw new Error(`Invalid page name "${page}"`);
+  }
+}
+
+async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the active Theme Pack of a target. Builtin themes and Theme Apps have
+ * no pack files to edit.
+ */
+async function getThemePackContext(target: ThemeTarget): Promise<ThemePackContext> {
+  const active = await getActiveTheme(target);
+  if (active.type === 'app') {
+    throw new Error('Theme editor is only available for Theme Packs');
+  }
+
+  const dir = getThemePackDir(target, active.slug);
+  const manifest = await readJsonFile<{
+    name?: string;
+    version?: string;
+    entry?: { templatesDir?: string; settingsSchema?: string };
+  }>(path.join(dir, 'theme.json'));
+  if (!manifest) {
+    throw new Error(`Theme Pack "${active.slug}" not found`);
+  }
+
+  return {
+    slug: active.slug,
+    name: manifest.name || active.slug,
+    version: manifest.version || active.version,
+    dir,
+    templatesDir: path.join(dir, manifest.entry?.templatesDir || 'templates'),
+    settingsSchemaPath: manifest.entry?.settingsSchema ? path.join(dir, manifest.entry.settingsSchema) : null,
+    config: isPlainObject(active.config) ? active.config : {},
+  };
+}
+
+async function readPackTemplates(ctx: ThemePackContext): Promise<TemplateMap> {
+  const templates: TemplateMap = {};
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(ctx.templatesDir);
+  } catch {
+    return templates;
+  }
+
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    const page = file.slice(0, -'.json'.length);
+    if (!PAGE_NAME_PATTERN.test(page)) continue;
+    const template = await readJsonFile<ThemePageTemplate>(path.join(ctx.templatesDir, file));
+    if (template && Array.isArray(template.blocks)) {
+      templates[page] = { schemaVersion: 1, page, blocks: template.blocks };
+    }
+  }
+  return templates;
+}
+
+async function getLivePublication(target: ThemeTarget, slug: string) {
+  return prisma.themePublication.findFirst({
+    where: { target, themeSlug: slug },
+    orderBy: { version: 'desc' },
+  });
+}
+
+async function getDraft(target: ThemeTarget, slug: string) {
+  return prisma.themeDraft.findUnique({
+    where: { target_themeSlug: { target, themeSlug: slug } },
+  });
+}
+
+/**
+ * Validate and normalize the blocks of a page. Block ids are kept stable across
+ * reorders; blocks without one get a generated id.
+ */
+async function normalizeTemplate(page: string, blocks: unknown): Promise<ThemePageTemplate> {
+  assertPageName(page);
+  if (!Array.isArray(blocks)) {
+    throw new Error('Invalid blocks: expected an array');
+  }
+  if (blocks.length > MAX_BLOCKS_PER_PAGE) {
+    throw new Error(`Invalid blocks: a page can have at most ${MAX_BLOCKS_PER_PAGE} blocks`);
+  }
+
+  const seenIds = new Set<string>();
+  const normalized: ThemeBlockInstance[] = blocks.map((block, index) => {
+    if (!isPlainObject(block) || typeof block.type !== 'string' || !BLOCK_TYPE_PATTERN.test(block.type)) {
+      throw new Error(`Invalid block at position ${index + 1}: unknown block type`);
+    }
+    const settings = block.settings === undefined ? {} : block.settings;
+    if (!isPlainObject(settings)) {
+      throw new Error(`Invalid block at position ${index + 1}: settings must be an object`);
+    }
+    if (Buffer.byteLength(JSON.stringify(settings)) > MAX_SETTINGS_BYTES) {
+      throw new Error(`Invalid block at position ${index + 1}: settings exceed ${MAX_SETTINGS_BYTES} bytes`);
+    }
+
+    let id = typeof block.id === 'string' && block.id.trim() ? block.id.trim() : '';
+    if (!id || seenIds.has(id)) {
+      id = `${block.type.replace(/[^a-z0-9_-]/gi, '-')}-${randomUUID().slice(0, 8)}`;
+    }
+    seenIds.add(id);
+
+    return { type: block.type, id, settings };
+  });
+
+  // App blocks must come from an enabled plugin installation
+  const appBlockTypes = normalized.filter((block) => block.type.startsWith('app_block:'));
+  if (appBlockTypes.length > 0) {
+    const available = new Set(
+      (await ThemeExtensionsService.getActiveBlocks())
+        .filter((block) => block.installation.enabled)
+        .map((block) => `app_block:${block.installation.pluginSlug}:${block.extensionId}`),
+    );
+    for (const block of appBlockTypes) {
+      if (!available.has(block.type)) {
+        throw new Error(`Invalid block: app block "${block.type}" is not available`);
+      }
+    }
+  }
+
+  return { schemaVersion: 1, page, blocks: normalized };
+}
+
+async function invalidateTemplates(target: ThemeTarget, slug: string): Promise<void> {
+  await CacheService.delete(templatesCacheKey(target, slug));
+}
+
+function toPublicationSummary(
+  record: { version: number; note: string | null; revertedFrom: number | null; publishedBy: string | null; templates: unknown; createdAt: Date },
+  liveVersion: number | null,
+): ThemePublicationSummary {
+  return {
+    version: record.version,
+    note: record.note,
+    revertedFrom: record.revertedFrom,
+    publishedBy: record.publishedBy,
+    pages: Object.keys(asTemplateMap(record.templates)).sort(),
+    isLive: record.version === liveVersion,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// Editor (admin)
+// ============================================================================
+
+/**
+ * Pages, settings schema and draft status of the active Theme Pack
+ */
+export async function getEditorState(target: ThemeTarget): Promise<ThemeEditorState> {
+  const ctx = await getThemePackContext(target);
+  const [packTemplates, live, draft, settingsSchema] = await Promise.all([
+    readPackTemplates(ctx),
+    getLivePublication(target, ctx.slug),
+    getDraft(target, ctx.slug),
+    ctx.settingsSchemaPath ? readJsonFile<Record<string, unknown>>(ctx.settingsSchemaPath) : Promise.resolve(null),
+  ]);
+
+  const liveTemplates = asTemplateMap(live?.templates);
+  const draftTemplates = asTemplateMap(draft?.templates);
+  const pageNames = new Set([...Object.keys(packTemplates), ...Object.keys(liveTemplates), ...Object.keys(draftTemplates)]);
+
+  const pages: ThemeEditorPage[] = [...pageNames].sort().map((page) => {
+    const source: ThemeEditorTemplateSource = draftTemplates[page] ? 'draft' : liveTemplates[page] ? 'published' : 'theme';
+    const template = draftTemplates[page] || liveTemplates[page] || packTemplates[page];
+    return { page, source, blockCount: template.blocks.length };
+  });
+
+  const draftConfig = isPlainObject(draft?.config) ? draft.config : null;
+
+  return {
+    theme: { slug: ctx.slug, name: ctx.name, version: ctx.version },
+    pages,
+    settingsSchema,
+    config: draftConfig || ctx.config,
+    draft: draft
+      ? {
+          updatedAt: draft.updatedAt.toISOString(),
+          updatedBy: draft.updatedBy,
+          baseVersion: draft.baseVersion,
+          hasConfigChanges: draftConfig !== null,
+        }
+      : null,
+    liveVersion: live?.version ?? null,
+  };
+}
+
+/**
+ * Template of a page as the editor sees it: draft, then published, then pack file
+ */
+export async function getEditorPage(
+  target: ThemeTarget,
+  page: string,
+): Promise<{ template: ThemePageTemplate; source: ThemeEditorTemplateSource }> {
+  assertPageName(page);
+  const ctx = await getThemePackContext(target);
+  const [draft, live] = await Promise.all([getDraft(target, ctx.slug), getLivePublication(target, ctx.slug)]);
+
+  const draftTemplate = asTemplateMap(draft?.templates)[page];
+  if (draftTemplate) return { template: draftTemplate, source: 'draft' };
+
+  const liveTemplate = asTemplateMap(live?.templates)[page];
+  if (liveTemplate) return { template: liveTemplate, source: 'published' };
+
+  const packTemplate = (await readPackTemplates(ctx))[page];
+  if (packTemplate) return { template: packTemplate, source: 'theme' };
+
+  // New page: start empty
+  return { template: { schemaVersion: 1, page, blocks: [] }, source: 'theme' };
+}
+
+async function upsertDraft(
+  target: ThemeTarget,
+  slug: string,
+  userId: string | null,
+  data: { templates?: TemplateMap; config?: Record<string, unknown> },
+) {
+  const existing = await getDraft(target, slug);
+  if (existing) {
+    return prisma.themeDraft.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.templates ? { templates: data.templates as any } : {}),
+        ...(data.config ? { config: data.config as any } : {}),
+        updatedBy: userId,
+      },
+    });
+  }
+
+  const live = await getLivePublication(target, slug);
+  return prisma.themeDraft.create({
+    data: {
+      target,
+      themeSlug: slug,
+      templates: (data.templates || {}) as any,
+      config: (data.config as any) ?? undefined,
+      baseVersion: live?.version ?? null,
+      updatedBy: userId,
+    },
+  });
+}
+
+/**
+ * Save the blocks of a page into the draft
+ */
+export async function saveDraftPage(
+  target: ThemeTarget,
+  page: string,
+  blocks: unknown,
+  userId: string | null,
+): Promise<ThemePageTemplate> {
+  const ctx = await getThemePackContext(target);
+  const template = await normalizeTemplate(page, blocks);
+  const draft = await getDraft(target, ctx.slug);
+
+  await upsertDraft(target, ctx.slug, userId, {
+    templates: { ...asTemplateMap(draft?.templates), [page]: template },
+  });
+  return template;
+}
+
+/**
+ * Save theme settings into the draft (replaces the whole config on publish)
+ */
+export async function saveDraftConfig(
+  target: ThemeTarget,
+  config: unknown,
+  userId: string | null,
+): Promise<Record<string, unknown>> {
+  if (!isPlainObject(config)) {
+    throw new Error('Invalid config: expected an object');
+  }
+  const ctx = await getThemePackContext(target);
+  await upsertDraft(target, ctx.slug, userId, { config });
+  return config;
+}
+
+/**
+ * Drop all unpublished changes
+ */
+export async function discardDraft(target: ThemeTarget): Promise<boolean> {
+  const ctx = await getThemePackContext(target);
+  const { count } = await prisma.themeDraft.deleteMany({ where: { target, themeSlug: ctx.slug } });
+  return count > 0;
+}
+
+/**
+ * Signed token that lets the storefront render the current draft
+ */
+export async function createPreviewToken(target: ThemeTarget): Promise<ThemePreviewToken> {
+  const ctx = await getThemePackContext(target);
+  const draft = await getDraft(target, ctx.slug);
+  if (!draft) {
+    throw new Error('No draft to preview');
+  }
+
+  const payload: PreviewTokenPayload = { type: PREVIEW_TOKEN_TYPE, target, themeSlug: ctx.slug };
+  const token = JwtUtils.sign(payload, PREVIEW_TOKEN_TTL_SECONDS);
+  return {
+    token,
+    expiresAt: new Date(Date.now() + PREVIEW_TOKEN_TTL_SECONDS * 1000).toISOString(),
+    previewUrl: target === 'shop'
+      ? `${env.NEXT_PUBLIC_SHOP_URL.replace(/\/+$/, '')}/?themePreview=${encodeURIComponent(token)}`
+      : null,
+  };
+}
+
+async function createPublication(
+  target: ThemeTarget,
+  slug: string,
+  data: { templates: TemplateMap; config: Record<string, unknown>; note: string | null; revertedFrom: number | null; userId: string | null },
+) {
+  const publication = await prisma.$transaction(async (tx) => {
+    const latest = await tx.themePublication.findFirst({
+      where: { target, themeSlug: slug },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    const created = await tx.themePublication.create({
+      data: {
+        target,
+        themeSlug: slug,
+        version: (latest?.version ?? 0) + 1,
+        templates: data.templates as any,
+        config: data.config as any,
+        note: data.note,
+        revertedFrom: data.revertedFrom,
+        publishedBy: data.userId,
+      },
+    });
+    await tx.themeDraft.deleteMany({ where: { target, themeSlug: slug } });
+    return created;
+  });
+
+  await replaceThemeConfig(data.config, target);
+  await invalidateTemplates(target, slug);
+  return publication;
+}
+
+/**
+ * Publish the draft as the next live version
+ */
+export async function publishDraft(
+  target: ThemeTarget,
+  userId: string | null,
+  note?: string,
+): Promise<ThemePublicationSummary> {
+  const ctx = await getThemePackContext(target);
+  const [draft, live] = await Promise.all([getDraft(target, ctx.slug), getLivePublication(target, ctx.slug)]);
+  if (!draft) {
+    throw new Error('No draft to publish');
+  }
+
+  const draftConfig = isPlainObject(draft.config) ? draft.config : null;
+  const publication = await createPublication(target, ctx.slug, {
+    templates: { ...asTemplateMap(live?.templates), ...asTemplateMap(draft.templates) },
+    config: draftConfig || ctx.config,
+    note: note?.trim() || null,
+    revertedFrom: null,
+    userId,
+  });
+  return toPublicationSummary(publication, publication.version);
+}
+
+/**
+ * Version history, newest first
+ */
+export async function listPublications(target: ThemeTarget): Promise<ThemePublicationSummary[]> {
+  const ctx = await getThemePackContext(target);
+  const publications = await prisma.themePublication.findMany({
+    where: { target, themeSlug: ctx.slug },
+    orderBy: { version: 'desc' },
+  });
+  const liveVersion = publications[0]?.version ?? null;
+  return publications.map((publication) => toPublicationSummary(publication, liveVersion));
+}
+
+/**
+ * Make an older version live again (published as a new version)
+ */
+export async function revertToPublication(
+  target: ThemeTarget,
+  version: number,
+  userId: string | null,
+): Promise<ThemePublicationSummary> {
+  const ctx = await getThemePackContext(target);
+  const source = await prisma.themePublication.findUnique({
+    where: { target_themeSlug_version: { target, themeSlug: ctx.slug, version } },
+  });
+  if (!source) {
+    throw new Error(`Theme version ${version} not found`);
+  }
+
+  const publication = await createPublication(target, ctx.slug, {
+    templates: asTemplateMap(source.templates),
+    config: isPlainObject(source.config) ? source.config : {},
+    note: source.note,
+    revertedFrom: version,
+    userId,
+  });
+  return toPublicationSummary(publication, publication.version);
+}
+
+// ============================================================================
+// Storefront (public)
+// ============================================================================
+
+/**
+ * Verify a preview token; returns null when it is invalid, expired or was
+ * issued for a theme that is no longer active.
+ */
+export async function resolvePreviewToken(
+  token: string,
+): Promise<{ target: ThemeTarget; themeSlug: string; templates: TemplateMap; config: Record<string, unknown> | null } | null> {
+  let payload: PreviewTokenPayload;
+  try {
+    payload = JwtUtils.verify(token) as unknown as PreviewTokenPayload;
+  } catch {
+    return null;
+  }
+  if (payload?.type !== PREVIEW_TOKEN_TYPE || (payload.target !== 'shop' && payload.target !== 'admin')) {
+    return null;
+  }
+
+  const active = await getActiveTheme(payload.target);
+  if (active.slug !== payload.themeSlug) {
+    return null;
+  }
+
+  const [draft, live] = await Promise.all([
+    getDraft(payload.target, payload.themeSlug),
+    getLivePublication(payload.target, payload.themeSlug),
+  ]);
+  return {
+    target: payload.target,
+    themeSlug: payload.themeSlug,
+    templates: { ...asTemplateMap(live?.templates), ...asTemplateMap(draft?.templates) },
+    config: isPlainObject(draft?.config) ? draft.config : null,
+  };
+}
+
+/**
+ * Published template override for a page of the active theme. Null means the
+ * storefront should use the template file shipped in the Theme Pack.
+ */
+export async function getPublishedTemplate(target: ThemeTarget, page: string): Promise<ThemePageTemplate | null> {
+  if (!PAGE_NAME_PATTERN.test(page)) {
+    return null;
+  }
+  const active = await getActiveTheme(target);
+  if (active.type === 'app') {
+    return null;
+  }
+
+  const cacheKey = templatesCacheKey(target, active.slug);
+  let templates = await CacheService.get<TemplateMap>(cacheKey);
+  if (!templates) {
+    const live = await getLivePublication(target, active.slug);
+    templates = asTemplateMap(live?.templates);
+    await CacheService.set(cacheKey, templates, { ttl: 60 });
+  }
+  return templates[page] || null;
+}
+
+export const ThemeEditorService = {
+  getEditorState,
+  getEditorPage,
+  saveDraftPage,
+  saveDraftConfig,
+  discardDraft,
+  createPreviewToken,
+  publishDraft,
+  listPublications,
+  revertToPublication,
+  resolvePreviewToken,
+  getPublishedTemplate,
+};
@@ -8,7 +8,18 @@ import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
 import { ThemeManagementService, type ThemeTarget } from './service';
 import type { ActivateThemeInput, ThemeConfig } from './types';
 import { sendSuccess, sendError } from '@/utils/response';
+import { mapThemeEditorRouteError } from '@/utils/route-error-mapper';
 import { adminThemeSchemas, publicThemeSchemas } from './schemas';
+import { ThemeEditorService } from './editor-service';
+
+function sendThemeEditorError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapThemeEditorRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
 
 /**
  * Create theme routes for a specific target (shop or admin)
@@ -122,6 +133,201 @@ function createTargetThemeRoutes(fastify: FastifyInstance, target: ThemeTarget)
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
     }
   });
+
+  createThemeEditorRoutes(fastify, target);
+}
+
+/**
+ * Theme editor routes for a target: draft editing, preview tokens, publish and
+ * version history (see editor-service.ts)
+ */
+function createThemeEditorRoutes(fastify: FastifyInstance, target: ThemeTarget) {
+  /**
+   * GET /api/admin/themes/{target}/editor
+   * Pages, settings schema and draft status of the active Theme Pack
+   */
+  fastify.get('/editor', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Get ${target} theme editor state`,
+      description: 'Pages of the active Theme Pack with their template source, settings schema and draft status',
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.getEditor,
+    },
+  }, async (_request, reply) => {
+    try {
+      return sendSuccess(reply, await ThemeEditorService.getEditorState(target));
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to load theme editor');
+    }
+  });
+
+  /**
+   * GET /api/admin/themes/{target}/editor/pages/:page
+   * Page template as the editor sees it (draft, then published, then theme file)
+   */
+  fastify.get<{ Params: { page: string } }>('/editor/pages/:page', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Get ${target} theme page template`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.getEditorPage,
+    },
+  }, async (request, reply) => {
+    try {
+      return sendSuccess(reply, await ThemeEditorService.getEditorPage(target, request.params.page));
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to load page template');
+    }
+  });
+
+  /**
+   * PUT /api/admin/themes/{target}/editor/pages/:page
+   * Save the blocks of a page into the draft
+   */
+  fastify.put<{ Params: { page: string }; Body: { blocks: unknown[] } }>('/editor/pages/:page', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Save ${target} theme page draft`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.saveDraftPage,
+    },
+  }, async (request, reply) => {
+    try {
+      const template = await ThemeEditorService.saveDraftPage(
+        target,
+        request.params.page,
+        request.body.blocks,
+        request.user?.id ?? null,
+      );
+      return sendSuccess(reply, template, 'Draft saved');
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to save page draft');
+    }
+  });
+
+  /**
+   * PUT /api/admin/themes/{target}/editor/config
+   * Save theme settings into the draft
+   */
+  fastify.put<{ Body: Record<string, unknown> }>('/editor/config', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Save ${target} theme settings draft`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.saveDraftConfig,
+    },
+  }, async (request, reply) => {
+    try {
+      const config = await ThemeEditorService.saveDraftConfig(target, request.body, request.user?.id ?? null);
+      return sendSuccess(reply, config, 'Draft saved');
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to save settings draft');
+    }
+  });
+
+  /**
+   * DELETE /api/admin/themes/{target}/editor/draft
+   * Discard unpublished changes
+   */
+  fastify.delete('/editor/draft', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Discard ${target} theme draft`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.discardDraft,
+    },
+  }, async (_request, reply) => {
+    try {
+      const discarded = await ThemeEditorService.discardDraft(target);
+      return sendSuccess(reply, { discarded });
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to discard draft');
+    }
+  });
+
+  /**
+   * POST /api/admin/themes/{target}/editor/preview-token
+   * Signed token for previewing the draft in the storefront
+   */
+  fastify.post('/editor/preview-token', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Create ${target} theme preview token`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.createPreviewToken,
+    },
+  }, async (_request, reply) => {
+    try {
+      const token = await ThemeEditorService.createPreviewToken(target);
+      return sendSuccess(reply, token, undefined, 201);
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to create preview token');
+    }
+  });
+
+  /**
+   * POST /api/admin/themes/{target}/editor/publish
+   * Publish the draft as the next live version
+   */
+  fastify.post<{ Body: { note?: string } }>('/editor/publish', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Publish ${target} theme draft`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.publish,
+    },
+  }, async (request, reply) => {
+    try {
+      const publication = await ThemeEditorService.publishDraft(target, request.user?.id ?? null, request.body?.note);
+      return sendSuccess(reply, publication, 'Theme published', 201);
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to publish theme');
+    }
+  });
+
+  /**
+   * GET /api/admin/themes/{target}/editor/publications
+   * Version history, newest first
+   */
+  fastify.get('/editor/publications', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `List ${target} theme versions`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.listPublications,
+    },
+  }, async (_request, reply) => {
+    try {
+      return sendSuccess(reply, await ThemeEditorService.listPublications(target));
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to load theme versions');
+    }
+  });
+
+  /**
+   * POST /api/admin/themes/{target}/editor/publications/:version/revert
+   * Make an older version live again
+   */
+  fastify.post<{ Params: { version: number } }>('/editor/publications/:version/revert', {
+    schema: {
+      tags: ['admin-themes'],
+      summary: `Revert ${target} theme to a version`,
+      security: [{ bearerAuth: [] }],
+      ...adminThemeSchemas.revert,
+    },
+  }, async (request, reply) => {
+    try {
+      const publication = await ThemeEditorService.revertToPublication(
+        target,
+        request.params.version,
+        request.user?.id ?? null,
+      );
+      return sendSuccess(reply, publication, 'Theme reverted', 201);
+    } catch (error) {
+      return sendThemeEditorError(reply, error, 'Failed to revert theme');
+    }
+  });
 }
 
 export async function adminThemeRoutes(fastify: FastifyInstance) {
@@ -182,23 +388,63 @@ export async function publicThemeRoutes(fastify: FastifyInstance) {
    * Get active theme (Public API)
    * Returns type ('pack'|'app'), and baseUrl/port when type=app
    */
-  fastify.get<{ Querystring: { target?: 'shop' | 'admin' } }>('/active', {
+  fastify.get<{ Querystring: { target?: 'shop' | 'admin'; previewToken?: string } }>('/active', {
     schema: {
       tags: ['themes'],
       summary: 'Get active theme',
-      description: 'Get the currently active theme for shop or admin',
+      description: 'Get the currently active theme for shop or admin. A valid theme editor previewToken overlays the draft config.',
       ...publicThemeSchemas.getActive,
     },
-  }, async (request: FastifyRequest<{ Querystring: { target?: 'shop' | 'admin' } }>, reply: FastifyReply) => {
+  }, async (request: FastifyRequest<{ Querystring: { target?: 'shop' | 'admin'; previewToken?: string } }>, reply: FastifyReply) => {
     try {
       const target = request.query.target || 'shop';
       const activeTheme = await ThemeManagementService.getActiveTheme(target);
+      if (request.query.previewToken) {
+        const preview = await ThemeEditorService.resolvePreviewToken(request.query.previewToken);
+        if (preview && preview.target === target) {
+          reply.header('Cache-Control', 'no-store');
+          return sendSuccess(reply, { ...activeTheme, config: preview.config ?? activeTheme.config, preview: true });
+        }
+      }
       return sendSuccess(reply, activeTheme);
     } catch (error: any) {
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
     }
   });
 
+  /**
+   * GET /api/themes/templates/:page?target=shop|admin
+   * Published editor template for a page of the active theme (Public API).
+   * template=null means the storefront uses the Theme Pack's own template file.
+   */
+  fastify.get<{ Params: { page: string }; Querystring: { target?: 'shop' | 'admin'; previewToken?: string } }>('/templates/:page', {
+    schema: {
+      tags: ['themes'],
+      summary: 'Get page template override',
+      description: 'Published theme editor template for a page; with a valid previewToken the draft template is returned',
+      ...publicThemeSchemas.getTemplate,
+    },
+  }, async (request, reply) => {
+    try {
+      const target = request.query.target || 'shop';
+      const { page } = request.params;
+
+      if (request.query.previewToken) {
+        const preview = await ThemeEditorService.resolvePreviewToken(request.query.previewToken);
+        if (preview && preview.target === target) {
+          reply.header('Cache-Control', 'no-store');
+          const template = preview.templates[page] || null;
+          return sendSuccess(reply, { page, template, source: template ? 'draft' : null });
+        }
+      }
+
+      const template = await ThemeEditorService.getPublishedTemplate(target, page);
+      return sendSuccess(reply, { page, template, source: template ? 'published' : null });
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
   /**
    * GET /api/themes/installed
    * Get installed themes list (Public API, shop only)
@@ -3,9 +3,12 @@
  */
 
 import {
+  createTypedCreateResponses,
+  createTypedDeleteResponses,
   createTypedReadResponses,
   createTypedUpdateResponses,
   createPageResultSchema,
+  errorResponseSchema,
 } from '@/types/common-dto';
 
 // ============================================================================
@@ -55,6 +58,95 @@ const activeThemeSchema = {
     baseUrl: { type: 'string', nullable: true, description: 'Base URL for theme-app' },
     port: { type: 'number', nullable: true, description: 'Port for theme-app' },
     config: { type: 'object', additionalProperties: true, description: 'Theme config' },
+    preview: { type: 'boolean', description: 'True when config comes from an editor draft (preview token)' },
+  },
+} as const;
+
+// ============================================================================
+// Theme Editor Schemas
+// ============================================================================
+
+const blockInstanceSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { type: 'string', description: 'Block type from the block registry, or app_block:{pluginSlug}:{extensionId}' },
+    id: { type: 'string', description: 'Stable block instance ID (generated when missing)' },
+    settings: { type: 'object', additionalProperties: true, description: 'Block settings' },
+  },
+} as const;
+
+const pageTemplateSchema = {
+  type: 'object',
+  properties: {
+    schemaVersion: { type: 'integer', enum: [1] },
+    page: { type: 'string' },
+    blocks: { type: 'array', items: blockInstanceSchema },
+  },
+} as const;
+
+const templateSourceSchema = {
+  type: 'string',
+  enum: ['draft', 'published', 'theme'],
+  description: 'Where the template comes from: unpublished draft, live publication or the Theme Pack file',
+} as const;
+
+const editorStateSchema = {
+  type: 'object',
+  properties: {
+    theme: {
+      type: 'object',
+      properties: {
+        slug: { type: 'string' },
+        name: { type: 'string' },
+        version: { type: 'string' },
+      },
+    },
+    pages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          page: { type: 'string' },
+          source: templateSourceSchema,
+          blockCount: { type: 'integer' },
+        },
+      },
+    },
+    settingsSchema: { type: 'object', nullable: true, additionalProperties: true, description: 'Theme Pack settings schema' },
+    config: { type: 'object', additionalProperties: true, description: 'Draft config, or the live config without a draft' },
+    draft: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        updatedAt: { type: 'string', format: 'date-time' },
+        updatedBy: { type: 'string', nullable: true },
+        baseVersion: { type: 'integer', nullable: true },
+        hasConfigChanges: { type: 'boolean' },
+      },
+    },
+    liveVersion: { type: 'integer', nullable: true, description: 'Live publication version (null until first publish)' },
+  },
+} as const;
+
+const publicationSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer' },
+    note: { type: 'string', nullable: true },
+    revertedFrom: { type: 'integer', nullable: true, description: 'Version restored by this publication' },
+    publishedBy: { type: 'string', nullable: true },
+    pages: { type: 'array', items: { type: 'string' } },
+    isLive: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+const pageParamsSchema = {
+  type: 'object',
+  required: ['page'],
+  properties: {
+    page: { type: 'string', description: 'Page identifier (e.g. home, product)' },
   },
 } as const;
 
@@ -113,6 +205,107 @@ export const adminThemeSchemas = {
     },
     response: createTypedUpdateResponses(activeThemeSchema),
   },
+
+  // GET /api/admin/themes/{target}/editor
+  getEditor: {
+    response: { ...createTypedReadResponses(editorStateSchema), 409: errorResponseSchema },
+  },
+
+  // GET /api/admin/themes/{target}/editor/pages/:page
+  getEditorPage: {
+    params: pageParamsSchema,
+    response: {
+      ...createTypedReadResponses({
+        type: 'object',
+        properties: {
+          template: pageTemplateSchema,
+          source: templateSourceSchema,
+        },
+      }),
+      400: errorResponseSchema,
+      409: errorResponseSchema,
+    },
+  },
+
+  // PUT /api/admin/themes/{target}/editor/pages/:page
+  saveDraftPage: {
+    params: pageParamsSchema,
+    body: {
+      type: 'object',
+      required: ['blocks'],
+      properties: {
+        blocks: { type: 'array', items: blockInstanceSchema },
+      },
+    },
+    response: { ...createTypedUpdateResponses(pageTemplateSchema), 409: errorResponseSchema },
+  },
+
+  // PUT /api/admin/themes/{target}/editor/config
+  saveDraftConfig: {
+    body: {
+      type: 'object',
+      additionalProperties: true,
+      description: 'Complete theme config for the draft (replaces the live config on publish)',
+    },
+    response: {
+      ...createTypedUpdateResponses({ type: 'object', additionalProperties: true }),
+      409: errorResponseSchema,
+    },
+  },
+
+  // DELETE /api/admin/themes/{target}/editor/draft
+  discardDraft: {
+    response: {
+      ...createTypedDeleteResponses({
+        type: 'object',
+        properties: { discarded: { type: 'boolean' } },
+      }),
+      409: errorResponseSchema,
+    },
+  },
+
+  // POST /api/admin/themes/{target}/editor/preview-token
+  createPreviewToken: {
+    response: {
+      ...createTypedCreateResponses({
+        type: 'object',
+        properties: {
+          token: { type: 'string', description: 'Signed token; pass as ?themePreview= to the storefront' },
+          expiresAt: { type: 'string', format: 'date-time' },
+          previewUrl: { type: 'string', nullable: true, description: 'Storefront link that starts the preview' },
+        },
+      }),
+      404: errorResponseSchema,
+    },
+  },
+
+  // POST /api/admin/themes/{target}/editor/publish
+  publish: {
+    body: {
+      type: 'object',
+      properties: {
+        note: { type: 'string', maxLength: 500, description: 'Optional change note for the version history' },
+      },
+    },
+    response: { ...createTypedCreateResponses(publicationSchema), 404: errorResponseSchema },
+  },
+
+  // GET /api/admin/themes/{target}/editor/publications
+  listPublications: {
+    response: { ...createTypedReadResponses({ type: 'array', items: publicationSchema }), 409: errorResponseSchema },
+  },
+
+  // POST /api/admin/themes/{target}/editor/publications/:version/revert
+  revert: {
+    params: {
+      type: 'object',
+      required: ['version'],
+      properties: {
+        version: { type: 'integer', minimum: 1, description: 'Publication version to restore' },
+      },
+    },
+    response: { ...createTypedCreateResponses(publicationSchema), 404: errorResponseSchema },
+  },
 } as const;
 
 // Public theme schemas
@@ -123,11 +316,32 @@ export const publicThemeSchemas = {
       type: 'object',
       properties: {
         target: { type: 'string', enum: ['shop', 'admin'], default: 'shop', description: 'Theme target' },
+        previewToken: { type: 'string', description: 'Theme editor preview token; overlays the draft config' },
       },
     },
     response: createTypedReadResponses(activeThemeSchema),
   },
 
+  // GET /api/themes/templates/:page
+  getTemplate: {
+    params: pageParamsSchema,
+    querystring: {
+      type: 'object',
+      properties: {
+        target: { type: 'string', enum: ['shop', 'admin'], default: 'shop', description: 'Theme target' },
+        previewToken: { type: 'string', description: 'Theme editor preview token; returns the draft template' },
+      },
+    },
+    response: createTypedReadResponses({
+      type: 'object',
+      properties: {
+        page: { type: 'string' },
+        template: { ...pageTemplateSchema, nullable: true },
+        source: { type: 'string', enum: ['draft', 'published'], nullable: true },
+      },
+    }),
+  },
+
   // GET /api/themes/installed
   getInstalled: {
     querystring: {
@@ -8,6 +8,7 @@ import path from 'path';
 import { promises as fs } from 'fs';
 import { systemSettingsService } from '@/core/admin/system-settings/service';
 import { CacheService } from '@/core/cache/service';
+import { OutboxService } from '@/infra/outbox';
 import type { ActiveTheme, ThemeMeta, ThemeConfig, InstalledThemesResponse } from './types';
 import * as ThemeAppRuntime from '../theme-app-runtime/manager';
 import { THEME_APP_MANIFEST_FILE } from '../theme-app-runtime/contract';
@@ -32,6 +33,11 @@ function getExtensionsDir(target: ThemeTarget): string {
   return path.join(basePath, 'themes', target);
 }
 
+// Get an installed Theme Pack directory (extensions/themes/{target}/{slug})
+export function getThemePackDir(target: ThemeTarget, slug: string): string {
+  return path.join(getExtensionsDir(target), slug);
+}
+
 // Get Theme App storage directory based on target
 function getThemeAppExtensionsDir(target: ThemeTarget): string {
   const extensionsRoot = process.env.EXTENSIONS_PATH || 'extensions';
@@ -513,6 +519,15 @@ export async function activateTheme(slug: string, target: ThemeTarget = 'shop',
   await systemSettingsService.setSetting(keys.active, newActiveTheme);
   await invalidateThemeCache(target);
 
+  await OutboxService.emitBestEffort('theme.activated', newActiveTheme.slug, {
+    slug: newActiveTheme.slug,
+    target,
+    version: newActiveTheme.version,
+    type: themeType,
+    source: newActiveTheme.source,
+    previousSlug: currentTheme.slug !== normalizedSlug ? currentTheme.slug : null,
+  });
+
   return newActiveTheme;
 }
 
@@ -556,6 +571,23 @@ export async function updateThemeConfig(config: ThemeConfig, target: ThemeTarget
   return updated;
 }
 
+/**
+ * Replace theme config (theme editor publish/revert: removed keys must not survive a merge)
+ */
+export async function replaceThemeConfig(config: ThemeConfig, target: ThemeTarget = 'shop'): Promise<ActiveTheme> {
+  const keys = getSettingKeys(target);
+  const current = await getActiveTheme(target);
+  const updated: ActiveTheme = {
+    ...current,
+    config: { ...config },
+  };
+
+  await systemSettingsService.setSetting(keys.active, updated);
+  await invalidateThemeCache(target);
+
+  return updated;
+}
+
 /**
  * Get installed themes list (includes both Theme Pack and Theme App)
  */
@@ -854,6 +886,7 @@ export const ThemeManagementService = {
   activateTheme,
   rollbackTheme,
   updateThemeConfig,
+  replaceThemeConfig,
   getInstalledThemes,
   getInstalledThemesPaged,
   restoreActiveThemeApps,
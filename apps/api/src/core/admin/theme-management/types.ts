@@ -46,3 +46,54 @@ export interface InstalledThemesResponse {
   items: ThemeMeta[];
   total: number;
 }
+
+// ============================================================================
+// Theme Editor
+// ============================================================================
+
+export interface ThemeBlockInstance {
+  type: string;
+  id: string;
+  settings: Record<string, unknown>;
+}
+
+export interface ThemePageTemplate {
+  schemaVersion: 1;
+  page: string;
+  blocks: ThemeBlockInstance[];
+}
+
+export type ThemeEditorTemplateSource = 'draft' | 'published' | 'theme';
+
+export interface ThemeEditorPage {
+  page: string;
+  source: ThemeEditorTemplateSource;
+  blockCount: number;
+}
+
+export interface ThemeEditorState {
+  theme: { slug: string; name: string; version: string };
+  pages: ThemeEditorPage[];
+  settingsSchema: Record<string, unknown> | null;
+  /** Draft config when the draft changes it, otherwise the live config */
+  config: Record<string, unknown>;
+  draft: { updatedAt: string; updatedBy: string | null; baseVersion: number | null; hasConfigChanges: boolean } | null;
+  liveVersion: number | null;
+}
+
+export interface ThemePublicationSummary {
+  version: number;
+  note: string | null;
+  revertedFrom: number | null;
+  publishedBy: string | null;
+  pages: string[];
+  isLive: boolean;
+  createdAt: string;
+}
+
+export interface ThemePreviewToken {
+  token: string;
+  expiresAt: string;
+  /** Storefront link that starts the preview (shop target only) */
+  previewUrl: string | null;
+}
@@ -142,7 +142,7 @@ export class AdminUserService {
 
     // Calculate order statistics
     const totalOrders = user.orders.length;
-    const completedOrders = user.orders.filter(o => o.paymentStatus === 'PAID');
+    const completedOrders = user.orders.filter(o => o.paymentStatus === 'PAID' || o.paymentStatus === 'PARTIALLY_REFUNDED');
     const totalSpent = completedOrders.reduce((sum, order) => sum + Number(order.totalAmount), 0);
 
     return {
@@ -296,7 +296,8 @@ export class AdminUserService {
     const hashedPassword = await PasswordUtils.hash(newPassword);
     await prisma.user.update({
       where: { id: userId },
-      data: { password: hashedPassword }
+      // Bumping tokenVersion signs the user out of existing sessions
+      data: { password: hashedPassword, tokenVersion: { increment: 1 } }
     });
 
     // Invalidate specific user cache (password change doesn't affect list)
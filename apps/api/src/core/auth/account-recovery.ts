@@ -0,0 +1,245 @@
+/**
+ * Account Recovery Service
+ *
+ * Password reset and passwordless (magic-link) sign-in. Both email a link
+ * carrying a random single-use token; only its SHA-256 hash is stored in
+ * auth_tokens, and every token expires.
+ *
+ * Request endpoints never reveal whether an account exists for an email.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/config/database';
+import { env } from '@/config/env';
+import { PasswordUtils } from '@/utils/password';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { EmailNotificationService } from '@/core/email/service';
+import type { EmailTemplateKey } from '@/core/email/types';
+import { AuthService, type AuthResponse, type TwoFactorChallengeResponse } from './service';
+import { completeBootstrapPasswordRotation } from './bootstrap';
+
+export type AuthTokenPurpose = 'PASSWORD_RESET' | 'MAGIC_LINK';
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const MAGIC_LINK_TTL_MINUTES = 15;
+
+const INVALID_TOKEN_ERROR = 'Invalid or expired token';
+
+interface RecoveryUser {
+  id: string;
+  email: string;
+  username: string;
+  locale: string | null;
+}
+
+export function hashAuthToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class AccountRecoveryService {
+  static isMagicLinkEnabled(): boolean {
+    return env.AUTH_MAGIC_LINK_ENABLED;
+  }
+
+  /**
+   * Email a password reset link
+   *
+   * Resolves the same way whether or not the account exists. A new request
+   * invalidates any earlier reset link.
+   *
+   * @param email Account email address
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.findActiveUser(email);
+    if (!user) return;
+
+    const token = await this.issueToken(user.id, 'PASSWORD_RESET', PASSWORD_RESET_TTL_MINUTES);
+    await this.sendEmail(user, 'password_reset', {
+      actionUrl: `${env.NEXT_PUBLIC_SHOP_URL}/auth/reset-password?token=${encodeURIComponent(token)}`,
+      expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+    });
+    LoggerService.logAuth('password_reset_requested', user.id);
+  }
+
+  /**
+   * Set a new password with a reset token
+   *
+   * Consumes the token, revokes every refresh token issued to the user and
+   * invalidates their other outstanding reset and sign-in links. The email
+   * link proves mailbox ownership, so the email is marked verified.
+   *
+   * @param token Reset token from the email link
+   * @param newPassword New plain-text password
+   * @throws Error if the token is unknown, used or expired
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<{ userId: string }> {
+    const record = await this.findUsableToken(token, 'PASSWORD_RESET');
+    const hashedPassword = await PasswordUtils.hash(newPassword);
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      const claimed = await tx.authToken.updateMany({
+        where: { id: record.id, usedAt: null },
+        data: { usedAt: now },
+      });
+      // Lost a race with a concurrent use of the same token
+      if (claimed.count === 0) {
+        throw new Error(INVALID_TOKEN_ERROR);
+      }
+
+      await tx.user.update({
+        where: { id: record.userId },
+        data: {
+          password: hashedPassword,
+          emailVerified: true,
+          tokenVersion: { increment: 1 },
+        },
+      });
+
+      await tx.authToken.updateMany({
+        where: { userId: record.userId, usedAt: null },
+        data: { usedAt: now },
+      });
+    });
+
+    await completeBootstrapPasswordRotation(record.user.email);
+    LoggerService.logAuth('password_reset', record.userId);
+
+    return { userId: record.userId };
+  }
+
+  /**
+   * Email a passwordless sign-in link
+   *
+   * Resolves the same way whether or not the account exists.
+   *
+   * @param email Account email address
+   * @throws Error if magic-link sign-in is disabled
+   */
+  static async requestMagicLink(email: string): Promise<void> {
+    if (!this.isMagicLinkEnabled()) {
+      throw new Error('Magic link sign-in is disabled');
+    }
+
+    const user = await this.findActiveUser(email);
+    if (!user) return;
+
+    const token = await this.issueToken(user.id, 'MAGIC_LINK', MAGIC_LINK_TTL_MINUTES);
+    await this.sendEmail(user, 'magic_link', {
+      actionUrl: `${env.NEXT_PUBLIC_SHOP_URL}/auth/magic-link?token=${encodeURIComponent(token)}`,
+      expiresInMinutes: MAGIC_LINK_TTL_MINUTES,
+    });
+    LoggerService.logAuth('magic_link_requested', user.id);
+  }
+
+  /**
+   * Sign in with a magic-link token
+   *
+   * @param token Sign-in token from the email link
+   * @returns Authentication response, as for a password login, or a
+   *   two-factor challenge for staff with TOTP enabled
+   * @throws Error if magic-link sign-in is disabled, or the token is unknown,
+   *   used or expired
+   */
+  static async consumeMagicLink(token: string): Promise<AuthResponse | TwoFactorChallengeResponse> {
+    if (!this.isMagicLinkEnabled()) {
+      throw new Error('Magic link sign-in is disabled');
+    }
+
+    const record = await this.findUsableToken(token, 'MAGIC_LINK');
+
+    const claimed = await prisma.authToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new Error(INVALID_TOKEN_ERROR);
+    }
+
+    if (!record.user.emailVerified) {
+      await prisma.user.update({
+        where: { id: record.userId },
+        data: { emailVerified: true },
+      });
+    }
+
+    LoggerService.logAuth('magic_link_login', record.userId);
+    const challenge = await AuthService.getTwoFactorChallenge({ id: record.userId, role: record.user.role });
+    return challenge ?? AuthService.createSession(record.userId);
+  }
+
+  private static async findActiveUser(email: string): Promise<RecoveryUser | null> {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true, locale: true, isActive: true },
+    });
+
+    return user?.isActive ? user : null;
+  }
+
+  /**
+   * Create a token, replacing any unused one of the same purpose
+   *
+   * @returns The plain token for the email link; it is not stored
+   */
+  private static async issueToken(userId: string, purpose: AuthTokenPurpose, ttlMinutes: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    await prisma.authToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: now },
+    });
+    await prisma.authToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashAuthToken(token),
+        expiresAt: new Date(now.getTime() + ttlMinutes * 60 * 1000),
+      },
+    });
+
+    return token;
+  }
+
+  private static async findUsableToken(token: string, purpose: AuthTokenPurpose) {
+    const record = await prisma.authToken.findUnique({
+      where: { tokenHash: hashAuthToken(token) },
+      include: {
+        user: { select: { email: true, role: true, isActive: true, emailVerified: true } },
+      },
+    });
+
+    if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt <= new Date()) {
+      throw new Error(INVALID_TOKEN_ERROR);
+    }
+    if (!record.user.isActive) {
+      throw new Error('Account is inactive');
+    }
+
+    return record;
+  }
+
+  /**
+   * Send through the email notification service in the user's language.
+   * Failures are logged, never thrown: the request endpoints must respond
+   * the same way regardless.
+   */
+  private static async sendEmail(
+    user: RecoveryUser,
+    templateKey: EmailTemplateKey,
+    variables: { actionUrl: string; expiresInMinutes: number }
+  ): Promise<void> {
+    try {
+      await EmailNotificationService.send({
+        templateKey,
+        to: user.email,
+        locale: await EmailNotificationService.resolveLocale(user.locale),
+        variables: { customerName: user.username, ...variables },
+        tags: [`user:${user.id}`],
+      });
+    } catch (err) {
+      LoggerService.logError(err instanceof Error ? err : new Error(String(err)), { context: `${templateKey} email`, userId: user.id });
+    }
+  }
+}
@@ -1,10 +1,11 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { JwtUtils } from '@/utils/jwt';
+import { JwtUtils, type JwtPayload } from '@/utils/jwt';
 import { sendError } from '@/utils/response';
 import { findAuthIdentityById } from './user-compat';
 import { ApiTokenService, type ApiTokenScope } from './api-token';
 import { hasAdminPermission, type AdminPermission } from '@shared/security';
 import { findResolvedAdminAccessForUser } from './admin-membership-compat';
+import { TwoFactorService } from './two-factor';
 
 /**
  * Auth Middleware
@@ -12,6 +13,21 @@ import { findResolvedAdminAccessForUser } from './admin-membership-compat';
  * Simplified version, removed all tenant related logic.
  */
 
+/**
+ * Verify a bearer token as an access token
+ *
+ * Refresh, two-factor challenge, guest cart, theme preview and plugin service
+ * tokens are signed with the same secret but carry a `type`; none of them may
+ * authenticate a request. Access tokens are issued without a type.
+ */
+function verifyAccessToken(token: string): JwtPayload {
+  const payload = JwtUtils.verify(token);
+  if ((payload.type !== undefined && payload.type !== 'access') || typeof payload.userId !== 'string') {
+    throw new Error('Not an access token');
+  }
+  return payload;
+}
+
 /**
  * Unified auth middleware - only supports Bearer Token
  */
@@ -30,7 +46,7 @@ export async function authMiddleware(
       return sendError(reply, 401, 'UNAUTHORIZED', 'Missing authentication token');
     }
 
-    const payload = JwtUtils.verify(token);
+    const payload = verifyAccessToken(token);
 
     // Get user info from database
     const user = await findAuthIdentityById(payload.userId);
@@ -79,7 +95,7 @@ export async function optionalAuthMiddleware(
     const token = authHeader.substring(7);
     if (!token) return;
 
-    const payload = JwtUtils.verify(token);
+    const payload = verifyAccessToken(token);
 
     const user = await findAuthIdentityById(payload.userId);
 
@@ -116,6 +132,19 @@ export async function requireAdmin(
   if (request.user.role !== 'ADMIN') {
     return sendError(reply, 403, 'FORBIDDEN', 'Admin access required');
   }
+
+  if (await TwoFactorService.isEnrollmentRequired(request.user.id)) {
+    return sendTwoFactorEnrollmentRequired(reply);
+  }
+}
+
+function sendTwoFactorEnrollmentRequired(reply: FastifyReply) {
+  return sendError(
+    reply,
+    403,
+    'TWO_FACTOR_ENROLLMENT_REQUIRED',
+    'Two-factor authentication is required for staff. Set it up at /api/auth/2fa/setup.'
+  );
 }
 
 /**
@@ -136,6 +165,9 @@ export function requirePermission(...requiredPermissions: AdminPermission[]) {
     if (!access || access.status !== 'ACTIVE') {
       return sendError(reply, 403, 'FORBIDDEN', 'Admin access required');
     }
+    if (await TwoFactorService.isEnrollmentRequired(request.user.id)) {
+      return sendTwoFactorEnrollmentRequired(reply);
+    }
 
     request.user.adminRole = access.role;
     request.user.isOwner = access.isOwner;
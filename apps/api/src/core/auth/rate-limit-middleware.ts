@@ -10,22 +10,25 @@ import { env } from '@/config/env';
 interface RateLimitConfig {
   windowMs: number;
   maxRequests: number;
+  /** Counter key prefix; give sensitive routes their own bucket */
+  keyPrefix: string;
 }
 
 const defaultConfig: RateLimitConfig = {
   windowMs: 60 * 1000, // 1 minute
-  maxRequests: 100
+  maxRequests: 100,
+  keyPrefix: 'rate_limit'
 };
 
 export function createRateLimiter(config: Partial<RateLimitConfig> = {}) {
-  const { windowMs, maxRequests } = { ...defaultConfig, ...config };
+  const { windowMs, maxRequests, keyPrefix } = { ...defaultConfig, ...config };
 
   return async function rateLimitMiddleware(
     request: FastifyRequest,
     reply: FastifyReply
   ) {
     const ip = request.ip;
-    const key = `rate_limit:${ip}`;
+    const key = `${keyPrefix}:${ip}`;
 
     // Check if Redis is connected
     const isRedisConnected = redisCache.getConnectionStatus();
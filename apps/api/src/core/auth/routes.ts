@@ -4,7 +4,7 @@
  * Simplified version, removed multi-tenant related logic.
  */
 
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
 import { AuthService } from './service';
 import { authMiddleware, requireAdmin } from './middleware';
 import { prisma } from '@/config/database';
@@ -13,6 +13,41 @@ import { sendSuccess, sendError } from '@/utils/response';
 import { authSchemas } from './schemas';
 import { EmailVerificationService } from '@/services/email-verification.service';
 import { completeBootstrapPasswordRotation, getPublicAuthBootstrapStatus } from './bootstrap';
+import { CartService } from '@/core/cart/service';
+import { readCartToken } from '@/core/cart/guest';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { AccountRecoveryService } from './account-recovery';
+import { TwoFactorService } from './two-factor';
+import { createRateLimiter } from './rate-limit-middleware';
+
+// Recovery endpoints send email and accept guessable input; keep their budget
+// small and separate from the general API limit.
+const recoveryRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  maxRequests: 5,
+  keyPrefix: 'rate_limit:auth_recovery',
+});
+
+const twoFactorRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  maxRequests: 10,
+  keyPrefix: 'rate_limit:auth_2fa',
+});
+
+/**
+ * Carry the guest cart (X-Cart-Token) over to the account that just signed in.
+ * A failed merge never fails the sign-in.
+ */
+async function mergeGuestCartOnSignIn(request: FastifyRequest, userId: string): Promise<void> {
+  const cartToken = readCartToken(request);
+  if (!cartToken) return;
+
+  try {
+    await CartService.mergeGuestCart(userId, cartToken);
+  } catch (error) {
+    LoggerService.logError(error instanceof Error ? error : new Error(String(error)), { context: 'guest cart merge on sign-in' });
+  }
+}
 
 export async function authRoutes(fastify: FastifyInstance) {
   // Public login configuration
@@ -42,8 +77,9 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const { email, username, password } = request.body as any;
-      const result = await AuthService.register({ email, username, password });
+      const { email, username, password, locale } = request.body as any;
+      const result = await AuthService.register({ email, username, password, locale });
+      await mergeGuestCartOnSignIn(request, result.user.id);
       return sendSuccess(reply, result, 'Registration successful', 201);
     } catch (error: any) {
       return sendError(reply, 400, 'REGISTRATION_FAILED', error.message);
@@ -62,6 +98,9 @@ export async function authRoutes(fastify: FastifyInstance) {
     try {
       const { email, password } = request.body as any;
       const result = await AuthService.login({ email, password });
+      if ('user' in result) {
+        await mergeGuestCartOnSignIn(request, result.user.id);
+      }
       return sendSuccess(reply, result);
     } catch (error: any) {
       if (error.message === 'Account is inactive') {
@@ -297,4 +336,217 @@ export async function authRoutes(fastify: FastifyInstance) {
       return sendError(reply, 500, 'CHANGE_PASSWORD_FAILED', error.message);
     }
   });
+
+  // Forgot password
+  fastify.post('/forgot-password', {
+    onRequest: [recoveryRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Request password reset',
+      description: 'Email a single-use password reset link. Responds the same whether or not the account exists.',
+      ...authSchemas.forgotPassword,
+    }
+  }, async (request, reply) => {
+    try {
+      const { email } = request.body as any;
+      await AccountRecoveryService.requestPasswordReset(email);
+      return sendSuccess(reply, { requested: true }, 'If an account exists for this email, a reset link has been sent');
+    } catch (error: any) {
+      return sendError(reply, 500, 'PASSWORD_RESET_REQUEST_FAILED', error.message);
+    }
+  });
+
+  // Reset password
+  fastify.post('/reset-password', {
+    onRequest: [recoveryRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Reset password',
+      description: 'Set a new password with a reset token. Signs the user out of all existing sessions.',
+      ...authSchemas.resetPassword,
+    }
+  }, async (request, reply) => {
+    try {
+      const { token, newPassword } = request.body as any;
+      await AccountRecoveryService.resetPassword(token, newPassword);
+      return sendSuccess(reply, {
+        passwordReset: true,
+        resetAt: new Date().toISOString(),
+      }, 'Password reset successfully');
+    } catch (error: any) {
+      if (error.message === 'Account is inactive') {
+        return sendError(reply, 403, 'ACCOUNT_INACTIVE', error.message);
+      }
+      if (error.message === 'Invalid or expired token') {
+        return sendError(reply, 400, 'INVALID_RESET_TOKEN', error.message);
+      }
+      return sendError(reply, 500, 'PASSWORD_RESET_FAILED', error.message);
+    }
+  });
+
+  // Request magic link
+  fastify.post('/magic-link', {
+    onRequest: [recoveryRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Request magic sign-in link',
+      description: 'Email a single-use passwordless sign-in link (when enabled). Responds the same whether or not the account exists.',
+      ...authSchemas.requestMagicLink,
+    }
+  }, async (request, reply) => {
+    try {
+      const { email } = request.body as any;
+      await AccountRecoveryService.requestMagicLink(email);
+      return sendSuccess(reply, { requested: true }, 'If an account exists for this email, a sign-in link has been sent');
+    } catch (error: any) {
+      if (error.message === 'Magic link sign-in is disabled') {
+        return sendError(reply, 404, 'MAGIC_LINK_DISABLED', error.message);
+      }
+      return sendError(reply, 500, 'MAGIC_LINK_REQUEST_FAILED', error.message);
+    }
+  });
+
+  // Sign in with magic link
+  fastify.post('/magic-link/verify', {
+    onRequest: [recoveryRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Sign in with magic link',
+      description: 'Exchange a magic-link token for access and refresh tokens',
+      ...authSchemas.verifyMagicLink,
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.body as any;
+      const result = await AccountRecoveryService.consumeMagicLink(token);
+      if ('user' in result) {
+        await mergeGuestCartOnSignIn(request, result.user.id);
+      }
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      if (error.message === 'Magic link sign-in is disabled') {
+        return sendError(reply, 404, 'MAGIC_LINK_DISABLED', error.message);
+      }
+      if (error.message === 'Account is inactive') {
+        return sendError(reply, 403, 'ACCOUNT_INACTIVE', error.message);
+      }
+      return sendError(reply, 401, 'MAGIC_LINK_FAILED', error.message);
+    }
+  });
+
+  // Complete a two-factor sign-in
+  fastify.post('/2fa/verify', {
+    onRequest: [twoFactorRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Verify two-factor code',
+      description: 'Exchange a login challenge token and an authenticator or recovery code for access and refresh tokens',
+      ...authSchemas.twoFactorVerify,
+    }
+  }, async (request, reply) => {
+    try {
+      const { challengeToken, code } = request.body as any;
+      const result = await TwoFactorService.verifyChallenge(challengeToken, code);
+      await mergeGuestCartOnSignIn(request, result.user.id);
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      if (error.message === 'Account is inactive') {
+        return sendError(reply, 403, 'ACCOUNT_INACTIVE', error.message);
+      }
+      return sendError(reply, 401, 'TWO_FACTOR_FAILED', error.message);
+    }
+  });
+
+  // Two-factor status
+  fastify.get('/2fa/status', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['auth'],
+      summary: 'Get two-factor status',
+      description: 'Whether two-factor authentication is enabled or required for the current staff account',
+      security: [{ bearerAuth: [] }],
+      ...authSchemas.twoFactorStatus,
+    }
+  }, async (request, reply) => {
+    try {
+      const status = await TwoFactorService.getStatus(request.user!.id);
+      return sendSuccess(reply, status);
+    } catch (error: any) {
+      return sendError(reply, 500, 'TWO_FACTOR_STATUS_FAILED', error.message);
+    }
+  });
+
+  // Start two-factor enrollment
+  fastify.post('/2fa/setup', {
+    onRequest: [authMiddleware, twoFactorRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Start two-factor enrollment',
+      description: 'Generate a TOTP secret and provisioning URI for the current staff account',
+      security: [{ bearerAuth: [] }],
+      ...authSchemas.twoFactorSetup,
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await TwoFactorService.beginEnrollment(request.user!);
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      if (error.message === 'Two-factor authentication is already enabled') {
+        return sendError(reply, 409, 'TWO_FACTOR_ALREADY_ENABLED', error.message);
+      }
+      if (error.message === 'Two-factor authentication is only available for staff accounts') {
+        return sendError(reply, 403, 'FORBIDDEN', error.message);
+      }
+      return sendError(reply, 500, 'TWO_FACTOR_SETUP_FAILED', error.message);
+    }
+  });
+
+  // Confirm two-factor enrollment
+  fastify.post('/2fa/enable', {
+    onRequest: [authMiddleware, twoFactorRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Enable two-factor authentication',
+      description: 'Confirm enrollment with a code from the authenticator app and receive recovery codes',
+      security: [{ bearerAuth: [] }],
+      ...authSchemas.twoFactorEnable,
+    }
+  }, async (request, reply) => {
+    try {
+      const { code } = request.body as any;
+      const { recoveryCodes } = await TwoFactorService.confirmEnrollment(request.user!.id, code);
+      return sendSuccess(reply, { enabled: true, recoveryCodes }, 'Two-factor authentication enabled');
+    } catch (error: any) {
+      if (error.message === 'Invalid two-factor code' || error.message === 'No pending two-factor enrollment') {
+        return sendError(reply, 400, 'TWO_FACTOR_ENABLE_FAILED', error.message);
+      }
+      return sendError(reply, 500, 'TWO_FACTOR_ENABLE_FAILED', error.message);
+    }
+  });
+
+  // Turn two-factor off
+  fastify.post('/2fa/disable', {
+    onRequest: [authMiddleware, twoFactorRateLimit],
+    schema: {
+      tags: ['auth'],
+      summary: 'Disable two-factor authentication',
+      description: 'Turn off two-factor authentication for the current account (not allowed while owners require it)',
+      security: [{ bearerAuth: [] }],
+      ...authSchemas.twoFactorDisable,
+    }
+  }, async (request, reply) => {
+    try {
+      const { code } = request.body as any;
+      await TwoFactorService.disable(request.user!.id, code);
+      return sendSuccess(reply, { disabled: true }, 'Two-factor authentication disabled');
+    } catch (error: any) {
+      if (error.message === 'Two-factor authentication is required for staff accounts') {
+        return sendError(reply, 403, 'TWO_FACTOR_REQUIRED', error.message);
+      }
+      if (error.message === 'Invalid two-factor code' || error.message === 'Two-factor authentication is not enabled') {
+        return sendError(reply, 400, 'TWO_FACTOR_DISABLE_FAILED', error.message);
+      }
+      return sendError(reply, 500, 'TWO_FACTOR_DISABLE_FAILED', error.message);
+    }
+  });
 }
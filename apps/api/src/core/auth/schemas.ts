@@ -10,6 +10,7 @@ import {
   createTypedReadResponses,
   createTypedUpdateResponses,
 } from '@/types/common-dto';
+import { LOCALES } from '@jiffoo/shared';
 
 // ============================================================================
 // User Profile Response
@@ -46,6 +47,70 @@ const authResponseSchema = {
   required: ['user', 'access_token', 'token_type', 'expires_in', 'refresh_token', 'token'],
 } as const;
 
+const twoFactorChallengeSchema = {
+  type: 'object',
+  properties: {
+    twoFactorRequired: { type: 'boolean', enum: [true], description: 'A second factor is needed before tokens are issued' },
+    challengeToken: { type: 'string', description: 'Short-lived token to send with the code to POST /api/auth/2fa/verify' },
+    expires_in: { type: 'number', description: 'Challenge expiration time in seconds' },
+  },
+  required: ['twoFactorRequired', 'challengeToken', 'expires_in'],
+} as const;
+
+// Password and magic-link sign-in return tokens, or a challenge for staff with two-factor enabled
+const signInResultSchema = {
+  anyOf: [authResponseSchema, twoFactorChallengeSchema],
+} as const;
+
+const twoFactorStatusSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean', description: 'Whether two-factor authentication is on' },
+    pending: { type: 'boolean', description: 'Whether an enrollment is waiting for its first code' },
+    required: { type: 'boolean', description: 'Whether owners require two-factor for all staff' },
+    recoveryCodesRemaining: { type: 'integer', description: 'Unused recovery codes' },
+  },
+  required: ['enabled', 'pending', 'required', 'recoveryCodesRemaining'],
+} as const;
+
+const twoFactorSetupSchema = {
+  type: 'object',
+  properties: {
+    secret: { type: 'string', description: 'Base32 TOTP secret for manual entry' },
+    otpauthUrl: { type: 'string', description: 'otpauth:// provisioning URI to render as a QR code' },
+  },
+  required: ['secret', 'otpauthUrl'],
+} as const;
+
+const twoFactorEnableResultSchema = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean', description: 'Whether two-factor authentication was enabled' },
+    recoveryCodes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Single-use recovery codes, shown only once',
+    },
+  },
+  required: ['enabled', 'recoveryCodes'],
+} as const;
+
+const twoFactorDisableResultSchema = {
+  type: 'object',
+  properties: {
+    disabled: { type: 'boolean', description: 'Whether two-factor authentication was turned off' },
+  },
+  required: ['disabled'],
+} as const;
+
+const twoFactorCodeBody = {
+  type: 'object',
+  required: ['code'],
+  properties: {
+    code: { type: 'string', minLength: 6, maxLength: 32, description: 'Authenticator app code or recovery code' },
+  },
+} as const;
+
 const logoutResultSchema = {
   type: 'object',
   properties: {
@@ -64,6 +129,23 @@ const changePasswordResultSchema = {
   required: ['passwordChanged', 'changedAt'],
 } as const;
 
+const recoveryRequestResultSchema = {
+  type: 'object',
+  properties: {
+    requested: { type: 'boolean', description: 'Always true; does not reveal whether the account exists' },
+  },
+  required: ['requested'],
+} as const;
+
+const passwordResetResultSchema = {
+  type: 'object',
+  properties: {
+    passwordReset: { type: 'boolean', description: 'Whether the password was reset' },
+    resetAt: { type: 'string', format: 'date-time', description: 'Password reset time' },
+  },
+  required: ['passwordReset', 'resetAt'],
+} as const;
+
 const loginConfigSchema = {
   type: 'object',
   properties: {
@@ -114,6 +196,7 @@ export const authSchemas = {
         username: { type: 'string', minLength: 3, description: 'Username (min 3 characters)' },
         password: { type: 'string', minLength: 6, description: 'Password (min 6 characters)' },
         referralCode: { type: 'string', description: 'Optional referral code' },
+        locale: { type: 'string', enum: [...LOCALES], description: 'Language for account emails; defaults to the shop locale' },
       },
     },
     response: createTypedCreateResponses(authResponseSchema),
@@ -129,7 +212,7 @@ export const authSchemas = {
         password: { type: 'string', description: 'User password' },
       },
     },
-    response: createTypedCrudResponses(authResponseSchema),
+    response: createTypedCrudResponses(signInResultSchema),
   },
 
   // GET /api/auth/login-config
@@ -176,4 +259,88 @@ export const authSchemas = {
     },
     response: createTypedUpdateResponses(changePasswordResultSchema),
   },
+
+  // POST /api/auth/forgot-password
+  forgotPassword: {
+    body: {
+      type: 'object',
+      required: ['email'],
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Account email address' },
+      },
+    },
+    response: createTypedCrudResponses(recoveryRequestResultSchema),
+  },
+
+  // POST /api/auth/reset-password
+  resetPassword: {
+    body: {
+      type: 'object',
+      required: ['token', 'newPassword'],
+      properties: {
+        token: { type: 'string', minLength: 1, description: 'Reset token from the password reset email' },
+        newPassword: { type: 'string', minLength: 6, description: 'New password (min 6 characters)' },
+      },
+    },
+    response: createTypedUpdateResponses(passwordResetResultSchema),
+  },
+
+  // POST /api/auth/magic-link
+  requestMagicLink: {
+    body: {
+      type: 'object',
+      required: ['email'],
+      properties: {
+        email: { type: 'string', format: 'email', description: 'Account email address' },
+      },
+    },
+    response: createTypedCrudResponses(recoveryRequestResultSchema),
+  },
+
+  // POST /api/auth/magic-link/verify
+  verifyMagicLink: {
+    body: {
+      type: 'object',
+      required: ['token'],
+      properties: {
+        token: { type: 'string', minLength: 1, description: 'Sign-in token from the magic link email' },
+      },
+    },
+    response: createTypedCrudResponses(signInResultSchema),
+  },
+
+  // GET /api/auth/2fa/status
+  twoFactorStatus: {
+    response: createTypedReadResponses(twoFactorStatusSchema),
+  },
+
+  // POST /api/auth/2fa/setup
+  twoFactorSetup: {
+    response: createTypedCrudResponses(twoFactorSetupSchema),
+  },
+
+  // POST /api/auth/2fa/enable
+  twoFactorEnable: {
+    body: twoFactorCodeBody,
+    response: createTypedCrudResponses(twoFactorEnableResultSchema),
+  },
+
+  // POST /api/auth/2fa/disable
+  twoFactorDisable: {
+    body: twoFactorCodeBody,
+    response: createTypedCrudResponses(twoFactorDisableResultSchema),
+  },
+
+  // POST /api/auth/2fa/verify
+  twoFactorVerify: {
+    body: {
+      type: 'object',
+      required: ['challengeToken', 'code'],
+      properties: {
+        challengeToken: { type: 'string', description: 'Challenge token from the login response' },
+        code: { type: 'string', minLength: 6, maxLength: 32, description: 'Authenticator app code or recovery code' },
+      },
+    },
+    response: createTypedCrudResponses(authResponseSchema),
+  },
 } as const;
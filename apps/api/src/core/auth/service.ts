@@ -12,9 +12,13 @@ import { LoginRequest, RegisterRequest } from './types';
 import { EmailVerificationService } from '@/services/email-verification.service';
 import { shouldRequirePasswordRotation } from './bootstrap';
 import { createAuthUser, findAuthUserByEmail, findAuthUserById } from './user-compat';
+import { findResolvedAdminAccessForUser } from './admin-membership-compat';
+import { OutboxService } from '@/infra/outbox';
 
 const DEFAULT_DEMO_ADMIN_EMAIL = 'admin@jiffoo.com';
 const DEFAULT_DEMO_ADMIN_PASSWORD = 'admin123';
+const TWO_FACTOR_CHALLENGE_TYPE = '2fa_challenge';
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 300;
 
 export interface AuthResponse {
   user: {
@@ -35,6 +39,17 @@ export interface AuthResponse {
   token: string;
 }
 
+/**
+ * Returned instead of tokens when a staff account has two-factor
+ * authentication enabled. Exchange the challenge token and a TOTP or recovery
+ * code at POST /api/auth/2fa/verify.
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expires_in: number;
+}
+
 export interface LoginConfigResponse {
   demoModeEnabled: boolean;
   demoCredentials: {
@@ -63,6 +78,18 @@ export class AuthService {
     return process.env.AUTH_REQUIRE_EMAIL_VERIFICATION?.trim().toLowerCase() !== 'false';
   }
 
+  /**
+   * Current refresh token version of a user. Refresh tokens carry the version
+   * they were issued under; a password reset bumps it, revoking all of them.
+   */
+  private static async getTokenVersion(userId: string): Promise<number> {
+    const record = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { tokenVersion: true },
+    });
+    return record?.tokenVersion ?? 0;
+  }
+
   private static resolveDemoCredentials() {
     return {
       email: process.env.JIFFOO_DEMO_ADMIN_EMAIL?.trim() || DEFAULT_DEMO_ADMIN_EMAIL,
@@ -170,8 +197,16 @@ export class AuthService {
       password: hashedPassword,
       role: 'USER',
       emailVerified: !requireEmailVerification,
+      ...(data.locale ? { locale: data.locale } : {}),
     });
 
+    await OutboxService.emitBestEffort('customer.registered', user.id, {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      emailVerified: user.emailVerified,
+    }, { actorId: user.id });
+
     if (requireEmailVerification) {
       // Send verification email
       await EmailVerificationService.sendVerificationEmail(
@@ -215,12 +250,14 @@ export class AuthService {
    * Authenticate a user and generate session tokens
    *
    * Validates user credentials and generates new access and refresh tokens upon successful authentication.
+   * Staff with two-factor authentication enabled get a challenge instead of tokens.
    *
    * @param data Login credentials containing email and password
-   * @returns Authentication response with user details and OAuth2-compliant tokens
+   * @returns Authentication response with user details and OAuth2-compliant tokens,
+   *   or a two-factor challenge
    * @throws Error if the email does not exist or password is incorrect
    */
-  static async login(data: LoginRequest): Promise<AuthResponse> {
+  static async login(data: LoginRequest): Promise<AuthResponse | TwoFactorChallengeResponse> {
     const user = await findAuthUserByEmail(data.email);
 
     if (!user) {
@@ -240,6 +277,11 @@ export class AuthService {
       throw new Error('Email not verified. Please check your email for verification link.');
     }
 
+    const challenge = await this.getTwoFactorChallenge(user);
+    if (challenge) {
+      return challenge;
+    }
+
     const requiresPasswordRotation = await shouldRequirePasswordRotation(user.email);
 
     const token = JwtUtils.sign({
@@ -249,7 +291,8 @@ export class AuthService {
     });
 
     const refreshToken = JwtUtils.signRefresh({
-      userId: user.id
+      userId: user.id,
+      ver: await this.getTokenVersion(user.id)
     });
 
     return {
@@ -367,6 +410,12 @@ export class AuthService {
         throw new Error('Account is inactive');
       }
 
+      // Reject refresh tokens issued before the last password reset
+      const tokenVersion = await this.getTokenVersion(user.id);
+      if ((payload.ver ?? 0) !== tokenVersion) {
+        throw new Error('Invalid refresh token');
+      }
+
       // Generate new tokens
       const accessToken = JwtUtils.sign({
         userId: user.id,
@@ -376,7 +425,7 @@ export class AuthService {
 
       // Optional: Rotate refresh token? (Return new one, same expiry or extended)
       // For now, let's keep the same or issue a new one. OAuth2 usually issues a new one.
-      const newRefreshToken = JwtUtils.signRefresh({ userId: user.id });
+      const newRefreshToken = JwtUtils.signRefresh({ userId: user.id, ver: tokenVersion });
 
       return {
         user: {
@@ -398,6 +447,98 @@ export class AuthService {
     }
   }
 
+  /**
+   * Start a session for a user whose identity was proven out of band
+   *
+   * Used by passwordless sign-in (magic links) and completed two-factor
+   * challenges: issues the same tokens as login without a password check.
+   *
+   * @param userId The unique identifier of the user
+   * @returns Authentication response with user details and OAuth2-compliant tokens
+   * @throws Error if the user is not found or inactive
+   */
+  static async createSession(userId: string): Promise<AuthResponse> {
+    const user = await findAuthUserById(userId);
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (!user.isActive) {
+      throw new Error('Account is inactive');
+    }
+
+    const token = JwtUtils.sign({
+      userId: user.id,
+      email: user.email,
+      role: user.role
+    });
+
+    const refreshToken = JwtUtils.signRefresh({
+      userId: user.id,
+      ver: await this.getTokenVersion(user.id)
+    });
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        emailVerified: user.emailVerified,
+        avatar: user.avatar,
+        requiresPasswordRotation: await shouldRequirePasswordRotation(user.email),
+      },
+      access_token: token,
+      token_type: 'Bearer',
+      expires_in: 604800, // 7 days
+      refresh_token: refreshToken,
+      token
+    };
+  }
+
+  /**
+   * Two-factor challenge for a staff account with TOTP enabled
+   *
+   * @param user The user signing in
+   * @returns A short-lived challenge, or null when no second factor is needed
+   */
+  static async getTwoFactorChallenge(user: { id: string; role: string }): Promise<TwoFactorChallengeResponse | null> {
+    const access = await findResolvedAdminAccessForUser(user.id, user.role);
+    if (!access) {
+      return null;
+    }
+
+    const twoFactor = await prisma.staffTwoFactor.findUnique({
+      where: { userId: user.id },
+      select: { enabledAt: true },
+    });
+    if (!twoFactor?.enabledAt) {
+      return null;
+    }
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: JwtUtils.sign(
+        { type: TWO_FACTOR_CHALLENGE_TYPE, userId: user.id },
+        TWO_FACTOR_CHALLENGE_TTL_SECONDS
+      ),
+      expires_in: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * User id carried by a two-factor challenge token, or null when the token is
+   * invalid, expired or not a challenge token
+   */
+  static verifyTwoFactorChallenge(challengeToken: string): string | null {
+    try {
+      const payload = JwtUtils.verify(challengeToken) as unknown as { type?: string; userId?: unknown };
+      return payload.type === TWO_FACTOR_CHALLENGE_TYPE && typeof payload.userId === 'string' ? payload.userId : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Verify and decode a JWT token
    *
@@ -0,0 +1,297 @@
+/**
+ * Staff Two-Factor Authentication
+ *
+ * TOTP enrollment, recovery codes and the second sign-in step for staff
+ * accounts (users with admin access). Owners can require every staff member
+ * to enroll; until they do, requirePermission refuses admin requests.
+ *
+ * Enrollment, disabling, resets and failed challenges are recorded in the
+ * staff audit log.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/config/database';
+import { TotpUtils } from '@/utils/totp';
+import { systemSettingsService } from '@/core/admin/system-settings/service';
+import { StaffManagementError, writeStaffAuditLog } from '@/core/admin/staff-management/service';
+import { AuthService, type AuthResponse } from './service';
+import { findResolvedAdminAccessForUser } from './admin-membership-compat';
+
+export const REQUIRE_STAFF_TWO_FACTOR_SETTING = 'security.requireStaffTwoFactor';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pending: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+type TwoFactorRecord = {
+  userId: string;
+  secret: string;
+  enabledAt: Date | null;
+  lastUsedStep: number | null;
+  user: { email: string; username: string };
+};
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, '');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+async function findTwoFactor(userId: string): Promise<TwoFactorRecord | null> {
+  return prisma.staffTwoFactor.findUnique({
+    where: { userId },
+    include: { user: { select: { email: true, username: true } } },
+  });
+}
+
+export class TwoFactorService {
+  static async isRequiredForStaff(): Promise<boolean> {
+    return systemSettingsService.getBoolean(REQUIRE_STAFF_TWO_FACTOR_SETTING, false);
+  }
+
+  /**
+   * Require (or stop requiring) two-factor for every staff member
+   *
+   * Owner-only. An owner must be enrolled before turning the requirement on,
+   * so they cannot lock themselves out of admin access.
+   */
+  static async setRequiredForStaff(actor: { userId: string; isOwner: boolean }, required: boolean): Promise<{ requireTwoFactor: boolean }> {
+    if (!actor.isOwner) {
+      throw new StaffManagementError('Only owners can change the staff two-factor policy', 'FORBIDDEN', 403);
+    }
+
+    if (required) {
+      const record = await prisma.staffTwoFactor.findUnique({
+        where: { userId: actor.userId },
+        select: { enabledAt: true },
+      });
+      if (!record?.enabledAt) {
+        throw new StaffManagementError(
+          'Enable two-factor authentication on your own account first',
+          'TWO_FACTOR_NOT_ENABLED',
+          409,
+        );
+      }
+    }
+
+    await systemSettingsService.setSetting(REQUIRE_STAFF_TWO_FACTOR_SETTING, required);
+    return { requireTwoFactor: required };
+  }
+
+  /**
+   * Whether a staff member must enroll before using admin access
+   */
+  static async isEnrollmentRequired(userId: string): Promise<boolean> {
+    if (!(await this.isRequiredForStaff())) {
+      return false;
+    }
+
+    const record = await prisma.staffTwoFactor.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+    return !record?.enabledAt;
+  }
+
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const [record, required] = await Promise.all([
+      prisma.staffTwoFactor.findUnique({
+        where: { userId },
+        select: { enabledAt: true, _count: { select: { recoveryCodes: true } } },
+      }),
+      this.isRequiredForStaff(),
+    ]);
+
+    return {
+      enabled: Boolean(record?.enabledAt),
+      pending: Boolean(record && !record.enabledAt),
+      required,
+      recoveryCodesRemaining: record?.enabledAt ? record._count.recoveryCodes : 0,
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret
+   *
+   * Replaces any earlier pending secret. Two-factor stays off until
+   * confirmEnrollment checks a code from the authenticator app.
+   *
+   * @returns The base32 secret and the otpauth:// URI to render as a QR code
+   * @throws Error if the user has no admin access or two-factor is already enabled
+   */
+  static async beginEnrollment(user: { id: string; email: string; role: string }): Promise<{ secret: string; otpauthUrl: string }> {
+    const access = await findResolvedAdminAccessForUser(user.id, user.role);
+    if (!access) {
+      throw new Error('Two-factor authentication is only available for staff accounts');
+    }
+
+    const existing = await prisma.staffTwoFactor.findUnique({
+      where: { userId: user.id },
+      select: { enabledAt: true },
+    });
+    if (existing?.enabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = TotpUtils.generateSecret();
+    await prisma.staffTwoFactor.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, secret },
+      update: { secret, enabledAt: null, lastUsedStep: null, recoveryCodes: { deleteMany: {} } },
+    });
+
+    const issuer = (await systemSettingsService.getSetting('storeName').catch(() => null)) as string | null || 'Jiffoo';
+    return {
+      secret,
+      otpauthUrl: TotpUtils.buildOtpAuthUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with the first code from the authenticator app
+   *
+   * @returns Recovery codes; shown once, only their hashes are stored
+   * @throws Error if there is no pending enrollment or the code is wrong
+   */
+  static async confirmEnrollment(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const record = await findTwoFactor(userId);
+    if (!record || record.enabledAt) {
+      throw new Error('No pending two-factor enrollment');
+    }
+
+    const step = TotpUtils.verifyCode(record.secret, code);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.staffTwoFactor.update({
+      where: { userId },
+      data: {
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodes: {
+          deleteMany: {},
+          createMany: { data: recoveryCodes.map((recoveryCode) => ({ hash: hashRecoveryCode(recoveryCode) })) },
+        },
+      },
+    });
+
+    await writeStaffAuditLog({
+      staffUserId: userId,
+      staffEmail: record.user.email,
+      staffUsername: record.user.username,
+      actorUserId: userId,
+      action: 'STAFF_2FA_ENROLLED',
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn two-factor off for the caller's own account
+   *
+   * @throws Error if two-factor is required for staff, not enabled, or the code is wrong
+   */
+  static async disable(userId: string, code: string): Promise<void> {
+    if (await this.isRequiredForStaff()) {
+      throw new Error('Two-factor authentication is required for staff accounts');
+    }
+
+    const record = await findTwoFactor(userId);
+    if (!record?.enabledAt) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (!(await this.consumeCode(record, code))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await prisma.staffTwoFactor.delete({ where: { userId } });
+    await writeStaffAuditLog({
+      staffUserId: userId,
+      staffEmail: record.user.email,
+      staffUsername: record.user.username,
+      actorUserId: userId,
+      action: 'STAFF_2FA_DISABLED',
+    });
+  }
+
+  /**
+   * Complete a sign-in that returned a two-factor challenge
+   *
+   * @param challengeToken Token from the login response
+   * @param code Current TOTP code or an unused recovery code
+   * @returns Authentication response with tokens
+   * @throws Error if the challenge is invalid or expired, or the code is wrong
+   */
+  static async verifyChallenge(challengeToken: string, code: string): Promise<AuthResponse> {
+    const userId = AuthService.verifyTwoFactorChallenge(challengeToken);
+    const record = userId ? await findTwoFactor(userId) : null;
+    if (!userId || !record?.enabledAt) {
+      throw new Error('Invalid or expired challenge');
+    }
+
+    if (!(await this.consumeCode(record, code))) {
+      await writeStaffAuditLog({
+        staffUserId: userId,
+        staffEmail: record.user.email,
+        staffUsername: record.user.username,
+        action: 'STAFF_2FA_CHALLENGE_FAILED',
+      });
+      throw new Error('Invalid two-factor code');
+    }
+
+    return AuthService.createSession(userId);
+  }
+
+  /**
+   * Accept a TOTP code once (a replayed step is rejected) or spend a
+   * recovery code. Both claims are conditional writes, so two concurrent
+   * requests with the same code cannot both succeed.
+   */
+  private static async consumeCode(record: TwoFactorRecord, code: string): Promise<boolean> {
+    const step = TotpUtils.verifyCode(record.secret, code);
+    if (step !== null) {
+      const claimed = await prisma.staffTwoFactor.updateMany({
+        where: {
+          userId: record.userId,
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+        },
+        data: { lastUsedStep: step },
+      });
+      return claimed.count > 0;
+    }
+
+    const spent = await prisma.staffRecoveryCode.deleteMany({
+      where: { userId: record.userId, hash: hashRecoveryCode(code) },
+    });
+    if (spent.count !== 1) {
+      return false;
+    }
+
+    const remaining = await prisma.staffRecoveryCode.count({ where: { userId: record.userId } });
+    await writeStaffAuditLog({
+      staffUserId: record.userId,
+      staffEmail: record.user.email,
+      staffUsername: record.user.username,
+      actorUserId: record.userId,
+      action: 'STAFF_2FA_RECOVERY_CODE_USED',
+      metadata: { recoveryCodesRemaining: remaining },
+    });
+    return true;
+  }
+}
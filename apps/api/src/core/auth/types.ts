@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { LOCALES } from '@jiffoo/shared';
 
 export const LoginSchema = z.object({
   email: z.string().email('Invalid email format'),
@@ -10,6 +11,7 @@ export const RegisterSchema = z.object({
   username: z.string().min(3, 'Username must be at least 3 characters'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
   avatar: z.string().url().optional(),
+  locale: z.enum(LOCALES).optional(),
 });
 
 export type LoginRequest = z.infer<typeof LoginSchema>;
@@ -73,6 +73,7 @@ type RegisterAuthUserInput = {
   password: string;
   role: string;
   emailVerified?: boolean;
+  locale?: string;
 };
 
 let emailVerifiedColumnAvailable: boolean | null = null;
@@ -0,0 +1,84 @@
+/**
+ * Guest Carts
+ *
+ * Anonymous shoppers get a cart without a user and a signed cart token that
+ * addresses it (sent back in the `X-Cart-Token` header). CartService receives a
+ * cart owner key: the user id for signed-in shoppers, `guest:<cartId>` for
+ * guests.
+ */
+
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { dualAuthMiddleware } from '@/core/auth/middleware';
+import type { ApiTokenScope } from '@/core/auth/api-token';
+import { JwtUtils } from '@/utils/jwt';
+import { sendError } from '@/utils/response';
+
+export const CART_TOKEN_HEADER = 'x-cart-token';
+
+const GUEST_OWNER_PREFIX = 'guest:';
+const CART_TOKEN_TYPE = 'guest_cart';
+const CART_TOKEN_TTL = '30d';
+
+export function guestCartOwner(cartId: string): string {
+  return `${GUEST_OWNER_PREFIX}${cartId}`;
+}
+
+/**
+ * Cart id of a guest owner key, or null for user owners
+ */
+export function parseGuestCartOwner(ownerId: string): string | null {
+  return ownerId.startsWith(GUEST_OWNER_PREFIX) ? ownerId.slice(GUEST_OWNER_PREFIX.length) : null;
+}
+
+export function signCartToken(cartId: string): string {
+  return JwtUtils.sign({ type: CART_TOKEN_TYPE, cartId }, CART_TOKEN_TTL);
+}
+
+/**
+ * Cart id carried by a cart token, or null when the token is invalid,
+ * expired or not a cart token
+ */
+export function verifyCartToken(token: string | undefined | null): string | null {
+  if (!token) return null;
+
+  try {
+    const payload = JwtUtils.verify(token) as unknown as { type?: string; cartId?: unknown };
+    return payload.type === CART_TOKEN_TYPE && typeof payload.cartId === 'string' ? payload.cartId : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readCartToken(request: FastifyRequest): string | undefined {
+  const header = request.headers[CART_TOKEN_HEADER];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Authenticates as the signed-in user when an Authorization header is present,
+ * otherwise as the guest cart named by the cart token.
+ */
+export function cartOwnerMiddleware(...requiredScopes: ApiTokenScope[]) {
+  const authenticate = dualAuthMiddleware(...requiredScopes);
+
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    if (request.headers.authorization) {
+      await authenticate(request, reply);
+      return;
+    }
+
+    const cartId = verifyCartToken(readCartToken(request));
+    if (!cartId) {
+      sendError(reply, 401, 'UNAUTHORIZED', 'Missing authorization header or cart token');
+      return;
+    }
+    request.guestCartId = cartId;
+  };
+}
+
+/**
+ * Cart owner key for a request that passed cartOwnerMiddleware
+ */
+export function getCartOwnerId(request: FastifyRequest): string {
+  return request.user ? request.user.id : guestCartOwner(request.guestCartId!);
+}
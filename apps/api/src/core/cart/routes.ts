@@ -4,14 +4,14 @@
 
 import { FastifyInstance } from 'fastify';
 import { CartService } from './service';
-import { dualAuthMiddleware } from '@/core/auth/middleware';
 import { storeContextMiddleware } from '@/middleware/store-context';
 import { sendSuccess, sendError } from '@/utils/response';
 import { cartSchemas } from './schemas';
+import { cartOwnerMiddleware, getCartOwnerId, readCartToken } from './guest';
 
 export async function cartRoutes(fastify: FastifyInstance) {
-  // Apply dual auth (JWT or API token with cart:write scope) and store context
-  fastify.addHook('onRequest', dualAuthMiddleware('cart:write'));
+  // Apply dual auth (JWT or API token with cart:write scope), or a guest cart token, and store context
+  fastify.addHook('onRequest', cartOwnerMiddleware('cart:write'));
   fastify.addHook('onRequest', storeContextMiddleware);
 
   // Get cart
@@ -25,8 +25,43 @@ export async function cartRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const cart = await CartService.getCart(request.user!.id);
+      const { currency, country, state, postalCode, shippingMethodId } = request.query as {
+        currency?: string;
+        country?: string;
+        state?: string;
+        postalCode?: string;
+        shippingMethodId?: string;
+      };
+      const taxAddress = country ? { country, state, postalCode } : null;
+      const cart = await CartService.getCart(getCartOwnerId(request), currency, taxAddress, shippingMethodId);
       return sendSuccess(reply, cart);
+    } catch (error: any) {
+      if (error.message === 'Shipping method is not available for this address') {
+        return sendError(reply, 400, 'BAD_REQUEST', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Get shipping options
+  fastify.get('/shipping-options', {
+    schema: {
+      tags: ['cart'],
+      summary: 'Get shipping options',
+      description: 'List shipping methods available for the cart and destination, cheapest first',
+      security: [{ bearerAuth: [] }],
+      ...cartSchemas.getShippingOptions,
+    }
+  }, async (request, reply) => {
+    try {
+      const { currency, country, state, postalCode } = request.query as {
+        currency?: string;
+        country: string;
+        state?: string;
+        postalCode?: string;
+      };
+      const options = await CartService.getShippingOptions(getCartOwnerId(request), { country, state, postalCode }, currency);
+      return sendSuccess(reply, options);
     } catch (error: any) {
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
     }
@@ -45,7 +80,7 @@ export async function cartRoutes(fastify: FastifyInstance) {
     try {
       const { productId, quantity, variantId, fulfillmentData } = request.body as any;
       const cart = await CartService.addToCart(
-        request.user!.id,
+        getCartOwnerId(request),
         productId,
         quantity,
         variantId,
@@ -54,7 +89,7 @@ export async function cartRoutes(fastify: FastifyInstance) {
       return sendSuccess(reply, cart);
     } catch (error: any) {
       const message = error.message;
-      if (message === 'Product or variant not found') {
+      if (message === 'Product or variant not found' || message === 'Cart not found') {
         return sendError(reply, 404, 'NOT_FOUND', message);
       }
       if (message === 'Product is not available' || message === 'Product is no longer available from source') {
@@ -79,11 +114,11 @@ export async function cartRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const { items } = request.body as any;
-      const cart = await (CartService as any).batchAddToCart(request.user!.id, items);
+      const cart = await (CartService as any).batchAddToCart(getCartOwnerId(request), items);
       return sendSuccess(reply, cart);
     } catch (error: any) {
       const message = error.message;
-      if (message.includes('Product or variant not found')) {
+      if (message.includes('Product or variant not found') || message === 'Cart not found') {
         return sendError(reply, 404, 'NOT_FOUND', message);
       }
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', message);
@@ -104,7 +139,7 @@ export async function cartRoutes(fastify: FastifyInstance) {
       const { itemId } = request.params as any;
       const { quantity } = request.body as any;
       const cart = await CartService.updateCartItem(
-        request.user!.id,
+        getCartOwnerId(request),
         itemId,
         quantity
       );
@@ -130,7 +165,7 @@ export async function cartRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const { itemId } = request.params as any;
-      const cart = await CartService.removeFromCart(request.user!.id, itemId);
+      const cart = await CartService.removeFromCart(getCartOwnerId(request), itemId);
       return sendSuccess(reply, cart);
     } catch (error: any) {
       if (error.code === 'P2025' || error.message === 'Cart item not found') {
@@ -140,6 +175,60 @@ export async function cartRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Save item for later
+  fastify.post('/items/:itemId/save-for-later', {
+    schema: {
+      tags: ['cart'],
+      summary: 'Save cart item for later',
+      description: 'Move a cart item to the customer\'s saved-for-later list',
+      security: [{ bearerAuth: [] }],
+      ...cartSchemas.saveForLater,
+    }
+  }, async (request, reply) => {
+    if (!request.user) {
+      return sendError(reply, 401, 'UNAUTHORIZED', 'Sign in to save items for later');
+    }
+    try {
+      const { itemId } = request.params as any;
+      const cart = await CartService.saveForLater(request.user.id, itemId);
+      return sendSuccess(reply, cart);
+    } catch (error: any) {
+      if (error.message === 'Cart item not found') {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Merge guest cart into the signed-in user's cart
+  fastify.post('/merge', {
+    schema: {
+      tags: ['cart'],
+      summary: 'Merge guest cart',
+      description: 'Move the items of a guest cart into the user cart and delete the guest cart',
+      security: [{ bearerAuth: [] }],
+      ...cartSchemas.mergeGuestCart,
+    }
+  }, async (request, reply) => {
+    if (!request.user) {
+      return sendError(reply, 401, 'UNAUTHORIZED', 'Sign in to merge a guest cart');
+    }
+    try {
+      const { cartToken } = (request.body ?? {}) as { cartToken?: string };
+      const token = cartToken ?? readCartToken(request);
+      if (!token) {
+        return sendError(reply, 400, 'BAD_REQUEST', 'Cart token is required');
+      }
+      const cart = await CartService.mergeGuestCart(request.user.id, token);
+      return sendSuccess(reply, cart);
+    } catch (error: any) {
+      if (error.message === 'Invalid cart token') {
+        return sendError(reply, 400, 'BAD_REQUEST', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
   // Clear cart
   fastify.delete('/', {
     schema: {
@@ -151,7 +240,7 @@ export async function cartRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const cart = await CartService.clearCart(request.user!.id);
+      const cart = await CartService.clearCart(getCartOwnerId(request));
       return sendSuccess(reply, cart);
     } catch (error: any) {
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
@@ -175,7 +264,7 @@ export async function cartRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const { code } = request.body as any;
-      const cart = await (CartService as any).applyDiscount(request.user!.id, code);
+      const cart = await (CartService as any).applyDiscount(getCartOwnerId(request), code);
       return sendSuccess(reply, cart);
     } catch (error: any) {
       return reply.code(400).send({
@@ -195,10 +284,33 @@ export async function cartRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const { code } = request.params as any;
-      const cart = await (CartService as any).removeDiscount(request.user!.id, code);
+      const cart = await (CartService as any).removeDiscount(getCartOwnerId(request), code);
       return sendSuccess(reply, cart);
     } catch (error: any) {
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
     }
   });
 }
+
+/**
+ * Guest cart creation (no authentication)
+ */
+export async function guestCartRoutes(fastify: FastifyInstance) {
+  fastify.addHook('onRequest', storeContextMiddleware);
+
+  fastify.post('/', {
+    schema: {
+      tags: ['cart'],
+      summary: 'Create guest cart',
+      description: 'Create an anonymous cart and return the cart token that addresses it',
+      ...cartSchemas.createGuestCart,
+    }
+  }, async (_request, reply) => {
+    try {
+      const result = await CartService.createGuestCart();
+      return sendSuccess(reply, result, undefined, 201);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+}
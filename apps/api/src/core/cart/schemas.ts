@@ -5,6 +5,7 @@
  */
 
 import {
+  createTypedCreateResponses,
   createTypedCrudResponses,
   createTypedReadResponses,
   createTypedUpdateResponses,
@@ -30,6 +31,7 @@ const cartItemSchema = {
     requiresShipping: { type: 'boolean', description: 'Whether this item requires shipping address' },
     maxQuantity: { type: 'integer', description: 'Maximum quantity allowed (based on stock)' },
     subtotal: { type: 'number', description: 'Item subtotal (price * quantity)' },
+    tax: { type: 'number', description: 'Tax on this item after discounts' },
     fulfillmentData: { type: 'object', nullable: true, additionalProperties: true, description: 'Supplier fulfillment payload' },
   },
   required: [
@@ -54,7 +56,7 @@ const cartSchema = {
   type: 'object',
   properties: {
     id: { type: 'string', description: 'Cart ID' },
-    userId: { type: 'string', description: 'User ID who owns the cart' },
+    userId: { type: 'string', nullable: true, description: 'User ID who owns the cart (null for guest carts)' },
     items: {
       type: 'array',
       items: cartItemSchema,
@@ -67,6 +69,10 @@ const cartSchema = {
     shipping: { type: 'number', description: 'Shipping amount' },
     discount: { type: 'number', description: 'Discount amount' },
     discountAmount: { type: 'number', description: 'Discount amount alias for compatibility' },
+    currency: { type: 'string', description: 'Currency of amounts (present when a currency was requested)' },
+    pricesIncludeTax: { type: 'boolean', description: 'Item prices already include tax (tax is not added to total)' },
+    shippingMethodId: { type: 'string', description: 'Selected shipping method (present when one was requested)' },
+    shippingMethodName: { type: 'string', description: 'Selected shipping method name' },
     appliedDiscounts: {
       type: 'array',
       description: 'Applied discount list',
@@ -103,6 +109,27 @@ const cartSchema = {
   ],
 } as const;
 
+// ============================================================================
+// Shipping Option Schema (Matches ShippingService output)
+// ============================================================================
+
+const shippingOptionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Shipping method ID (pass as shippingMethodId)' },
+    name: { type: 'string', description: 'Shipping method name' },
+    description: { type: 'string', nullable: true, description: 'Shipping method description' },
+    zoneId: { type: 'string', description: 'Matched shipping zone ID' },
+    zoneName: { type: 'string', description: 'Matched shipping zone name' },
+    amount: { type: 'number', description: 'Shipping cost' },
+    currency: { type: 'string', description: 'Currency of amount' },
+    freeShipping: { type: 'boolean', description: 'Free through a threshold or FREE_SHIPPING discount' },
+    minDeliveryDays: { type: 'integer', nullable: true, description: 'Estimated minimum delivery days' },
+    maxDeliveryDays: { type: 'integer', nullable: true, description: 'Estimated maximum delivery days' },
+  },
+  required: ['id', 'name', 'amount', 'currency', 'freeShipping'],
+} as const;
+
 // ============================================================================
 // Endpoint Schemas
 // ============================================================================
@@ -110,9 +137,34 @@ const cartSchema = {
 export const cartSchemas = {
   // GET /api/cart/
   getCart: {
+    querystring: {
+      type: 'object',
+      properties: {
+        currency: { type: 'string', minLength: 3, maxLength: 3, description: 'Currency for prices (ISO 4217; falls back to the shop currency when not enabled)' },
+        country: { type: 'string', minLength: 2, maxLength: 2, description: 'Destination country for the tax preview (defaults to the store tax country)' },
+        state: { type: 'string', description: 'Destination state/province for the tax preview' },
+        postalCode: { type: 'string', description: 'Destination postal code for the tax preview' },
+        shippingMethodId: { type: 'string', description: 'Shipping method to include in the totals (requires country)' },
+      },
+    },
     response: createTypedReadResponses(cartSchema),
   },
 
+  // GET /api/cart/shipping-options
+  getShippingOptions: {
+    querystring: {
+      type: 'object',
+      required: ['country'],
+      properties: {
+        country: { type: 'string', minLength: 2, maxLength: 2, description: 'Destination country (ISO 3166-1 alpha-2)' },
+        state: { type: 'string', description: 'Destination state/province' },
+        postalCode: { type: 'string', description: 'Destination postal code' },
+        currency: { type: 'string', minLength: 3, maxLength: 3, description: 'Currency for amounts (falls back to the shop currency when not enabled)' },
+      },
+    },
+    response: createTypedReadResponses({ type: 'array', items: shippingOptionSchema }),
+  },
+
   // POST /api/cart/items
   addToCart: {
     body: {
@@ -189,8 +241,43 @@ export const cartSchemas = {
     response: createTypedDeleteResponses(cartSchema),
   },
 
+  // POST /api/cart/items/:itemId/save-for-later
+  saveForLater: {
+    params: {
+      type: 'object',
+      required: ['itemId'],
+      properties: {
+        itemId: { type: 'string', description: 'Cart item ID to save for later' },
+      },
+    },
+    response: createTypedUpdateResponses(cartSchema),
+  },
+
   // DELETE /api/cart/
   clearCart: {
     response: createTypedDeleteResponses(cartSchema),
   },
+
+  // POST /api/cart/merge
+  mergeGuestCart: {
+    body: {
+      type: 'object',
+      properties: {
+        cartToken: { type: 'string', description: 'Guest cart token (defaults to the X-Cart-Token header)' },
+      },
+    },
+    response: createTypedCrudResponses(cartSchema),
+  },
+
+  // POST /api/cart/guest
+  createGuestCart: {
+    response: createTypedCreateResponses({
+      type: 'object',
+      properties: {
+        token: { type: 'string', description: 'Cart token; send it as X-Cart-Token on cart and checkout requests' },
+        cart: cartSchema,
+      },
+      required: ['token', 'cart'],
+    }),
+  },
 } as const;
@@ -7,6 +7,16 @@ import {
   resolveSupplierFulfillmentData,
 } from '@/core/external-orders/utils';
 import { InventoryService } from '@/core/inventory/service';
+import { CurrencyService, roundCurrencyAmount } from '@/core/currency/service';
+import { TaxService } from '@/core/tax/service';
+import type { TaxAddress } from '@/core/tax/types';
+import { ShippingService } from '@/core/shipping/service';
+import type { ShippingOption } from '@/core/shipping/types';
+import { DiscountType } from '@/core/discount/types';
+import { WishlistService } from '@/core/wishlist/service';
+import { CustomerGroupService } from '@/core/customer-groups/service';
+import { guestCartOwner, parseGuestCartOwner, signCartToken, verifyCartToken } from './guest';
+import type { Prisma } from '@prisma/client';
 
 export interface CartItem {
   id: string;
@@ -21,6 +31,7 @@ export interface CartItem {
   requiresShipping: boolean;
   maxQuantity: number;
   subtotal: number;
+  tax?: number;
   fulfillmentData?: Record<string, unknown> | null;
 }
 
@@ -34,7 +45,8 @@ export interface AppliedCartDiscount {
 
 export interface Cart {
   id: string;
-  userId: string;
+  /** null for guest carts */
+  userId: string | null;
   items: CartItem[];
   total: number;
   itemCount: number;
@@ -44,6 +56,10 @@ export interface Cart {
   discount: number;
   discountAmount: number;
   appliedDiscounts: AppliedCartDiscount[];
+  currency?: string;
+  pricesIncludeTax?: boolean;
+  shippingMethodId?: string;
+  shippingMethodName?: string;
   status: string;
   createdAt: string;
   updatedAt: string;
@@ -54,12 +70,16 @@ export interface Cart {
  *
  * Manages shopping cart operations with Redis caching and Prisma database persistence.
  * Handles cart item management including adding, updating, removing items and cart totals calculation.
+ *
+ * Methods take a cart owner key as `userId`: the user id, or `guest:<cartId>`
+ * (see ./guest) for anonymous carts addressed by a cart token.
  */
 export class CartService {
   private static CART_CACHE_PREFIX = 'user_cart:';
   private static CART_DISCOUNT_CACHE_PREFIX = 'user_cart_discounts:';
   private static CART_CACHE_TTL = 86400 * 7; // 7 days
   private static inMemoryDiscountCodes = new Map<string, string[]>();
+  private static currencyService = new CurrencyService();
 
   private static async ensureProductPurchasable(productId: string, variantId: string): Promise<void> {
     const [productLink, variantLink] = await Promise.all([
@@ -94,17 +114,63 @@ export class CartService {
    * Returns an empty cart if no cart exists for the user.
    *
    * @param userId - The unique identifier of the user
+   * @param currency - Optional shopper currency; amounts are converted from the base currency
+   * @param taxAddress - Optional destination for the tax and shipping preview; the store default applies to tax otherwise
+   * @param shippingMethodId - Optional shipping method to include in the totals (requires taxAddress)
    * @returns Promise resolving to the user's Cart with items and calculated totals
    *
    * @example
    * ```typescript
    * const cart = await CartService.getCart('user-123');
    * console.log(cart.items.length, cart.total);
+   * const eurCart = await CartService.getCart('user-123', 'EUR', { country: 'DE' }, 'method-1');
    * ```
    *
    * Error handling: Returns empty cart on any errors to ensure a valid response
+   * @throws Error if the shipping method is not available for the address
+   */
+  static async getCart(
+    userId: string,
+    currency?: string,
+    taxAddress?: TaxAddress | null,
+    shippingMethodId?: string
+  ): Promise<Cart> {
+    const baseCart = await this.getBaseCart(userId);
+    const cart = shippingMethodId && taxAddress
+      ? await this.applyShipping(baseCart, taxAddress, shippingMethodId)
+      : baseCart;
+    const presented = currency ? await this.presentInCurrency(cart, currency) : cart;
+    return this.applyTax(presented, taxAddress);
+  }
+
+  /**
+   * Shipping methods available for the user's cart
+   *
+   * Applied FREE_SHIPPING discount codes zero every option.
+   *
+   * @param userId - The unique identifier of the user
+   * @param address - Destination
+   * @param currency - Optional shopper currency for the amounts
+   * @returns Options cheapest first; empty when nothing needs shipping or no zone covers the address
    */
-  static async getCart(userId: string): Promise<Cart> {
+  static async getShippingOptions(
+    userId: string,
+    address: TaxAddress,
+    currency?: string
+  ): Promise<ShippingOption[]> {
+    const cart = await this.getBaseCart(userId);
+    if (cart.items.length === 0) {
+      return [];
+    }
+    return ShippingService.getOptions({
+      address,
+      currency: currency ? await this.currencyService.resolveCurrency(currency) : undefined,
+      items: cart.items.map((item) => ({ productId: item.productId, quantity: item.quantity, amount: item.subtotal })),
+      freeShipping: this.hasFreeShippingDiscount(cart),
+    });
+  }
+
+  private static async getBaseCart(userId: string): Promise<Cart> {
     try {
       const cacheKey = this.buildCacheKey(userId);
 
@@ -137,7 +203,8 @@ export class CartService {
    *
    * Creates a new cart if the user doesn't have one. If the item already exists in the cart,
    * increments its quantity. Otherwise, adds the item as a new cart entry. Automatically
-   * selects a default variant if none is specified.
+   * selects a default variant if none is specified. New items are priced at the
+   * customer's group price when one of their customer groups has one.
    *
    * @param userId - The unique identifier of the user
    * @param productId - The unique identifier of the product to add
@@ -153,6 +220,7 @@ export class CartService {
    *
    * Error scenarios:
    * - Product or variant not found: Throws 'Product or variant not found'
+   * - Product restricted to other customer groups: Throws 'Product is not available'
    * - Database errors: Propagated to caller
    */
   static async addToCart(
@@ -165,13 +233,13 @@ export class CartService {
     try {
       // Get or create cart
       let cart = await prisma.cart.findUnique({
-        where: { userId },
+        where: this.cartWhere(userId),
         include: { items: true }
       });
 
       if (!cart) {
         cart = await prisma.cart.create({
-          data: { userId, status: 'ACTIVE' },
+          data: this.newCartData(userId),
           include: { items: true }
         });
       }
@@ -206,6 +274,10 @@ export class CartService {
 
       await this.ensureProductPurchasable(productId, variant.id);
 
+      const customerGroupIds = await this.customerGroupIds(userId);
+      await CustomerGroupService.assertProductsVisible([productId], customerGroupIds);
+      const groupPrices = await CustomerGroupService.getGroupPrices(customerGroupIds, [variant.id]);
+
       const supplierProfile = getSupplierProductProfile(product.typeData);
       const resolvedFulfillmentData = supplierProfile.isSupplierProduct
         ? resolveSupplierFulfillmentData(supplierProfile, fulfillmentData)
@@ -236,7 +308,7 @@ export class CartService {
             productId,
             variantId: variant.id,
             quantity,
-            price: variant.salePrice,
+            price: groupPrices.get(variant.id) ?? variant.salePrice,
             fulfillmentData: (resolvedFulfillmentData ?? null) as any,
           }
         });
@@ -268,15 +340,21 @@ export class CartService {
       throw new Error('Items are required');
     }
 
+    const customerGroupIds = await this.customerGroupIds(userId);
+    await CustomerGroupService.assertProductsVisible(
+      Array.from(new Set(items.map((item) => item.productId))),
+      customerGroupIds
+    );
+
     await prisma.$transaction(async (tx) => {
       let cart = await tx.cart.findUnique({
-        where: { userId },
+        where: this.cartWhere(userId),
         include: { items: true },
       });
 
       if (!cart) {
         cart = await tx.cart.create({
-          data: { userId, status: 'ACTIVE' },
+          data: this.newCartData(userId),
           include: { items: true },
         });
       }
@@ -298,6 +376,10 @@ export class CartService {
         },
       });
       const productMap = new Map(products.map((product) => [product.id, product]));
+      const groupPrices = await CustomerGroupService.getGroupPrices(
+        customerGroupIds,
+        products.flatMap((product) => product.variants.map((variant) => variant.id))
+      );
 
       for (const item of items) {
         const quantity = Number(item.quantity ?? 1);
@@ -352,7 +434,7 @@ export class CartService {
               productId: item.productId,
               variantId: variant.id,
               quantity: normalizedQuantity,
-              price: variant.salePrice,
+              price: groupPrices.get(variant.id) ?? variant.salePrice,
               fulfillmentData: (resolvedFulfillmentData ?? null) as any,
             },
           });
@@ -379,7 +461,7 @@ export class CartService {
     const { DiscountService } = await import('@/core/discount/service');
     const validation = await DiscountService.validateDiscount({
       code: normalizedCode,
-      userId,
+      userId: this.discountUser(userId)?.id,
       cartTotal: cart.subtotal,
       productIds: cart.items.map((item) => item.productId),
     });
@@ -392,7 +474,7 @@ export class CartService {
     const candidateCodes = existingCodes.includes(normalizedCode)
       ? existingCodes
       : [...existingCodes, normalizedCode];
-    const result = await DiscountEngine.calculateDiscount(cart, candidateCodes, { id: userId });
+    const result = await DiscountEngine.calculateDiscount(cart, candidateCodes, this.discountUser(userId));
 
     if (result.appliedDiscounts.length === 0) {
       throw new Error('Discount code is not applicable');
@@ -463,7 +545,7 @@ export class CartService {
   ): Promise<Cart> {
     try {
       const cart = await prisma.cart.findUnique({
-        where: { userId },
+        where: this.cartWhere(userId),
         include: { items: true }
       });
 
@@ -514,7 +596,7 @@ export class CartService {
    */
   static async removeFromCart(userId: string, itemId: string): Promise<Cart> {
     try {
-      await prisma.cartItem.deleteMany({ where: { id: itemId } });
+      await prisma.cartItem.deleteMany({ where: { id: itemId, cart: this.cartWhere(userId) } });
       await this.clearAppliedDiscountCodes(userId);
       await this.invalidateCache(userId);
       return this.getCart(userId);
@@ -524,6 +606,54 @@ export class CartService {
     }
   }
 
+  /**
+   * Move a cart line to the customer's saved-for-later list
+   *
+   * The line keeps its quantity; moving it back re-adds it at the current
+   * price. Guest carts cannot save items.
+   *
+   * @param userId - The unique identifier of the user
+   * @param itemId - The cart item to save
+   * @returns Promise resolving to the updated Cart
+   * @throws Error if the cart is a guest cart or the item is not in it
+   */
+  static async saveForLater(userId: string, itemId: string): Promise<Cart> {
+    if (parseGuestCartOwner(userId)) {
+      throw new Error('Sign in to save items for later');
+    }
+
+    const item = await prisma.cartItem.findFirst({ where: { id: itemId, cart: this.cartWhere(userId) } });
+    if (!item) {
+      throw new Error('Cart item not found');
+    }
+
+    await WishlistService.saveForLater(userId, {
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      price: Number(item.price),
+    });
+    return this.removeFromCart(userId, item.id);
+  }
+
+  /**
+   * Move a wishlist or saved-for-later item into the cart
+   *
+   * The item leaves the list only once it was added to the cart, so items
+   * that are no longer available stay on the list.
+   *
+   * @param userId - The unique identifier of the user
+   * @param wishlistItemId - The wishlist item to move
+   * @returns Promise resolving to the updated Cart
+   * @throws Error if the item is not the user's or can no longer be purchased
+   */
+  static async moveFromWishlist(userId: string, wishlistItemId: string): Promise<Cart> {
+    const item = await WishlistService.getItemForCart(userId, wishlistItemId);
+    await this.addToCart(userId, item.productId, item.quantity, item.variantId);
+    await WishlistService.removeItem(userId, item.id);
+    return this.getCart(userId);
+  }
+
   /**
    * Clear all items from cart
    *
@@ -543,7 +673,7 @@ export class CartService {
    */
   static async clearCart(userId: string): Promise<Cart> {
     try {
-      const cart = await prisma.cart.findUnique({ where: { userId } });
+      const cart = await prisma.cart.findUnique({ where: this.cartWhere(userId) });
       if (cart) {
         await prisma.cartItem.deleteMany({ where: { cartId: cart.id } });
       }
@@ -556,10 +686,239 @@ export class CartService {
     }
   }
 
+  /**
+   * Create an empty guest cart
+   *
+   * @returns The cart and the signed cart token that addresses it (X-Cart-Token header)
+   */
+  static async createGuestCart(): Promise<{ token: string; cart: Cart }> {
+    const cart = await prisma.cart.create({
+      data: { userId: null, status: 'ACTIVE' },
+    });
+    return {
+      token: signCartToken(cart.id),
+      cart: await this.getCart(guestCartOwner(cart.id)),
+    };
+  }
+
+  /**
+   * Merge a guest cart into the user's cart after login
+   *
+   * Items are re-added through addToCart, so quantities combine only for lines
+   * with the same variant and fulfillment signature. Items that can no longer be
+   * purchased are dropped. The guest cart is deleted afterwards.
+   *
+   * @param userId - The unique identifier of the user
+   * @param cartToken - Guest cart token
+   * @returns Promise resolving to the user's updated Cart
+   * @throws Error 'Invalid cart token' if the token does not verify
+   */
+  static async mergeGuestCart(userId: string, cartToken: string): Promise<Cart> {
+    const guestCartId = verifyCartToken(cartToken);
+    if (!guestCartId) {
+      throw new Error('Invalid cart token');
+    }
+
+    const guestOwner = guestCartOwner(guestCartId);
+    const guestCart = await prisma.cart.findUnique({
+      where: this.cartWhere(guestOwner),
+      include: { items: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!guestCart) {
+      return this.getCart(userId);
+    }
+
+    for (const item of guestCart.items) {
+      try {
+        await this.addToCart(
+          userId,
+          item.productId,
+          item.quantity,
+          item.variantId,
+          parseJsonRecord(item.fulfillmentData) ?? undefined
+        );
+      } catch {
+        // Unavailable products are not carried over
+      }
+    }
+
+    await prisma.cart.deleteMany({ where: { id: guestCart.id, userId: null } });
+    await this.clearAppliedDiscountCodes(guestOwner);
+    await this.invalidateCache(guestOwner);
+    await this.invalidateCache(userId);
+    return this.getCart(userId);
+  }
+
   // ============================================
   // Private Methods
   // ============================================
 
+  /**
+   * Unique lookup for an owner's cart; guest carts never match a user cart
+   */
+  private static cartWhere(userId: string): Prisma.CartWhereUniqueInput {
+    const guestCartId = parseGuestCartOwner(userId);
+    return guestCartId ? { id: guestCartId, userId: null } : { userId };
+  }
+
+  /**
+   * Data for a cart created on first write. Guest carts are only created by
+   * createGuestCart, so a missing guest cart is an error.
+   */
+  private static newCartData(userId: string): Prisma.CartUncheckedCreateInput {
+    if (parseGuestCartOwner(userId)) {
+      throw new Error('Cart not found');
+    }
+    return { userId, status: 'ACTIVE' };
+  }
+
+  /**
+   * Customer the discount rules are checked for; guests have none
+   */
+  private static discountUser(userId: string): { id: string } | undefined {
+    return parseGuestCartOwner(userId) ? undefined : { id: userId };
+  }
+
+  /**
+   * Customer groups of the cart owner; guest carts are in none
+   */
+  private static customerGroupIds(userId: string): Promise<string[]> {
+    return CustomerGroupService.getUserGroupIds(this.discountUser(userId)?.id);
+  }
+
+  /**
+   * Re-price a base-currency cart in the shopper's currency
+   *
+   * Item prices use per-variant currency overrides when set, otherwise the stored
+   * unit price converted at the current rate. Cart-level amounts (discounts, tax,
+   * shipping) are converted at the same rate.
+   *
+   * @param cart - Cart with amounts in the shop base currency
+   * @param requestedCurrency - ISO 4217 code requested by the shopper
+   * @returns Cart with converted amounts and `currency` set
+   * @private
+   */
+  private static async presentInCurrency(cart: Cart, requestedCurrency: string): Promise<Cart> {
+    const currency = await this.currencyService.resolveCurrency(requestedCurrency);
+    const baseCurrency = await this.currencyService.getBaseCurrency();
+    if (currency === baseCurrency) {
+      return { ...cart, currency };
+    }
+
+    const prices = await this.currencyService.resolveVariantPrices(
+      cart.items.map((item) => ({ id: item.variantId, salePrice: item.price })),
+      currency
+    );
+    const convert = (amount: number) => this.currencyService.convertFromBase(amount, currency);
+
+    const items = cart.items.map((item) => {
+      const price = prices.get(item.variantId) ?? item.price;
+      return { ...item, price, subtotal: roundCurrencyAmount(price * item.quantity, currency) };
+    });
+    const subtotal = roundCurrencyAmount(items.reduce((sum, item) => sum + item.subtotal, 0), currency);
+    const [tax, shipping, discount] = await Promise.all([
+      convert(cart.tax),
+      convert(cart.shipping),
+      convert(cart.discount),
+    ]);
+    const appliedDiscounts = await Promise.all(
+      cart.appliedDiscounts.map(async (discount) => ({ ...discount, amount: await convert(discount.amount) }))
+    );
+
+    return {
+      ...cart,
+      items,
+      subtotal,
+      tax,
+      shipping,
+      discount,
+      discountAmount: discount,
+      appliedDiscounts,
+      total: Math.max(0, roundCurrencyAmount(subtotal + tax + shipping - discount, currency)),
+      currency,
+    };
+  }
+
+  private static hasFreeShippingDiscount(cart: Cart): boolean {
+    return cart.appliedDiscounts.some((discount) => discount.type === DiscountType.FREE_SHIPPING);
+  }
+
+  /**
+   * Add the selected shipping method to a base-currency cart
+   *
+   * @param cart - Cart with discounts applied, in the base currency
+   * @param address - Destination
+   * @param shippingMethodId - Selected method
+   * @returns Cart with `shipping`, the method and `total` updated
+   * @throws Error if the method is not available for the address and cart contents
+   * @private
+   */
+  private static async applyShipping(cart: Cart, address: TaxAddress, shippingMethodId: string): Promise<Cart> {
+    if (cart.items.length === 0) {
+      return cart;
+    }
+
+    const options = await ShippingService.getOptions({
+      address,
+      items: cart.items.map((item) => ({ productId: item.productId, quantity: item.quantity, amount: item.subtotal })),
+      freeShipping: this.hasFreeShippingDiscount(cart),
+    });
+    const option = options.find((candidate) => candidate.id === shippingMethodId);
+    if (!option) {
+      throw new Error('Shipping method is not available for this address');
+    }
+
+    return {
+      ...cart,
+      shipping: option.amount,
+      shippingMethodId: option.id,
+      shippingMethodName: option.name,
+      total: Math.max(0, cart.subtotal - cart.discount + cart.tax + option.amount),
+    };
+  }
+
+  /**
+   * Preview tax on a cart in its presentation currency
+   *
+   * Uses the same calculation as order creation (per-line tax on discounted
+   * amounts). With tax-inclusive pricing the tax is reported but not added.
+   *
+   * @param cart - Cart with discounts applied
+   * @param taxAddress - Destination; the store default applies when omitted
+   * @returns Cart with `tax`, per-item `tax`, `pricesIncludeTax` and `total` updated
+   * @private
+   */
+  private static async applyTax(cart: Cart, taxAddress?: TaxAddress | null): Promise<Cart> {
+    if (cart.items.length === 0) {
+      return cart;
+    }
+
+    const currency = cart.currency ?? await this.currencyService.getBaseCurrency();
+    const quote = await TaxService.quote({
+      address: taxAddress,
+      currency,
+      lines: cart.items.map((item) => ({
+        id: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        amount: item.subtotal,
+      })),
+      discountAmount: cart.discount,
+    });
+    const taxByLine = new Map(quote.lines.map((line) => [line.id, line.taxAmount]));
+    const net = cart.subtotal - cart.discount + cart.shipping;
+
+    return {
+      ...cart,
+      items: cart.items.map((item) => ({ ...item, tax: taxByLine.get(item.id) ?? 0 })),
+      tax: quote.taxAmount,
+      pricesIncludeTax: quote.pricesIncludeTax,
+      total: Math.max(0, roundCurrencyAmount(quote.pricesIncludeTax ? net : net + quote.taxAmount, currency)),
+    };
+  }
+
   /**
    * Build Redis cache key for user cart
    *
@@ -629,7 +988,7 @@ export class CartService {
     }
 
     const { DiscountEngine } = await import('@/core/discount/engine');
-    const result = await DiscountEngine.calculateDiscount(cart, appliedCodes, { id: userId });
+    const result = await DiscountEngine.calculateDiscount(cart, appliedCodes, this.discountUser(userId));
     const resultCodes = result.appliedDiscounts.map((discount) => discount.code.toUpperCase());
 
     if (resultCodes.length === 0) {
@@ -684,7 +1043,7 @@ export class CartService {
    */
   private static async getCartFromDatabase(userId: string): Promise<Cart | null> {
     const cart = await prisma.cart.findUnique({
-      where: { userId },
+      where: this.cartWhere(userId),
       include: {
         items: {
           include: {
@@ -755,9 +1114,10 @@ export class CartService {
    */
   private static createEmptyCart(userId: string): Cart {
     const now = new Date().toISOString();
+    const guestCartId = parseGuestCartOwner(userId);
     return {
-      id: '',
-      userId,
+      id: guestCartId ?? '',
+      userId: guestCartId ? null : userId,
       items: [],
       total: 0,
       itemCount: 0,
@@ -787,7 +1147,7 @@ export class CartService {
 
     return {
       id: typeof raw?.id === 'string' ? raw.id : '',
-      userId: typeof raw?.userId === 'string' ? raw.userId : userId,
+      userId: typeof raw?.userId === 'string' ? raw.userId : (parseGuestCartOwner(userId) ? null : userId),
       items,
       subtotal,
       tax,
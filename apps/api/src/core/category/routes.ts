@@ -0,0 +1,192 @@
+/**
+ * Admin Category Routes
+ *
+ * Category CRUD, drag-and-drop ordering, re-parenting and translations.
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { CategoryService } from './service';
+import { categorySchemas } from './schemas';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapCategoryRouteError } from '@/utils/route-error-mapper';
+
+function sendCategoryError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapCategoryRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+export async function adminCategoryRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin category routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // Get category tree
+  fastify.get('/', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Get category tree',
+      description: 'All categories nested under their parents, siblings in display order',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.getTree,
+    }
+  }, async (_request, reply) => {
+    try {
+      const tree = await CategoryService.getTree();
+      return sendSuccess(reply, tree);
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to get categories');
+    }
+  });
+
+  // Reorder siblings
+  fastify.put('/reorder', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Reorder categories',
+      description: 'Set the display order of all children of a parent',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.reorderCategories,
+    }
+  }, async (request, reply) => {
+    try {
+      const { parentId, categoryIds } = request.body as any;
+      const tree = await CategoryService.reorderCategories(parentId, categoryIds);
+      return sendSuccess(reply, tree);
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to reorder categories');
+    }
+  });
+
+  // Get category
+  fastify.get('/:id', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Get category',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.getCategory,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const category = await CategoryService.getCategory(id);
+      return sendSuccess(reply, category);
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to get category');
+    }
+  });
+
+  // Create category
+  fastify.post('/', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Create category',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.createCategory,
+    }
+  }, async (request, reply) => {
+    try {
+      const category = await CategoryService.createCategory(request.body as any);
+      return sendSuccess(reply, category, 'Category created', 201);
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to create category');
+    }
+  });
+
+  // Update category
+  fastify.put('/:id', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Update category',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.updateCategory,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const category = await CategoryService.updateCategory(id, request.body as any);
+      return sendSuccess(reply, category);
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to update category');
+    }
+  });
+
+  // Move category
+  fastify.post('/:id/move', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Move category',
+      description: 'Re-parent and/or reposition a category; levels of its subtree are recomputed',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.moveCategory,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const category = await CategoryService.moveCategory(id, request.body as any);
+      return sendSuccess(reply, category);
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to move category');
+    }
+  });
+
+  // Delete category
+  fastify.delete('/:id', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Delete category',
+      description: 'Children move up to the parent; products move to reassignProductsTo',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.deleteCategory,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { reassignProductsTo } = request.query as any;
+      await CategoryService.deleteCategory(id, { reassignProductsTo });
+      return sendSuccess(reply, null, 'Category deleted');
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to delete category');
+    }
+  });
+
+  // Upsert translation
+  fastify.put('/:id/translations/:locale', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Set category translation',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.setTranslation,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, locale } = request.params as any;
+      const translation = await CategoryService.setTranslation(id, locale, request.body as any);
+      return sendSuccess(reply, translation);
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to save category translation');
+    }
+  });
+
+  // Delete translation
+  fastify.delete('/:id/translations/:locale', {
+    schema: {
+      tags: ['admin-categories'],
+      summary: 'Delete category translation',
+      security: [{ bearerAuth: [] }],
+      ...categorySchemas.deleteTranslation,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, locale } = request.params as any;
+      await CategoryService.deleteTranslation(id, locale);
+      return sendSuccess(reply, null, 'Category translation deleted');
+    } catch (error: unknown) {
+      return sendCategoryError(reply, error, 'Failed to delete category translation');
+    }
+  });
+}
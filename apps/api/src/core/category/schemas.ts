@@ -0,0 +1,203 @@
+/**
+ * Admin Category OpenAPI Schemas
+ */
+
+import {
+  createTypedCreateResponses,
+  createTypedDeleteResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+} from '@/types/common-dto';
+import { LOCALES } from '@/utils/i18n';
+
+const categoryTranslationSchema = {
+  type: 'object',
+  properties: {
+    locale: { type: 'string', description: 'Locale code' },
+    name: { type: 'string', description: 'Translated name' },
+    description: { type: 'string', nullable: true, description: 'Translated description' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['locale', 'name', 'updatedAt'],
+} as const;
+
+export const categoryResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Category ID' },
+    name: { type: 'string', description: 'Category name' },
+    slug: { type: 'string', description: 'URL slug' },
+    description: { type: 'string', nullable: true, description: 'Category description' },
+    parentId: { type: 'string', nullable: true, description: 'Parent category ID' },
+    level: { type: 'integer', description: 'Depth in the tree, roots are level 1' },
+    sortOrder: { type: 'integer', description: 'Position among siblings' },
+    metaTitle: { type: 'string', nullable: true, description: 'SEO title' },
+    metaDescription: { type: 'string', nullable: true, description: 'SEO description' },
+    canonicalUrl: { type: 'string', nullable: true, description: 'SEO canonical URL' },
+    structuredData: { type: 'object', nullable: true, additionalProperties: true, description: 'JSON-LD structured data' },
+    productCount: { type: 'integer', description: 'Products directly in this category' },
+    childCount: { type: 'integer', description: 'Direct children' },
+    translations: { type: 'array', items: categoryTranslationSchema, description: 'Translations' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'name', 'slug', 'level', 'sortOrder', 'productCount', 'childCount', 'translations'],
+} as const;
+
+// Recursive tree nodes are described by a shallow schema; serialization keeps
+// nested children because `additionalProperties` is allowed on each node.
+const categoryTreeNodeSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    id: { type: 'string', description: 'Category ID' },
+    name: { type: 'string', description: 'Category name' },
+    slug: { type: 'string', description: 'URL slug' },
+    parentId: { type: 'string', nullable: true, description: 'Parent category ID' },
+    level: { type: 'integer', description: 'Depth in the tree, roots are level 1' },
+    sortOrder: { type: 'integer', description: 'Position among siblings' },
+    productCount: { type: 'integer', description: 'Products directly in this category' },
+    children: {
+      type: 'array',
+      items: { type: 'object', additionalProperties: true },
+      description: 'Child categories, same shape as this node',
+    },
+  },
+  required: ['id', 'name', 'slug', 'level', 'sortOrder', 'productCount', 'children'],
+} as const;
+
+const categoryTreeSchema = { type: 'array', items: categoryTreeNodeSchema } as const;
+
+const categoryIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Category ID' },
+  },
+} as const;
+
+const translationParams = {
+  type: 'object',
+  required: ['id', 'locale'],
+  properties: {
+    id: { type: 'string', description: 'Category ID' },
+    locale: { type: 'string', enum: [...LOCALES], description: 'Locale code' },
+  },
+} as const;
+
+const seoProperties = {
+  metaTitle: { type: 'string', nullable: true, maxLength: 200, description: 'SEO title' },
+  metaDescription: { type: 'string', nullable: true, maxLength: 500, description: 'SEO description' },
+  canonicalUrl: { type: 'string', nullable: true, maxLength: 500, description: 'SEO canonical URL' },
+  structuredData: { type: 'object', nullable: true, additionalProperties: true, description: 'JSON-LD structured data' },
+} as const;
+
+export const categorySchemas = {
+  // GET /api/admin/categories
+  getTree: {
+    response: createTypedReadResponses(categoryTreeSchema),
+  },
+
+  // GET /api/admin/categories/:id
+  getCategory: {
+    params: categoryIdParams,
+    response: createTypedReadResponses(categoryResponseSchema),
+  },
+
+  // POST /api/admin/categories
+  createCategory: {
+    body: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 200, description: 'Category name' },
+        slug: { type: 'string', maxLength: 80, description: 'URL slug, derived from the name when omitted' },
+        description: { type: 'string', nullable: true, description: 'Category description' },
+        parentId: { type: 'string', nullable: true, description: 'Parent category ID, omit for a root category' },
+        ...seoProperties,
+      },
+    },
+    response: createTypedCreateResponses(categoryResponseSchema),
+  },
+
+  // PUT /api/admin/categories/:id
+  updateCategory: {
+    params: categoryIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 200, description: 'Category name' },
+        slug: { type: 'string', minLength: 1, maxLength: 80, description: 'URL slug' },
+        description: { type: 'string', nullable: true, description: 'Category description' },
+        ...seoProperties,
+      },
+    },
+    response: createTypedUpdateResponses(categoryResponseSchema),
+  },
+
+  // POST /api/admin/categories/:id/move
+  moveCategory: {
+    params: categoryIdParams,
+    body: {
+      type: 'object',
+      required: ['parentId'],
+      properties: {
+        parentId: { type: 'string', nullable: true, description: 'New parent category ID, null for root' },
+        position: { type: 'integer', minimum: 0, description: 'Zero-based position among the new siblings' },
+      },
+    },
+    response: createTypedUpdateResponses(categoryResponseSchema),
+  },
+
+  // PUT /api/admin/categories/reorder
+  reorderCategories: {
+    body: {
+      type: 'object',
+      required: ['parentId', 'categoryIds'],
+      properties: {
+        parentId: { type: 'string', nullable: true, description: 'Parent whose children are reordered, null for roots' },
+        categoryIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Every child of the parent, in the new order',
+        },
+      },
+    },
+    response: createTypedUpdateResponses(categoryTreeSchema),
+  },
+
+  // DELETE /api/admin/categories/:id
+  deleteCategory: {
+    params: categoryIdParams,
+    querystring: {
+      type: 'object',
+      properties: {
+        reassignProductsTo: {
+          type: 'string',
+          description: 'Category that receives the products; required when the category has products',
+        },
+      },
+    },
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // PUT /api/admin/categories/:id/translations/:locale
+  setTranslation: {
+    params: translationParams,
+    body: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 200, description: 'Translated name' },
+        description: { type: 'string', nullable: true, description: 'Translated description' },
+      },
+    },
+    response: createTypedUpdateResponses(categoryTranslationSchema),
+  },
+
+  // DELETE /api/admin/categories/:id/translations/:locale
+  deleteTranslation: {
+    params: translationParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+} as const;
@@ -0,0 +1,436 @@
+/**
+ * Category Service
+ *
+ * Admin management of the category tree. `level` is denormalised on every
+ * row (roots are level 1), so anything that changes a parent also rewrites
+ * the levels of the moved subtree. Siblings are ordered by `sortOrder`,
+ * which is kept dense (0..n-1) whenever a sibling list changes.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { CacheService } from '@/core/cache/service';
+import { isSupportedLocale } from '@/utils/i18n';
+import {
+  CategoryResponse,
+  CategoryTranslationInput,
+  CategoryTranslationResponse,
+  CategoryTreeNode,
+  CreateCategoryInput,
+  DeleteCategoryInput,
+  MoveCategoryInput,
+  UpdateCategoryInput,
+} from './types';
+
+type CategoryTx = Pick<typeof prisma, 'category'>;
+
+const categoryDetailInclude = {
+  translations: { orderBy: { locale: 'asc' } },
+  _count: { select: { products: true, children: true } },
+} satisfies Prisma.CategoryInclude;
+
+type CategoryWithDetails = Prisma.CategoryGetPayload<{ include: typeof categoryDetailInclude }>;
+
+function normalizeSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+function formatTranslation(translation: CategoryWithDetails['translations'][number]): CategoryTranslationResponse {
+  return {
+    locale: translation.locale,
+    name: translation.name,
+    description: translation.description,
+    updatedAt: translation.updatedAt.toISOString(),
+  };
+}
+
+function formatCategory(category: CategoryWithDetails): CategoryResponse {
+  return {
+    id: category.id,
+    name: category.name,
+    slug: category.slug,
+    description: category.description,
+    parentId: category.parentId,
+    level: category.level,
+    sortOrder: category.sortOrder,
+    metaTitle: category.metaTitle,
+    metaDescription: category.metaDescription,
+    canonicalUrl: category.canonicalUrl,
+    structuredData: (category.structuredData as Record<string, unknown> | null) ?? null,
+    productCount: category._count.products,
+    childCount: category._count.children,
+    translations: category.translations.map(formatTranslation),
+    createdAt: category.createdAt.toISOString(),
+    updatedAt: category.updatedAt.toISOString(),
+  };
+}
+
+function seoData(input: CreateCategoryInput | UpdateCategoryInput) {
+  const data: Prisma.CategoryUpdateInput = {};
+  if (input.metaTitle !== undefined) data.metaTitle = input.metaTitle;
+  if (input.metaDescription !== undefined) data.metaDescription = input.metaDescription;
+  if (input.canonicalUrl !== undefined) data.canonicalUrl = input.canonicalUrl;
+  if (input.structuredData !== undefined) {
+    data.structuredData = input.structuredData === null
+      ? Prisma.DbNull
+      : (input.structuredData as Prisma.InputJsonValue);
+  }
+  return data;
+}
+
+export class CategoryService {
+  /**
+   * Whole category tree, siblings ordered by sortOrder then name.
+   */
+  static async getTree(): Promise<CategoryTreeNode[]> {
+    const categories = await prisma.category.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        parentId: true,
+        level: true,
+        sortOrder: true,
+        _count: { select: { products: true } },
+      },
+    });
+
+    const nodes = new Map<string, CategoryTreeNode>();
+    for (const category of categories) {
+      nodes.set(category.id, {
+        id: category.id,
+        name: category.name,
+        slug: category.slug,
+        parentId: category.parentId,
+        level: category.level,
+        sortOrder: category.sortOrder,
+        productCount: category._count.products,
+        children: [],
+      });
+    }
+
+    const roots: CategoryTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots;
+  }
+
+  static async getCategory(id: string): Promise<CategoryResponse> {
+    const category = await prisma.category.findUnique({ where: { id }, include: categoryDetailInclude });
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    return formatCategory(category);
+  }
+
+  static async createCategory(input: CreateCategoryInput): Promise<CategoryResponse> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Category name is required');
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const parentId = input.parentId || null;
+      let level = 1;
+      if (parentId) {
+        const parent = await tx.category.findUnique({ where: { id: parentId }, select: { level: true } });
+        if (!parent) {
+          throw new Error('Parent category not found');
+        }
+        level = parent.level + 1;
+      }
+
+      const slug = await this.resolveSlug(tx, input.slug ?? name);
+      const sortOrder = await tx.category.count({ where: { parentId } });
+
+      return tx.category.create({
+        data: {
+          name,
+          slug,
+          description: input.description ?? null,
+          parentId,
+          level,
+          sortOrder,
+          ...(seoData(input) as Prisma.CategoryUncheckedCreateInput),
+        },
+        include: categoryDetailInclude,
+      });
+    });
+
+    await CacheService.incrementProductVersion();
+    return formatCategory(created);
+  }
+
+  static async updateCategory(id: string, input: UpdateCategoryInput): Promise<CategoryResponse> {
+    const updated = await prisma.$transaction(async (tx) => {
+      const existing = await tx.category.findUnique({ where: { id }, select: { id: true } });
+      if (!existing) {
+        throw new Error('Category not found');
+      }
+
+      const data: Prisma.CategoryUpdateInput = seoData(input);
+      if (input.name !== undefined) {
+        const name = input.name.trim();
+        if (!name) {
+          throw new Error('Category name is required');
+        }
+        data.name = name;
+      }
+      if (input.slug !== undefined) {
+        data.slug = await this.resolveSlug(tx, input.slug, id);
+      }
+      if (input.description !== undefined) data.description = input.description;
+
+      return tx.category.update({ where: { id }, data, include: categoryDetailInclude });
+    });
+
+    await CacheService.incrementProductVersion();
+    return formatCategory(updated);
+  }
+
+  /**
+   * Re-parent and/or reposition a category. The category cannot be moved
+   * under itself or one of its descendants; levels of the whole subtree
+   * follow the new parent.
+   */
+  static async moveCategory(id: string, input: MoveCategoryInput): Promise<CategoryResponse> {
+    const moved = await prisma.$transaction(async (tx) => {
+      const category = await tx.category.findUnique({ where: { id }, select: { id: true, parentId: true } });
+      if (!category) {
+        throw new Error('Category not found');
+      }
+
+      const parentId = input.parentId || null;
+      let level = 1;
+      if (parentId) {
+        if (parentId === id) {
+          throw new Error('Category cannot be moved under itself or its descendants');
+        }
+        const parent = await tx.category.findUnique({ where: { id: parentId }, select: { level: true } });
+        if (!parent) {
+          throw new Error('Parent category not found');
+        }
+        const descendantIds = await this.collectDescendantIds(tx, [id]);
+        if (descendantIds.includes(parentId)) {
+          throw new Error('Category cannot be moved under itself or its descendants');
+        }
+        level = parent.level + 1;
+      }
+
+      const siblings = await tx.category.findMany({
+        where: { parentId, id: { not: id } },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+        select: { id: true },
+      });
+      const orderedIds = siblings.map((sibling) => sibling.id);
+      const position = input.position === undefined
+        ? orderedIds.length
+        : Math.min(Math.max(0, input.position), orderedIds.length);
+      orderedIds.splice(position, 0, id);
+
+      await tx.category.update({ where: { id }, data: { parentId, level } });
+      await this.applySortOrder(tx, orderedIds);
+      await this.updateSubtreeLevels(tx, id, level);
+
+      if (category.parentId !== parentId) {
+        await this.compactSiblings(tx, category.parentId);
+      }
+
+      return tx.category.findUniqueOrThrow({ where: { id }, include: categoryDetailInclude });
+    });
+
+    await CacheService.incrementProductVersion();
+    return formatCategory(moved);
+  }
+
+  /**
+   * Set the order of all children of `parentId` (null for roots). The list
+   * must contain exactly the current children.
+   */
+  static async reorderCategories(parentId: string | null, categoryIds: string[]): Promise<CategoryTreeNode[]> {
+    await prisma.$transaction(async (tx) => {
+      const siblings = await tx.category.findMany({ where: { parentId: parentId || null }, select: { id: true } });
+      const siblingIds = new Set(siblings.map((sibling) => sibling.id));
+      const requestedIds = new Set(categoryIds);
+      if (
+        requestedIds.size !== categoryIds.length ||
+        requestedIds.size !== siblingIds.size ||
+        categoryIds.some((categoryId) => !siblingIds.has(categoryId))
+      ) {
+        throw new Error('Category order must list every child of the parent exactly once');
+      }
+
+      await this.applySortOrder(tx, categoryIds);
+    });
+
+    await CacheService.incrementProductVersion();
+    return this.getTree();
+  }
+
+  /**
+   * Delete a category. Its children move up to its parent, and its products
+   * move to `reassignProductsTo`; deleting a category that still has products
+   * without a target is refused.
+   */
+  static async deleteCategory(id: string, input: DeleteCategoryInput = {}): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const category = await tx.category.findUnique({
+        where: { id },
+        select: { id: true, parentId: true, level: true, _count: { select: { products: true } } },
+      });
+      if (!category) {
+        throw new Error('Category not found');
+      }
+
+      const targetId = input.reassignProductsTo;
+      if (targetId) {
+        if (targetId === id) {
+          throw new Error('Products cannot be reassigned to the category being deleted');
+        }
+        const target = await tx.category.findUnique({ where: { id: targetId }, select: { id: true } });
+        if (!target) {
+          throw new Error('Target category not found');
+        }
+        await tx.product.updateMany({ where: { categoryId: id }, data: { categoryId: targetId } });
+      } else if (category._count.products > 0) {
+        throw new Error('Category has products; choose a category to reassign them to');
+      }
+
+      const children = await tx.category.findMany({
+        where: { parentId: id },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+        select: { id: true },
+      });
+      const siblings = await tx.category.findMany({
+        where: { parentId: category.parentId },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+        select: { id: true },
+      });
+      if (children.length > 0) {
+        await tx.category.updateMany({ where: { parentId: id }, data: { parentId: category.parentId } });
+        for (const child of children) {
+          await this.updateSubtreeLevels(tx, child.id, category.level);
+        }
+      }
+
+      // Platform links have no foreign key to categories
+      await tx.externalCategoryLink.deleteMany({ where: { coreCategoryId: id } });
+      await tx.category.delete({ where: { id } });
+
+      // Promoted children take the deleted category's place among its siblings
+      const orderedIds = siblings.flatMap((sibling) =>
+        sibling.id === id ? children.map((child) => child.id) : [sibling.id]
+      );
+      await this.applySortOrder(tx, orderedIds);
+    });
+
+    await CacheService.incrementProductVersion();
+  }
+
+  static async setTranslation(
+    id: string,
+    locale: string,
+    input: CategoryTranslationInput
+  ): Promise<CategoryTranslationResponse> {
+    if (!isSupportedLocale(locale)) {
+      throw new Error(`Unsupported locale: ${locale}`);
+    }
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Category name is required');
+    }
+
+    const category = await prisma.category.findUnique({ where: { id }, select: { id: true } });
+    if (!category) {
+      throw new Error('Category not found');
+    }
+
+    const translation = await prisma.categoryTranslation.upsert({
+      where: { categoryId_locale: { categoryId: id, locale } },
+      create: { categoryId: id, locale, name, description: input.description ?? null },
+      update: { name, description: input.description ?? null },
+    });
+
+    await CacheService.incrementProductVersion();
+    return formatTranslation(translation);
+  }
+
+  static async deleteTranslation(id: string, locale: string): Promise<void> {
+    const { count } = await prisma.categoryTranslation.deleteMany({ where: { categoryId: id, locale } });
+    if (count === 0) {
+      throw new Error('Category translation not found');
+    }
+    await CacheService.incrementProductVersion();
+  }
+
+  private static async resolveSlug(tx: CategoryTx, value: string, categoryId?: string): Promise<string> {
+    const baseSlug = normalizeSlug(value);
+    if (!baseSlug) {
+      throw new Error('Category slug is invalid');
+    }
+
+    let attempt = baseSlug;
+    let index = 0;
+    while (true) {
+      const existing = await tx.category.findUnique({ where: { slug: attempt }, select: { id: true } });
+      if (!existing || existing.id === categoryId) return attempt;
+      index += 1;
+      attempt = `${baseSlug}-${index}`;
+    }
+  }
+
+  private static async collectDescendantIds(tx: CategoryTx, rootIds: string[]): Promise<string[]> {
+    const descendants: string[] = [];
+    let frontier = rootIds;
+    while (frontier.length > 0) {
+      const children = await tx.category.findMany({ where: { parentId: { in: frontier } }, select: { id: true } });
+      frontier = children.map((child) => child.id);
+      descendants.push(...frontier);
+    }
+    return descendants;
+  }
+
+  /**
+   * Set `level` on the category and rewrite its descendants one generation
+   * at a time.
+   */
+  private static async updateSubtreeLevels(tx: CategoryTx, id: string, level: number): Promise<void> {
+    await tx.category.update({ where: { id }, data: { level } });
+    let frontier = [id];
+    let depth = level;
+    while (frontier.length > 0) {
+      depth += 1;
+      const children = await tx.category.findMany({ where: { parentId: { in: frontier } }, select: { id: true } });
+      if (children.length === 0) break;
+      frontier = children.map((child) => child.id);
+      await tx.category.updateMany({ where: { id: { in: frontier } }, data: { level: depth } });
+    }
+  }
+
+  private static async applySortOrder(tx: CategoryTx, orderedIds: string[]): Promise<void> {
+    for (const [sortOrder, categoryId] of orderedIds.entries()) {
+      await tx.category.update({ where: { id: categoryId }, data: { sortOrder } });
+    }
+  }
+
+  private static async compactSiblings(tx: CategoryTx, parentId: string | null): Promise<void> {
+    const siblings = await tx.category.findMany({
+      where: { parentId },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      select: { id: true },
+    });
+    await this.applySortOrder(tx, siblings.map((sibling) => sibling.id));
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Category Types
+ *
+ * Admin category management: CRUD, tree moves and translations.
+ */
+
+export interface CategorySeoInput {
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+  canonicalUrl?: string | null;
+  structuredData?: Record<string, unknown> | null;
+}
+
+export interface CreateCategoryInput extends CategorySeoInput {
+  name: string;
+  /** Derived from the name when omitted; made unique with a numeric suffix */
+  slug?: string;
+  description?: string | null;
+  parentId?: string | null;
+}
+
+export interface UpdateCategoryInput extends CategorySeoInput {
+  name?: string;
+  slug?: string;
+  description?: string | null;
+}
+
+export interface MoveCategoryInput {
+  /** New parent; null moves the category to the root */
+  parentId: string | null;
+  /** Zero-based position among the new siblings; appended when omitted */
+  position?: number;
+}
+
+export interface DeleteCategoryInput {
+  /** Category that receives the deleted category's products */
+  reassignProductsTo?: string;
+}
+
+export interface CategoryTranslationInput {
+  name: string;
+  description?: string | null;
+}
+
+export interface CategoryTranslationResponse {
+  locale: string;
+  name: string;
+  description: string | null;
+  updatedAt: string;
+}
+
+export interface CategoryResponse {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  parentId: string | null;
+  level: number;
+  sortOrder: number;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+  structuredData: Record<string, unknown> | null;
+  productCount: number;
+  childCount: number;
+  translations: CategoryTranslationResponse[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryTreeNode {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  level: number;
+  sortOrder: number;
+  productCount: number;
+  children: CategoryTreeNode[];
+}
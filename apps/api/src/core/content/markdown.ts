@@ -0,0 +1,169 @@
+/**
+ * Markdown Renderer
+ *
+ * Renders content bodies to HTML for the storefront. Only a safe subset of
+ * Markdown is supported: headings, paragraphs, lists, blockquotes, fenced
+ * code, horizontal rules, emphasis, inline code, links and images. Raw HTML
+ * in the source is escaped, and link/image URLs are limited to http(s),
+ * mailto and site-relative paths, so the output can be injected as-is.
+ */
+
+const SAFE_URL = /^(https?:\/\/|mailto:|\/(?!\/)|#)/i;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function safeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  return SAFE_URL.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Render inline Markdown of already-escaped text
+ */
+function renderInline(escaped: string): string {
+  // Code spans first so their content is not formatted
+  const codeSpans: string[] = [];
+  let html = escaped.replace(/`([^`]+)`/g, (_match, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  html = html.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (match, alt: string, url: string) => {
+    const href = safeUrl(url);
+    return href ? `<img src="${href}" alt="${alt}" loading="lazy" />` : match;
+  });
+  html = html.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) => {
+    const href = safeUrl(url);
+    if (!href) return match;
+    const external = /^https?:\/\//i.test(href) ? ' rel="noopener noreferrer" target="_blank"' : '';
+    return `<a href="${href}"${external}>${label}</a>`;
+  });
+  html = html
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/__([^_]+)__/g, '<strong>$1</strong>')
+    .replace(/\*([^*]+)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_([^_]+)_(?!\w)/g, '$1<em>$2</em>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => codeSpans[Number(index)]);
+}
+
+/**
+ * Render a Markdown document to HTML
+ */
+export function renderMarkdown(source: string): string {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const out: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      out.push(`<p>${paragraph.map((line) => renderInline(escapeHtml(line))).join('<br />')}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      out.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(escapeHtml(item))}</li>`).join('')}</${list.tag}>`);
+      list = null;
+    }
+  };
+  const flushQuote = () => {
+    if (quote.length > 0) {
+      out.push(`<blockquote>${renderMarkdown(quote.join('\n'))}</blockquote>`);
+      quote = [];
+    }
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushList();
+    flushQuote();
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^```\s*([\w-]*)\s*$/);
+    if (fence) {
+      flushAll();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      const language = fence[1] ? ` class="language-${fence[1]}"` : '';
+      out.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      flushParagraph();
+      flushList();
+      quote.push(line.replace(/^\s*>\s?/, ''));
+      continue;
+    }
+    flushQuote();
+
+    if (line.trim() === '') {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flushAll();
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(escapeHtml(heading[2]))}</h${level}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushAll();
+      out.push('<hr />');
+      continue;
+    }
+
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (bullet || numbered) {
+      flushParagraph();
+      const tag = bullet ? 'ul' : 'ol';
+      if (list && list.tag !== tag) flushList();
+      if (!list) list = { tag, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line.trim());
+  }
+
+  flushAll();
+  return out.join('\n');
+}
+
+/**
+ * Plain-text summary of a Markdown document (for excerpts and meta descriptions)
+ */
+export function summarizeMarkdown(source: string, maxLength = 200): string {
+  const text = source
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength - 1).trimEnd()}…`;
+}
@@ -0,0 +1,211 @@
+/**
+ * Content Routes
+ *
+ * Admin management of CMS pages and blog posts, and the public storefront
+ * endpoints that serve live entries.
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { ContentService } from './service';
+import { contentSchemas } from './schemas';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { DEFAULT_LOCALE } from '@/utils/i18n';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapContentRouteError } from '@/utils/route-error-mapper';
+
+function sendContentError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapContentRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+export async function adminContentRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin content routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // List pages and posts
+  fastify.get('/', {
+    schema: {
+      tags: ['admin-content'],
+      summary: 'List content entries',
+      security: [{ bearerAuth: [] }],
+      ...contentSchemas.listContent,
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await ContentService.listContent(request.query as any);
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to list content');
+    }
+  });
+
+  // Get entry
+  fastify.get('/:id', {
+    schema: {
+      tags: ['admin-content'],
+      summary: 'Get content entry',
+      security: [{ bearerAuth: [] }],
+      ...contentSchemas.getContent,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const entry = await ContentService.getContent(id);
+      return sendSuccess(reply, entry);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to get content entry');
+    }
+  });
+
+  // Create entry
+  fastify.post('/', {
+    schema: {
+      tags: ['admin-content'],
+      summary: 'Create content entry',
+      description: 'Create a page or blog post; a future publishedAt schedules a published entry',
+      security: [{ bearerAuth: [] }],
+      ...contentSchemas.createContent,
+    }
+  }, async (request, reply) => {
+    try {
+      const entry = await ContentService.createContent(request.body as any, request.user?.id ?? null);
+      return sendSuccess(reply, entry, 'Content created', 201);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to create content');
+    }
+  });
+
+  // Update entry
+  fastify.put('/:id', {
+    schema: {
+      tags: ['admin-content'],
+      summary: 'Update content entry',
+      security: [{ bearerAuth: [] }],
+      ...contentSchemas.updateContent,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const entry = await ContentService.updateContent(id, request.body as any);
+      return sendSuccess(reply, entry);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to update content');
+    }
+  });
+
+  // Delete entry
+  fastify.delete('/:id', {
+    schema: {
+      tags: ['admin-content'],
+      summary: 'Delete content entry',
+      security: [{ bearerAuth: [] }],
+      ...contentSchemas.deleteContent,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      await ContentService.deleteContent(id);
+      return sendSuccess(reply, null, 'Content deleted');
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to delete content');
+    }
+  });
+
+  // Upsert translation
+  fastify.put('/:id/translations/:locale', {
+    schema: {
+      tags: ['admin-content'],
+      summary: 'Set content translation',
+      security: [{ bearerAuth: [] }],
+      ...contentSchemas.setTranslation,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, locale } = request.params as any;
+      const translation = await ContentService.setTranslation(id, locale, request.body as any);
+      return sendSuccess(reply, translation);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to save content translation');
+    }
+  });
+
+  // Delete translation
+  fastify.delete('/:id/translations/:locale', {
+    schema: {
+      tags: ['admin-content'],
+      summary: 'Delete content translation',
+      security: [{ bearerAuth: [] }],
+      ...contentSchemas.deleteTranslation,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, locale } = request.params as any;
+      await ContentService.deleteTranslation(id, locale);
+      return sendSuccess(reply, null, 'Content translation deleted');
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to delete content translation');
+    }
+  });
+}
+
+export async function contentRoutes(fastify: FastifyInstance) {
+  // Get a live page
+  fastify.get('/pages/:slug', {
+    schema: {
+      tags: ['content'],
+      summary: 'Get page',
+      description: 'A published page in the requested locale, falling back to the default locale',
+      ...contentSchemas.getPage,
+    }
+  }, async (request, reply) => {
+    try {
+      const { slug } = request.params as any;
+      const { locale } = request.query as any;
+      const page = await ContentService.getPublishedPage(slug, locale || DEFAULT_LOCALE);
+      return sendSuccess(reply, page);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to get page');
+    }
+  });
+
+  // List live posts
+  fastify.get('/posts', {
+    schema: {
+      tags: ['content'],
+      summary: 'List blog posts',
+      description: 'Published posts, newest first',
+      ...contentSchemas.listPosts,
+    }
+  }, async (request, reply) => {
+    try {
+      const { locale, tag, page, limit } = request.query as any;
+      const result = await ContentService.listPublishedPosts({ locale: locale || DEFAULT_LOCALE, tag, page, limit });
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to list posts');
+    }
+  });
+
+  // Get a live post
+  fastify.get('/posts/:slug', {
+    schema: {
+      tags: ['content'],
+      summary: 'Get blog post',
+      ...contentSchemas.getPost,
+    }
+  }, async (request, reply) => {
+    try {
+      const { slug } = request.params as any;
+      const { locale } = request.query as any;
+      const post = await ContentService.getPublishedPost(slug, locale || DEFAULT_LOCALE);
+      return sendSuccess(reply, post);
+    } catch (error: unknown) {
+      return sendContentError(reply, error, 'Failed to get post');
+    }
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * Content OpenAPI Schemas
+ */
+
+import {
+  createPageResultSchema,
+  createTypedCreateResponses,
+  createTypedDeleteResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+} from '@/types/common-dto';
+import { LOCALES } from '@/utils/i18n';
+
+const CONTENT_TYPES = ['PAGE', 'POST'] as const;
+const CONTENT_STATUSES = ['DRAFT', 'PUBLISHED'] as const;
+
+const contentTranslationSchema = {
+  type: 'object',
+  properties: {
+    locale: { type: 'string', description: 'Locale code' },
+    title: { type: 'string', description: 'Translated title' },
+    excerpt: { type: 'string', nullable: true, description: 'Translated excerpt' },
+    body: { type: 'string', description: 'Translated Markdown body' },
+    metaTitle: { type: 'string', nullable: true, description: 'Translated SEO title' },
+    metaDescription: { type: 'string', nullable: true, description: 'Translated SEO description' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['locale', 'title', 'body', 'updatedAt'],
+} as const;
+
+const contentSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Content entry ID' },
+    type: { type: 'string', enum: [...CONTENT_TYPES] },
+    slug: { type: 'string', description: 'URL slug, unique per type' },
+    title: { type: 'string' },
+    status: { type: 'string', enum: [...CONTENT_STATUSES] },
+    visibility: { type: 'string', enum: ['draft', 'scheduled', 'live'], description: 'Whether the entry is visible yet' },
+    publishedAt: { type: 'string', format: 'date-time', nullable: true },
+    tags: { type: 'array', items: { type: 'string' } },
+    locales: { type: 'array', items: { type: 'string' }, description: 'Locales with a translation' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'type', 'slug', 'title', 'status', 'visibility', 'tags', 'locales', 'updatedAt'],
+} as const;
+
+export const contentResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Content entry ID' },
+    type: { type: 'string', enum: [...CONTENT_TYPES] },
+    slug: { type: 'string', description: 'URL slug, unique per type' },
+    title: { type: 'string' },
+    excerpt: { type: 'string', nullable: true },
+    body: { type: 'string', description: 'Markdown body' },
+    coverImage: { type: 'string', nullable: true, description: 'Cover image URL' },
+    tags: { type: 'array', items: { type: 'string' } },
+    status: { type: 'string', enum: [...CONTENT_STATUSES] },
+    visibility: { type: 'string', enum: ['draft', 'scheduled', 'live'], description: 'Whether the entry is visible yet' },
+    publishedAt: { type: 'string', format: 'date-time', nullable: true },
+    authorId: { type: 'string', nullable: true },
+    metaTitle: { type: 'string', nullable: true, description: 'SEO title' },
+    metaDescription: { type: 'string', nullable: true, description: 'SEO description' },
+    canonicalUrl: { type: 'string', nullable: true, description: 'SEO canonical URL' },
+    structuredData: { type: 'object', nullable: true, additionalProperties: true, description: 'JSON-LD structured data' },
+    translations: { type: 'array', items: contentTranslationSchema, description: 'Translations' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'type', 'slug', 'title', 'body', 'tags', 'status', 'visibility', 'translations'],
+} as const;
+
+const publicContentProperties = {
+  slug: { type: 'string' },
+  type: { type: 'string', enum: [...CONTENT_TYPES] },
+  locale: { type: 'string', description: 'Locale the text is in; the default locale when untranslated' },
+  title: { type: 'string' },
+  excerpt: { type: 'string', nullable: true },
+  coverImage: { type: 'string', nullable: true },
+  tags: { type: 'array', items: { type: 'string' } },
+  publishedAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+  metaTitle: { type: 'string', nullable: true },
+  metaDescription: { type: 'string', nullable: true },
+  canonicalUrl: { type: 'string', nullable: true },
+} as const;
+
+const publicContentSummarySchema = {
+  type: 'object',
+  properties: publicContentProperties,
+  required: ['slug', 'type', 'locale', 'title', 'tags', 'publishedAt', 'updatedAt'],
+} as const;
+
+const publicContentSchema = {
+  type: 'object',
+  properties: {
+    ...publicContentProperties,
+    bodyHtml: { type: 'string', description: 'Body rendered from Markdown, raw HTML escaped' },
+    structuredData: { type: 'object', nullable: true, additionalProperties: true },
+  },
+  required: ['slug', 'type', 'locale', 'title', 'bodyHtml', 'tags', 'publishedAt', 'updatedAt'],
+} as const;
+
+const contentIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Content entry ID' },
+  },
+} as const;
+
+const translationParams = {
+  type: 'object',
+  required: ['id', 'locale'],
+  properties: {
+    id: { type: 'string', description: 'Content entry ID' },
+    locale: { type: 'string', enum: [...LOCALES], description: 'Locale code' },
+  },
+} as const;
+
+const slugParams = {
+  type: 'object',
+  required: ['slug'],
+  properties: {
+    slug: { type: 'string', minLength: 1, maxLength: 80, description: 'URL slug' },
+  },
+} as const;
+
+const localeQuery = {
+  locale: { type: 'string', default: 'en', description: 'Language locale for translated content' },
+} as const;
+
+const seoProperties = {
+  metaTitle: { type: 'string', nullable: true, maxLength: 200, description: 'SEO title' },
+  metaDescription: { type: 'string', nullable: true, maxLength: 500, description: 'SEO description' },
+  canonicalUrl: { type: 'string', nullable: true, maxLength: 500, description: 'SEO canonical URL' },
+  structuredData: { type: 'object', nullable: true, additionalProperties: true, description: 'JSON-LD structured data' },
+} as const;
+
+const editableProperties = {
+  excerpt: { type: 'string', nullable: true, maxLength: 1000, description: 'Short summary for listings' },
+  body: { type: 'string', maxLength: 200000, description: 'Markdown body' },
+  coverImage: { type: 'string', nullable: true, maxLength: 500, description: 'Cover image URL' },
+  tags: { type: 'array', items: { type: 'string', maxLength: 40 }, maxItems: 20 },
+  status: { type: 'string', enum: [...CONTENT_STATUSES] },
+  publishedAt: {
+    type: 'string',
+    format: 'date-time',
+    nullable: true,
+    description: 'Publish date; a future date schedules the entry. Defaults to now when published',
+  },
+  ...seoProperties,
+} as const;
+
+export const contentSchemas = {
+  // GET /api/admin/content
+  listContent: {
+    querystring: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: [...CONTENT_TYPES] },
+        status: { type: 'string', enum: [...CONTENT_STATUSES] },
+        search: { type: 'string', description: 'Match title or slug' },
+        page: { type: 'integer', minimum: 1, default: 1 },
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+      },
+    },
+    response: createTypedReadResponses(createPageResultSchema(contentSummarySchema)),
+  },
+
+  // GET /api/admin/content/:id
+  getContent: {
+    params: contentIdParams,
+    response: createTypedReadResponses(contentResponseSchema),
+  },
+
+  // POST /api/admin/content
+  createContent: {
+    body: {
+      type: 'object',
+      required: ['type', 'title'],
+      properties: {
+        type: { type: 'string', enum: [...CONTENT_TYPES] },
+        title: { type: 'string', minLength: 1, maxLength: 200 },
+        slug: { type: 'string', maxLength: 80, description: 'URL slug, derived from the title when omitted' },
+        ...editableProperties,
+      },
+    },
+    response: createTypedCreateResponses(contentResponseSchema),
+  },
+
+  // PUT /api/admin/content/:id
+  updateContent: {
+    params: contentIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', minLength: 1, maxLength: 200 },
+        slug: { type: 'string', minLength: 1, maxLength: 80, description: 'URL slug' },
+        ...editableProperties,
+      },
+    },
+    response: createTypedUpdateResponses(contentResponseSchema),
+  },
+
+  // DELETE /api/admin/content/:id
+  deleteContent: {
+    params: contentIdParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // PUT /api/admin/content/:id/translations/:locale
+  setTranslation: {
+    params: translationParams,
+    body: {
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title: { type: 'string', minLength: 1, maxLength: 200 },
+        excerpt: { type: 'string', nullable: true, maxLength: 1000 },
+        body: { type: 'string', maxLength: 200000, description: 'Translated Markdown body' },
+        metaTitle: { type: 'string', nullable: true, maxLength: 200 },
+        metaDescription: { type: 'string', nullable: true, maxLength: 500 },
+      },
+    },
+    response: createTypedUpdateResponses(contentTranslationSchema),
+  },
+
+  // DELETE /api/admin/content/:id/translations/:locale
+  deleteTranslation: {
+    params: translationParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // GET /api/content/pages/:slug
+  getPage: {
+    params: slugParams,
+    querystring: { type: 'object', properties: localeQuery },
+    response: createTypedReadResponses(publicContentSchema),
+  },
+
+  // GET /api/content/posts
+  listPosts: {
+    querystring: {
+      type: 'object',
+      properties: {
+        ...localeQuery,
+        tag: { type: 'string', description: 'Only posts with this tag' },
+        page: { type: 'integer', minimum: 1, default: 1 },
+        limit: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+      },
+    },
+    response: createTypedReadResponses(createPageResultSchema(publicContentSummarySchema)),
+  },
+
+  // GET /api/content/posts/:slug
+  getPost: {
+    params: slugParams,
+    querystring: { type: 'object', properties: localeQuery },
+    response: createTypedReadResponses(publicContentSchema),
+  },
+} as const;
@@ -0,0 +1,432 @@
+/**
+ * Content Service
+ *
+ * CMS pages and blog posts. An entry is live once it is PUBLISHED and its
+ * `publishedAt` has passed, so publishing with a future date schedules it
+ * without a background job. Bodies are stored as Markdown and rendered to
+ * escaped HTML for the storefront; translations override the title, excerpt,
+ * body and SEO text per locale and fall back to the default-locale fields.
+ */
+
+import { ContentStatus, ContentType, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { PageResult } from '@/types/common-dto';
+import { DEFAULT_LOCALE, isSupportedLocale } from '@/utils/i18n';
+import { renderMarkdown } from './markdown';
+import {
+  ContentResponse,
+  ContentSummary,
+  ContentTranslationInput,
+  ContentTranslationResponse,
+  ContentVisibility,
+  CreateContentInput,
+  ListContentQuery,
+  ListPublishedPostsQuery,
+  PublicContentResponse,
+  PublicContentSummary,
+  UpdateContentInput,
+} from './types';
+
+const contentDetailInclude = {
+  translations: { orderBy: { locale: 'asc' } },
+} satisfies Prisma.ContentEntryInclude;
+
+type ContentWithDetails = Prisma.ContentEntryGetPayload<{ include: typeof contentDetailInclude }>;
+type ContentTranslationRow = ContentWithDetails['translations'][number];
+
+const MAX_TAGS = 20;
+
+function normalizeSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const unique = new Set<string>();
+  for (const tag of tags) {
+    const normalized = tag.trim().toLowerCase().slice(0, 40);
+    if (normalized) unique.add(normalized);
+  }
+  if (unique.size > MAX_TAGS) {
+    throw new Error(`Content entries can have at most ${MAX_TAGS} tags`);
+  }
+  return [...unique];
+}
+
+function parsePublishedAt(value: string | null): Date | null {
+  if (value === null) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('Content publish date is invalid');
+  }
+  return date;
+}
+
+/**
+ * Where clause for entries visible on the storefront at `now`
+ */
+export function liveContentWhere(now: Date = new Date()): Prisma.ContentEntryWhereInput {
+  return { status: ContentStatus.PUBLISHED, publishedAt: { lte: now } };
+}
+
+function getVisibility(entry: { status: ContentStatus; publishedAt: Date | null }, now = new Date()): ContentVisibility {
+  if (entry.status !== ContentStatus.PUBLISHED || !entry.publishedAt) return 'draft';
+  return entry.publishedAt > now ? 'scheduled' : 'live';
+}
+
+function formatTranslation(translation: ContentTranslationRow): ContentTranslationResponse {
+  return {
+    locale: translation.locale,
+    title: translation.title,
+    excerpt: translation.excerpt,
+    body: translation.body,
+    metaTitle: translation.metaTitle,
+    metaDescription: translation.metaDescription,
+    updatedAt: translation.updatedAt.toISOString(),
+  };
+}
+
+function formatContent(entry: ContentWithDetails): ContentResponse {
+  return {
+    id: entry.id,
+    type: entry.type,
+    slug: entry.slug,
+    title: entry.title,
+    excerpt: entry.excerpt,
+    body: entry.body,
+    coverImage: entry.coverImage,
+    tags: entry.tags,
+    status: entry.status,
+    visibility: getVisibility(entry),
+    publishedAt: entry.publishedAt?.toISOString() ?? null,
+    authorId: entry.authorId,
+    metaTitle: entry.metaTitle,
+    metaDescription: entry.metaDescription,
+    canonicalUrl: entry.canonicalUrl,
+    structuredData: (entry.structuredData as Record<string, unknown> | null) ?? null,
+    translations: entry.translations.map(formatTranslation),
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Storefront view of an entry in `locale`, falling back to the default-locale
+ * fields for anything the translation leaves empty.
+ */
+function formatPublicContent(entry: ContentWithDetails, locale: string): PublicContentResponse {
+  const translation = locale === DEFAULT_LOCALE
+    ? undefined
+    : entry.translations.find((item) => item.locale === locale);
+
+  return {
+    slug: entry.slug,
+    type: entry.type,
+    locale: translation ? locale : DEFAULT_LOCALE,
+    title: translation?.title || entry.title,
+    excerpt: translation?.excerpt || entry.excerpt,
+    bodyHtml: renderMarkdown(translation?.body || entry.body),
+    coverImage: entry.coverImage,
+    tags: entry.tags,
+    publishedAt: (entry.publishedAt ?? entry.createdAt).toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+    metaTitle: translation?.metaTitle || entry.metaTitle,
+    metaDescription: translation?.metaDescription || entry.metaDescription,
+    canonicalUrl: entry.canonicalUrl,
+    structuredData: (entry.structuredData as Record<string, unknown> | null) ?? null,
+  };
+}
+
+function seoData(input: CreateContentInput | UpdateContentInput) {
+  const data: Prisma.ContentEntryUpdateInput = {};
+  if (input.metaTitle !== undefined) data.metaTitle = input.metaTitle;
+  if (input.metaDescription !== undefined) data.metaDescription = input.metaDescription;
+  if (input.canonicalUrl !== undefined) data.canonicalUrl = input.canonicalUrl;
+  if (input.structuredData !== undefined) {
+    data.structuredData = input.structuredData === null
+      ? Prisma.DbNull
+      : (input.structuredData as Prisma.InputJsonValue);
+  }
+  return data;
+}
+
+export class ContentService {
+  // ============================================================
+  // Admin
+  // ============================================================
+
+  static async listContent(query: ListContentQuery = {}): Promise<PageResult<ContentSummary>> {
+    const safePage = Math.max(1, Number(query.page) || 1);
+    const safeLimit = Math.min(100, Math.max(1, Number(query.limit) || 20));
+    const where: Prisma.ContentEntryWhereInput = {};
+    if (query.type) where.type = query.type;
+    if (query.status) where.status = query.status;
+    const search = query.search?.trim();
+    if (search) {
+      where.OR = [
+        { title: { contains: search, mode: 'insensitive' } },
+        { slug: { contains: search.toLowerCase() } },
+      ];
+    }
+
+    const [entries, total] = await Promise.all([
+      prisma.contentEntry.findMany({
+        where,
+        include: { translations: { select: { locale: true }, orderBy: { locale: 'asc' } } },
+        orderBy: [{ updatedAt: 'desc' }],
+        skip: (safePage - 1) * safeLimit,
+        take: safeLimit,
+      }),
+      prisma.contentEntry.count({ where }),
+    ]);
+
+    const now = new Date();
+    return {
+      items: entries.map((entry) => ({
+        id: entry.id,
+        type: entry.type,
+        slug: entry.slug,
+        title: entry.title,
+        status: entry.status,
+        visibility: getVisibility(entry, now),
+        publishedAt: entry.publishedAt?.toISOString() ?? null,
+        tags: entry.tags,
+        locales: entry.translations.map((translation) => translation.locale),
+        updatedAt: entry.updatedAt.toISOString(),
+      })),
+      page: safePage,
+      limit: safeLimit,
+      total,
+      totalPages: Math.ceil(total / safeLimit),
+    };
+  }
+
+  static async getContent(id: string): Promise<ContentResponse> {
+    const entry = await prisma.contentEntry.findUnique({ where: { id }, include: contentDetailInclude });
+    if (!entry) {
+      throw new Error('Content entry not found');
+    }
+    return formatContent(entry);
+  }
+
+  /**
+   * Create a page or post. Publishing without a date publishes immediately.
+   */
+  static async createContent(input: CreateContentInput, authorId: string | null): Promise<ContentResponse> {
+    const title = input.title.trim();
+    if (!title) {
+      throw new Error('Content title is required');
+    }
+
+    const status = input.status ?? ContentStatus.DRAFT;
+    let publishedAt = input.publishedAt !== undefined ? parsePublishedAt(input.publishedAt) : null;
+    if (status === ContentStatus.PUBLISHED && !publishedAt) {
+      publishedAt = new Date();
+    }
+
+    const slug = await this.resolveSlug(input.type, input.slug ?? title);
+    const created = await prisma.contentEntry.create({
+      data: {
+        type: input.type,
+        slug,
+        title,
+        excerpt: input.excerpt ?? null,
+        body: input.body ?? '',
+        coverImage: input.coverImage ?? null,
+        tags: normalizeTags(input.tags ?? []),
+        status,
+        publishedAt,
+        authorId,
+        ...(seoData(input) as Prisma.ContentEntryUncheckedCreateInput),
+      },
+      include: contentDetailInclude,
+    });
+
+    return formatContent(created);
+  }
+
+  static async updateContent(id: string, input: UpdateContentInput): Promise<ContentResponse> {
+    const existing = await prisma.contentEntry.findUnique({
+      where: { id },
+      select: { id: true, type: true, status: true, publishedAt: true },
+    });
+    if (!existing) {
+      throw new Error('Content entry not found');
+    }
+
+    const data: Prisma.ContentEntryUpdateInput = seoData(input);
+    if (input.title !== undefined) {
+      const title = input.title.trim();
+      if (!title) {
+        throw new Error('Content title is required');
+      }
+      data.title = title;
+    }
+    if (input.slug !== undefined) {
+      data.slug = await this.resolveSlug(existing.type, input.slug, id);
+    }
+    if (input.excerpt !== undefined) data.excerpt = input.excerpt;
+    if (input.body !== undefined) data.body = input.body;
+    if (input.coverImage !== undefined) data.coverImage = input.coverImage;
+    if (input.tags !== undefined) data.tags = normalizeTags(input.tags);
+    if (input.status !== undefined) data.status = input.status;
+
+    let publishedAt = input.publishedAt !== undefined ? parsePublishedAt(input.publishedAt) : existing.publishedAt;
+    if ((input.status ?? existing.status) === ContentStatus.PUBLISHED && !publishedAt) {
+      publishedAt = new Date();
+    }
+    if (publishedAt?.getTime() !== existing.publishedAt?.getTime()) {
+      data.publishedAt = publishedAt;
+    }
+
+    const updated = await prisma.contentEntry.update({ where: { id }, data, include: contentDetailInclude });
+    return formatContent(updated);
+  }
+
+  static async deleteContent(id: string): Promise<void> {
+    const { count } = await prisma.contentEntry.deleteMany({ where: { id } });
+    if (count === 0) {
+      throw new Error('Content entry not found');
+    }
+  }
+
+  static async setTranslation(
+    id: string,
+    locale: string,
+    input: ContentTranslationInput
+  ): Promise<ContentTranslationResponse> {
+    if (!isSupportedLocale(locale)) {
+      throw new Error(`Unsupported locale: ${locale}`);
+    }
+    if (locale === DEFAULT_LOCALE) {
+      throw new Error('Default locale content is edited on the entry itself');
+    }
+    const title = input.title.trim();
+    if (!title) {
+      throw new Error('Content title is required');
+    }
+
+    const entry = await prisma.contentEntry.findUnique({ where: { id }, select: { id: true } });
+    if (!entry) {
+      throw new Error('Content entry not found');
+    }
+
+    const fields = {
+      title,
+      excerpt: input.excerpt ?? null,
+      body: input.body ?? '',
+      metaTitle: input.metaTitle ?? null,
+      metaDescription: input.metaDescription ?? null,
+    };
+    const translation = await prisma.contentEntryTranslation.upsert({
+      where: { entryId_locale: { entryId: id, locale } },
+      create: { entryId: id, locale, ...fields },
+      update: fields,
+    });
+
+    return formatTranslation(translation);
+  }
+
+  static async deleteTranslation(id: string, locale: string): Promise<void> {
+    const { count } = await prisma.contentEntryTranslation.deleteMany({ where: { entryId: id, locale } });
+    if (count === 0) {
+      throw new Error('Content translation not found');
+    }
+  }
+
+  // ============================================================
+  // Storefront
+  // ============================================================
+
+  static async getPublishedPage(slug: string, locale: string): Promise<PublicContentResponse> {
+    return this.getPublishedEntry(ContentType.PAGE, slug, locale);
+  }
+
+  static async getPublishedPost(slug: string, locale: string): Promise<PublicContentResponse> {
+    return this.getPublishedEntry(ContentType.POST, slug, locale);
+  }
+
+  /**
+   * Live blog posts, newest first, optionally filtered by tag
+   */
+  static async listPublishedPosts(query: ListPublishedPostsQuery): Promise<PageResult<PublicContentSummary>> {
+    const safePage = Math.max(1, Number(query.page) || 1);
+    const safeLimit = Math.min(50, Math.max(1, Number(query.limit) || 10));
+    const where: Prisma.ContentEntryWhereInput = { type: ContentType.POST, ...liveContentWhere() };
+    const tag = query.tag?.trim().toLowerCase();
+    if (tag) where.tags = { has: tag };
+
+    const [entries, total] = await Promise.all([
+      prisma.contentEntry.findMany({
+        where,
+        include: this.localeInclude(query.locale),
+        orderBy: [{ publishedAt: 'desc' }],
+        skip: (safePage - 1) * safeLimit,
+        take: safeLimit,
+      }),
+      prisma.contentEntry.count({ where }),
+    ]);
+
+    return {
+      items: entries.map((entry) => {
+        const { bodyHtml: _bodyHtml, structuredData: _structuredData, ...summary } = formatPublicContent(entry, query.locale);
+        return summary;
+      }),
+      page: safePage,
+      limit: safeLimit,
+      total,
+      totalPages: Math.ceil(total / safeLimit),
+    };
+  }
+
+  /**
+   * Slugs and modification dates of every live entry, for the sitemap
+   */
+  static async getLiveEntries(): Promise<Array<{ type: ContentType; slug: string; updatedAt: Date }>> {
+    return prisma.contentEntry.findMany({
+      where: liveContentWhere(),
+      select: { type: true, slug: true, updatedAt: true },
+      orderBy: [{ type: 'asc' }, { publishedAt: 'desc' }],
+    });
+  }
+
+  private static async getPublishedEntry(type: ContentType, slug: string, locale: string): Promise<PublicContentResponse> {
+    const entry = await prisma.contentEntry.findFirst({
+      where: { type, slug: normalizeSlug(slug), ...liveContentWhere() },
+      include: this.localeInclude(locale),
+    });
+    if (!entry) {
+      throw new Error(type === ContentType.PAGE ? 'Page not found' : 'Post not found');
+    }
+    return formatPublicContent(entry, locale);
+  }
+
+  private static localeInclude(locale: string) {
+    return {
+      translations: { where: { locale }, orderBy: { locale: 'asc' } },
+    } satisfies Prisma.ContentEntryInclude;
+  }
+
+  private static async resolveSlug(type: ContentType, value: string, entryId?: string): Promise<string> {
+    const baseSlug = normalizeSlug(value);
+    if (!baseSlug) {
+      throw new Error('Content slug is invalid');
+    }
+
+    let attempt = baseSlug;
+    let index = 0;
+    while (true) {
+      const existing = await prisma.contentEntry.findUnique({
+        where: { type_slug: { type, slug: attempt } },
+        select: { id: true },
+      });
+      if (!existing || existing.id === entryId) return attempt;
+      index += 1;
+      attempt = `${baseSlug}-${index}`;
+    }
+  }
+}
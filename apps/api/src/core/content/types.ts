@@ -0,0 +1,135 @@
+/**
+ * Content Types
+ *
+ * CMS pages and blog posts: admin management, translations and the public
+ * storefront views.
+ */
+
+import type { ContentStatus, ContentType } from '@prisma/client';
+
+export interface ContentSeoInput {
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+  canonicalUrl?: string | null;
+  structuredData?: Record<string, unknown> | null;
+}
+
+export interface CreateContentInput extends ContentSeoInput {
+  type: ContentType;
+  title: string;
+  /** Derived from the title when omitted; made unique per type with a numeric suffix */
+  slug?: string;
+  excerpt?: string | null;
+  /** Markdown */
+  body?: string;
+  coverImage?: string | null;
+  tags?: string[];
+  status?: ContentStatus;
+  /** Publish date; a future date schedules a published entry */
+  publishedAt?: string | null;
+}
+
+export interface UpdateContentInput extends ContentSeoInput {
+  title?: string;
+  slug?: string;
+  excerpt?: string | null;
+  body?: string;
+  coverImage?: string | null;
+  tags?: string[];
+  status?: ContentStatus;
+  publishedAt?: string | null;
+}
+
+export interface ListContentQuery {
+  type?: ContentType;
+  status?: ContentStatus;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ContentTranslationInput {
+  title: string;
+  excerpt?: string | null;
+  body?: string;
+  metaTitle?: string | null;
+  metaDescription?: string | null;
+}
+
+export interface ContentTranslationResponse {
+  locale: string;
+  title: string;
+  excerpt: string | null;
+  body: string;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  updatedAt: string;
+}
+
+/** Whether a published entry is visible yet */
+export type ContentVisibility = 'draft' | 'scheduled' | 'live';
+
+export interface ContentSummary {
+  id: string;
+  type: ContentType;
+  slug: string;
+  title: string;
+  status: ContentStatus;
+  visibility: ContentVisibility;
+  publishedAt: string | null;
+  tags: string[];
+  locales: string[];
+  updatedAt: string;
+}
+
+export interface ContentResponse {
+  id: string;
+  type: ContentType;
+  slug: string;
+  title: string;
+  excerpt: string | null;
+  body: string;
+  coverImage: string | null;
+  tags: string[];
+  status: ContentStatus;
+  visibility: ContentVisibility;
+  publishedAt: string | null;
+  authorId: string | null;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+  structuredData: Record<string, unknown> | null;
+  translations: ContentTranslationResponse[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Storefront view of a live entry in one locale. `bodyHtml` is rendered from
+ * Markdown with raw HTML escaped, so themes can inject it directly.
+ */
+export interface PublicContentResponse {
+  slug: string;
+  type: ContentType;
+  locale: string;
+  title: string;
+  excerpt: string | null;
+  bodyHtml: string;
+  coverImage: string | null;
+  tags: string[];
+  publishedAt: string;
+  updatedAt: string;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+  structuredData: Record<string, unknown> | null;
+}
+
+export type PublicContentSummary = Omit<PublicContentResponse, 'bodyHtml' | 'structuredData'>;
+
+export interface ListPublishedPostsQuery {
+  locale: string;
+  tag?: string;
+  page?: number;
+  limit?: number;
+}
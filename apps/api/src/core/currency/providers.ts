@@ -0,0 +1,147 @@
+/**
+ * Exchange Rate Providers
+ *
+ * A provider turns a base currency into a table of `toCurrency -> rate` pairs.
+ * CurrencyService persists whatever the active provider returns as ExchangeRate rows,
+ * so lookups never depend on the provider being reachable at request time.
+ *
+ * Built-in providers:
+ * - `exchangerate-api`: exchangerate-api.com free tier (default, needs network)
+ * - `manual`: a rate table uploaded by an admin as CSV, usable fully offline
+ *
+ * Select the scheduled provider with EXCHANGE_RATE_PROVIDER, or register a custom
+ * one with `setExchangeRateProvider()`.
+ */
+
+const EXCHANGE_RATE_API_URL = 'https://api.exchangerate-api.com/v4/latest';
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+export interface ExchangeRateProvider {
+  /** Stored as ExchangeRate.source */
+  readonly name: string;
+  /** How long fetched rates stay valid; null means until replaced */
+  readonly validForMs: number | null;
+  fetchRates(baseCurrency: string): Promise<Record<string, number>>;
+}
+
+/**
+ * Exchange Rate API Response Format
+ */
+interface ExchangeRateApiResponse {
+  base: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+export class ExchangeRateApiProvider implements ExchangeRateProvider {
+  readonly name = 'exchangerate-api.com';
+  readonly validForMs = 24 * 60 * 60 * 1000;
+
+  async fetchRates(baseCurrency: string): Promise<Record<string, number>> {
+    try {
+      const response = await fetch(`${EXCHANGE_RATE_API_URL}/${baseCurrency}`);
+
+      if (!response.ok) {
+        throw new Error(`Exchange rate API returned ${response.status}`);
+      }
+
+      const data = await response.json() as ExchangeRateApiResponse;
+      return data.rates;
+    } catch (error) {
+      throw new Error(`Failed to fetch exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+/**
+ * Manual rate table, typically parsed from an admin CSV upload.
+ *
+ * Accepted CSV rows (header optional, `#` comments ignored):
+ * - `from,to,rate`  e.g. `USD,EUR,0.92`
+ * - `to,rate`       relative to the `defaultBase` passed to `fromCsv()`
+ */
+export class ManualRateProvider implements ExchangeRateProvider {
+  readonly name = 'manual';
+  readonly validForMs = null;
+
+  constructor(private readonly table: Map<string, Record<string, number>> = new Map()) {}
+
+  static fromCsv(csv: string, defaultBase?: string): ManualRateProvider {
+    const table = new Map<string, Record<string, number>>();
+    const lines = csv.split(/\r?\n/);
+
+    lines.forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) return;
+
+      const cells = line.split(',').map((cell) => cell.trim());
+      if (index === 0 && cells.some((cell) => /^(from|to|currency|rate)$/i.test(cell))) {
+        return;
+      }
+
+      let from: string | undefined;
+      let to: string;
+      let rateCell: string;
+      if (cells.length === 3) {
+        [from, to, rateCell] = cells;
+      } else if (cells.length === 2) {
+        [to, rateCell] = cells;
+        from = defaultBase;
+      } else {
+        throw new Error(`Line ${index + 1}: expected "from,to,rate" or "to,rate"`);
+      }
+
+      from = from?.toUpperCase();
+      to = to.toUpperCase();
+      const rate = Number(rateCell);
+
+      if (!from) {
+        throw new Error(`Line ${index + 1}: base currency is required for "to,rate" rows`);
+      }
+      if (!CURRENCY_CODE_PATTERN.test(from) || !CURRENCY_CODE_PATTERN.test(to)) {
+        throw new Error(`Line ${index + 1}: currency codes must be 3 letters`);
+      }
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw new Error(`Line ${index + 1}: rate must be a positive number`);
+      }
+
+      table.set(from, { ...(table.get(from) ?? {}), [to]: rate });
+    });
+
+    if (table.size === 0) {
+      throw new Error('CSV contains no exchange rates');
+    }
+
+    return new ManualRateProvider(table);
+  }
+
+  getBaseCurrencies(): string[] {
+    return [...this.table.keys()];
+  }
+
+  async fetchRates(baseCurrency: string): Promise<Record<string, number>> {
+    const rates = this.table.get(baseCurrency);
+    if (!rates) {
+      throw new Error(`No manual exchange rates for ${baseCurrency}`);
+    }
+    return { ...rates };
+  }
+}
+
+let activeProvider: ExchangeRateProvider | null = null;
+
+/**
+ * Provider used by scheduled and admin-triggered rate updates.
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (!activeProvider) {
+    activeProvider = process.env.EXCHANGE_RATE_PROVIDER === 'manual'
+      ? new ManualRateProvider()
+      : new ExchangeRateApiProvider();
+  }
+  return activeProvider;
+}
+
+export function setExchangeRateProvider(provider: ExchangeRateProvider | null): void {
+  activeProvider = provider;
+}
@@ -6,7 +6,7 @@ import { FastifyPluginAsync } from 'fastify';
 import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
 import { CurrencyService } from './service';
 import { sendSuccess, sendError } from '@/utils/response';
-import { ConversionRequestSchema } from './types';
+import { ConversionRequestSchema, ImportRatesSchema } from './types';
 
 const currencyService = new CurrencyService();
 
@@ -86,9 +86,9 @@ const currencyRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.post('/rates/update', {
         onRequest: [authMiddleware, requireAdmin]
     }, async (request, reply) => {
-        const { baseCurrency } = request.body as { baseCurrency?: string };
+        const { baseCurrency } = (request.body || {}) as { baseCurrency?: string };
 
-        const base = baseCurrency || 'USD';
+        const base = (baseCurrency || await currencyService.getBaseCurrency()).toUpperCase();
 
         if (base.length !== 3) {
             return sendError(reply, 400, 'BAD_REQUEST', 'Currency code must be 3 characters');
@@ -106,6 +106,38 @@ const currencyRoutes: FastifyPluginAsync = async (fastify) => {
         }
     });
 
+    // Import a manual exchange rate table (CSV), usable without network access
+    fastify.post('/rates/import', {
+        onRequest: [authMiddleware, requireAdmin],
+        schema: {
+            body: {
+                type: 'object',
+                required: ['csv'],
+                properties: {
+                    csv: { type: 'string', minLength: 1, description: 'CSV rows "from,to,rate" or "to,rate"' },
+                    baseCurrency: { type: 'string', minLength: 3, maxLength: 3, description: 'Base for "to,rate" rows (defaults to shop currency)' }
+                }
+            }
+        }
+    }, async (request, reply) => {
+        const validation = ImportRatesSchema.safeParse(request.body);
+        if (!validation.success) {
+            return sendError(reply, 400, 'BAD_REQUEST', validation.error.errors[0].message);
+        }
+
+        const { csv, baseCurrency } = validation.data;
+
+        try {
+            const result = await currencyService.importRatesFromCsv(csv, baseCurrency?.toUpperCase());
+            return sendSuccess(reply, result, `${result.importedCount} exchange rates imported successfully`);
+        } catch (error: any) {
+            if (/^(Line \d+|CSV contains)/.test(error.message || '')) {
+                return sendError(reply, 400, 'BAD_REQUEST', error.message);
+            }
+            return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message || 'Failed to import exchange rates');
+        }
+    });
+
     // Clear currency cache (admin only)
     fastify.post('/cache/clear', {
         onRequest: [authMiddleware, requireAdmin]
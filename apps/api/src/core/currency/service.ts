@@ -1,87 +1,131 @@
-// @ts-nocheck
 /**
  * Currency Service
  * Handles exchange rates, currency conversions, and currency-specific pricing using Prisma
+ *
+ * Catalog prices (ProductVariant.salePrice) are stored in the shop base currency
+ * (`localization.currency`). Storefront prices in another enabled currency come from a
+ * per-variant CurrencyPrice override when one exists, otherwise from the base price
+ * converted with the latest valid ExchangeRate.
  */
 
 import { prisma } from '@/config/database';
 import { CacheService } from '@/core/cache/service';
+import { systemSettingsService } from '@/core/admin/system-settings/service';
+import {
+  getExchangeRateProvider,
+  ManualRateProvider,
+  type ExchangeRateProvider,
+} from './providers';
 import type {
   ExchangeRateResponse,
   CurrencyPriceResponse,
-  ConversionResultResponse
+  ConversionResultResponse,
+  RateImportResultResponse,
 } from './types';
 
 const EXCHANGE_RATE_CACHE_KEY = 'currency:exchange_rates';
-const ENABLED_CURRENCIES_CACHE_KEY = 'currency:enabled_list';
 const CACHE_TTL = 3600; // 1 hour TTL for currency cache
-const EXCHANGE_RATE_API_URL = 'https://api.exchangerate-api.com/v4/latest';
 
 /**
- * Exchange Rate API Response Format
+ * Number of minor units for a currency (2 for USD, 0 for JPY, ...)
  */
-interface ExchangeRateApiResponse {
-  base: string;
-  date: string;
-  rates: Record<string, number>;
+function getFractionDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Round an amount to the minor unit of its currency
+ */
+export function roundCurrencyAmount(amount: number, currency: string): number {
+  const factor = 10 ** getFractionDigits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+function formatCurrencyPrice(currencyPrice: {
+  id: string;
+  variantId: string;
+  currency: string;
+  price: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}): CurrencyPriceResponse {
+  return {
+    id: currencyPrice.id,
+    variantId: currencyPrice.variantId,
+    currency: currencyPrice.currency,
+    price: Number(currencyPrice.price),
+    createdAt: currencyPrice.createdAt.toISOString(),
+    updatedAt: currencyPrice.updatedAt.toISOString()
+  };
 }
 
 export class CurrencyService {
+  constructor(private readonly provider: ExchangeRateProvider = getExchangeRateProvider()) {}
 
   /**
-   * Fetch exchange rates from external API
-   * Uses exchangerate-api.com free tier
+   * Fetch exchange rates from the configured provider
    */
   async fetchExchangeRates(baseCurrency: string = 'USD'): Promise<Record<string, number>> {
-    try {
-      const response = await fetch(`${EXCHANGE_RATE_API_URL}/${baseCurrency}`);
-
-      if (!response.ok) {
-        throw new Error(`Exchange rate API returned ${response.status}`);
-      }
-
-      const data: ExchangeRateApiResponse = await response.json();
-      return data.rates;
-    } catch (error) {
-      throw new Error(`Failed to fetch exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return this.provider.fetchRates(baseCurrency);
   }
 
   /**
    * Update exchange rates in database
-   * Fetches latest rates and stores them with validity period
+   * Fetches latest rates from the provider and stores them with its validity period
    */
-  async updateExchangeRates(baseCurrency: string = 'USD'): Promise<number> {
-    const rates = await this.fetchExchangeRates(baseCurrency);
+  async updateExchangeRates(
+    baseCurrency: string = 'USD',
+    provider: ExchangeRateProvider = this.provider
+  ): Promise<number> {
+    const rates = await provider.fetchRates(baseCurrency);
     const now = new Date();
-    const validUntil = new Date(now.getTime() + 24 * 60 * 60 * 1000); // Valid for 24 hours
-
-    let updatedCount = 0;
-
-    // Store each rate in the database
-    for (const [toCurrency, rate] of Object.entries(rates)) {
-      await prisma.exchangeRate.create({
-        data: {
-          fromCurrency: baseCurrency,
-          toCurrency,
-          rate,
-          validFrom: now,
-          validUntil,
-          source: 'exchangerate-api.com'
-        }
-      });
-      updatedCount++;
+    const validUntil = provider.validForMs === null ? null : new Date(now.getTime() + provider.validForMs);
+
+    const rows = Object.entries(rates)
+      .filter(([toCurrency, rate]) => toCurrency !== baseCurrency && Number.isFinite(rate) && rate > 0)
+      .map(([toCurrency, rate]) => ({
+        fromCurrency: baseCurrency,
+        toCurrency,
+        rate,
+        validFrom: now,
+        validUntil,
+        source: provider.name
+      }));
+
+    if (rows.length > 0) {
+      await prisma.exchangeRate.createMany({ data: rows });
     }
 
-    // Invalidate cache after update
-    await CacheService.delete(EXCHANGE_RATE_CACHE_KEY);
+    // Invalidate cached pair rates after update
+    await this.clearRateCache();
 
-    return updatedCount;
+    return rows.length;
+  }
+
+  /**
+   * Import a manual rate table (CSV) and store it as non-expiring rates
+   */
+  async importRatesFromCsv(csv: string, defaultBase?: string): Promise<RateImportResultResponse> {
+    const base = defaultBase ?? await this.getBaseCurrency();
+    const provider = ManualRateProvider.fromCsv(csv, base);
+    const baseCurrencies = provider.getBaseCurrencies();
+
+    let importedCount = 0;
+    for (const currency of baseCurrencies) {
+      importedCount += await this.updateExchangeRates(currency, provider);
+    }
+
+    return { importedCount, baseCurrencies, source: provider.name };
   }
 
   /**
    * Get exchange rate between two currencies
-   * Returns cached rate if available, otherwise fetches from database
+   * Returns cached rate if available, otherwise fetches from database.
+   * Falls back to the inverse of the reverse pair when only that one is stored.
    */
   async getExchangeRate(fromCurrency: string, toCurrency: string): Promise<number> {
     // Same currency, rate is 1
@@ -96,27 +140,21 @@ export class CurrencyService {
       return cached;
     }
 
-    // Fetch from database - get most recent valid rate
-    const now = new Date();
-    const exchangeRate = await prisma.exchangeRate.findFirst({
-      where: {
-        fromCurrency,
-        toCurrency,
-        validFrom: { lte: now },
-        OR: [
-          { validUntil: { gte: now } },
-          { validUntil: null }
-        ]
-      },
-      orderBy: { createdAt: 'desc' }
-    });
+    let rateValue: number | null = null;
+    const direct = await this.findLatestRate(fromCurrency, toCurrency);
+    if (direct) {
+      rateValue = Number(direct.rate);
+    } else {
+      const inverse = await this.findLatestRate(toCurrency, fromCurrency);
+      if (inverse && Number(inverse.rate) > 0) {
+        rateValue = 1 / Number(inverse.rate);
+      }
+    }
 
-    if (!exchangeRate) {
+    if (!rateValue) {
       throw new Error(`Exchange rate not found for ${fromCurrency} to ${toCurrency}`);
     }
 
-    const rateValue = Number(exchangeRate.rate);
-
     // Cache the rate
     await CacheService.set(cacheKey, rateValue, { ttl: CACHE_TTL });
 
@@ -128,7 +166,7 @@ export class CurrencyService {
    */
   async convertPrice(amount: number, fromCurrency: string, toCurrency: string): Promise<ConversionResultResponse> {
     const rate = await this.getExchangeRate(fromCurrency, toCurrency);
-    const convertedAmount = amount * rate;
+    const convertedAmount = roundCurrencyAmount(amount * rate, toCurrency);
 
     return {
       amount,
@@ -141,44 +179,97 @@ export class CurrencyService {
   }
 
   /**
-   * Get list of enabled currencies from system settings
-   * Returns array of currency codes
+   * Shop base currency (the currency catalog prices are stored in)
+   */
+  async getBaseCurrency(): Promise<string> {
+    return systemSettingsService.getShopCurrency();
+  }
+
+  /**
+   * Get list of enabled currencies from system settings (`currency.enabled`)
+   * The base currency is always enabled.
    */
   async getEnabledCurrencies(): Promise<string[]> {
-    // Try cache first
-    const cached = await CacheService.get<string[]>(ENABLED_CURRENCIES_CACHE_KEY);
-    if (cached) {
-      return cached;
-    }
+    const [settings, baseCurrency] = await Promise.all([
+      systemSettingsService.getAllSettings(),
+      this.getBaseCurrency()
+    ]);
 
-    // Fetch from system settings
-    const settings = await prisma.systemSettings.findUnique({
-      where: { id: 'system' }
-    });
+    const configured = Array.isArray(settings['currency.enabled'])
+      ? (settings['currency.enabled'] as unknown[])
+        .filter((code): code is string => typeof code === 'string')
+        .map((code) => code.trim().toUpperCase())
+      : [];
+
+    return Array.from(new Set([baseCurrency, ...configured]));
+  }
 
-    if (!settings?.settings) {
-      // Default to USD if no settings
-      return ['USD'];
+  /**
+   * Resolve the currency a storefront request should be priced in.
+   * Unknown or disabled currencies fall back to the base currency.
+   */
+  async resolveCurrency(requested?: string | null): Promise<string> {
+    const baseCurrency = await this.getBaseCurrency();
+    const normalized = requested?.trim().toUpperCase();
+    if (!normalized || normalized === baseCurrency) {
+      return baseCurrency;
     }
 
-    try {
-      const settingsObj = typeof settings.settings === 'string'
-        ? JSON.parse(settings.settings)
-        : settings.settings;
+    const enabled = await this.getEnabledCurrencies();
+    return enabled.includes(normalized) ? normalized : baseCurrency;
+  }
+
+  /**
+   * Resolve prices for many variants in one currency.
+   * Uses CurrencyPrice overrides first, then converts the base sale price.
+   *
+   * @returns Map of variantId to price in the requested currency
+   */
+  async resolveVariantPrices(
+    variants: Array<{ id: string; salePrice: unknown }>,
+    currency: string
+  ): Promise<Map<string, number>> {
+    const baseCurrency = await this.getBaseCurrency();
+    const prices = new Map<string, number>();
 
-      if (!settingsObj || typeof settingsObj !== 'object' || Array.isArray(settingsObj)) {
-        return ['USD'];
+    if (currency === baseCurrency) {
+      for (const variant of variants) {
+        prices.set(variant.id, Number(variant.salePrice));
       }
+      return prices;
+    }
 
-      const enabledCurrencies = (settingsObj as Record<string, unknown>)['currency.enabled'] || ['USD'];
+    const overrides = variants.length > 0
+      ? await prisma.currencyPrice.findMany({
+        where: { currency, variantId: { in: variants.map((variant) => variant.id) } },
+        select: { variantId: true, price: true }
+      })
+      : [];
+    const overrideMap = new Map(overrides.map((override) => [override.variantId, Number(override.price)]));
+
+    const needsConversion = variants.some((variant) => !overrideMap.has(variant.id));
+    const rate = needsConversion ? await this.getExchangeRate(baseCurrency, currency) : 1;
+
+    for (const variant of variants) {
+      prices.set(
+        variant.id,
+        overrideMap.get(variant.id) ?? roundCurrencyAmount(Number(variant.salePrice) * rate, currency)
+      );
+    }
 
-      // Cache the result
-      await CacheService.set(ENABLED_CURRENCIES_CACHE_KEY, enabledCurrencies, { ttl: CACHE_TTL });
+    return prices;
+  }
 
-      return enabledCurrencies;
-    } catch {
-      return ['USD'];
+  /**
+   * Convert an amount from the base currency (cart/order level amounts such as discounts)
+   */
+  async convertFromBase(amount: number, currency: string): Promise<number> {
+    const baseCurrency = await this.getBaseCurrency();
+    if (currency === baseCurrency) {
+      return amount;
     }
+    const rate = await this.getExchangeRate(baseCurrency, currency);
+    return roundCurrencyAmount(amount * rate, currency);
   }
 
   /**
@@ -195,18 +286,7 @@ export class CurrencyService {
       }
     });
 
-    if (!currencyPrice) {
-      return null;
-    }
-
-    return {
-      id: currencyPrice.id,
-      variantId: currencyPrice.variantId,
-      currency: currencyPrice.currency,
-      price: Number(currencyPrice.price),
-      createdAt: currencyPrice.createdAt.toISOString(),
-      updatedAt: currencyPrice.updatedAt.toISOString()
-    };
+    return currencyPrice ? formatCurrencyPrice(currencyPrice) : null;
   }
 
   /**
@@ -230,45 +310,25 @@ export class CurrencyService {
       }
     });
 
-    return {
-      id: currencyPrice.id,
-      variantId: currencyPrice.variantId,
-      currency: currencyPrice.currency,
-      price: Number(currencyPrice.price),
-      createdAt: currencyPrice.createdAt.toISOString(),
-      updatedAt: currencyPrice.updatedAt.toISOString()
-    };
+    return formatCurrencyPrice(currencyPrice);
   }
 
   /**
    * Get variant price in specified currency
    * Returns custom price if set, otherwise converts base price
    */
-  async getVariantPriceInCurrency(variantId: string, currency: string, baseCurrency: string = 'USD'): Promise<number> {
-    // First check if there's a custom price for this currency
-    const customPrice = await this.getCurrencyPrice(variantId, currency);
-    if (customPrice) {
-      return customPrice.price;
-    }
-
-    // No custom price, get base price and convert
+  async getVariantPriceInCurrency(variantId: string, currency: string): Promise<number> {
     const variant = await prisma.productVariant.findUnique({
       where: { id: variantId },
-      select: { salePrice: true }
+      select: { id: true, salePrice: true }
     });
 
     if (!variant) {
       throw new Error(`Variant ${variantId} not found`);
     }
 
-    // If requesting base currency, return sale price
-    if (currency === baseCurrency) {
-      return Number((variant as any).salePrice);
-    }
-
-    // Convert from base currency to requested currency
-    const rate = await this.getExchangeRate(baseCurrency, currency);
-    return Number((variant as any).salePrice) * rate;
+    const prices = await this.resolveVariantPrices([variant], currency);
+    return prices.get(variantId) ?? Number(variant.salePrice);
   }
 
   /**
@@ -298,7 +358,7 @@ export class CurrencyService {
         fromCurrency: item.fromCurrency,
         toCurrency: item.toCurrency,
         rate: Number(item.rate),
-        validFrom: item.validFrom?.toISOString() || '',
+        validFrom: item.validFrom.toISOString(),
         validUntil: item.validUntil?.toISOString() || null,
         source: item.source || '',
         createdAt: item.createdAt.toISOString(),
@@ -320,40 +380,43 @@ export class CurrencyService {
       orderBy: { currency: 'asc' }
     });
 
-    return prices.map(price => ({
-      id: price.id,
-      variantId: price.variantId,
-      currency: price.currency,
-      price: Number(price.price),
-      createdAt: price.createdAt.toISOString(),
-      updatedAt: price.updatedAt.toISOString()
-    }));
+    return prices.map(formatCurrencyPrice);
   }
 
   /**
    * Delete currency-specific price
    */
   async deleteCurrencyPrice(variantId: string, currency: string): Promise<boolean> {
-    try {
-      await prisma.currencyPrice.delete({
-        where: {
-          variantId_currency: {
-            variantId,
-            currency
-          }
-        }
-      });
-      return true;
-    } catch {
-      return false;
-    }
+    const result = await prisma.currencyPrice.deleteMany({
+      where: { variantId, currency }
+    });
+    return result.count > 0;
   }
 
   /**
    * Clear currency cache
    */
   async clearCache(): Promise<void> {
-    await CacheService.delete(EXCHANGE_RATE_CACHE_KEY);
-    await CacheService.delete(ENABLED_CURRENCIES_CACHE_KEY);
+    await this.clearRateCache();
+  }
+
+  private async findLatestRate(fromCurrency: string, toCurrency: string) {
+    const now = new Date();
+    return prisma.exchangeRate.findFirst({
+      where: {
+        fromCurrency,
+        toCurrency,
+        validFrom: { lte: now },
+        OR: [
+          { validUntil: { gte: now } },
+          { validUntil: null }
+        ]
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  private async clearRateCache(): Promise<void> {
+    await CacheService.clearByPrefix(`${EXCHANGE_RATE_CACHE_KEY}:`);
   }
 }
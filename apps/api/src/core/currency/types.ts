@@ -36,10 +36,17 @@ export const SetCurrencyPriceSchema = z.object({
   price: z.number().positive('Price must be positive'),
 });
 
+// Import Manual Exchange Rates Request (CSV rows: "from,to,rate" or "to,rate")
+export const ImportRatesSchema = z.object({
+  csv: z.string().min(1, 'CSV content is required'),
+  baseCurrency: z.string().length(3, 'Currency code must be 3 characters').optional(),
+});
+
 // TypeScript Type Inference
 export type ConversionRequest = z.infer<typeof ConversionRequestSchema>;
 export type CurrencySettings = z.infer<typeof CurrencySettingsSchema>;
 export type SetCurrencyPriceRequest = z.infer<typeof SetCurrencyPriceSchema>;
+export type ImportRatesRequest = z.infer<typeof ImportRatesSchema>;
 
 // Exchange Rate Response Interface
 export interface ExchangeRateResponse {
@@ -82,6 +89,13 @@ export interface ConversionResultResponse {
   timestamp: string;
 }
 
+// Manual Rate Import Result Response Interface
+export interface RateImportResultResponse {
+  importedCount: number;
+  baseCurrencies: string[];
+  source: string;
+}
+
 // Paginated Exchange Rate List Response (PageResult format)
 export interface ExchangeRateListResponse {
   items: ExchangeRateResponse[];
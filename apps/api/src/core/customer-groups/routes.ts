@@ -0,0 +1,306 @@
+/**
+ * Admin Customer Group Routes
+ *
+ * Customer groups, their manual members, group price lists and
+ * group-restricted products.
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { CustomerGroupService } from './service';
+import { customerGroupSchemas } from './schemas';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapCustomerGroupRouteError } from '@/utils/route-error-mapper';
+
+function sendCustomerGroupError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapCustomerGroupRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+export async function adminCustomerGroupRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin customer group routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // List groups
+  fastify.get('/', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'List customer groups',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.listGroups,
+    }
+  }, async (_request, reply) => {
+    try {
+      const groups = await CustomerGroupService.listGroups();
+      return sendSuccess(reply, groups);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to get customer groups');
+    }
+  });
+
+  // Groups of a customer
+  fastify.get('/customers/:userId', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Get customer group memberships',
+      description: 'Groups the customer was added to or matches by rule',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.getCustomerMemberships,
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.params as any;
+      const memberships = await CustomerGroupService.getCustomerMemberships(userId);
+      return sendSuccess(reply, memberships);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to get customer group memberships');
+    }
+  });
+
+  // Get group
+  fastify.get('/:id', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Get customer group',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.getGroup,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const group = await CustomerGroupService.getGroup(id);
+      return sendSuccess(reply, group);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to get customer group');
+    }
+  });
+
+  // Create group
+  fastify.post('/', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Create customer group',
+      description: 'Customers matching every rule set on the group are members without being added',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.createGroup,
+    }
+  }, async (request, reply) => {
+    try {
+      const group = await CustomerGroupService.createGroup(request.body as any);
+      return sendSuccess(reply, group, 'Customer group created', 201);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to create customer group');
+    }
+  });
+
+  // Update group
+  fastify.put('/:id', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Update customer group',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.updateGroup,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const group = await CustomerGroupService.updateGroup(id, request.body as any);
+      return sendSuccess(reply, group);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to update customer group');
+    }
+  });
+
+  // Delete group
+  fastify.delete('/:id', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Delete customer group',
+      description: 'Fails while discount codes are restricted to the group',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.deleteGroup,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      await CustomerGroupService.deleteGroup(id);
+      return sendSuccess(reply, null, 'Customer group deleted');
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to delete customer group');
+    }
+  });
+
+  // List members
+  fastify.get('/:id/members', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'List customer group members',
+      description: 'Manually added members; customers matching the group rules are not listed',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.listMembers,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { page, limit } = request.query as any;
+      const members = await CustomerGroupService.listMembers(id, page, limit);
+      return sendSuccess(reply, members);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to get customer group members');
+    }
+  });
+
+  // Add members
+  fastify.post('/:id/members', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Add customer group members',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.addMembers,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { userIds } = request.body as any;
+      const group = await CustomerGroupService.addMembers(id, userIds);
+      return sendSuccess(reply, group);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to add customer group members');
+    }
+  });
+
+  // Remove member
+  fastify.delete('/:id/members/:userId', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Remove customer group member',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.removeMember,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, userId } = request.params as any;
+      await CustomerGroupService.removeMember(id, userId);
+      return sendSuccess(reply, null, 'Customer group member removed');
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to remove customer group member');
+    }
+  });
+
+  // List group prices
+  fastify.get('/:id/prices', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'List customer group prices',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.listPrices,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const prices = await CustomerGroupService.listPrices(id);
+      return sendSuccess(reply, prices);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to get customer group prices');
+    }
+  });
+
+  // Set group prices
+  fastify.put('/:id/prices', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Set customer group prices',
+      description: 'Upsert variant prices for group members; prices of other variants are kept',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.setPrices,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { prices } = request.body as any;
+      const result = await CustomerGroupService.setPrices(id, prices);
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to set customer group prices');
+    }
+  });
+
+  // Remove group price
+  fastify.delete('/:id/prices/:variantId', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Remove customer group price',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.removePrice,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, variantId } = request.params as any;
+      await CustomerGroupService.removePrice(id, variantId);
+      return sendSuccess(reply, null, 'Customer group price removed');
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to remove customer group price');
+    }
+  });
+
+  // List restricted products
+  fastify.get('/:id/products', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'List customer group products',
+      description: 'Products only members of this or another assigned group can see',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.listProducts,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const products = await CustomerGroupService.listProducts(id);
+      return sendSuccess(reply, products);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to get customer group products');
+    }
+  });
+
+  // Restrict products
+  fastify.post('/:id/products', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Add customer group products',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.addProducts,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { productIds } = request.body as any;
+      const products = await CustomerGroupService.addProducts(id, productIds);
+      return sendSuccess(reply, products);
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to add customer group products');
+    }
+  });
+
+  // Lift product restriction
+  fastify.delete('/:id/products/:productId', {
+    schema: {
+      tags: ['admin-customer-groups'],
+      summary: 'Remove customer group product',
+      security: [{ bearerAuth: [] }],
+      ...customerGroupSchemas.removeProduct,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, productId } = request.params as any;
+      await CustomerGroupService.removeProduct(id, productId);
+      return sendSuccess(reply, null, 'Customer group product removed');
+    } catch (error: unknown) {
+      return sendCustomerGroupError(reply, error, 'Failed to remove customer group product');
+    }
+  });
+}
@@ -0,0 +1,271 @@
+/**
+ * Admin Customer Group OpenAPI Schemas
+ */
+
+import {
+  createPageResultSchema,
+  createTypedCreateResponses,
+  createTypedDeleteResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+} from '@/types/common-dto';
+
+export const customerGroupResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Customer group ID' },
+    name: { type: 'string', description: 'Group name' },
+    code: { type: 'string', description: 'Stable code, referenced by discount customer group restrictions' },
+    description: { type: 'string', nullable: true, description: 'Group description' },
+    minLifetimeSpend: { type: 'number', nullable: true, description: 'Rule: minimum sum of paid order totals' },
+    minOrderCount: { type: 'integer', nullable: true, description: 'Rule: minimum number of paid orders' },
+    emailDomains: { type: 'array', items: { type: 'string' }, description: 'Rule: customer email domains' },
+    memberCount: { type: 'integer', description: 'Manually added members' },
+    priceCount: { type: 'integer', description: 'Variants with a group price' },
+    productCount: { type: 'integer', description: 'Products restricted to the group' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'name', 'code', 'emailDomains', 'memberCount', 'priceCount', 'productCount'],
+} as const;
+
+const memberSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string', description: 'Customer ID' },
+    email: { type: 'string', description: 'Customer email' },
+    username: { type: 'string', description: 'Customer username' },
+    addedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['userId', 'email', 'username', 'addedAt'],
+} as const;
+
+const priceSchema = {
+  type: 'object',
+  properties: {
+    variantId: { type: 'string', description: 'Variant ID' },
+    variantName: { type: 'string', description: 'Variant name' },
+    productId: { type: 'string', description: 'Product ID' },
+    productName: { type: 'string', description: 'Product name' },
+    salePrice: { type: 'number', description: 'Regular variant sale price' },
+    price: { type: 'number', description: 'Group price in the base currency' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['variantId', 'variantName', 'productId', 'productName', 'salePrice', 'price'],
+} as const;
+
+const productSchema = {
+  type: 'object',
+  properties: {
+    productId: { type: 'string', description: 'Product ID' },
+    productName: { type: 'string', description: 'Product name' },
+    isActive: { type: 'boolean', description: 'Whether the product is active' },
+    addedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['productId', 'productName', 'isActive', 'addedAt'],
+} as const;
+
+const membershipSchema = {
+  type: 'object',
+  properties: {
+    groupId: { type: 'string', description: 'Customer group ID' },
+    name: { type: 'string', description: 'Group name' },
+    code: { type: 'string', description: 'Group code' },
+    source: { type: 'string', enum: ['MANUAL', 'RULE'], description: 'Added by a merchant or matched by the group rules' },
+  },
+  required: ['groupId', 'name', 'code', 'source'],
+} as const;
+
+const groupIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Customer group ID' },
+  },
+} as const;
+
+const ruleProperties = {
+  minLifetimeSpend: { type: 'number', nullable: true, minimum: 0, description: 'Minimum sum of paid order totals, null to drop the rule' },
+  minOrderCount: { type: 'integer', nullable: true, minimum: 1, description: 'Minimum number of paid orders, null to drop the rule' },
+  emailDomains: {
+    type: 'array',
+    maxItems: 50,
+    items: { type: 'string', minLength: 1, maxLength: 253 },
+    description: 'Email domains whose customers are members, empty to drop the rule',
+  },
+} as const;
+
+export const customerGroupSchemas = {
+  // GET /api/admin/customer-groups
+  listGroups: {
+    response: createTypedReadResponses({ type: 'array', items: customerGroupResponseSchema }),
+  },
+
+  // GET /api/admin/customer-groups/:id
+  getGroup: {
+    params: groupIdParams,
+    response: createTypedReadResponses(customerGroupResponseSchema),
+  },
+
+  // POST /api/admin/customer-groups
+  createGroup: {
+    body: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 100, description: 'Group name' },
+        code: { type: 'string', maxLength: 50, description: 'Group code, derived from the name when omitted' },
+        description: { type: 'string', nullable: true, maxLength: 500, description: 'Group description' },
+        ...ruleProperties,
+      },
+    },
+    response: createTypedCreateResponses(customerGroupResponseSchema),
+  },
+
+  // PUT /api/admin/customer-groups/:id
+  updateGroup: {
+    params: groupIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 100, description: 'Group name' },
+        description: { type: 'string', nullable: true, maxLength: 500, description: 'Group description' },
+        ...ruleProperties,
+      },
+    },
+    response: createTypedUpdateResponses(customerGroupResponseSchema),
+  },
+
+  // DELETE /api/admin/customer-groups/:id
+  deleteGroup: {
+    params: groupIdParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // GET /api/admin/customer-groups/:id/members
+  listMembers: {
+    params: groupIdParams,
+    querystring: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer', minimum: 1, default: 1, description: 'Page number' },
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 20, description: 'Items per page' },
+      },
+    },
+    response: createTypedReadResponses(createPageResultSchema(memberSchema)),
+  },
+
+  // POST /api/admin/customer-groups/:id/members
+  addMembers: {
+    params: groupIdParams,
+    body: {
+      type: 'object',
+      required: ['userIds'],
+      properties: {
+        userIds: { type: 'array', minItems: 1, maxItems: 100, items: { type: 'string' }, description: 'Customers to add' },
+      },
+    },
+    response: createTypedUpdateResponses(customerGroupResponseSchema),
+  },
+
+  // DELETE /api/admin/customer-groups/:id/members/:userId
+  removeMember: {
+    params: {
+      type: 'object',
+      required: ['id', 'userId'],
+      properties: {
+        id: { type: 'string', description: 'Customer group ID' },
+        userId: { type: 'string', description: 'Customer ID' },
+      },
+    },
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // GET /api/admin/customer-groups/:id/prices
+  listPrices: {
+    params: groupIdParams,
+    response: createTypedReadResponses({ type: 'array', items: priceSchema }),
+  },
+
+  // PUT /api/admin/customer-groups/:id/prices
+  setPrices: {
+    params: groupIdParams,
+    body: {
+      type: 'object',
+      required: ['prices'],
+      properties: {
+        prices: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 200,
+          items: {
+            type: 'object',
+            required: ['variantId', 'price'],
+            properties: {
+              variantId: { type: 'string', description: 'Variant ID' },
+              price: { type: 'number', minimum: 0, description: 'Group price in the base currency' },
+            },
+          },
+        },
+      },
+    },
+    response: createTypedUpdateResponses({ type: 'array', items: priceSchema }),
+  },
+
+  // DELETE /api/admin/customer-groups/:id/prices/:variantId
+  removePrice: {
+    params: {
+      type: 'object',
+      required: ['id', 'variantId'],
+      properties: {
+        id: { type: 'string', description: 'Customer group ID' },
+        variantId: { type: 'string', description: 'Variant ID' },
+      },
+    },
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // GET /api/admin/customer-groups/:id/products
+  listProducts: {
+    params: groupIdParams,
+    response: createTypedReadResponses({ type: 'array', items: productSchema }),
+  },
+
+  // POST /api/admin/customer-groups/:id/products
+  addProducts: {
+    params: groupIdParams,
+    body: {
+      type: 'object',
+      required: ['productIds'],
+      properties: {
+        productIds: { type: 'array', minItems: 1, maxItems: 100, items: { type: 'string' }, description: 'Products to restrict to the group' },
+      },
+    },
+    response: createTypedUpdateResponses({ type: 'array', items: productSchema }),
+  },
+
+  // DELETE /api/admin/customer-groups/:id/products/:productId
+  removeProduct: {
+    params: {
+      type: 'object',
+      required: ['id', 'productId'],
+      properties: {
+        id: { type: 'string', description: 'Customer group ID' },
+        productId: { type: 'string', description: 'Product ID' },
+      },
+    },
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // GET /api/admin/customer-groups/customers/:userId
+  getCustomerMemberships: {
+    params: {
+      type: 'object',
+      required: ['userId'],
+      properties: {
+        userId: { type: 'string', description: 'Customer ID' },
+      },
+    },
+    response: createTypedReadResponses({ type: 'array', items: membershipSchema }),
+  },
+} as const;
@@ -0,0 +1,575 @@
+/**
+ * Customer Group Service
+ *
+ * A customer belongs to a group when a merchant added them (manual
+ * membership) or when they match every rule set on the group: lifetime spend
+ * and order count over paid orders, and email domain. Rule matches are
+ * evaluated from the customer's orders when memberships are looked up and
+ * cached briefly per customer, so a qualifying order counts within a few
+ * minutes.
+ *
+ * Groups drive three things: group price lists (members pay the lowest
+ * price of their groups instead of the variant sale price), product
+ * visibility (products assigned to groups are hidden from everyone else)
+ * and discount restrictions (DiscountCustomerGroup stores the group code).
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { PageResult } from '@/types/common-dto';
+import { CacheService } from '@/core/cache/service';
+import {
+  CreateCustomerGroupInput,
+  CustomerGroupMemberResponse,
+  CustomerGroupMembershipResponse,
+  CustomerGroupPriceInput,
+  CustomerGroupPriceResponse,
+  CustomerGroupProductResponse,
+  CustomerGroupResponse,
+  CustomerGroupRules,
+  UpdateCustomerGroupInput,
+} from './types';
+
+const MEMBERSHIP_CACHE_PREFIX = 'customer_groups:user:';
+const MEMBERSHIP_CACHE_TTL = 300; // 5 minutes
+
+/** Orders that count towards lifetime spend and order count rules */
+const PAID_PAYMENT_STATUSES = ['PAID', 'PARTIALLY_REFUNDED'] as const;
+
+const RULE_GROUP_WHERE: Prisma.CustomerGroupWhereInput = {
+  OR: [
+    { minLifetimeSpend: { not: null } },
+    { minOrderCount: { not: null } },
+    { emailDomains: { isEmpty: false } },
+  ],
+};
+
+const groupCountInclude = {
+  _count: { select: { members: true, prices: true, products: true } },
+} satisfies Prisma.CustomerGroupInclude;
+
+type CustomerGroupWithCounts = Prisma.CustomerGroupGetPayload<{ include: typeof groupCountInclude }>;
+
+type RuleGroup = {
+  id: string;
+  name: string;
+  code: string;
+  minLifetimeSpend: Prisma.Decimal | null;
+  minOrderCount: number | null;
+  emailDomains: string[];
+};
+
+function normalizeCode(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+}
+
+function normalizeDomains(domains: string[]): string[] {
+  return [...new Set(
+    domains
+      .map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+      .filter(Boolean)
+  )];
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+function membershipCacheKey(userId: string): string {
+  return `${MEMBERSHIP_CACHE_PREFIX}${userId}`;
+}
+
+function rulesData(input: CustomerGroupRules) {
+  return {
+    ...(input.minLifetimeSpend !== undefined ? { minLifetimeSpend: input.minLifetimeSpend } : {}),
+    ...(input.minOrderCount !== undefined ? { minOrderCount: input.minOrderCount } : {}),
+    ...(input.emailDomains !== undefined ? { emailDomains: normalizeDomains(input.emailDomains) } : {}),
+  };
+}
+
+function matchesRules(
+  group: RuleGroup,
+  customer: { domain: string; orderCount: number; lifetimeSpend: number }
+): boolean {
+  if (group.minLifetimeSpend !== null && customer.lifetimeSpend < Number(group.minLifetimeSpend)) {
+    return false;
+  }
+  if (group.minOrderCount !== null && customer.orderCount < group.minOrderCount) {
+    return false;
+  }
+  if (group.emailDomains.length > 0 && !group.emailDomains.includes(customer.domain)) {
+    return false;
+  }
+  return true;
+}
+
+function formatGroup(group: CustomerGroupWithCounts): CustomerGroupResponse {
+  return {
+    id: group.id,
+    name: group.name,
+    code: group.code,
+    description: group.description,
+    minLifetimeSpend: group.minLifetimeSpend === null ? null : Number(group.minLifetimeSpend),
+    minOrderCount: group.minOrderCount,
+    emailDomains: group.emailDomains,
+    memberCount: group._count.members,
+    priceCount: group._count.prices,
+    productCount: group._count.products,
+    createdAt: group.createdAt.toISOString(),
+    updatedAt: group.updatedAt.toISOString(),
+  };
+}
+
+export class CustomerGroupService {
+  // ============================================
+  // Storefront
+  // ============================================
+
+  /**
+   * Groups a customer belongs to, manual memberships first (cached briefly)
+   */
+  static async getUserMemberships(userId: string): Promise<CustomerGroupMembershipResponse[]> {
+    const cached = await CacheService.get<CustomerGroupMembershipResponse[]>(membershipCacheKey(userId));
+    if (cached) return cached;
+
+    const memberships = await this.resolveMemberships(userId);
+    await CacheService.set(membershipCacheKey(userId), memberships, { ttl: MEMBERSHIP_CACHE_TTL });
+    return memberships;
+  }
+
+  /**
+   * IDs of the customer's groups, sorted; guests have none
+   */
+  static async getUserGroupIds(userId: string | null | undefined): Promise<string[]> {
+    if (!userId) return [];
+    const memberships = await this.getUserMemberships(userId);
+    return memberships.map((membership) => membership.groupId).sort();
+  }
+
+  /**
+   * Lowest group price per variant over the given groups
+   */
+  static async getGroupPrices(groupIds: string[], variantIds: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (groupIds.length === 0 || variantIds.length === 0) {
+      return prices;
+    }
+
+    const rows = await prisma.customerGroupPrice.findMany({
+      where: { groupId: { in: groupIds }, variantId: { in: variantIds } },
+      select: { variantId: true, price: true },
+    });
+    for (const row of rows) {
+      const price = Number(row.price);
+      const current = prices.get(row.variantId);
+      if (current === undefined || price < current) {
+        prices.set(row.variantId, price);
+      }
+    }
+    return prices;
+  }
+
+  /**
+   * Product filter for what members of the given groups may see: products
+   * without group restrictions plus those assigned to one of the groups
+   */
+  static visibleProductWhere(groupIds: string[]): Prisma.ProductWhereInput {
+    if (groupIds.length === 0) {
+      return { customerGroups: { none: {} } };
+    }
+    return {
+      OR: [
+        { customerGroups: { none: {} } },
+        { customerGroups: { some: { groupId: { in: groupIds } } } },
+      ],
+    };
+  }
+
+  /**
+   * @throws Error 'Product is not available' if a product is restricted to groups the customer is not in
+   */
+  static async assertProductsVisible(productIds: string[], groupIds: string[]): Promise<void> {
+    if (productIds.length === 0) return;
+
+    const restrictions = await prisma.productCustomerGroup.findMany({
+      where: { productId: { in: productIds } },
+      select: { productId: true, groupId: true },
+    });
+    const allowed = new Set(groupIds);
+    const restricted = new Map<string, boolean>();
+    for (const restriction of restrictions) {
+      restricted.set(
+        restriction.productId,
+        (restricted.get(restriction.productId) ?? false) || allowed.has(restriction.groupId)
+      );
+    }
+    if ([...restricted.values()].some((visible) => !visible)) {
+      throw new Error('Product is not available');
+    }
+  }
+
+  // ============================================
+  // Admin: groups
+  // ============================================
+
+  static async listGroups(): Promise<CustomerGroupResponse[]> {
+    const groups = await prisma.customerGroup.findMany({
+      include: groupCountInclude,
+      orderBy: { name: 'asc' },
+    });
+    return groups.map(formatGroup);
+  }
+
+  /**
+   * @throws Error if the group does not exist
+   */
+  static async getGroup(groupId: string): Promise<CustomerGroupResponse> {
+    const group = await prisma.customerGroup.findUnique({
+      where: { id: groupId },
+      include: groupCountInclude,
+    });
+    if (!group) {
+      throw new Error('Customer group not found');
+    }
+    return formatGroup(group);
+  }
+
+  /**
+   * @throws Error if the name or code is missing or the code is taken
+   */
+  static async createGroup(input: CreateCustomerGroupInput): Promise<CustomerGroupResponse> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Customer group name is required');
+    }
+    const code = normalizeCode(input.code ?? name);
+    if (!code) {
+      throw new Error('Customer group code is invalid');
+    }
+
+    const group = await prisma.customerGroup.create({
+      data: {
+        name,
+        code,
+        description: input.description ?? null,
+        ...rulesData(input),
+      },
+      include: groupCountInclude,
+    });
+    await this.invalidateMemberships();
+    return formatGroup(group);
+  }
+
+  /**
+   * Update name, description or rules; the code stays as discounts refer to it
+   */
+  static async updateGroup(groupId: string, input: UpdateCustomerGroupInput): Promise<CustomerGroupResponse> {
+    await this.findGroup(groupId);
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new Error('Customer group name is required');
+    }
+
+    const group = await prisma.customerGroup.update({
+      where: { id: groupId },
+      data: {
+        ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...rulesData(input),
+      },
+      include: groupCountInclude,
+    });
+    await this.invalidateMemberships();
+    return formatGroup(group);
+  }
+
+  /**
+   * Delete a group with its memberships, prices and product restrictions
+   *
+   * @throws Error if discount codes are restricted to the group
+   */
+  static async deleteGroup(groupId: string): Promise<void> {
+    const group = await this.findGroup(groupId);
+    const discountCount = await prisma.discountCustomerGroup.count({ where: { customerGroup: group.code } });
+    if (discountCount > 0) {
+      throw new Error(`Customer group is used by ${discountCount} discount code(s)`);
+    }
+
+    await prisma.customerGroup.delete({ where: { id: groupId } });
+    await this.invalidateMemberships();
+    await CacheService.incrementProductVersion();
+  }
+
+  /**
+   * @throws Error naming the first code that is not a customer group
+   */
+  static async assertGroupCodesExist(codes: string[]): Promise<void> {
+    if (codes.length === 0) return;
+    const groups = await prisma.customerGroup.findMany({
+      where: { code: { in: codes } },
+      select: { code: true },
+    });
+    const known = new Set(groups.map((group) => group.code));
+    const unknown = codes.find((code) => !known.has(code));
+    if (unknown) {
+      throw new Error(`Customer group not found: ${unknown}`);
+    }
+  }
+
+  // ============================================
+  // Admin: members
+  // ============================================
+
+  /**
+   * Manually added members, newest first
+   */
+  static async listMembers(groupId: string, page = 1, limit = 20): Promise<PageResult<CustomerGroupMemberResponse>> {
+    await this.findGroup(groupId);
+    const safePage = Math.max(1, Number(page) || 1);
+    const safeLimit = Math.min(100, Math.max(1, Number(limit) || 20));
+
+    const [members, total] = await Promise.all([
+      prisma.customerGroupMember.findMany({
+        where: { groupId },
+        include: { user: { select: { email: true, username: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (safePage - 1) * safeLimit,
+        take: safeLimit,
+      }),
+      prisma.customerGroupMember.count({ where: { groupId } }),
+    ]);
+
+    return {
+      items: members.map((member): CustomerGroupMemberResponse => ({
+        userId: member.userId,
+        email: member.user.email,
+        username: member.user.username,
+        addedAt: member.createdAt.toISOString(),
+      })),
+      page: safePage,
+      limit: safeLimit,
+      total,
+      totalPages: Math.ceil(total / safeLimit),
+    };
+  }
+
+  /**
+   * Add customers to a group; existing members are skipped
+   *
+   * @throws Error if the group or one of the customers does not exist
+   */
+  static async addMembers(groupId: string, userIds: string[]): Promise<CustomerGroupResponse> {
+    await this.findGroup(groupId);
+    const uniqueIds = [...new Set(userIds)];
+    const userCount = await prisma.user.count({ where: { id: { in: uniqueIds } } });
+    if (userCount !== uniqueIds.length) {
+      throw new Error('Customer not found');
+    }
+
+    await prisma.customerGroupMember.createMany({
+      data: uniqueIds.map((userId) => ({ groupId, userId })),
+      skipDuplicates: true,
+    });
+    await Promise.all(uniqueIds.map((userId) => CacheService.delete(membershipCacheKey(userId))));
+    return this.getGroup(groupId);
+  }
+
+  /**
+   * Remove a manual membership; customers matching the group rules stay members
+   */
+  static async removeMember(groupId: string, userId: string): Promise<void> {
+    const { count } = await prisma.customerGroupMember.deleteMany({ where: { groupId, userId } });
+    if (count === 0) {
+      throw new Error('Customer group member not found');
+    }
+    await CacheService.delete(membershipCacheKey(userId));
+  }
+
+  /**
+   * All groups of a customer with how they got in; not cached
+   */
+  static async getCustomerMemberships(userId: string): Promise<CustomerGroupMembershipResponse[]> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new Error('Customer not found');
+    }
+    return this.resolveMemberships(userId);
+  }
+
+  // ============================================
+  // Admin: price list
+  // ============================================
+
+  static async listPrices(groupId: string): Promise<CustomerGroupPriceResponse[]> {
+    await this.findGroup(groupId);
+    const prices = await prisma.customerGroupPrice.findMany({
+      where: { groupId },
+      include: {
+        variant: {
+          select: { name: true, salePrice: true, productId: true, product: { select: { name: true } } },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return prices.map((row) => ({
+      variantId: row.variantId,
+      variantName: row.variant.name,
+      productId: row.variant.productId,
+      productName: row.variant.product.name,
+      salePrice: Number(row.variant.salePrice),
+      price: Number(row.price),
+      updatedAt: row.updatedAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Set group prices for variants; other prices of the group are kept
+   *
+   * @throws Error if a variant does not exist
+   */
+  static async setPrices(groupId: string, prices: CustomerGroupPriceInput[]): Promise<CustomerGroupPriceResponse[]> {
+    await this.findGroup(groupId);
+    const variantIds = [...new Set(prices.map((entry) => entry.variantId))];
+    const variantCount = await prisma.productVariant.count({ where: { id: { in: variantIds } } });
+    if (variantCount !== variantIds.length) {
+      throw new Error('Variant not found');
+    }
+
+    await prisma.$transaction(prices.map((entry) => prisma.customerGroupPrice.upsert({
+      where: { groupId_variantId: { groupId, variantId: entry.variantId } },
+      create: { groupId, variantId: entry.variantId, price: entry.price },
+      update: { price: entry.price },
+    })));
+    await CacheService.incrementProductVersion();
+    return this.listPrices(groupId);
+  }
+
+  static async removePrice(groupId: string, variantId: string): Promise<void> {
+    const { count } = await prisma.customerGroupPrice.deleteMany({ where: { groupId, variantId } });
+    if (count === 0) {
+      throw new Error('Customer group price not found');
+    }
+    await CacheService.incrementProductVersion();
+  }
+
+  // ============================================
+  // Admin: product visibility
+  // ============================================
+
+  static async listProducts(groupId: string): Promise<CustomerGroupProductResponse[]> {
+    await this.findGroup(groupId);
+    const products = await prisma.productCustomerGroup.findMany({
+      where: { groupId },
+      include: { product: { select: { name: true, isActive: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return products.map((row) => ({
+      productId: row.productId,
+      productName: row.product.name,
+      isActive: row.product.isActive,
+      addedAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Restrict products to the group (and any other groups they are assigned to)
+   *
+   * @throws Error if a product does not exist
+   */
+  static async addProducts(groupId: string, productIds: string[]): Promise<CustomerGroupProductResponse[]> {
+    await this.findGroup(groupId);
+    const uniqueIds = [...new Set(productIds)];
+    const productCount = await prisma.product.count({ where: { id: { in: uniqueIds } } });
+    if (productCount !== uniqueIds.length) {
+      throw new Error('Product not found');
+    }
+
+    await prisma.productCustomerGroup.createMany({
+      data: uniqueIds.map((productId) => ({ groupId, productId })),
+      skipDuplicates: true,
+    });
+    await CacheService.incrementProductVersion();
+    return this.listProducts(groupId);
+  }
+
+  /**
+   * Lift the group restriction; a product without groups is visible to everyone
+   */
+  static async removeProduct(groupId: string, productId: string): Promise<void> {
+    const { count } = await prisma.productCustomerGroup.deleteMany({ where: { groupId, productId } });
+    if (count === 0) {
+      throw new Error('Customer group product not found');
+    }
+    await CacheService.incrementProductVersion();
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private static async findGroup(groupId: string) {
+    const group = await prisma.customerGroup.findUnique({ where: { id: groupId } });
+    if (!group) {
+      throw new Error('Customer group not found');
+    }
+    return group;
+  }
+
+  private static async resolveMemberships(userId: string): Promise<CustomerGroupMembershipResponse[]> {
+    const [user, manual, ruleGroups] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { email: true } }),
+      prisma.customerGroupMember.findMany({
+        where: { userId },
+        select: { group: { select: { id: true, name: true, code: true } } },
+      }),
+      prisma.customerGroup.findMany({
+        where: RULE_GROUP_WHERE,
+        select: { id: true, name: true, code: true, minLifetimeSpend: true, minOrderCount: true, emailDomains: true },
+      }),
+    ]);
+    if (!user) return [];
+
+    const memberships: CustomerGroupMembershipResponse[] = manual.map(({ group }) => ({
+      groupId: group.id,
+      name: group.name,
+      code: group.code,
+      source: 'MANUAL',
+    }));
+    const manualIds = new Set(memberships.map((membership) => membership.groupId));
+    const candidates = ruleGroups.filter((group) => !manualIds.has(group.id));
+    if (candidates.length === 0) {
+      return memberships;
+    }
+
+    const needsOrders = candidates.some((group) => group.minLifetimeSpend !== null || group.minOrderCount !== null);
+    const orders = needsOrders
+      ? await prisma.order.aggregate({
+        where: { userId, paymentStatus: { in: [...PAID_PAYMENT_STATUSES] } },
+        _count: { _all: true },
+        _sum: { totalAmount: true },
+      })
+      : null;
+    const customer = {
+      domain: emailDomain(user.email),
+      orderCount: orders?._count._all ?? 0,
+      lifetimeSpend: Number(orders?._sum.totalAmount ?? 0),
+    };
+
+    for (const group of candidates) {
+      if (matchesRules(group, customer)) {
+        memberships.push({ groupId: group.id, name: group.name, code: group.code, source: 'RULE' });
+      }
+    }
+    return memberships;
+  }
+
+  private static async invalidateMemberships(): Promise<void> {
+    await CacheService.clearByPrefix(MEMBERSHIP_CACHE_PREFIX);
+  }
+}
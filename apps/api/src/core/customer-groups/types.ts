@@ -0,0 +1,80 @@
+/**
+ * Customer Group Types
+ *
+ * Customer groups with manual and rule-based membership, group price lists
+ * and group-restricted products.
+ */
+
+export interface CustomerGroupRules {
+  /** Sum of paid order totals the customer must have reached */
+  minLifetimeSpend?: number | null;
+  /** Number of paid orders the customer must have placed */
+  minOrderCount?: number | null;
+  /** Email domains (without "@") whose customers are members */
+  emailDomains?: string[];
+}
+
+export interface CreateCustomerGroupInput extends CustomerGroupRules {
+  name: string;
+  /** Derived from the name when omitted; referenced by discount codes */
+  code?: string;
+  description?: string | null;
+}
+
+export interface UpdateCustomerGroupInput extends CustomerGroupRules {
+  name?: string;
+  description?: string | null;
+}
+
+export interface CustomerGroupResponse {
+  id: string;
+  name: string;
+  code: string;
+  description: string | null;
+  minLifetimeSpend: number | null;
+  minOrderCount: number | null;
+  emailDomains: string[];
+  /** Manually added members; rule matches are not counted */
+  memberCount: number;
+  priceCount: number;
+  productCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerGroupMemberResponse {
+  userId: string;
+  email: string;
+  username: string;
+  addedAt: string;
+}
+
+export interface CustomerGroupPriceInput {
+  variantId: string;
+  price: number;
+}
+
+export interface CustomerGroupPriceResponse {
+  variantId: string;
+  variantName: string;
+  productId: string;
+  productName: string;
+  salePrice: number;
+  price: number;
+  updatedAt: string;
+}
+
+export interface CustomerGroupProductResponse {
+  productId: string;
+  productName: string;
+  isActive: boolean;
+  addedAt: string;
+}
+
+export interface CustomerGroupMembershipResponse {
+  groupId: string;
+  name: string;
+  code: string;
+  /** MANUAL when added by a merchant, RULE when the customer matches the group rules */
+  source: 'MANUAL' | 'RULE';
+}
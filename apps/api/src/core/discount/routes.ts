@@ -199,6 +199,9 @@ export async function discountRoutes(fastify: FastifyInstance) {
       const discount = await DiscountService.createDiscount(data);
       return sendSuccess(reply, discount);
     } catch (error: any) {
+      if (error.message?.startsWith('Customer group not found')) {
+        return sendError(reply, 400, 'VALIDATION_ERROR', error.message);
+      }
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
     }
   });
@@ -255,6 +258,9 @@ export async function discountRoutes(fastify: FastifyInstance) {
       }
       return sendSuccess(reply, discount);
     } catch (error: any) {
+      if (error.message?.startsWith('Customer group not found')) {
+        return sendError(reply, 400, 'VALIDATION_ERROR', error.message);
+      }
       return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
     }
   });
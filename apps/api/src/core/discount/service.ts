@@ -5,6 +5,7 @@
  */
 
 import { prisma } from '@/config/database';
+import { CustomerGroupService } from '@/core/customer-groups/service';
 import {
   CreateDiscountRequest,
   UpdateDiscountRequest,
@@ -58,6 +59,7 @@ export class DiscountService {
    * Create a new discount
    */
   static async createDiscount(data: CreateDiscountRequest): Promise<DiscountResponse> {
+    await CustomerGroupService.assertGroupCodesExist(data.customerGroups ?? []);
     const normalizedCode = data.code.trim().toUpperCase();
     const discount = await prisma.$transaction(async (tx) => {
       const existing = await tx.discount.findUnique({
@@ -294,6 +296,7 @@ export class DiscountService {
     if (!existing) {
       return null;
     }
+    await CustomerGroupService.assertGroupCodesExist(data.customerGroups ?? []);
 
     // Handle products update
     if (data.productIds !== undefined) {
@@ -431,19 +434,12 @@ export class DiscountService {
       }
     }
 
-    // Check customer group restrictions
-    if (discount.customerGroups.length > 0 && data.userId) {
-      // Get user details
-      const user = await prisma.user.findUnique({
-        where: { id: data.userId },
-        select: { role: true },
-      });
-
-      if (user) {
-        const allowedGroups = discount.customerGroups.map((cg) => cg.customerGroup);
-        if (!allowedGroups.includes(user.role)) {
-          errors.push('Discount code is not available for your customer group');
-        }
+    // Check customer group restrictions (guests are in no group)
+    if (discount.customerGroups.length > 0) {
+      const memberships = data.userId ? await CustomerGroupService.getUserMemberships(data.userId) : [];
+      const allowedGroups = discount.customerGroups.map((cg) => cg.customerGroup);
+      if (!memberships.some((membership) => allowedGroups.includes(membership.code))) {
+        errors.push('Discount code is not available for your customer group');
       }
     }
 
@@ -581,8 +577,8 @@ export class DiscountService {
         discountCode: u.discount.code,
         discountType: u.discount.type,
         discountAmount: Number(u.discountAmount),
-        userEmail: u.user.email,
-        username: u.user.username,
+        userEmail: u.user?.email ?? null,
+        username: u.user?.username ?? null,
         createdAt: u.createdAt.toISOString(),
       })),
     };
@@ -25,7 +25,7 @@ export const CreateDiscountSchema = z.object({
   stackable: z.boolean().default(false),
   description: z.string().optional(),
   productIds: z.array(z.string()).optional(), // For product-specific discounts
-  customerGroups: z.array(z.string()).optional(), // For customer group restrictions
+  customerGroups: z.array(z.string()).optional(), // CustomerGroup codes the discount is restricted to
 }).refine(
   (data) => {
     if (data.type === 'PERCENTAGE' && data.value > 100) {
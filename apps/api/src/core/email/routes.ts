@@ -0,0 +1,196 @@
+/**
+ * Admin Email Routes
+ *
+ * Template editing with preview, and the send log.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { EmailNotificationService } from './service';
+import { EMAIL_TEMPLATE_KEYS, EmailLogStatus } from './types';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+
+const templateParams = {
+  type: 'object',
+  required: ['key', 'locale'],
+  properties: {
+    key: { type: 'string', enum: [...EMAIL_TEMPLATE_KEYS] },
+    locale: { type: 'string' },
+  },
+};
+
+const templateContentProperties = {
+  subject: { type: 'string', minLength: 1, maxLength: 500 },
+  html: { type: 'string', minLength: 1 },
+  text: { type: 'string', minLength: 1 },
+};
+
+function sendTemplateError(reply: any, error: any) {
+  if (error.message.includes('not found') || error.message.startsWith('Unsupported locale')) {
+    return sendError(reply, 404, 'NOT_FOUND', error.message);
+  }
+  if (error.message.startsWith('Invalid email template')) {
+    return sendError(reply, 400, 'VALIDATION_ERROR', error.message);
+  }
+  return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+}
+
+export async function adminEmailRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin email routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // List templates (every key in every shop locale)
+  fastify.get('/templates', {
+    schema: {
+      tags: ['admin-email'],
+      summary: 'List email templates',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const templates = await EmailNotificationService.listTemplates();
+      return sendSuccess(reply, templates);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Get one template
+  fastify.get('/templates/:key/:locale', {
+    schema: {
+      tags: ['admin-email'],
+      summary: 'Get email template',
+      security: [{ bearerAuth: [] }],
+      params: templateParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { key, locale } = request.params as any;
+      const template = await EmailNotificationService.getTemplate(key, locale);
+      return sendSuccess(reply, template);
+    } catch (error: any) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Save an edited template
+  fastify.put('/templates/:key/:locale', {
+    schema: {
+      tags: ['admin-email'],
+      summary: 'Update email template',
+      description: 'Saves subject/body for one locale. Set enabled to false to stop sending this email in that locale.',
+      security: [{ bearerAuth: [] }],
+      params: templateParams,
+      body: {
+        type: 'object',
+        properties: {
+          ...templateContentProperties,
+          enabled: { type: 'boolean' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { key, locale } = request.params as any;
+      const template = await EmailNotificationService.updateTemplate(key, locale, request.body as any, request.user?.id);
+      return sendSuccess(reply, template);
+    } catch (error: any) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Reset a template to the built-in default
+  fastify.delete('/templates/:key/:locale', {
+    schema: {
+      tags: ['admin-email'],
+      summary: 'Reset email template to default',
+      security: [{ bearerAuth: [] }],
+      params: templateParams
+    }
+  }, async (request, reply) => {
+    try {
+      const { key, locale } = request.params as any;
+      const template = await EmailNotificationService.resetTemplate(key, locale);
+      return sendSuccess(reply, template);
+    } catch (error: any) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Preview a template (saved or unsaved) with sample variables
+  fastify.post('/templates/:key/:locale/preview', {
+    schema: {
+      tags: ['admin-email'],
+      summary: 'Preview email template',
+      description: 'Renders the saved template, or the subject/html/text in the body, with sample data. Variables in the body override the samples.',
+      security: [{ bearerAuth: [] }],
+      params: templateParams,
+      body: {
+        type: 'object',
+        properties: {
+          ...templateContentProperties,
+          variables: { type: 'object', additionalProperties: true }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { key, locale } = request.params as any;
+      const { variables, ...content } = (request.body as any) || {};
+      const preview = await EmailNotificationService.previewTemplate(key, locale, content, variables);
+      return sendSuccess(reply, preview);
+    } catch (error: any) {
+      return sendTemplateError(reply, error);
+    }
+  });
+
+  // Send log
+  fastify.get('/logs', {
+    schema: {
+      tags: ['admin-email'],
+      summary: 'List sent emails',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          status: { type: 'string', enum: Object.values(EmailLogStatus) },
+          templateKey: { type: 'string', enum: [...EMAIL_TEMPLATE_KEYS] },
+          recipient: { type: 'string' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const result = await EmailNotificationService.listLogs(request.query as any);
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Retry a failed email now
+  fastify.post('/logs/:id/retry', {
+    schema: {
+      tags: ['admin-email'],
+      summary: 'Retry a failed email',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const result = await EmailNotificationService.retryLog(id);
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      if (error.message.startsWith('Only failed') || error.message.includes('single-use')) {
+        return sendError(reply, 409, 'CONFLICT', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+}
@@ -0,0 +1,545 @@
+/**
+ * Email Notification Service
+ *
+ * Turns domain events into customer emails: picks the template for the
+ * event, resolves the recipient's language (their account locale, else the
+ * shop locale), renders the admin-edited or built-in template and sends it
+ * through the configured transport.
+ *
+ * Every send is recorded in email_logs. Failed sends are retried with
+ * backoff by the email retry job; emails with single-use links are never
+ * retried and their variables are not stored.
+ */
+
+import { Prisma } from '@prisma/client';
+import {
+  isSupportedLocale,
+  mapBrowserLanguageToLocale,
+  LOCALES,
+  type CoreEventPayloads,
+  type Locale,
+} from '@jiffoo/shared';
+import { prisma } from '@/config/database';
+import { env } from '@/config/env';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { systemSettingsService } from '@/core/admin/system-settings/service';
+import { deliverEmail } from './transport';
+import { EMAIL_TEMPLATES, renderEmail, validateTemplate } from './templates';
+import {
+  EMAIL_TEMPLATE_KEYS,
+  EmailLogStatus,
+  type EmailLogQuery,
+  type EmailTemplateContent,
+  type EmailTemplateKey,
+  type EmailTemplateView,
+  type EmailVariables,
+  type SendTemplateEmailInput,
+  type UpdateEmailTemplateInput,
+} from './types';
+
+/** Minutes to wait before each automatic retry; a send gives up after the last one */
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+const EVENT_TEMPLATES: Partial<Record<string, EmailTemplateKey>> = {
+  'order.paid': 'order_confirmation',
+  'order.shipped': 'order_shipped',
+  'order.delivered': 'order_delivered',
+  'order.cancelled': 'order_cancelled',
+  'refund.completed': 'order_refunded',
+  'customer.registered': 'welcome',
+  'wishlist.back_in_stock': 'wishlist_back_in_stock',
+  'wishlist.price_drop': 'wishlist_price_drop',
+};
+
+const ORDER_EMAIL_SELECT = {
+  id: true,
+  userId: true,
+  customerEmail: true,
+  totalAmount: true,
+  currency: true,
+  user: { select: { email: true, username: true, locale: true } },
+  items: {
+    select: {
+      quantity: true,
+      unitPrice: true,
+      shippingFirstName: true,
+      product: { select: { name: true } },
+    },
+  },
+} as const;
+
+type EmailLogRecord = {
+  id: string;
+  templateKey: string;
+  locale: string;
+  recipient: string;
+  subject: string;
+  variables: unknown;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+};
+
+const isUniqueConstraintError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+function isTemplateKey(key: string): key is EmailTemplateKey {
+  return (EMAIL_TEMPLATE_KEYS as readonly string[]).includes(key);
+}
+
+function formatMoney(amount: number, currency: string, locale: Locale): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+export class EmailNotificationService {
+  /**
+   * Send the customer email for an outbox event, if the event has one
+   *
+   * Safe to call again for the same event: the second send is skipped.
+   * Errors are logged, not thrown, so event delivery to webhooks carries on.
+   */
+  static async handleEvent(event: { id: string; type: string; payload: unknown }): Promise<void> {
+    const templateKey = EVENT_TEMPLATES[event.type];
+    if (!templateKey) return;
+
+    const data = ((event.payload as any)?.data ?? event.payload) as Record<string, any>;
+    try {
+      const message = event.type === 'customer.registered'
+        ? await this.buildWelcome(data as CoreEventPayloads['customer.registered'])
+        : event.type.startsWith('wishlist.')
+          ? await this.buildWishlistEmail(event.type, data as CoreEventPayloads['wishlist.price_drop'])
+          : await this.buildOrderEmail(event.type, data);
+      if (!message) return;
+
+      await this.send({ ...message, templateKey, sourceEventId: event.id });
+    } catch (error) {
+      LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'email notification',
+        eventId: event.id,
+        eventType: event.type,
+      });
+    }
+  }
+
+  /**
+   * Render and send a template email
+   *
+   * @returns The email log entry, or null when the template is disabled or
+   *   the source event was already handled
+   */
+  static async send(input: SendTemplateEmailInput): Promise<{ id: string; status: EmailLogStatus } | null> {
+    const definition = EMAIL_TEMPLATES[input.templateKey];
+    const locale = input.locale ?? await this.resolveLocale();
+    const template = await this.loadTemplate(input.templateKey, locale);
+    if (!template.enabled) {
+      return null;
+    }
+
+    const variables = { ...(await this.commonVariables()), ...input.variables };
+    const rendered = renderEmail(template, variables, locale);
+
+    let log: EmailLogRecord;
+    try {
+      log = await prisma.emailLog.create({
+        data: {
+          templateKey: input.templateKey,
+          locale,
+          recipient: input.to,
+          subject: rendered.subject,
+          variables: (definition.sensitive ? {} : variables) as Prisma.InputJsonValue,
+          status: EmailLogStatus.PENDING,
+          sourceEventId: input.sourceEventId ?? null,
+        },
+      });
+    } catch (error) {
+      if (input.sourceEventId && isUniqueConstraintError(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    return this.deliver(log, rendered, input.tags);
+  }
+
+  /**
+   * Retry failed sends whose backoff has elapsed
+   *
+   * @returns Number of emails sent on this pass
+   */
+  static async retryDue(limit = 20): Promise<number> {
+    const due = await prisma.emailLog.findMany({
+      where: { status: EmailLogStatus.FAILED, nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    let sent = 0;
+    for (const log of due) {
+      // Claim the row so overlapping passes do not send it twice
+      const claimed = await prisma.emailLog.updateMany({
+        where: { id: log.id, status: EmailLogStatus.FAILED, nextAttemptAt: log.nextAttemptAt },
+        data: { status: EmailLogStatus.PENDING, nextAttemptAt: null },
+      });
+      if (claimed.count === 0) continue;
+
+      const result = await this.resend(log);
+      if (result.status === EmailLogStatus.SENT) sent++;
+    }
+    return sent;
+  }
+
+  /**
+   * Send a logged email again now (admin action)
+   *
+   * @throws Error if the log entry does not exist, has not failed, or
+   *   carried a single-use link
+   */
+  static async retryLog(id: string): Promise<{ id: string; status: EmailLogStatus }> {
+    const log = await prisma.emailLog.findUnique({ where: { id } });
+    if (!log) {
+      throw new Error('Email log entry not found');
+    }
+    if (isTemplateKey(log.templateKey) && EMAIL_TEMPLATES[log.templateKey].sensitive) {
+      throw new Error('Emails with single-use links cannot be resent; the customer must request a new link');
+    }
+
+    const claimed = await prisma.emailLog.updateMany({
+      where: { id, status: EmailLogStatus.FAILED },
+      data: { status: EmailLogStatus.PENDING, nextAttemptAt: null },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Only failed emails can be retried');
+    }
+
+    return this.resend(log);
+  }
+
+  static async listLogs(query: EmailLogQuery = {}) {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(100, Math.max(1, query.limit ?? 20));
+    const where: Prisma.EmailLogWhereInput = {
+      ...(query.status ? { status: query.status } : {}),
+      ...(query.templateKey ? { templateKey: query.templateKey } : {}),
+      ...(query.recipient ? { recipient: { contains: query.recipient, mode: 'insensitive' } } : {}),
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.emailLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.emailLog.count({ where }),
+    ]);
+
+    return {
+      items,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  static async listTemplates(): Promise<EmailTemplateView[]> {
+    const rows = await prisma.emailTemplate.findMany();
+    return EMAIL_TEMPLATE_KEYS.flatMap((key) =>
+      LOCALES.map((locale) => this.toView(key, locale, rows.find((row) => row.key === key && row.locale === locale)))
+    );
+  }
+
+  /**
+   * @throws Error if the template key or locale is unknown
+   */
+  static async getTemplate(key: string, locale: string): Promise<EmailTemplateView> {
+    const id = this.parseTemplateId(key, locale);
+    const row = await prisma.emailTemplate.findUnique({ where: { key_locale: id } });
+    return this.toView(id.key, id.locale, row);
+  }
+
+  /**
+   * Save an admin edit of a template for one locale
+   *
+   * Fields left out keep their current value.
+   *
+   * @throws Error if the template uses variables the email does not provide
+   *   or has unbalanced sections
+   */
+  static async updateTemplate(
+    key: string,
+    locale: string,
+    input: UpdateEmailTemplateInput,
+    actorId?: string
+  ): Promise<EmailTemplateView> {
+    const current = await this.getTemplate(key, locale);
+    const content: EmailTemplateContent = {
+      subject: input.subject ?? current.subject,
+      html: input.html ?? current.html,
+      text: input.text ?? current.text,
+    };
+
+    const problems = validateTemplate(current.key, content);
+    if (problems.length > 0) {
+      throw new Error(`Invalid email template: ${problems.join('; ')}`);
+    }
+
+    const enabled = input.enabled ?? current.enabled;
+    const row = await prisma.emailTemplate.upsert({
+      where: { key_locale: { key, locale } },
+      create: { key, locale, ...content, enabled, updatedById: actorId ?? null },
+      update: { ...content, enabled, updatedById: actorId ?? null },
+    });
+    return this.toView(current.key, current.locale, row);
+  }
+
+  /**
+   * Drop the admin edit so the built-in template is used again
+   */
+  static async resetTemplate(key: string, locale: string): Promise<EmailTemplateView> {
+    const id = this.parseTemplateId(key, locale);
+    await prisma.emailTemplate.deleteMany({ where: id });
+    return this.toView(id.key, id.locale, null);
+  }
+
+  /**
+   * Render a template with sample data
+   *
+   * Pass unsaved content to preview an edit before saving it.
+   *
+   * @returns Rendered subject/html/text plus any validation problems
+   */
+  static async previewTemplate(
+    key: string,
+    locale: string,
+    content: Partial<EmailTemplateContent> = {},
+    variables: EmailVariables = {}
+  ): Promise<EmailTemplateContent & { problems: string[] }> {
+    const current = await this.getTemplate(key, locale);
+    const source: EmailTemplateContent = {
+      subject: content.subject ?? current.subject,
+      html: content.html ?? current.html,
+      text: content.text ?? current.text,
+    };
+    const sample = {
+      ...EMAIL_TEMPLATES[current.key].sample,
+      storeName: await this.getStoreName(),
+      shopUrl: env.NEXT_PUBLIC_SHOP_URL,
+      ...variables,
+    };
+
+    return {
+      ...renderEmail(source, sample, current.locale),
+      problems: validateTemplate(current.key, source),
+    };
+  }
+
+  /**
+   * Language for a customer email: the account's locale when it is one the
+   * shop supports, else the shop locale
+   */
+  static async resolveLocale(preferred?: string | null): Promise<Locale> {
+    if (preferred && isSupportedLocale(preferred)) {
+      return preferred;
+    }
+    const shopLocale = await systemSettingsService.getShopLocale().catch(() => null);
+    return mapBrowserLanguageToLocale(shopLocale || 'en');
+  }
+
+  private static async resend(log: EmailLogRecord): Promise<{ id: string; status: EmailLogStatus }> {
+    if (!isTemplateKey(log.templateKey)) {
+      await prisma.emailLog.update({
+        where: { id: log.id },
+        data: { status: EmailLogStatus.FAILED, lastError: `Unknown template: ${log.templateKey}`, nextAttemptAt: null },
+      });
+      return { id: log.id, status: EmailLogStatus.FAILED };
+    }
+
+    const locale = isSupportedLocale(log.locale) ? log.locale : await this.resolveLocale();
+    const template = await this.loadTemplate(log.templateKey, locale);
+    const rendered = renderEmail(template, (log.variables ?? {}) as EmailVariables, locale);
+    return this.deliver(log, rendered);
+  }
+
+  private static async deliver(
+    log: EmailLogRecord,
+    rendered: EmailTemplateContent,
+    tags: string[] = []
+  ): Promise<{ id: string; status: EmailLogStatus }> {
+    const result = await deliverEmail({
+      to: log.recipient,
+      fromName: await this.getStoreName(),
+      ...rendered,
+      tags: [log.templateKey, ...tags],
+    });
+    const attempts = log.attempts + 1;
+
+    if (result.success) {
+      await prisma.emailLog.update({
+        where: { id: log.id },
+        data: {
+          status: EmailLogStatus.SENT,
+          subject: rendered.subject,
+          transport: result.transport ?? null,
+          providerMessageId: result.messageId ?? null,
+          attempts,
+          lastError: null,
+          nextAttemptAt: null,
+          sentAt: new Date(),
+        },
+      });
+      return { id: log.id, status: EmailLogStatus.SENT };
+    }
+
+    const sensitive = isTemplateKey(log.templateKey) && EMAIL_TEMPLATES[log.templateKey].sensitive;
+    const delay = sensitive ? undefined : RETRY_DELAYS_MINUTES[attempts - 1];
+    await prisma.emailLog.update({
+      where: { id: log.id },
+      data: {
+        status: EmailLogStatus.FAILED,
+        transport: result.transport ?? null,
+        attempts,
+        lastError: result.error || 'Failed to send email',
+        nextAttemptAt: delay === undefined ? null : new Date(Date.now() + delay * 60_000),
+      },
+    });
+    LoggerService.logError(new Error(result.error || 'Failed to send email'), {
+      context: 'email notification',
+      emailLogId: log.id,
+      templateKey: log.templateKey,
+      attempts,
+    });
+    return { id: log.id, status: EmailLogStatus.FAILED };
+  }
+
+  private static async loadTemplate(key: EmailTemplateKey, locale: Locale): Promise<EmailTemplateContent & { enabled: boolean }> {
+    const row = await prisma.emailTemplate.findUnique({ where: { key_locale: { key, locale } } });
+    if (row) {
+      return { subject: row.subject, html: row.html, text: row.text, enabled: row.enabled };
+    }
+    return { ...EMAIL_TEMPLATES[key].defaults[locale], enabled: true };
+  }
+
+  private static toView(
+    key: EmailTemplateKey,
+    locale: Locale,
+    row: { subject: string; html: string; text: string; enabled: boolean; updatedAt: Date } | null | undefined
+  ): EmailTemplateView {
+    const definition = EMAIL_TEMPLATES[key];
+    const content = row ?? definition.defaults[locale];
+    return {
+      key,
+      locale,
+      description: definition.description,
+      variables: definition.variables,
+      subject: content.subject,
+      html: content.html,
+      text: content.text,
+      enabled: row?.enabled ?? true,
+      customized: Boolean(row),
+      updatedAt: row?.updatedAt ?? null,
+    };
+  }
+
+  private static parseTemplateId(key: string, locale: string): { key: EmailTemplateKey; locale: Locale } {
+    if (!isTemplateKey(key)) {
+      throw new Error(`Email template not found: ${key}`);
+    }
+    if (!isSupportedLocale(locale)) {
+      throw new Error(`Unsupported locale: ${locale}`);
+    }
+    return { key, locale };
+  }
+
+  private static async getStoreName(): Promise<string> {
+    return (await systemSettingsService.getSetting('storeName').catch(() => null)) as string | null || 'Jiffoo';
+  }
+
+  private static async commonVariables(): Promise<EmailVariables> {
+    return { storeName: await this.getStoreName(), shopUrl: env.NEXT_PUBLIC_SHOP_URL };
+  }
+
+  private static async buildWelcome(data: CoreEventPayloads['customer.registered']) {
+    const user = await prisma.user.findUnique({
+      where: { id: data.id },
+      select: { email: true, username: true, locale: true },
+    });
+    if (!user) return null;
+
+    return {
+      to: user.email,
+      locale: await this.resolveLocale(user.locale),
+      variables: { customerName: user.username },
+    };
+  }
+
+  private static async buildOrderEmail(type: string, data: Record<string, any>) {
+    const orderId: string | undefined = type === 'order.paid' || type === 'refund.completed' ? data.orderId : data.id;
+    if (!orderId) return null;
+
+    const order = await prisma.order.findUnique({ where: { id: orderId }, select: ORDER_EMAIL_SELECT });
+    const to = order?.user?.email ?? order?.customerEmail;
+    if (!order || !to) return null;
+
+    const locale = await this.resolveLocale(order.user?.locale);
+    const money = (amount: unknown) => formatMoney(Number(amount), order.currency, locale);
+    const variables: EmailVariables = {
+      customerName: order.user?.username ?? order.items[0]?.shippingFirstName ?? to.split('@')[0],
+      orderNumber: order.id,
+      orderTotal: money(order.totalAmount),
+      // Guests have no account page; their lookup link is in the order email
+      orderUrl: order.userId ? `${env.NEXT_PUBLIC_SHOP_URL}/orders/${encodeURIComponent(order.id)}` : '',
+      items: order.items.map((item) => ({
+        productName: item.product?.name ?? '',
+        quantity: item.quantity,
+        lineTotal: money(Number(item.unitPrice) * item.quantity),
+      })),
+    };
+
+    if (type === 'order.shipped') {
+      variables.carrier = data.metadata?.carrier ?? '';
+      variables.trackingNumber = data.metadata?.trackingNumber ?? '';
+    }
+    if (type === 'refund.completed') {
+      variables.refundAmount = formatMoney(Number(data.amount), data.currency || order.currency, locale);
+    }
+
+    return { to, locale, variables, tags: [`order:${order.id}`] };
+  }
+
+  private static async buildWishlistEmail(
+    type: string,
+    data: CoreEventPayloads['wishlist.back_in_stock'] & Partial<CoreEventPayloads['wishlist.price_drop']>
+  ) {
+    const item = await prisma.wishlistItem.findUnique({
+      where: { id: data.wishlistItemId },
+      select: {
+        notifyBackInStock: true,
+        notifyPriceDrop: true,
+        product: { select: { id: true, name: true } },
+        variant: { select: { name: true, salePrice: true } },
+        wishlist: { select: { user: { select: { email: true, username: true, locale: true } } } },
+      },
+    });
+    // Removed from the list or alert turned off since the event was queued
+    if (!item) return null;
+    if (type === 'wishlist.back_in_stock' ? !item.notifyBackInStock : !item.notifyPriceDrop) return null;
+
+    const user = item.wishlist.user;
+    const locale = await this.resolveLocale(user.locale);
+    const currency = await systemSettingsService.getShopCurrency();
+    const variables: EmailVariables = {
+      customerName: user.username,
+      productName: item.product.name,
+      variantName: item.variant.name ?? '',
+      productUrl: `${env.NEXT_PUBLIC_SHOP_URL}/products/${encodeURIComponent(item.product.id)}`,
+      price: formatMoney(Number(data.price ?? item.variant.salePrice), currency, locale),
+    };
+    if (type === 'wishlist.price_drop') {
+      variables.previousPrice = formatMoney(Number(data.previousPrice), currency, locale);
+    }
+
+    return { to: user.email, locale, variables, tags: [`wishlist-item:${data.wishlistItemId}`] };
+  }
+}
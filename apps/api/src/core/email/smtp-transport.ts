@@ -0,0 +1,57 @@
+/**
+ * SMTP Transport
+ *
+ * Sends through any SMTP server with nodemailer: implicit TLS
+ * (SMTP_SECURE=true, usually port 465) or STARTTLS when the server offers
+ * it. When credentials are set STARTTLS is required, so they are never sent
+ * over a plain connection; local mail catchers without auth still work.
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { EmailMessage, EmailSendResult, EmailTransport } from './types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpOptions) {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      requireTLS: !options.secure && Boolean(options.user),
+      auth: options.user ? { user: options.user, pass: options.password ?? '' } : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: message.fromName ? { name: message.fromName, address: message.from } : message.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+      return { success: true, messageId: info.messageId };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+}
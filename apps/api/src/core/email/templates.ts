@@ -0,0 +1,620 @@
+/**
+ * Email Templates
+ *
+ * Built-in subject/body defaults for every customer email in each shop
+ * locale, plus the renderer shared by sends and admin previews.
+ *
+ * Template syntax:
+ * - {{name}}                     variable (HTML-escaped in the html body)
+ * - {{#name}}...{{/name}}        shown when name is set; repeated per entry for lists
+ * - {{^name}}...{{/name}}        shown when name is empty
+ *
+ * Admin edits replace the body that goes inside the shared layout (store
+ * header and footer), not the layout itself.
+ */
+
+import type { Locale } from '@jiffoo/shared';
+import type { EmailTemplateContent, EmailTemplateKey, EmailVariables } from './types';
+
+export interface EmailTemplateDefinition {
+  description: string;
+  /** Variables the template may use; list entries' fields are included */
+  variables: string[];
+  /** Emails carrying single-use links: variables are not stored and sends are not retried */
+  sensitive?: boolean;
+  sample: EmailVariables;
+  defaults: Record<Locale, EmailTemplateContent>;
+}
+
+const COMMON_VARIABLES = ['storeName', 'shopUrl', 'customerName'];
+const ORDER_VARIABLES = [...COMMON_VARIABLES, 'orderNumber', 'orderTotal', 'orderUrl', 'items', 'productName', 'quantity', 'lineTotal'];
+const ACCOUNT_LINK_VARIABLES = [...COMMON_VARIABLES, 'actionUrl', 'expiresInMinutes'];
+const WISHLIST_VARIABLES = [...COMMON_VARIABLES, 'productName', 'variantName', 'productUrl', 'price'];
+
+const H1 = 'font-size:20px;font-weight:700;color:#111827;margin:0 0 16px 0;';
+const P = 'font-size:14px;color:#495057;margin:0 0 16px 0;';
+const NOTE = 'font-size:13px;color:#6c757d;margin:16px 0 0 0;';
+const BUTTON = 'display:inline-block;padding:10px 20px;background:#2563eb;color:#fff;text-decoration:none;border-radius:6px;font-size:14px;font-weight:600;';
+const CELL = 'padding:8px 0;border-bottom:1px solid #e9ecef;font-size:14px;color:#495057;';
+
+const SAMPLE_ORDER: EmailVariables = {
+  storeName: 'Jiffoo Store',
+  shopUrl: 'https://shop.example.com',
+  customerName: 'Alex',
+  orderNumber: 'cm1a2b3c4d5e6f',
+  orderTotal: '$54.00',
+  orderUrl: 'https://shop.example.com/orders/cm1a2b3c4d5e6f',
+  items: [
+    { productName: 'Canvas Tote', quantity: 2, lineTotal: '$30.00' },
+    { productName: 'Enamel Mug', quantity: 1, lineTotal: '$24.00' },
+  ],
+};
+
+function itemsTable(totalLabel: string): string {
+  return `<table width="100%" cellpadding="0" cellspacing="0" style="margin:0 0 16px 0;">
+{{#items}}<tr><td style="${CELL}">{{productName}} × {{quantity}}</td><td align="right" style="${CELL}">{{lineTotal}}</td></tr>
+{{/items}}<tr><td style="${CELL}font-weight:700;">${totalLabel}</td><td align="right" style="${CELL}font-weight:700;">{{orderTotal}}</td></tr>
+</table>`;
+}
+
+const ITEMS_TEXT = '{{#items}}- {{productName}} × {{quantity}}  {{lineTotal}}\n{{/items}}';
+
+const SAMPLE_WISHLIST_ITEM: EmailVariables = {
+  storeName: 'Jiffoo Store',
+  shopUrl: 'https://shop.example.com',
+  customerName: 'Alex',
+  productName: 'Canvas Tote',
+  variantName: 'Natural',
+  productUrl: 'https://shop.example.com/products/cm1p2r3o4d5u6c',
+  price: '$15.00',
+};
+
+function productButton(label: string): string {
+  return `<p style="${P}"><a href="{{productUrl}}" style="${BUTTON}">${label}</a></p>`;
+}
+
+function orderButton(label: string): string {
+  return `{{#orderUrl}}<p style="${P}"><a href="{{orderUrl}}" style="${BUTTON}">${label}</a></p>{{/orderUrl}}`;
+}
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  order_confirmation: {
+    description: 'Sent when an order is paid (order.paid)',
+    variables: ORDER_VARIABLES,
+    sample: SAMPLE_ORDER,
+    defaults: {
+      en: {
+        subject: 'Order {{orderNumber}} confirmed',
+        html: `<h1 style="${H1}">Thanks for your order</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}">We've received your payment for order <strong>{{orderNumber}}</strong> and are getting it ready.</p>
+${itemsTable('Total')}
+${orderButton('View order')}`,
+        text: `Thanks for your order
+
+Hi {{customerName}},
+
+We've received your payment for order {{orderNumber}} and are getting it ready.
+
+${ITEMS_TEXT}Total: {{orderTotal}}
+{{#orderUrl}}
+View order: {{orderUrl}}{{/orderUrl}}`,
+      },
+      'zh-Hant': {
+        subject: '訂單 {{orderNumber}} 已確認',
+        html: `<h1 style="${H1}">感謝您的訂購</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">我們已收到訂單 <strong>{{orderNumber}}</strong> 的付款，正在為您備貨。</p>
+${itemsTable('總計')}
+${orderButton('查看訂單')}`,
+        text: `感謝您的訂購
+
+{{customerName}} 您好，
+
+我們已收到訂單 {{orderNumber}} 的付款，正在為您備貨。
+
+${ITEMS_TEXT}總計：{{orderTotal}}
+{{#orderUrl}}
+查看訂單：{{orderUrl}}{{/orderUrl}}`,
+      },
+    },
+  },
+
+  order_shipped: {
+    description: 'Sent when an order is marked shipped (order.shipped)',
+    variables: [...ORDER_VARIABLES, 'carrier', 'trackingNumber'],
+    sample: { ...SAMPLE_ORDER, carrier: 'UPS', trackingNumber: '1Z999AA10123456784' },
+    defaults: {
+      en: {
+        subject: 'Order {{orderNumber}} has shipped',
+        html: `<h1 style="${H1}">Your order is on its way</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}">Order <strong>{{orderNumber}}</strong> has shipped.</p>
+{{#trackingNumber}}<p style="${P}">Carrier: {{carrier}}<br>Tracking number: <strong>{{trackingNumber}}</strong></p>{{/trackingNumber}}
+${orderButton('Track order')}`,
+        text: `Your order is on its way
+
+Hi {{customerName}},
+
+Order {{orderNumber}} has shipped.
+{{#trackingNumber}}
+Carrier: {{carrier}}
+Tracking number: {{trackingNumber}}
+{{/trackingNumber}}{{#orderUrl}}
+Track order: {{orderUrl}}{{/orderUrl}}`,
+      },
+      'zh-Hant': {
+        subject: '訂單 {{orderNumber}} 已出貨',
+        html: `<h1 style="${H1}">您的訂單已出貨</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">訂單 <strong>{{orderNumber}}</strong> 已經出貨。</p>
+{{#trackingNumber}}<p style="${P}">物流公司：{{carrier}}<br>追蹤號碼：<strong>{{trackingNumber}}</strong></p>{{/trackingNumber}}
+${orderButton('追蹤訂單')}`,
+        text: `您的訂單已出貨
+
+{{customerName}} 您好，
+
+訂單 {{orderNumber}} 已經出貨。
+{{#trackingNumber}}
+物流公司：{{carrier}}
+追蹤號碼：{{trackingNumber}}
+{{/trackingNumber}}{{#orderUrl}}
+追蹤訂單：{{orderUrl}}{{/orderUrl}}`,
+      },
+    },
+  },
+
+  order_delivered: {
+    description: 'Sent when an order is marked delivered (order.delivered)',
+    variables: ORDER_VARIABLES,
+    sample: SAMPLE_ORDER,
+    defaults: {
+      en: {
+        subject: 'Order {{orderNumber}} was delivered',
+        html: `<h1 style="${H1}">Your order was delivered</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}">Order <strong>{{orderNumber}}</strong> has been delivered. We hope you enjoy it!</p>
+${orderButton('View order')}`,
+        text: `Your order was delivered
+
+Hi {{customerName}},
+
+Order {{orderNumber}} has been delivered. We hope you enjoy it!
+{{#orderUrl}}
+View order: {{orderUrl}}{{/orderUrl}}`,
+      },
+      'zh-Hant': {
+        subject: '訂單 {{orderNumber}} 已送達',
+        html: `<h1 style="${H1}">您的訂單已送達</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">訂單 <strong>{{orderNumber}}</strong> 已送達，祝您使用愉快！</p>
+${orderButton('查看訂單')}`,
+        text: `您的訂單已送達
+
+{{customerName}} 您好，
+
+訂單 {{orderNumber}} 已送達，祝您使用愉快！
+{{#orderUrl}}
+查看訂單：{{orderUrl}}{{/orderUrl}}`,
+      },
+    },
+  },
+
+  order_cancelled: {
+    description: 'Sent when an order is cancelled (order.cancelled)',
+    variables: ORDER_VARIABLES,
+    sample: SAMPLE_ORDER,
+    defaults: {
+      en: {
+        subject: 'Order {{orderNumber}} was cancelled',
+        html: `<h1 style="${H1}">Your order was cancelled</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}">Order <strong>{{orderNumber}}</strong> ({{orderTotal}}) has been cancelled. If you were charged, the payment will be refunded.</p>
+<p style="${NOTE}">Questions? Just reply to this email.</p>`,
+        text: `Your order was cancelled
+
+Hi {{customerName}},
+
+Order {{orderNumber}} ({{orderTotal}}) has been cancelled. If you were charged, the payment will be refunded.
+
+Questions? Just reply to this email.`,
+      },
+      'zh-Hant': {
+        subject: '訂單 {{orderNumber}} 已取消',
+        html: `<h1 style="${H1}">您的訂單已取消</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">訂單 <strong>{{orderNumber}}</strong>（{{orderTotal}}）已取消。如已付款，款項將退還給您。</p>
+<p style="${NOTE}">如有任何問題，請直接回覆此郵件。</p>`,
+        text: `您的訂單已取消
+
+{{customerName}} 您好，
+
+訂單 {{orderNumber}}（{{orderTotal}}）已取消。如已付款，款項將退還給您。
+
+如有任何問題，請直接回覆此郵件。`,
+      },
+    },
+  },
+
+  order_refunded: {
+    description: 'Sent when a refund completes (refund.completed)',
+    variables: [...ORDER_VARIABLES, 'refundAmount'],
+    sample: { ...SAMPLE_ORDER, refundAmount: '$24.00' },
+    defaults: {
+      en: {
+        subject: 'Refund issued for order {{orderNumber}}',
+        html: `<h1 style="${H1}">Your refund is on its way</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}">We've refunded <strong>{{refundAmount}}</strong> for order <strong>{{orderNumber}}</strong>. Depending on your bank it can take 5–10 business days to appear.</p>
+${orderButton('View order')}`,
+        text: `Your refund is on its way
+
+Hi {{customerName}},
+
+We've refunded {{refundAmount}} for order {{orderNumber}}. Depending on your bank it can take 5-10 business days to appear.
+{{#orderUrl}}
+View order: {{orderUrl}}{{/orderUrl}}`,
+      },
+      'zh-Hant': {
+        subject: '訂單 {{orderNumber}} 已退款',
+        html: `<h1 style="${H1}">退款已處理</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">我們已為訂單 <strong>{{orderNumber}}</strong> 退款 <strong>{{refundAmount}}</strong>。視發卡銀行而定，款項約需 5–10 個工作天入帳。</p>
+${orderButton('查看訂單')}`,
+        text: `退款已處理
+
+{{customerName}} 您好，
+
+我們已為訂單 {{orderNumber}} 退款 {{refundAmount}}。視發卡銀行而定，款項約需 5-10 個工作天入帳。
+{{#orderUrl}}
+查看訂單：{{orderUrl}}{{/orderUrl}}`,
+      },
+    },
+  },
+
+  wishlist_back_in_stock: {
+    description: 'Sent when a wishlisted item is back in stock (wishlist.back_in_stock)',
+    variables: WISHLIST_VARIABLES,
+    sample: SAMPLE_WISHLIST_ITEM,
+    defaults: {
+      en: {
+        subject: '{{productName}} is back in stock',
+        html: `<h1 style="${H1}">Good news — it's back</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}"><strong>{{productName}}</strong>{{#variantName}} ({{variantName}}){{/variantName}} from your wishlist is back in stock at {{price}}.</p>
+${productButton('Shop now')}
+<p style="${NOTE}">Popular items sell out quickly, so don't wait too long.</p>`,
+        text: `Good news — it's back
+
+Hi {{customerName}},
+
+{{productName}}{{#variantName}} ({{variantName}}){{/variantName}} from your wishlist is back in stock at {{price}}.
+
+Shop now: {{productUrl}}`,
+      },
+      'zh-Hant': {
+        subject: '{{productName}} 已重新到貨',
+        html: `<h1 style="${H1}">好消息，商品已到貨</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">您願望清單中的 <strong>{{productName}}</strong>{{#variantName}}（{{variantName}}）{{/variantName}}已重新到貨，售價 {{price}}。</p>
+${productButton('立即選購')}
+<p style="${NOTE}">熱門商品很快售完，請盡早選購。</p>`,
+        text: `好消息，商品已到貨
+
+{{customerName}} 您好，
+
+您願望清單中的 {{productName}}{{#variantName}}（{{variantName}}）{{/variantName}}已重新到貨，售價 {{price}}。
+
+立即選購：{{productUrl}}`,
+      },
+    },
+  },
+
+  wishlist_price_drop: {
+    description: 'Sent when the price of a wishlisted item drops (wishlist.price_drop)',
+    variables: [...WISHLIST_VARIABLES, 'previousPrice'],
+    sample: { ...SAMPLE_WISHLIST_ITEM, previousPrice: '$20.00' },
+    defaults: {
+      en: {
+        subject: 'Price drop: {{productName}} is now {{price}}',
+        html: `<h1 style="${H1}">A wishlist item just got cheaper</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}"><strong>{{productName}}</strong>{{#variantName}} ({{variantName}}){{/variantName}} dropped from <s>{{previousPrice}}</s> to <strong>{{price}}</strong>.</p>
+${productButton('Shop now')}`,
+        text: `A wishlist item just got cheaper
+
+Hi {{customerName}},
+
+{{productName}}{{#variantName}} ({{variantName}}){{/variantName}} dropped from {{previousPrice}} to {{price}}.
+
+Shop now: {{productUrl}}`,
+      },
+      'zh-Hant': {
+        subject: '降價通知：{{productName}} 現售 {{price}}',
+        html: `<h1 style="${H1}">願望清單商品降價了</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}"><strong>{{productName}}</strong>{{#variantName}}（{{variantName}}）{{/variantName}}已從 <s>{{previousPrice}}</s> 降至 <strong>{{price}}</strong>。</p>
+${productButton('立即選購')}`,
+        text: `願望清單商品降價了
+
+{{customerName}} 您好，
+
+{{productName}}{{#variantName}}（{{variantName}}）{{/variantName}}已從 {{previousPrice}} 降至 {{price}}。
+
+立即選購：{{productUrl}}`,
+      },
+    },
+  },
+
+  welcome: {
+    description: 'Sent when a customer creates an account (customer.registered)',
+    variables: COMMON_VARIABLES,
+    sample: { storeName: 'Jiffoo Store', shopUrl: 'https://shop.example.com', customerName: 'Alex' },
+    defaults: {
+      en: {
+        subject: 'Welcome to {{storeName}}',
+        html: `<h1 style="${H1}">Welcome, {{customerName}}!</h1>
+<p style="${P}">Thanks for creating an account with {{storeName}}. You can now track your orders and check out faster.</p>
+<p style="${P}"><a href="{{shopUrl}}" style="${BUTTON}">Start shopping</a></p>`,
+        text: `Welcome, {{customerName}}!
+
+Thanks for creating an account with {{storeName}}. You can now track your orders and check out faster.
+
+Start shopping: {{shopUrl}}`,
+      },
+      'zh-Hant': {
+        subject: '歡迎加入 {{storeName}}',
+        html: `<h1 style="${H1}">歡迎，{{customerName}}！</h1>
+<p style="${P}">感謝您在 {{storeName}} 註冊帳號。現在您可以追蹤訂單，並更快速地結帳。</p>
+<p style="${P}"><a href="{{shopUrl}}" style="${BUTTON}">開始購物</a></p>`,
+        text: `歡迎，{{customerName}}！
+
+感謝您在 {{storeName}} 註冊帳號。現在您可以追蹤訂單，並更快速地結帳。
+
+開始購物：{{shopUrl}}`,
+      },
+    },
+  },
+
+  password_reset: {
+    description: 'Password reset link',
+    variables: ACCOUNT_LINK_VARIABLES,
+    sensitive: true,
+    sample: {
+      storeName: 'Jiffoo Store',
+      shopUrl: 'https://shop.example.com',
+      customerName: 'Alex',
+      actionUrl: 'https://shop.example.com/auth/reset-password?token=sample',
+      expiresInMinutes: 30,
+    },
+    defaults: {
+      en: {
+        subject: 'Reset your {{storeName}} password',
+        html: `<h1 style="${H1}">Reset your password</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}">We received a request to reset the password for your account. Use the link below to choose a new one.</p>
+<a href="{{actionUrl}}" style="${BUTTON}">Reset password</a>
+<p style="${NOTE}">This link expires in {{expiresInMinutes}} minutes and can only be used once.</p>
+<p style="${NOTE}">If you did not request a password reset, you can ignore this email. Your password will not change.</p>`,
+        text: `Reset your password
+
+Hi {{customerName}},
+
+We received a request to reset the password for your account. Use the link below to choose a new one.
+
+{{actionUrl}}
+
+This link expires in {{expiresInMinutes}} minutes and can only be used once.
+If you did not request a password reset, you can ignore this email. Your password will not change.`,
+      },
+      'zh-Hant': {
+        subject: '重設您的 {{storeName}} 密碼',
+        html: `<h1 style="${H1}">重設密碼</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">我們收到了重設您帳號密碼的請求。請使用下方連結設定新密碼。</p>
+<a href="{{actionUrl}}" style="${BUTTON}">重設密碼</a>
+<p style="${NOTE}">此連結將於 {{expiresInMinutes}} 分鐘後失效，且只能使用一次。</p>
+<p style="${NOTE}">如果您沒有申請重設密碼，請忽略此郵件，您的密碼不會變更。</p>`,
+        text: `重設密碼
+
+{{customerName}} 您好，
+
+我們收到了重設您帳號密碼的請求。請使用下方連結設定新密碼。
+
+{{actionUrl}}
+
+此連結將於 {{expiresInMinutes}} 分鐘後失效，且只能使用一次。
+如果您沒有申請重設密碼，請忽略此郵件，您的密碼不會變更。`,
+      },
+    },
+  },
+
+  magic_link: {
+    description: 'Passwordless sign-in link',
+    variables: ACCOUNT_LINK_VARIABLES,
+    sensitive: true,
+    sample: {
+      storeName: 'Jiffoo Store',
+      shopUrl: 'https://shop.example.com',
+      customerName: 'Alex',
+      actionUrl: 'https://shop.example.com/auth/magic-link?token=sample',
+      expiresInMinutes: 15,
+    },
+    defaults: {
+      en: {
+        subject: 'Your {{storeName}} sign-in link',
+        html: `<h1 style="${H1}">Sign in to your account</h1>
+<p style="${P}">Hi {{customerName}},</p>
+<p style="${P}">Use the link below to sign in. No password needed.</p>
+<a href="{{actionUrl}}" style="${BUTTON}">Sign in</a>
+<p style="${NOTE}">This link expires in {{expiresInMinutes}} minutes and can only be used once.</p>
+<p style="${NOTE}">If you did not request this link, you can ignore this email.</p>`,
+        text: `Sign in to your account
+
+Hi {{customerName}},
+
+Use the link below to sign in. No password needed.
+
+{{actionUrl}}
+
+This link expires in {{expiresInMinutes}} minutes and can only be used once.
+If you did not request this link, you can ignore this email.`,
+      },
+      'zh-Hant': {
+        subject: '您的 {{storeName}} 登入連結',
+        html: `<h1 style="${H1}">登入您的帳號</h1>
+<p style="${P}">{{customerName}} 您好，</p>
+<p style="${P}">請使用下方連結登入，無需輸入密碼。</p>
+<a href="{{actionUrl}}" style="${BUTTON}">登入</a>
+<p style="${NOTE}">此連結將於 {{expiresInMinutes}} 分鐘後失效，且只能使用一次。</p>
+<p style="${NOTE}">如果您沒有申請此連結，請忽略此郵件。</p>`,
+        text: `登入您的帳號
+
+{{customerName}} 您好，
+
+請使用下方連結登入，無需輸入密碼。
+
+{{actionUrl}}
+
+此連結將於 {{expiresInMinutes}} 分鐘後失效，且只能使用一次。
+如果您沒有申請此連結，請忽略此郵件。`,
+      },
+    },
+  },
+};
+
+const SECTION_PATTERN = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*(\w*)\s*\}\}/g;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || value === false
+    || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Render a template string against variables
+ *
+ * Unknown variables render as empty strings; validateTemplate catches them
+ * when an admin saves a template.
+ */
+export function renderTemplateString(source: string, variables: EmailVariables, options: { html: boolean }): string {
+  const withSections = source.replace(SECTION_PATTERN, (_match, kind: string, name: string, inner: string) => {
+    const value = variables[name];
+    if (kind === '^') {
+      return isEmpty(value) ? renderTemplateString(inner, variables, options) : '';
+    }
+    if (isEmpty(value)) return '';
+    if (Array.isArray(value)) {
+      return value
+        .map((entry) => renderTemplateString(inner, { ...variables, ...(entry && typeof entry === 'object' ? entry : {}) }, options))
+        .join('');
+    }
+    return renderTemplateString(inner, variables, options);
+  });
+
+  return withSections.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined || value === null || typeof value === 'object') return '';
+    return options.html ? escapeHtml(String(value)) : String(value);
+  });
+}
+
+/**
+ * Check a template against the variables its key allows
+ *
+ * @returns Problems found; empty when the template is valid
+ */
+export function validateTemplate(key: EmailTemplateKey, content: EmailTemplateContent): string[] {
+  const allowed = new Set(EMAIL_TEMPLATES[key].variables);
+  const problems: string[] = [];
+
+  for (const [field, source] of Object.entries(content) as Array<[keyof EmailTemplateContent, string]>) {
+    const open: string[] = [];
+    for (const [, kind, name] of source.matchAll(TAG_PATTERN)) {
+      if (!name) {
+        problems.push(`${field}: empty tag`);
+      } else if (!allowed.has(name)) {
+        problems.push(`${field}: unknown variable "${name}"`);
+      }
+      if (kind === '#' || kind === '^') {
+        open.push(name);
+      } else if (kind === '/') {
+        if (open.pop() !== name) {
+          problems.push(`${field}: unexpected {{/${name}}}`);
+        }
+      }
+    }
+    for (const name of open) {
+      problems.push(`${field}: {{#${name}}} is never closed`);
+    }
+  }
+
+  return [...new Set(problems)];
+}
+
+/**
+ * Wrap a rendered body in the shared layout
+ */
+export function renderLayout(body: string, context: { subject: string; storeName: string; locale: Locale }): string {
+  const year = new Date().getFullYear();
+  return `<!DOCTYPE html>
+<html lang="${context.locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1.0">
+<title>${escapeHtml(context.subject)}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f5;padding:24px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff;border-radius:12px;overflow:hidden;box-shadow:0 1px 3px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="background-color:#2563eb;padding:16px 32px;">
+              <p style="color:#ffffff;font-size:16px;font-weight:700;margin:0;">${escapeHtml(context.storeName)}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding:24px 32px;">
+${body}
+              <div style="margin-top:24px;padding-top:16px;border-top:1px solid #e9ecef;">
+                <p style="font-size:12px;color:#adb5bd;margin:0;">© ${year} ${escapeHtml(context.storeName)}</p>
+              </div>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
+
+/**
+ * Render subject, layout-wrapped HTML and plain text
+ */
+export function renderEmail(
+  content: EmailTemplateContent,
+  variables: EmailVariables,
+  locale: Locale
+): EmailTemplateContent {
+  const subject = renderTemplateString(content.subject, variables, { html: false }).replace(/\s+/g, ' ').trim();
+  const storeName = String(variables.storeName ?? '');
+  const text = renderTemplateString(content.text, variables, { html: false }).trim();
+
+  return {
+    subject,
+    html: renderLayout(renderTemplateString(content.html, variables, { html: true }), { subject, storeName, locale }),
+    text: `${text}\n\n© ${new Date().getFullYear()} ${storeName}`,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Email Transports
+ *
+ * EMAIL_TRANSPORT picks how rendered emails leave the API:
+ * - resend: the Resend API (production default when RESEND_API_KEY is set)
+ * - smtp:   any SMTP server, including a local mailcatcher/MailHog
+ * - file:   one JSON file per email in EMAIL_FILE_DIR
+ * - log:    log the email only; links are included outside production so
+ *           they can be followed in local development
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '@/config/env';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { ResendProvider } from '@/plugins/email-providers/resend-provider';
+import { SmtpTransport } from './smtp-transport';
+import type { EmailMessage, EmailSendResult, EmailTransport, EmailTransportName } from './types';
+
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend';
+  private provider = new ResendProvider();
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const result = await this.provider.send({
+      to: message.to,
+      from: message.from,
+      fromName: message.fromName,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      tags: message.tags,
+    });
+    return { success: result.success, messageId: result.messageId, error: result.error };
+  }
+}
+
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(
+        path.join(this.dir, `${messageId}.json`),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+      );
+      return { success: true, messageId };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+}
+
+export class LogTransport implements EmailTransport {
+  readonly name = 'log';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    LoggerService.logSystem('email_logged', {
+      to: message.to,
+      subject: message.subject,
+      tags: message.tags,
+      ...(env.NODE_ENV === 'production' ? {} : { text: message.text }),
+    });
+    return { success: true, messageId: `log-${crypto.randomUUID()}` };
+  }
+}
+
+function resolveTransportName(): EmailTransportName {
+  if (env.EMAIL_TRANSPORT) return env.EMAIL_TRANSPORT;
+  return env.RESEND_API_KEY ? 'resend' : 'log';
+}
+
+/**
+ * Build the transport configured in the environment
+ *
+ * @throws Error if the chosen transport is missing its settings
+ */
+export function createEmailTransport(name: EmailTransportName = resolveTransportName()): EmailTransport {
+  switch (name) {
+    case 'resend':
+      if (!env.RESEND_API_KEY) {
+        throw new Error('EMAIL_TRANSPORT=resend requires RESEND_API_KEY');
+      }
+      return new ResendTransport();
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      });
+    case 'file':
+      return new FileTransport(env.EMAIL_FILE_DIR);
+    case 'log':
+      return new LogTransport();
+    default:
+      throw new Error(`Unknown email transport: ${name}`);
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the shared transport (tests) or drop it so the next send rebuilds it
+ */
+export function setEmailTransport(next: EmailTransport | null): void {
+  transport = next;
+}
+
+/**
+ * Send a message through the configured transport. Never throws.
+ */
+export async function deliverEmail(message: Omit<EmailMessage, 'from'> & { from?: string }): Promise<EmailSendResult & { transport?: string }> {
+  try {
+    const active = getEmailTransport();
+    const result = await active.send({
+      ...message,
+      from: message.from || env.EMAIL_FROM || 'noreply@jiffoo.com',
+      fromName: message.fromName || env.EMAIL_FROM_NAME,
+      replyTo: message.replyTo || env.EMAIL_REPLY_TO,
+    });
+    return { ...result, transport: active.name };
+  } catch (error: any) {
+    return { success: false, error: error.message || 'Failed to send email' };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Email Types
+ */
+
+import type { Locale } from '@jiffoo/shared';
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  fromName?: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  tags?: string[];
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * Delivers a rendered message. Implementations report failures in the result
+ * instead of throwing.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export type EmailTransportName = 'resend' | 'smtp' | 'file' | 'log';
+
+export const EMAIL_TEMPLATE_KEYS = [
+  'order_confirmation',
+  'order_shipped',
+  'order_delivered',
+  'order_cancelled',
+  'order_refunded',
+  'wishlist_back_in_stock',
+  'wishlist_price_drop',
+  'welcome',
+  'password_reset',
+  'magic_link',
+] as const;
+
+export type EmailTemplateKey = typeof EMAIL_TEMPLATE_KEYS[number];
+
+export enum EmailLogStatus {
+  PENDING = 'PENDING',
+  SENT = 'SENT',
+  FAILED = 'FAILED',
+}
+
+export type EmailVariables = Record<string, unknown>;
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateView extends EmailTemplateContent {
+  key: EmailTemplateKey;
+  locale: Locale;
+  description: string;
+  variables: string[];
+  enabled: boolean;
+  customized: boolean;
+  updatedAt: Date | null;
+}
+
+export interface SendTemplateEmailInput {
+  templateKey: EmailTemplateKey;
+  to: string;
+  locale?: Locale;
+  variables: EmailVariables;
+  /** Outbox event that triggered the email; a second delivery of the event is ignored */
+  sourceEventId?: string;
+  tags?: string[];
+}
+
+export interface UpdateEmailTemplateInput {
+  subject?: string;
+  html?: string;
+  text?: string;
+  enabled?: boolean;
+}
+
+export interface EmailLogQuery {
+  page?: number;
+  limit?: number;
+  status?: EmailLogStatus;
+  templateKey?: EmailTemplateKey;
+  recipient?: string;
+}
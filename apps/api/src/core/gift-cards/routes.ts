@@ -0,0 +1,275 @@
+/**
+ * Gift Card & Store Credit Routes
+ *
+ * Storefront (mounted at /api/gift-cards): gift card balance lookup, the
+ * customer's store credit, and the gift cards / store credit applied to an
+ * order at checkout. Guests manage tenders on their order with the order
+ * lookup token (X-Order-Token).
+ * Admin (mounted at /api/admin/gift-cards): issue, list and adjust gift
+ * cards, and look up or adjust a customer's store credit.
+ */
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { GiftCardService } from './service';
+import { StoreCreditService } from './store-credit';
+import { TenderAccess, TenderService } from './tenders';
+import { giftCardSchemas } from './schemas';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { createRateLimiter } from '@/core/auth/rate-limit-middleware';
+import { ORDER_TOKEN_HEADER } from '@/core/order/guest-access';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapGiftCardRouteError } from '@/utils/route-error-mapper';
+
+// Balance lookups and tender changes both try codes; keep guessing slow
+const giftCardCodeRateLimit = createRateLimiter({
+  windowMs: 15 * 60 * 1000,
+  maxRequests: 20,
+  keyPrefix: 'rate_limit:gift_cards',
+});
+
+function sendGiftCardError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapGiftCardRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+function readOrderToken(request: FastifyRequest): string | undefined {
+  const header = request.headers[ORDER_TOKEN_HEADER];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Signed-in customers authenticate as usual; guests use the order lookup
+ * token, checked against the order by the tender service.
+ */
+async function orderAccessMiddleware(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.headers.authorization && readOrderToken(request)) {
+    return;
+  }
+  return authMiddleware(request, reply);
+}
+
+function tenderAccess(request: FastifyRequest): TenderAccess {
+  return request.user
+    ? { userId: request.user.id }
+    : { userId: null, guestToken: readOrderToken(request) };
+}
+
+export async function giftCardRoutes(fastify: FastifyInstance) {
+  // Gift card balance (public)
+  fastify.post('/balance', {
+    onRequest: [giftCardCodeRateLimit],
+    schema: {
+      tags: ['gift-cards'],
+      summary: 'Check gift card balance',
+      ...giftCardSchemas.checkBalance,
+    }
+  }, async (request, reply) => {
+    try {
+      const { code } = request.body as any;
+      const balance = await GiftCardService.lookupBalance(code);
+      return sendSuccess(reply, balance);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to check gift card balance');
+    }
+  });
+
+  // Own store credit
+  fastify.get('/store-credit', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['gift-cards'],
+      summary: 'Get store credit',
+      description: 'The customer\'s store credit balance and recent changes',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.getStoreCredit,
+    }
+  }, async (request, reply) => {
+    try {
+      const account = await StoreCreditService.getAccount(request.user!.id);
+      return sendSuccess(reply, account);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to get store credit');
+    }
+  });
+
+  // Tenders applied to an order
+  fastify.get('/orders/:orderId/tenders', {
+    onRequest: [orderAccessMiddleware],
+    schema: {
+      tags: ['gift-cards'],
+      summary: 'Get applied gift cards and store credit',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.getTenders,
+    }
+  }, async (request, reply) => {
+    try {
+      const { orderId } = request.params as any;
+      const tenders = await TenderService.getTenders(orderId, tenderAccess(request));
+      return sendSuccess(reply, tenders);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to get applied tenders');
+    }
+  });
+
+  // Apply tenders
+  fastify.put('/orders/:orderId/tenders', {
+    onRequest: [giftCardCodeRateLimit, orderAccessMiddleware],
+    schema: {
+      tags: ['gift-cards'],
+      summary: 'Apply gift cards and store credit',
+      description: 'Hold gift card and store credit balances against an unpaid order before the payment session is created. Replaces earlier tenders; pays the order when they cover the total.',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.applyTenders,
+    }
+  }, async (request, reply) => {
+    try {
+      const { orderId } = request.params as any;
+      const { giftCardCodes, useStoreCredit } = request.body as any;
+      const tenders = await TenderService.apply(orderId, tenderAccess(request), { giftCardCodes, useStoreCredit });
+      return sendSuccess(reply, tenders);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to apply gift cards');
+    }
+  });
+
+  // Remove tenders
+  fastify.delete('/orders/:orderId/tenders', {
+    onRequest: [orderAccessMiddleware],
+    schema: {
+      tags: ['gift-cards'],
+      summary: 'Remove applied gift cards and store credit',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.removeTenders,
+    }
+  }, async (request, reply) => {
+    try {
+      const { orderId } = request.params as any;
+      const tenders = await TenderService.remove(orderId, tenderAccess(request));
+      return sendSuccess(reply, tenders);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to remove gift cards');
+    }
+  });
+}
+
+export async function adminGiftCardRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin gift card routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // List gift cards
+  fastify.get('/', {
+    schema: {
+      tags: ['admin-gift-cards'],
+      summary: 'List gift cards',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.listGiftCards,
+    }
+  }, async (request, reply) => {
+    try {
+      const { page, limit, search } = request.query as any;
+      const cards = await GiftCardService.listGiftCards({ page, limit, search });
+      return sendSuccess(reply, cards);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to get gift cards');
+    }
+  });
+
+  // Issue gift card
+  fastify.post('/', {
+    schema: {
+      tags: ['admin-gift-cards'],
+      summary: 'Issue gift card',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.issueGiftCard,
+    }
+  }, async (request, reply) => {
+    try {
+      const { amount, currency, code, expiresAt, note } = request.body as any;
+      const card = await GiftCardService.issueGiftCard({ amount, currency, code, expiresAt, note });
+      return sendSuccess(reply, card, 'Gift card issued', 201);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to issue gift card');
+    }
+  });
+
+  // Customer store credit
+  fastify.get('/store-credit/:userId', {
+    schema: {
+      tags: ['admin-gift-cards'],
+      summary: 'Get customer store credit',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.getCustomerStoreCredit,
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.params as any;
+      const account = await StoreCreditService.getAccount(userId);
+      return sendSuccess(reply, account);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to get store credit');
+    }
+  });
+
+  // Adjust customer store credit
+  fastify.post('/store-credit/:userId/adjustments', {
+    schema: {
+      tags: ['admin-gift-cards'],
+      summary: 'Adjust customer store credit',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.adjustStoreCredit,
+    }
+  }, async (request, reply) => {
+    try {
+      const { userId } = request.params as any;
+      const { amount, note } = request.body as any;
+      const account = await StoreCreditService.adjust(userId, { amount, note }, request.user?.id);
+      return sendSuccess(reply, account);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to adjust store credit');
+    }
+  });
+
+  // Get gift card
+  fastify.get('/:id', {
+    schema: {
+      tags: ['admin-gift-cards'],
+      summary: 'Get gift card',
+      description: 'Gift card with its latest balance changes',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.getGiftCard,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const card = await GiftCardService.getGiftCard(id);
+      return sendSuccess(reply, card);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to get gift card');
+    }
+  });
+
+  // Update gift card
+  fastify.put('/:id', {
+    schema: {
+      tags: ['admin-gift-cards'],
+      summary: 'Update gift card',
+      description: 'Disable or re-enable a card, change its expiry or note, or adjust its balance',
+      security: [{ bearerAuth: [] }],
+      ...giftCardSchemas.updateGiftCard,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { isActive, expiresAt, note, balanceAdjustment, adjustmentNote } = request.body as any;
+      const card = await GiftCardService.updateGiftCard(id, { isActive, expiresAt, note, balanceAdjustment, adjustmentNote });
+      return sendSuccess(reply, card);
+    } catch (error: unknown) {
+      return sendGiftCardError(reply, error, 'Failed to update gift card');
+    }
+  });
+}
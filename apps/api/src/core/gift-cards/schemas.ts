@@ -0,0 +1,251 @@
+/**
+ * Gift Card & Store Credit OpenAPI Schemas
+ */
+
+import {
+  createPageResultSchema,
+  createTypedCreateResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+} from '@/types/common-dto';
+
+const giftCardTransactionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['ISSUE', 'REDEEM', 'RELEASE', 'ADJUST'] },
+    amount: { type: 'number', description: 'Negative when the balance went down' },
+    balanceAfter: { type: 'number' },
+    orderId: { type: 'string', nullable: true },
+    note: { type: 'string', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'type', 'amount', 'balanceAfter', 'createdAt'],
+} as const;
+
+export const giftCardResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Gift card ID' },
+    code: { type: 'string', description: 'Redeemable code, grouped for display' },
+    initialBalance: { type: 'number' },
+    balance: { type: 'number' },
+    currency: { type: 'string' },
+    isActive: { type: 'boolean' },
+    expiresAt: { type: 'string', format: 'date-time', nullable: true },
+    orderId: { type: 'string', nullable: true, description: 'Order that bought the card' },
+    note: { type: 'string', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+    transactions: { type: 'array', items: giftCardTransactionSchema },
+  },
+  required: ['id', 'code', 'initialBalance', 'balance', 'currency', 'isActive'],
+} as const;
+
+const giftCardBalanceSchema = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', description: 'Masked code' },
+    balance: { type: 'number' },
+    currency: { type: 'string' },
+    isActive: { type: 'boolean', description: 'False once the card was disabled or has expired' },
+    expiresAt: { type: 'string', format: 'date-time', nullable: true },
+  },
+  required: ['code', 'balance', 'currency', 'isActive'],
+} as const;
+
+const storeCreditSchema = {
+  type: 'object',
+  properties: {
+    balance: { type: 'number' },
+    currency: { type: 'string' },
+    transactions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: ['REFUND', 'ADJUST', 'REDEEM', 'RELEASE'] },
+          amount: { type: 'number', description: 'Negative when the balance went down' },
+          balanceAfter: { type: 'number' },
+          orderId: { type: 'string', nullable: true },
+          refundId: { type: 'string', nullable: true },
+          note: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'type', 'amount', 'balanceAfter', 'createdAt'],
+      },
+    },
+  },
+  required: ['balance', 'currency', 'transactions'],
+} as const;
+
+const appliedTendersSchema = {
+  type: 'object',
+  properties: {
+    orderId: { type: 'string' },
+    currency: { type: 'string' },
+    totalAmount: { type: 'number' },
+    appliedAmount: { type: 'number', description: 'Covered by gift cards and store credit' },
+    amountDue: { type: 'number', description: 'Left for the payment provider' },
+    paid: { type: 'boolean', description: 'True once the order is paid' },
+    tenders: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          paymentId: { type: 'string' },
+          method: { type: 'string', enum: ['gift_card', 'store_credit'] },
+          amount: { type: 'number' },
+          label: { type: 'string', description: 'Masked gift card code, or "Store credit"' },
+        },
+        required: ['paymentId', 'method', 'amount', 'label'],
+      },
+    },
+  },
+  required: ['orderId', 'currency', 'totalAmount', 'appliedAmount', 'amountDue', 'paid', 'tenders'],
+} as const;
+
+const orderIdParams = {
+  type: 'object',
+  required: ['orderId'],
+  properties: {
+    orderId: { type: 'string', description: 'Order ID' },
+  },
+} as const;
+
+const giftCardIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Gift card ID' },
+  },
+} as const;
+
+const userIdParams = {
+  type: 'object',
+  required: ['userId'],
+  properties: {
+    userId: { type: 'string', description: 'Customer ID' },
+  },
+} as const;
+
+export const giftCardSchemas = {
+  // POST /api/gift-cards/balance
+  checkBalance: {
+    body: {
+      type: 'object',
+      required: ['code'],
+      properties: {
+        code: { type: 'string', minLength: 4, maxLength: 64, description: 'Gift card code, with or without dashes' },
+      },
+    },
+    response: createTypedReadResponses(giftCardBalanceSchema),
+  },
+
+  // GET /api/gift-cards/store-credit
+  getStoreCredit: {
+    response: createTypedReadResponses(storeCreditSchema),
+  },
+
+  // GET /api/gift-cards/orders/:orderId/tenders
+  getTenders: {
+    params: orderIdParams,
+    response: createTypedReadResponses(appliedTendersSchema),
+  },
+
+  // PUT /api/gift-cards/orders/:orderId/tenders
+  applyTenders: {
+    params: orderIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        giftCardCodes: {
+          type: 'array',
+          maxItems: 5,
+          items: { type: 'string', minLength: 4, maxLength: 64 },
+          description: 'Gift cards to redeem, used in this order',
+        },
+        useStoreCredit: { type: 'boolean', default: false, description: 'Cover what the gift cards leave with store credit' },
+      },
+    },
+    response: createTypedUpdateResponses(appliedTendersSchema),
+  },
+
+  // DELETE /api/gift-cards/orders/:orderId/tenders
+  removeTenders: {
+    params: orderIdParams,
+    response: createTypedUpdateResponses(appliedTendersSchema),
+  },
+
+  // GET /api/admin/gift-cards
+  listGiftCards: {
+    querystring: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer', minimum: 1, default: 1, description: 'Page number' },
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 20, description: 'Items per page' },
+        search: { type: 'string', maxLength: 64, description: 'Part of the code' },
+      },
+    },
+    response: createTypedReadResponses(createPageResultSchema(giftCardResponseSchema)),
+  },
+
+  // GET /api/admin/gift-cards/:id
+  getGiftCard: {
+    params: giftCardIdParams,
+    response: createTypedReadResponses(giftCardResponseSchema),
+  },
+
+  // POST /api/admin/gift-cards
+  issueGiftCard: {
+    body: {
+      type: 'object',
+      required: ['amount'],
+      properties: {
+        amount: { type: 'number', exclusiveMinimum: 0, description: 'Starting balance' },
+        currency: { type: 'string', pattern: '^[A-Za-z]{3}$', description: 'Defaults to the shop currency' },
+        code: { type: 'string', minLength: 8, maxLength: 64, description: 'Custom code, generated when omitted' },
+        expiresAt: { type: 'string', format: 'date-time', nullable: true },
+        note: { type: 'string', nullable: true, maxLength: 500 },
+      },
+    },
+    response: createTypedCreateResponses(giftCardResponseSchema),
+  },
+
+  // PUT /api/admin/gift-cards/:id
+  updateGiftCard: {
+    params: giftCardIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        isActive: { type: 'boolean' },
+        expiresAt: { type: 'string', format: 'date-time', nullable: true },
+        note: { type: 'string', nullable: true, maxLength: 500 },
+        balanceAdjustment: { type: 'number', description: 'Signed amount added to the balance' },
+        adjustmentNote: { type: 'string', nullable: true, maxLength: 500, description: 'Reason for the adjustment' },
+      },
+    },
+    response: createTypedUpdateResponses(giftCardResponseSchema),
+  },
+
+  // GET /api/admin/gift-cards/store-credit/:userId
+  getCustomerStoreCredit: {
+    params: userIdParams,
+    response: createTypedReadResponses(storeCreditSchema),
+  },
+
+  // POST /api/admin/gift-cards/store-credit/:userId/adjustments
+  adjustStoreCredit: {
+    params: userIdParams,
+    body: {
+      type: 'object',
+      required: ['amount'],
+      properties: {
+        amount: { type: 'number', description: 'Positive to add credit, negative to take it away' },
+        note: { type: 'string', nullable: true, maxLength: 500, description: 'Reason for the adjustment' },
+      },
+    },
+    response: createTypedUpdateResponses(storeCreditSchema),
+  },
+} as const;
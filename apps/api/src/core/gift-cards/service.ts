@@ -0,0 +1,456 @@
+/**
+ * Gift Card Service
+ *
+ * Gift cards are sold as products (productType "gift_card") or issued by a
+ * merchant. Sold cards are created when their order is paid, one per unit,
+ * with the line's unit price as balance; the codes are written to the order
+ * line's fulfillment data and go out in the digital delivery email. Refunding
+ * or cancelling the order voids them again.
+ *
+ * Codes are 16 characters from an alphabet without look-alike characters and
+ * are stored upper-case without separators, so customers can type them with
+ * or without dashes.
+ */
+
+import { randomInt } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { PageResult } from '@/types/common-dto';
+import { systemSettingsService } from '@/core/admin/system-settings/service';
+import { OutboxService } from '@/infra/outbox';
+import {
+  GiftCardBalanceResponse,
+  GiftCardResponse,
+  GiftCardTransactionResponse,
+  IssueGiftCardInput,
+  UpdateGiftCardInput,
+} from './types';
+
+export const GIFT_CARD_PRODUCT_TYPE = 'gift_card';
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 16;
+
+export type GiftCardTx = Pick<typeof prisma, 'giftCard' | 'giftCardTransaction' | 'orderItem' | 'outboxEvent'>;
+
+type GiftCardWithTransactions = Prisma.GiftCardGetPayload<{
+  include: { orderItem: { select: { orderId: true } }; transactions: true };
+}>;
+
+type GiftCardRow = Omit<GiftCardWithTransactions, 'transactions'> & {
+  transactions?: GiftCardWithTransactions['transactions'];
+};
+
+type TransactionContext = {
+  orderId?: string | null;
+  paymentId?: string | null;
+  note?: string | null;
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function normalizeGiftCardCode(value: string): string {
+  return String(value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function formatGiftCardCode(code: string): string {
+  return code.match(/.{1,4}/g)?.join('-') ?? code;
+}
+
+export function maskGiftCardCode(code: string): string {
+  return `****-${code.slice(-4)}`;
+}
+
+function generateCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function formatTransaction(transaction: GiftCardWithTransactions['transactions'][number]): GiftCardTransactionResponse {
+  return {
+    id: transaction.id,
+    type: transaction.type,
+    amount: Number(transaction.amount),
+    balanceAfter: Number(transaction.balanceAfter),
+    orderId: transaction.orderId,
+    note: transaction.note,
+    createdAt: transaction.createdAt.toISOString(),
+  };
+}
+
+function formatGiftCard(card: GiftCardRow): GiftCardResponse {
+  return {
+    id: card.id,
+    code: formatGiftCardCode(card.code),
+    initialBalance: Number(card.initialBalance),
+    balance: Number(card.balance),
+    currency: card.currency,
+    isActive: card.isActive,
+    expiresAt: card.expiresAt ? card.expiresAt.toISOString() : null,
+    orderId: card.orderItem?.orderId ?? null,
+    note: card.note,
+    createdAt: card.createdAt.toISOString(),
+    updatedAt: card.updatedAt.toISOString(),
+    ...(card.transactions ? { transactions: card.transactions.map(formatTransaction) } : {}),
+  };
+}
+
+async function createUniqueCard(
+  tx: GiftCardTx,
+  data: Omit<Prisma.GiftCardUncheckedCreateInput, 'code'>,
+  code?: string
+) {
+  if (code) {
+    return tx.giftCard.create({ data: { ...data, code } });
+  }
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = generateCode();
+    const taken = await tx.giftCard.findUnique({ where: { code: candidate }, select: { id: true } });
+    if (!taken) {
+      return tx.giftCard.create({ data: { ...data, code: candidate } });
+    }
+  }
+  throw new Error('Could not generate a unique gift card code');
+}
+
+export class GiftCardService {
+  /**
+   * Storefront balance lookup
+   *
+   * @throws Error if no card has the code
+   */
+  static async lookupBalance(code: string): Promise<GiftCardBalanceResponse> {
+    const card = await prisma.giftCard.findUnique({ where: { code: normalizeGiftCardCode(code) } });
+    if (!card) {
+      throw new Error('Gift card not found');
+    }
+
+    return {
+      code: maskGiftCardCode(card.code),
+      balance: Number(card.balance),
+      currency: card.currency,
+      isActive: card.isActive && (!card.expiresAt || card.expiresAt > new Date()),
+      expiresAt: card.expiresAt ? card.expiresAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Load a card that can pay for an order in `currency`
+   *
+   * @throws Error if the card is unknown, inactive, expired, empty or in another currency
+   */
+  static async findRedeemable(tx: Pick<GiftCardTx, 'giftCard'>, code: string, currency: string) {
+    const card = await tx.giftCard.findUnique({ where: { code: normalizeGiftCardCode(code) } });
+    if (!card) {
+      throw new Error('Gift card not found');
+    }
+    if (!card.isActive) {
+      throw new Error('Gift card is no longer active');
+    }
+    if (card.expiresAt && card.expiresAt <= new Date()) {
+      throw new Error('Gift card has expired');
+    }
+    if (card.currency !== currency) {
+      throw new Error(`Gift card is in ${card.currency}, the order is in ${currency}`);
+    }
+    if (Number(card.balance) <= 0) {
+      throw new Error('Gift card has no balance left');
+    }
+    return card;
+  }
+
+  /**
+   * Take `amount` off a card's balance
+   *
+   * @throws Error if the balance went below `amount` in the meantime
+   */
+  static async redeem(tx: GiftCardTx, giftCardId: string, amount: number, context: TransactionContext = {}): Promise<number> {
+    const updated = await tx.giftCard.updateMany({
+      where: { id: giftCardId, balance: { gte: amount } },
+      data: { balance: { decrement: amount } },
+    });
+    if (updated.count === 0) {
+      throw new Error('Gift card balance changed, please try again');
+    }
+
+    const card = await tx.giftCard.findUniqueOrThrow({ where: { id: giftCardId } });
+    await tx.giftCardTransaction.create({
+      data: {
+        giftCardId,
+        type: 'REDEEM',
+        amount: -amount,
+        balanceAfter: card.balance,
+        orderId: context.orderId ?? null,
+        paymentId: context.paymentId ?? null,
+        note: context.note ?? null,
+      },
+    });
+    return Number(card.balance);
+  }
+
+  /**
+   * Put a released tender's amount back on the card
+   */
+  static async restore(tx: GiftCardTx, giftCardId: string, amount: number, context: TransactionContext = {}): Promise<number> {
+    const card = await tx.giftCard.update({
+      where: { id: giftCardId },
+      data: { balance: { increment: amount } },
+    });
+    await tx.giftCardTransaction.create({
+      data: {
+        giftCardId,
+        type: 'RELEASE',
+        amount,
+        balanceAfter: card.balance,
+        orderId: context.orderId ?? null,
+        paymentId: context.paymentId ?? null,
+        note: context.note ?? null,
+      },
+    });
+    return Number(card.balance);
+  }
+
+  /**
+   * Create the cards bought with a paid order
+   *
+   * One card per unit of every gift card line. Lines that already have their
+   * cards are skipped, so calling this twice for an order is a no-op.
+   *
+   * @returns IDs of the cards created
+   */
+  static async issueForOrder(tx: GiftCardTx, orderId: string): Promise<string[]> {
+    const items = await tx.orderItem.findMany({
+      where: { orderId, product: { productType: GIFT_CARD_PRODUCT_TYPE } },
+      include: {
+        order: { select: { currency: true } },
+        giftCards: { select: { id: true } },
+      },
+    });
+
+    const issued: Array<{ id: string; orderItemId: string; amount: number; currency: string }> = [];
+    for (const item of items) {
+      if (item.giftCards.length > 0) continue;
+
+      const amount = Number(item.unitPrice);
+      const codes: string[] = [];
+      const ids: string[] = [];
+      for (let unit = 0; unit < item.quantity; unit++) {
+        const card = await createUniqueCard(tx, {
+          initialBalance: amount,
+          balance: amount,
+          currency: item.order.currency,
+          orderItemId: item.id,
+        });
+        await tx.giftCardTransaction.create({
+          data: { giftCardId: card.id, type: 'ISSUE', amount, balanceAfter: amount, orderId },
+        });
+        codes.push(formatGiftCardCode(card.code));
+        ids.push(card.id);
+        issued.push({ id: card.id, orderItemId: item.id, amount, currency: card.currency });
+      }
+
+      const fulfillmentData = item.fulfillmentData && typeof item.fulfillmentData === 'object' && !Array.isArray(item.fulfillmentData)
+        ? item.fulfillmentData as Record<string, unknown>
+        : {};
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: {
+          fulfillmentStatus: 'delivered',
+          fulfillmentData: { ...fulfillmentData, cardUid: codes.join(', '), giftCardIds: ids } as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    if (issued.length > 0) {
+      await OutboxService.emit(tx, 'gift_card.issued', orderId, { orderId, giftCards: issued });
+    }
+
+    return issued.map((card) => card.id);
+  }
+
+  /**
+   * Void cards sold with an order that is being refunded or cancelled
+   *
+   * Without `lines` every card of the order is voided; with them, `quantity`
+   * cards of each listed line, those with the most balance left first. A
+   * voided card is deactivated and what is left on it is written off.
+   *
+   * @returns IDs of the cards voided
+   */
+  static async voidForOrder(
+    tx: GiftCardTx,
+    orderId: string,
+    lines?: Array<{ orderItemId: string; quantity: number }>,
+    note = 'order_refunded'
+  ): Promise<string[]> {
+    if (lines && lines.length === 0) {
+      return [];
+    }
+
+    const cards = await tx.giftCard.findMany({
+      where: {
+        isActive: true,
+        orderItem: { orderId },
+        ...(lines ? { orderItemId: { in: lines.map((line) => line.orderItemId) } } : {}),
+      },
+      orderBy: { balance: 'desc' },
+    });
+
+    const remaining = new Map(lines?.map((line) => [line.orderItemId, line.quantity]));
+    const voided: string[] = [];
+    for (const card of cards) {
+      if (lines) {
+        const left = remaining.get(card.orderItemId ?? '') ?? 0;
+        if (left <= 0) continue;
+        remaining.set(card.orderItemId ?? '', left - 1);
+      }
+
+      const claimed = await tx.giftCard.updateMany({
+        where: { id: card.id, isActive: true },
+        data: { isActive: false, balance: 0 },
+      });
+      if (claimed.count === 0) continue;
+
+      await tx.giftCardTransaction.create({
+        data: {
+          giftCardId: card.id,
+          type: 'ADJUST',
+          amount: -Number(card.balance),
+          balanceAfter: 0,
+          orderId,
+          note,
+        },
+      });
+      voided.push(card.id);
+    }
+
+    return voided;
+  }
+
+  // ============================================================
+  // Admin
+  // ============================================================
+
+  static async listGiftCards(options: { page?: number; limit?: number; search?: string } = {}): Promise<PageResult<GiftCardResponse>> {
+    const safePage = Math.max(1, Number(options.page) || 1);
+    const safeLimit = Math.min(100, Math.max(1, Number(options.limit) || 20));
+    const search = options.search ? normalizeGiftCardCode(options.search) : '';
+    const where: Prisma.GiftCardWhereInput = search ? { code: { contains: search } } : {};
+
+    const [cards, total] = await Promise.all([
+      prisma.giftCard.findMany({
+        where,
+        include: { orderItem: { select: { orderId: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip: (safePage - 1) * safeLimit,
+        take: safeLimit,
+      }),
+      prisma.giftCard.count({ where }),
+    ]);
+
+    return {
+      items: cards.map(formatGiftCard),
+      page: safePage,
+      limit: safeLimit,
+      total,
+      totalPages: Math.ceil(total / safeLimit),
+    };
+  }
+
+  static async getGiftCard(id: string): Promise<GiftCardResponse> {
+    const card = await prisma.giftCard.findUnique({
+      where: { id },
+      include: {
+        orderItem: { select: { orderId: true } },
+        transactions: { orderBy: { createdAt: 'desc' }, take: 50 },
+      },
+    });
+    if (!card) {
+      throw new Error('Gift card not found');
+    }
+    return formatGiftCard(card);
+  }
+
+  /**
+   * Issue a card without an order (goodwill, promotions, in-store sales)
+   *
+   * @throws Error if a custom code is too short or already taken
+   */
+  static async issueGiftCard(input: IssueGiftCardInput): Promise<GiftCardResponse> {
+    const code = input.code !== undefined ? normalizeGiftCardCode(input.code) : undefined;
+    if (code !== undefined && code.length < 8) {
+      throw new Error('Gift card code must have at least 8 letters or digits');
+    }
+    if (code && await prisma.giftCard.findUnique({ where: { code }, select: { id: true } })) {
+      throw new Error('Gift card code is already in use');
+    }
+
+    const amount = roundMoney(input.amount);
+    const currency = (input.currency || await systemSettingsService.getShopCurrency()).toUpperCase();
+
+    const card = await prisma.$transaction(async (tx) => {
+      const created = await createUniqueCard(tx, {
+        initialBalance: amount,
+        balance: amount,
+        currency,
+        expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+        note: input.note ?? null,
+      }, code);
+      await tx.giftCardTransaction.create({
+        data: { giftCardId: created.id, type: 'ISSUE', amount, balanceAfter: amount, note: input.note ?? null },
+      });
+      return created;
+    });
+
+    return this.getGiftCard(card.id);
+  }
+
+  /**
+   * Update a card's status, expiry or note, or adjust its balance
+   *
+   * @throws Error if an adjustment would take the balance below zero
+   */
+  static async updateGiftCard(id: string, input: UpdateGiftCardInput): Promise<GiftCardResponse> {
+    const card = await prisma.giftCard.findUnique({ where: { id } });
+    if (!card) {
+      throw new Error('Gift card not found');
+    }
+
+    const adjustment = input.balanceAdjustment ? roundMoney(input.balanceAdjustment) : 0;
+    if (Number(card.balance) + adjustment < 0) {
+      throw new Error('Gift card balance cannot go below zero');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.giftCard.update({
+        where: { id },
+        data: {
+          ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+          ...(input.expiresAt !== undefined ? { expiresAt: input.expiresAt ? new Date(input.expiresAt) : null } : {}),
+          ...(input.note !== undefined ? { note: input.note } : {}),
+          ...(adjustment !== 0 ? { balance: { increment: adjustment } } : {}),
+        },
+      });
+
+      if (adjustment !== 0) {
+        await tx.giftCardTransaction.create({
+          data: {
+            giftCardId: id,
+            type: 'ADJUST',
+            amount: adjustment,
+            balanceAfter: updated.balance,
+            note: input.adjustmentNote ?? null,
+          },
+        });
+      }
+    });
+
+    return this.getGiftCard(id);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Store Credit Service
+ *
+ * Each customer has at most one store credit account, opened in the shop
+ * currency the first time credit is added (refund to store credit or a
+ * merchant adjustment). Every balance change is written to the account's
+ * ledger with the balance it left behind.
+ */
+
+import { prisma } from '@/config/database';
+import { systemSettingsService } from '@/core/admin/system-settings/service';
+import { AdjustStoreCreditInput, StoreCreditResponse } from './types';
+
+export type StoreCreditTx = Pick<typeof prisma, 'storeCreditAccount' | 'storeCreditTransaction'>;
+
+type StoreCreditChange = {
+  type: 'REFUND' | 'ADJUST' | 'REDEEM' | 'RELEASE';
+  currency: string;
+  orderId?: string | null;
+  paymentId?: string | null;
+  refundId?: string | null;
+  note?: string | null;
+  actorId?: string | null;
+};
+
+const HISTORY_LIMIT = 50;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class StoreCreditService {
+  /**
+   * Balance and recent ledger entries; customers without an account have a
+   * zero balance in the shop currency
+   */
+  static async getAccount(userId: string): Promise<StoreCreditResponse> {
+    const account = await prisma.storeCreditAccount.findUnique({
+      where: { userId },
+      include: { transactions: { orderBy: { createdAt: 'desc' }, take: HISTORY_LIMIT } },
+    });
+
+    if (!account) {
+      return { balance: 0, currency: await systemSettingsService.getShopCurrency(), transactions: [] };
+    }
+
+    return {
+      balance: Number(account.balance),
+      currency: account.currency,
+      transactions: account.transactions.map((transaction) => ({
+        id: transaction.id,
+        type: transaction.type,
+        amount: Number(transaction.amount),
+        balanceAfter: Number(transaction.balanceAfter),
+        orderId: transaction.orderId,
+        refundId: transaction.refundId,
+        note: transaction.note,
+        createdAt: transaction.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Add credit, opening the account if needed
+   *
+   * @throws Error if the account is kept in another currency
+   */
+  static async credit(tx: StoreCreditTx, userId: string, amount: number, change: StoreCreditChange): Promise<number> {
+    const existing = await tx.storeCreditAccount.findUnique({ where: { userId } });
+    if (existing && existing.currency !== change.currency) {
+      throw new Error(`Store credit is kept in ${existing.currency}, not ${change.currency}`);
+    }
+
+    const account = existing
+      ? await tx.storeCreditAccount.update({
+          where: { userId },
+          data: { balance: { increment: amount } },
+        })
+      : await tx.storeCreditAccount.create({
+          data: { userId, currency: change.currency, balance: amount },
+        });
+
+    await this.record(tx, userId, amount, Number(account.balance), change);
+    return Number(account.balance);
+  }
+
+  /**
+   * Take credit off the balance
+   *
+   * @throws Error if the balance is lower than `amount` or in another currency
+   */
+  static async debit(tx: StoreCreditTx, userId: string, amount: number, change: StoreCreditChange): Promise<number> {
+    const updated = await tx.storeCreditAccount.updateMany({
+      where: { userId, currency: change.currency, balance: { gte: amount } },
+      data: { balance: { decrement: amount } },
+    });
+    if (updated.count === 0) {
+      throw new Error('Store credit balance is too low');
+    }
+
+    const account = await tx.storeCreditAccount.findUniqueOrThrow({ where: { userId } });
+    await this.record(tx, userId, -amount, Number(account.balance), change);
+    return Number(account.balance);
+  }
+
+  /**
+   * Merchant adjustment: positive amounts add credit, negative amounts take it away
+   *
+   * @throws Error if the customer does not exist or the balance would go below zero
+   */
+  static async adjust(userId: string, input: AdjustStoreCreditInput, actorId?: string): Promise<StoreCreditResponse> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new Error('Customer not found');
+    }
+
+    const amount = roundMoney(input.amount);
+    if (amount === 0) {
+      throw new Error('Adjustment amount must not be zero');
+    }
+
+    const account = await prisma.storeCreditAccount.findUnique({ where: { userId } });
+    const currency = account?.currency ?? await systemSettingsService.getShopCurrency();
+    const change: StoreCreditChange = { type: 'ADJUST', currency, note: input.note ?? null, actorId: actorId ?? null };
+
+    await prisma.$transaction(async (tx) => {
+      if (amount > 0) {
+        await this.credit(tx, userId, amount, change);
+      } else {
+        await this.debit(tx, userId, -amount, change);
+      }
+    });
+
+    return this.getAccount(userId);
+  }
+
+  private static async record(tx: StoreCreditTx, userId: string, amount: number, balanceAfter: number, change: StoreCreditChange) {
+    await tx.storeCreditTransaction.create({
+      data: {
+        userId,
+        type: change.type,
+        amount,
+        balanceAfter,
+        orderId: change.orderId ?? null,
+        paymentId: change.paymentId ?? null,
+        refundId: change.refundId ?? null,
+        note: change.note ?? null,
+        actorId: change.actorId ?? null,
+      },
+    });
+  }
+}
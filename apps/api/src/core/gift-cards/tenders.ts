@@ -0,0 +1,428 @@
+/**
+ * Checkout Tenders
+ *
+ * Gift cards and store credit pay for part (or all) of an order before the
+ * payment plugin is involved. Applying them holds the amount: the balance is
+ * taken off straight away and a PENDING Payment with paymentMethod
+ * "gift_card" / "store_credit" is recorded, with its PaymentLedger CREATED
+ * entry. The payment session is then created for what is left (see
+ * getAmountDue). Both take the order row lock first, so tenders and a
+ * provider session are never added to an order side by side.
+ *
+ * When the rest of the order is paid, the held tenders are captured
+ * (SUCCEEDED) in the same transaction, so the ledger shows the split. When
+ * the order is cancelled or expires unpaid, they are released: the balance
+ * goes back and the payment is CANCELLED.
+ */
+
+import { OrderPaymentStatus as PrismaOrderPaymentStatus, OrderStatus as PrismaOrderStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { CacheService } from '@/core/cache/service';
+import { ExternalOrderService } from '@/core/external-orders/service';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { OrderStatus, PaymentStatus } from '@/core/order/types';
+import { recordOrderStatusHistory } from '@/core/order/status-history';
+import { guestAccessTokenMatches } from '@/core/order/guest-access';
+import { emitOrderPaidEvent } from '@/core/payment/order-paid-event';
+import { GiftCardService, GiftCardTx, maskGiftCardCode, normalizeGiftCardCode } from './service';
+import { StoreCreditService, StoreCreditTx } from './store-credit';
+import { AppliedTenderResponse, AppliedTendersResponse, ApplyTendersInput, TenderMethod } from './types';
+
+export const TENDER_METHODS: TenderMethod[] = ['gift_card', 'store_credit'];
+
+/** Most gift cards one order can be split over */
+const MAX_GIFT_CARDS = 5;
+const AWAITING_PAYMENT_STATUSES: string[] = [PaymentStatus.PENDING, PaymentStatus.FAILED];
+
+export type TenderTx = GiftCardTx & StoreCreditTx & Pick<typeof prisma, 'payment' | 'paymentLedger'>;
+
+export type TenderAccess = {
+  userId: string | null;
+  /** Order lookup token, for guests */
+  guestToken?: string;
+};
+
+type TenderPayment = {
+  id: string;
+  paymentMethod: string;
+  amount: Prisma.Decimal | number;
+  currency: string;
+  metadata: Prisma.JsonValue;
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isTenderMethod(method: string | null | undefined): method is TenderMethod {
+  return TENDER_METHODS.includes(method as TenderMethod);
+}
+
+function tenderMetadata(payment: TenderPayment): Record<string, unknown> {
+  return payment.metadata && typeof payment.metadata === 'object' && !Array.isArray(payment.metadata)
+    ? payment.metadata as Record<string, unknown>
+    : {};
+}
+
+function formatTender(payment: TenderPayment): AppliedTenderResponse {
+  const metadata = tenderMetadata(payment);
+  return {
+    paymentId: payment.id,
+    method: payment.paymentMethod as TenderMethod,
+    amount: Number(payment.amount),
+    label: typeof metadata.label === 'string' ? metadata.label : 'Store credit',
+  };
+}
+
+export class TenderService {
+  /**
+   * What the payment provider still has to collect: the order total minus
+   * held and captured tenders
+   */
+  static async getAmountDue(
+    orderId: string,
+    totalAmount: Prisma.Decimal | number,
+    client: Pick<typeof prisma, 'payment'> = prisma
+  ): Promise<number> {
+    const tenders = await client.payment.findMany({
+      where: { orderId, paymentMethod: { in: TENDER_METHODS }, status: { in: ['PENDING', 'SUCCEEDED'] } },
+      select: { amount: true },
+    });
+    const applied = tenders.reduce((sum, tender) => sum + Number(tender.amount), 0);
+    return Math.max(0, roundMoney(Number(totalAmount) - applied));
+  }
+
+  /**
+   * Lock the order row until the transaction ends
+   *
+   * Held while tenders are applied and while a provider payment is recorded,
+   * so neither can push what is held on the order past its total.
+   */
+  static async lockOrder(tx: Pick<typeof prisma, '$queryRaw'>, orderId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM "orders" WHERE id = ${orderId} FOR UPDATE`;
+  }
+
+  /**
+   * Tenders applied to an order that the customer can see
+   *
+   * @throws Error if the order is not found or the guest token does not match
+   */
+  static async getTenders(orderId: string, access: TenderAccess): Promise<AppliedTendersResponse> {
+    const order = await this.findOrder(orderId, access);
+    return this.summarize(prisma, order);
+  }
+
+  /**
+   * Apply gift cards and store credit to an unpaid order
+   *
+   * Replaces what was applied before: earlier held tenders are released first.
+   * Each card is used up to its balance and store credit covers what the cards
+   * leave, in the order given. When the tenders cover the total, the order is
+   * paid on the spot.
+   *
+   * @throws Error if the order cannot take tenders any more
+   * @throws Error if a gift card cannot be redeemed, or a guest asks for store credit
+   */
+  static async apply(orderId: string, access: TenderAccess, input: ApplyTendersInput): Promise<AppliedTendersResponse> {
+    const order = await this.findOrder(orderId, access);
+    const codes = [...new Set((input.giftCardCodes ?? []).map(normalizeGiftCardCode).filter(Boolean))];
+    if (codes.length > MAX_GIFT_CARDS) {
+      throw new Error(`At most ${MAX_GIFT_CARDS} gift cards can be used on one order`);
+    }
+    if (input.useStoreCredit && !order.userId) {
+      throw new Error('Sign in to use store credit');
+    }
+
+    let paid = false;
+    const result = await prisma.$transaction(async (tx) => {
+      await this.lockOrder(tx, order.id);
+      await this.assertAwaitingPayment(tx, order.id);
+      await this.releaseForOrder(tx, order.id, 'replaced');
+
+      const latest = await tx.payment.findFirst({
+        where: { orderId: order.id },
+        orderBy: { attemptNumber: 'desc' },
+        select: { attemptNumber: true },
+      });
+      let attemptNumber = Math.max(latest?.attemptNumber ?? 0, order.paymentAttempts || 0);
+      let remaining = roundMoney(Number(order.totalAmount));
+      let firstTender: { id: string; method: TenderMethod } | null = null;
+
+      const createTender = async (method: TenderMethod, amount: number, metadata: Record<string, unknown>) => {
+        attemptNumber += 1;
+        const idempotencyKey = `tender:${order.id}:attempt:${attemptNumber}:${method}`;
+        const payment = await tx.payment.create({
+          data: {
+            orderId: order.id,
+            paymentMethod: method,
+            amount,
+            currency: order.currency,
+            status: 'PENDING',
+            attemptNumber,
+            idempotencyKey,
+            metadata: metadata as Prisma.InputJsonValue,
+          },
+        });
+        await tx.paymentLedger.create({
+          data: {
+            paymentId: payment.id,
+            orderId: order.id,
+            eventType: 'CREATED',
+            amount,
+            currency: order.currency,
+            provider: method,
+            idempotencyKey,
+          },
+        });
+        firstTender ??= { id: payment.id, method };
+        remaining = roundMoney(remaining - amount);
+        return payment;
+      };
+
+      for (const code of codes) {
+        if (remaining <= 0) break;
+        const card = await GiftCardService.findRedeemable(tx, code, order.currency);
+        const amount = Math.min(Number(card.balance), remaining);
+        const payment = await createTender('gift_card', amount, { giftCardId: card.id, label: maskGiftCardCode(card.code) });
+        await GiftCardService.redeem(tx, card.id, amount, { orderId: order.id, paymentId: payment.id });
+      }
+
+      if (input.useStoreCredit && order.userId && remaining > 0) {
+        const account = await tx.storeCreditAccount.findUnique({ where: { userId: order.userId } });
+        if (account && account.currency !== order.currency) {
+          throw new Error(`Store credit is kept in ${account.currency}, the order is in ${order.currency}`);
+        }
+        const amount = Math.min(Number(account?.balance ?? 0), remaining);
+        if (amount > 0) {
+          const payment = await createTender('store_credit', amount, { label: 'Store credit' });
+          await StoreCreditService.debit(tx, order.userId, amount, {
+            type: 'REDEEM',
+            currency: order.currency,
+            orderId: order.id,
+            paymentId: payment.id,
+          });
+        }
+      }
+
+      if (firstTender) {
+        await tx.order.update({
+          where: { id: order.id },
+          data: {
+            paymentAttempts: attemptNumber,
+            lastPaymentAttemptAt: new Date(),
+            lastPaymentMethod: firstTender.method,
+          },
+        });
+      }
+
+      if (firstTender && remaining <= 0) {
+        await this.captureForPaidOrder(tx, order.id);
+
+        const updatedOrder = await tx.order.update({
+          where: { id: order.id },
+          data: { paymentStatus: PaymentStatus.PAID, status: OrderStatus.PROCESSING },
+        });
+
+        await emitOrderPaidEvent(tx, order.id, {
+          paymentId: firstTender.id,
+          paymentMethod: firstTender.method,
+          actorId: order.userId ?? undefined,
+        });
+
+        await recordOrderStatusHistory(tx, {
+          orderId: order.id,
+          fromStatus: order.status as PrismaOrderStatus,
+          toStatus: updatedOrder.status as PrismaOrderStatus,
+          fromPaymentStatus: order.paymentStatus as PrismaOrderPaymentStatus,
+          toPaymentStatus: updatedOrder.paymentStatus as PrismaOrderPaymentStatus,
+          reason: 'payment_succeeded',
+          actorType: 'user',
+          actorId: order.userId,
+        });
+        paid = true;
+      }
+
+      return this.summarize(tx, order);
+    });
+
+    if (paid) {
+      await ExternalOrderService.processPaidOrder(order.id).catch((error) => {
+        LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+          context: 'external order processing after tender payment',
+          orderId: order.id,
+        });
+      });
+    }
+    await CacheService.incrementOrderVersion();
+
+    return result;
+  }
+
+  /**
+   * Take the tenders off an unpaid order and give the balances back
+   *
+   * @throws Error if the order is not found or payment has already started
+   */
+  static async remove(orderId: string, access: TenderAccess): Promise<AppliedTendersResponse> {
+    const order = await this.findOrder(orderId, access);
+
+    const result = await prisma.$transaction(async (tx) => {
+      await this.assertAwaitingPayment(tx, order.id);
+      await this.releaseForOrder(tx, order.id, 'removed');
+      return this.summarize(tx, order);
+    });
+
+    await CacheService.incrementOrderVersion();
+    return result;
+  }
+
+  /**
+   * Capture the held tenders of an order that was just paid, then issue the
+   * gift cards it bought. Called inside every payment-succeeded transaction.
+   */
+  static async captureForPaidOrder(tx: TenderTx, orderId: string): Promise<void> {
+    const tenders = await tx.payment.findMany({
+      where: { orderId, paymentMethod: { in: TENDER_METHODS }, status: 'PENDING' },
+    });
+
+    for (const tender of tenders) {
+      const claimed = await tx.payment.updateMany({
+        where: { id: tender.id, status: 'PENDING' },
+        data: { status: 'SUCCEEDED', providerEventId: `tender:${tender.id}:captured` },
+      });
+      if (claimed.count === 0) continue;
+
+      await tx.paymentLedger.create({
+        data: {
+          paymentId: tender.id,
+          orderId,
+          eventType: 'SUCCEEDED',
+          amount: tender.amount,
+          currency: tender.currency,
+          provider: tender.paymentMethod,
+          providerEventId: `tender:${tender.id}:captured`,
+        },
+      });
+    }
+
+    await GiftCardService.issueForOrder(tx, orderId);
+  }
+
+  /**
+   * Release the held tenders of an order that will not be paid
+   *
+   * @param reason Recorded on the FAILED ledger entry (cancelled, payment_expired, ...)
+   * @returns Number of tenders released
+   */
+  static async releaseForOrder(tx: TenderTx, orderId: string, reason: string): Promise<number> {
+    const tenders = await tx.payment.findMany({
+      where: { orderId, paymentMethod: { in: TENDER_METHODS }, status: 'PENDING' },
+      include: { order: { select: { userId: true } } },
+    });
+
+    let released = 0;
+    for (const tender of tenders) {
+      const claimed = await tx.payment.updateMany({
+        where: { id: tender.id, status: 'PENDING' },
+        data: { status: 'CANCELLED', failureReason: reason },
+      });
+      if (claimed.count === 0) continue;
+      released++;
+
+      const amount = Number(tender.amount);
+      const metadata = tenderMetadata(tender);
+      if (tender.paymentMethod === 'gift_card' && typeof metadata.giftCardId === 'string') {
+        await GiftCardService.restore(tx, metadata.giftCardId, amount, { orderId, paymentId: tender.id });
+      } else if (tender.paymentMethod === 'store_credit' && tender.order.userId) {
+        await StoreCreditService.credit(tx, tender.order.userId, amount, {
+          type: 'RELEASE',
+          currency: tender.currency,
+          orderId,
+          paymentId: tender.id,
+        });
+      }
+
+      await tx.paymentLedger.create({
+        data: {
+          paymentId: tender.id,
+          orderId,
+          eventType: 'FAILED',
+          amount: tender.amount,
+          currency: tender.currency,
+          provider: tender.paymentMethod,
+          providerEventId: `tender:${tender.id}:released`,
+          metadata: { reason },
+        },
+      });
+    }
+
+    return released;
+  }
+
+  private static async findOrder(orderId: string, access: TenderAccess) {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId: access.userId },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        paymentStatus: true,
+        totalAmount: true,
+        currency: true,
+        paymentAttempts: true,
+        guestAccessTokenHash: true,
+      },
+    });
+
+    if (!order || (!access.userId && !guestAccessTokenMatches(access.guestToken ?? '', order.guestAccessTokenHash))) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  /**
+   * Tenders can only change before the order is paid and while no payment
+   * session is open: the session was created for the amount due at the time.
+   */
+  private static async assertAwaitingPayment(tx: Pick<typeof prisma, 'order' | 'payment'>, orderId: string) {
+    const current = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { status: true, paymentStatus: true },
+    });
+    if (current.status !== OrderStatus.PENDING || !AWAITING_PAYMENT_STATUSES.includes(current.paymentStatus)) {
+      throw new Error('Order is not awaiting payment');
+    }
+
+    const openSessions = await tx.payment.count({
+      where: { orderId, status: 'PENDING', paymentMethod: { notIn: TENDER_METHODS } },
+    });
+    if (openSessions > 0) {
+      throw new Error('Payment has already started for this order');
+    }
+  }
+
+  private static async summarize(
+    client: Pick<typeof prisma, 'order' | 'payment'>,
+    order: { id: string; totalAmount: Prisma.Decimal; currency: string }
+  ): Promise<AppliedTendersResponse> {
+    const [current, tenders] = await Promise.all([
+      client.order.findUniqueOrThrow({ where: { id: order.id }, select: { paymentStatus: true } }),
+      client.payment.findMany({
+        where: { orderId: order.id, paymentMethod: { in: TENDER_METHODS }, status: { in: ['PENDING', 'SUCCEEDED'] } },
+        orderBy: { attemptNumber: 'asc' },
+      }),
+    ]);
+    const totalAmount = Number(order.totalAmount);
+    const appliedAmount = roundMoney(tenders.reduce((sum, tender) => sum + Number(tender.amount), 0));
+
+    return {
+      orderId: order.id,
+      currency: order.currency,
+      totalAmount,
+      appliedAmount,
+      amountDue: Math.max(0, roundMoney(totalAmount - appliedAmount)),
+      paid: current.paymentStatus !== PaymentStatus.PENDING && current.paymentStatus !== PaymentStatus.FAILED,
+      tenders: tenders.map(formatTender),
+    };
+  }
+}
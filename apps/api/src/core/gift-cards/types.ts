@@ -0,0 +1,114 @@
+/**
+ * Gift Card & Store Credit Types
+ *
+ * Gift cards (sold as products or issued by a merchant), per-customer store
+ * credit, and the tenders that redeem them against an order at checkout.
+ */
+
+/** Payment.paymentMethod of tender payments */
+export type TenderMethod = 'gift_card' | 'store_credit';
+
+export interface GiftCardTransactionResponse {
+  id: string;
+  type: 'ISSUE' | 'REDEEM' | 'RELEASE' | 'ADJUST';
+  /** Negative when the balance went down */
+  amount: number;
+  balanceAfter: number;
+  orderId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface GiftCardResponse {
+  id: string;
+  /** Grouped for display, e.g. ABCD-EFGH-JKLM-NPQR */
+  code: string;
+  initialBalance: number;
+  balance: number;
+  currency: string;
+  isActive: boolean;
+  expiresAt: string | null;
+  /** Order that bought the card; null for cards issued by a merchant */
+  orderId: string | null;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+  transactions?: GiftCardTransactionResponse[];
+}
+
+/** Storefront balance lookup; only the last characters of the code are shown */
+export interface GiftCardBalanceResponse {
+  code: string;
+  balance: number;
+  currency: string;
+  isActive: boolean;
+  expiresAt: string | null;
+}
+
+export interface IssueGiftCardInput {
+  amount: number;
+  /** Defaults to the shop currency */
+  currency?: string;
+  /** Generated when omitted */
+  code?: string;
+  expiresAt?: string | null;
+  note?: string | null;
+}
+
+export interface UpdateGiftCardInput {
+  isActive?: boolean;
+  expiresAt?: string | null;
+  note?: string | null;
+  /** Signed amount added to the balance */
+  balanceAdjustment?: number;
+  /** Recorded on the adjustment transaction */
+  adjustmentNote?: string | null;
+}
+
+export interface StoreCreditTransactionResponse {
+  id: string;
+  type: 'REFUND' | 'ADJUST' | 'REDEEM' | 'RELEASE';
+  /** Negative when the balance went down */
+  amount: number;
+  balanceAfter: number;
+  orderId: string | null;
+  refundId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface StoreCreditResponse {
+  balance: number;
+  currency: string;
+  transactions: StoreCreditTransactionResponse[];
+}
+
+export interface AdjustStoreCreditInput {
+  /** Signed amount added to the balance */
+  amount: number;
+  note?: string | null;
+}
+
+export interface ApplyTendersInput {
+  giftCardCodes?: string[];
+  useStoreCredit?: boolean;
+}
+
+export interface AppliedTenderResponse {
+  paymentId: string;
+  method: TenderMethod;
+  amount: number;
+  /** Masked gift card code, or "Store credit" */
+  label: string;
+}
+
+export interface AppliedTendersResponse {
+  orderId: string;
+  currency: string;
+  totalAmount: number;
+  appliedAmount: number;
+  /** Left for the payment provider; 0 when the tenders paid the order */
+  amountDue: number;
+  paid: boolean;
+  tenders: AppliedTenderResponse[];
+}
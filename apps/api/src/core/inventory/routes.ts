@@ -67,6 +67,33 @@ export async function adminInventoryRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Get quantities held by unpaid orders
+  fastify.get('/reservations', {
+    schema: {
+      tags: ['admin-inventory'],
+      summary: 'Get held quantities per variant',
+      description: 'Active checkout reservations aggregated per variant. Held stock is already excluded from available stock.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', default: 1, minimum: 1 },
+          limit: { type: 'integer', default: 20, minimum: 1, maximum: 100 },
+          productId: { type: 'string' },
+          variantId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { page, limit, ...filters } = request.query as any;
+      const result = await InventoryService.getHeldQuantities(page, limit, filters);
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
   // Adjust inventory
   fastify.post('/adjustments', {
     schema: {
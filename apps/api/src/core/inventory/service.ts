@@ -9,6 +9,8 @@ import { prisma } from '@/config/database';
 import { Prisma } from '@prisma/client';
 import { CacheService } from '@/core/cache/service';
 import { WarehouseService } from '@/core/warehouse/service';
+import { OutboxService } from '@/infra/outbox';
+import { queueBackInStockAlerts } from '@/core/wishlist/alerts';
 
 /**
  * Structural transaction-client type: callers pass transaction clients from
@@ -23,6 +25,43 @@ export type InventoryStockTx = {
     create(args: any): Promise<unknown>;
   };
 };
+
+/**
+ * Transaction client for reservation bookkeeping (stock rows + reservation rows).
+ */
+export type InventoryReservationTx = InventoryStockTx & {
+  inventoryReservation: {
+    findMany(args: any): Promise<any[]>;
+    create(args: any): Promise<unknown>;
+    updateMany(args: any): Promise<{ count: number }>;
+  };
+  outboxEvent: {
+    create(args: any): Promise<unknown>;
+  };
+};
+
+/**
+ * Transaction client for absolute stock writes, which may queue wishlist
+ * back-in-stock alerts.
+ */
+export type InventoryRestockTx = InventoryStockTx & {
+  warehouseInventory: {
+    aggregate(args: any): Promise<any>;
+  };
+  wishlistItem: {
+    findMany(args: any): Promise<any[]>;
+    updateMany(args: any): Promise<{ count: number }>;
+  };
+  outboxEvent: {
+    create(args: any): Promise<unknown>;
+  };
+};
+
+export type ReservationItem = {
+  productId: string;
+  variantId: string;
+  quantity: number;
+};
 import {
   InventoryListResult,
   InventoryWithDetails,
@@ -30,6 +69,7 @@ import {
   AvailableStockResult,
   InventoryTransferResult,
   InventoryTransferWithDetails,
+  VariantHoldListResult,
 } from './types';
 import type {
   WarehouseInventoryFilters,
@@ -60,6 +100,13 @@ export class InventoryService {
   private static readonly CACHE_PREFIX = 'inventory:';
   private static readonly CACHE_TTL = 600; // 10 minutes
 
+  /**
+   * Sellable stock per variant across active warehouses.
+   *
+   * `available` is `quantity - reserved`, and active checkout reservations are
+   * mirrored into `reserved`, so quantities held by unpaid orders are already
+   * subtracted here.
+   */
   static async getAvailableStockByVariantIds(
     variantIds: string[],
     options?: { warehouseId?: string }
@@ -197,7 +244,7 @@ export class InventoryService {
   }
 
   static async setStock(
-    tx: InventoryStockTx,
+    tx: InventoryRestockTx,
     variantId: string,
     quantity: number,
     warehouseId?: string
@@ -214,9 +261,10 @@ export class InventoryService {
       },
     });
 
+    let available = normalizedQuantity;
     if (existing) {
       const reserved = existing.reserved ?? 0;
-      const available = Math.max(0, normalizedQuantity - reserved);
+      available = Math.max(0, normalizedQuantity - reserved);
       await tx.warehouseInventory.update({
         where: {
           warehouseId_variantId: {
@@ -242,6 +290,313 @@ export class InventoryService {
       });
     }
 
+    await this.queueBackInStockIfRestocked(
+      tx,
+      { warehouseId: targetWarehouseId, variantId, available },
+      existing?.available ?? 0
+    );
+  }
+
+  /**
+   * Hold stock for an order until it is paid or the hold expires.
+   *
+   * Quantities move from `available` to `reserved` on the warehouse row and an
+   * ACTIVE InventoryReservation records the hold. Throws 'Insufficient stock'
+   * when a variant cannot cover the requested quantity.
+   */
+  static async reserveStock(
+    tx: InventoryReservationTx,
+    orderId: string,
+    items: ReservationItem[],
+    expiresAt: Date,
+    warehouseId?: string
+  ): Promise<void> {
+    const targetWarehouseId = warehouseId ?? (await WarehouseService.getDefaultWarehouse()).id;
+
+    // One reservation per (order, product, variant)
+    const holds = new Map<string, ReservationItem>();
+    for (const item of items) {
+      const key = `${item.productId}:${item.variantId}`;
+      const existing = holds.get(key);
+      holds.set(key, existing
+        ? { ...existing, quantity: existing.quantity + item.quantity }
+        : { ...item });
+    }
+
+    for (const hold of holds.values()) {
+      const result = await tx.warehouseInventory.updateMany({
+        where: {
+          warehouseId: targetWarehouseId,
+          variantId: hold.variantId,
+          available: { gte: hold.quantity },
+        },
+        data: {
+          reserved: { increment: hold.quantity },
+          available: { decrement: hold.quantity },
+        },
+      });
+
+      if (result.count === 0) {
+        throw new Error('Insufficient stock');
+      }
+
+      const row = await tx.warehouseInventory.findUnique({
+        where: {
+          warehouseId_variantId: {
+            warehouseId: targetWarehouseId,
+            variantId: hold.variantId,
+          },
+        },
+      });
+      if (row) {
+        await this.emitLowStockIfCrossed(tx, row, row.available + hold.quantity);
+      }
+
+      await tx.inventoryReservation.create({
+        data: {
+          orderId,
+          productId: hold.productId,
+          variantId: hold.variantId,
+          warehouseId: targetWarehouseId,
+          quantity: hold.quantity,
+          expiresAt,
+        },
+      });
+    }
+  }
+
+  /**
+   * Convert an order's active holds into sold stock (order paid).
+   *
+   * @returns Number of reservations consumed
+   */
+  static async consumeReservations(tx: InventoryReservationTx, orderId: string): Promise<number> {
+    const reservations = await tx.inventoryReservation.findMany({
+      where: { orderId, status: 'ACTIVE' },
+    });
+
+    let consumed = 0;
+    for (const reservation of reservations) {
+      if (!(await this.transitionReservation(tx, reservation.id, 'CONSUMED'))) continue;
+      consumed++;
+
+      if (!reservation.warehouseId) continue;
+      await tx.warehouseInventory.updateMany({
+        where: { warehouseId: reservation.warehouseId, variantId: reservation.variantId },
+        data: {
+          quantity: { decrement: reservation.quantity },
+          reserved: { decrement: reservation.quantity },
+        },
+      });
+    }
+
+    return consumed;
+  }
+
+  /**
+   * Return an order's active holds to sellable stock.
+   *
+   * @param status RELEASED for cancellations, EXPIRED for unpaid timeouts
+   * @returns Number of reservations released
+   */
+  static async releaseReservations(
+    tx: InventoryReservationTx,
+    orderId: string,
+    status: 'RELEASED' | 'EXPIRED' | 'CANCELLED' = 'RELEASED'
+  ): Promise<number> {
+    const reservations = await tx.inventoryReservation.findMany({
+      where: { orderId, status: 'ACTIVE' },
+    });
+
+    let released = 0;
+    for (const reservation of reservations) {
+      if (!(await this.transitionReservation(tx, reservation.id, status))) continue;
+      released++;
+
+      if (!reservation.warehouseId) continue;
+      await tx.warehouseInventory.updateMany({
+        where: { warehouseId: reservation.warehouseId, variantId: reservation.variantId },
+        data: {
+          reserved: { decrement: reservation.quantity },
+          available: { increment: reservation.quantity },
+        },
+      });
+    }
+
+    return released;
+  }
+
+  /**
+   * Put an order's stock back after cancellation or refund.
+   *
+   * Active holds are released; consumed holds are restocked to the warehouse
+   * they were taken from and marked RELEASED so a second call is a no-op.
+   * Orders placed before reservations existed have none and fall back to
+   * restocking their items on the default warehouse.
+   */
+  static async restockOrder(
+    tx: InventoryReservationTx,
+    orderId: string,
+    items: Array<{ variantId: string; quantity: number }>
+  ): Promise<void> {
+    const reservations = await tx.inventoryReservation.findMany({
+      where: { orderId },
+    });
+
+    if (reservations.length === 0) {
+      for (const item of items) {
+        await this.incrementStock(tx, item.variantId, item.quantity);
+      }
+      return;
+    }
+
+    await this.releaseReservations(tx, orderId, 'RELEASED');
+
+    for (const reservation of reservations) {
+      if (reservation.status !== 'CONSUMED') continue;
+      if (!(await this.transitionReservation(tx, reservation.id, 'RELEASED', 'CONSUMED'))) continue;
+      await this.incrementStock(tx, reservation.variantId, reservation.quantity, reservation.warehouseId ?? undefined);
+    }
+  }
+
+  /**
+   * Put part of an order's stock back (line-level refunds).
+   *
+   * Quantities are taken off the order's consumed hold for each variant and
+   * returned to that hold's warehouse, so a later restockOrder only puts back
+   * what is still out. Orders placed before reservations existed restock on
+   * the default warehouse.
+   */
+  static async restockItems(
+    tx: InventoryReservationTx,
+    orderId: string,
+    items: Array<{ variantId: string; quantity: number }>
+  ): Promise<void> {
+    for (const item of items) {
+      const reservations = await tx.inventoryReservation.findMany({
+        where: { orderId, variantId: item.variantId },
+      });
+
+      if (reservations.length === 0) {
+        await this.incrementStock(tx, item.variantId, item.quantity);
+        continue;
+      }
+
+      let remaining = item.quantity;
+      for (const reservation of reservations) {
+        if (remaining <= 0) break;
+        if (reservation.status !== 'CONSUMED') continue;
+
+        const quantity = Math.min(remaining, reservation.quantity);
+        const moved = quantity === reservation.quantity
+          ? await this.transitionReservation(tx, reservation.id, 'RELEASED', 'CONSUMED')
+          : (await tx.inventoryReservation.updateMany({
+              where: { id: reservation.id, status: 'CONSUMED', quantity: { gte: quantity } },
+              data: { quantity: { decrement: quantity } },
+            })).count > 0;
+        if (!moved) continue;
+
+        await this.incrementStock(tx, item.variantId, quantity, reservation.warehouseId ?? undefined);
+        remaining -= quantity;
+      }
+    }
+  }
+
+  /**
+   * Order IDs with at least one active hold past its expiry
+   *
+   * Orders with a payment session that is still open are left out: expiry
+   * skips them anyway, and they would otherwise fill every page.
+   */
+  static async findOrdersWithExpiredReservations(limit = 100, now: Date = new Date()): Promise<string[]> {
+    const rows = await prisma.inventoryReservation.findMany({
+      where: {
+        status: 'ACTIVE',
+        expiresAt: { lte: now },
+        order: { payments: { none: { status: 'PENDING', expiresAt: { gt: now } } } },
+      },
+      select: { orderId: true },
+      distinct: ['orderId'],
+      orderBy: { orderId: 'asc' },
+      take: limit,
+    });
+    return rows.map((row) => row.orderId);
+  }
+
+  /**
+   * Quantities currently held by active reservations, per variant
+   */
+  static async getHeldQuantities(
+    page: number = 1,
+    limit: number = 20,
+    filters: { productId?: string; variantId?: string } = {}
+  ): Promise<VariantHoldListResult> {
+    const where: Prisma.InventoryReservationWhereInput = { status: 'ACTIVE' };
+    if (filters.productId) where.productId = filters.productId;
+    if (filters.variantId) where.variantId = filters.variantId;
+
+    const groups = await prisma.inventoryReservation.groupBy({
+      by: ['variantId', 'productId'],
+      where,
+      _sum: { quantity: true },
+      _count: { _all: true },
+      _min: { expiresAt: true },
+      orderBy: { _sum: { quantity: 'desc' } },
+    });
+
+    const total = groups.length;
+    const pageGroups = groups.slice((page - 1) * limit, page * limit);
+    const variants = pageGroups.length
+      ? await prisma.productVariant.findMany({
+        where: { id: { in: pageGroups.map((group) => group.variantId) } },
+        select: {
+          id: true,
+          name: true,
+          skuCode: true,
+          product: { select: { id: true, name: true } },
+        },
+      })
+      : [];
+    const variantMap = new Map(variants.map((variant) => [variant.id, variant]));
+
+    return {
+      items: pageGroups.map((group) => {
+        const variant = variantMap.get(group.variantId);
+        return {
+          variantId: group.variantId,
+          productId: group.productId,
+          heldQuantity: group._sum.quantity ?? 0,
+          reservationCount: group._count._all,
+          nextExpiresAt: group._min.expiresAt?.toISOString() ?? null,
+          variant: variant
+            ? { id: variant.id, name: variant.name, skuCode: variant.skuCode ?? undefined }
+            : undefined,
+          product: variant?.product
+            ? { id: variant.product.id, name: variant.product.name }
+            : undefined,
+        };
+      }),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Guarded status change so concurrent consume/release never double-count stock
+   */
+  private static async transitionReservation(
+    tx: InventoryReservationTx,
+    reservationId: string,
+    status: string,
+    fromStatus: string = 'ACTIVE'
+  ): Promise<boolean> {
+    const result = await tx.inventoryReservation.updateMany({
+      where: { id: reservationId, status: fromStatus },
+      data: { status },
+    });
+    return result.count > 0;
   }
 
   /**
@@ -545,6 +900,9 @@ export class InventoryService {
 
     // Use transaction to ensure consistency
     const result = await prisma.$transaction(async (tx) => {
+      let previousQuantity = 0;
+      let previousAvailable = 0;
+
       // Get or create warehouse inventory record
       let inventory = await tx.warehouseInventory.findUnique({
         where: {
@@ -568,6 +926,9 @@ export class InventoryService {
           },
         });
       } else {
+        previousQuantity = inventory.quantity;
+        previousAvailable = inventory.available;
+
         // Update existing inventory
         const newQuantity = Math.max(0, inventory.quantity + data.quantity);
         const newAvailable = Math.max(0, newQuantity - inventory.reserved);
@@ -618,6 +979,22 @@ export class InventoryService {
         },
       });
 
+      await OutboxService.emit(tx, 'inventory.adjusted', adjustment.id, {
+        id: adjustment.id,
+        warehouseId: data.warehouseId,
+        variantId: data.variantId,
+        type: data.type,
+        quantity: data.quantity,
+        previousQuantity,
+        newQuantity: inventory.quantity,
+        available: inventory.available,
+        reason: data.reason ?? null,
+        userId: data.userId ?? null,
+      }, { actorId: data.userId });
+
+      await this.emitLowStockIfCrossed(tx, inventory, previousAvailable);
+      await this.queueBackInStockIfRestocked(tx, inventory, previousAvailable);
+
       return { inventory, adjustment };
     });
 
@@ -627,6 +1004,56 @@ export class InventoryService {
     return result;
   }
 
+  /**
+   * Emit inventory.low_stock when available stock drops from above the row's
+   * threshold to at or below it. Changes while stock is already low stay quiet.
+   */
+  private static async emitLowStockIfCrossed(
+    tx: { outboxEvent: { create(args: any): Promise<unknown> } },
+    row: { warehouseId: string; variantId: string; available: number; lowStock: number },
+    previousAvailable: number
+  ): Promise<void> {
+    if (previousAvailable <= row.lowStock || row.available > row.lowStock) {
+      return;
+    }
+
+    await OutboxService.emit(tx, 'inventory.low_stock', row.variantId, {
+      variantId: row.variantId,
+      warehouseId: row.warehouseId,
+      available: row.available,
+      threshold: row.lowStock,
+    });
+  }
+
+  /**
+   * Queue wishlist back-in-stock alerts when a warehouse row goes from no
+   * available stock to some while no other active warehouse has any, i.e.
+   * the variant was sold out everywhere.
+   */
+  private static async queueBackInStockIfRestocked(
+    tx: InventoryRestockTx,
+    row: { warehouseId: string; variantId: string; available: number },
+    previousAvailable: number
+  ): Promise<void> {
+    if (previousAvailable > 0 || row.available <= 0) {
+      return;
+    }
+
+    const elsewhere = await tx.warehouseInventory.aggregate({
+      where: {
+        variantId: row.variantId,
+        warehouseId: { not: row.warehouseId },
+        warehouse: { isActive: true },
+      },
+      _sum: { available: true },
+    });
+    if ((elsewhere._sum.available ?? 0) > 0) {
+      return;
+    }
+
+    await queueBackInStockAlerts(tx, row.variantId);
+  }
+
   /**
    * Get inventory adjustment history with pagination and filtering
    */
@@ -99,3 +99,34 @@ export interface InventoryTransferWithDetails extends InventoryTransfer {
     name: string;
   };
 }
+
+/**
+ * Quantity held by active checkout reservations for one variant
+ */
+export interface VariantHoldSummary {
+  variantId: string;
+  productId: string;
+  heldQuantity: number;
+  reservationCount: number;
+  nextExpiresAt: string | null;
+  variant?: {
+    id: string;
+    name: string;
+    skuCode?: string;
+  };
+  product?: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Result type for the held-quantity view
+ */
+export interface VariantHoldListResult {
+  items: VariantHoldSummary[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
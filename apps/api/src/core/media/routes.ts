@@ -0,0 +1,172 @@
+/**
+ * Admin Product Media Routes
+ *
+ * Gallery management of one product: upload, ordering, variant assignment,
+ * focal point and alt text per locale.
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { ProductMediaService } from './service';
+import { productMediaSchemas } from './schemas';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapMediaRouteError } from '@/utils/route-error-mapper';
+
+function sendMediaError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapMediaRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+export async function adminProductMediaRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all product media routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // List gallery
+  fastify.get('/:id/media', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'List product media',
+      description: 'Gallery images of a product in display order',
+      security: [{ bearerAuth: [] }],
+      ...productMediaSchemas.listMedia,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const media = await ProductMediaService.listProductMedia(id);
+      return sendSuccess(reply, media);
+    } catch (error: unknown) {
+      return sendMediaError(reply, error, 'Failed to get product media');
+    }
+  });
+
+  // Upload image
+  fastify.post('/:id/media', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'Upload product media',
+      description: 'Upload an image (JPEG, PNG, WebP, max 5MB) and append it to the gallery; thumbnail, medium and large sizes are cropped around the focal point',
+      security: [{ bearerAuth: [] }],
+      consumes: ['multipart/form-data'],
+      ...productMediaSchemas.uploadMedia,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { variantId, alt, focalX, focalY } = request.query as any;
+      const data = await request.file();
+
+      if (!data) {
+        return sendError(reply, 400, 'BAD_REQUEST', 'No file uploaded');
+      }
+
+      const media = await ProductMediaService.uploadProductMedia(id, data, {
+        variantId,
+        alt,
+        focalPoint: focalX !== undefined || focalY !== undefined
+          ? { x: focalX ?? 0.5, y: focalY ?? 0.5 }
+          : undefined,
+      });
+      return sendSuccess(reply, media, 'Media uploaded', 201);
+    } catch (error: unknown) {
+      return sendMediaError(reply, error, 'Failed to upload product media');
+    }
+  });
+
+  // Reorder gallery
+  fastify.put('/:id/media/reorder', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'Reorder product media',
+      security: [{ bearerAuth: [] }],
+      ...productMediaSchemas.reorderMedia,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { mediaIds } = request.body as any;
+      const media = await ProductMediaService.reorderProductMedia(id, mediaIds);
+      return sendSuccess(reply, media);
+    } catch (error: unknown) {
+      return sendMediaError(reply, error, 'Failed to reorder product media');
+    }
+  });
+
+  // Update image
+  fastify.put('/:id/media/:mediaId', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'Update product media',
+      description: 'Change alt text, variant assignment or focal point; a new focal point re-crops the generated sizes',
+      security: [{ bearerAuth: [] }],
+      ...productMediaSchemas.updateMedia,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, mediaId } = request.params as any;
+      const media = await ProductMediaService.updateProductMedia(id, mediaId, request.body as any);
+      return sendSuccess(reply, media);
+    } catch (error: unknown) {
+      return sendMediaError(reply, error, 'Failed to update product media');
+    }
+  });
+
+  // Delete image
+  fastify.delete('/:id/media/:mediaId', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'Delete product media',
+      security: [{ bearerAuth: [] }],
+      ...productMediaSchemas.deleteMedia,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, mediaId } = request.params as any;
+      await ProductMediaService.deleteProductMedia(id, mediaId);
+      return sendSuccess(reply, null, 'Media deleted');
+    } catch (error: unknown) {
+      return sendMediaError(reply, error, 'Failed to delete product media');
+    }
+  });
+
+  // Upsert alt text translation
+  fastify.put('/:id/media/:mediaId/translations/:locale', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'Set media alt text translation',
+      security: [{ bearerAuth: [] }],
+      ...productMediaSchemas.setTranslation,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, mediaId, locale } = request.params as any;
+      const translation = await ProductMediaService.setMediaTranslation(id, mediaId, locale, request.body as any);
+      return sendSuccess(reply, translation);
+    } catch (error: unknown) {
+      return sendMediaError(reply, error, 'Failed to save media translation');
+    }
+  });
+
+  // Delete alt text translation
+  fastify.delete('/:id/media/:mediaId/translations/:locale', {
+    schema: {
+      tags: ['admin-products'],
+      summary: 'Delete media alt text translation',
+      security: [{ bearerAuth: [] }],
+      ...productMediaSchemas.deleteTranslation,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, mediaId, locale } = request.params as any;
+      await ProductMediaService.deleteMediaTranslation(id, mediaId, locale);
+      return sendSuccess(reply, null, 'Media translation deleted');
+    } catch (error: unknown) {
+      return sendMediaError(reply, error, 'Failed to delete media translation');
+    }
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Product Media OpenAPI Schemas
+ */
+
+import {
+  createTypedCreateResponses,
+  createTypedDeleteResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+} from '@/types/common-dto';
+import { LOCALES } from '@/utils/i18n';
+
+export const focalPointSchema = {
+  type: 'object',
+  properties: {
+    x: { type: 'number', minimum: 0, maximum: 1, description: 'Horizontal position, 0 = left edge' },
+    y: { type: 'number', minimum: 0, maximum: 1, description: 'Vertical position, 0 = top edge' },
+  },
+  required: ['x', 'y'],
+} as const;
+
+export const imageSizesSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    thumbnail: { type: 'string', description: 'Thumbnail URL (150x150)' },
+    medium: { type: 'string', description: 'Medium URL (500x500)' },
+    large: { type: 'string', description: 'Large URL (1200x1200)' },
+  },
+  required: ['thumbnail', 'medium', 'large'],
+} as const;
+
+const mediaTranslationSchema = {
+  type: 'object',
+  properties: {
+    locale: { type: 'string', description: 'Locale code' },
+    alt: { type: 'string', description: 'Translated alt text' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['locale', 'alt', 'updatedAt'],
+} as const;
+
+export const productMediaSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Media ID' },
+    productId: { type: 'string', nullable: true, description: 'Product ID, null while unattached' },
+    variantId: { type: 'string', nullable: true, description: 'Variant shown with this image, null for all variants' },
+    url: { type: 'string', description: 'Original image URL' },
+    filename: { type: 'string', nullable: true, description: 'Stored filename, null for external URLs' },
+    mimeType: { type: 'string', nullable: true, description: 'MIME type of the upload' },
+    fileSize: { type: 'integer', nullable: true, description: 'Upload size in bytes' },
+    width: { type: 'integer', nullable: true, description: 'Original width in pixels' },
+    height: { type: 'integer', nullable: true, description: 'Original height in pixels' },
+    alt: { type: 'string', nullable: true, description: 'Alt text in the default locale' },
+    focalPoint: focalPointSchema,
+    sizes: imageSizesSchema,
+    sortOrder: { type: 'integer', description: 'Position in the gallery' },
+    translations: { type: 'array', items: mediaTranslationSchema, description: 'Alt text per locale' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'url', 'focalPoint', 'sortOrder', 'translations'],
+} as const;
+
+// Storefront gallery entry (GET /api/products/:id)
+export const productGalleryItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Media ID' },
+    url: { type: 'string', description: 'Original image URL' },
+    alt: { type: 'string', nullable: true, description: 'Alt text in the requested locale' },
+    variantId: { type: 'string', nullable: true, description: 'Variant shown with this image, null for all variants' },
+    width: { type: 'integer', nullable: true, description: 'Original width in pixels' },
+    height: { type: 'integer', nullable: true, description: 'Original height in pixels' },
+    focalPoint: focalPointSchema,
+    sizes: imageSizesSchema,
+  },
+  required: ['id', 'url', 'focalPoint'],
+} as const;
+
+const mediaListSchema = { type: 'array', items: productMediaSchema } as const;
+
+const productIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Product ID' },
+  },
+} as const;
+
+const mediaParams = {
+  type: 'object',
+  required: ['id', 'mediaId'],
+  properties: {
+    id: { type: 'string', description: 'Product ID' },
+    mediaId: { type: 'string', description: 'Media ID' },
+  },
+} as const;
+
+const translationParams = {
+  type: 'object',
+  required: ['id', 'mediaId', 'locale'],
+  properties: {
+    id: { type: 'string', description: 'Product ID' },
+    mediaId: { type: 'string', description: 'Media ID' },
+    locale: { type: 'string', enum: [...LOCALES], description: 'Locale code' },
+  },
+} as const;
+
+export const productMediaSchemas = {
+  // GET /api/admin/products/:id/media
+  listMedia: {
+    params: productIdParams,
+    response: createTypedReadResponses(mediaListSchema),
+  },
+
+  // POST /api/admin/products/:id/media
+  uploadMedia: {
+    params: productIdParams,
+    querystring: {
+      type: 'object',
+      properties: {
+        variantId: { type: 'string', description: 'Variant shown with this image' },
+        alt: { type: 'string', maxLength: 500, description: 'Alt text in the default locale' },
+        focalX: { type: 'number', minimum: 0, maximum: 1, description: 'Focal point x, defaults to the center' },
+        focalY: { type: 'number', minimum: 0, maximum: 1, description: 'Focal point y, defaults to the center' },
+      },
+    },
+    response: createTypedCreateResponses(productMediaSchema),
+  },
+
+  // PUT /api/admin/products/:id/media/reorder
+  reorderMedia: {
+    params: productIdParams,
+    body: {
+      type: 'object',
+      required: ['mediaIds'],
+      properties: {
+        mediaIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Every image of the product, in the new order',
+        },
+      },
+    },
+    response: createTypedUpdateResponses(mediaListSchema),
+  },
+
+  // PUT /api/admin/products/:id/media/:mediaId
+  updateMedia: {
+    params: mediaParams,
+    body: {
+      type: 'object',
+      properties: {
+        variantId: { type: 'string', nullable: true, description: 'Variant shown with this image, null for all variants' },
+        alt: { type: 'string', nullable: true, maxLength: 500, description: 'Alt text in the default locale' },
+        focalPoint: focalPointSchema,
+      },
+    },
+    response: createTypedUpdateResponses(productMediaSchema),
+  },
+
+  // DELETE /api/admin/products/:id/media/:mediaId
+  deleteMedia: {
+    params: mediaParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // PUT /api/admin/products/:id/media/:mediaId/translations/:locale
+  setTranslation: {
+    params: translationParams,
+    body: {
+      type: 'object',
+      required: ['alt'],
+      properties: {
+        alt: { type: 'string', minLength: 1, maxLength: 500, description: 'Translated alt text' },
+      },
+    },
+    response: createTypedUpdateResponses(mediaTranslationSchema),
+  },
+
+  // DELETE /api/admin/products/:id/media/:mediaId/translations/:locale
+  deleteTranslation: {
+    params: translationParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+} as const;
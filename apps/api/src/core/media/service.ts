@@ -0,0 +1,522 @@
+/**
+ * Product Media Service
+ *
+ * `product_media` is the source of truth for product galleries. Rows are
+ * ordered by a dense `sortOrder` (0..n-1) per product, may be pinned to a
+ * variant, and carry a focal point that drives the crops of the generated
+ * thumbnail/medium/large sizes.
+ *
+ * `Product.typeData.images` is kept as a projection of the gallery URLs so
+ * that readers which only know the legacy array (cart, order snapshots,
+ * recommendations, list endpoints) keep working; every mutation here
+ * rewrites it.
+ *
+ * Media removed from a product is detached (productId = null) rather than
+ * deleted, so an accidental save can be undone by re-adding the URL; the
+ * cleanup job deletes detached rows and their files after a grace period.
+ */
+
+import { Prisma } from '@prisma/client';
+import type { MultipartFile } from '@fastify/multipart';
+import { prisma } from '@/config/database';
+import { CacheService } from '@/core/cache/service';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { UploadService, UploadResult } from '@/core/upload/service';
+import { isSupportedLocale } from '@/utils/i18n';
+import {
+  FocalPoint,
+  MediaCleanupOptions,
+  MediaCleanupResult,
+  ProductGalleryItem,
+  ProductImageSizes,
+  ProductMediaResponse,
+  ProductMediaTranslationInput,
+  ProductMediaTranslationResponse,
+  UpdateProductMediaInput,
+  UploadProductMediaInput,
+} from './types';
+
+type MediaTx = Pick<typeof prisma, 'productMedia' | 'product'>;
+
+const DEFAULT_ORPHAN_AGE_HOURS = 24;
+const DEFAULT_CLEANUP_LIMIT = 100;
+
+const mediaInclude = {
+  translations: { orderBy: { locale: 'asc' } },
+} satisfies Prisma.ProductMediaInclude;
+
+type MediaWithTranslations = Prisma.ProductMediaGetPayload<{ include: typeof mediaInclude }>;
+
+/** Filename of an image stored by the upload pipeline, null for external URLs */
+function uploadedFilename(url: string): string | null {
+  const match = url.match(/\/uploads\/products\/([^/?#]+)$/);
+  return match ? match[1] : null;
+}
+
+function parseSizes(value: Prisma.JsonValue | null): ProductImageSizes | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const sizes = value as Record<string, unknown>;
+  if (typeof sizes.thumbnail !== 'string' || typeof sizes.medium !== 'string' || typeof sizes.large !== 'string') {
+    return null;
+  }
+  return { thumbnail: sizes.thumbnail, medium: sizes.medium, large: sizes.large };
+}
+
+function validateFocalPoint(focalPoint: FocalPoint): void {
+  const inRange = (value: number) => Number.isFinite(value) && value >= 0 && value <= 1;
+  if (!inRange(focalPoint.x) || !inRange(focalPoint.y)) {
+    throw new Error('Focal point coordinates must be between 0 and 1');
+  }
+}
+
+function formatTranslation(translation: MediaWithTranslations['translations'][number]): ProductMediaTranslationResponse {
+  return {
+    locale: translation.locale,
+    alt: translation.alt,
+    updatedAt: translation.updatedAt.toISOString(),
+  };
+}
+
+function formatMedia(media: MediaWithTranslations): ProductMediaResponse {
+  return {
+    id: media.id,
+    productId: media.productId,
+    variantId: media.variantId,
+    url: media.url,
+    filename: media.filename,
+    mimeType: media.mimeType,
+    fileSize: media.fileSize,
+    width: media.width,
+    height: media.height,
+    alt: media.alt,
+    focalPoint: { x: media.focalX, y: media.focalY },
+    sizes: parseSizes(media.sizes),
+    sortOrder: media.sortOrder,
+    translations: media.translations.map(formatTranslation),
+    createdAt: media.createdAt.toISOString(),
+    updatedAt: media.updatedAt.toISOString(),
+  };
+}
+
+function uploadData(upload: UploadResult) {
+  return {
+    url: upload.url,
+    filename: upload.filename,
+    mimeType: upload.mimetype,
+    fileSize: upload.size,
+    width: upload.width ?? null,
+    height: upload.height ?? null,
+    sizes: upload.sizes ? { ...upload.sizes } : Prisma.DbNull,
+  };
+}
+
+export class ProductMediaService {
+  /**
+   * Gallery of a product in display order
+   */
+  static async listProductMedia(productId: string): Promise<ProductMediaResponse[]> {
+    await this.assertProductExists(productId);
+    const media = await prisma.productMedia.findMany({
+      where: { productId },
+      include: mediaInclude,
+      orderBy: { sortOrder: 'asc' },
+    });
+    return media.map(formatMedia);
+  }
+
+  /**
+   * Store an uploaded image and append it to the product gallery
+   */
+  static async uploadProductMedia(
+    productId: string,
+    file: MultipartFile,
+    input: UploadProductMediaInput = {}
+  ): Promise<ProductMediaResponse> {
+    await this.assertProductExists(productId);
+    if (input.variantId) {
+      await this.assertVariantBelongsToProduct(productId, input.variantId);
+    }
+    if (input.focalPoint) {
+      validateFocalPoint(input.focalPoint);
+    }
+
+    const upload = await UploadService.uploadProductImage(file, input.focalPoint);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const sortOrder = await tx.productMedia.count({ where: { productId } });
+      const media = await tx.productMedia.create({
+        data: {
+          ...uploadData(upload),
+          productId,
+          variantId: input.variantId || null,
+          alt: input.alt?.trim() || null,
+          focalX: input.focalPoint?.x ?? 0.5,
+          focalY: input.focalPoint?.y ?? 0.5,
+          sortOrder,
+        },
+        include: mediaInclude,
+      });
+      await this.syncImageProjection(tx, productId);
+      return media;
+    });
+
+    await this.invalidateProduct(productId);
+    return formatMedia(created);
+  }
+
+  /**
+   * Record an upload that is not attached to a product yet (the admin product
+   * form uploads images before the product is saved). It is attached when a
+   * product is saved with its URL, and cleaned up otherwise.
+   */
+  static async createUnattachedMedia(upload: UploadResult): Promise<ProductMediaResponse> {
+    const media = await prisma.productMedia.create({
+      data: uploadData(upload),
+      include: mediaInclude,
+    });
+    return formatMedia(media);
+  }
+
+  /**
+   * Update alt text, variant assignment or focal point
+   */
+  static async updateProductMedia(
+    productId: string,
+    mediaId: string,
+    input: UpdateProductMediaInput
+  ): Promise<ProductMediaResponse> {
+    const media = await this.getOwnedMedia(productId, mediaId);
+
+    const data: Prisma.ProductMediaUncheckedUpdateInput = {};
+    if (input.alt !== undefined) {
+      data.alt = input.alt?.trim() || null;
+    }
+    if (input.variantId !== undefined) {
+      if (input.variantId) {
+        await this.assertVariantBelongsToProduct(productId, input.variantId);
+      }
+      data.variantId = input.variantId || null;
+    }
+    if (input.focalPoint) {
+      validateFocalPoint(input.focalPoint);
+      data.focalX = input.focalPoint.x;
+      data.focalY = input.focalPoint.y;
+
+      const changed = input.focalPoint.x !== media.focalX || input.focalPoint.y !== media.focalY;
+      if (changed && media.filename) {
+        await UploadService.regenerateProductImageSizes(media.filename, input.focalPoint);
+      }
+    }
+
+    const updated = await prisma.productMedia.update({
+      where: { id: mediaId },
+      data,
+      include: mediaInclude,
+    });
+
+    await this.invalidateProduct(productId);
+    return formatMedia(updated);
+  }
+
+  /**
+   * Set the gallery order; `mediaIds` must list every image of the product
+   */
+  static async reorderProductMedia(productId: string, mediaIds: string[]): Promise<ProductMediaResponse[]> {
+    await this.assertProductExists(productId);
+
+    await prisma.$transaction(async (tx) => {
+      const existing = await tx.productMedia.findMany({
+        where: { productId },
+        select: { id: true },
+      });
+
+      const existingIds = new Set(existing.map((media) => media.id));
+      const uniqueIds = new Set(mediaIds);
+      if (
+        uniqueIds.size !== mediaIds.length ||
+        mediaIds.length !== existingIds.size ||
+        mediaIds.some((id) => !existingIds.has(id))
+      ) {
+        throw new Error('Media order must list every image of the product exactly once');
+      }
+
+      for (const [index, id] of mediaIds.entries()) {
+        await tx.productMedia.update({ where: { id }, data: { sortOrder: index } });
+      }
+      await this.syncImageProjection(tx, productId);
+    });
+
+    await this.invalidateProduct(productId);
+    return this.listProductMedia(productId);
+  }
+
+  /**
+   * Remove an image from the gallery and delete its files when no other
+   * media row shares them
+   */
+  static async deleteProductMedia(productId: string, mediaId: string): Promise<void> {
+    const media = await this.getOwnedMedia(productId, mediaId);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.productMedia.delete({ where: { id: mediaId } });
+      await this.compactSortOrder(tx, productId);
+      await this.syncImageProjection(tx, productId);
+    });
+
+    await this.removeUnusedFiles([media.filename]);
+    await this.invalidateProduct(productId);
+  }
+
+  /**
+   * Create or update the alt text of an image for a locale
+   */
+  static async setMediaTranslation(
+    productId: string,
+    mediaId: string,
+    locale: string,
+    input: ProductMediaTranslationInput
+  ): Promise<ProductMediaTranslationResponse> {
+    if (!isSupportedLocale(locale)) {
+      throw new Error(`Unsupported locale: ${locale}`);
+    }
+    const alt = input.alt?.trim();
+    if (!alt) {
+      throw new Error('Alt text is required');
+    }
+
+    await this.getOwnedMedia(productId, mediaId);
+    const translation = await prisma.productMediaTranslation.upsert({
+      where: { mediaId_locale: { mediaId, locale } },
+      create: { mediaId, locale, alt },
+      update: { alt },
+    });
+
+    await this.invalidateProduct(productId);
+    return formatTranslation(translation);
+  }
+
+  static async deleteMediaTranslation(productId: string, mediaId: string, locale: string): Promise<void> {
+    await this.getOwnedMedia(productId, mediaId);
+    const result = await prisma.productMediaTranslation.deleteMany({ where: { mediaId, locale } });
+    if (result.count === 0) {
+      throw new Error('Media translation not found');
+    }
+    await this.invalidateProduct(productId);
+  }
+
+  /**
+   * Make the gallery match a list of image URLs, as sent by the admin product
+   * form and catalog imports. Known URLs keep their media row (alt text,
+   * variant, focal point), unattached uploads are claimed, unknown URLs get a
+   * new row and URLs no longer listed are detached for cleanup.
+   * Callers invalidate caches after their transaction commits.
+   */
+  static async replaceProductImages(tx: MediaTx, productId: string, urls: string[]): Promise<void> {
+    const wanted = [...new Set(urls.map((url) => url.trim()).filter(Boolean))];
+    const existing = await tx.productMedia.findMany({
+      where: { productId },
+      select: { id: true, url: true, sortOrder: true },
+    });
+    const existingByUrl = new Map(existing.map((media) => [media.url, media]));
+
+    const detachIds = existing.filter((media) => !wanted.includes(media.url)).map((media) => media.id);
+    if (detachIds.length > 0) {
+      await tx.productMedia.updateMany({
+        where: { id: { in: detachIds } },
+        data: { productId: null, variantId: null },
+      });
+    }
+
+    for (const [sortOrder, url] of wanted.entries()) {
+      const current = existingByUrl.get(url);
+      if (current) {
+        if (current.sortOrder !== sortOrder) {
+          await tx.productMedia.update({ where: { id: current.id }, data: { sortOrder } });
+        }
+        continue;
+      }
+
+      const unattached = await tx.productMedia.findFirst({
+        where: { productId: null, url },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true },
+      });
+      if (unattached) {
+        await tx.productMedia.update({ where: { id: unattached.id }, data: { productId, sortOrder } });
+        continue;
+      }
+
+      const filename = uploadedFilename(url);
+      await tx.productMedia.create({
+        data: {
+          productId,
+          url,
+          filename,
+          sizes: filename ? { ...UploadService.getProductImageSizes(filename) } : Prisma.DbNull,
+          sortOrder,
+        },
+      });
+    }
+
+    await this.syncImageProjection(tx, productId);
+  }
+
+  /**
+   * Storefront galleries of several products, alt text resolved for a locale
+   * (falling back to the base alt text)
+   */
+  static async getGalleries(productIds: string[], locale: string): Promise<Map<string, ProductGalleryItem[]>> {
+    const galleries = new Map<string, ProductGalleryItem[]>();
+    if (productIds.length === 0) {
+      return galleries;
+    }
+
+    const rows = await prisma.productMedia.findMany({
+      where: { productId: { in: productIds } },
+      include: { translations: { where: { locale } } },
+      orderBy: [{ productId: 'asc' }, { sortOrder: 'asc' }],
+    });
+
+    for (const row of rows) {
+      const gallery = galleries.get(row.productId!) ?? [];
+      gallery.push({
+        id: row.id,
+        url: row.url,
+        alt: row.translations[0]?.alt ?? row.alt,
+        variantId: row.variantId,
+        width: row.width,
+        height: row.height,
+        focalPoint: { x: row.focalX, y: row.focalY },
+        sizes: parseSizes(row.sizes),
+      });
+      galleries.set(row.productId!, gallery);
+    }
+
+    return galleries;
+  }
+
+  /**
+   * Delete media rows that have been detached (or never attached) for longer
+   * than the grace period, and their files once nothing references them
+   */
+  static async cleanupOrphans(options: MediaCleanupOptions = {}): Promise<MediaCleanupResult> {
+    const olderThanHours = options.olderThanHours ?? DEFAULT_ORPHAN_AGE_HOURS;
+    const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
+
+    const orphans = await prisma.productMedia.findMany({
+      where: { productId: null, updatedAt: { lt: cutoff } },
+      select: { id: true, filename: true },
+      orderBy: { updatedAt: 'asc' },
+      take: options.limit ?? DEFAULT_CLEANUP_LIMIT,
+    });
+    if (orphans.length === 0) {
+      return { deleted: 0, filesRemoved: 0 };
+    }
+
+    const { count } = await prisma.productMedia.deleteMany({
+      where: { id: { in: orphans.map((media) => media.id) }, productId: null },
+    });
+    const filesRemoved = await this.removeUnusedFiles(orphans.map((media) => media.filename));
+
+    return { deleted: count, filesRemoved };
+  }
+
+  /**
+   * Rewrite `typeData.images` from the gallery, keeping other typeData keys
+   */
+  private static async syncImageProjection(tx: MediaTx, productId: string): Promise<void> {
+    const [product, media] = await Promise.all([
+      tx.product.findUnique({ where: { id: productId }, select: { typeData: true } }),
+      tx.productMedia.findMany({
+        where: { productId },
+        select: { url: true },
+        orderBy: { sortOrder: 'asc' },
+      }),
+    ]);
+    if (!product) {
+      return;
+    }
+
+    const typeData = product.typeData && typeof product.typeData === 'object' && !Array.isArray(product.typeData)
+      ? product.typeData as Prisma.JsonObject
+      : {};
+
+    await tx.product.update({
+      where: { id: productId },
+      data: { typeData: { ...typeData, images: media.map((item) => item.url) } },
+    });
+  }
+
+  private static async compactSortOrder(tx: MediaTx, productId: string): Promise<void> {
+    const media = await tx.productMedia.findMany({
+      where: { productId },
+      select: { id: true, sortOrder: true },
+      orderBy: { sortOrder: 'asc' },
+    });
+    for (const [index, item] of media.entries()) {
+      if (item.sortOrder !== index) {
+        await tx.productMedia.update({ where: { id: item.id }, data: { sortOrder: index } });
+      }
+    }
+  }
+
+  /**
+   * Delete stored files (original and generated sizes) that no media row
+   * references any more. Returns the number of originals removed.
+   */
+  private static async removeUnusedFiles(filenames: Array<string | null>): Promise<number> {
+    let removed = 0;
+    for (const filename of new Set(filenames.filter((name): name is string => Boolean(name)))) {
+      const stillUsed = await prisma.productMedia.count({ where: { filename } });
+      if (stillUsed > 0) {
+        continue;
+      }
+      try {
+        await UploadService.deleteFile(`products/${filename}`);
+        removed += 1;
+      } catch (error) {
+        if (!(error instanceof Error && error.message === 'File not found')) {
+          LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+            context: 'product media file cleanup',
+            filename,
+          });
+        }
+      }
+    }
+    return removed;
+  }
+
+  private static async getOwnedMedia(productId: string, mediaId: string) {
+    const media = await prisma.productMedia.findUnique({ where: { id: mediaId } });
+    if (!media || media.productId !== productId) {
+      throw new Error('Media not found');
+    }
+    return media;
+  }
+
+  private static async assertProductExists(productId: string): Promise<void> {
+    const product = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+    if (!product) {
+      throw new Error('Product not found');
+    }
+  }
+
+  private static async assertVariantBelongsToProduct(productId: string, variantId: string): Promise<void> {
+    const variant = await prisma.productVariant.findUnique({
+      where: { id: variantId },
+      select: { productId: true },
+    });
+    if (!variant || variant.productId !== productId) {
+      throw new Error('Variant does not belong to this product');
+    }
+  }
+
+  private static async invalidateProduct(productId: string): Promise<void> {
+    await Promise.all([
+      CacheService.deleteProduct(productId),
+      CacheService.incrementProductVersion(),
+    ]);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Product Media Types
+ *
+ * Product gallery images with ordering, per-locale alt text, variant
+ * assignment, focal point and generated responsive sizes.
+ */
+
+import type { FocalPoint, ProductImageSizes } from '@/core/upload/service';
+
+export type { FocalPoint, ProductImageSizes };
+
+export interface UploadProductMediaInput {
+  /** Variant the image belongs to; omit for an image of the whole product */
+  variantId?: string | null;
+  /** Alt text in the default locale */
+  alt?: string | null;
+  focalPoint?: FocalPoint;
+}
+
+export interface UpdateProductMediaInput {
+  variantId?: string | null;
+  alt?: string | null;
+  /** Changing the focal point re-crops the generated sizes */
+  focalPoint?: FocalPoint;
+}
+
+export interface ProductMediaTranslationInput {
+  alt: string;
+}
+
+export interface ProductMediaTranslationResponse {
+  locale: string;
+  alt: string;
+  updatedAt: string;
+}
+
+export interface ProductMediaResponse {
+  id: string;
+  productId: string | null;
+  variantId: string | null;
+  url: string;
+  filename: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
+  width: number | null;
+  height: number | null;
+  alt: string | null;
+  focalPoint: FocalPoint;
+  sizes: ProductImageSizes | null;
+  sortOrder: number;
+  translations: ProductMediaTranslationResponse[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Storefront gallery entry; `alt` is resolved for the requested locale */
+export interface ProductGalleryItem {
+  id: string;
+  url: string;
+  alt: string | null;
+  variantId: string | null;
+  width: number | null;
+  height: number | null;
+  focalPoint: FocalPoint;
+  sizes: ProductImageSizes | null;
+}
+
+export interface MediaCleanupOptions {
+  /** Only rows detached for at least this long are removed (default 24) */
+  olderThanHours?: number;
+  /** Maximum rows removed per run (default 100) */
+  limit?: number;
+}
+
+export interface MediaCleanupResult {
+  deleted: number;
+  filesRemoved: number;
+}
@@ -0,0 +1,85 @@
+/**
+ * Guest Order Email Template
+ *
+ * Sent after a guest checkout. Guests have no account to view their orders
+ * from, so the email carries the secure order lookup link.
+ */
+
+export interface GuestOrderEmailData {
+  orderNumber: string;
+  storeName: string;
+  totalAmount: number;
+  currency: string;
+  lookupUrl: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Generate the order confirmation email with the lookup link.
+ */
+export function renderGuestOrderEmail(data: GuestOrderEmailData): { html: string; text: string; subject: string } {
+  const subject = `Your order from ${data.storeName} — Order #${data.orderNumber}`;
+  const total = `${data.totalAmount.toFixed(2)} ${data.currency}`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1.0">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f5;padding:24px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color:#ffffff;border-radius:12px;overflow:hidden;box-shadow:0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color:#2563eb;padding:24px 32px;">
+              <h1 style="color:#ffffff;font-size:20px;font-weight:700;margin:0;">Thank You for Your Order</h1>
+              <p style="color:#bfdbfe;font-size:13px;margin:4px 0 0 0;">Order #${escapeHtml(data.orderNumber)}</p>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding:24px 32px;">
+              <p style="font-size:14px;color:#495057;margin:0 0 16px 0;">We have received your order. Order total: <strong>${escapeHtml(total)}</strong>.</p>
+              <p style="font-size:14px;color:#495057;margin:0 0 16px 0;">Use the link below to check its status at any time. Create an account with this email address to see all your orders in one place.</p>
+              <a href="${escapeHtml(data.lookupUrl)}" style="display:inline-block;padding:10px 20px;background:#2563eb;color:#fff;text-decoration:none;border-radius:6px;font-size:14px;font-weight:600;">View Order</a>
+
+              <!-- Footer -->
+              <div style="margin-top:24px;padding-top:16px;border-top:1px solid #e9ecef;">
+                <p style="font-size:12px;color:#6c757d;margin:0;">Keep this email private: anyone with the link can view your order.</p>
+                <p style="font-size:12px;color:#adb5bd;margin:8px 0 0 0;">© 2026 ${escapeHtml(data.storeName)}</p>
+              </div>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  const text = `Thank You for Your Order — Order #${data.orderNumber}
+
+We have received your order from ${data.storeName}. Order total: ${total}.
+
+Check its status at any time:
+${data.lookupUrl}
+
+Create an account with this email address to see all your orders in one place.
+Keep this email private: anyone with the link can view your order.
+
+© 2026 ${data.storeName}`;
+
+  return { html, text, subject };
+}
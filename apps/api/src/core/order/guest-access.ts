@@ -0,0 +1,29 @@
+/**
+ * Guest Order Access Tokens
+ *
+ * Guest orders are looked up with a random token that is only stored hashed;
+ * the plain token goes out once, in the checkout response and the order
+ * confirmation email.
+ */
+
+import crypto from 'crypto';
+
+export const ORDER_TOKEN_HEADER = 'x-order-token';
+
+export function generateGuestAccessToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashGuestAccessToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Constant-time comparison of a presented token with the stored hash
+ */
+export function guestAccessTokenMatches(token: string, hash: string | null | undefined): boolean {
+  if (!token || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashGuestAccessToken(token), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -26,9 +26,11 @@ export class OrderHooksService {
 
     /**
      * Order completed hook
+     *
+     * Customer emails are not sent from here: EmailNotificationService sends
+     * them from the order.paid, order.shipped and refund.completed events.
      */
     async onOrderCompleted(orderId: string): Promise<void> {
-        // Add order completion logic here (e.g., send confirmation email)
         LoggerService.logSystem(`Order completed: ${orderId}`);
     }
 
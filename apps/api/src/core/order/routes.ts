@@ -2,16 +2,28 @@
  * Order Routes (Multi-Store Version)
  */
 
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { OrderService } from './service';
-import { dualAuthMiddleware } from '@/core/auth/middleware';
+import { cartOwnerMiddleware } from '@/core/cart/guest';
 import { storeContextMiddleware } from '@/middleware/store-context';
 import { sendSuccess, sendError } from '@/utils/response';
 import { orderSchemas } from './schemas';
+import { ReturnService } from '@/core/returns/service';
+import { returnSchemas } from '@/core/returns/schemas';
+import { mapReturnRouteError } from '@/utils/route-error-mapper';
+
+/**
+ * Guests (cart token) may only place orders; everything else needs an account
+ */
+async function requireUser(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.user) {
+    return sendError(reply, 401, 'UNAUTHORIZED', 'Missing or invalid authorization header');
+  }
+}
 
 export async function orderRoutes(fastify: FastifyInstance) {
-  // Apply dual auth (JWT or API token with checkout:create scope) and store context
-  fastify.addHook('onRequest', dualAuthMiddleware('checkout:create'));
+  // Apply dual auth (JWT or API token with checkout:create scope), or a guest cart token, and store context
+  fastify.addHook('onRequest', cartOwnerMiddleware('checkout:create'));
   fastify.addHook('onRequest', storeContextMiddleware);
 
   // Create order
@@ -27,7 +39,7 @@ export async function orderRoutes(fastify: FastifyInstance) {
     try {
       const payload = request.body as any;
       const order = await OrderService.createOrder(
-        request.user!.id,
+        request.user?.id ?? null,
         payload
       );
       const statusCode =
@@ -46,7 +58,8 @@ export async function orderRoutes(fastify: FastifyInstance) {
       description: 'Get paginated list of orders for the current user',
       security: [{ bearerAuth: [] }],
       ...orderSchemas.listOrders,
-    }
+    },
+    onRequest: [requireUser],
   }, async (request, reply) => {
     try {
       const { page, limit, status } = request.query as any;
@@ -70,7 +83,8 @@ export async function orderRoutes(fastify: FastifyInstance) {
       description: 'Get detailed information about a specific order',
       security: [{ bearerAuth: [] }],
       ...orderSchemas.getOrder,
-    }
+    },
+    onRequest: [requireUser],
   }, async (request, reply) => {
     try {
       const { id } = request.params as any;
@@ -92,7 +106,8 @@ export async function orderRoutes(fastify: FastifyInstance) {
       description: 'Cancel a pending order with a reason',
       security: [{ bearerAuth: [] }],
       ...orderSchemas.cancelOrder,
-    }
+    },
+    onRequest: [requireUser],
   }, async (request, reply) => {
     try {
       const { id } = request.params as any;
@@ -106,4 +121,154 @@ export async function orderRoutes(fastify: FastifyInstance) {
       return sendError(reply, 400, 'BAD_REQUEST', error.message);
     }
   });
+
+  // List return requests of an order
+  fastify.get('/:id/returns', {
+    schema: {
+      tags: ['orders'],
+      summary: 'List order returns',
+      description: 'Return requests made for one of the current user\'s orders',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.listOrderReturns,
+    },
+    onRequest: [requireUser],
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const returns = await ReturnService.getOrderReturns(id, request.user!.id);
+      return sendSuccess(reply, returns);
+    } catch (error: unknown) {
+      const mapped = mapReturnRouteError(error, {
+        defaultStatus: 500,
+        defaultCode: 'INTERNAL_SERVER_ERROR',
+        defaultMessage: 'Failed to get order returns',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
+
+  // Request a return
+  fastify.post('/:id/returns', {
+    schema: {
+      tags: ['orders'],
+      summary: 'Request return',
+      description: 'Request a return for lines of a shipped or delivered order. Photos must be uploaded first through POST /:id/returns/photos.',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.createReturn,
+    },
+    onRequest: [requireUser],
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const data = request.body as any;
+      const ret = await ReturnService.createReturn(id, request.user!.id, {
+        reason: data.reason,
+        customerNote: data.customerNote,
+        photos: data.photos,
+        items: data.items,
+      });
+      return sendSuccess(reply, ret, undefined, 201);
+    } catch (error: unknown) {
+      const mapped = mapReturnRouteError(error, {
+        defaultStatus: 400,
+        defaultCode: 'BAD_REQUEST',
+        defaultMessage: 'Failed to request return',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
+
+  // Upload a return photo
+  fastify.post('/:id/returns/photos', {
+    schema: {
+      tags: ['orders'],
+      summary: 'Upload return photo',
+      description: 'Upload a photo (multipart) to attach to a return request of this order',
+      security: [{ bearerAuth: [] }],
+      consumes: ['multipart/form-data'],
+      ...returnSchemas.uploadReturnPhoto,
+    },
+    onRequest: [requireUser],
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const data = await request.file();
+
+      if (!data) {
+        return sendError(reply, 400, 'BAD_REQUEST', 'No file uploaded');
+      }
+
+      const result = await ReturnService.uploadPhoto(id, request.user!.id, data);
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      const mapped = mapReturnRouteError(error, {
+        defaultStatus: 500,
+        defaultCode: 'INTERNAL_SERVER_ERROR',
+        defaultMessage: 'Upload failed',
+      });
+      return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+    }
+  });
+
+  // Claim guest orders
+  fastify.post('/claim', {
+    schema: {
+      tags: ['orders'],
+      summary: 'Claim guest orders',
+      description: 'Attach a guest order (orderId + lookup token) or, without a body, all guest orders placed with the verified account email',
+      security: [{ bearerAuth: [] }],
+      ...orderSchemas.claimOrders,
+    },
+    onRequest: [requireUser],
+  }, async (request, reply) => {
+    try {
+      const { orderId, token } = (request.body ?? {}) as { orderId?: string; token?: string };
+      if (orderId || token) {
+        if (!orderId || !token) {
+          return sendError(reply, 400, 'BAD_REQUEST', 'orderId and token are required together');
+        }
+        const claimed = await OrderService.claimGuestOrder(request.user!.id, orderId, token);
+        return sendSuccess(reply, { claimed });
+      }
+
+      if (!request.user!.emailVerified) {
+        return sendError(reply, 403, 'FORBIDDEN', 'Verify your email address to claim guest orders');
+      }
+      const claimed = await OrderService.claimGuestOrdersByEmail(request.user!.id, request.user!.email);
+      return sendSuccess(reply, { claimed });
+    } catch (error: any) {
+      if (error?.message === 'Order not found') {
+        return sendError(reply, 404, 'NOT_FOUND', 'Order not found');
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+}
+
+/**
+ * Guest order lookup through the emailed link (no authentication)
+ */
+export async function guestOrderRoutes(fastify: FastifyInstance) {
+  fastify.addHook('onRequest', storeContextMiddleware);
+
+  fastify.get('/:id', {
+    schema: {
+      tags: ['orders'],
+      summary: 'Get guest order',
+      description: 'Get a guest order with the lookup token from its confirmation email',
+      ...orderSchemas.getGuestOrder,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { token } = request.query as { token: string };
+      const order = await OrderService.getGuestOrder(id, token);
+      if (!order) {
+        return sendError(reply, 404, 'NOT_FOUND', 'Order not found');
+      }
+      return sendSuccess(reply, order);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
 }
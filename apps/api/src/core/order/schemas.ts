@@ -11,6 +11,7 @@ import {
   createTypedUpdateResponses,
   createPageResultSchema,
 } from '@/types/common-dto';
+import { returnResponseSchema } from '@/core/returns/schemas';
 
 const orderStatusEnum = [
   'PENDING',
@@ -23,7 +24,7 @@ const orderStatusEnum = [
   'REFUNDED',
 ] as const;
 
-const paymentStatusEnum = ['PENDING', 'PAID', 'FAILED', 'REFUNDED'] as const;
+const paymentStatusEnum = ['PENDING', 'PAID', 'FAILED', 'PARTIALLY_REFUNDED', 'REFUNDED'] as const;
 
 const fulfillmentStatusEnum = [
   'pending',
@@ -51,6 +52,23 @@ const orderItemResponseSchema = {
     quantity: { type: 'number', description: 'Quantity ordered' },
     unitPrice: { type: 'number', description: 'Unit price at time of order' },
     totalPrice: { type: 'number', description: 'Total price for this item' },
+    taxAmount: { type: 'number', description: 'Tax on this line after discounts' },
+    taxRate: { type: 'number', description: 'Effective tax rate (percent)' },
+    taxBreakdown: {
+      type: 'array',
+      description: 'Applied tax rates',
+      items: {
+        type: 'object',
+        properties: {
+          rateId: { type: 'string' },
+          name: { type: 'string' },
+          rate: { type: 'number' },
+          compound: { type: 'boolean' },
+          amount: { type: 'number' },
+        },
+        required: ['name', 'rate', 'compound', 'amount'],
+      },
+    },
     fulfillmentStatus: {
       type: 'string',
       enum: fulfillmentStatusEnum,
@@ -94,12 +112,17 @@ const orderResponseSchema = {
   type: 'object',
   properties: {
     id: { type: 'string', description: 'Order ID' },
-    userId: { type: 'string', description: 'User ID who placed the order' },
+    userId: { type: 'string', nullable: true, description: 'User ID who placed the order (null for guest orders)' },
     status: { type: 'string', enum: orderStatusEnum, description: 'Order status' },
     paymentStatus: { type: 'string', enum: paymentStatusEnum, description: 'Payment status' },
     subtotalAmount: { type: 'number', description: 'Subtotal before discount/tax/shipping' },
     totalAmount: { type: 'number', description: 'Total order amount' },
     discountAmount: { type: 'number', description: 'Discount amount applied to this order' },
+    taxAmount: { type: 'number', description: 'Tax amount (added to the total unless pricesIncludeTax)' },
+    pricesIncludeTax: { type: 'boolean', description: 'Item prices already include taxAmount' },
+    shippingAmount: { type: 'number', description: 'Shipping cost (included in the total)' },
+    shippingMethodId: { type: 'string', nullable: true, description: 'Selected shipping method ID' },
+    shippingMethodName: { type: 'string', nullable: true, description: 'Selected shipping method name at order time' },
     appliedDiscounts: {
       type: 'array',
       description: 'Applied discount entries',
@@ -121,6 +144,8 @@ const orderResponseSchema = {
     updatedAt: { type: 'string', format: 'date-time', description: 'Last update timestamp' },
     cancelReason: { type: 'string', nullable: true, description: 'Cancellation reason (if cancelled)' },
     cancelledAt: { type: 'string', format: 'date-time', nullable: true, description: 'Cancellation time (if cancelled)' },
+    guestAccessToken: { type: 'string', description: 'Guest order lookup token (guest checkout only, returned once)' },
+    returns: { type: 'array', items: returnResponseSchema, description: 'Return requests (order detail only)' },
   },
   required: ['id', 'userId', 'status', 'paymentStatus', 'totalAmount', 'currency', 'items', 'createdAt', 'updatedAt'],
 } as const;
@@ -176,16 +201,30 @@ export const orderSchemas = {
           },
           description: 'Shipping address for the order',
         },
+        addressId: {
+          type: 'string',
+          description: 'Saved address from GET /api/account/addresses; replaces shippingAddress (signed-in customers only)',
+        },
         customerEmail: {
           type: 'string',
           format: 'email',
-          description: 'Customer contact email (optional, defaults to authenticated user email)',
+          description: 'Customer contact email (defaults to authenticated user email; required for guest checkout)',
         },
         discountCodes: {
           type: 'array',
           items: { type: 'string' },
           description: 'Optional discount codes to apply during order creation',
         },
+        currency: {
+          type: 'string',
+          minLength: 3,
+          maxLength: 3,
+          description: 'Currency to charge (ISO 4217; defaults to the shop currency, must be enabled)',
+        },
+        shippingMethodId: {
+          type: 'string',
+          description: 'Shipping method from GET /api/cart/shipping-options (required when methods are configured for the address)',
+        },
       },
     },
     response: createTypedCreateResponses(orderResponseSchema),
@@ -234,4 +273,41 @@ export const orderSchemas = {
     },
     response: createTypedUpdateResponses(orderResponseSchema),
   },
+
+  // GET /api/orders/guest/:id
+  getGuestOrder: {
+    params: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string', description: 'Order ID' },
+      },
+    },
+    querystring: {
+      type: 'object',
+      required: ['token'],
+      properties: {
+        token: { type: 'string', minLength: 1, description: 'Lookup token from the order confirmation email' },
+      },
+    },
+    response: createTypedReadResponses(orderResponseSchema),
+  },
+
+  // POST /api/orders/claim
+  claimOrders: {
+    body: {
+      type: 'object',
+      properties: {
+        orderId: { type: 'string', description: 'Guest order to claim with its lookup token' },
+        token: { type: 'string', description: 'Lookup token of the guest order' },
+      },
+    },
+    response: createTypedUpdateResponses({
+      type: 'object',
+      properties: {
+        claimed: { type: 'integer', description: 'Number of guest orders attached to the account' },
+      },
+      required: ['claimed'],
+    }),
+  },
 } as const;
@@ -16,6 +16,7 @@
  */
 
 import { prisma } from '@/config/database';
+import { env } from '@/config/env';
 import { Prisma, OrderStatus as PrismaOrderStatus, OrderPaymentStatus as PrismaOrderPaymentStatus } from '@prisma/client';
 import {
   CreateOrderRequest,
@@ -29,15 +30,34 @@ import {
 } from './types';
 import { getOrderHooks } from './hooks';
 import { recordOrderStatusHistory } from './status-history';
+import { OutboxService } from '@/infra/outbox';
+import { generateGuestAccessToken, guestAccessTokenMatches, hashGuestAccessToken } from './guest-access';
 
 const isUniqueConstraintError = (error: unknown): error is Prisma.PrismaClientKnownRequestError =>
   error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
 import { systemSettingsService } from '../admin/system-settings/service';
 import { PushNotificationService } from '../notification/push-notification.service';
 import { LoggerService } from '@/core/logger/unified-logger';
+import { formatReturnResponse, returnRequestInclude } from '@/core/returns/service';
 import { getSupplierProductProfile, resolveSupplierFulfillmentData, parseJsonRecord } from '@/core/external-orders/utils';
 import { InventoryService } from '@/core/inventory/service';
 import { WarehouseService } from '@/core/warehouse/service';
+import { CurrencyService, roundCurrencyAmount } from '@/core/currency/service';
+import { CustomerGroupService } from '@/core/customer-groups/service';
+import { TenderService } from '@/core/gift-cards/tenders';
+import { TaxService } from '@/core/tax/service';
+import { ShippingService } from '@/core/shipping/service';
+import { renderGuestOrderEmail } from '@/core/notification/guest-order-email';
+import { deliverEmail } from '@/core/email/transport';
+
+/**
+ * How long an unpaid order holds its stock (ORDER_RESERVATION_TTL_MINUTES, default 60).
+ * Keep this longer than payment session lifetimes so in-flight payments still find their hold.
+ */
+function getReservationTtlMs(): number {
+  const minutes = Number(process.env.ORDER_RESERVATION_TTL_MINUTES || 60);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 60) * 60 * 1000;
+}
 
 const shipmentItemSelect = {
   id: true,
@@ -86,7 +106,13 @@ export class OrderService {
     }
   }
 
-  private static async validateShippingAddress(address: NonNullable<CreateOrderRequest['shippingAddress']>) {
+  /**
+   * Check required address fields, including state and postal code for the
+   * countries configured to need them. Also used for the address book.
+   *
+   * @throws Error naming the first missing field
+   */
+  static async validateShippingAddress(address: NonNullable<CreateOrderRequest['shippingAddress']>) {
     const requiredFields: Array<keyof NonNullable<CreateOrderRequest['shippingAddress']>> = [
       'firstName',
       'lastName',
@@ -144,12 +170,45 @@ export class OrderService {
   }
 
   /**
-   * Create a new order for a user
+   * Load an address from the customer's address book for checkout
+   *
+   * @throws Error for guests and for addresses that are not the customer's
+   */
+  private static async resolveSavedAddress(
+    userId: string | null,
+    addressId: string
+  ): Promise<NonNullable<CreateOrderRequest['shippingAddress']>> {
+    if (!userId) {
+      throw new Error('Sign in to use a saved address');
+    }
+    const address = await prisma.customerAddress.findFirst({ where: { id: addressId, userId } });
+    if (!address) {
+      throw new Error('Saved address not found');
+    }
+    return {
+      firstName: address.firstName,
+      lastName: address.lastName,
+      phone: address.phone,
+      addressLine1: address.addressLine1,
+      addressLine2: address.addressLine2 ?? undefined,
+      city: address.city,
+      state: address.state ?? undefined,
+      postalCode: address.postalCode ?? undefined,
+      country: address.country,
+      email: address.email ?? undefined,
+    };
+  }
+
+  /**
+   * Create a new order for a user or a guest
    *
    * Validates product availability, calculates total amount, deducts stock,
    * and emits an order.created event via the Outbox pattern.
    *
-   * @param userId User ID creating the order
+   * Guest orders (no userId) carry only customerEmail. They get a lookup token,
+   * returned once as guestAccessToken and emailed as an order link.
+   *
+   * @param userId User ID creating the order, or null for guest checkout
    * @param data Order creation request containing items and shipping address
    * @returns Promise resolving to the created order response
    * @throws Error if order contains no items
@@ -157,22 +216,35 @@ export class OrderService {
    * @throws Error if no variants are available for a product
    * @throws Error if variant is not found
    * @throws Error if insufficient stock for any item
+   * @throws Error if a guest order has no customer email
+   * @throws Error if addressId is not one of the customer's saved addresses
    */
   static async createOrder(
-    userId: string,
+    userId: string | null,
     data: CreateOrderRequest
   ): Promise<OrderResponse> {
-    const normalizedShippingAddress = data.shippingAddress
-      ? this.normalizeShippingAddress(data.shippingAddress as any)
+    // A saved address from the customer's address book replaces a typed one
+    const shippingAddressInput = data.addressId
+      ? await this.resolveSavedAddress(userId, data.addressId)
+      : data.shippingAddress;
+    const normalizedShippingAddress = shippingAddressInput
+      ? this.normalizeShippingAddress(shippingAddressInput as any)
       : undefined;
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { email: true },
-    });
-    if (!user) {
-      throw new Error('User not found');
+    let customerEmail = data.customerEmail?.trim();
+    if (userId) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+      });
+      if (!user) {
+        throw new Error('User not found');
+      }
+      customerEmail = customerEmail || user.email;
+    } else if (!customerEmail) {
+      throw new Error('Customer email is required for guest checkout');
     }
+    const guestAccessToken = userId ? null : generateGuestAccessToken();
 
     // Verify products and calculate total amount
     let totalAmount = 0;
@@ -200,6 +272,14 @@ export class OrderService {
 
     // Create a map for O(1) lookup
     const productMap = new Map(products.map(p => [p.id, p]));
+
+    // Group-restricted products and group prices of the customer's groups
+    const customerGroupIds = await CustomerGroupService.getUserGroupIds(userId);
+    await CustomerGroupService.assertProductsVisible(productIds, customerGroupIds);
+    const groupPrices = await CustomerGroupService.getGroupPrices(
+      customerGroupIds,
+      data.items.map(item => item.variantId).filter(Boolean)
+    );
     const requestedQuantityByVariant = new Map<string, number>();
     for (const item of data.items) {
       if (!item.variantId) continue;
@@ -260,7 +340,7 @@ export class OrderService {
         requiresOrderShipping = true;
       }
 
-      const unitPrice = Number(variant.salePrice);
+      const unitPrice = groupPrices.get(variantId) ?? Number(variant.salePrice);
       const requestedQuantity = requestedQuantityByVariant.get(variantId) ?? item.quantity;
       const stock = stockMap.get(variantId) ?? 0;
 
@@ -289,6 +369,42 @@ export class OrderService {
       }
     }
 
+    if (requiresOrderShipping && !shippingAddressInput) {
+      throw new Error('Shipping address is required for shippable items');
+    }
+
+    if (normalizedShippingAddress) {
+      await this.validateShippingAddress(normalizedShippingAddress);
+    }
+
+    // Shipping in the base currency; stores without zones for the address ship for free
+    let shippingAmount = 0;
+    let shippingMethod: { id: string; name: string } | null = null;
+    if (requiresOrderShipping) {
+      const shippingOptions = await ShippingService.getOptions({
+        address: {
+          country: normalizedShippingAddress!.country,
+          state: normalizedShippingAddress!.state,
+          postalCode: normalizedShippingAddress!.postalCode,
+        },
+        items: orderItems.map((item) => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          amount: item.unitPrice * item.quantity,
+        })),
+      });
+      if (data.shippingMethodId) {
+        const option = shippingOptions.find((candidate) => candidate.id === data.shippingMethodId);
+        if (!option) {
+          throw new Error('Shipping method is not available for this address');
+        }
+        shippingAmount = option.amount;
+        shippingMethod = { id: option.id, name: option.name };
+      } else if (shippingOptions.length > 0) {
+        throw new Error('Shipping method is required');
+      }
+    }
+
     if (data.discountCodes && data.discountCodes.length > 0) {
       const { DiscountEngine } = await import('@/core/discount/engine');
       const cartForDiscount = {
@@ -311,7 +427,7 @@ export class OrderService {
         itemCount: orderItems.reduce((sum, item) => sum + item.quantity, 0),
         subtotal: totalAmount,
         tax: 0,
-        shipping: 0,
+        shipping: shippingAmount,
         discount: 0,
         discountAmount: 0,
         appliedDiscounts: [],
@@ -323,11 +439,12 @@ export class OrderService {
       const discountResult = await DiscountEngine.calculateDiscount(
         cartForDiscount,
         data.discountCodes,
-        { id: userId }
+        userId ? { id: userId } : undefined
       );
 
       discountAmount = discountResult.discountAmount;
-      totalAmount = discountResult.finalTotal;
+      totalAmount = Math.max(0, discountResult.subtotal - discountResult.discountAmount);
+      shippingAmount = Math.max(0, shippingAmount - discountResult.shippingDiscount);
       appliedDiscounts = discountResult.appliedDiscounts.map((discount) => ({
         id: discount.id,
         code: discount.code,
@@ -335,14 +452,6 @@ export class OrderService {
       }));
     }
 
-    if (requiresOrderShipping && !data.shippingAddress) {
-      throw new Error('Shipping address is required for shippable items');
-    }
-
-    if (normalizedShippingAddress) {
-      await this.validateShippingAddress(normalizedShippingAddress);
-    }
-
     // Lookup default store for order association
     const defaultStore = await prisma.store.findFirst({ orderBy: { createdAt: 'asc' } });
     if (!defaultStore) {
@@ -350,23 +459,82 @@ export class OrderService {
     }
     const storeId = defaultStore.id;
 
-    // Unified currency from settings
-    const currency = await systemSettingsService.getShopCurrency();
+    // Charge in the shopper's currency when it is enabled; prices above are in the base currency
+    const currencyService = new CurrencyService();
+    const baseCurrency = await currencyService.getBaseCurrency();
+    const currency = await currencyService.resolveCurrency(data.currency);
+    let subtotalAmount = totalAmount + discountAmount;
 
-    // Create order + deduct stock atomically
+    if (currency !== baseCurrency) {
+      const prices = await currencyService.resolveVariantPrices(
+        orderItems.map((item) => ({ id: item.variantId, salePrice: item.unitPrice })),
+        currency
+      );
+      for (const item of orderItems) {
+        item.unitPrice = prices.get(item.variantId) ?? item.unitPrice;
+      }
+      subtotalAmount = roundCurrencyAmount(
+        orderItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0),
+        currency
+      );
+      appliedDiscounts = await Promise.all(appliedDiscounts.map(async (discount) => ({
+        ...discount,
+        discountAmount: await currencyService.convertFromBase(discount.discountAmount, currency),
+      })));
+      discountAmount = Math.min(subtotalAmount, await currencyService.convertFromBase(discountAmount, currency));
+      totalAmount = roundCurrencyAmount(subtotalAmount - discountAmount, currency);
+      shippingAmount = await currencyService.convertFromBase(shippingAmount, currency);
+    }
+    shippingAmount = roundCurrencyAmount(shippingAmount, currency);
+    totalAmount = roundCurrencyAmount(totalAmount + shippingAmount, currency);
+
+    // Tax per line on discounted amounts, in the charge currency
+    const taxQuote = await TaxService.quote({
+      address: normalizedShippingAddress
+        ? {
+          country: normalizedShippingAddress.country,
+          state: normalizedShippingAddress.state,
+          postalCode: normalizedShippingAddress.postalCode,
+        }
+        : null,
+      currency,
+      lines: orderItems.map((item, index) => ({
+        id: String(index),
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        amount: item.unitPrice * item.quantity,
+      })),
+      discountAmount,
+    });
+    const taxAmount = taxQuote.taxAmount;
+    if (!taxQuote.pricesIncludeTax) {
+      totalAmount = roundCurrencyAmount(totalAmount + taxAmount, currency);
+    }
+
+    // Create order + reserve stock atomically
+    const expiresAt = new Date(Date.now() + getReservationTtlMs());
     const order = await prisma.$transaction(async (tx) => {
       const created = await tx.order.create({
         data: {
-          user: { connect: { id: userId } },
+          user: userId ? { connect: { id: userId } } : undefined,
           store: { connect: { id: storeId } },
-          customerEmail: data.customerEmail?.trim() || user.email,
+          customerEmail,
+          guestAccessTokenHash: guestAccessToken ? hashGuestAccessToken(guestAccessToken) : null,
           status: OrderStatus.PENDING,
           paymentStatus: PaymentStatus.PENDING,
-          subtotalAmount: totalAmount + discountAmount,
+          expiresAt,
+          subtotalAmount,
           discountAmount,
+          taxAmount,
           totalAmount,
+          currency,
+          pricesIncludeTax: taxQuote.pricesIncludeTax,
+          shippingAmount,
+          shippingMethod: shippingMethod ? { connect: { id: shippingMethod.id } } : undefined,
+          shippingMethodName: shippingMethod?.name ?? null,
           // Create order address relation
-          shippingAddress: data.shippingAddress
+          shippingAddress: shippingAddressInput
             ? {
               create: {
                 firstName: normalizedShippingAddress!.firstName.trim(),
@@ -383,11 +551,15 @@ export class OrderService {
             }
             : undefined,
           items: {
-            create: orderItems.map(item => ({
+            create: orderItems.map((item, index) => ({
               productId: item.productId,
               variantId: item.variantId,
               quantity: item.quantity,
               unitPrice: item.unitPrice,
+              currency,
+              taxAmount: taxQuote.lines[index]?.taxAmount ?? 0,
+              taxRate: taxQuote.lines[index]?.taxRate ?? 0,
+              taxBreakdown: (taxQuote.lines[index]?.breakdown ?? []) as unknown as Prisma.InputJsonValue,
               fulfillmentData: (item.fulfillmentData ?? null) as Prisma.InputJsonValue | null,
             }))
           },
@@ -422,9 +594,7 @@ export class OrderService {
         }
       });
 
-      for (const item of orderItems) {
-        await InventoryService.decrementStock(tx, item.variantId, item.quantity);
-      }
+      await InventoryService.reserveStock(tx, created.id, orderItems, expiresAt);
 
       for (const discount of appliedDiscounts) {
         await tx.discount.update({
@@ -433,6 +603,15 @@ export class OrderService {
             usedCount: { increment: 1 },
           },
         });
+
+        await OutboxService.emit(tx, 'discount.redeemed', discount.id, {
+          id: discount.id,
+          code: discount.code,
+          orderId: created.id,
+          userId,
+          discountAmount: discount.discountAmount,
+          currency,
+        }, { actorId: userId ?? undefined });
       }
 
       await recordOrderStatusHistory(tx, {
@@ -441,14 +620,13 @@ export class OrderService {
         toStatus: created.status as PrismaOrderStatus,
         fromPaymentStatus: null,
         toPaymentStatus: created.paymentStatus as PrismaOrderPaymentStatus,
-        actorType: 'user',
+        actorType: userId ? 'user' : 'guest',
         actorId: userId,
         reason: 'order_created',
       });
 
       // Emit order.created event via Outbox (best-effort)
       try {
-        const { OutboxService } = await import('@/infra/outbox');
         await OutboxService.emit(tx, 'order.created', created.id, {
           id: created.id,
           userId: created.userId,
@@ -470,9 +648,138 @@ export class OrderService {
       return created;
     });
 
+    if (!guestAccessToken) {
+      return this.formatOrderResponse(order, currency);
+    }
+
+    await this.sendGuestOrderEmail(order, guestAccessToken);
+    return { ...this.formatOrderResponse(order, currency), guestAccessToken };
+  }
+
+  /**
+   * Get a guest order through its lookup link
+   *
+   * @param orderId Order ID
+   * @param token Lookup token from the confirmation email
+   * @returns Order response, or null if the order does not exist, the token
+   *   does not match, or the order has been claimed by an account
+   */
+  static async getGuestOrder(orderId: string, token: string): Promise<OrderResponse | null> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId: null },
+      include: {
+        shippingAddress: true,
+        shipments: {
+          select: shipmentSelect
+        },
+        items: {
+          include: {
+            product: true,
+            variant: true
+          }
+        }
+      }
+    });
+
+    if (!order || !guestAccessTokenMatches(token, order.guestAccessTokenHash)) {
+      return null;
+    }
+
+    const currency = await systemSettingsService.getShopCurrency();
     return this.formatOrderResponse(order, currency);
   }
 
+  /**
+   * Check a guest order lookup token without loading the order
+   */
+  static async verifyGuestAccess(orderId: string, token: string): Promise<boolean> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId: null },
+      select: { guestAccessTokenHash: true },
+    });
+    return !!order && guestAccessTokenMatches(token, order.guestAccessTokenHash);
+  }
+
+  /**
+   * Attach one guest order to an account, proven by its lookup token
+   *
+   * @returns Number of claimed orders (0 or 1)
+   * @throws Error if the order does not exist or the token does not match
+   */
+  static async claimGuestOrder(userId: string, orderId: string, token: string): Promise<number> {
+    if (!(await this.verifyGuestAccess(orderId, token))) {
+      throw new Error('Order not found');
+    }
+    return this.attachGuestOrders(userId, { id: orderId, userId: null });
+  }
+
+  /**
+   * Attach every guest order placed with the account's email
+   *
+   * Only call with a verified email address: the email is the proof of
+   * ownership here.
+   *
+   * @returns Number of claimed orders
+   */
+  static async claimGuestOrdersByEmail(userId: string, email: string): Promise<number> {
+    return this.attachGuestOrders(userId, {
+      userId: null,
+      customerEmail: { equals: email.trim(), mode: 'insensitive' },
+    });
+  }
+
+  private static async attachGuestOrders(userId: string, where: Prisma.OrderWhereInput): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+      const orders = await tx.order.findMany({ where, select: { id: true } });
+      if (orders.length === 0) {
+        return 0;
+      }
+
+      const orderIds = orders.map((order) => order.id);
+      // The lookup link stops working once the order belongs to an account
+      await tx.order.updateMany({
+        where: { id: { in: orderIds }, userId: null },
+        data: { userId, guestAccessTokenHash: null },
+      });
+      await tx.discountUsage.updateMany({
+        where: { orderId: { in: orderIds }, userId: null },
+        data: { userId },
+      });
+      return orderIds.length;
+    });
+  }
+
+  /**
+   * Email the order lookup link to a guest (best-effort)
+   */
+  private static async sendGuestOrderEmail(order: any, guestAccessToken: string): Promise<void> {
+    try {
+      const storeName = (await systemSettingsService.getSetting('storeName').catch(() => null)) as string | null || 'Jiffoo';
+      const lookupUrl = `${env.NEXT_PUBLIC_SHOP_URL}/orders/lookup?orderId=${encodeURIComponent(order.id)}&token=${encodeURIComponent(guestAccessToken)}`;
+      const { html, text, subject } = renderGuestOrderEmail({
+        orderNumber: order.id,
+        storeName,
+        totalAmount: Number(order.totalAmount),
+        currency: order.currency,
+        lookupUrl,
+      });
+
+      const result = await deliverEmail({
+        to: order.customerEmail,
+        fromName: storeName,
+        subject,
+        html,
+        text,
+        tags: ['guest-order', `order:${order.id}`],
+      });
+      if (!result.success) {
+        LoggerService.logError(new Error(result.error || 'Guest order email failed'), { context: 'guest order email', orderId: order.id });
+      }
+    } catch (err) {
+      LoggerService.logError(err instanceof Error ? err : new Error(String(err)), { context: 'guest order email' });
+    }
+  }
+
   /**
    * Get paginated list of orders for a specific user
    *
@@ -534,7 +841,7 @@ export class OrderService {
    * Get detailed information for a specific order
    *
    * Retrieves full order details including items, product information,
-   * shipping address, and shipments. Optionally filters by user ID
+   * shipping address, shipments and returns. Optionally filters by user ID
    * for authorization purposes.
    *
    * @param orderId Order ID to retrieve
@@ -557,6 +864,10 @@ export class OrderService {
         shipments: {
           select: shipmentSelect
         },
+        returnRequests: {
+          include: returnRequestInclude,
+          orderBy: { createdAt: 'asc' }
+        },
         items: {
           include: {
             product: true,
@@ -633,7 +944,8 @@ export class OrderService {
 
     // Send push notification for status update
     try {
-      await PushNotificationService.sendOrderStatusUpdate(
+      // Guest orders have no account to notify
+      if (order.userId) await PushNotificationService.sendOrderStatusUpdate(
         order.userId,
         order.id,
         status
@@ -649,8 +961,8 @@ export class OrderService {
   /**
    * Cancel a pending order and restore inventory stock
    *
-   * Only orders with PENDING status can be cancelled. Stock for all
-   * order items is restored to product variants. A push notification
+   * Only orders with PENDING status can be cancelled. The order's stock
+   * reservations are released back to available stock. A push notification
    * is sent to the user.
    *
    * @param orderId Order ID to cancel
@@ -684,9 +996,8 @@ export class OrderService {
     }
 
     const updatedOrder = await prisma.$transaction(async (tx) => {
-      for (const item of order.items) {
-        await InventoryService.incrementStock(tx, item.variantId, item.quantity);
-      }
+      await InventoryService.restockOrder(tx, order.id, order.items);
+      await TenderService.releaseForOrder(tx, order.id, 'cancelled');
 
       const updated = await tx.order.update({
         where: { id: orderId },
@@ -722,7 +1033,7 @@ export class OrderService {
 
     // Send push notification for cancellation
     try {
-      await PushNotificationService.sendOrderStatusUpdate(
+      if (updatedOrder.userId) await PushNotificationService.sendOrderStatusUpdate(
         updatedOrder.userId,
         updatedOrder.id,
         OrderStatus.CANCELLED
@@ -735,6 +1046,77 @@ export class OrderService {
     return this.formatOrderResponse(updatedOrder, currency);
   }
 
+  /**
+   * Release an unpaid order's expired stock holds and cancel it
+   *
+   * Called by the reservation expiry job. Orders that were paid in the
+   * meantime keep their stock (holds are consumed instead); orders that are
+   * no longer pending only have their leftover holds released. Orders with a
+   * payment session that is still open are left alone until it expires, so a
+   * customer paying at the provider never pays for released stock.
+   *
+   * @param orderId Order whose reservations have expired
+   * @returns true if the order was cancelled
+   */
+  static async expireUnpaidOrder(orderId: string): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { id: orderId },
+        select: { id: true, status: true, paymentStatus: true },
+      });
+
+      if (!order) {
+        return false;
+      }
+
+      if (order.paymentStatus === PaymentStatus.PAID) {
+        await InventoryService.consumeReservations(tx, orderId);
+        return false;
+      }
+
+      const openSession = await tx.payment.findFirst({
+        where: {
+          orderId,
+          status: 'PENDING',
+          expiresAt: { gt: new Date() },
+        },
+        select: { id: true },
+      });
+
+      if (openSession) {
+        return false;
+      }
+
+      await InventoryService.releaseReservations(tx, orderId, 'EXPIRED');
+      await TenderService.releaseForOrder(tx, orderId, 'payment_expired');
+
+      if (order.status !== OrderStatus.PENDING) {
+        return false;
+      }
+
+      const updated = await tx.order.update({
+        where: { id: orderId },
+        data: {
+          status: OrderStatus.CANCELLED,
+          cancelReason: 'payment_expired',
+          cancelledAt: new Date()
+        }
+      });
+
+      await recordOrderStatusHistory(tx, {
+        orderId: updated.id,
+        fromStatus: order.status as PrismaOrderStatus,
+        toStatus: updated.status as PrismaOrderStatus,
+        fromPaymentStatus: order.paymentStatus as PrismaOrderPaymentStatus,
+        toPaymentStatus: updated.paymentStatus as PrismaOrderPaymentStatus,
+        reason: 'payment_expired',
+        actorType: 'system',
+      });
+
+      return true;
+    });
+  }
+
   /**
    * Mark an order as completed after successful payment
    *
@@ -761,6 +1143,8 @@ export class OrderService {
     }
 
     const updatedOrder = await prisma.$transaction(async (tx) => {
+      await InventoryService.consumeReservations(tx, orderId);
+
       const updated = await tx.order.update({
         where: { id: orderId },
         data: {
@@ -793,7 +1177,7 @@ export class OrderService {
 
     // Send push notification for payment confirmation
     try {
-      await PushNotificationService.sendOrderStatusUpdate(
+      if (updatedOrder.userId) await PushNotificationService.sendOrderStatusUpdate(
         updatedOrder.userId,
         updatedOrder.id,
         PaymentStatus.PAID
@@ -926,6 +1310,16 @@ export class OrderService {
               idempotencyKey,
             },
           });
+
+          await OutboxService.emit(tx, 'refund.completed', refund.id, {
+            id: refund.id,
+            orderId: order.id,
+            paymentId: successfulPayment.id,
+            amount: Number(refund.amount),
+            currency: refund.currency,
+            provider: refund.provider,
+            reason: refund.reason,
+          });
         }
 
         // 2. Update order status
@@ -956,9 +1350,7 @@ export class OrderService {
           actorType: 'admin',
         });
 
-        for (const item of order.items) {
-          await InventoryService.incrementStock(tx, item.variantId, item.quantity);
-        }
+        await InventoryService.restockOrder(tx, order.id, order.items);
 
         return updated;
       });
@@ -987,7 +1379,7 @@ export class OrderService {
 
     // Send push notification for refund
     try {
-      await PushNotificationService.sendOrderStatusUpdate(
+      if (updatedOrder.userId) await PushNotificationService.sendOrderStatusUpdate(
         updatedOrder.userId,
         updatedOrder.id,
         OrderStatus.REFUNDED
@@ -1016,10 +1408,11 @@ export class OrderService {
    * response format with calculated fields and proper type conversions.
    *
    * @param order Raw order object from Prisma with includes
-   * @param currency Currency code for the order
+   * @param fallbackCurrency Currency code used when the order has no recorded currency
    * @returns Formatted order response object
    */
-  private static formatOrderResponse(order: any, currency: string): OrderResponse {
+  private static formatOrderResponse(order: any, fallbackCurrency: string): OrderResponse {
+    const currency: string = order.currency || fallbackCurrency;
     return {
       id: order.id,
       userId: order.userId,
@@ -1028,6 +1421,11 @@ export class OrderService {
       subtotalAmount: Number(order.subtotalAmount || 0),
       totalAmount: Number(order.totalAmount),
       discountAmount: Number(order.discountAmount || 0),
+      taxAmount: Number(order.taxAmount || 0),
+      pricesIncludeTax: Boolean(order.pricesIncludeTax),
+      shippingAmount: Number(order.shippingAmount || 0),
+      shippingMethodId: order.shippingMethodId ?? null,
+      shippingMethodName: order.shippingMethodName ?? null,
       appliedDiscounts: Array.isArray(order.discountUsages)
         ? order.discountUsages.map((usage: any) => ({
           id: usage.discountId,
@@ -1049,13 +1447,17 @@ export class OrderService {
         unitPrice: Number(item.unitPrice),
         // Calculate totalPrice from unitPrice * quantity since it's not stored in DB
         totalPrice: Number(item.unitPrice) * item.quantity,
+        taxAmount: Number(item.taxAmount || 0),
+        taxRate: Number(item.taxRate || 0),
+        taxBreakdown: Array.isArray(item.taxBreakdown) ? item.taxBreakdown : [],
         fulfillmentData: parseJsonRecord(item.fulfillmentData),
         currency
       })),
       createdAt: order.createdAt.toISOString(),
       updatedAt: order.updatedAt.toISOString(),
       cancelReason: order.cancelReason || null,
-      cancelledAt: order.cancelledAt ? order.cancelledAt.toISOString() : null
+      cancelledAt: order.cancelledAt ? order.cancelledAt.toISOString() : null,
+      ...(Array.isArray(order.returnRequests) ? { returns: order.returnRequests.map(formatReturnResponse) } : {})
     };
   }
 }
@@ -1,4 +1,6 @@
 import type { OrderPaymentStatus, OrderStatus } from '@prisma/client';
+import type { CoreEventPayloads, OrderStatusTransitionPayload } from '@jiffoo/shared';
+import { OutboxService } from '@/infra/outbox';
 
 export type OrderStatusHistoryInput = {
   orderId: string;
@@ -20,8 +22,25 @@ export type OrderStatusHistoryWriter = {
   orderStatusHistory: {
     create(args: { data: unknown }): Promise<unknown>;
   };
+  outboxEvent: {
+    create(args: { data: unknown }): Promise<unknown>;
+  };
 };
 
+/**
+ * Statuses whose transitions are published as domain events
+ */
+const STATUS_EVENTS: Partial<Record<OrderStatus, 'order.shipped' | 'order.delivered' | 'order.cancelled' | 'order.refunded'>> = {
+  SHIPPED: 'order.shipped',
+  DELIVERED: 'order.delivered',
+  CANCELLED: 'order.cancelled',
+  REFUNDED: 'order.refunded',
+};
+
+/**
+ * Record a status transition and, when the order enters a status listed in
+ * STATUS_EVENTS, emit the matching order event in the same transaction.
+ */
 export async function recordOrderStatusHistory(
   tx: OrderStatusHistoryWriter,
   input: OrderStatusHistoryInput
@@ -39,4 +58,25 @@ export async function recordOrderStatusHistory(
       metadata: input.metadata ?? undefined,
     },
   });
+
+  const eventType = STATUS_EVENTS[input.toStatus];
+  if (!eventType || input.fromStatus === input.toStatus) {
+    return;
+  }
+
+  const payload: OrderStatusTransitionPayload = {
+    id: input.orderId,
+    fromStatus: input.fromStatus ?? null,
+    toStatus: input.toStatus,
+    fromPaymentStatus: input.fromPaymentStatus ?? null,
+    toPaymentStatus: input.toPaymentStatus ?? null,
+    reason: input.reason ?? null,
+    actorType: input.actorType ?? null,
+    actorId: input.actorId ?? null,
+    metadata: input.metadata ?? {},
+  };
+
+  await OutboxService.emit(tx, eventType, input.orderId, payload as CoreEventPayloads[typeof eventType], {
+    actorId: input.actorId ?? undefined,
+  });
 }
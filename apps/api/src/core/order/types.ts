@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { TaxComponent } from '@/core/tax/types';
+import type { ReturnResponse } from '@/core/returns/types';
 
 // Order Item
 export const OrderItemSchema = z.object({
@@ -42,9 +44,11 @@ export const ShippingAddressSchema = z.object({
 export const CreateOrderSchema = z.object({
   items: z.array(OrderItemSchema).min(1, 'Order must have at least one item'),
   shippingAddress: ShippingAddressSchema.optional(),
+  addressId: z.string().optional(), // saved address of the signed-in customer; replaces shippingAddress
   customerEmail: z.string().email('Valid email is required').optional(),
-  currency: z.string().optional().default('USD'),
+  currency: z.string().length(3, 'Currency code must be 3 characters').optional(), // defaults to the shop currency
   discountCodes: z.array(z.string()).optional(),
+  shippingMethodId: z.string().optional(), // from GET /cart/shipping-options
   paymentTermId: z.string().optional(), // B2B payment terms
 });
 
@@ -67,6 +71,7 @@ export const PaymentStatus = {
   PENDING: 'PENDING',
   PAID: 'PAID',
   FAILED: 'FAILED',
+  PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
   REFUNDED: 'REFUNDED'
 } as const;
 
@@ -126,7 +131,8 @@ export interface ShipmentResponse {
 // Order Response Interface
 export interface OrderResponse {
   id: string;
-  userId: string;
+  /** null for guest orders */
+  userId: string | null;
   status: OrderStatusType;
   paymentStatus: PaymentStatusType;
   subtotalAmount?: number;
@@ -136,6 +142,11 @@ export interface OrderResponse {
   items: OrderItemResponse[];
   shipments?: ShipmentResponse[];
   discountAmount?: number;
+  taxAmount?: number;
+  pricesIncludeTax?: boolean;
+  shippingAmount?: number;
+  shippingMethodId?: string | null;
+  shippingMethodName?: string | null;
   appliedDiscounts?: AppliedDiscountInfo[];
   createdAt: string;
   updatedAt: string;
@@ -143,6 +154,8 @@ export interface OrderResponse {
   cancelledAt?: string | null;
   paymentTermId?: string | null; // B2B payment term
   paymentDueDate?: string | null; // B2B payment due date
+  guestAccessToken?: string; // Guest order lookup token, returned once at checkout
+  returns?: ReturnResponse[]; // Return requests, on the order detail only
 }
 
 // Applied Discount Info for Order Response
@@ -163,6 +176,9 @@ export interface OrderItemResponse {
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  taxAmount?: number;
+  taxRate?: number;
+  taxBreakdown?: TaxComponent[];
   /**
    * Fulfillment status for this order item.
    * Stored in DB as OrderItem.fulfillmentStatus.
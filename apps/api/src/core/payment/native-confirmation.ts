@@ -5,6 +5,7 @@ import { StripeService } from '@/services/stripe.service';
 import { OrderStatus, PaymentStatus } from '@/core/order/types';
 import { recordOrderStatusHistory } from '@/core/order/status-history';
 import { emitOrderPaidEvent } from '@/core/payment/order-paid-event';
+import { TenderService } from '@/core/gift-cards/tenders';
 
 export type NativePayProvider = 'apple-pay' | 'google-pay';
 
@@ -130,9 +131,9 @@ async function verifyWithStripe(
   nativeProvider: NativePayProvider,
   order: {
     id: string;
-    totalAmount: Prisma.Decimal;
     currency: string;
   },
+  amountDue: number,
   input: NativePaymentConfirmInput,
 ): Promise<VerifiedProviderPayment> {
   const evidence = extractProviderEvidence(input);
@@ -161,7 +162,7 @@ async function verifyWithStripe(
   try {
     intent = await StripeService.confirmNativePayment({
       orderId: order.id,
-      amount: toCents(order.totalAmount),
+      amount: toCents(amountDue),
       currency: order.currency.toLowerCase(),
       paymentMethodId: evidence.paymentMethodId,
       paymentIntentId: evidence.paymentIntentId,
@@ -181,10 +182,10 @@ async function verifyWithStripe(
     );
   }
 
-  if (intent.amount !== toCents(order.totalAmount)) {
+  if (intent.amount !== toCents(amountDue)) {
     throw new NativePaymentConfirmationError(409, 'PAYMENT_AMOUNT_MISMATCH', 'Provider payment amount does not match order total', {
       providerAmount: intent.amount,
-      orderAmount: toCents(order.totalAmount),
+      orderAmount: toCents(amountDue),
     });
   }
 
@@ -262,7 +263,9 @@ export class NativePaymentConfirmationService {
       };
     }
 
-    assertAmountMatches(order.totalAmount, input.expectedTotal);
+    // Gift cards and store credit applied to the order are not charged again
+    const amountDue = await TenderService.getAmountDue(order.id, order.totalAmount);
+    assertAmountMatches(amountDue, input.expectedTotal);
     if (input.currency && input.currency.toUpperCase() !== order.currency.toUpperCase()) {
       throw new NativePaymentConfirmationError(409, 'PAYMENT_CURRENCY_MISMATCH', 'Client currency does not match order currency', {
         orderCurrency: order.currency,
@@ -270,7 +273,7 @@ export class NativePaymentConfirmationService {
       });
     }
 
-    const verified = await verifyWithStripe(provider, order, input);
+    const verified = await verifyWithStripe(provider, order, amountDue, input);
     const paymentState = mapProviderStatus(verified.status);
     if (paymentState === 'failed') {
       throw new NativePaymentConfirmationError(402, 'PAYMENT_NOT_CONFIRMED', `Provider payment status is ${verified.status}`, {
@@ -325,7 +328,7 @@ export class NativePaymentConfirmationService {
             attemptNumber,
             paymentMethod: provider,
             paymentIntentId: verified.paymentIntentId,
-            amount: Number(order.totalAmount),
+            amount: amountDue,
             currency: order.currency,
             status: paymentState === 'paid' ? 'SUCCEEDED' : 'PENDING',
             idempotencyKey,
@@ -349,7 +352,7 @@ export class NativePaymentConfirmationService {
             paymentId: paymentRecord.id,
             orderId: order.id,
             eventType: paymentState === 'paid' ? 'SUCCEEDED' : 'CREATED',
-            amount: Number(order.totalAmount),
+            amount: amountDue,
             currency: order.currency,
             provider,
             providerEventId,
@@ -373,6 +376,8 @@ export class NativePaymentConfirmationService {
       });
 
       if (paymentState === 'paid' && order.paymentStatus !== PaymentStatus.PAID) {
+        await TenderService.captureForPaidOrder(tx, order.id);
+
         await emitOrderPaidEvent(tx, order.id, {
           paymentId: paymentRecord.id,
           paymentMethod: provider,
@@ -405,7 +410,7 @@ export class NativePaymentConfirmationService {
       paymentId: payment.id,
       providerPaymentIntentId: verified.paymentIntentId,
       providerStatus: verified.status,
-      amount: Number(order.totalAmount),
+      amount: amountDue,
       currency: order.currency,
       paidAt: paymentState === 'paid' ? new Date().toISOString() : undefined,
     };
@@ -1,4 +1,6 @@
+import type { OrderPaidPayload } from '@jiffoo/shared';
 import { OutboxService } from '@/infra/outbox';
+import { InventoryService } from '@/core/inventory/service';
 
 function parseJsonRecord(value: unknown): Record<string, unknown> {
   if (!value) return {};
@@ -56,7 +58,10 @@ export async function emitOrderPaidEvent(
     return null;
   }
 
-  const payload = {
+  // Paid orders keep their held stock for good
+  await InventoryService.consumeReservations(tx, order.id);
+
+  const payload: OrderPaidPayload = {
     event: 'order.paid',
     orderId: order.id,
     userId: order.userId,
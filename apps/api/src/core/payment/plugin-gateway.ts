@@ -1,4 +1,11 @@
 import { LoggerService } from '@/core/logger/unified-logger';
+import {
+  callPluginApi,
+  type PluginCallOptions,
+  type PluginCallResult,
+} from '@/core/admin/extension-installer/plugin-api-client';
+
+export type { PluginCallOptions, PluginCallResult };
 
 type CircuitState = 'closed' | 'open' | 'half-open';
 
@@ -101,66 +108,10 @@ function getCircuitBreaker(pluginSlug: string): CircuitBreaker {
   return breaker;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-type RetryOptions = {
-  retries: number;
-  minDelayMs: number;
-  maxDelayMs: number;
-  factor: number;
-  jitter: number;
-};
-
-const defaultRetryOptions: RetryOptions = {
-  retries: 2,
-  minDelayMs: 200,
-  maxDelayMs: 2000,
-  factor: 2,
-  jitter: 0.2,
-};
-
-function getBackoffDelay(attempt: number, options: RetryOptions): number {
-  const base = Math.min(options.minDelayMs * Math.pow(options.factor, attempt - 1), options.maxDelayMs);
-  const jitter = base * options.jitter * Math.random();
-  return Math.round(base + jitter);
-}
-
-function isRetryableStatus(status: number): boolean {
-  return status >= 500 || status === 429 || status === 408;
-}
-
-async function fetchWithTimeout(
-  url: string,
-  init: RequestInit,
-  timeoutMs: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    return await fetch(url, { ...init, signal: controller.signal });
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-export type PluginCallResult = {
-  ok: boolean;
-  status: number;
-  payload: Record<string, unknown>;
-  error?: string;
-};
-
-export type PluginCallOptions = {
-  pluginSlug: string;
-  path: string;
-  body?: Record<string, unknown>;
-  headers?: Record<string, string>;
-  timeoutMs?: number;
-  retryOptions?: Partial<RetryOptions>;
-};
-
+/**
+ * Call a payment plugin through the gateway behind a per-plugin circuit
+ * breaker, so a failing provider is not hammered during checkout.
+ */
 export async function callPaymentPlugin(options: PluginCallOptions): Promise<PluginCallResult> {
   const breaker = getCircuitBreaker(options.pluginSlug);
   if (!breaker.canRequest()) {
@@ -174,70 +125,5 @@ export async function callPaymentPlugin(options: PluginCallOptions): Promise<Plu
     };
   }
 
-  const gatewayBase = process.env.API_SERVICE_URL || 'http://127.0.0.1:3001';
-  const path = options.path.startsWith('/') ? options.path : `/${options.path}`;
-  const url = `${gatewayBase}/api/extensions/plugin/${options.pluginSlug}${path}`;
-
-  const retryOptions: RetryOptions = {
-    ...defaultRetryOptions,
-    ...(options.retryOptions || {}),
-  };
-
-  const timeoutMs = options.timeoutMs ?? 8000;
-  const headers = {
-    'content-type': 'application/json',
-    ...(options.headers || {}),
-  };
-
-  let lastError: unknown;
-
-  for (let attempt = 1; attempt <= retryOptions.retries + 1; attempt += 1) {
-    try {
-      const response = await fetchWithTimeout(
-        url,
-        {
-          method: 'POST',
-          headers,
-          body: options.body ? JSON.stringify(options.body) : undefined,
-        },
-        timeoutMs
-      );
-
-      const payload = (await response.json().catch(() => ({}))) as Record<string, unknown>;
-
-      if (response.ok) {
-        breaker.recordSuccess();
-        return { ok: true, status: response.status, payload };
-      }
-
-      if (isRetryableStatus(response.status)) {
-        breaker.recordFailure();
-        if (attempt <= retryOptions.retries) {
-          await sleep(getBackoffDelay(attempt, retryOptions));
-          continue;
-        }
-      } else {
-        breaker.recordSuccess();
-      }
-
-      return { ok: false, status: response.status, payload };
-    } catch (error) {
-      lastError = error;
-      breaker.recordFailure();
-      if (attempt <= retryOptions.retries) {
-        await sleep(getBackoffDelay(attempt, retryOptions));
-        continue;
-      }
-      break;
-    }
-  }
-
-  return {
-    ok: false,
-    status: 502,
-    payload: {
-      error: 'payment_plugin_unreachable',
-      message: lastError instanceof Error ? lastError.message : 'Payment plugin request failed',
-    },
-  };
+  return callPluginApi(options, breaker);
 }
@@ -3,6 +3,8 @@ import { ExternalOrderService } from '@/core/external-orders/service';
 import { OrderStatus, PaymentStatus } from '@/core/order/types';
 import { recordOrderStatusHistory } from '@/core/order/status-history';
 import { callPaymentPlugin } from '@/core/payment/plugin-gateway';
+import { InventoryService } from '@/core/inventory/service';
+import { TenderService } from '@/core/gift-cards/tenders';
 import { OrderPaymentStatus as PrismaOrderPaymentStatus, OrderStatus as PrismaOrderStatus, Prisma } from '@prisma/client';
 
 const isUniqueConstraintError = (error: unknown): error is Prisma.PrismaClientKnownRequestError =>
@@ -93,6 +95,9 @@ export async function syncPaymentFromPlugin(sessionId: string): Promise<boolean>
           },
         });
 
+        await InventoryService.consumeReservations(tx, payment.orderId);
+        await TenderService.captureForPaidOrder(tx, payment.orderId);
+
         const updatedOrder = await tx.order.update({
           where: { id: payment.orderId },
           data: {
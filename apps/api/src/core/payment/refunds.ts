@@ -0,0 +1,796 @@
+/**
+ * Payment Refunds
+ *
+ * Refunds are sent to the payment plugin that captured the order through the
+ * standard refund contract:
+ *
+ *   POST /api/payments/refund
+ *     { refundId, orderId, paymentId, sessionId, paymentIntentId, amount, currency, reason, idempotencyKey }
+ *     -> { refundId, status: 'pending' | 'succeeded' | 'failed', reason? }
+ *   POST /api/payments/verify-refund
+ *     { refundId } -> { refundId, status, reason? }
+ *
+ * `refundId` in the request is the core Refund ID; in responses it is the
+ * provider's refund ID. The Refund stays PENDING until the provider confirms
+ * it (payment webhook or reconciliation); only then is the ledger written,
+ * stock put back and the order moved to PARTIALLY_REFUNDED or REFUNDED.
+ * When the plugin times out or the gateway answers 502 the outcome is unknown,
+ * so the Refund stays PENDING and reconciliation sends it again under the
+ * same idempotency key, as the admin who requested it.
+ *
+ * Refunds can instead go to the customer's store credit (provider
+ * STORE_CREDIT). Those complete straight away, and are the only way back for
+ * the part of an order paid with gift cards or store credit.
+ */
+
+import { prisma } from '@/config/database';
+import { findAuthIdentityById } from '@/core/auth/user-compat';
+import { CacheService } from '@/core/cache/service';
+import { ExternalOrderService } from '@/core/external-orders/service';
+import { InventoryService } from '@/core/inventory/service';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { OrderStatus, PaymentStatus } from '@/core/order/types';
+import { recordOrderStatusHistory } from '@/core/order/status-history';
+import { callPaymentPlugin } from '@/core/payment/plugin-gateway';
+import { GiftCardService } from '@/core/gift-cards/service';
+import { isTenderMethod } from '@/core/gift-cards/tenders';
+import { StoreCreditService } from '@/core/gift-cards/store-credit';
+import { OutboxService } from '@/infra/outbox';
+import { JwtUtils } from '@/utils/jwt';
+import { OrderPaymentStatus as PrismaOrderPaymentStatus, OrderStatus as PrismaOrderStatus, Prisma, type Payment, type Refund, type RefundStatus } from '@prisma/client';
+
+const isUniqueConstraintError = (error: unknown): error is Prisma.PrismaClientKnownRequestError =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const REFUNDABLE_PAYMENT_STATUSES: string[] = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED];
+
+/** Refund.provider of refunds paid out as store credit */
+export const STORE_CREDIT_REFUND_PROVIDER = 'STORE_CREDIT';
+
+export type RefundItemInput = {
+  orderItemId: string;
+  quantity: number;
+  /** Defaults to the request-level restock choice */
+  restock?: boolean;
+};
+
+export type RequestRefundInput = {
+  idempotencyKey: string;
+  reason?: string;
+  /** Defaults to the value of the listed items, or the whole refundable balance */
+  amount?: number;
+  /** Order lines being returned; omit both items and amount for a full refund */
+  items?: RefundItemInput[];
+  /** Put refunded quantities back into stock (default true) */
+  restock?: boolean;
+  /** Pay the refund back to the payment provider (default) or as store credit */
+  refundTo?: 'original' | 'store_credit';
+  actorId?: string;
+  /** Admin's Authorization header, forwarded so the plugin sees an admin caller */
+  authorization?: string;
+};
+
+type RefundLine = {
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+  restock: boolean;
+};
+
+type CommittedRefund = {
+  amount: Prisma.Decimal | number;
+  paymentId: string;
+  provider: string | null;
+  items: { orderItemId: string; quantity: number }[];
+};
+
+type RefundSubmission =
+  | { outcome: 'accepted'; providerRefundId: string | null }
+  | { outcome: 'rejected'; reason: string; providerRefundId: string | null }
+  | { outcome: 'unknown'; reason: string };
+
+const COMMITTED_REFUND_STATUSES: { in: RefundStatus[] } = { in: ['PENDING', 'COMPLETED'] };
+
+/** Lifetime of the access token a reconciliation resubmit is sent with */
+const RESUBMIT_TOKEN_TTL_SECONDS = 300;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeStatus(value: unknown): string {
+  return String(value || '').trim().toLowerCase();
+}
+
+/**
+ * Value of `quantity` units of an order line, tax included
+ */
+function lineAmount(
+  order: { pricesIncludeTax: boolean },
+  item: { quantity: number; unitPrice: Prisma.Decimal | number; taxAmount: Prisma.Decimal | number },
+  quantity: number
+): number {
+  const unitPrice = Number(item.unitPrice);
+  const unitTax = order.pricesIncludeTax || item.quantity === 0 ? 0 : Number(item.taxAmount) / item.quantity;
+  return roundMoney((unitPrice + unitTax) * quantity);
+}
+
+/**
+ * Amount still refundable given the PENDING and COMPLETED refunds so far.
+ * Refunds to the original payment are also capped at what it captured.
+ */
+function getRefundableBalance(
+  paid: number,
+  payment: { id: string; amount: Prisma.Decimal | number },
+  refunds: CommittedRefund[],
+  toStoreCredit: boolean
+): { orderRefundable: number; refundable: number } {
+  const committed = refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const orderRefundable = roundMoney(paid - committed);
+  if (toStoreCredit) {
+    return { orderRefundable, refundable: orderRefundable };
+  }
+  const committedToPayment = refunds
+    .filter((refund) => refund.paymentId === payment.id && refund.provider !== STORE_CREDIT_REFUND_PROVIDER)
+    .reduce((sum, refund) => sum + Number(refund.amount), 0);
+  return {
+    orderRefundable,
+    refundable: Math.min(orderRefundable, roundMoney(Number(payment.amount) - committedToPayment)),
+  };
+}
+
+function getRefundedQuantities(refunds: CommittedRefund[]): Map<string, number> {
+  const refundedQuantities = new Map<string, number>();
+  for (const refund of refunds) {
+    for (const item of refund.items) {
+      refundedQuantities.set(item.orderItemId, (refundedQuantities.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+  }
+  return refundedQuantities;
+}
+
+function getPluginErrorMessage(payload: Record<string, unknown>, status: number): string {
+  const error = payload?.error;
+  if (error && typeof error === 'object' && typeof (error as Record<string, unknown>).message === 'string') {
+    return (error as Record<string, unknown>).message as string;
+  }
+  if (typeof payload?.message === 'string') {
+    return payload.message;
+  }
+  return `HTTP ${status}`;
+}
+
+/**
+ * Request a refund for a paid order.
+ *
+ * Idempotent on `idempotencyKey`: a repeated request returns the refund it
+ * created the first time. Refunds to the original payment are capped at what
+ * the provider captured; refunds to store credit can cover the whole order.
+ *
+ * @throws Error if the order is not found or not paid
+ * @throws Error if the amount or quantities exceed what is left to refund
+ * @throws Error if a guest order is refunded to store credit
+ * @throws Error if the payment provider rejects the refund
+ */
+export async function requestOrderRefund(orderId: string, input: RequestRefundInput): Promise<Refund> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      payments: {
+        where: { status: 'SUCCEEDED' },
+        orderBy: { createdAt: 'desc' },
+      },
+      items: true,
+      refunds: {
+        where: { status: COMMITTED_REFUND_STATUSES },
+        include: { items: true },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  const existingRefund = await prisma.refund.findUnique({
+    where: { idempotencyKey: input.idempotencyKey },
+  });
+  if (existingRefund) {
+    if (existingRefund.orderId !== orderId) {
+      throw new Error('Idempotency key already used by another refund');
+    }
+    return existingRefund;
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw new Error('Order is not paid, cannot refund');
+  }
+
+  const toStoreCredit = input.refundTo === 'store_credit';
+  if (toStoreCredit && !order.userId) {
+    throw new Error('Guest orders cannot be refunded to store credit');
+  }
+
+  // Gift card and store credit tenders can only be refunded as store credit
+  const providerPayment = order.payments.find((candidate) => !isTenderMethod(candidate.paymentMethod));
+  const payment = toStoreCredit ? providerPayment ?? order.payments[0] : providerPayment;
+  if (!payment) {
+    throw new Error(order.payments.length
+      ? 'Order was paid with gift cards or store credit only, refund it to store credit'
+      : 'No successful payment found for this order');
+  }
+
+  const paid = order.payments.reduce((sum, candidate) => sum + Number(candidate.amount), 0);
+  const { refundable } = getRefundableBalance(paid, payment, order.refunds, toStoreCredit);
+  if (refundable <= 0) {
+    throw new Error('Order has no refundable balance left');
+  }
+
+  const refundedQuantities = getRefundedQuantities(order.refunds);
+
+  const defaultRestock = input.restock ?? true;
+  let lines: RefundLine[];
+
+  if (input.items?.length) {
+    const seen = new Set<string>();
+    lines = input.items.map((line) => {
+      const item = order.items.find((candidate) => candidate.id === line.orderItemId);
+      if (!item) {
+        throw new Error(`Order item ${line.orderItemId} is not part of this order`);
+      }
+      if (seen.has(item.id)) {
+        throw new Error(`Order item ${item.id} is listed more than once`);
+      }
+      seen.add(item.id);
+
+      const remaining = item.quantity - (refundedQuantities.get(item.id) ?? 0);
+      if (line.quantity < 1 || line.quantity > remaining) {
+        throw new Error(`Refund quantity for order item ${item.id} must be between 1 and ${remaining}`);
+      }
+
+      return {
+        orderItemId: item.id,
+        quantity: line.quantity,
+        amount: lineAmount(order, item, line.quantity),
+        restock: line.restock ?? defaultRestock,
+      };
+    });
+  } else if (input.amount === undefined) {
+    // Full refund: every unit not refunded yet
+    lines = order.items
+      .map((item) => ({ item, remaining: item.quantity - (refundedQuantities.get(item.id) ?? 0) }))
+      .filter(({ remaining }) => remaining > 0)
+      .map(({ item, remaining }) => ({
+        orderItemId: item.id,
+        quantity: remaining,
+        amount: lineAmount(order, item, remaining),
+        restock: defaultRestock,
+      }));
+  } else {
+    lines = [];
+  }
+
+  let amount: number;
+  if (input.amount !== undefined) {
+    amount = roundMoney(input.amount);
+    if (amount <= 0) {
+      throw new Error('Refund amount must be greater than zero');
+    }
+    if (amount > refundable) {
+      throw new Error(`Refund amount ${amount} exceeds the refundable balance of ${refundable}`);
+    }
+  } else if (input.items?.length) {
+    amount = Math.min(roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)), refundable);
+  } else {
+    amount = refundable;
+  }
+
+  let refund: Refund;
+  try {
+    refund = await prisma.$transaction(async (tx) => {
+      // Concurrent refunds of the same order queue here, then see each other's rows
+      await tx.$queryRaw`SELECT id FROM "orders" WHERE id = ${orderId} FOR UPDATE`;
+
+      const committedRefunds = await tx.refund.findMany({
+        where: { orderId, status: COMMITTED_REFUND_STATUSES },
+        include: { items: true },
+      });
+      const current = getRefundableBalance(paid, payment, committedRefunds, toStoreCredit);
+      if (amount > current.refundable) {
+        throw new Error(`Refund amount ${amount} exceeds the refundable balance of ${Math.max(current.refundable, 0)}`);
+      }
+      const currentQuantities = getRefundedQuantities(committedRefunds);
+      for (const line of lines) {
+        const ordered = order.items.find((item) => item.id === line.orderItemId)?.quantity ?? 0;
+        const remaining = ordered - (currentQuantities.get(line.orderItemId) ?? 0);
+        if (line.quantity > remaining) {
+          throw new Error(`Refund quantity for order item ${line.orderItemId} must be between 1 and ${remaining}`);
+        }
+      }
+
+      const created = await tx.refund.create({
+        data: {
+          paymentId: payment.id,
+          orderId,
+          amount,
+          currency: payment.currency,
+          status: 'PENDING',
+          reason: input.reason,
+          provider: toStoreCredit ? STORE_CREDIT_REFUND_PROVIDER : payment.paymentMethod.toUpperCase(),
+          idempotencyKey: input.idempotencyKey,
+          metadata: input.actorId ? { requestedBy: input.actorId } : undefined,
+          items: lines.length ? { create: lines } : undefined,
+        },
+      });
+
+      await tx.refundLedger.create({
+        data: {
+          refundId: created.id,
+          paymentId: payment.id,
+          orderId,
+          eventType: 'CREATED',
+          amount,
+          currency: payment.currency,
+          provider: toStoreCredit ? 'store_credit' : payment.paymentMethod,
+          idempotencyKey: input.idempotencyKey,
+        },
+      });
+
+      return created;
+    });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      const raced = await prisma.refund.findUnique({ where: { idempotencyKey: input.idempotencyKey } });
+      if (raced) return raced;
+    }
+    throw error;
+  }
+
+  if (toStoreCredit) {
+    await completeRefund(refund.id);
+    LoggerService.logPayment('refund-to-store-credit', orderId, amount, { refundId: refund.id });
+    return prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  }
+
+  const submission = await submitRefund(refund, payment, input.authorization);
+
+  if (submission.outcome === 'rejected') {
+    await failRefund(refund.id, submission.reason, submission.providerRefundId);
+    throw new Error(`Payment provider rejected the refund: ${submission.reason}`);
+  }
+
+  if (submission.outcome === 'unknown') {
+    LoggerService.logPayment('refund-unconfirmed', orderId, amount, { refundId: refund.id, reason: submission.reason });
+    return refund;
+  }
+
+  LoggerService.logPayment('refund-requested', orderId, amount, {
+    refundId: refund.id,
+    providerRefundId: submission.providerRefundId,
+  });
+
+  return prisma.refund.update({
+    where: { id: refund.id },
+    data: { providerRefundId: submission.providerRefundId },
+  });
+}
+
+/**
+ * Whether a failed plugin call leaves the refund's fate open
+ *
+ * A timeout or 502 means the plugin never answered. A resubmit follows a
+ * submission the provider may already have taken, so there only a clear
+ * refusal from the provider counts: auth errors, rate limits, an open
+ * circuit breaker and any 5xx leave the refund PENDING for the next pass.
+ */
+function isUnconfirmedStatus(status: number, resubmit: boolean): boolean {
+  if (status === 502 || status === 504 || status === 408) {
+    return true;
+  }
+  return resubmit && (status >= 500 || status === 401 || status === 403 || status === 429);
+}
+
+/**
+ * Send a refund to its payment plugin
+ *
+ * An unconfirmed failure (see isUnconfirmedStatus) is `unknown`: the provider
+ * may have taken the refund, so it must not be marked FAILED.
+ */
+async function submitRefund(
+  refund: Refund,
+  payment: Payment,
+  authorization?: string,
+  resubmit = false
+): Promise<RefundSubmission> {
+  const pluginResult = await callPaymentPlugin({
+    pluginSlug: payment.paymentMethod,
+    path: '/api/payments/refund?installation=default',
+    body: {
+      refundId: refund.id,
+      orderId: refund.orderId,
+      paymentId: payment.id,
+      sessionId: payment.sessionId,
+      paymentIntentId: payment.paymentIntentId,
+      amount: Number(refund.amount),
+      currency: refund.currency,
+      reason: refund.reason ?? undefined,
+      idempotencyKey: refund.idempotencyKey,
+    },
+    headers: authorization ? { authorization } : undefined,
+  });
+
+  if (!pluginResult.ok) {
+    const reason = getPluginErrorMessage(pluginResult.payload, pluginResult.status);
+    if (isUnconfirmedStatus(pluginResult.status, resubmit)) {
+      return { outcome: 'unknown', reason };
+    }
+    return { outcome: 'rejected', reason, providerRefundId: null };
+  }
+
+  const rawData = pluginResult.payload?.data ?? pluginResult.payload;
+  const data = (typeof rawData === 'object' && rawData ? rawData : {}) as Record<string, unknown>;
+  const providerRefundId = typeof data.refundId === 'string' && data.refundId ? data.refundId : null;
+
+  if (['failed', 'canceled', 'cancelled'].includes(normalizeStatus(data.status))) {
+    const reason = typeof data.reason === 'string' && data.reason ? data.reason : 'refund_failed';
+    return { outcome: 'rejected', reason, providerRefundId };
+  }
+
+  return { outcome: 'accepted', providerRefundId };
+}
+
+/**
+ * Authorization header for a resubmit: a short-lived access token of the
+ * admin who requested the refund, so the plugin sees an admin caller as it
+ * did the first time. Undefined when that admin is gone or was demoted.
+ */
+async function getResubmitAuthorization(refund: Refund): Promise<string | undefined> {
+  const metadata = refund.metadata as { requestedBy?: unknown } | null;
+  const requestedBy = typeof metadata?.requestedBy === 'string' ? metadata.requestedBy : null;
+  if (!requestedBy) {
+    return undefined;
+  }
+
+  const admin = await findAuthIdentityById(requestedBy);
+  if (!admin || !admin.isActive || admin.role !== 'ADMIN') {
+    return undefined;
+  }
+
+  const token = JwtUtils.sign({ userId: admin.id, email: admin.email, role: admin.role }, RESUBMIT_TOKEN_TTL_SECONDS);
+  return `Bearer ${token}`;
+}
+
+/**
+ * Send a PENDING refund that never got a provider refund ID to its plugin
+ * again. The idempotency key is unchanged, so a provider that already took
+ * it returns the same refund.
+ *
+ * @returns true when the refund left PENDING
+ */
+async function resubmitRefund(refundId: string): Promise<boolean> {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: { payment: true },
+  });
+  if (!refund || refund.status !== 'PENDING' || refund.providerRefundId) {
+    return false;
+  }
+
+  if (refund.provider === STORE_CREDIT_REFUND_PROVIDER) {
+    return completeRefund(refund.id);
+  }
+
+  const authorization = await getResubmitAuthorization(refund);
+  const submission = await submitRefund(refund, refund.payment, authorization, true);
+
+  if (submission.outcome === 'rejected') {
+    return failRefund(refund.id, submission.reason, submission.providerRefundId);
+  }
+
+  if (submission.outcome === 'unknown' || !submission.providerRefundId) {
+    return false;
+  }
+
+  await prisma.refund.updateMany({
+    where: { id: refund.id, status: 'PENDING', providerRefundId: null },
+    data: { providerRefundId: submission.providerRefundId },
+  });
+  return syncRefundFromPlugin(submission.providerRefundId);
+}
+
+/**
+ * Ask the plugin for the provider status of a pending refund and apply it.
+ *
+ * Called from the payment webhook with the provider's refund ID, and from
+ * reconciliation for refunds whose webhook never arrived.
+ *
+ * @returns true when the refund left PENDING
+ */
+export async function syncRefundFromPlugin(providerRefundId: string): Promise<boolean> {
+  const refund = await prisma.refund.findUnique({
+    where: { providerRefundId },
+    include: { payment: { select: { paymentMethod: true } } },
+  });
+  if (!refund || refund.status !== 'PENDING' || !refund.payment?.paymentMethod) {
+    return false;
+  }
+
+  const verifyResult = await callPaymentPlugin({
+    pluginSlug: refund.payment.paymentMethod,
+    path: '/api/payments/verify-refund?installation=default',
+    body: { refundId: providerRefundId },
+    retryOptions: { retries: 1, minDelayMs: 200, maxDelayMs: 1500 },
+  });
+
+  if (!verifyResult.ok) {
+    return false;
+  }
+
+  const rawData = verifyResult.payload?.data ?? verifyResult.payload;
+  const data = (typeof rawData === 'object' && rawData ? rawData : {}) as Record<string, unknown>;
+  const status = normalizeStatus(data.status);
+
+  if (['succeeded', 'success', 'completed', 'refunded'].includes(status)) {
+    return completeRefund(refund.id);
+  }
+
+  if (['failed', 'canceled', 'cancelled'].includes(status)) {
+    const reason = typeof data.reason === 'string' && data.reason ? data.reason : 'refund_failed';
+    return failRefund(refund.id, reason);
+  }
+
+  return false;
+}
+
+/**
+ * Record a provider-confirmed refund: ledger entries, refund.completed,
+ * restock of the chosen lines, voiding of refunded gift cards and the
+ * order's payment status.
+ *
+ * @returns false when the refund was no longer PENDING
+ */
+export async function completeRefund(refundId: string): Promise<boolean> {
+  let completed = false;
+  let orderId: string | null = null;
+  let orderFullyRefunded = false;
+
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.refund.updateMany({
+      where: { id: refundId, status: 'PENDING' },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const refund = await tx.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: {
+        payment: true,
+        items: { include: { orderItem: { select: { variantId: true } } } },
+        order: { select: { status: true, paymentStatus: true, userId: true } },
+      },
+    });
+
+    const toStoreCredit = refund.provider === STORE_CREDIT_REFUND_PROVIDER;
+    const ledgerProvider = toStoreCredit ? 'store_credit' : refund.payment.paymentMethod;
+    if (toStoreCredit && refund.order.userId) {
+      await StoreCreditService.credit(tx, refund.order.userId, Number(refund.amount), {
+        type: 'REFUND',
+        currency: refund.currency,
+        orderId: refund.orderId,
+        refundId: refund.id,
+        note: refund.reason,
+      });
+    }
+
+    await tx.refundLedger.create({
+      data: {
+        refundId: refund.id,
+        paymentId: refund.paymentId,
+        orderId: refund.orderId,
+        eventType: 'SUCCEEDED',
+        amount: refund.amount,
+        currency: refund.currency,
+        provider: ledgerProvider,
+        providerRefundId: refund.providerRefundId,
+      },
+    });
+
+    await tx.paymentLedger.create({
+      data: {
+        paymentId: refund.paymentId,
+        orderId: refund.orderId,
+        eventType: 'REFUNDED',
+        amount: refund.amount,
+        currency: refund.currency,
+        provider: ledgerProvider,
+        providerEventId: `refund:${refund.id}`,
+        idempotencyKey: refund.idempotencyKey,
+      },
+    });
+
+    await OutboxService.emit(tx, 'refund.completed', refund.id, {
+      id: refund.id,
+      orderId: refund.orderId,
+      paymentId: refund.paymentId,
+      amount: Number(refund.amount),
+      currency: refund.currency,
+      provider: refund.provider,
+      reason: refund.reason,
+      ...(refund.items.length
+        ? {
+            items: refund.items.map((item) => ({
+              orderItemId: item.orderItemId,
+              quantity: item.quantity,
+              amount: Number(item.amount),
+              restock: item.restock,
+            })),
+          }
+        : {}),
+    });
+
+    const restock = refund.items
+      .filter((item) => item.restock)
+      .map((item) => ({ variantId: item.orderItem.variantId, quantity: item.quantity }));
+    if (restock.length) {
+      await InventoryService.restockItems(tx, refund.orderId, restock);
+    }
+
+    // Split-tender orders are refunded across payments, so compare order-wide
+    const [refunded, captured] = await Promise.all([
+      tx.refund.aggregate({
+        where: { orderId: refund.orderId, status: 'COMPLETED' },
+        _sum: { amount: true },
+      }),
+      tx.payment.aggregate({
+        where: { orderId: refund.orderId, status: 'SUCCEEDED' },
+        _sum: { amount: true },
+      }),
+    ]);
+    const fullyRefunded = Number(refunded._sum.amount ?? 0) >= Number(captured._sum.amount ?? refund.payment.amount);
+
+    // Gift cards bought with the order: all of them once it is fully
+    // refunded, otherwise one per refunded unit of a gift card line
+    await GiftCardService.voidForOrder(tx, refund.orderId, fullyRefunded ? undefined : refund.items);
+
+    const updated = await tx.order.update({
+      where: { id: refund.orderId },
+      data: fullyRefunded
+        ? { paymentStatus: PaymentStatus.REFUNDED, status: OrderStatus.REFUNDED }
+        : { paymentStatus: PaymentStatus.PARTIALLY_REFUNDED },
+    });
+
+    await recordOrderStatusHistory(tx, {
+      orderId: updated.id,
+      fromStatus: refund.order.status as PrismaOrderStatus,
+      toStatus: updated.status as PrismaOrderStatus,
+      fromPaymentStatus: refund.order.paymentStatus as PrismaOrderPaymentStatus,
+      toPaymentStatus: updated.paymentStatus as PrismaOrderPaymentStatus,
+      reason: refund.reason ?? (fullyRefunded ? 'order_refunded' : 'order_partially_refunded'),
+      actorType: 'system',
+      metadata: { refundId: refund.id, amount: Number(refund.amount) },
+    });
+
+    completed = true;
+    orderId = refund.orderId;
+    orderFullyRefunded = fullyRefunded;
+  });
+
+  if (completed) {
+    await CacheService.incrementOrderVersion();
+  }
+
+  // Supplier orders are only cancelled once the customer has their money back
+  if (orderId && orderFullyRefunded) {
+    try {
+      await ExternalOrderService.requestRefundForOrder(orderId);
+    } catch (error) {
+      LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'supplier refund after order refund',
+        orderId,
+        refundId,
+      });
+    }
+  }
+  return completed;
+}
+
+/**
+ * Mark a pending refund as failed. Nothing was restocked or booked for it,
+ * so the order is left as it is.
+ *
+ * @returns false when the refund was no longer PENDING
+ */
+export async function failRefund(refundId: string, reason: string, providerRefundId?: string | null): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.refund.updateMany({
+      where: { id: refundId, status: 'PENDING' },
+      data: {
+        status: 'FAILED',
+        failureReason: reason,
+        ...(providerRefundId ? { providerRefundId } : {}),
+      },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const refund = await tx.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: { payment: { select: { paymentMethod: true } } },
+    });
+
+    await tx.refundLedger.create({
+      data: {
+        refundId: refund.id,
+        paymentId: refund.paymentId,
+        orderId: refund.orderId,
+        eventType: 'FAILED',
+        amount: refund.amount,
+        currency: refund.currency,
+        provider: refund.payment.paymentMethod,
+        providerRefundId: refund.providerRefundId,
+        metadata: { reason },
+      },
+    });
+
+    return true;
+  });
+}
+
+export type RefundReconciliationOptions = {
+  limit?: number;
+  minAgeMinutes?: number;
+};
+
+export type RefundReconciliationResult = {
+  scanned: number;
+  updated: number;
+  failed: number;
+};
+
+/**
+ * Re-check pending refunds against their payment plugins
+ *
+ * Refunds with a provider refund ID are verified; those without one (the
+ * plugin never answered) are sent again.
+ */
+export async function reconcilePendingRefunds(
+  options: RefundReconciliationOptions = {}
+): Promise<RefundReconciliationResult> {
+  const limit = options.limit ?? 100;
+  const minAgeMinutes = options.minAgeMinutes ?? 2;
+
+  const refunds = await prisma.refund.findMany({
+    where: {
+      status: 'PENDING',
+      ...(minAgeMinutes > 0 ? { createdAt: { lte: new Date(Date.now() - minAgeMinutes * 60 * 1000) } } : {}),
+    },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+    select: { id: true, providerRefundId: true },
+  });
+
+  let updated = 0;
+  let failed = 0;
+
+  for (const refund of refunds) {
+    try {
+      const settled = refund.providerRefundId
+        ? await syncRefundFromPlugin(refund.providerRefundId)
+        : await resubmitRefund(refund.id);
+      if (settled) {
+        updated += 1;
+      }
+    } catch {
+      failed += 1;
+    }
+  }
+
+  return {
+    scanned: refunds.length,
+    updated,
+    failed,
+  };
+}
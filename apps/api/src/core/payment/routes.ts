@@ -8,7 +8,7 @@
  */
 
 import { createHash } from 'crypto';
-import { FastifyInstance, FastifyReply } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { authMiddleware } from '@/core/auth/middleware';
 import { prisma } from '@/config/database';
 import { PluginManagementService } from '@/core/admin/plugin-management/service';
@@ -18,8 +18,11 @@ import { paymentSchemas } from './schemas';
 import { CacheService } from '@/core/cache/service';
 import { LoggerService } from '@/core/logger/unified-logger';
 import { PaymentStatus } from '@/core/order/types';
+import { ORDER_TOKEN_HEADER, guestAccessTokenMatches } from '@/core/order/guest-access';
 import { syncPaymentFromPlugin } from '@/core/payment/reconciliation';
 import { callPaymentPlugin } from '@/core/payment/plugin-gateway';
+import { syncRefundFromPlugin } from '@/core/payment/refunds';
+import { TenderService } from '@/core/gift-cards/tenders';
 import { Prisma } from '@prisma/client';
 
 function setHttpCache(reply: FastifyReply, data: unknown, maxAge: number, swr: number) {
@@ -29,6 +32,24 @@ function setHttpCache(reply: FastifyReply, data: unknown, maxAge: number, swr: n
   return etag;
 }
 
+function readOrderToken(request: FastifyRequest): string | undefined {
+  const header = request.headers[ORDER_TOKEN_HEADER];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Signed-in users authenticate as usual; guests pay for their order with the
+ * order lookup token (X-Order-Token), checked against the order in the handler.
+ */
+async function paymentAuthMiddleware(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.headers.authorization && readOrderToken(request)) {
+    return;
+  }
+  return authMiddleware(request, reply);
+}
+
+const REFUND_WEBHOOK_EVENTS = new Set(['refund.updated', 'refund.failed', 'charge.refund.updated']);
+
 function isUniqueConstraintError(error: unknown): error is Prisma.PrismaClientKnownRequestError {
   return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
 }
@@ -217,11 +238,11 @@ export async function paymentRoutes(fastify: FastifyInstance) {
 
   // Create payment session
   fastify.post('/create-session', {
-    onRequest: [authMiddleware],
+    onRequest: [paymentAuthMiddleware],
     schema: {
       tags: ['payments'],
       summary: 'Create payment session',
-      description: 'Create a payment session for an order, returns redirect URL',
+      description: 'Create a payment session for an order, returns redirect URL. Guests authenticate with the order lookup token in X-Order-Token',
       security: [{ bearerAuth: [] }],
       ...paymentSchemas.createSession,
     }
@@ -264,11 +285,12 @@ export async function paymentRoutes(fastify: FastifyInstance) {
         );
       }
 
-      // Verify order exists and belongs to user
+      // Verify order exists and belongs to the user (or is the guest order the token unlocks)
+      const guestToken = request.user ? undefined : readOrderToken(request);
       const order = await prisma.order.findFirst({
         where: {
           id: orderId,
-          userId: request.user!.id
+          userId: request.user?.id ?? null
         },
         include: {
           items: {
@@ -279,11 +301,11 @@ export async function paymentRoutes(fastify: FastifyInstance) {
         }
       });
 
-      if (!order) {
+      if (!order || (guestToken !== undefined && !guestAccessTokenMatches(guestToken, order.guestAccessTokenHash))) {
         return sendError(reply, 404, 'NOT_FOUND', 'Order not found');
       }
 
-      if (order.paymentStatus === PaymentStatus.PAID) {
+      if (order.paymentStatus === PaymentStatus.PAID || order.paymentStatus === PaymentStatus.PARTIALLY_REFUNDED) {
         return sendError(reply, 409, 'ORDER_ALREADY_PAID', 'Order is already paid.');
       }
 
@@ -307,19 +329,26 @@ export async function paymentRoutes(fastify: FastifyInstance) {
           expiresAt: existingPayment.expiresAt?.toISOString() || new Date(Date.now() + 30 * 60 * 1000).toISOString(),
         });
       }
-      const currency = await systemSettingsService.getShopCurrency();
+      // Gift cards and store credit applied to the order are not charged again
+      const amountDue = await TenderService.getAmountDue(order.id, order.totalAmount);
+      if (amountDue <= 0) {
+        return sendError(reply, 409, 'ORDER_COVERED_BY_TENDERS', 'Order is covered by gift cards or store credit.');
+      }
+
+      // Charge in the currency the order was priced in
+      const currency = order.currency || await systemSettingsService.getShopCurrency();
       const pluginResult = await callPaymentPlugin({
         pluginSlug,
         path: '/api/payments/create-session?installation=default',
         body: {
           orderId: order.id,
-          amount: Number(order.totalAmount),
+          amount: amountDue,
           currency,
           successUrl,
           cancelUrl,
           idempotencyKey,
           metadata: {
-            userId: request.user!.id,
+            ...(request.user ? { userId: request.user.id } : { guestOrder: 'true' }),
             idempotencyKey,
           },
         },
@@ -349,11 +378,17 @@ export async function paymentRoutes(fastify: FastifyInstance) {
 
       try {
         await prisma.$transaction(async (tx) => {
+          // Tenders applied while the session was being created change what is due
+          await TenderService.lockOrder(tx, order.id);
+          if (await TenderService.getAmountDue(order.id, order.totalAmount, tx) !== amountDue) {
+            throw new Error('Gift cards or store credit on this order changed, please try again');
+          }
+
           const payment = await tx.payment.create({
             data: {
               orderId: order.id,
               paymentMethod: pluginSlug,
-              amount: Number(order.totalAmount),
+              amount: amountDue,
               currency,
               status: 'PENDING',
               sessionId: session.sessionId as string,
@@ -370,7 +405,7 @@ export async function paymentRoutes(fastify: FastifyInstance) {
               paymentId: payment.id,
               orderId: order.id,
               eventType: 'CREATED',
-              amount: Number(order.totalAmount),
+              amount: amountDue,
               currency,
               provider: pluginSlug,
               idempotencyKey,
@@ -480,6 +515,10 @@ export async function paymentRoutes(fastify: FastifyInstance) {
       if (eventType === 'checkout.session.completed' && objectId) {
         await syncPaymentFromPlugin(objectId);
       }
+      // Refund outcomes: the plugin is asked for the refund's status rather than trusting the body
+      if (REFUND_WEBHOOK_EVENTS.has(eventType) && objectId) {
+        await syncRefundFromPlugin(objectId);
+      }
     }
 
     return sendSuccess(reply, { received: true });
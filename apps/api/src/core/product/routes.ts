@@ -10,17 +10,42 @@ import { sendSuccess, sendError } from '@/utils/response';
 import { productSchemas } from './schemas';
 import { CacheService } from '@/core/cache/service';
 import { storeContextMiddleware } from '@/middleware/store-context';
+import { optionalAuthMiddleware } from '@/core/auth/middleware';
+import { CustomerGroupService } from '@/core/customer-groups/service';
 
-function setHttpCache(reply: FastifyReply, data: any, maxAge: number, swr: number) {
+/**
+ * Responses for shoppers in customer groups may contain group-only products
+ * and group prices, so shared caches must not store them.
+ */
+function setHttpCache(reply: FastifyReply, data: any, maxAge: number, swr: number, customerGroupIds: string[] = []) {
   const etag = `"${createHash('md5').update(JSON.stringify(data)).digest('hex')}"`;
-  reply.header('Cache-Control', `public, max-age=${maxAge}, stale-while-revalidate=${swr}`);
+  const scope = customerGroupIds.length > 0 ? 'private' : 'public';
+  reply.header('Cache-Control', `${scope}, max-age=${maxAge}, stale-while-revalidate=${swr}`);
   reply.header('ETag', etag);
   return etag;
 }
 
+/**
+ * Group repeated `attribute=name:value` query parameters by attribute name.
+ */
+function parseAttributeFilters(values: string[] | undefined): Record<string, string[]> | undefined {
+  if (!values || values.length === 0) return undefined;
+  const attributes: Record<string, string[]> = {};
+  for (const entry of values) {
+    const separator = entry.indexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const value = entry.slice(separator + 1).trim();
+    if (!name || !value) continue;
+    (attributes[name] ??= []).push(value);
+  }
+  return attributes;
+}
+
 export async function productRoutes(fastify: FastifyInstance) {
   // Apply store context middleware to all product routes
   fastify.addHook('onRequest', storeContextMiddleware);
+  // Signed-in shoppers see the products and prices of their customer groups
+  fastify.addHook('onRequest', optionalAuthMiddleware);
 
   // Get products list
   fastify.get('/', {
@@ -36,14 +61,17 @@ export async function productRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const { page, limit, locale, ...filters } = request.query as any;
+      const { page, limit, locale, currency, ...filters } = request.query as any;
+      const customerGroupIds = await CustomerGroupService.getUserGroupIds(request.user?.id);
       const result = await ProductService.getPublicProducts(
         page || 1,
         limit || 10,
         filters,
-        locale || DEFAULT_LOCALE
+        locale || DEFAULT_LOCALE,
+        currency,
+        customerGroupIds
       );
-      const etag = setHttpCache(reply, result, 30, 60);
+      const etag = setHttpCache(reply, result, 30, 60, customerGroupIds);
       if (request.headers['if-none-match'] === etag) {
         return reply.code(304).send();
       }
@@ -67,8 +95,8 @@ export async function productRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const { page, limit } = request.query as { page?: number; limit?: number };
-      const categories = await ProductService.getCategories(page, limit);
+      const { page, limit, locale } = request.query as { page?: number; limit?: number; locale?: string };
+      const categories = await ProductService.getCategories(page, limit, locale);
       const etag = setHttpCache(reply, categories, 60, 120);
       if (request.headers['if-none-match'] === etag) {
         return reply.code(304).send();
@@ -84,7 +112,7 @@ export async function productRoutes(fastify: FastifyInstance) {
     schema: {
       tags: ['products'],
       summary: 'Search products',
-      description: 'Search products by keyword query',
+      description: 'Full-text product search with typo tolerance, facets and did-you-mean suggestions',
       ...productSchemas.searchProducts,
       response: {
         304: { type: 'null' },
@@ -93,14 +121,18 @@ export async function productRoutes(fastify: FastifyInstance) {
     }
   }, async (request, reply) => {
     try {
-      const { q, page, limit, locale } = request.query as any;
+      const { q, page, limit, locale, currency, category, minPrice, maxPrice, inStock, attribute, sort } = request.query as any;
+      const customerGroupIds = await CustomerGroupService.getUserGroupIds(request.user?.id);
       const products = await ProductService.searchProducts(
         q,
         page || 1,
         limit || 10,
-        locale || DEFAULT_LOCALE
+        locale || DEFAULT_LOCALE,
+        currency,
+        { category, minPrice, maxPrice, inStock, attributes: parseAttributeFilters(attribute), sort },
+        customerGroupIds
       );
-      const etag = setHttpCache(reply, products, 20, 40);
+      const etag = setHttpCache(reply, products, 20, 40, customerGroupIds);
       if (request.headers['if-none-match'] === etag) {
         return reply.code(304).send();
       }
@@ -125,12 +157,13 @@ export async function productRoutes(fastify: FastifyInstance) {
   }, async (request, reply) => {
     try {
       const { id } = request.params as any;
-      const { locale } = request.query as any;
-      const product = await ProductService.getProductById(id, locale || DEFAULT_LOCALE);
+      const { locale, currency } = request.query as any;
+      const customerGroupIds = await CustomerGroupService.getUserGroupIds(request.user?.id);
+      const product = await ProductService.getProductById(id, locale || DEFAULT_LOCALE, currency, customerGroupIds);
       if (!product) {
         return sendError(reply, 404, 'NOT_FOUND', 'Product not found');
       }
-      const etag = setHttpCache(reply, product, 60, 120);
+      const etag = setHttpCache(reply, product, 60, 120, customerGroupIds);
       if (request.headers['if-none-match'] === etag) {
         return reply.code(304).send();
       }
@@ -9,6 +9,8 @@ import {
   createTypedReadResponses,
   createPageResultSchema,
 } from '@/types/common-dto';
+import { PRODUCT_SEARCH_SORTS } from '@/core/search/types';
+import { productGalleryItemSchema } from '@/core/media/schemas';
 
 // ============================================================================
 // Product List Item Schema (for paginated lists)
@@ -24,6 +26,8 @@ const productVariantSchema = {
     baseStock: { type: 'number' },
     isActive: { type: 'boolean' },
     attributes: { type: 'object', additionalProperties: true },
+    rating: { type: 'number', description: 'Average approved review rating of this variant, 0 without reviews' },
+    reviewCount: { type: 'integer', description: 'Number of approved reviews of this variant' },
   },
   required: ['id', 'name', 'salePrice', 'baseStock', 'isActive'],
 } as const;
@@ -36,12 +40,15 @@ const productListItemSchema = {
     description: { type: 'string', nullable: true, description: 'Product description' },
     typeData: { type: 'object', additionalProperties: true, description: 'Type-specific product data' },
     price: { type: 'number', description: 'Product price' },
+    currency: { type: 'string', description: 'Currency of prices (present when a currency was requested)' },
     images: {
       type: 'array',
       items: { type: 'string' },
       description: 'Product image URLs',
     },
     stock: { type: 'number', description: 'Available stock quantity' },
+    rating: { type: 'number', description: 'Average approved review rating (1-5), 0 without reviews' },
+    reviewCount: { type: 'integer', description: 'Number of approved reviews' },
     createdAt: { type: 'string', format: 'date-time', description: 'Creation timestamp' },
     updatedAt: { type: 'string', format: 'date-time', description: 'Last update timestamp' },
   },
@@ -60,12 +67,20 @@ const productDetailSchema = {
     description: { type: 'string', nullable: true, description: 'Product description' },
     typeData: { type: 'object', additionalProperties: true, description: 'Type-specific product data' },
     price: { type: 'number', description: 'Product price' },
+    currency: { type: 'string', description: 'Currency of prices (present when a currency was requested)' },
     images: {
       type: 'array',
       items: { type: 'string' },
       description: 'Product image URLs',
     },
+    media: {
+      type: 'array',
+      items: productGalleryItemSchema,
+      description: 'Gallery images in display order, with variant-specific images and responsive sizes',
+    },
     stock: { type: 'number', description: 'Available stock quantity' },
+    rating: { type: 'number', description: 'Average approved review rating (1-5), 0 without reviews' },
+    reviewCount: { type: 'integer', description: 'Number of approved reviews' },
     requiresShipping: { type: 'boolean', description: 'Whether the product requires shipping (SPU-level)' },
     variants: {
       type: 'array',
@@ -88,6 +103,8 @@ const categorySchema = {
     id: { type: 'string', description: 'Category ID' },
     name: { type: 'string', description: 'Category name' },
     slug: { type: 'string', description: 'URL-friendly category slug' },
+    parentId: { type: 'string', nullable: true, description: 'Parent category ID' },
+    level: { type: 'integer', description: 'Depth in the category tree, roots are level 1' },
     productCount: { type: 'number', description: 'Number of products in this category' },
   },
   required: ['id', 'name', 'slug'],
@@ -103,12 +120,85 @@ const productSearchItemSchema = {
     typeData: { type: 'object', additionalProperties: true, description: 'Type-specific product data' },
     images: { type: 'array', items: { type: 'string' }, description: 'Product image URLs' },
     price: { type: 'number', description: 'Product price' },
+    currency: { type: 'string', description: 'Currency of prices (present when a currency was requested)' },
     stock: { type: 'number', description: 'Available stock quantity' },
+    rating: { type: 'number', description: 'Average approved review rating (1-5), 0 without reviews' },
+    reviewCount: { type: 'integer', description: 'Number of approved reviews' },
     variants: { type: 'array', items: productVariantSchema, description: 'Active variants' },
   },
   required: ['id', 'name', 'typeData', 'price', 'stock', 'images', 'variants'],
 } as const;
 
+const productSearchFacetsSchema = {
+  type: 'object',
+  properties: {
+    categories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          slug: { type: 'string' },
+          count: { type: 'number' },
+        },
+        required: ['id', 'name', 'slug', 'count'],
+      },
+    },
+    price: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        min: { type: 'number' },
+        max: { type: 'number' },
+      },
+      required: ['min', 'max'],
+    },
+    attributes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          values: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                value: { type: 'string' },
+                count: { type: 'number' },
+              },
+              required: ['value', 'count'],
+            },
+          },
+        },
+        required: ['name', 'values'],
+      },
+    },
+    availability: {
+      type: 'object',
+      properties: {
+        inStock: { type: 'number' },
+        outOfStock: { type: 'number' },
+      },
+      required: ['inStock', 'outOfStock'],
+    },
+  },
+  required: ['categories', 'price', 'attributes', 'availability'],
+} as const;
+
+const productSearchPageSchema = createPageResultSchema(productSearchItemSchema);
+
+const productSearchResultSchema = {
+  ...productSearchPageSchema,
+  properties: {
+    ...productSearchPageSchema.properties,
+    facets: productSearchFacetsSchema,
+    suggestion: { type: 'string', nullable: true, description: 'Did-you-mean query when nothing matched exactly' },
+  },
+  required: [...productSearchPageSchema.required, 'facets', 'suggestion'],
+} as const;
+
 // ============================================================================
 // Endpoint Schemas
 // ============================================================================
@@ -123,12 +213,13 @@ export const productSchemas = {
         limit: { type: 'integer', default: 10, minimum: 1, maximum: 100, description: 'Items per page' },
         search: { type: 'string', description: 'Search term for product name/description' },
         category: { type: 'string', description: 'Filter by category ID' },
-        minPrice: { type: 'number', description: 'Minimum price filter' },
-        maxPrice: { type: 'number', description: 'Maximum price filter' },
+        minPrice: { type: 'number', description: 'Minimum price filter (shop base currency)' },
+        maxPrice: { type: 'number', description: 'Maximum price filter (shop base currency)' },
         inStock: { type: 'boolean', description: 'Filter for in-stock products only' },
         sortBy: { type: 'string', enum: ['price', 'name', 'createdAt', 'stock'], description: 'Sort field' },
         sortOrder: { type: 'string', enum: ['asc', 'desc'], description: 'Sort order' },
         locale: { type: 'string', default: 'en', description: 'Language locale for translated content' },
+        currency: { type: 'string', minLength: 3, maxLength: 3, description: 'Currency for prices (ISO 4217; falls back to the shop currency when not enabled)' },
       },
     },
     response: createTypedCrudResponses(createPageResultSchema(productListItemSchema)),
@@ -147,6 +238,7 @@ export const productSchemas = {
       type: 'object',
       properties: {
         locale: { type: 'string', default: 'en', description: 'Language locale for translated content' },
+        currency: { type: 'string', minLength: 3, maxLength: 3, description: 'Currency for prices (ISO 4217; falls back to the shop currency when not enabled)' },
       },
     },
     response: createTypedReadResponses(productDetailSchema),
@@ -159,6 +251,7 @@ export const productSchemas = {
       properties: {
         page: { type: 'integer', default: 1, minimum: 1, description: 'Page number' },
         limit: { type: 'integer', default: 20, minimum: 1, maximum: 100, description: 'Items per page' },
+        locale: { type: 'string', default: 'en', description: 'Language locale for translated content' },
       },
     },
     response: createTypedReadResponses(createPageResultSchema(categorySchema)),
@@ -174,8 +267,19 @@ export const productSchemas = {
         page: { type: 'integer', default: 1, minimum: 1, description: 'Page number' },
         limit: { type: 'integer', default: 10, minimum: 1, maximum: 100, description: 'Items per page' },
         locale: { type: 'string', default: 'en', description: 'Language locale for translated content' },
+        currency: { type: 'string', minLength: 3, maxLength: 3, description: 'Currency for prices (ISO 4217; falls back to the shop currency when not enabled)' },
+        category: { type: 'string', description: 'Filter by category ID (includes subcategories)' },
+        minPrice: { type: 'number', description: 'Minimum price filter (shop base currency)' },
+        maxPrice: { type: 'number', description: 'Maximum price filter (shop base currency)' },
+        inStock: { type: 'boolean', description: 'Filter for in-stock products only' },
+        attribute: {
+          type: 'array',
+          items: { type: 'string', pattern: '^[^:]+:.+$' },
+          description: 'Variant attribute filter as "name:value"; repeat for several values',
+        },
+        sort: { type: 'string', enum: [...PRODUCT_SEARCH_SORTS], default: 'relevance', description: 'Sort order' },
       },
     },
-    response: createTypedCrudResponses(createPageResultSchema(productSearchItemSchema)),
+    response: createTypedCrudResponses(productSearchResultSchema),
   },
 } as const;
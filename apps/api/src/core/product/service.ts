@@ -9,6 +9,11 @@ import { prisma } from '@/config/database';
 import { Locale, DEFAULT_LOCALE } from '@/utils/i18n';
 import { CacheService } from '@/core/cache/service';
 import { InventoryService } from '@/core/inventory/service';
+import { CurrencyService } from '@/core/currency/service';
+import { ProductSearchService } from '@/core/search/service';
+import { ProductMediaService } from '@/core/media/service';
+import { CustomerGroupService } from '@/core/customer-groups/service';
+import type { ProductSearchFilters as SearchIndexFilters, ProductSearchSort } from '@/core/search/types';
 
 interface ProductSearchFilters {
   search?: string;
@@ -20,6 +25,10 @@ interface ProductSearchFilters {
   sortOrder?: 'asc' | 'desc';
 }
 
+interface ProductSearchOptions extends SearchIndexFilters {
+  sort?: ProductSearchSort;
+}
+
 function parseImageList(typeData: unknown): string[] {
   const parsedTypeData = parseTypeData(typeData);
   const images = parsedTypeData.images;
@@ -105,6 +114,48 @@ function applyTranslation(
  * Single merchant version without multi-tenancy logic.
  */
 export class ProductService {
+  private static currencyService = new CurrencyService();
+
+  /**
+   * Resolve display prices for a requested storefront currency.
+   * Without a requested currency prices stay in the base currency and no `currency` field is added.
+   * Group prices of the shopper's customer groups replace the sale price; fixed
+   * prices set for the requested currency still take precedence.
+   */
+  private static async resolveDisplayPricing(
+    variants: Array<{ id: string; salePrice: unknown }>,
+    currency?: string,
+    customerGroupIds: string[] = []
+  ): Promise<{ currency?: string; priceOf: (variant: { id: string; salePrice: unknown }) => number }> {
+    const groupPrices = await CustomerGroupService.getGroupPrices(
+      customerGroupIds,
+      variants.map((variant) => variant.id)
+    );
+    const basePriceOf = (variant: { id: string; salePrice: unknown }) =>
+      groupPrices.get(variant.id) ?? Number(variant.salePrice);
+
+    if (!currency) {
+      return { priceOf: basePriceOf };
+    }
+
+    const prices = await this.currencyService.resolveVariantPrices(
+      variants.map((variant) => ({ ...variant, salePrice: basePriceOf(variant) })),
+      currency
+    );
+    return {
+      currency,
+      priceOf: (variant) => prices.get(variant.id) ?? basePriceOf(variant),
+    };
+  }
+
+  /**
+   * Cache key suffix for shoppers in customer groups, who may see other
+   * products and prices than everyone else
+   */
+  private static customerGroupCacheKey(customerGroupIds: string[]): string {
+    return customerGroupIds.length > 0 ? `:g:${customerGroupIds.join(',')}` : '';
+  }
+
   private static async loadOdooProductLinks(productIds: string[]) {
     if (productIds.length === 0) return new Map<string, { sourceIsActive: boolean | null }>();
 
@@ -183,13 +234,19 @@ export class ProductService {
    * @param limit Number of items per page
    * @param filters Search and filter criteria (search, category, price range, stock, sorting)
    * @param locale Target locale for product translations (defaults to DEFAULT_LOCALE)
+   * @param currency Storefront currency for prices (price filters always use the base currency)
+   * @param customerGroupIds Customer groups of the shopper (group-restricted products and group prices)
    */
   static async getPublicProducts(
     page = 1,
     limit = 10,
     filters: ProductSearchFilters = {},
-    locale: Locale = DEFAULT_LOCALE
+    locale: Locale = DEFAULT_LOCALE,
+    currency?: string,
+    customerGroupIds: string[] = []
   ) {
+    const displayCurrency = currency ? await this.currencyService.resolveCurrency(currency) : undefined;
+
     // Read-through cache: check Redis first
     const version = await CacheService.getProductVersion();
     // Sort filter keys for stable cache key regardless of parameter order
@@ -201,7 +258,7 @@ export class ProductService {
     }
     const filterKey = JSON.stringify(sortedFilter);
     const filterHash = Buffer.from(filterKey).toString('base64').slice(0, 64);
-    const cacheKey = `pub:products:list:v${version}:${locale}:${page}:${limit}:${filterHash}`;
+    const cacheKey = `pub:products:list:v${version}:${locale}:${displayCurrency ?? 'base'}:${page}:${limit}:${filterHash}${this.customerGroupCacheKey(customerGroupIds)}`;
     const cached = await CacheService.get<Record<string, unknown>>(cacheKey);
     if (cached) return cached;
 
@@ -210,13 +267,21 @@ export class ProductService {
     // Build where clause
     const where: Prisma.ProductWhereInput = {
       isActive: true,
+      ...CustomerGroupService.visibleProductWhere(customerGroupIds),
     };
 
     if (filters.search) {
-      where.OR = [
-        { name: { contains: filters.search, mode: 'insensitive' } },
-        { description: { contains: filters.search, mode: 'insensitive' } }
-      ];
+      const matchedIds = await ProductSearchService.matchProductIds(filters.search, locale, customerGroupIds);
+      if (matchedIds.length === 0) {
+        return {
+          items: [],
+          page,
+          limit,
+          total: 0,
+          totalPages: 0,
+        };
+      }
+      where.id = { in: matchedIds };
     }
 
     if (filters.category) {
@@ -279,6 +344,8 @@ export class ProductService {
           name: true,
           description: true,
           typeData: true,
+          ratingAverage: true,
+          reviewCount: true,
           createdAt: true,
           updatedAt: true,
           variants: {
@@ -315,11 +382,17 @@ export class ProductService {
       filteredProducts.flatMap((product) => product.variants.map((variant) => variant.id))
     );
 
-    const formattedProducts = (filteredProducts as any[]).map(product => {
+    const pricing = await this.resolveDisplayPricing(
+      filteredProducts.flatMap((product: any) => product.variants),
+      displayCurrency,
+      customerGroupIds
+    );
+
+    const formattedProducts = (filteredProducts as any[]).map(({ ratingAverage, ...product }) => {
       const translated = applyTranslation(product as any, translations, locale);
 
       const displayPrice = product.variants.length > 0
-        ? Math.min(...product.variants.map(v => Number(v.salePrice)))
+        ? Math.min(...product.variants.map(v => pricing.priceOf(v)))
         : 0;
       const totalStock = product.variants.reduce((sum, v) => sum + (stockMap.get(v.id) ?? 0), 0);
 
@@ -331,6 +404,8 @@ export class ProductService {
         images: parseImageList(product.typeData),
         price: displayPrice,
         stock: totalStock,
+        rating: ratingAverage,
+        ...(pricing.currency ? { currency: pricing.currency } : {}),
       };
     });
 
@@ -352,24 +427,37 @@ export class ProductService {
    *
    * Retrieves a product with all active variants and applies locale-specific translations.
    * Calculates display price from default variant and aggregates total stock.
-   * Parses typeData to extract product images.
+   * `rating`/`reviewCount` are the approved review aggregates of the product
+   * and of each variant.
+   * Loads the media gallery (alt text in the requested locale, variant-specific
+   * images, responsive sizes); products without media rows fall back to the
+   * image URLs in typeData.
    * Returns consumer-facing DTO without internal Prisma fields.
    *
    * @param productId Unique identifier of the product
    * @param locale Target locale for product translations (defaults to DEFAULT_LOCALE)
+   * @param currency Storefront currency for prices (defaults to the base currency)
+   * @param customerGroupIds Customer groups of the shopper (group-restricted products and group prices)
    */
   static async getProductById(
     productId: string,
-    locale: Locale = DEFAULT_LOCALE
+    locale: Locale = DEFAULT_LOCALE,
+    currency?: string,
+    customerGroupIds: string[] = []
   ) {
+    const displayCurrency = currency ? await this.currencyService.resolveCurrency(currency) : undefined;
+
     // Read-through cache
     const version = await CacheService.getProductVersion();
-    const cacheKey = `pub:products:detail:v${version}:${productId}:${locale}`;
+    const groupKey = this.customerGroupCacheKey(customerGroupIds);
+    const cacheKey = displayCurrency
+      ? `pub:products:detail:v${version}:${productId}:${locale}:${displayCurrency}${groupKey}`
+      : `pub:products:detail:v${version}:${productId}:${locale}${groupKey}`;
     const cached = await CacheService.get<Record<string, unknown>>(cacheKey);
     if (cached) return cached;
 
     const product = await prisma.product.findFirst({
-      where: { id: productId, isActive: true },
+      where: { id: productId, isActive: true, ...CustomerGroupService.visibleProductWhere(customerGroupIds) },
       include: {
         variants: {
           where: { isActive: true }
@@ -396,17 +484,18 @@ export class ProductService {
       });
     }
 
+    const pricing = await this.resolveDisplayPricing(filteredProduct.variants, displayCurrency, customerGroupIds);
     const displayPrice = filteredProduct.variants.length > 0
-      ? Math.min(...filteredProduct.variants.map(v => Number(v.salePrice)))
+      ? Math.min(...filteredProduct.variants.map(v => pricing.priceOf(v)))
       : 0;
     const stockMap = await this.getVariantStockMap(
       filteredProduct.variants.map((variant) => variant.id)
     );
     const totalStock = filteredProduct.variants.reduce((sum, v) => sum + (stockMap.get(v.id) ?? 0), 0);
 
-    // Parse typeData for images
-    let images: string[] = [];
-    images = parseImageList(product.typeData);
+    const galleries = await ProductMediaService.getGalleries([productId], locale);
+    const media = galleries.get(productId) ?? [];
+    const images = media.length > 0 ? media.map((item) => item.url) : parseImageList(product.typeData);
 
     // Return consumer-facing DTO (no Prisma fields, no typeData)
     const dto = {
@@ -415,17 +504,23 @@ export class ProductService {
       description: translation?.description || filteredProduct.description,
       typeData: parseTypeData(filteredProduct.typeData),
       images,
+      media,
       price: displayPrice,
+      ...(pricing.currency ? { currency: pricing.currency } : {}),
       stock: totalStock,
+      rating: filteredProduct.ratingAverage,
+      reviewCount: filteredProduct.reviewCount,
       requiresShipping: filteredProduct.requiresShipping,
       variants: filteredProduct.variants.map(v => ({
         id: v.id,
         name: v.name,
         skuCode: v.skuCode,
-        salePrice: Number(v.salePrice),
+        salePrice: pricing.priceOf(v),
         baseStock: stockMap.get(v.id) ?? 0,
         isActive: v.isActive,
-        attributes: parseAttributes(v.attributes)
+        attributes: parseAttributes(v.attributes),
+        rating: v.ratingAverage,
+        reviewCount: v.reviewCount
       }))
     };
 
@@ -439,11 +534,11 @@ export class ProductService {
    * Retrieves all product categories sorted by sortOrder.
    * Includes product count for each category.
    */
-  static async getCategories(page = 1, limit = 20) {
+  static async getCategories(page = 1, limit = 20, locale: string = DEFAULT_LOCALE) {
     const safePage = Math.max(1, Number(page) || 1);
     const safeLimit = Math.min(100, Math.max(1, Number(limit) || 20));
     const version = await CacheService.getProductVersion();
-    const cacheKey = `pub:products:categories:v${version}:${safePage}:${safeLimit}`;
+    const cacheKey = `pub:products:categories:v${version}:${locale}:${safePage}:${safeLimit}`;
     const cached = await CacheService.get<Record<string, unknown>>(cacheKey);
     if (cached) return cached;
 
@@ -453,11 +548,16 @@ export class ProductService {
       prisma.category.findMany({
         skip,
         take: safeLimit,
-        orderBy: { sortOrder: 'asc' },
+        orderBy: [{ level: 'asc' }, { sortOrder: 'asc' }],
         select: {
           id: true,
           name: true,
           slug: true,
+          parentId: true,
+          level: true,
+          translations: locale !== DEFAULT_LOCALE
+            ? { where: { locale }, select: { name: true } }
+            : false,
           _count: {
             select: { products: true }
           }
@@ -469,8 +569,10 @@ export class ProductService {
     const result = {
       items: categories.map((c) => ({
         id: c.id,
-        name: c.name,
+        name: c.translations?.[0]?.name ?? c.name,
         slug: c.slug,
+        parentId: c.parentId,
+        level: c.level,
         productCount: c._count.products,
       })),
       page: safePage,
@@ -484,57 +586,64 @@ export class ProductService {
   }
 
   /**
-   * Search products by query with localization
+   * Search products by query with facets and localization
    *
-   * Performs case-insensitive search across product names and descriptions.
-   * Applies internationalization by fetching and applying translations for the requested locale.
-   * Calculates display price from default variant and aggregates total stock.
-   * Parses typeData to extract product images.
+   * Ranks matches with Postgres full-text search over names, SKUs and descriptions
+   * (including translations for the requested locale) plus trigram fuzzy matching.
+   * Returns facets over the whole match set and a "did you mean" suggestion when
+   * no product matched the query words exactly.
    * Returns consumer-facing DTOs without internal Prisma fields.
    *
-   * @param query Search query string (searches name and description)
+   * @param query Search query string
+   * @param page Page number for pagination (1-indexed)
    * @param limit Maximum number of results to return
    * @param locale Target locale for product translations (defaults to DEFAULT_LOCALE)
+   * @param currency Storefront currency for prices (defaults to the base currency)
+   * @param options Category, price, stock and attribute filters plus sort order
+   * @param customerGroupIds Customer groups of the shopper (group-restricted products and group prices)
    */
   static async searchProducts(
     query: string,
     page = 1,
     limit = 10,
-    locale: Locale = DEFAULT_LOCALE
+    locale: Locale = DEFAULT_LOCALE,
+    currency?: string,
+    options: ProductSearchOptions = {},
+    customerGroupIds: string[] = []
   ) {
     const safePage = Math.max(1, Number(page) || 1);
     const safeLimit = Math.min(100, Math.max(1, Number(limit) || 10));
+    const displayCurrency = currency ? await this.currencyService.resolveCurrency(currency) : undefined;
 
     // Read-through cache
     const version = await CacheService.getProductVersion();
-    const qHash = Buffer.from(query || '').toString('base64').slice(0, 64);
-    const searchCacheKey = `pub:products:search:v${version}:${locale}:${safePage}:${safeLimit}:${qHash}`;
+    const qHash = Buffer.from(JSON.stringify([query || '', options])).toString('base64').slice(0, 128);
+    const searchCacheKey = `pub:products:search:v${version}:${locale}:${displayCurrency ?? 'base'}:${safePage}:${safeLimit}:${qHash}${this.customerGroupCacheKey(customerGroupIds)}`;
     const cached = await CacheService.get<Record<string, unknown>>(searchCacheKey);
     if (cached) return cached;
 
-    const skip = (safePage - 1) * safeLimit;
-
-    const where = {
-      isActive: true,
-      OR: [
-        { name: { contains: query, mode: 'insensitive' as const } },
-        { description: { contains: query, mode: 'insensitive' as const } }
-      ]
-    };
+    const matches = await ProductSearchService.search({
+      ...options,
+      customerGroupIds,
+      q: query || '',
+      locale,
+      page: safePage,
+      limit: safeLimit,
+    });
 
-    const [products, total] = await Promise.all([
-      prisma.product.findMany({
-        where,
-        skip,
-        take: safeLimit,
+    const unordered = matches.productIds.length > 0
+      ? await prisma.product.findMany({
+        where: { id: { in: matches.productIds } },
         include: {
           variants: {
             where: { isActive: true }
           }
         }
-      }),
-      prisma.product.count({ where })
-    ]);
+      })
+      : [];
+    const position = new Map(matches.productIds.map((id, index) => [id, index]));
+    const products = [...unordered].sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+    const total = matches.total;
 
     // Get translations if needed
     let translations: Array<{ productId: string; locale: string; name: string; description: string | null }> = [];
@@ -554,10 +663,16 @@ export class ProductService {
       filteredProducts.flatMap((product) => product.variants.map((variant) => variant.id))
     );
 
+    const pricing = await this.resolveDisplayPricing(
+      filteredProducts.flatMap((product: any) => product.variants),
+      displayCurrency,
+      customerGroupIds
+    );
+
     const items = (filteredProducts as any[]).map(product => {
       const translation = translations.find(t => t.productId === product.id);
       const displayPrice = product.variants.length > 0
-        ? Math.min(...product.variants.map(v => Number(v.salePrice)))
+        ? Math.min(...product.variants.map(v => pricing.priceOf(v)))
         : 0;
       const totalStock = product.variants.reduce((sum, v) => sum + (stockMap.get(v.id) ?? 0), 0);
 
@@ -572,12 +687,15 @@ export class ProductService {
         typeData: parseTypeData(product.typeData),
         images,
         price: displayPrice,
+        ...(pricing.currency ? { currency: pricing.currency } : {}),
         stock: totalStock,
+        rating: product.ratingAverage,
+        reviewCount: product.reviewCount,
         variants: product.variants.map(v => ({
           id: v.id,
           name: v.name,
           skuCode: v.skuCode,
-          salePrice: Number(v.salePrice),
+          salePrice: pricing.priceOf(v),
           baseStock: stockMap.get(v.id) ?? 0,
           isActive: v.isActive,
           attributes: parseAttributes(v.attributes)
@@ -591,6 +709,8 @@ export class ProductService {
       limit: safeLimit,
       total,
       totalPages: Math.ceil(total / safeLimit),
+      facets: matches.facets,
+      suggestion: matches.suggestion,
     };
 
     await CacheService.set(searchCacheKey, searchResult, { ttl: 20 });
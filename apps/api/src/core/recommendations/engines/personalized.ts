@@ -26,6 +26,7 @@ interface UserProfile {
   viewedProducts: string[];
   clickedProducts: string[];
   addedToCartProducts: string[];
+  wishlistedProducts: string[];
   categoryPreferences: Map<string, number>; // category -> score
   priceRange: { min: number; max: number };
   recentInterests: string[]; // Recent product IDs (last 30 days)
@@ -129,6 +130,7 @@ export class PersonalizedRecommendationEngine {
       viewedProducts: [],
       clickedProducts: [],
       addedToCartProducts: [],
+      wishlistedProducts: [],
       categoryPreferences: new Map(),
       priceRange: { min: 0, max: Infinity },
       recentInterests: [],
@@ -210,6 +212,9 @@ export class PersonalizedRecommendationEngine {
         case InteractionActionEnum.ADD_TO_CART:
           profile.addedToCartProducts.push(interaction.productId);
           break;
+        case InteractionActionEnum.ADD_TO_WISHLIST:
+          profile.wishlistedProducts.push(interaction.productId);
+          break;
         case InteractionActionEnum.PURCHASE:
           profile.purchasedProducts.push(interaction.productId);
           break;
@@ -222,6 +227,7 @@ export class PersonalizedRecommendationEngine {
     const allProductIds = [
       ...profile.purchasedProducts,
       ...profile.addedToCartProducts,
+      ...profile.wishlistedProducts,
       ...profile.clickedProducts,
     ];
 
@@ -243,10 +249,11 @@ export class PersonalizedRecommendationEngine {
           const typeData = parseJsonRecord(product.typeData);
           const category = typeData?.category;
           if (typeof category === 'string') {
-            // Weight: purchased > added to cart > clicked > viewed
+            // Weight: purchased > added to cart > wishlisted > clicked > viewed
             let weight = 1.0;
             if (profile.purchasedProducts.includes(product.id)) weight = 4.0;
             else if (profile.addedToCartProducts.includes(product.id)) weight = 3.0;
+            else if (profile.wishlistedProducts.includes(product.id)) weight = 2.5;
             else if (profile.clickedProducts.includes(product.id)) weight = 2.0;
 
             const currentScore = categoryScores.get(category) || 0;
@@ -417,6 +424,14 @@ export class PersonalizedRecommendationEngine {
       score *= 1.15;
     }
 
+    // Boost wishlisted products the user has not bought yet
+    if (
+      userProfile.wishlistedProducts.includes(product.id) &&
+      !userProfile.purchasedProducts.includes(product.id)
+    ) {
+      score *= 1.1;
+    }
+
     // Cap score at 1.0
     return Math.min(score, 1.0);
   }
@@ -429,7 +444,10 @@ export class PersonalizedRecommendationEngine {
     userProfile: UserProfile
   ): string {
     // Check if related to a specific interest
-    if (userProfile.addedToCartProducts.includes(product.id)) {
+    if (
+      userProfile.addedToCartProducts.includes(product.id) ||
+      userProfile.wishlistedProducts.includes(product.id)
+    ) {
       return 'You showed interest in this';
     }
 
@@ -145,7 +145,7 @@ export async function recommendationRoutes(fastify: FastifyInstance) {
           },
           action: {
             type: 'string',
-            enum: ['view', 'click', 'add-to-cart', 'purchase']
+            enum: ['view', 'click', 'add-to-cart', 'add-to-wishlist', 'purchase']
           },
           sourceProductId: { type: 'string' },
           sourceContext: { type: 'string' },
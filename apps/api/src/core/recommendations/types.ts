@@ -13,6 +13,7 @@ export const InteractionActionEnum = {
   VIEW: 'view',
   CLICK: 'click',
   ADD_TO_CART: 'add-to-cart',
+  ADD_TO_WISHLIST: 'add-to-wishlist',
   PURCHASE: 'purchase',
 } as const;
 
@@ -49,6 +50,7 @@ export const TrackInteractionSchema = z.object({
     InteractionActionEnum.VIEW,
     InteractionActionEnum.CLICK,
     InteractionActionEnum.ADD_TO_CART,
+    InteractionActionEnum.ADD_TO_WISHLIST,
     InteractionActionEnum.PURCHASE,
   ]),
   sourceProductId: z.string().optional(),
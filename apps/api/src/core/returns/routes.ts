@@ -0,0 +1,177 @@
+/**
+ * Admin Return Routes
+ *
+ * Approve, reject, receive and refund customer return requests. Customers
+ * create returns through the order routes.
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { ReturnService } from './service';
+import { returnSchemas } from './schemas';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapReturnRouteError } from '@/utils/route-error-mapper';
+
+function sendReturnError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapReturnRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+export async function adminReturnRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin return routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // List return requests
+  fastify.get('/', {
+    schema: {
+      tags: ['admin-returns'],
+      summary: 'List return requests',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.listReturns,
+    }
+  }, async (request, reply) => {
+    try {
+      const { page, limit, status, orderId } = request.query as any;
+      const result = await ReturnService.listReturns({ page, limit, status, orderId });
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      return sendReturnError(reply, error, 'Failed to list return requests');
+    }
+  });
+
+  // Get return request
+  fastify.get('/:id', {
+    schema: {
+      tags: ['admin-returns'],
+      summary: 'Get return request',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.getReturn,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const ret = await ReturnService.getReturn(id);
+      return sendSuccess(reply, ret);
+    } catch (error: unknown) {
+      return sendReturnError(reply, error, 'Failed to get return request');
+    }
+  });
+
+  // Approve return request
+  fastify.post('/:id/approve', {
+    schema: {
+      tags: ['admin-returns'],
+      summary: 'Approve return request',
+      description: 'Approve a REQUESTED return, optionally recording the return shipping label',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.approveReturn,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { label } = (request.body ?? {}) as any;
+      const ret = await ReturnService.approveReturn(id, label, { actorId: request.user?.id });
+      return sendSuccess(reply, ret);
+    } catch (error: unknown) {
+      return sendReturnError(reply, error, 'Failed to approve return request');
+    }
+  });
+
+  // Reject return request
+  fastify.post('/:id/reject', {
+    schema: {
+      tags: ['admin-returns'],
+      summary: 'Reject return request',
+      description: 'Reject a REQUESTED or APPROVED return; its quantities can be returned again',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.rejectReturn,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { reason } = request.body as any;
+      const ret = await ReturnService.rejectReturn(id, reason, { actorId: request.user?.id });
+      return sendSuccess(reply, ret);
+    } catch (error: unknown) {
+      return sendReturnError(reply, error, 'Failed to reject return request');
+    }
+  });
+
+  // Record return shipping label
+  fastify.put('/:id/label', {
+    schema: {
+      tags: ['admin-returns'],
+      summary: 'Record return shipping label',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.recordLabel,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const data = request.body as any;
+      // Explicitly pick only allowed fields
+      const ret = await ReturnService.recordLabel(id, {
+        carrier: data.carrier,
+        trackingNumber: data.trackingNumber,
+        labelUrl: data.labelUrl,
+      });
+      return sendSuccess(reply, ret);
+    } catch (error: unknown) {
+      return sendReturnError(reply, error, 'Failed to record return label');
+    }
+  });
+
+  // Receive and inspect return
+  fastify.post('/:id/receive', {
+    schema: {
+      tags: ['admin-returns'],
+      summary: 'Receive return',
+      description: 'Record the inspection result of every returned line. RESELLABLE items are restocked into warehouseId and the refund for the returned lines is sent to the payment provider.',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.receiveReturn,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const data = request.body as any;
+      const ret = await ReturnService.receiveReturn(id, {
+        warehouseId: data.warehouseId,
+        inspectionNote: data.inspectionNote,
+        items: data.items,
+      }, {
+        actorId: request.user?.id,
+        authorization: request.headers.authorization,
+      });
+      return sendSuccess(reply, ret);
+    } catch (error: unknown) {
+      return sendReturnError(reply, error, 'Failed to receive return');
+    }
+  });
+
+  // Retry the refund of a received return
+  fastify.post('/:id/refund', {
+    schema: {
+      tags: ['admin-returns'],
+      summary: 'Refund received return',
+      description: 'Request the refund again after the provider rejected the one made on receipt',
+      security: [{ bearerAuth: [] }],
+      ...returnSchemas.refundReturn,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const ret = await ReturnService.refundReturn(id, {
+        actorId: request.user?.id,
+        authorization: request.headers.authorization,
+      });
+      return sendSuccess(reply, ret);
+    } catch (error: unknown) {
+      return sendReturnError(reply, error, 'Failed to refund return');
+    }
+  });
+}
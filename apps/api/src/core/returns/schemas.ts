@@ -0,0 +1,232 @@
+/**
+ * Return (RMA) OpenAPI Schemas
+ *
+ * `returnResponseSchema` is also embedded in the shop and admin order detail
+ * responses.
+ */
+
+import {
+  createTypedCreateResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+  createPageResultSchema,
+} from '@/types/common-dto';
+import { MAX_RETURN_PHOTOS, RETURN_INSPECTION_RESULTS, RETURN_REASONS, ReturnStatus } from './types';
+
+const returnStatusEnum = Object.values(ReturnStatus);
+
+const returnItemResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Return item ID' },
+    orderItemId: { type: 'string', description: 'Returned order item ID' },
+    productName: { type: 'string', nullable: true, description: 'Product name' },
+    variantName: { type: 'string', nullable: true, description: 'Variant name' },
+    quantity: { type: 'integer', description: 'Quantity returned' },
+    reason: { type: 'string', nullable: true, description: 'Line-level reason from the customer' },
+    inspectionResult: {
+      type: 'string',
+      enum: [...RETURN_INSPECTION_RESULTS],
+      nullable: true,
+      description: 'Inspection outcome, set on receipt',
+    },
+  },
+  required: ['id', 'orderItemId', 'quantity'],
+} as const;
+
+export const returnResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Return request ID' },
+    orderId: { type: 'string', description: 'Order ID' },
+    status: { type: 'string', enum: returnStatusEnum, description: 'Return status' },
+    reason: { type: 'string', description: 'Return reason code' },
+    customerNote: { type: 'string', nullable: true, description: 'Note from the customer' },
+    photos: { type: 'array', items: { type: 'string' }, description: 'Photo URLs' },
+    items: { type: 'array', items: returnItemResponseSchema, description: 'Returned lines' },
+    rejectionReason: { type: 'string', nullable: true, description: 'Why the return was rejected' },
+    carrier: { type: 'string', nullable: true, description: 'Return shipping carrier' },
+    trackingNumber: { type: 'string', nullable: true, description: 'Return shipping tracking number' },
+    labelUrl: { type: 'string', nullable: true, description: 'Return shipping label URL' },
+    warehouseId: { type: 'string', nullable: true, description: 'Warehouse resellable items were restocked into' },
+    inspectionNote: { type: 'string', nullable: true, description: 'Inspection note from staff' },
+    refund: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        amount: { type: 'number' },
+        currency: { type: 'string' },
+        status: { type: 'string' },
+      },
+      description: 'Refund requested on receipt',
+    },
+    approvedAt: { type: 'string', format: 'date-time', nullable: true },
+    rejectedAt: { type: 'string', format: 'date-time', nullable: true },
+    receivedAt: { type: 'string', format: 'date-time', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+  required: ['id', 'orderId', 'status', 'reason', 'items', 'createdAt', 'updatedAt'],
+} as const;
+
+const orderIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Order ID' },
+  },
+} as const;
+
+const returnIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Return request ID' },
+  },
+} as const;
+
+const labelProperties = {
+  carrier: { type: 'string', minLength: 1, description: 'Return shipping carrier' },
+  trackingNumber: { type: 'string', minLength: 1, description: 'Return shipping tracking number' },
+  labelUrl: { type: 'string', description: 'Return shipping label URL' },
+} as const;
+
+export const returnSchemas = {
+  // GET /api/orders/:id/returns
+  listOrderReturns: {
+    params: orderIdParams,
+    response: createTypedReadResponses({ type: 'array', items: returnResponseSchema }),
+  },
+
+  // POST /api/orders/:id/returns
+  createReturn: {
+    params: orderIdParams,
+    body: {
+      type: 'object',
+      required: ['reason', 'items'],
+      properties: {
+        reason: { type: 'string', enum: [...RETURN_REASONS], description: 'Return reason code' },
+        customerNote: { type: 'string', maxLength: 2000, description: 'Optional note for the shop' },
+        photos: {
+          type: 'array',
+          maxItems: MAX_RETURN_PHOTOS,
+          items: { type: 'string', minLength: 1 },
+          description: 'URLs from POST /api/orders/:id/returns/photos',
+        },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['orderItemId', 'quantity'],
+            properties: {
+              orderItemId: { type: 'string', description: 'Order item to return' },
+              quantity: { type: 'integer', minimum: 1, description: 'Quantity to return' },
+              reason: { type: 'string', maxLength: 500, description: 'Optional line-level reason' },
+            },
+          },
+        },
+      },
+    },
+    response: createTypedCreateResponses(returnResponseSchema),
+  },
+
+  // POST /api/orders/:id/returns/photos
+  uploadReturnPhoto: {
+    params: orderIdParams,
+  },
+
+  // GET /api/admin/returns
+  listReturns: {
+    querystring: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer', default: 1, minimum: 1, description: 'Page number' },
+        limit: { type: 'integer', default: 20, minimum: 1, maximum: 100, description: 'Items per page' },
+        status: { type: 'string', enum: returnStatusEnum, description: 'Filter by return status' },
+        orderId: { type: 'string', description: 'Filter by order' },
+      },
+    },
+    response: createTypedReadResponses(createPageResultSchema(returnResponseSchema)),
+  },
+
+  // GET /api/admin/returns/:id
+  getReturn: {
+    params: returnIdParams,
+    response: createTypedReadResponses(returnResponseSchema),
+  },
+
+  // POST /api/admin/returns/:id/approve
+  approveReturn: {
+    params: returnIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        label: {
+          type: 'object',
+          required: ['carrier', 'trackingNumber'],
+          properties: labelProperties,
+          description: 'Return shipping label, if one was already created',
+        },
+      },
+    },
+    response: createTypedUpdateResponses(returnResponseSchema),
+  },
+
+  // POST /api/admin/returns/:id/reject
+  rejectReturn: {
+    params: returnIdParams,
+    body: {
+      type: 'object',
+      required: ['reason'],
+      properties: {
+        reason: { type: 'string', minLength: 1, maxLength: 2000, description: 'Shown to the customer' },
+      },
+    },
+    response: createTypedUpdateResponses(returnResponseSchema),
+  },
+
+  // PUT /api/admin/returns/:id/label
+  recordLabel: {
+    params: returnIdParams,
+    body: {
+      type: 'object',
+      required: ['carrier', 'trackingNumber'],
+      properties: labelProperties,
+    },
+    response: createTypedUpdateResponses(returnResponseSchema),
+  },
+
+  // POST /api/admin/returns/:id/receive
+  receiveReturn: {
+    params: returnIdParams,
+    body: {
+      type: 'object',
+      required: ['items'],
+      properties: {
+        warehouseId: { type: 'string', description: 'Warehouse to restock resellable items into' },
+        inspectionNote: { type: 'string', maxLength: 2000 },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['orderItemId', 'inspectionResult'],
+            properties: {
+              orderItemId: { type: 'string' },
+              inspectionResult: { type: 'string', enum: [...RETURN_INSPECTION_RESULTS] },
+            },
+          },
+        },
+      },
+    },
+    response: createTypedUpdateResponses(returnResponseSchema),
+  },
+
+  // POST /api/admin/returns/:id/refund
+  refundReturn: {
+    params: returnIdParams,
+    response: createTypedUpdateResponses(returnResponseSchema),
+  },
+} as const;
@@ -0,0 +1,487 @@
+/**
+ * Return (RMA) Service
+ *
+ * Customers request returns for order lines of shipped or delivered orders:
+ *
+ *   REQUESTED -> APPROVED (optional return label) -> RECEIVED
+ *   REQUESTED | APPROVED -> REJECTED
+ *
+ * On receipt every line gets an inspection result. RESELLABLE units go back
+ * into the chosen warehouse as a `return` inventory adjustment, and a refund
+ * for the returned lines is requested through the payment plugin. That refund
+ * follows the normal refund lifecycle (PENDING until the provider confirms).
+ */
+
+import { MultipartFile } from '@fastify/multipart';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { InventoryService } from '@/core/inventory/service';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { OrderStatus, PaymentStatus } from '@/core/order/types';
+import { requestOrderRefund } from '@/core/payment/refunds';
+import { UploadService, UploadResult } from '@/core/upload/service';
+import { OutboxService } from '@/infra/outbox';
+import type { ReturnStatusPayload } from '@jiffoo/shared';
+import {
+  CreateReturnInput,
+  OPEN_RETURN_STATUSES,
+  ReceiveReturnInput,
+  ReturnActor,
+  ReturnInspectionResult,
+  ReturnLabelInput,
+  ReturnListFilters,
+  ReturnResponse,
+  ReturnStatus,
+  ReturnStatusValue,
+} from './types';
+
+const RETURNABLE_ORDER_STATUSES: string[] = [OrderStatus.SHIPPED, OrderStatus.DELIVERED, OrderStatus.COMPLETED];
+const RETURNABLE_PAYMENT_STATUSES: string[] = [PaymentStatus.PAID, PaymentStatus.PARTIALLY_REFUNDED];
+
+export const returnRequestInclude = {
+  items: {
+    include: {
+      orderItem: {
+        select: {
+          variantId: true,
+          product: { select: { name: true } },
+          variant: { select: { name: true } },
+        },
+      },
+    },
+  },
+  refund: {
+    select: { id: true, amount: true, currency: true, status: true },
+  },
+} satisfies Prisma.ReturnRequestInclude;
+
+type ReturnRequestWithDetails = Prisma.ReturnRequestGetPayload<{ include: typeof returnRequestInclude }>;
+
+function toIso(value: Date | null | undefined): string | null {
+  return value ? value.toISOString() : null;
+}
+
+function parsePhotos(value: Prisma.JsonValue | null | undefined): string[] {
+  return Array.isArray(value) ? value.filter((url): url is string => typeof url === 'string') : [];
+}
+
+export function formatReturnResponse(ret: ReturnRequestWithDetails): ReturnResponse {
+  return {
+    id: ret.id,
+    orderId: ret.orderId,
+    status: ret.status as ReturnStatusValue,
+    reason: ret.reason,
+    customerNote: ret.customerNote,
+    photos: parsePhotos(ret.photos),
+    items: ret.items.map((item) => ({
+      id: item.id,
+      orderItemId: item.orderItemId,
+      productName: item.orderItem?.product?.name ?? null,
+      variantName: item.orderItem?.variant?.name ?? null,
+      quantity: item.quantity,
+      reason: item.reason,
+      inspectionResult: item.inspectionResult as ReturnInspectionResult | null,
+    })),
+    rejectionReason: ret.rejectionReason,
+    carrier: ret.carrier,
+    trackingNumber: ret.trackingNumber,
+    labelUrl: ret.labelUrl,
+    warehouseId: ret.warehouseId,
+    inspectionNote: ret.inspectionNote,
+    refund: ret.refund
+      ? {
+        id: ret.refund.id,
+        amount: Number(ret.refund.amount),
+        currency: ret.refund.currency,
+        status: ret.refund.status,
+      }
+      : null,
+    approvedAt: toIso(ret.approvedAt),
+    rejectedAt: toIso(ret.rejectedAt),
+    receivedAt: toIso(ret.receivedAt),
+    createdAt: ret.createdAt.toISOString(),
+    updatedAt: ret.updatedAt.toISOString(),
+  };
+}
+
+function toEventPayload(ret: ReturnRequestWithDetails): ReturnStatusPayload {
+  return {
+    id: ret.id,
+    orderId: ret.orderId,
+    status: ret.status,
+    reason: ret.reason,
+    items: ret.items.map((item) => ({
+      orderItemId: item.orderItemId,
+      quantity: item.quantity,
+      inspectionResult: item.inspectionResult,
+    })),
+    carrier: ret.carrier,
+    trackingNumber: ret.trackingNumber,
+    rejectionReason: ret.rejectionReason,
+    warehouseId: ret.warehouseId,
+    refundId: ret.refundId,
+  };
+}
+
+export class ReturnService {
+  /**
+   * Units of each order line that can still be returned: the ordered quantity
+   * less open or received returns and refunds made outside a return
+   */
+  private static async getReturnableQuantities(
+    orderId: string,
+    items: Array<{ id: string; quantity: number }>
+  ): Promise<Map<string, number>> {
+    const [returns, refunds] = await Promise.all([
+      prisma.returnRequest.findMany({
+        where: { orderId, status: { in: [...OPEN_RETURN_STATUSES, ReturnStatus.RECEIVED] } },
+        select: { items: { select: { orderItemId: true, quantity: true } } },
+      }),
+      prisma.refund.findMany({
+        where: { orderId, status: { in: ['PENDING', 'COMPLETED'] }, returnRequest: { is: null } },
+        select: { items: { select: { orderItemId: true, quantity: true } } },
+      }),
+    ]);
+
+    const remaining = new Map(items.map((item) => [item.id, item.quantity]));
+    for (const line of [...returns, ...refunds].flatMap((entry) => entry.items)) {
+      remaining.set(line.orderItemId, (remaining.get(line.orderItemId) ?? 0) - line.quantity);
+    }
+    return remaining;
+  }
+
+  /**
+   * Upload a photo for a return on one of the customer's orders
+   */
+  static async uploadPhoto(orderId: string, userId: string, file: MultipartFile): Promise<UploadResult> {
+    const order = await prisma.order.findFirst({ where: { id: orderId, userId }, select: { id: true } });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return UploadService.uploadReturnPhoto(file);
+  }
+
+  /**
+   * Customer return request for lines of one of their orders
+   *
+   * @throws Error if the order is not found, not shipped or not paid
+   * @throws Error if a line is unknown, repeated or has fewer returnable units left
+   */
+  static async createReturn(orderId: string, userId: string, input: CreateReturnInput): Promise<ReturnResponse> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, userId },
+      include: { items: { select: { id: true, quantity: true } } },
+    });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new Error('Only shipped or delivered orders can be returned');
+    }
+    if (!RETURNABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+      throw new Error('Only paid orders can be returned');
+    }
+
+    const photos = input.photos ?? [];
+    if (photos.some((url) => !url.includes('/uploads/returns/'))) {
+      throw new Error('Return photos must be uploaded through the return photo endpoint');
+    }
+
+    const returnable = await this.getReturnableQuantities(orderId, order.items);
+    const seen = new Set<string>();
+    for (const line of input.items) {
+      if (!returnable.has(line.orderItemId)) {
+        throw new Error(`Order item ${line.orderItemId} is not part of this order`);
+      }
+      if (seen.has(line.orderItemId)) {
+        throw new Error(`Order item ${line.orderItemId} is listed more than once`);
+      }
+      seen.add(line.orderItemId);
+
+      const left = Math.max(0, returnable.get(line.orderItemId) ?? 0);
+      if (line.quantity < 1 || line.quantity > left) {
+        throw new Error(`Return quantity for order item ${line.orderItemId} must be between 1 and ${left}`);
+      }
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const ret = await tx.returnRequest.create({
+        data: {
+          orderId,
+          reason: input.reason,
+          customerNote: input.customerNote,
+          photos: photos.length ? photos : undefined,
+          items: {
+            create: input.items.map((line) => ({
+              orderItemId: line.orderItemId,
+              quantity: line.quantity,
+              reason: line.reason,
+            })),
+          },
+        },
+        include: returnRequestInclude,
+      });
+
+      await OutboxService.emit(tx, 'return.requested', ret.id, toEventPayload(ret), { actorId: userId });
+      return ret;
+    });
+
+    return formatReturnResponse(created);
+  }
+
+  /**
+   * Return requests of an order, oldest first. With `userId` the order must
+   * belong to that customer.
+   */
+  static async getOrderReturns(orderId: string, userId?: string): Promise<ReturnResponse[]> {
+    if (userId) {
+      const order = await prisma.order.findFirst({ where: { id: orderId, userId }, select: { id: true } });
+      if (!order) {
+        throw new Error('Order not found');
+      }
+    }
+    const returns = await prisma.returnRequest.findMany({
+      where: { orderId },
+      include: returnRequestInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+    return returns.map(formatReturnResponse);
+  }
+
+  static async getReturn(returnId: string): Promise<ReturnResponse> {
+    const ret = await prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      include: returnRequestInclude,
+    });
+    if (!ret) {
+      throw new Error('Return request not found');
+    }
+    return formatReturnResponse(ret);
+  }
+
+  static async listReturns(filters: ReturnListFilters = {}) {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 20;
+    const where: Prisma.ReturnRequestWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.orderId) where.orderId = filters.orderId;
+
+    const [returns, total] = await Promise.all([
+      prisma.returnRequest.findMany({
+        where,
+        include: returnRequestInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.returnRequest.count({ where }),
+    ]);
+
+    return {
+      items: returns.map(formatReturnResponse),
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Move a return from one of `from` to its next status and emit the event.
+   * The status check and the write are one conditional update, so two admins
+   * acting at once cannot both win.
+   */
+  private static async transition(
+    returnId: string,
+    from: ReturnStatusValue[],
+    data: Prisma.ReturnRequestUpdateManyMutationInput & { status: ReturnStatusValue },
+    actorId: string | undefined,
+    event: 'return.approved' | 'return.rejected'
+  ): Promise<ReturnResponse> {
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.returnRequest.updateMany({
+        where: { id: returnId, status: { in: from } },
+        data,
+      });
+      if (claimed.count === 0) {
+        const existing = await tx.returnRequest.findUnique({ where: { id: returnId }, select: { status: true } });
+        if (!existing) {
+          throw new Error('Return request not found');
+        }
+        throw new Error(`Cannot move a ${existing.status} return request to ${data.status}`);
+      }
+
+      const ret = await tx.returnRequest.findUniqueOrThrow({ where: { id: returnId }, include: returnRequestInclude });
+      await OutboxService.emit(tx, event, ret.id, toEventPayload(ret), { actorId });
+      return ret;
+    });
+
+    return formatReturnResponse(updated);
+  }
+
+  static async approveReturn(returnId: string, label: ReturnLabelInput | undefined, actor: ReturnActor = {}) {
+    return this.transition(returnId, [ReturnStatus.REQUESTED], {
+      status: ReturnStatus.APPROVED,
+      approvedAt: new Date(),
+      ...(label ? { carrier: label.carrier, trackingNumber: label.trackingNumber, labelUrl: label.labelUrl ?? null } : {}),
+    }, actor.actorId, 'return.approved');
+  }
+
+  static async rejectReturn(returnId: string, rejectionReason: string, actor: ReturnActor = {}) {
+    return this.transition(returnId, OPEN_RETURN_STATUSES, {
+      status: ReturnStatus.REJECTED,
+      rejectedAt: new Date(),
+      rejectionReason,
+    }, actor.actorId, 'return.rejected');
+  }
+
+  /**
+   * Record (or replace) the return shipping label of an approved return
+   */
+  static async recordLabel(returnId: string, label: ReturnLabelInput): Promise<ReturnResponse> {
+    const updated = await prisma.returnRequest.updateMany({
+      where: { id: returnId, status: ReturnStatus.APPROVED },
+      data: { carrier: label.carrier, trackingNumber: label.trackingNumber, labelUrl: label.labelUrl ?? null },
+    });
+    if (updated.count === 0) {
+      const existing = await prisma.returnRequest.findUnique({ where: { id: returnId }, select: { status: true } });
+      if (!existing) {
+        throw new Error('Return request not found');
+      }
+      throw new Error('Return labels can only be recorded for approved return requests');
+    }
+    return this.getReturn(returnId);
+  }
+
+  /**
+   * Receive and inspect an approved return: restock resellable units into the
+   * chosen warehouse and request the refund for the returned lines.
+   *
+   * A refund the provider rejects does not undo the receipt; the return keeps
+   * the failed refund and can be refunded again with refundReturn.
+   *
+   * @throws Error if the return is not approved or an item has no inspection result
+   */
+  static async receiveReturn(returnId: string, input: ReceiveReturnInput, actor: ReturnActor = {}): Promise<ReturnResponse> {
+    const ret = await prisma.returnRequest.findUnique({ where: { id: returnId }, include: returnRequestInclude });
+    if (!ret) {
+      throw new Error('Return request not found');
+    }
+    if (ret.status !== ReturnStatus.APPROVED) {
+      throw new Error('Return request must be approved before it is received');
+    }
+
+    const results = new Map<string, ReturnInspectionResult>();
+    for (const line of input.items) {
+      if (!ret.items.some((item) => item.orderItemId === line.orderItemId)) {
+        throw new Error(`Order item ${line.orderItemId} is not part of this return`);
+      }
+      results.set(line.orderItemId, line.inspectionResult);
+    }
+    const missing = ret.items.find((item) => !results.has(item.orderItemId));
+    if (missing) {
+      throw new Error(`Inspection result missing for order item ${missing.orderItemId}`);
+    }
+
+    const resellable = ret.items.filter((item) => results.get(item.orderItemId) === 'RESELLABLE');
+    if (resellable.length > 0) {
+      if (!input.warehouseId) {
+        throw new Error('warehouseId is required to restock resellable items');
+      }
+      const warehouse = await prisma.warehouse.findUnique({ where: { id: input.warehouseId }, select: { isActive: true } });
+      if (!warehouse || !warehouse.isActive) {
+        throw new Error(`Warehouse with ID "${input.warehouseId}" not found`);
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const claimed = await tx.returnRequest.updateMany({
+        where: { id: returnId, status: ReturnStatus.APPROVED },
+        data: {
+          status: ReturnStatus.RECEIVED,
+          receivedAt: new Date(),
+          warehouseId: resellable.length > 0 ? input.warehouseId : null,
+          inspectionNote: input.inspectionNote,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new Error('Return request must be approved before it is received');
+      }
+
+      for (const item of ret.items) {
+        await tx.returnItem.update({
+          where: { id: item.id },
+          data: { inspectionResult: results.get(item.orderItemId) },
+        });
+      }
+
+      const received = await tx.returnRequest.findUniqueOrThrow({ where: { id: returnId }, include: returnRequestInclude });
+      await OutboxService.emit(tx, 'return.received', returnId, toEventPayload(received), { actorId: actor.actorId });
+    });
+
+    for (const item of resellable) {
+      await InventoryService.adjustInventory({
+        warehouseId: input.warehouseId!,
+        variantId: item.orderItem.variantId,
+        type: 'return',
+        quantity: item.quantity,
+        reason: `Return ${returnId}`,
+        userId: actor.actorId,
+        referenceId: returnId,
+        metadata: { orderId: ret.orderId, orderItemId: item.orderItemId },
+      });
+    }
+
+    try {
+      return await this.refundReturn(returnId, actor);
+    } catch (error) {
+      LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'return refund',
+        returnId,
+      });
+      return this.getReturn(returnId);
+    }
+  }
+
+  /**
+   * Request the refund for a received return's lines. Stock was already put
+   * back on receipt, so the refund itself does not restock.
+   *
+   * Retrying after a failed refund uses a new idempotency key derived from the
+   * failed one, so a double submit still creates a single refund.
+   */
+  static async refundReturn(returnId: string, actor: ReturnActor = {}): Promise<ReturnResponse> {
+    const ret = await prisma.returnRequest.findUnique({ where: { id: returnId }, include: returnRequestInclude });
+    if (!ret) {
+      throw new Error('Return request not found');
+    }
+    if (ret.status !== ReturnStatus.RECEIVED) {
+      throw new Error('Return request must be received before it is refunded');
+    }
+    if (ret.refund && ret.refund.status !== 'FAILED') {
+      throw new Error('Return request has already been refunded');
+    }
+
+    const idempotencyKey = ret.refund ? `return:${ret.id}:after:${ret.refund.id}` : `return:${ret.id}`;
+    try {
+      const refund = await requestOrderRefund(ret.orderId, {
+        idempotencyKey,
+        reason: `Return ${ret.id}: ${ret.reason}`,
+        items: ret.items.map((item) => ({ orderItemId: item.orderItemId, quantity: item.quantity })),
+        restock: false,
+        actorId: actor.actorId,
+        authorization: actor.authorization,
+      });
+      await prisma.returnRequest.update({ where: { id: returnId }, data: { refundId: refund.id } });
+    } catch (error) {
+      // Provider rejections leave a FAILED refund behind; link it so the return shows why
+      const failed = await prisma.refund.findUnique({ where: { idempotencyKey }, select: { id: true } });
+      if (failed) {
+        await prisma.returnRequest.update({ where: { id: returnId }, data: { refundId: failed.id } });
+      }
+      throw error;
+    }
+
+    return this.getReturn(returnId);
+  }
+}
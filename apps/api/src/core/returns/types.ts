@@ -0,0 +1,111 @@
+/**
+ * Return (RMA) Types
+ *
+ * Shapes shared by the customer return endpoints on orders and the admin
+ * return workflow.
+ */
+
+export const ReturnStatus = {
+  REQUESTED: 'REQUESTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  RECEIVED: 'RECEIVED',
+} as const;
+
+export type ReturnStatusValue = typeof ReturnStatus[keyof typeof ReturnStatus];
+
+export const RETURN_REASONS = [
+  'DAMAGED',
+  'DEFECTIVE',
+  'WRONG_ITEM',
+  'NOT_AS_DESCRIBED',
+  'NO_LONGER_NEEDED',
+  'OTHER',
+] as const;
+
+export type ReturnReason = typeof RETURN_REASONS[number];
+
+export const RETURN_INSPECTION_RESULTS = ['RESELLABLE', 'DAMAGED'] as const;
+
+export type ReturnInspectionResult = typeof RETURN_INSPECTION_RESULTS[number];
+
+/**
+ * Requests still holding quantities; REJECTED ones free them up again
+ */
+export const OPEN_RETURN_STATUSES: ReturnStatusValue[] = [ReturnStatus.REQUESTED, ReturnStatus.APPROVED];
+
+export const MAX_RETURN_PHOTOS = 5;
+
+export interface CreateReturnInput {
+  reason: ReturnReason;
+  customerNote?: string;
+  /** URLs returned by the return photo upload endpoint */
+  photos?: string[];
+  items: Array<{ orderItemId: string; quantity: number; reason?: string }>;
+}
+
+/**
+ * Return shipping label, recorded on approval or afterwards
+ */
+export interface ReturnLabelInput {
+  carrier: string;
+  trackingNumber: string;
+  labelUrl?: string;
+}
+
+export interface ReceiveReturnInput {
+  /** Where RESELLABLE items are restocked; required when any item is resellable */
+  warehouseId?: string;
+  items: Array<{ orderItemId: string; inspectionResult: ReturnInspectionResult }>;
+  inspectionNote?: string;
+}
+
+export interface ReturnActor {
+  actorId?: string;
+  /** Admin's Authorization header, forwarded to the payment plugin for the refund */
+  authorization?: string;
+}
+
+export interface ReturnListFilters {
+  page?: number;
+  limit?: number;
+  status?: ReturnStatusValue;
+  orderId?: string;
+}
+
+export interface ReturnItemResponse {
+  id: string;
+  orderItemId: string;
+  productName: string | null;
+  variantName: string | null;
+  quantity: number;
+  reason: string | null;
+  inspectionResult: ReturnInspectionResult | null;
+}
+
+export interface ReturnResponse {
+  id: string;
+  orderId: string;
+  status: ReturnStatusValue;
+  reason: string;
+  customerNote: string | null;
+  photos: string[];
+  items: ReturnItemResponse[];
+  rejectionReason: string | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  labelUrl: string | null;
+  warehouseId: string | null;
+  inspectionNote: string | null;
+  refund: {
+    id: string;
+    amount: number;
+    currency: string;
+    status: string;
+  } | null;
+  approvedAt: string | null;
+  rejectedAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
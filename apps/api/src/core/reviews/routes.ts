@@ -0,0 +1,269 @@
+/**
+ * Product Review Routes
+ *
+ * Storefront: approved reviews of a product with the rating summary, and
+ * submit/edit/delete of the customer's own review (delivered orders only).
+ * Admin: moderation queue, approve/reject, merchant replies.
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { ReviewService } from './service';
+import { reviewSchemas } from './schemas';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { createRateLimiter } from '@/core/auth/rate-limit-middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapReviewRouteError } from '@/utils/route-error-mapper';
+
+// Per-IP budget on top of the per-customer limit enforced by the service
+const reviewSubmitRateLimit = createRateLimiter({
+  windowMs: 60 * 60 * 1000,
+  maxRequests: 10,
+  keyPrefix: 'rate_limit:reviews',
+});
+
+function sendReviewError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapReviewRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+/**
+ * Storefront review routes (mounted at /api/products)
+ */
+export async function productReviewRoutes(fastify: FastifyInstance) {
+  // List approved reviews
+  fastify.get('/:id/reviews', {
+    schema: {
+      tags: ['products'],
+      summary: 'List product reviews',
+      description: 'Approved reviews of a product with the average rating and star distribution',
+      ...reviewSchemas.listProductReviews,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { page, limit, rating, variantId, sort } = request.query as any;
+      const result = await ReviewService.listProductReviews(id, { page, limit, rating, variantId, sort });
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to get product reviews');
+    }
+  });
+
+  // Review eligibility of the current customer
+  fastify.get('/:id/reviews/eligibility', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['products'],
+      summary: 'Get review eligibility',
+      description: 'Whether the customer has a delivered order with this product and no review yet; includes their review if any',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.getEligibility,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const result = await ReviewService.getEligibility(id, request.user!.id);
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to get review eligibility');
+    }
+  });
+
+  // Submit review
+  fastify.post('/:id/reviews', {
+    onRequest: [reviewSubmitRateLimit, authMiddleware],
+    schema: {
+      tags: ['products'],
+      summary: 'Submit product review',
+      description: 'Submit a review of a product from a delivered order. It is published once approved by the shop.',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.createReview,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const data = request.body as any;
+      // Explicitly pick only allowed fields
+      const review = await ReviewService.createReview(id, request.user!.id, {
+        rating: data.rating,
+        title: data.title,
+        body: data.body,
+        variantId: data.variantId,
+      });
+      return sendSuccess(reply, review, 'Review submitted for moderation', 201);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to submit review');
+    }
+  });
+
+  // Edit own review
+  fastify.put('/:id/reviews/:reviewId', {
+    onRequest: [reviewSubmitRateLimit, authMiddleware],
+    schema: {
+      tags: ['products'],
+      summary: 'Update own product review',
+      description: 'Edit the customer\'s review; it goes back to moderation',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.updateReview,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, reviewId } = request.params as any;
+      const data = request.body as any;
+      const review = await ReviewService.updateOwnReview(id, reviewId, request.user!.id, {
+        rating: data.rating,
+        title: data.title,
+        body: data.body,
+      });
+      return sendSuccess(reply, review, 'Review submitted for moderation');
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to update review');
+    }
+  });
+
+  // Delete own review
+  fastify.delete('/:id/reviews/:reviewId', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['products'],
+      summary: 'Delete own product review',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.deleteOwnReview,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, reviewId } = request.params as any;
+      await ReviewService.deleteOwnReview(id, reviewId, request.user!.id);
+      return sendSuccess(reply, null, 'Review deleted');
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to delete review');
+    }
+  });
+}
+
+/**
+ * Admin review moderation routes (mounted at /api/admin/reviews)
+ */
+export async function adminReviewRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin review routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // List reviews
+  fastify.get('/', {
+    schema: {
+      tags: ['admin-reviews'],
+      summary: 'List product reviews',
+      description: 'Reviews of all products; filter by status PENDING for the moderation queue (oldest first)',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.listReviews,
+    }
+  }, async (request, reply) => {
+    try {
+      const { page, limit, status, productId, rating } = request.query as any;
+      const result = await ReviewService.listReviews({ page, limit, status, productId, rating });
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to list reviews');
+    }
+  });
+
+  // Approve review
+  fastify.post('/:id/approve', {
+    schema: {
+      tags: ['admin-reviews'],
+      summary: 'Approve review',
+      description: 'Publish the review and add it to the product and variant rating',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.approveReview,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const review = await ReviewService.approveReview(id, request.user?.id);
+      return sendSuccess(reply, review);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to approve review');
+    }
+  });
+
+  // Reject review
+  fastify.post('/:id/reject', {
+    schema: {
+      tags: ['admin-reviews'],
+      summary: 'Reject review',
+      description: 'Hide the review; an approved review is removed from the rating',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.rejectReview,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { reason } = (request.body ?? {}) as any;
+      const review = await ReviewService.rejectReview(id, reason, request.user?.id);
+      return sendSuccess(reply, review);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to reject review');
+    }
+  });
+
+  // Set merchant reply
+  fastify.put('/:id/reply', {
+    schema: {
+      tags: ['admin-reviews'],
+      summary: 'Reply to review',
+      description: 'Set or replace the merchant reply shown under the review',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.setReply,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { reply: text } = request.body as any;
+      const review = await ReviewService.setReply(id, text);
+      return sendSuccess(reply, review);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to save review reply');
+    }
+  });
+
+  // Delete merchant reply
+  fastify.delete('/:id/reply', {
+    schema: {
+      tags: ['admin-reviews'],
+      summary: 'Delete review reply',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.deleteReply,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const review = await ReviewService.deleteReply(id);
+      return sendSuccess(reply, review);
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to delete review reply');
+    }
+  });
+
+  // Delete review
+  fastify.delete('/:id', {
+    schema: {
+      tags: ['admin-reviews'],
+      summary: 'Delete review',
+      security: [{ bearerAuth: [] }],
+      ...reviewSchemas.deleteReview,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      await ReviewService.deleteReview(id);
+      return sendSuccess(reply, null, 'Review deleted');
+    } catch (error: unknown) {
+      return sendReviewError(reply, error, 'Failed to delete review');
+    }
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * Product Review OpenAPI Schemas
+ */
+
+import {
+  createTypedCreateResponses,
+  createTypedDeleteResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+  createPageResultSchema,
+} from '@/types/common-dto';
+import {
+  REVIEW_BODY_MAX_LENGTH,
+  REVIEW_BODY_MIN_LENGTH,
+  REVIEW_REPLY_MAX_LENGTH,
+  REVIEW_SORTS,
+  REVIEW_TITLE_MAX_LENGTH,
+  ReviewStatus,
+} from './types';
+
+const reviewStatusEnum = Object.values(ReviewStatus);
+
+const publicReviewProperties = {
+  id: { type: 'string', description: 'Review ID' },
+  productId: { type: 'string', description: 'Product ID' },
+  variantId: { type: 'string', nullable: true, description: 'Purchased variant' },
+  variantName: { type: 'string', nullable: true, description: 'Purchased variant name' },
+  rating: { type: 'integer', minimum: 1, maximum: 5, description: 'Star rating' },
+  title: { type: 'string', nullable: true, description: 'Review title' },
+  body: { type: 'string', description: 'Review text' },
+  authorName: { type: 'string', description: 'Username of the reviewer' },
+  verifiedPurchase: { type: 'boolean', description: 'Whether the review is linked to a delivered order line' },
+  reply: { type: 'string', nullable: true, description: 'Merchant reply' },
+  repliedAt: { type: 'string', format: 'date-time', nullable: true },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+} as const;
+
+const publicReviewRequired = ['id', 'productId', 'rating', 'body', 'authorName', 'verifiedPurchase', 'createdAt', 'updatedAt'];
+
+export const publicReviewSchema = {
+  type: 'object',
+  properties: publicReviewProperties,
+  required: publicReviewRequired,
+} as const;
+
+const customerReviewProperties = {
+  ...publicReviewProperties,
+  status: { type: 'string', enum: reviewStatusEnum, description: 'Moderation status' },
+  rejectionReason: { type: 'string', nullable: true, description: 'Why the review was rejected' },
+} as const;
+
+export const customerReviewSchema = {
+  type: 'object',
+  properties: customerReviewProperties,
+  required: [...publicReviewRequired, 'status'],
+} as const;
+
+export const adminReviewSchema = {
+  type: 'object',
+  properties: {
+    ...customerReviewProperties,
+    userId: { type: 'string', description: 'Reviewer ID' },
+    productName: { type: 'string', description: 'Product name' },
+    customer: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        email: { type: 'string' },
+        username: { type: 'string' },
+      },
+      required: ['id', 'email', 'username'],
+    },
+    orderItemId: { type: 'string', nullable: true, description: 'Order line that verified the purchase' },
+    moderatedAt: { type: 'string', format: 'date-time', nullable: true },
+    moderatedById: { type: 'string', nullable: true, description: 'Admin who approved or rejected the review' },
+  },
+  required: [...publicReviewRequired, 'status', 'userId', 'productName', 'customer'],
+} as const;
+
+export const reviewSummarySchema = {
+  type: 'object',
+  properties: {
+    average: { type: 'number', description: 'Average approved rating, 0 without reviews' },
+    count: { type: 'integer', description: 'Number of approved reviews' },
+    distribution: {
+      type: 'object',
+      properties: {
+        '1': { type: 'integer' },
+        '2': { type: 'integer' },
+        '3': { type: 'integer' },
+        '4': { type: 'integer' },
+        '5': { type: 'integer' },
+      },
+      description: 'Approved review count per star rating',
+    },
+  },
+  required: ['average', 'count', 'distribution'],
+} as const;
+
+const reviewPageSchema = createPageResultSchema(publicReviewSchema);
+
+const productReviewPageSchema = {
+  ...reviewPageSchema,
+  properties: {
+    ...reviewPageSchema.properties,
+    summary: reviewSummarySchema,
+  },
+  required: [...reviewPageSchema.required, 'summary'],
+};
+
+const eligibilitySchema = {
+  type: 'object',
+  properties: {
+    eligible: { type: 'boolean', description: 'Whether the customer can submit a review' },
+    reason: { type: 'string', enum: ['NOT_PURCHASED', 'ALREADY_REVIEWED'], nullable: true },
+    review: { ...customerReviewSchema, nullable: true },
+  },
+  required: ['eligible'],
+} as const;
+
+const reviewInputProperties = {
+  rating: { type: 'integer', minimum: 1, maximum: 5, description: 'Star rating' },
+  title: { type: 'string', nullable: true, maxLength: REVIEW_TITLE_MAX_LENGTH, description: 'Optional title' },
+  body: {
+    type: 'string',
+    minLength: REVIEW_BODY_MIN_LENGTH,
+    maxLength: REVIEW_BODY_MAX_LENGTH,
+    description: 'Review text; at most 2 links',
+  },
+} as const;
+
+const productIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Product ID' },
+  },
+} as const;
+
+const ownReviewParams = {
+  type: 'object',
+  required: ['id', 'reviewId'],
+  properties: {
+    id: { type: 'string', description: 'Product ID' },
+    reviewId: { type: 'string', description: 'Review ID' },
+  },
+} as const;
+
+const reviewIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Review ID' },
+  },
+} as const;
+
+export const reviewSchemas = {
+  // GET /api/products/:id/reviews
+  listProductReviews: {
+    params: productIdParams,
+    querystring: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer', default: 1, minimum: 1, description: 'Page number' },
+        limit: { type: 'integer', default: 10, minimum: 1, maximum: 50, description: 'Items per page' },
+        rating: { type: 'integer', minimum: 1, maximum: 5, description: 'Only reviews with this rating' },
+        variantId: { type: 'string', description: 'Only reviews of this variant' },
+        sort: { type: 'string', enum: [...REVIEW_SORTS], default: 'newest', description: 'Sort order' },
+      },
+    },
+    response: createTypedReadResponses(productReviewPageSchema),
+  },
+
+  // GET /api/products/:id/reviews/eligibility
+  getEligibility: {
+    params: productIdParams,
+    response: createTypedReadResponses(eligibilitySchema),
+  },
+
+  // POST /api/products/:id/reviews
+  createReview: {
+    params: productIdParams,
+    body: {
+      type: 'object',
+      required: ['rating', 'body'],
+      properties: {
+        ...reviewInputProperties,
+        variantId: { type: 'string', description: 'Purchased variant, defaults to the latest delivered one' },
+      },
+    },
+    response: createTypedCreateResponses(customerReviewSchema),
+  },
+
+  // PUT /api/products/:id/reviews/:reviewId
+  updateReview: {
+    params: ownReviewParams,
+    body: {
+      type: 'object',
+      required: ['rating', 'body'],
+      properties: reviewInputProperties,
+    },
+    response: createTypedUpdateResponses(customerReviewSchema),
+  },
+
+  // DELETE /api/products/:id/reviews/:reviewId
+  deleteOwnReview: {
+    params: ownReviewParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // GET /api/admin/reviews
+  listReviews: {
+    querystring: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer', default: 1, minimum: 1, description: 'Page number' },
+        limit: { type: 'integer', default: 20, minimum: 1, maximum: 100, description: 'Items per page' },
+        status: { type: 'string', enum: reviewStatusEnum, description: 'Filter by moderation status' },
+        productId: { type: 'string', description: 'Filter by product' },
+        rating: { type: 'integer', minimum: 1, maximum: 5, description: 'Filter by rating' },
+      },
+    },
+    response: createTypedReadResponses(createPageResultSchema(adminReviewSchema)),
+  },
+
+  // POST /api/admin/reviews/:id/approve
+  approveReview: {
+    params: reviewIdParams,
+    response: createTypedUpdateResponses(adminReviewSchema),
+  },
+
+  // POST /api/admin/reviews/:id/reject
+  rejectReview: {
+    params: reviewIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', maxLength: 2000, description: 'Shown to the customer' },
+      },
+    },
+    response: createTypedUpdateResponses(adminReviewSchema),
+  },
+
+  // PUT /api/admin/reviews/:id/reply
+  setReply: {
+    params: reviewIdParams,
+    body: {
+      type: 'object',
+      required: ['reply'],
+      properties: {
+        reply: { type: 'string', minLength: 1, maxLength: REVIEW_REPLY_MAX_LENGTH, description: 'Merchant reply' },
+      },
+    },
+    response: createTypedUpdateResponses(adminReviewSchema),
+  },
+
+  // DELETE /api/admin/reviews/:id/reply
+  deleteReply: {
+    params: reviewIdParams,
+    response: createTypedUpdateResponses(adminReviewSchema),
+  },
+
+  // DELETE /api/admin/reviews/:id
+  deleteReview: {
+    params: reviewIdParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+} as const;
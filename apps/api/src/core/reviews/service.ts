@@ -0,0 +1,542 @@
+/**
+ * Product Review Service
+ *
+ * Customers review a product once, and only after an order containing it was
+ * delivered; the order line that proves the purchase is linked to the review.
+ * New and edited reviews wait in the moderation queue:
+ *
+ *   PENDING -> APPROVED | REJECTED
+ *   APPROVED <-> REJECTED (admins may change their decision)
+ *   any -> PENDING when the customer edits the review
+ *
+ * `Product.ratingAverage/reviewCount` and the same columns on the variant are
+ * the aggregate of APPROVED reviews. They are recomputed in the transaction of
+ * every change that affects an approved review, so product listings never
+ * aggregate on read.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { CacheService } from '@/core/cache/service';
+import { OrderStatus } from '@/core/order/types';
+import { OutboxService } from '@/infra/outbox';
+import type { ReviewStatusPayload } from '@jiffoo/shared';
+import {
+  AdminReviewFilters,
+  AdminReviewResponse,
+  CreateReviewInput,
+  CustomerReviewResponse,
+  PublicReviewFilters,
+  PublicReviewResponse,
+  REVIEW_BODY_MAX_LENGTH,
+  REVIEW_BODY_MIN_LENGTH,
+  REVIEW_MAX_LINKS,
+  REVIEW_RATE_LIMIT,
+  REVIEW_RATE_WINDOW_MS,
+  REVIEW_REPLY_MAX_LENGTH,
+  REVIEW_TITLE_MAX_LENGTH,
+  ReviewEligibility,
+  ReviewInput,
+  ReviewStatus,
+  ReviewStatusValue,
+  ReviewSummary,
+} from './types';
+
+type ReviewTx = Pick<typeof prisma, 'productReview' | 'product' | 'productVariant'>;
+
+const REVIEWABLE_ORDER_STATUSES = [OrderStatus.DELIVERED, OrderStatus.COMPLETED];
+
+const reviewInclude = {
+  user: { select: { id: true, email: true, username: true } },
+  variant: { select: { name: true } },
+  product: { select: { name: true } },
+} satisfies Prisma.ProductReviewInclude;
+
+type ReviewWithDetails = Prisma.ProductReviewGetPayload<{ include: typeof reviewInclude }>;
+
+function toIso(value: Date | null | undefined): string | null {
+  return value ? value.toISOString() : null;
+}
+
+function roundRating(value: number | null | undefined): number {
+  return value ? Math.round(value * 100) / 100 : 0;
+}
+
+function countLinks(text: string): number {
+  return text.match(/https?:\/\/|www\./gi)?.length ?? 0;
+}
+
+/** Comparable form of a review text for the duplicate check */
+function normalizeBody(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function validateReviewInput(input: ReviewInput): { rating: number; title: string | null; body: string } {
+  if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+    throw new Error('Rating must be a whole number from 1 to 5');
+  }
+  const body = (input.body ?? '').trim();
+  if (body.length < REVIEW_BODY_MIN_LENGTH || body.length > REVIEW_BODY_MAX_LENGTH) {
+    throw new Error(`Review text must be between ${REVIEW_BODY_MIN_LENGTH} and ${REVIEW_BODY_MAX_LENGTH} characters`);
+  }
+  const title = input.title?.trim() || null;
+  if (title && title.length > REVIEW_TITLE_MAX_LENGTH) {
+    throw new Error(`Review title must be at most ${REVIEW_TITLE_MAX_LENGTH} characters`);
+  }
+  if (countLinks(`${title ?? ''} ${body}`) > REVIEW_MAX_LINKS) {
+    throw new Error(`Reviews may contain at most ${REVIEW_MAX_LINKS} links`);
+  }
+  return { rating: input.rating, title, body };
+}
+
+function formatPublicReview(review: ReviewWithDetails): PublicReviewResponse {
+  return {
+    id: review.id,
+    productId: review.productId,
+    variantId: review.variantId,
+    variantName: review.variant?.name ?? null,
+    rating: review.rating,
+    title: review.title,
+    body: review.body,
+    authorName: review.user?.username ?? '',
+    verifiedPurchase: review.orderItemId !== null,
+    reply: review.reply,
+    repliedAt: toIso(review.repliedAt),
+    createdAt: review.createdAt.toISOString(),
+    updatedAt: review.updatedAt.toISOString(),
+  };
+}
+
+function formatCustomerReview(review: ReviewWithDetails): CustomerReviewResponse {
+  return {
+    ...formatPublicReview(review),
+    status: review.status as ReviewStatusValue,
+    rejectionReason: review.rejectionReason,
+  };
+}
+
+function formatAdminReview(review: ReviewWithDetails): AdminReviewResponse {
+  return {
+    ...formatCustomerReview(review),
+    userId: review.userId,
+    productName: review.product?.name ?? '',
+    customer: {
+      id: review.user.id,
+      email: review.user.email,
+      username: review.user.username,
+    },
+    orderItemId: review.orderItemId,
+    moderatedAt: toIso(review.moderatedAt),
+    moderatedById: review.moderatedById,
+  };
+}
+
+function toEventPayload(review: ReviewWithDetails): ReviewStatusPayload {
+  return {
+    id: review.id,
+    productId: review.productId,
+    variantId: review.variantId,
+    userId: review.userId,
+    rating: review.rating,
+    status: review.status,
+    rejectionReason: review.rejectionReason,
+  };
+}
+
+export class ReviewService {
+  /**
+   * Recompute the approved review aggregate of a product and, when given, of
+   * one of its variants
+   */
+  private static async refreshRatings(tx: ReviewTx, productId: string, variantId: string | null): Promise<void> {
+    const approved = { productId, status: ReviewStatus.APPROVED };
+
+    const productStats = await tx.productReview.aggregate({
+      where: approved,
+      _avg: { rating: true },
+      _count: { _all: true },
+    });
+    await tx.product.update({
+      where: { id: productId },
+      data: { ratingAverage: roundRating(productStats._avg.rating), reviewCount: productStats._count._all },
+    });
+
+    if (variantId) {
+      const variantStats = await tx.productReview.aggregate({
+        where: { ...approved, variantId },
+        _avg: { rating: true },
+        _count: { _all: true },
+      });
+      await tx.productVariant.update({
+        where: { id: variantId },
+        data: { ratingAverage: roundRating(variantStats._avg.rating), reviewCount: variantStats._count._all },
+      });
+    }
+  }
+
+  private static async invalidateProduct(productId: string): Promise<void> {
+    await Promise.all([
+      CacheService.deleteProduct(productId),
+      CacheService.incrementProductVersion(),
+    ]);
+  }
+
+  /**
+   * Latest delivered order line of the customer for the product (and variant)
+   */
+  private static async findPurchase(productId: string, userId: string, variantId?: string) {
+    return prisma.orderItem.findFirst({
+      where: {
+        productId,
+        ...(variantId ? { variantId } : {}),
+        order: { userId, status: { in: REVIEWABLE_ORDER_STATUSES } },
+      },
+      orderBy: { order: { createdAt: 'desc' } },
+      select: { id: true, variantId: true },
+    });
+  }
+
+  /**
+   * Spam guard: a customer submits at most REVIEW_RATE_LIMIT reviews per window
+   */
+  private static async assertWithinRateLimit(userId: string): Promise<void> {
+    const recent = await prisma.productReview.count({
+      where: { userId, createdAt: { gte: new Date(Date.now() - REVIEW_RATE_WINDOW_MS) } },
+    });
+    if (recent >= REVIEW_RATE_LIMIT) {
+      throw new Error('Review limit reached, please try again later');
+    }
+  }
+
+  /**
+   * Spam guard: the same text is never posted for two products
+   */
+  private static async assertUniqueBody(userId: string, body: string, excludeReviewId?: string): Promise<void> {
+    const others = await prisma.productReview.findMany({
+      where: { userId, ...(excludeReviewId ? { id: { not: excludeReviewId } } : {}) },
+      select: { body: true },
+    });
+    const normalized = normalizeBody(body);
+    if (others.some((other) => normalizeBody(other.body) === normalized)) {
+      throw new Error('Duplicate review text');
+    }
+  }
+
+  private static async assertActiveProduct(productId: string): Promise<void> {
+    const product = await prisma.product.findFirst({ where: { id: productId, isActive: true }, select: { id: true } });
+    if (!product) {
+      throw new Error('Product not found');
+    }
+  }
+
+  /**
+   * Star distribution and average of the approved reviews of a product
+   */
+  static async getReviewSummary(productId: string): Promise<ReviewSummary> {
+    const groups = await prisma.productReview.groupBy({
+      by: ['rating'],
+      where: { productId, status: ReviewStatus.APPROVED },
+      _count: { _all: true },
+    });
+
+    const distribution: ReviewSummary['distribution'] = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+    let count = 0;
+    let sum = 0;
+    for (const group of groups) {
+      const key = String(group.rating) as keyof ReviewSummary['distribution'];
+      if (!(key in distribution)) continue;
+      distribution[key] = group._count._all;
+      count += group._count._all;
+      sum += group.rating * group._count._all;
+    }
+
+    return { average: count > 0 ? roundRating(sum / count) : 0, count, distribution };
+  }
+
+  /**
+   * Approved reviews of an active product with the rating summary
+   */
+  static async listProductReviews(productId: string, filters: PublicReviewFilters = {}) {
+    await this.assertActiveProduct(productId);
+
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 10;
+    const where: Prisma.ProductReviewWhereInput = { productId, status: ReviewStatus.APPROVED };
+    if (filters.rating) where.rating = filters.rating;
+    if (filters.variantId) where.variantId = filters.variantId;
+
+    const orderBy: Prisma.ProductReviewOrderByWithRelationInput[] =
+      filters.sort === 'highest' ? [{ rating: 'desc' }, { createdAt: 'desc' }]
+        : filters.sort === 'lowest' ? [{ rating: 'asc' }, { createdAt: 'desc' }]
+          : [{ createdAt: 'desc' }];
+
+    const [reviews, total, summary] = await Promise.all([
+      prisma.productReview.findMany({
+        where,
+        include: reviewInclude,
+        orderBy,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.productReview.count({ where }),
+      this.getReviewSummary(productId),
+    ]);
+
+    return {
+      items: reviews.map(formatPublicReview),
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+      summary,
+    };
+  }
+
+  /**
+   * Whether the customer may review the product, with their existing review
+   */
+  static async getEligibility(productId: string, userId: string): Promise<ReviewEligibility> {
+    const existing = await prisma.productReview.findUnique({
+      where: { userId_productId: { userId, productId } },
+      include: reviewInclude,
+    });
+    if (existing) {
+      return { eligible: false, reason: 'ALREADY_REVIEWED', review: formatCustomerReview(existing) };
+    }
+
+    const purchase = await this.findPurchase(productId, userId);
+    return purchase
+      ? { eligible: true, reason: null, review: null }
+      : { eligible: false, reason: 'NOT_PURCHASED', review: null };
+  }
+
+  /**
+   * Submit a review for moderation
+   *
+   * @throws Error if the product is not found or the customer has no delivered order with it
+   * @throws Error if the customer already reviewed the product or hits a spam guard
+   */
+  static async createReview(productId: string, userId: string, input: CreateReviewInput): Promise<CustomerReviewResponse> {
+    const data = validateReviewInput(input);
+    await this.assertActiveProduct(productId);
+
+    const existing = await prisma.productReview.findUnique({
+      where: { userId_productId: { userId, productId } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new Error('You have already reviewed this product');
+    }
+
+    const purchase = await this.findPurchase(productId, userId, input.variantId);
+    if (!purchase) {
+      throw new Error('Only customers with a delivered order can review this product');
+    }
+
+    await this.assertWithinRateLimit(userId);
+    await this.assertUniqueBody(userId, data.body);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const review = await tx.productReview.create({
+        data: {
+          productId,
+          variantId: purchase.variantId,
+          userId,
+          orderItemId: purchase.id,
+          ...data,
+        },
+        include: reviewInclude,
+      });
+
+      await OutboxService.emit(tx, 'review.submitted', review.id, toEventPayload(review), { actorId: userId });
+      return review;
+    });
+
+    return formatCustomerReview(created);
+  }
+
+  private static async findOwnReview(productId: string, reviewId: string, userId: string) {
+    const review = await prisma.productReview.findFirst({
+      where: { id: reviewId, productId, userId },
+      include: reviewInclude,
+    });
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    return review;
+  }
+
+  /**
+   * Edit the customer's own review; it goes back to moderation and, if it was
+   * approved, leaves the rating until approved again
+   */
+  static async updateOwnReview(
+    productId: string,
+    reviewId: string,
+    userId: string,
+    input: ReviewInput
+  ): Promise<CustomerReviewResponse> {
+    const data = validateReviewInput(input);
+    const review = await this.findOwnReview(productId, reviewId, userId);
+    await this.assertUniqueBody(userId, data.body, reviewId);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.productReview.update({
+        where: { id: reviewId },
+        data: {
+          ...data,
+          status: ReviewStatus.PENDING,
+          rejectionReason: null,
+          moderatedAt: null,
+          moderatedById: null,
+        },
+        include: reviewInclude,
+      });
+
+      if (review.status === ReviewStatus.APPROVED) {
+        await this.refreshRatings(tx, productId, review.variantId);
+      }
+      await OutboxService.emit(tx, 'review.submitted', saved.id, toEventPayload(saved), { actorId: userId });
+      return saved;
+    });
+
+    if (review.status === ReviewStatus.APPROVED) {
+      await this.invalidateProduct(productId);
+    }
+    return formatCustomerReview(updated);
+  }
+
+  static async deleteOwnReview(productId: string, reviewId: string, userId: string): Promise<void> {
+    await this.findOwnReview(productId, reviewId, userId);
+    await this.deleteReview(reviewId);
+  }
+
+  static async listReviews(filters: AdminReviewFilters = {}) {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 20;
+    const where: Prisma.ProductReviewWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.productId) where.productId = filters.productId;
+    if (filters.rating) where.rating = filters.rating;
+
+    const [reviews, total] = await Promise.all([
+      prisma.productReview.findMany({
+        where,
+        include: reviewInclude,
+        // Moderation queue works oldest first
+        orderBy: { createdAt: filters.status === ReviewStatus.PENDING ? 'asc' : 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.productReview.count({ where }),
+    ]);
+
+    return {
+      items: reviews.map(formatAdminReview),
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Move a review to APPROVED or REJECTED, refresh the ratings and emit the
+   * event. The status check and the write are one conditional update.
+   */
+  private static async moderate(
+    reviewId: string,
+    status: typeof ReviewStatus.APPROVED | typeof ReviewStatus.REJECTED,
+    rejectionReason: string | null,
+    actorId: string | undefined
+  ): Promise<AdminReviewResponse> {
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.productReview.updateMany({
+        where: { id: reviewId, status: { not: status } },
+        data: { status, rejectionReason, moderatedAt: new Date(), moderatedById: actorId ?? null },
+      });
+      if (claimed.count === 0) {
+        const existing = await tx.productReview.findUnique({ where: { id: reviewId }, select: { status: true } });
+        if (!existing) {
+          throw new Error('Review not found');
+        }
+        throw new Error(`Review is already ${existing.status}`);
+      }
+
+      const review = await tx.productReview.findUniqueOrThrow({ where: { id: reviewId }, include: reviewInclude });
+      await this.refreshRatings(tx, review.productId, review.variantId);
+      await OutboxService.emit(
+        tx,
+        status === ReviewStatus.APPROVED ? 'review.approved' : 'review.rejected',
+        review.id,
+        toEventPayload(review),
+        { actorId }
+      );
+      return review;
+    });
+
+    await this.invalidateProduct(updated.productId);
+    return formatAdminReview(updated);
+  }
+
+  static async approveReview(reviewId: string, actorId?: string): Promise<AdminReviewResponse> {
+    return this.moderate(reviewId, ReviewStatus.APPROVED, null, actorId);
+  }
+
+  static async rejectReview(reviewId: string, reason: string | undefined, actorId?: string): Promise<AdminReviewResponse> {
+    return this.moderate(reviewId, ReviewStatus.REJECTED, reason?.trim() || null, actorId);
+  }
+
+  /**
+   * Set (or replace) the merchant reply shown under the review
+   */
+  static async setReply(reviewId: string, reply: string): Promise<AdminReviewResponse> {
+    const text = (reply ?? '').trim();
+    if (!text) {
+      throw new Error('Reply text is required');
+    }
+    if (text.length > REVIEW_REPLY_MAX_LENGTH) {
+      throw new Error(`Reply text must be at most ${REVIEW_REPLY_MAX_LENGTH} characters`);
+    }
+
+    const updated = await prisma.productReview.update({
+      where: { id: reviewId },
+      data: { reply: text, repliedAt: new Date() },
+      include: reviewInclude,
+    });
+    return formatAdminReview(updated);
+  }
+
+  static async deleteReply(reviewId: string): Promise<AdminReviewResponse> {
+    const updated = await prisma.productReview.update({
+      where: { id: reviewId },
+      data: { reply: null, repliedAt: null },
+      include: reviewInclude,
+    });
+    return formatAdminReview(updated);
+  }
+
+  /**
+   * Delete a review; approved reviews leave the rating aggregate
+   */
+  static async deleteReview(reviewId: string): Promise<void> {
+    const review = await prisma.productReview.findUnique({
+      where: { id: reviewId },
+      select: { productId: true, variantId: true, status: true },
+    });
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.productReview.delete({ where: { id: reviewId } });
+      if (review.status === ReviewStatus.APPROVED) {
+        await this.refreshRatings(tx, review.productId, review.variantId);
+      }
+    });
+
+    if (review.status === ReviewStatus.APPROVED) {
+      await this.invalidateProduct(review.productId);
+    }
+  }
+}
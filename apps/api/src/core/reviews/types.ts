@@ -0,0 +1,109 @@
+/**
+ * Product Review Types
+ *
+ * Verified-purchase reviews: customers review products of their delivered
+ * orders, admins moderate them and may reply. Only APPROVED reviews are
+ * public and count towards the product and variant rating.
+ */
+
+export const ReviewStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+} as const;
+
+export type ReviewStatusValue = typeof ReviewStatus[keyof typeof ReviewStatus];
+
+export const REVIEW_SORTS = ['newest', 'highest', 'lowest'] as const;
+
+export type ReviewSort = typeof REVIEW_SORTS[number];
+
+export const REVIEW_TITLE_MAX_LENGTH = 200;
+export const REVIEW_BODY_MIN_LENGTH = 10;
+export const REVIEW_BODY_MAX_LENGTH = 5000;
+export const REVIEW_REPLY_MAX_LENGTH = 5000;
+
+/** Reviews with more links than this are rejected as spam */
+export const REVIEW_MAX_LINKS = 2;
+
+/** Reviews a customer may submit within REVIEW_RATE_WINDOW_MS */
+export const REVIEW_RATE_LIMIT = 5;
+export const REVIEW_RATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewInput {
+  rating: number;
+  title?: string | null;
+  body: string;
+}
+
+export interface CreateReviewInput extends ReviewInput {
+  /** Variant that was purchased; defaults to the variant of the latest delivered order line */
+  variantId?: string;
+}
+
+export interface PublicReviewFilters {
+  page?: number;
+  limit?: number;
+  rating?: number;
+  variantId?: string;
+  sort?: ReviewSort;
+}
+
+export interface AdminReviewFilters {
+  page?: number;
+  limit?: number;
+  status?: ReviewStatusValue;
+  productId?: string;
+  rating?: number;
+}
+
+export interface ReviewSummary {
+  /** Average rating of approved reviews, 0 without reviews */
+  average: number;
+  count: number;
+  /** Approved review count per star rating, keys "1" to "5" */
+  distribution: Record<'1' | '2' | '3' | '4' | '5', number>;
+}
+
+/** Storefront review; the author is shown by username only */
+export interface PublicReviewResponse {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  variantName: string | null;
+  rating: number;
+  title: string | null;
+  body: string;
+  authorName: string;
+  verifiedPurchase: boolean;
+  reply: string | null;
+  repliedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The customer's own review, including its moderation state */
+export interface CustomerReviewResponse extends PublicReviewResponse {
+  status: ReviewStatusValue;
+  rejectionReason: string | null;
+}
+
+export interface AdminReviewResponse extends CustomerReviewResponse {
+  userId: string;
+  productName: string;
+  customer: {
+    id: string;
+    email: string;
+    username: string;
+  };
+  orderItemId: string | null;
+  moderatedAt: string | null;
+  moderatedById: string | null;
+}
+
+export interface ReviewEligibility {
+  /** True when the customer has a delivered order line and no review yet */
+  eligible: boolean;
+  reason: 'NOT_PURCHASED' | 'ALREADY_REVIEWED' | null;
+  review: CustomerReviewResponse | null;
+}
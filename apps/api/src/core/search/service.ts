@@ -0,0 +1,317 @@
+/**
+ * Product Search Service
+ *
+ * Full-text product search over `product_search_documents`, which database
+ * triggers keep in sync with products, variant SKUs and translations (see the
+ * `product_search` migration). Matching combines per-locale `tsvector`
+ * queries (name > SKU > description) with trigram similarity so that typos
+ * still find products, and computes facets over the whole match set.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { DEFAULT_LOCALE, Locale } from '@/utils/i18n';
+import type {
+  ProductSearchAttributeFacet,
+  ProductSearchFacets,
+  ProductSearchFilters,
+  ProductSearchMatches,
+  ProductSearchQuery,
+  ProductSearchSort,
+} from './types';
+
+/** Upper bound of ranked candidates; pagination and facets work within it. */
+const MAX_SEARCH_CANDIDATES = 500;
+const MAX_ATTRIBUTE_FACET_VALUES = 20;
+const MAX_SUGGESTION_TOKENS = 5;
+const MIN_SUGGESTION_SIMILARITY = 0.2;
+
+interface SearchCandidateRow {
+  id: string;
+  score: number;
+  exact: boolean;
+}
+
+const EMPTY_FACETS: ProductSearchFacets = {
+  categories: [],
+  price: null,
+  attributes: [],
+  availability: { inStock: 0, outOfStock: 0 },
+};
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function tokenize(query: string): string[] {
+  return query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export class ProductSearchService {
+  /**
+   * Search products and return one page of ranked product IDs with facets
+   * and a "did you mean" suggestion.
+   */
+  static async search(query: ProductSearchQuery): Promise<ProductSearchMatches> {
+    const q = query.q.trim();
+    if (!q) {
+      return { productIds: [], total: 0, facets: EMPTY_FACETS, suggestion: null };
+    }
+
+    const candidates = await this.findCandidates(q, query.locale, query, query.sort ?? 'relevance');
+    const ids = candidates.map((row) => row.id);
+    const skip = (query.page - 1) * query.limit;
+
+    const facets = ids.length > 0 ? await this.buildFacets(ids, query.locale) : EMPTY_FACETS;
+    const suggestion = candidates.some((row) => row.exact)
+      ? null
+      : await this.suggest(q, query.locale);
+
+    return {
+      productIds: ids.slice(skip, skip + query.limit),
+      total: ids.length,
+      facets,
+      suggestion,
+    };
+  }
+
+  /**
+   * IDs of active products matching a query, best match first.
+   * Used by the product list endpoint for its `search` filter.
+   */
+  static async matchProductIds(q: string, locale: Locale, customerGroupIds: string[] = []): Promise<string[]> {
+    const trimmed = q.trim();
+    if (!trimmed) return [];
+    const candidates = await this.findCandidates(trimmed, locale, { customerGroupIds }, 'relevance');
+    return candidates.map((row) => row.id);
+  }
+
+  private static async findCandidates(
+    q: string,
+    locale: Locale,
+    filters: ProductSearchFilters,
+    sort: ProductSearchSort
+  ): Promise<SearchCandidateRow[]> {
+    const skuPattern = `%${escapeLikePattern(q)}%`;
+
+    const rows = await prisma.$queryRaw<SearchCandidateRow[]>`
+      WITH q AS (
+        SELECT
+          websearch_to_tsquery(product_search_config(${locale}), ${q}) AS localized,
+          websearch_to_tsquery(product_search_config(${DEFAULT_LOCALE}), ${q}) AS fallback
+      ),
+      hits AS (
+        SELECT
+          d."productId",
+          MAX(
+            ts_rank_cd(d.document, CASE WHEN d.locale = ${locale} THEN q.localized ELSE q.fallback END, 32)
+            + GREATEST(word_similarity(${q}, d.name), similarity(d.skus, ${q}))
+          ) AS score,
+          BOOL_OR(d.document @@ CASE WHEN d.locale = ${locale} THEN q.localized ELSE q.fallback END) AS exact
+        FROM product_search_documents d
+        CROSS JOIN q
+        WHERE d.locale IN (${locale}, ${DEFAULT_LOCALE})
+          AND (
+            (d.locale = ${locale} AND d.document @@ q.localized)
+            OR (d.locale = ${DEFAULT_LOCALE} AND d.document @@ q.fallback)
+            OR ${q} <% d.name
+            OR d.skus ILIKE ${skuPattern}
+          )
+        GROUP BY d."productId"
+      )
+      SELECT p.id, h.score::float8 AS score, h.exact
+      FROM hits h
+      JOIN products p ON p.id = h."productId"
+      LEFT JOIN LATERAL (
+        SELECT MIN(v."salePrice") AS "minPrice"
+        FROM product_variants v
+        WHERE v."productId" = p.id AND v."isActive"
+      ) price ON TRUE
+      WHERE p."isActive"
+      ${this.buildFilterSql(filters)}
+      ORDER BY ${this.buildOrderSql(sort)}
+      LIMIT ${MAX_SEARCH_CANDIDATES}
+    `;
+
+    return rows.map((row) => ({ id: row.id, score: Number(row.score), exact: Boolean(row.exact) }));
+  }
+
+  private static buildFilterSql(filters: ProductSearchFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.category) {
+      conditions.push(Prisma.sql`AND p."categoryId" IN (
+        WITH RECURSIVE tree AS (
+          SELECT c.id FROM categories c WHERE c.id = ${filters.category}
+          UNION ALL
+          SELECT c.id FROM categories c JOIN tree ON c."parentId" = tree.id
+        )
+        SELECT id FROM tree
+      )`);
+    }
+
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      conditions.push(Prisma.sql`AND EXISTS (
+        SELECT 1 FROM product_variants v
+        WHERE v."productId" = p.id AND v."isActive"
+          ${filters.minPrice !== undefined ? Prisma.sql`AND v."salePrice" >= ${filters.minPrice}` : Prisma.empty}
+          ${filters.maxPrice !== undefined ? Prisma.sql`AND v."salePrice" <= ${filters.maxPrice}` : Prisma.empty}
+      )`);
+    }
+
+    if (filters.inStock) {
+      conditions.push(Prisma.sql`AND EXISTS (
+        SELECT 1
+        FROM product_variants v
+        JOIN warehouse_inventories wi ON wi."variantId" = v.id
+        JOIN warehouses w ON w.id = wi."warehouseId" AND w."isActive"
+        WHERE v."productId" = p.id AND v."isActive"
+        GROUP BY v.id
+        HAVING SUM(wi.available) > 0
+      )`);
+    }
+
+    for (const [name, values] of Object.entries(filters.attributes ?? {})) {
+      if (values.length === 0) continue;
+      conditions.push(Prisma.sql`AND EXISTS (
+        SELECT 1 FROM product_variants v
+        WHERE v."productId" = p.id AND v."isActive"
+          AND jsonb_typeof(v.attributes) = 'object'
+          AND v.attributes ->> ${name} IN (${Prisma.join(values)})
+      )`);
+    }
+
+    const groupIds = filters.customerGroupIds ?? [];
+    conditions.push(Prisma.sql`AND (
+      NOT EXISTS (SELECT 1 FROM product_customer_groups pcg WHERE pcg."productId" = p.id)
+      ${groupIds.length > 0
+        ? Prisma.sql`OR EXISTS (
+          SELECT 1 FROM product_customer_groups pcg
+          WHERE pcg."productId" = p.id AND pcg."groupId" IN (${Prisma.join(groupIds)})
+        )`
+        : Prisma.empty}
+    )`);
+
+    return Prisma.join(conditions, '\n');
+  }
+
+  private static buildOrderSql(sort: ProductSearchSort): Prisma.Sql {
+    switch (sort) {
+      case 'price_asc':
+        return Prisma.sql`price."minPrice" ASC NULLS LAST, h.score DESC, p.id`;
+      case 'price_desc':
+        return Prisma.sql`price."minPrice" DESC NULLS LAST, h.score DESC, p.id`;
+      case 'newest':
+        return Prisma.sql`p."createdAt" DESC, p.id`;
+      case 'name':
+        return Prisma.sql`p.name ASC, p.id`;
+      default:
+        return Prisma.sql`h.score DESC, p."createdAt" DESC, p.id`;
+    }
+  }
+
+  private static async buildFacets(productIds: string[], locale: Locale): Promise<ProductSearchFacets> {
+    const [categories, priceRows, attributeRows, availabilityRows] = await Promise.all([
+      prisma.$queryRaw<Array<{ id: string; name: string; slug: string; count: number }>>`
+        SELECT c.id, COALESCE(ct.name, c.name) AS name, c.slug, COUNT(*)::int AS count
+        FROM products p
+        JOIN categories c ON c.id = p."categoryId"
+        LEFT JOIN category_translations ct ON ct."categoryId" = c.id AND ct.locale = ${locale}
+        WHERE p.id = ANY(${productIds})
+        GROUP BY c.id, ct.name
+        ORDER BY count DESC, name ASC
+      `,
+      prisma.$queryRaw<Array<{ min: unknown; max: unknown }>>`
+        SELECT MIN(v."salePrice") AS min, MAX(v."salePrice") AS max
+        FROM product_variants v
+        WHERE v."productId" = ANY(${productIds}) AND v."isActive"
+      `,
+      prisma.$queryRaw<Array<{ name: string; value: string; count: number }>>`
+        SELECT a.key AS name, a.value, COUNT(DISTINCT v."productId")::int AS count
+        FROM product_variants v
+        CROSS JOIN LATERAL jsonb_each_text(
+          CASE WHEN jsonb_typeof(v.attributes) = 'object' THEN v.attributes ELSE '{}'::jsonb END
+        ) a
+        WHERE v."productId" = ANY(${productIds}) AND v."isActive"
+        GROUP BY a.key, a.value
+        ORDER BY a.key ASC, count DESC, a.value ASC
+      `,
+      prisma.$queryRaw<Array<{ inStock: number; outOfStock: number }>>`
+        SELECT
+          COUNT(*) FILTER (WHERE s.available > 0)::int AS "inStock",
+          COUNT(*) FILTER (WHERE s.available <= 0)::int AS "outOfStock"
+        FROM (
+          SELECT p.id, COALESCE(SUM(wi.available) FILTER (WHERE v."isActive" AND w."isActive"), 0) AS available
+          FROM products p
+          LEFT JOIN product_variants v ON v."productId" = p.id
+          LEFT JOIN warehouse_inventories wi ON wi."variantId" = v.id
+          LEFT JOIN warehouses w ON w.id = wi."warehouseId"
+          WHERE p.id = ANY(${productIds})
+          GROUP BY p.id
+        ) s
+      `,
+    ]);
+
+    const attributes: ProductSearchAttributeFacet[] = [];
+    for (const row of attributeRows) {
+      let facet = attributes.find((entry) => entry.name === row.name);
+      if (!facet) {
+        facet = { name: row.name, values: [] };
+        attributes.push(facet);
+      }
+      if (facet.values.length < MAX_ATTRIBUTE_FACET_VALUES) {
+        facet.values.push({ value: row.value, count: Number(row.count) });
+      }
+    }
+
+    const price = priceRows[0];
+    const availability = availabilityRows[0];
+
+    return {
+      categories: categories.map((row) => ({ ...row, count: Number(row.count) })),
+      price: price && price.min !== null && price.max !== null
+        ? { min: Number(price.min), max: Number(price.max) }
+        : null,
+      attributes,
+      availability: {
+        inStock: Number(availability?.inStock ?? 0),
+        outOfStock: Number(availability?.outOfStock ?? 0),
+      },
+    };
+  }
+
+  /**
+   * Build a "did you mean" query by replacing each query word with the most
+   * similar word from indexed product names. Returns null when no word changes.
+   */
+  private static async suggest(q: string, locale: Locale): Promise<string | null> {
+    const tokens = tokenize(q).slice(0, MAX_SUGGESTION_TOKENS);
+    if (tokens.length === 0) return null;
+
+    const corrected: string[] = [];
+    for (const token of tokens) {
+      if (token.length < 3) {
+        corrected.push(token);
+        continue;
+      }
+
+      const [best] = await prisma.$queryRaw<Array<{ word: string; score: number }>>`
+        SELECT w.word, similarity(w.word, ${token})::float8 AS score
+        FROM (
+          SELECT DISTINCT lower(regexp_split_to_table(d.name, '[^[:alnum:]]+')) AS word
+          FROM product_search_documents d
+          JOIN products p ON p.id = d."productId" AND p."isActive"
+          WHERE d.locale IN (${locale}, ${DEFAULT_LOCALE})
+            AND word_similarity(${token}, d.name) >= ${MIN_SUGGESTION_SIMILARITY}
+        ) w
+        WHERE length(w.word) >= 3
+        ORDER BY score DESC, w.word ASC
+        LIMIT 1
+      `;
+
+      corrected.push(best && Number(best.score) >= MIN_SUGGESTION_SIMILARITY ? best.word : token);
+    }
+
+    return corrected.some((word, index) => word !== tokens[index]) ? corrected.join(' ') : null;
+  }
+}
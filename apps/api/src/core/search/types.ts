@@ -0,0 +1,58 @@
+/**
+ * Product Search Types
+ */
+
+import type { Locale } from '@/utils/i18n';
+
+export const PRODUCT_SEARCH_SORTS = ['relevance', 'price_asc', 'price_desc', 'newest', 'name'] as const;
+
+export type ProductSearchSort = (typeof PRODUCT_SEARCH_SORTS)[number];
+
+export interface ProductSearchFilters {
+  /** Category ID; products in descendant categories match as well */
+  category?: string;
+  /** Price bounds in the shop base currency, checked against active variants */
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  /** Variant attribute filters: values of one attribute are OR-ed, attributes are AND-ed */
+  attributes?: Record<string, string[]>;
+  /** Customer groups of the shopper; products restricted to other groups are left out */
+  customerGroupIds?: string[];
+}
+
+export interface ProductSearchQuery extends ProductSearchFilters {
+  q: string;
+  locale: Locale;
+  sort?: ProductSearchSort;
+  page: number;
+  limit: number;
+}
+
+export interface ProductSearchCategoryFacet {
+  id: string;
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export interface ProductSearchAttributeFacet {
+  name: string;
+  values: Array<{ value: string; count: number }>;
+}
+
+export interface ProductSearchFacets {
+  categories: ProductSearchCategoryFacet[];
+  price: { min: number; max: number } | null;
+  attributes: ProductSearchAttributeFacet[];
+  availability: { inStock: number; outOfStock: number };
+}
+
+export interface ProductSearchMatches {
+  /** Product IDs of the requested page, in result order */
+  productIds: string[];
+  total: number;
+  facets: ProductSearchFacets;
+  /** Corrected query when nothing matched the query words exactly */
+  suggestion: string | null;
+}
@@ -226,7 +226,8 @@ export async function sitemapRoute(fastify: FastifyInstance) {
         properties: {
           includeProducts: { type: 'boolean', default: true },
           includeCategories: { type: 'boolean', default: true },
-          includePages: { type: 'boolean', default: true }
+          includePages: { type: 'boolean', default: true },
+          includeContent: { type: 'boolean', default: true }
         }
       }
     }
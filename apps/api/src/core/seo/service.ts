@@ -57,30 +57,84 @@ function serializeStructuredDataOutput(value: unknown): string | null {
   }
 }
 
+interface ProductRatingSource {
+  name: string;
+  slug: string;
+  description?: string | null;
+  ratingAverage: number;
+  reviewCount: number;
+}
+
+/**
+ * Product JSON-LD with the live review aggregate. Stored structured data gets
+ * `aggregateRating` merged in; products without stored data get the generated
+ * default once they have approved reviews. Unparseable stored strings are
+ * returned untouched.
+ */
+function productStructuredDataOutput(value: unknown, product: ProductRatingSource): string | null {
+  if (product.reviewCount <= 0) {
+    return serializeStructuredDataOutput(value);
+  }
+
+  const aggregateRating = {
+    '@type': 'AggregateRating',
+    ratingValue: product.ratingAverage,
+    reviewCount: product.reviewCount,
+    bestRating: 5,
+    worstRating: 1,
+  };
+
+  if (value === null || value === undefined) {
+    return SeoService.generateProductStructuredData({ ...product, aggregateRating });
+  }
+
+  const parsed = normalizeStructuredDataInput(value as StructuredDataInput);
+  if (!parsed || typeof parsed !== 'object') {
+    return serializeStructuredDataOutput(value);
+  }
+  return JSON.stringify({ ...parsed, aggregateRating });
+}
+
+const productSeoSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+  metaTitle: true,
+  metaDescription: true,
+  canonicalUrl: true,
+  structuredData: true,
+  ratingAverage: true,
+  reviewCount: true,
+};
+
+function formatProductSeo({ description, ratingAverage, reviewCount, ...product }: any): ProductSeoData {
+  return {
+    ...product,
+    structuredData: productStructuredDataOutput(product.structuredData, {
+      name: product.name,
+      slug: product.slug,
+      description,
+      ratingAverage,
+      reviewCount,
+    }),
+  };
+}
+
 export class SeoService {
   /**
-   * Get product SEO metadata
+   * Get product SEO metadata; the structured data carries the approved review
+   * aggregate as `aggregateRating`
    */
   static async getProductSeo(productId: string): Promise<ProductSeoData | null> {
     const product = await prisma.product.findUnique({
       where: { id: productId },
-      select: {
-        id: true,
-        name: true,
-        slug: true,
-        metaTitle: true,
-        metaDescription: true,
-        canonicalUrl: true,
-        structuredData: true,
-      },
+      select: productSeoSelect,
     });
 
     if (!product) return null;
 
-    return {
-      ...product,
-      structuredData: serializeStructuredDataOutput(product.structuredData),
-    };
+    return formatProductSeo(product);
   }
 
   /**
@@ -196,21 +250,10 @@ export class SeoService {
       where: {
         id: { in: productIds },
       },
-      select: {
-        id: true,
-        name: true,
-        slug: true,
-        metaTitle: true,
-        metaDescription: true,
-        canonicalUrl: true,
-        structuredData: true,
-      },
+      select: productSeoSelect,
     });
 
-    return products.map((product) => ({
-      ...product,
-      structuredData: serializeStructuredDataOutput(product.structuredData),
-    }));
+    return products.map(formatProductSeo);
   }
 
   /**
@@ -247,6 +290,7 @@ export class SeoService {
     slug: string;
     salePrice?: number;
     imageUrl?: string;
+    aggregateRating?: Record<string, unknown>;
   }): string {
     const structuredData = {
       '@context': 'https://schema.org',
@@ -263,6 +307,7 @@ export class SeoService {
           availability: 'https://schema.org/InStock',
         },
       }),
+      ...(product.aggregateRating && { aggregateRating: product.aggregateRating }),
     };
 
     return JSON.stringify(structuredData);
@@ -1,12 +1,14 @@
 /**
  * Sitemap Service
  *
- * Generates XML sitemaps for products, categories, and static pages.
+ * Generates XML sitemaps for products, categories, static pages and live CMS
+ * content (pages and blog posts).
  * Follows the Sitemaps protocol: https://www.sitemaps.org/protocol.html
  */
 
 import { prisma } from '@/config/database';
 import { env } from '@/config/env';
+import { ContentService } from '@/core/content/service';
 
 export interface SitemapUrl {
   loc: string; // URL of the page
@@ -20,8 +22,15 @@ export interface SitemapOptions {
   includeProducts?: boolean;
   includeCategories?: boolean;
   includePages?: boolean;
+  includeContent?: boolean;
 }
 
+/**
+ * CMS pages the storefront serves at its own top-level routes; every other
+ * page lives under /pages/:slug
+ */
+const BUILT_IN_CONTENT_PAGES = new Set(['privacy', 'terms', 'help', 'contact']);
+
 /**
  * Escape XML special characters
  */
@@ -137,6 +146,40 @@ export class SitemapService {
     }));
   }
 
+  /**
+   * Get live CMS pages and blog posts for sitemap
+   */
+  static async getContentUrls(baseUrl: string): Promise<SitemapUrl[]> {
+    const entries = await ContentService.getLiveEntries();
+    const urls: SitemapUrl[] = [];
+
+    for (const entry of entries) {
+      if (entry.type === 'PAGE') {
+        urls.push({
+          loc: BUILT_IN_CONTENT_PAGES.has(entry.slug) ? `${baseUrl}/${entry.slug}` : `${baseUrl}/pages/${entry.slug}`,
+          lastmod: formatDate(entry.updatedAt),
+          changefreq: 'monthly',
+          priority: 0.5,
+        });
+      } else {
+        urls.push({
+          loc: `${baseUrl}/blog/${entry.slug}`,
+          lastmod: formatDate(entry.updatedAt),
+          changefreq: 'monthly',
+          priority: 0.6,
+        });
+      }
+    }
+
+    const posts = entries.filter((entry) => entry.type === 'POST');
+    if (posts.length > 0) {
+      const latest = posts.reduce((max, post) => (post.updatedAt > max ? post.updatedAt : max), posts[0].updatedAt);
+      urls.push({ loc: `${baseUrl}/blog`, lastmod: formatDate(latest), changefreq: 'weekly', priority: 0.7 });
+    }
+
+    return urls;
+  }
+
   /**
    * Generate complete sitemap XML
    */
@@ -146,6 +189,7 @@ export class SitemapService {
       includeProducts = true,
       includeCategories = true,
       includePages = true,
+      includeContent = true,
     } = options;
 
     const urls: SitemapUrl[] = [];
@@ -156,6 +200,13 @@ export class SitemapService {
       urls.push(...pageUrls);
     }
 
+    // Add CMS pages and blog posts; a stored page replaces its static entry
+    if (includeContent) {
+      const contentUrls = await this.getContentUrls(baseUrl);
+      const staticLocs = new Set(urls.map((url) => url.loc));
+      urls.push(...contentUrls.filter((url) => !staticLocs.has(url.loc)));
+    }
+
     // Add categories
     if (includeCategories) {
       const categoryUrls = await this.getCategoryUrls(baseUrl);
@@ -179,21 +230,25 @@ export class SitemapService {
     productCount: number;
     categoryCount: number;
     pageCount: number;
+    contentCount: number;
     lastGenerated: string;
   }> {
-    const [productCount, categoryCount] = await Promise.all([
+    const [productCount, categoryCount, contentEntries] = await Promise.all([
       prisma.product.count(),
       prisma.category.count(),
+      ContentService.getLiveEntries(),
     ]);
+    const contentCount = contentEntries.length;
 
     // Static page count (update if more pages are added)
     const pageCount = 5;
 
     return {
-      totalUrls: productCount + categoryCount + pageCount,
+      totalUrls: productCount + categoryCount + pageCount + contentCount,
       productCount,
       categoryCount,
       pageCount,
+      contentCount,
       lastGenerated: new Date().toISOString(),
     };
   }
@@ -207,6 +262,7 @@ export class SitemapService {
 
     const sitemaps = [
       { loc: `${baseUrl}/sitemap-pages.xml`, lastmod: now },
+      { loc: `${baseUrl}/sitemap-content.xml`, lastmod: now },
       { loc: `${baseUrl}/sitemap-categories.xml`, lastmod: now },
       { loc: `${baseUrl}/sitemap-products.xml`, lastmod: now },
     ];
@@ -243,4 +299,9 @@ ${sitemapEntries}
     const pageUrls = await this.getPageUrls(baseUrl);
     return generateSitemapXml(pageUrls);
   }
+
+  static async generateContentSitemap(baseUrl: string = env.NEXT_PUBLIC_SHOP_URL): Promise<string> {
+    const contentUrls = await this.getContentUrls(baseUrl);
+    return generateSitemapXml(contentUrls);
+  }
 }
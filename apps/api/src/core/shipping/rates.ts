@@ -0,0 +1,133 @@
+/**
+ * Shipping Rate Calculation
+ *
+ * Pure helpers used by ShippingService: zone matching and per-method rates.
+ * All amounts are in the base currency.
+ *
+ * Rate types:
+ * - FLAT: `amount` per shipment
+ * - PER_ITEM: `amount` per shippable unit
+ * - WEIGHT / PRICE: the tier matching the parcel weight / subtotal
+ *
+ * Class surcharges are added per unit of items in that shipping class, and a
+ * free-shipping threshold zeroes the rate once the shippable subtotal reaches it.
+ */
+
+import { matchesPostalCode } from '@/core/tax/calculators';
+import { ShippingRateType, type ShippingAddress, type ShippingParcel, type ShippingRateTier } from './types';
+
+type ZoneCandidate = {
+  id: string;
+  country: string | null;
+  state: string | null;
+  postalCodePattern: string | null;
+  priority: number;
+};
+
+export type RatedMethod = {
+  rateType: string;
+  amount: number;
+  tiers: ShippingRateTier[];
+  classSurcharges: Record<string, number>;
+  freeShippingThreshold: number | null;
+};
+
+export type ShippingRate = {
+  amount: number;
+  freeShipping: boolean;
+};
+
+function normalizeRegion(value?: string | null): string {
+  return (value ?? '').trim().toUpperCase();
+}
+
+/**
+ * Tiers from the JSON column; malformed entries are dropped.
+ */
+export function parseShippingTiers(value: unknown): ShippingRateTier[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((tier): tier is Record<string, unknown> => !!tier && typeof tier === 'object')
+    .map((tier) => ({
+      min: Number(tier.min ?? 0),
+      max: tier.max === null || tier.max === undefined ? null : Number(tier.max),
+      amount: Number(tier.amount),
+    }))
+    .filter((tier) => Number.isFinite(tier.min) && Number.isFinite(tier.amount) && (tier.max === null || Number.isFinite(tier.max)))
+    .sort((a, b) => a.min - b.min);
+}
+
+/**
+ * Class surcharges from the JSON column; non-numeric amounts are dropped.
+ */
+export function parseClassSurcharges(value: unknown): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const surcharges: Record<string, number> = {};
+  for (const [shippingClass, amount] of Object.entries(value as Record<string, unknown>)) {
+    const parsed = Number(amount);
+    if (Number.isFinite(parsed)) surcharges[shippingClass] = parsed;
+  }
+  return surcharges;
+}
+
+/**
+ * Pick the most specific zone for an address: country-specific zones beat
+ * rest-of-world, postal pattern beats state; ties go to the higher priority.
+ */
+export function selectShippingZone<T extends ZoneCandidate>(zones: T[], address: ShippingAddress): T | null {
+  const country = normalizeRegion(address.country);
+  const state = normalizeRegion(address.state);
+  let best: { zone: T; score: number } | null = null;
+
+  for (const zone of zones) {
+    if (zone.country && normalizeRegion(zone.country) !== country) continue;
+    if (zone.state && normalizeRegion(zone.state) !== state) continue;
+    if (zone.postalCodePattern && !matchesPostalCode(zone.postalCodePattern, address.postalCode)) continue;
+
+    const score = (zone.country ? 4 : 0) + (zone.postalCodePattern ? 2 : 0) + (zone.state ? 1 : 0);
+    if (!best || score > best.score || (score === best.score && zone.priority > best.zone.priority)) {
+      best = { zone, score };
+    }
+  }
+
+  return best?.zone ?? null;
+}
+
+/**
+ * Rate of one method for a parcel, or null when the method does not apply
+ * (no tier covers the parcel).
+ */
+export function calculateShippingRate(method: RatedMethod, parcel: ShippingParcel): ShippingRate | null {
+  let amount: number;
+
+  switch (method.rateType) {
+    case ShippingRateType.PER_ITEM:
+      amount = method.amount * parcel.quantity;
+      break;
+    case ShippingRateType.WEIGHT:
+    case ShippingRateType.PRICE: {
+      const value = method.rateType === ShippingRateType.WEIGHT ? parcel.weight : parcel.subtotal;
+      const tier = method.tiers.find((candidate) =>
+        value >= candidate.min && (candidate.max === null || candidate.max === undefined || value < candidate.max)
+      );
+      if (!tier) return null;
+      amount = tier.amount;
+      break;
+    }
+    case ShippingRateType.FLAT:
+    default:
+      amount = method.amount;
+  }
+
+  for (const [shippingClass, quantity] of Object.entries(parcel.quantityByClass)) {
+    amount += (method.classSurcharges[shippingClass] ?? 0) * quantity;
+  }
+
+  if (method.freeShippingThreshold !== null && parcel.subtotal >= method.freeShippingThreshold) {
+    return { amount: 0, freeShipping: true };
+  }
+
+  return { amount: Math.max(0, amount), freeShipping: false };
+}
@@ -0,0 +1,247 @@
+/**
+ * Admin Shipping Routes
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ShippingService } from './service';
+import { ShippingRateType } from './types';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+
+const zoneProperties = {
+  name: { type: 'string', minLength: 1 },
+  country: {
+    type: 'string',
+    nullable: true,
+    minLength: 2,
+    maxLength: 2,
+    description: 'ISO 3166-1 alpha-2 country code; omit for a rest-of-world zone',
+  },
+  state: { type: 'string', nullable: true, description: 'State/province code; omit for the whole country' },
+  postalCodePattern: {
+    type: 'string',
+    nullable: true,
+    description: 'Comma-separated wildcards or numeric ranges, e.g. "90*,91000-91999"',
+  },
+  priority: { type: 'integer', description: 'Breaks ties between equally specific zones (higher wins)' },
+  isActive: { type: 'boolean' },
+};
+
+const tierSchema = {
+  type: 'object',
+  required: ['min', 'amount'],
+  properties: {
+    min: { type: 'number', minimum: 0, description: 'Inclusive lower bound (weight or subtotal)' },
+    max: { type: 'number', nullable: true, description: 'Exclusive upper bound; omit for open-ended' },
+    amount: { type: 'number', minimum: 0 },
+  },
+};
+
+const methodProperties = {
+  name: { type: 'string', minLength: 1 },
+  description: { type: 'string', nullable: true },
+  rateType: { type: 'string', enum: Object.values(ShippingRateType) },
+  amount: { type: 'number', minimum: 0, description: 'FLAT: per shipment, PER_ITEM: per unit (base currency)' },
+  tiers: { type: 'array', nullable: true, items: tierSchema, description: 'WEIGHT / PRICE rate table' },
+  classSurcharges: {
+    type: 'object',
+    nullable: true,
+    additionalProperties: { type: 'number', minimum: 0 },
+    description: 'Extra amount per unit by product shippingClass',
+  },
+  freeShippingThreshold: { type: 'number', nullable: true, minimum: 0, description: 'Free at or above this shippable subtotal' },
+  minDeliveryDays: { type: 'integer', nullable: true, minimum: 0 },
+  maxDeliveryDays: { type: 'integer', nullable: true, minimum: 0 },
+  sortOrder: { type: 'integer' },
+  isActive: { type: 'boolean' },
+};
+
+export async function adminShippingRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin shipping routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // Get shipping zones with their methods
+  fastify.get('/zones', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Get shipping zones',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          country: { type: 'string' },
+          isActive: { type: 'boolean' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const filters = request.query as any;
+      const zones = await ShippingService.getZones(filters);
+      return sendSuccess(reply, zones);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Get single shipping zone
+  fastify.get('/zones/:id', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Get shipping zone by ID',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const zone = await ShippingService.getZoneById(id);
+      return sendSuccess(reply, zone);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Create shipping zone
+  fastify.post('/zones', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Create shipping zone',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name', 'country'],
+        properties: zoneProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const zone = await ShippingService.createZone(request.body as any);
+      return sendSuccess(reply, zone, undefined, 201);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Update shipping zone
+  fastify.put('/zones/:id', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Update shipping zone',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: zoneProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const zone = await ShippingService.updateZone(id, request.body as any);
+      return sendSuccess(reply, zone);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Delete shipping zone (and its methods)
+  fastify.delete('/zones/:id', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Delete shipping zone',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      await ShippingService.deleteZone(id);
+      return sendSuccess(reply, { success: true });
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Add method to shipping zone
+  fastify.post('/zones/:id/methods', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Create shipping method',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name'],
+        properties: methodProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const method = await ShippingService.createMethod(id, request.body as any);
+      return sendSuccess(reply, method, undefined, 201);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      if (error.message.startsWith('Invalid')) {
+        return sendError(reply, 400, 'VALIDATION_ERROR', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Update shipping method
+  fastify.put('/zones/:id/methods/:methodId', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Update shipping method',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: methodProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, methodId } = request.params as any;
+      const method = await ShippingService.updateMethod(id, methodId, request.body as any);
+      return sendSuccess(reply, method);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      if (error.message.startsWith('Invalid')) {
+        return sendError(reply, 400, 'VALIDATION_ERROR', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Delete shipping method
+  fastify.delete('/zones/:id/methods/:methodId', {
+    schema: {
+      tags: ['admin-shipping'],
+      summary: 'Delete shipping method',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, methodId } = request.params as any;
+      await ShippingService.deleteMethod(id, methodId);
+      return sendSuccess(reply, { success: true });
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+}
@@ -0,0 +1,372 @@
+/**
+ * Shipping Service
+ *
+ * Offers shipping methods for a destination and cart contents, prices them,
+ * and manages shipping zones/methods.
+ *
+ * Only items that require shipping and are not fulfilled by a supplier count
+ * towards weight, subtotal and quantity. Method amounts are configured in the
+ * base currency and converted when another currency is requested.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { CurrencyService, roundCurrencyAmount } from '@/core/currency/service';
+import { getSupplierProductProfile } from '@/core/external-orders/utils';
+import {
+  calculateShippingRate,
+  parseClassSurcharges,
+  parseShippingTiers,
+  selectShippingZone,
+} from './rates';
+import {
+  ShippingRateType,
+  type CreateShippingMethodRequest,
+  type CreateShippingZoneRequest,
+  type ShippingAddress,
+  type ShippingItemInput,
+  type ShippingMethodResponse,
+  type ShippingOption,
+  type ShippingParcel,
+  type ShippingRateTypeValue,
+  type ShippingZoneResponse,
+  type UpdateShippingMethodRequest,
+  type UpdateShippingZoneRequest,
+} from './types';
+
+const RATE_TYPES = Object.values(ShippingRateType) as string[];
+
+function normalizeCountry(country?: string | null): string | null {
+  const value = country?.trim().toUpperCase();
+  return value || null;
+}
+
+function toNullableNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+type ShippingMethodRecord = {
+  id: string;
+  zoneId: string;
+  name: string;
+  description: string | null;
+  rateType: string;
+  amount: unknown;
+  tiers: unknown;
+  classSurcharges: unknown;
+  freeShippingThreshold: unknown;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function formatShippingMethod(method: ShippingMethodRecord): ShippingMethodResponse {
+  return {
+    id: method.id,
+    zoneId: method.zoneId,
+    name: method.name,
+    description: method.description,
+    rateType: method.rateType as ShippingRateTypeValue,
+    amount: Number(method.amount),
+    tiers: parseShippingTiers(method.tiers),
+    classSurcharges: parseClassSurcharges(method.classSurcharges),
+    freeShippingThreshold: toNullableNumber(method.freeShippingThreshold),
+    minDeliveryDays: method.minDeliveryDays,
+    maxDeliveryDays: method.maxDeliveryDays,
+    sortOrder: method.sortOrder,
+    isActive: method.isActive,
+    createdAt: method.createdAt.toISOString(),
+    updatedAt: method.updatedAt.toISOString(),
+  };
+}
+
+function formatShippingZone(zone: {
+  id: string;
+  name: string;
+  country: string | null;
+  state: string | null;
+  postalCodePattern: string | null;
+  priority: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  methods?: ShippingMethodRecord[];
+}): ShippingZoneResponse {
+  return {
+    id: zone.id,
+    name: zone.name,
+    country: zone.country,
+    state: zone.state,
+    postalCodePattern: zone.postalCodePattern,
+    priority: zone.priority,
+    isActive: zone.isActive,
+    methods: (zone.methods ?? []).map(formatShippingMethod),
+    createdAt: zone.createdAt.toISOString(),
+    updatedAt: zone.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Reject method settings that could never produce a rate
+ */
+function validateMethod(data: UpdateShippingMethodRequest, rateType: string, tiers: unknown): void {
+  if (!RATE_TYPES.includes(rateType)) {
+    throw new Error(`Invalid shipping rate type: ${rateType}`);
+  }
+  if ((rateType === ShippingRateType.WEIGHT || rateType === ShippingRateType.PRICE) && parseShippingTiers(tiers).length === 0) {
+    throw new Error(`Invalid shipping method: ${rateType} rates need at least one tier`);
+  }
+  if (
+    data.minDeliveryDays !== undefined && data.minDeliveryDays !== null &&
+    data.maxDeliveryDays !== undefined && data.maxDeliveryDays !== null &&
+    data.minDeliveryDays > data.maxDeliveryDays
+  ) {
+    throw new Error('Invalid shipping method: minDeliveryDays exceeds maxDeliveryDays');
+  }
+}
+
+export class ShippingService {
+  private static currencyService = new CurrencyService();
+
+  /**
+   * Shippable contents of a set of lines, or null when nothing needs shipping
+   */
+  static async buildParcel(items: ShippingItemInput[]): Promise<ShippingParcel | null> {
+    const productIds = Array.from(new Set(items.map((item) => item.productId)));
+    if (productIds.length === 0) return null;
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, weight: true, requiresShipping: true, shippingClass: true, typeData: true },
+    });
+    const productMap = new Map(products.map((product) => [product.id, product]));
+
+    const parcel: ShippingParcel = { weight: 0, subtotal: 0, quantity: 0, quantityByClass: {} };
+    for (const item of items) {
+      const product = productMap.get(item.productId);
+      if (!product?.requiresShipping || getSupplierProductProfile(product.typeData).isSupplierProduct) continue;
+
+      parcel.weight += (product.weight ?? 0) * item.quantity;
+      parcel.subtotal += item.amount;
+      parcel.quantity += item.quantity;
+      if (product.shippingClass) {
+        parcel.quantityByClass[product.shippingClass] = (parcel.quantityByClass[product.shippingClass] ?? 0) + item.quantity;
+      }
+    }
+
+    return parcel.quantity > 0 ? parcel : null;
+  }
+
+  /**
+   * Methods available for a destination, cheapest first.
+   * Returns an empty list when nothing needs shipping or no zone covers the address.
+   *
+   * @param params.currency Currency for amounts (defaults to the base currency)
+   * @param params.freeShipping Zero every rate (an applied FREE_SHIPPING discount)
+   */
+  static async getOptions(params: {
+    address: ShippingAddress;
+    items: ShippingItemInput[];
+    currency?: string;
+    freeShipping?: boolean;
+  }): Promise<ShippingOption[]> {
+    const country = normalizeCountry(params.address.country);
+    const parcel = await this.buildParcel(params.items);
+    if (!parcel || !country) return [];
+
+    const zones = await prisma.shippingZone.findMany({
+      where: { isActive: true, OR: [{ country }, { country: null }] },
+      include: { methods: { where: { isActive: true }, orderBy: { sortOrder: 'asc' } } },
+    });
+    const zone = selectShippingZone(zones, { ...params.address, country });
+    if (!zone) return [];
+
+    const baseCurrency = await this.currencyService.getBaseCurrency();
+    const currency = params.currency ?? baseCurrency;
+    const options: ShippingOption[] = [];
+
+    for (const method of zone.methods) {
+      const rate = calculateShippingRate({
+        rateType: method.rateType,
+        amount: Number(method.amount),
+        tiers: parseShippingTiers(method.tiers),
+        classSurcharges: parseClassSurcharges(method.classSurcharges),
+        freeShippingThreshold: toNullableNumber(method.freeShippingThreshold),
+      }, parcel);
+      if (!rate) continue;
+
+      const freeShipping = rate.freeShipping || params.freeShipping === true;
+      const amount = freeShipping ? 0 : roundCurrencyAmount(
+        currency === baseCurrency ? rate.amount : await this.currencyService.convertFromBase(rate.amount, currency),
+        currency
+      );
+
+      options.push({
+        id: method.id,
+        name: method.name,
+        description: method.description,
+        zoneId: zone.id,
+        zoneName: zone.name,
+        amount,
+        currency,
+        freeShipping,
+        minDeliveryDays: method.minDeliveryDays,
+        maxDeliveryDays: method.maxDeliveryDays,
+      });
+    }
+
+    return options.sort((a, b) => a.amount - b.amount);
+  }
+
+  // ============================================
+  // Zones
+  // ============================================
+
+  static async getZones(filters: { country?: string; isActive?: boolean } = {}): Promise<ShippingZoneResponse[]> {
+    const zones = await prisma.shippingZone.findMany({
+      where: {
+        ...(filters.country ? { country: normalizeCountry(filters.country) } : {}),
+        ...(filters.isActive !== undefined ? { isActive: filters.isActive } : {}),
+      },
+      include: { methods: { orderBy: { sortOrder: 'asc' } } },
+      orderBy: [{ country: 'asc' }, { priority: 'desc' }, { name: 'asc' }],
+    });
+    return zones.map(formatShippingZone);
+  }
+
+  static async getZoneById(id: string): Promise<ShippingZoneResponse> {
+    const zone = await prisma.shippingZone.findUnique({
+      where: { id },
+      include: { methods: { orderBy: { sortOrder: 'asc' } } },
+    });
+    if (!zone) {
+      throw new Error('Shipping zone not found');
+    }
+    return formatShippingZone(zone);
+  }
+
+  static async createZone(data: CreateShippingZoneRequest): Promise<ShippingZoneResponse> {
+    const zone = await prisma.shippingZone.create({
+      data: {
+        name: data.name.trim(),
+        country: normalizeCountry(data.country),
+        state: data.state?.trim() || null,
+        postalCodePattern: data.postalCodePattern?.trim() || null,
+        priority: data.priority ?? 0,
+        isActive: data.isActive ?? true,
+      },
+      include: { methods: true },
+    });
+    return formatShippingZone(zone);
+  }
+
+  static async updateZone(id: string, data: UpdateShippingZoneRequest): Promise<ShippingZoneResponse> {
+    await this.getZoneById(id);
+
+    await prisma.shippingZone.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.country !== undefined ? { country: normalizeCountry(data.country) } : {}),
+        ...(data.state !== undefined ? { state: data.state?.trim() || null } : {}),
+        ...(data.postalCodePattern !== undefined ? { postalCodePattern: data.postalCodePattern?.trim() || null } : {}),
+        ...(data.priority !== undefined ? { priority: data.priority } : {}),
+        ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      },
+    });
+
+    return this.getZoneById(id);
+  }
+
+  static async deleteZone(id: string): Promise<void> {
+    await this.getZoneById(id);
+    await prisma.shippingZone.delete({ where: { id } });
+  }
+
+  // ============================================
+  // Methods
+  // ============================================
+
+  static async createMethod(zoneId: string, data: CreateShippingMethodRequest): Promise<ShippingMethodResponse> {
+    await this.getZoneById(zoneId);
+
+    const rateType = data.rateType ?? ShippingRateType.FLAT;
+    validateMethod(data, rateType, data.tiers);
+
+    const method = await prisma.shippingMethod.create({
+      data: {
+        zoneId,
+        name: data.name.trim(),
+        description: data.description?.trim() || null,
+        rateType,
+        amount: data.amount ?? 0,
+        tiers: data.tiers ? (parseShippingTiers(data.tiers) as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        classSurcharges: data.classSurcharges
+          ? (parseClassSurcharges(data.classSurcharges) as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        freeShippingThreshold: data.freeShippingThreshold ?? null,
+        minDeliveryDays: data.minDeliveryDays ?? null,
+        maxDeliveryDays: data.maxDeliveryDays ?? null,
+        sortOrder: data.sortOrder ?? 0,
+        isActive: data.isActive ?? true,
+      },
+    });
+    return formatShippingMethod(method);
+  }
+
+  static async updateMethod(
+    zoneId: string,
+    methodId: string,
+    data: UpdateShippingMethodRequest
+  ): Promise<ShippingMethodResponse> {
+    const existing = await prisma.shippingMethod.findFirst({ where: { id: methodId, zoneId } });
+    if (!existing) {
+      throw new Error('Shipping method not found');
+    }
+
+    validateMethod(
+      {
+        minDeliveryDays: data.minDeliveryDays !== undefined ? data.minDeliveryDays : existing.minDeliveryDays,
+        maxDeliveryDays: data.maxDeliveryDays !== undefined ? data.maxDeliveryDays : existing.maxDeliveryDays,
+      },
+      data.rateType ?? existing.rateType,
+      data.tiers !== undefined ? data.tiers : existing.tiers
+    );
+
+    const method = await prisma.shippingMethod.update({
+      where: { id: methodId },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.description !== undefined ? { description: data.description?.trim() || null } : {}),
+        ...(data.rateType !== undefined ? { rateType: data.rateType } : {}),
+        ...(data.amount !== undefined ? { amount: data.amount } : {}),
+        ...(data.tiers !== undefined
+          ? { tiers: data.tiers ? (parseShippingTiers(data.tiers) as unknown as Prisma.InputJsonValue) : Prisma.DbNull }
+          : {}),
+        ...(data.classSurcharges !== undefined
+          ? {
+            classSurcharges: data.classSurcharges
+              ? (parseClassSurcharges(data.classSurcharges) as Prisma.InputJsonValue)
+              : Prisma.DbNull,
+          }
+          : {}),
+        ...(data.freeShippingThreshold !== undefined ? { freeShippingThreshold: data.freeShippingThreshold } : {}),
+        ...(data.minDeliveryDays !== undefined ? { minDeliveryDays: data.minDeliveryDays } : {}),
+        ...(data.maxDeliveryDays !== undefined ? { maxDeliveryDays: data.maxDeliveryDays } : {}),
+        ...(data.sortOrder !== undefined ? { sortOrder: data.sortOrder } : {}),
+        ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      },
+    });
+    return formatShippingMethod(method);
+  }
+
+  static async deleteMethod(zoneId: string, methodId: string): Promise<void> {
+    const result = await prisma.shippingMethod.deleteMany({ where: { id: methodId, zoneId } });
+    if (result.count === 0) {
+      throw new Error('Shipping method not found');
+    }
+  }
+}
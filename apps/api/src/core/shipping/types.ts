@@ -0,0 +1,126 @@
+/**
+ * Shipping Types
+ *
+ * Shared shapes for shipping rate calculation (cart options, order creation)
+ * and admin management of shipping zones and methods.
+ */
+
+export const ShippingRateType = {
+  FLAT: 'FLAT',
+  WEIGHT: 'WEIGHT',
+  PRICE: 'PRICE',
+  PER_ITEM: 'PER_ITEM',
+} as const;
+
+export type ShippingRateTypeValue = typeof ShippingRateType[keyof typeof ShippingRateType];
+
+/**
+ * Destination the rates are calculated for
+ */
+export interface ShippingAddress {
+  country: string;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+/**
+ * One tier of a WEIGHT or PRICE table. `min` is inclusive, `max` exclusive
+ * (omit for open-ended).
+ */
+export interface ShippingRateTier {
+  min: number;
+  max?: number | null;
+  amount: number;
+}
+
+/**
+ * Cart/order line to ship. `amount` is the line total in the base currency.
+ */
+export interface ShippingItemInput {
+  productId: string;
+  quantity: number;
+  amount: number;
+}
+
+/**
+ * Shippable contents of a cart: only items that require shipping and are not
+ * fulfilled by a supplier
+ */
+export interface ShippingParcel {
+  weight: number;
+  subtotal: number;
+  quantity: number;
+  quantityByClass: Record<string, number>;
+}
+
+export interface ShippingOption {
+  id: string;
+  name: string;
+  description: string | null;
+  zoneId: string;
+  zoneName: string;
+  amount: number;
+  currency: string;
+  /** Free through the method's threshold or a FREE_SHIPPING discount */
+  freeShipping: boolean;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+}
+
+export interface CreateShippingZoneRequest {
+  name: string;
+  country?: string | null;
+  state?: string | null;
+  postalCodePattern?: string | null;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export type UpdateShippingZoneRequest = Partial<CreateShippingZoneRequest>;
+
+export interface CreateShippingMethodRequest {
+  name: string;
+  description?: string | null;
+  rateType?: ShippingRateTypeValue;
+  amount?: number;
+  tiers?: ShippingRateTier[] | null;
+  classSurcharges?: Record<string, number> | null;
+  freeShippingThreshold?: number | null;
+  minDeliveryDays?: number | null;
+  maxDeliveryDays?: number | null;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export type UpdateShippingMethodRequest = Partial<CreateShippingMethodRequest>;
+
+export interface ShippingMethodResponse {
+  id: string;
+  zoneId: string;
+  name: string;
+  description: string | null;
+  rateType: ShippingRateTypeValue;
+  amount: number;
+  tiers: ShippingRateTier[];
+  classSurcharges: Record<string, number>;
+  freeShippingThreshold: number | null;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShippingZoneResponse {
+  id: string;
+  name: string;
+  country: string | null;
+  state: string | null;
+  postalCodePattern: string | null;
+  priority: number;
+  isActive: boolean;
+  methods: ShippingMethodResponse[];
+  createdAt: string;
+  updatedAt: string;
+}
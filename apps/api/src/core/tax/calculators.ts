@@ -0,0 +1,277 @@
+/**
+ * Tax Calculators
+ *
+ * A calculator turns taxable lines plus a destination address into per-line
+ * tax amounts. TaxService picks one per calculation:
+ * - `builtin`: tax zones and rates configured in the admin (default)
+ * - plugin: an installed plugin named by the `tax.calculator` setting; see
+ *   PluginTaxCalculator for the request the plugin must answer
+ *
+ * Register an in-process calculator with `setTaxCalculator()` to bypass both.
+ */
+
+import { prisma } from '@/config/database';
+import { roundCurrencyAmount } from '@/core/currency/service';
+import { callPluginApi } from '@/core/admin/extension-installer/plugin-api-client';
+import type {
+  TaxAddress,
+  TaxCalculationInput,
+  TaxCalculationResult,
+  TaxComponent,
+  TaxLineInput,
+  TaxLineResult,
+} from './types';
+
+export interface TaxCalculator {
+  /** Reported as TaxCalculationResult.calculator */
+  readonly name: string;
+  calculate(input: TaxCalculationInput): Promise<TaxCalculationResult>;
+}
+
+export type ApplicableTaxRate = {
+  id?: string;
+  name: string;
+  /** Percentage, e.g. 8.25 */
+  rate: number;
+  isCompound: boolean;
+  priority: number;
+};
+
+type ZoneCandidate = {
+  id: string;
+  state: string | null;
+  postalCodePattern: string | null;
+  priority: number;
+};
+
+function normalizeRegion(value?: string | null): string {
+  return (value ?? '').trim().toUpperCase();
+}
+
+function normalizePostalCode(value?: string | null): string {
+  return (value ?? '').replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Match a postal code against a zone pattern.
+ *
+ * Patterns are comma-separated entries, each either a wildcard (`90*`, `SW1A*`)
+ * or an inclusive numeric range (`90000-90299`).
+ */
+export function matchesPostalCode(pattern: string, postalCode?: string | null): boolean {
+  const code = normalizePostalCode(postalCode);
+  if (!code) return false;
+
+  return pattern.split(',').some((rawEntry) => {
+    const entry = normalizePostalCode(rawEntry);
+    if (!entry) return false;
+
+    const range = entry.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      if (!/^\d+$/.test(code)) return false;
+      const value = Number(code);
+      return value >= Number(range[1]) && value <= Number(range[2]);
+    }
+
+    const escaped = entry.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`).test(code);
+  });
+}
+
+/**
+ * Pick the most specific zone for an address: postal pattern beats state,
+ * state beats country-wide; ties go to the higher priority.
+ */
+export function selectTaxZone<T extends ZoneCandidate>(zones: T[], address: TaxAddress): T | null {
+  const state = normalizeRegion(address.state);
+  let best: { zone: T; score: number } | null = null;
+
+  for (const zone of zones) {
+    if (zone.state && normalizeRegion(zone.state) !== state) continue;
+    if (zone.postalCodePattern && !matchesPostalCode(zone.postalCodePattern, address.postalCode)) continue;
+
+    const score = (zone.postalCodePattern ? 2 : 0) + (zone.state ? 1 : 0);
+    if (!best || score > best.score || (score === best.score && zone.priority > best.zone.priority)) {
+      best = { zone, score };
+    }
+  }
+
+  return best?.zone ?? null;
+}
+
+/**
+ * Tax for one line.
+ *
+ * Simple rates apply to the net amount; compound rates apply, in priority
+ * order, to the net amount plus all tax before them. For tax-inclusive prices
+ * the net amount is backed out of the gross line amount first.
+ */
+export function calculateLineTax(
+  line: TaxLineInput,
+  rates: ApplicableTaxRate[],
+  currency: string,
+  pricesIncludeTax: boolean
+): TaxLineResult {
+  const ordered = [...rates].sort((a, b) => a.priority - b.priority);
+  const simple = ordered.filter((rate) => !rate.isCompound);
+  const compound = ordered.filter((rate) => rate.isCompound);
+
+  let multiplier = 1 + simple.reduce((sum, rate) => sum + rate.rate / 100, 0);
+  for (const rate of compound) {
+    multiplier *= 1 + rate.rate / 100;
+  }
+
+  const net = pricesIncludeTax ? line.amount / multiplier : line.amount;
+  const breakdown: TaxComponent[] = [];
+
+  let running = net;
+  for (const rate of simple) {
+    const amount = (net * rate.rate) / 100;
+    running += amount;
+    breakdown.push({ rateId: rate.id, name: rate.name, rate: rate.rate, compound: false, amount });
+  }
+  for (const rate of compound) {
+    const amount = (running * rate.rate) / 100;
+    running += amount;
+    breakdown.push({ rateId: rate.id, name: rate.name, rate: rate.rate, compound: true, amount });
+  }
+
+  const rounded = breakdown.map((component) => ({
+    ...component,
+    amount: roundCurrencyAmount(component.amount, currency),
+  }));
+
+  return {
+    id: line.id,
+    taxAmount: roundCurrencyAmount(rounded.reduce((sum, component) => sum + component.amount, 0), currency),
+    taxRate: Math.round((multiplier - 1) * 100 * 10000) / 10000,
+    breakdown: rounded,
+  };
+}
+
+function zeroResult(name: string, input: TaxCalculationInput): TaxCalculationResult {
+  return {
+    calculator: name,
+    pricesIncludeTax: input.pricesIncludeTax,
+    taxAmount: 0,
+    lines: input.lines.map((line) => ({ id: line.id, taxAmount: 0, taxRate: 0, breakdown: [] })),
+  };
+}
+
+/**
+ * Built-in calculator backed by TaxZone / TaxRate.
+ *
+ * Lines use the zone's rates for their product tax class, falling back to the
+ * zone's standard (class-less) rates when the class has none. Use a 0% rate
+ * for a class to make it exempt.
+ */
+export class ZoneTaxCalculator implements TaxCalculator {
+  readonly name = 'builtin';
+
+  async calculate(input: TaxCalculationInput): Promise<TaxCalculationResult> {
+    if (!input.address?.country || input.lines.length === 0) {
+      return zeroResult(this.name, input);
+    }
+
+    const zones = await prisma.taxZone.findMany({
+      where: { country: normalizeRegion(input.address.country), isActive: true },
+      include: { rates: { where: { isActive: true } } },
+    });
+    const zone = selectTaxZone(zones, input.address);
+    if (!zone) {
+      return zeroResult(this.name, input);
+    }
+
+    const ratesByClass = new Map<string, ApplicableTaxRate[]>();
+    for (const rate of zone.rates) {
+      const key = rate.taxClass ?? '';
+      ratesByClass.set(key, [
+        ...(ratesByClass.get(key) ?? []),
+        { id: rate.id, name: rate.name, rate: Number(rate.rate), isCompound: rate.isCompound, priority: rate.priority },
+      ]);
+    }
+
+    const lines = input.lines.map((line) => {
+      const rates = (line.taxClass && ratesByClass.get(line.taxClass)) || ratesByClass.get('') || [];
+      return calculateLineTax(line, rates, input.currency, input.pricesIncludeTax);
+    });
+
+    return {
+      calculator: this.name,
+      pricesIncludeTax: input.pricesIncludeTax,
+      taxAmount: roundCurrencyAmount(lines.reduce((sum, line) => sum + line.taxAmount, 0), input.currency),
+      lines,
+    };
+  }
+}
+
+/**
+ * Delegates to an installed plugin.
+ *
+ * Plugin contract: the plugin serves `POST /tax/calculate`, reached through the
+ * gateway at `/api/extensions/plugin/<slug>/api/tax/calculate`. It receives the
+ * TaxCalculationInput as JSON and must answer with
+ * `{ lines: [{ id, taxAmount, taxRate?, breakdown? }] }` (optionally wrapped in `data`).
+ */
+export class PluginTaxCalculator implements TaxCalculator {
+  readonly name: string;
+
+  constructor(private readonly pluginSlug: string) {
+    this.name = `plugin:${pluginSlug}`;
+  }
+
+  async calculate(input: TaxCalculationInput): Promise<TaxCalculationResult> {
+    const result = await callPluginApi({
+      pluginSlug: this.pluginSlug,
+      path: '/api/tax/calculate',
+      body: input as unknown as Record<string, unknown>,
+    });
+
+    if (!result.ok) {
+      const message = typeof result.payload?.message === 'string' ? result.payload.message : `status ${result.status}`;
+      throw new Error(`Tax plugin ${this.pluginSlug} failed: ${message}`);
+    }
+
+    const body = (result.payload?.data ?? result.payload) as { lines?: unknown };
+    const returned = new Map<string, Record<string, unknown>>();
+    if (Array.isArray(body?.lines)) {
+      for (const line of body.lines as Array<Record<string, unknown>>) {
+        if (line && typeof line.id === 'string') returned.set(line.id, line);
+      }
+    }
+
+    const lines = input.lines.map((line) => {
+      const answer = returned.get(line.id);
+      const taxAmount = Number(answer?.taxAmount);
+      if (!answer || !Number.isFinite(taxAmount) || taxAmount < 0) {
+        throw new Error(`Tax plugin ${this.pluginSlug} returned no tax for line ${line.id}`);
+      }
+      return {
+        id: line.id,
+        taxAmount: roundCurrencyAmount(taxAmount, input.currency),
+        taxRate: Number(answer.taxRate) || 0,
+        breakdown: Array.isArray(answer.breakdown) ? (answer.breakdown as TaxComponent[]) : [],
+      };
+    });
+
+    return {
+      calculator: this.name,
+      pricesIncludeTax: input.pricesIncludeTax,
+      taxAmount: roundCurrencyAmount(lines.reduce((sum, line) => sum + line.taxAmount, 0), input.currency),
+      lines,
+    };
+  }
+}
+
+let customCalculator: TaxCalculator | null = null;
+
+/**
+ * In-process calculator override (takes precedence over settings).
+ */
+export function getCustomTaxCalculator(): TaxCalculator | null {
+  return customCalculator;
+}
+
+export function setTaxCalculator(calculator: TaxCalculator | null): void {
+  customCalculator = calculator;
+}
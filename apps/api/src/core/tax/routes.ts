@@ -0,0 +1,269 @@
+/**
+ * Admin Tax Routes
+ */
+
+import { FastifyInstance } from 'fastify';
+import { TaxService } from './service';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+import { systemSettingsService } from '@/core/admin/system-settings/service';
+
+const zoneProperties = {
+  name: { type: 'string', minLength: 1 },
+  country: { type: 'string', minLength: 2, maxLength: 2, description: 'ISO 3166-1 alpha-2 country code' },
+  state: { type: 'string', nullable: true, description: 'State/province code; omit for the whole country' },
+  postalCodePattern: {
+    type: 'string',
+    nullable: true,
+    description: 'Comma-separated wildcards or numeric ranges, e.g. "90*,91000-91999"',
+  },
+  priority: { type: 'integer', description: 'Breaks ties between equally specific zones (higher wins)' },
+  isActive: { type: 'boolean' },
+};
+
+const rateProperties = {
+  name: { type: 'string', minLength: 1 },
+  rate: { type: 'number', minimum: 0, maximum: 100, description: 'Percentage, e.g. 8.25' },
+  taxClass: { type: 'string', nullable: true, description: 'Product tax class; omit for standard rates' },
+  isCompound: { type: 'boolean', description: 'Apply on top of the tax of lower-priority rates' },
+  priority: { type: 'integer', description: 'Application order (ascending)' },
+  isActive: { type: 'boolean' },
+};
+
+export async function adminTaxRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all admin tax routes (before schema validation)
+  fastify.addHook('onRequest', authMiddleware);
+  fastify.addHook('onRequest', requireAdmin);
+
+  // Get tax zones with their rates
+  fastify.get('/zones', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Get tax zones',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          country: { type: 'string' },
+          isActive: { type: 'boolean' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const filters = request.query as any;
+      const zones = await TaxService.getZones(filters);
+      return sendSuccess(reply, zones);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Get single tax zone
+  fastify.get('/zones/:id', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Get tax zone by ID',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const zone = await TaxService.getZoneById(id);
+      return sendSuccess(reply, zone);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Create tax zone
+  fastify.post('/zones', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Create tax zone',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name', 'country'],
+        properties: zoneProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const zone = await TaxService.createZone(request.body as any);
+      return sendSuccess(reply, zone, undefined, 201);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Update tax zone
+  fastify.put('/zones/:id', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Update tax zone',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: zoneProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const zone = await TaxService.updateZone(id, request.body as any);
+      return sendSuccess(reply, zone);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Delete tax zone (and its rates)
+  fastify.delete('/zones/:id', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Delete tax zone',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      await TaxService.deleteZone(id);
+      return sendSuccess(reply, { success: true });
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Add rate to tax zone
+  fastify.post('/zones/:id/rates', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Create tax rate',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['name', 'rate'],
+        properties: rateProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const rate = await TaxService.createRate(id, request.body as any);
+      return sendSuccess(reply, rate, undefined, 201);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Update tax rate
+  fastify.put('/zones/:id/rates/:rateId', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Update tax rate',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        properties: rateProperties
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, rateId } = request.params as any;
+      const rate = await TaxService.updateRate(id, rateId, request.body as any);
+      return sendSuccess(reply, rate);
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Delete tax rate
+  fastify.delete('/zones/:id/rates/:rateId', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Delete tax rate',
+      security: [{ bearerAuth: [] }]
+    }
+  }, async (request, reply) => {
+    try {
+      const { id, rateId } = request.params as any;
+      await TaxService.deleteRate(id, rateId);
+      return sendSuccess(reply, { success: true });
+    } catch (error: any) {
+      if (error.message.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+
+  // Preview tax for an address and set of lines
+  fastify.post('/calculate', {
+    schema: {
+      tags: ['admin-tax'],
+      summary: 'Preview tax calculation',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['lines'],
+        properties: {
+          address: {
+            type: 'object',
+            required: ['country'],
+            properties: {
+              country: { type: 'string' },
+              state: { type: 'string' },
+              postalCode: { type: 'string' }
+            }
+          },
+          currency: { type: 'string', minLength: 3, maxLength: 3 },
+          discountAmount: { type: 'number', minimum: 0 },
+          lines: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['id', 'productId', 'quantity', 'amount'],
+              properties: {
+                id: { type: 'string' },
+                productId: { type: 'string' },
+                variantId: { type: 'string' },
+                quantity: { type: 'integer', minimum: 1 },
+                amount: { type: 'number', minimum: 0 }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const { address, currency, discountAmount, lines } = request.body as any;
+      const result = await TaxService.quote({
+        address,
+        currency: currency?.toUpperCase() || await systemSettingsService.getShopCurrency(),
+        lines,
+        discountAmount,
+      });
+      return sendSuccess(reply, result);
+    } catch (error: any) {
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', error.message);
+    }
+  });
+}
@@ -0,0 +1,335 @@
+/**
+ * Tax Service
+ *
+ * Calculates tax for cart previews and orders, and manages tax zones/rates.
+ *
+ * Store settings:
+ * - `tax.pricesIncludeTax`: catalog prices already contain tax (tax is backed out
+ *   and reported, totals are unchanged) instead of being added on top
+ * - `tax.calculator`: plugin slug of an external tax calculator (empty = built-in zones)
+ * - `tax.defaultCountry` / `tax.defaultState`: destination used when no address is known
+ */
+
+import { prisma } from '@/config/database';
+import { systemSettingsService } from '@/core/admin/system-settings/service';
+import { roundCurrencyAmount } from '@/core/currency/service';
+import { LoggerService } from '@/core/logger/unified-logger';
+import {
+  getCustomTaxCalculator,
+  PluginTaxCalculator,
+  ZoneTaxCalculator,
+  type TaxCalculator,
+} from './calculators';
+import type {
+  CreateTaxRateRequest,
+  CreateTaxZoneRequest,
+  TaxAddress,
+  TaxCalculationInput,
+  TaxCalculationResult,
+  TaxRateResponse,
+  TaxZoneResponse,
+  UpdateTaxRateRequest,
+  UpdateTaxZoneRequest,
+} from './types';
+
+export interface TaxSettings {
+  pricesIncludeTax: boolean;
+  calculator: string | null;
+  defaultAddress: TaxAddress | null;
+}
+
+export interface TaxQuoteLine {
+  id: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  /** Line total before order-level discounts */
+  amount: number;
+}
+
+/**
+ * Spread an order-level discount over lines proportionally to their amounts.
+ * The last line absorbs rounding so the parts always add up to the discount.
+ */
+export function allocateDiscount(amounts: number[], discount: number, currency: string): number[] {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (discount <= 0 || total <= 0) {
+    return amounts.map(() => 0);
+  }
+
+  const capped = Math.min(discount, total);
+  let remaining = capped;
+  return amounts.map((amount, index) => {
+    if (index === amounts.length - 1) {
+      return roundCurrencyAmount(remaining, currency);
+    }
+    const share = roundCurrencyAmount((capped * amount) / total, currency);
+    remaining -= share;
+    return share;
+  });
+}
+
+function normalizeCountry(country: string): string {
+  return country.trim().toUpperCase();
+}
+
+function formatTaxRate(rate: {
+  id: string;
+  zoneId: string;
+  taxClass: string | null;
+  name: string;
+  rate: unknown;
+  isCompound: boolean;
+  priority: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}): TaxRateResponse {
+  return {
+    id: rate.id,
+    zoneId: rate.zoneId,
+    taxClass: rate.taxClass,
+    name: rate.name,
+    rate: Number(rate.rate),
+    isCompound: rate.isCompound,
+    priority: rate.priority,
+    isActive: rate.isActive,
+    createdAt: rate.createdAt.toISOString(),
+    updatedAt: rate.updatedAt.toISOString(),
+  };
+}
+
+function formatTaxZone(zone: {
+  id: string;
+  name: string;
+  country: string;
+  state: string | null;
+  postalCodePattern: string | null;
+  priority: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  rates?: Parameters<typeof formatTaxRate>[0][];
+}): TaxZoneResponse {
+  return {
+    id: zone.id,
+    name: zone.name,
+    country: zone.country,
+    state: zone.state,
+    postalCodePattern: zone.postalCodePattern,
+    priority: zone.priority,
+    isActive: zone.isActive,
+    rates: (zone.rates ?? []).map(formatTaxRate),
+    createdAt: zone.createdAt.toISOString(),
+    updatedAt: zone.updatedAt.toISOString(),
+  };
+}
+
+export class TaxService {
+  private static builtinCalculator = new ZoneTaxCalculator();
+
+  /**
+   * Tax-related store settings
+   */
+  static async getSettings(): Promise<TaxSettings> {
+    const settings = await systemSettingsService.getAllSettings();
+    const calculator = typeof settings['tax.calculator'] === 'string' ? settings['tax.calculator'].trim() : '';
+    const defaultCountry = typeof settings['tax.defaultCountry'] === 'string' ? settings['tax.defaultCountry'].trim() : '';
+    const defaultState = typeof settings['tax.defaultState'] === 'string' ? settings['tax.defaultState'].trim() : '';
+
+    return {
+      pricesIncludeTax: settings['tax.pricesIncludeTax'] === true,
+      calculator: calculator && calculator !== 'builtin' ? calculator : null,
+      defaultAddress: defaultCountry
+        ? { country: normalizeCountry(defaultCountry), state: defaultState || null }
+        : null,
+    };
+  }
+
+  /**
+   * Run a calculation with the active calculator.
+   * A failing plugin calculator falls back to the built-in zones so checkout keeps working.
+   */
+  static async calculate(input: TaxCalculationInput, settings?: TaxSettings): Promise<TaxCalculationResult> {
+    const custom = getCustomTaxCalculator();
+    if (custom) {
+      return custom.calculate(input);
+    }
+
+    const { calculator } = settings ?? await this.getSettings();
+    if (!calculator) {
+      return this.builtinCalculator.calculate(input);
+    }
+
+    const plugin: TaxCalculator = new PluginTaxCalculator(calculator);
+    try {
+      return await plugin.calculate(input);
+    } catch (error) {
+      LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'tax plugin calculation',
+        plugin: calculator,
+      });
+      return this.builtinCalculator.calculate(input);
+    }
+  }
+
+  /**
+   * Tax for a set of priced lines: resolves product tax classes, spreads the
+   * order-level discount over lines and applies the store's inclusive/exclusive setting.
+   *
+   * @param address Destination; the store default applies when omitted
+   */
+  static async quote(params: {
+    address?: TaxAddress | null;
+    currency: string;
+    lines: TaxQuoteLine[];
+    discountAmount?: number;
+  }): Promise<TaxCalculationResult> {
+    const settings = await this.getSettings();
+    const address = params.address?.country
+      ? { ...params.address, country: normalizeCountry(params.address.country) }
+      : settings.defaultAddress;
+
+    const productIds = Array.from(new Set(params.lines.map((line) => line.productId)));
+    const products = productIds.length
+      ? await prisma.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true, taxClass: true },
+      })
+      : [];
+    const taxClassMap = new Map(products.map((product) => [product.id, product.taxClass]));
+
+    const discounts = allocateDiscount(
+      params.lines.map((line) => line.amount),
+      params.discountAmount ?? 0,
+      params.currency
+    );
+
+    return this.calculate({
+      address,
+      currency: params.currency,
+      pricesIncludeTax: settings.pricesIncludeTax,
+      lines: params.lines.map((line, index) => ({
+        id: line.id,
+        productId: line.productId,
+        variantId: line.variantId,
+        taxClass: taxClassMap.get(line.productId) ?? null,
+        quantity: line.quantity,
+        amount: roundCurrencyAmount(line.amount - discounts[index], params.currency),
+      })),
+    }, settings);
+  }
+
+  // ============================================
+  // Zones
+  // ============================================
+
+  static async getZones(filters: { country?: string; isActive?: boolean } = {}): Promise<TaxZoneResponse[]> {
+    const zones = await prisma.taxZone.findMany({
+      where: {
+        ...(filters.country ? { country: normalizeCountry(filters.country) } : {}),
+        ...(filters.isActive !== undefined ? { isActive: filters.isActive } : {}),
+      },
+      include: { rates: { orderBy: [{ taxClass: 'asc' }, { priority: 'asc' }] } },
+      orderBy: [{ country: 'asc' }, { priority: 'desc' }, { name: 'asc' }],
+    });
+    return zones.map(formatTaxZone);
+  }
+
+  static async getZoneById(id: string): Promise<TaxZoneResponse> {
+    const zone = await prisma.taxZone.findUnique({
+      where: { id },
+      include: { rates: { orderBy: [{ taxClass: 'asc' }, { priority: 'asc' }] } },
+    });
+    if (!zone) {
+      throw new Error('Tax zone not found');
+    }
+    return formatTaxZone(zone);
+  }
+
+  static async createZone(data: CreateTaxZoneRequest): Promise<TaxZoneResponse> {
+    const zone = await prisma.taxZone.create({
+      data: {
+        name: data.name.trim(),
+        country: normalizeCountry(data.country),
+        state: data.state?.trim() || null,
+        postalCodePattern: data.postalCodePattern?.trim() || null,
+        priority: data.priority ?? 0,
+        isActive: data.isActive ?? true,
+      },
+      include: { rates: true },
+    });
+    return formatTaxZone(zone);
+  }
+
+  static async updateZone(id: string, data: UpdateTaxZoneRequest): Promise<TaxZoneResponse> {
+    await this.getZoneById(id);
+
+    await prisma.taxZone.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.country !== undefined ? { country: normalizeCountry(data.country) } : {}),
+        ...(data.state !== undefined ? { state: data.state?.trim() || null } : {}),
+        ...(data.postalCodePattern !== undefined ? { postalCodePattern: data.postalCodePattern?.trim() || null } : {}),
+        ...(data.priority !== undefined ? { priority: data.priority } : {}),
+        ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      },
+    });
+
+    return this.getZoneById(id);
+  }
+
+  static async deleteZone(id: string): Promise<void> {
+    await this.getZoneById(id);
+    await prisma.taxZone.delete({ where: { id } });
+  }
+
+  // ============================================
+  // Rates
+  // ============================================
+
+  static async createRate(zoneId: string, data: CreateTaxRateRequest): Promise<TaxRateResponse> {
+    await this.getZoneById(zoneId);
+
+    const rate = await prisma.taxRate.create({
+      data: {
+        zoneId,
+        name: data.name.trim(),
+        rate: data.rate,
+        taxClass: data.taxClass?.trim() || null,
+        isCompound: data.isCompound ?? false,
+        priority: data.priority ?? 0,
+        isActive: data.isActive ?? true,
+      },
+    });
+    return formatTaxRate(rate);
+  }
+
+  static async updateRate(zoneId: string, rateId: string, data: UpdateTaxRateRequest): Promise<TaxRateResponse> {
+    const existing = await prisma.taxRate.findFirst({ where: { id: rateId, zoneId } });
+    if (!existing) {
+      throw new Error('Tax rate not found');
+    }
+
+    const rate = await prisma.taxRate.update({
+      where: { id: rateId },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.rate !== undefined ? { rate: data.rate } : {}),
+        ...(data.taxClass !== undefined ? { taxClass: data.taxClass?.trim() || null } : {}),
+        ...(data.isCompound !== undefined ? { isCompound: data.isCompound } : {}),
+        ...(data.priority !== undefined ? { priority: data.priority } : {}),
+        ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      },
+    });
+    return formatTaxRate(rate);
+  }
+
+  static async deleteRate(zoneId: string, rateId: string): Promise<void> {
+    const result = await prisma.taxRate.deleteMany({ where: { id: rateId, zoneId } });
+    if (result.count === 0) {
+      throw new Error('Tax rate not found');
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Tax Types
+ *
+ * Shared shapes for tax calculation (cart preview, order creation) and
+ * admin management of tax zones and rates.
+ */
+
+/**
+ * Destination the tax is calculated for
+ */
+export interface TaxAddress {
+  country: string;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+/**
+ * One taxable line. `amount` is the line total after discounts, in the
+ * calculation currency; it already contains tax when prices include tax.
+ */
+export interface TaxLineInput {
+  id: string;
+  productId: string;
+  variantId?: string;
+  taxClass?: string | null;
+  quantity: number;
+  amount: number;
+}
+
+export interface TaxCalculationInput {
+  address: TaxAddress | null;
+  currency: string;
+  pricesIncludeTax: boolean;
+  lines: TaxLineInput[];
+}
+
+/**
+ * A single rate applied to a line
+ */
+export interface TaxComponent {
+  rateId?: string;
+  name: string;
+  /** Percentage, e.g. 8.25 */
+  rate: number;
+  compound: boolean;
+  amount: number;
+}
+
+export interface TaxLineResult {
+  id: string;
+  taxAmount: number;
+  /** Effective percentage of the net line amount */
+  taxRate: number;
+  breakdown: TaxComponent[];
+}
+
+export interface TaxCalculationResult {
+  calculator: string;
+  pricesIncludeTax: boolean;
+  taxAmount: number;
+  lines: TaxLineResult[];
+}
+
+export interface CreateTaxZoneRequest {
+  name: string;
+  country: string;
+  state?: string | null;
+  postalCodePattern?: string | null;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export type UpdateTaxZoneRequest = Partial<CreateTaxZoneRequest>;
+
+export interface CreateTaxRateRequest {
+  name: string;
+  rate: number;
+  taxClass?: string | null;
+  isCompound?: boolean;
+  priority?: number;
+  isActive?: boolean;
+}
+
+export type UpdateTaxRateRequest = Partial<CreateTaxRateRequest>;
+
+export interface TaxRateResponse {
+  id: string;
+  zoneId: string;
+  taxClass: string | null;
+  name: string;
+  rate: number;
+  isCompound: boolean;
+  priority: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaxZoneResponse {
+  id: string;
+  name: string;
+  country: string;
+  state: string | null;
+  postalCodePattern: string | null;
+  priority: number;
+  isActive: boolean;
+  rates: TaxRateResponse[];
+  createdAt: string;
+  updatedAt: string;
+}
@@ -11,6 +11,21 @@ export interface UploadResult {
   size: number;
   mimetype: string;
   url: string;
+  /** Original dimensions (product images only, when sharp is available) */
+  width?: number;
+  height?: number;
+  /** Generated responsive sizes (product images only) */
+  sizes?: ProductImageSizes;
+}
+
+export type ProductImageSize = 'thumbnail' | 'medium' | 'large';
+
+export type ProductImageSizes = Record<ProductImageSize, string>;
+
+/** Crop center as fractions (0..1) of the image width and height */
+export interface FocalPoint {
+  x: number;
+  y: number;
 }
 
 export class UploadService {
@@ -25,7 +40,7 @@ export class UploadService {
     large: { width: 1200, height: 1200 }
   };
 
-  static async uploadProductImage(file: MultipartFile): Promise<UploadResult> {
+  static async uploadProductImage(file: MultipartFile, focalPoint?: FocalPoint): Promise<UploadResult> {
     // Validate file type
     if (!this.ALLOWED_TYPES.includes(file.mimetype)) {
       throw new Error(`Invalid file type. Allowed types: ${this.ALLOWED_TYPES.join(', ')}`);
@@ -45,18 +60,13 @@ export class UploadService {
     const productDir = path.join(this.UPLOAD_DIR, 'products');
     await this.ensureDirectoryExists(productDir);
 
+    const dimensions = await this.readDimensions(buffer);
+
     // Generate different sizes of images in both JPEG and WebP formats
     await Promise.all([
-      // JPEG versions
-      this.processImage(buffer, path.join(productDir, `thumb_${baseFilename}`), this.IMAGE_SIZES.thumbnail),
-      this.processImage(buffer, path.join(productDir, `medium_${baseFilename}`), this.IMAGE_SIZES.medium),
-      this.processImage(buffer, path.join(productDir, `large_${baseFilename}`), this.IMAGE_SIZES.large),
       this.processImage(buffer, path.join(productDir, baseFilename)), // Original image
-      // WebP versions
-      this.processWebP(buffer, path.join(productDir, `thumb_${webpFilename}`), this.IMAGE_SIZES.thumbnail),
-      this.processWebP(buffer, path.join(productDir, `medium_${webpFilename}`), this.IMAGE_SIZES.medium),
-      this.processWebP(buffer, path.join(productDir, `large_${webpFilename}`), this.IMAGE_SIZES.large),
-      this.processWebP(buffer, path.join(productDir, webpFilename)) // Original WebP
+      this.processWebP(buffer, path.join(productDir, webpFilename)), // Original WebP
+      this.writeProductImageSizes(buffer, baseFilename, dimensions, focalPoint),
     ]);
 
     const localUrl = `/uploads/products/${baseFilename}`;
@@ -67,10 +77,96 @@ export class UploadService {
       originalName: file.filename || 'unknown',
       size: buffer.length,
       mimetype: file.mimetype,
-      url
+      url,
+      ...(dimensions ?? {}),
+      sizes: this.getProductImageSizes(baseFilename),
+    };
+  }
+
+  /**
+   * Re-crop the thumbnail/medium/large sizes of a stored product image
+   * around a new focal point. The original file is left untouched.
+   */
+  static async regenerateProductImageSizes(filename: string, focalPoint: FocalPoint): Promise<void> {
+    const buffer = await fs.readFile(path.join(this.UPLOAD_DIR, 'products', path.basename(filename)));
+    const dimensions = await this.readDimensions(buffer);
+    await this.writeProductImageSizes(buffer, path.basename(filename), dimensions, focalPoint);
+  }
+
+  /**
+   * URLs of the generated sizes of a stored product image
+   */
+  static getProductImageSizes(filename: string): ProductImageSizes {
+    return {
+      thumbnail: this.getImageUrl(filename, 'thumbnail'),
+      medium: this.getImageUrl(filename, 'medium'),
+      large: this.getImageUrl(filename, 'large'),
     };
   }
 
+  private static async writeProductImageSizes(
+    buffer: Buffer,
+    baseFilename: string,
+    dimensions: { width: number; height: number } | null,
+    focalPoint?: FocalPoint
+  ): Promise<void> {
+    const productDir = path.join(this.UPLOAD_DIR, 'products');
+    const webpFilename = `${baseFilename.replace(/\.[^/.]+$/, '')}.webp`;
+    const sizes: Array<[string, { width: number; height: number }]> = [
+      ['thumb_', this.IMAGE_SIZES.thumbnail],
+      ['medium_', this.IMAGE_SIZES.medium],
+      ['large_', this.IMAGE_SIZES.large],
+    ];
+
+    await Promise.all(sizes.flatMap(([prefix, size]) => {
+      const crop = focalPoint && dimensions ? this.focalCrop(dimensions, size, focalPoint) : undefined;
+      return [
+        this.processImage(buffer, path.join(productDir, `${prefix}${baseFilename}`), size, crop),
+        this.processWebP(buffer, path.join(productDir, `${prefix}${webpFilename}`), size, crop),
+      ];
+    }));
+  }
+
+  /**
+   * Largest region with the target aspect ratio that is centered on the focal
+   * point as far as the image bounds allow.
+   */
+  private static focalCrop(
+    dimensions: { width: number; height: number },
+    size: { width: number; height: number },
+    focalPoint: FocalPoint
+  ): { left: number; top: number; width: number; height: number } {
+    const ratio = size.width / size.height;
+    let width = dimensions.width;
+    let height = Math.round(width / ratio);
+    if (height > dimensions.height) {
+      height = dimensions.height;
+      width = Math.round(height * ratio);
+    }
+
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    return {
+      left: clamp(Math.round(focalPoint.x * dimensions.width - width / 2), dimensions.width - width),
+      top: clamp(Math.round(focalPoint.y * dimensions.height - height / 2), dimensions.height - height),
+      width,
+      height,
+    };
+  }
+
+  private static async readDimensions(buffer: Buffer): Promise<{ width: number; height: number } | null> {
+    const sharp = this.getSharp();
+    if (!sharp) {
+      return null;
+    }
+
+    try {
+      const metadata = await sharp(buffer).metadata();
+      return metadata.width && metadata.height ? { width: metadata.width, height: metadata.height } : null;
+    } catch {
+      return null;
+    }
+  }
+
   static async uploadAvatar(file: MultipartFile): Promise<UploadResult> {
     // Validate file type
     if (!this.ALLOWED_TYPES.includes(file.mimetype)) {
@@ -108,10 +204,48 @@ export class UploadService {
     };
   }
 
+  static async uploadReturnPhoto(file: MultipartFile): Promise<UploadResult> {
+    // Validate file type
+    if (!this.ALLOWED_TYPES.includes(file.mimetype)) {
+      throw new Error(`Invalid file type. Allowed types: ${this.ALLOWED_TYPES.join(', ')}`);
+    }
+
+    const buffer = await file.toBuffer();
+    if (buffer.length > this.MAX_FILE_SIZE) {
+      throw new Error(`File too large. Maximum size: ${this.MAX_FILE_SIZE / 1024 / 1024}MB`);
+    }
+
+    const fileId = randomUUID();
+    const ext = path.extname(file.filename || '.jpg');
+    const filename = `${fileId}${ext}`;
+    const webpFilename = `${fileId}.webp`;
+
+    const returnDir = path.join(this.UPLOAD_DIR, 'returns');
+    await this.ensureDirectoryExists(returnDir);
+
+    // Return photos are evidence, keep them at full size
+    await Promise.all([
+      this.processImage(buffer, path.join(returnDir, filename)),
+      this.processWebP(buffer, path.join(returnDir, webpFilename))
+    ]);
+
+    const localUrl = `/uploads/returns/${filename}`;
+    const url = CDNConfig.getAssetUrl(localUrl);
+
+    return {
+      filename,
+      originalName: file.filename || 'unknown',
+      size: buffer.length,
+      mimetype: file.mimetype,
+      url
+    };
+  }
+
   private static async processImage(
     buffer: Buffer,
     outputPath: string,
-    size?: { width: number; height: number }
+    size?: { width: number; height: number },
+    crop?: { left: number; top: number; width: number; height: number }
   ): Promise<void> {
     const sharp = this.getSharp();
     if (!sharp) {
@@ -121,6 +255,10 @@ export class UploadService {
 
     let sharpInstance = sharp(buffer);
 
+    if (crop) {
+      sharpInstance = sharpInstance.extract(crop);
+    }
+
     if (size) {
       sharpInstance = sharpInstance.resize(size.width, size.height, {
         fit: 'cover',
@@ -136,7 +274,8 @@ export class UploadService {
   private static async processWebP(
     buffer: Buffer,
     outputPath: string,
-    size?: { width: number; height: number }
+    size?: { width: number; height: number },
+    crop?: { left: number; top: number; width: number; height: number }
   ): Promise<void> {
     const sharp = this.getSharp();
     if (!sharp) {
@@ -149,6 +288,10 @@ export class UploadService {
 
     let sharpInstance = sharp(buffer);
 
+    if (crop) {
+      sharpInstance = sharpInstance.extract(crop);
+    }
+
     if (size) {
       sharpInstance = sharpInstance.resize(size.width, size.height, {
         fit: 'cover',
@@ -3,8 +3,13 @@
  *
  * Handles the actual delivery of webhook payloads to external HTTP endpoints
  * and internal plugin handlers.  Implements:
- *   - HMAC-SHA256 request signing
- *   - Exponential-backoff retries (up to MAX_RETRIES attempts)
+ *   - Delivery attempts as jobs on the BullMQ `webhook-delivery` queue, so
+ *     pending retries survive restarts and are shared across API instances
+ *   - Jittered exponential-backoff retries (up to MAX_RETRIES attempts)
+ *   - Per-endpoint concurrency limits
+ *   - Automatic disabling of subscriptions that keep failing for hours
+ *   - HMAC-SHA256 request signing, with the previous secret still signed
+ *     during a rotation overlap
  *   - Dead-letter queue for permanently failed deliveries
  *   - Per-attempt delivery logging
  */
@@ -12,6 +17,8 @@
 import { createHmac } from 'crypto';
 import { prisma } from '@/config/database';
 import { LoggerService, logger } from '@/core/logger/unified-logger';
+import { queueManager } from '@/infra/jobs/queue-manager';
+import { QUEUE_NAMES, type BaseJobData } from '@/infra/jobs/types';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -19,7 +26,7 @@ import { LoggerService, logger } from '@/core/logger/unified-logger';
 
 const MAX_RETRIES = 5;
 
-/** Delays between consecutive retry attempts (index = attempt - 1). */
+/** Base delays between consecutive retry attempts (index = attempt - 1). */
 const RETRY_DELAYS_MS = [
   10_000,   // 10 seconds
   30_000,   // 30 seconds
@@ -28,12 +35,273 @@ const RETRY_DELAYS_MS = [
   900_000,  // 15 minutes
 ];
 
+/** Retry delays are spread by +/- this fraction so failing bursts don't retry in lockstep. */
+const RETRY_JITTER_RATIO = 0.2;
+
 /** Maximum time to wait for a single delivery HTTP response. */
 const DELIVERY_TIMEOUT_MS = 30_000;
 
 /** Maximum response body stored in the delivery log. */
 const MAX_RESPONSE_BODY_LENGTH = 1000;
 
+/** Deliveries allowed in flight per endpoint origin (WEBHOOK_ENDPOINT_CONCURRENCY). */
+const DEFAULT_ENDPOINT_CONCURRENCY = 2;
+
+/** How long an attempt waits before trying again when its endpoint is saturated. */
+const ENDPOINT_BUSY_DELAY_MS = 2_000;
+
+/** Hours of uninterrupted failures before a subscription is disabled (WEBHOOK_AUTO_DISABLE_HOURS). */
+const DEFAULT_AUTO_DISABLE_HOURS = 24;
+
+/** Job name for a single webhook delivery attempt on the webhook-delivery queue. */
+export const WEBHOOK_ATTEMPT_JOB = 'webhook.attempt';
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Delay before retry number `attempt + 1`, with +/- RETRY_JITTER_RATIO jitter.
+ */
+export function computeRetryDelay(attempt: number, random: () => number = Math.random): number {
+  const base = RETRY_DELAYS_MS[attempt - 1] ?? RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1];
+  const jitter = (random() * 2 - 1) * RETRY_JITTER_RATIO;
+  return Math.round(base * (1 + jitter));
+}
+
+// ---------------------------------------------------------------------------
+// Queue jobs
+// ---------------------------------------------------------------------------
+
+/**
+ * Payload of a `webhook.attempt` job.  `outboxEventId` carries the webhook
+ * event ID (the outbox event for dispatched events, a generated ID for test
+ * events).
+ */
+export interface WebhookAttemptJobData extends BaseJobData {
+  subscriptionId: string;
+  webhookEventType: string;
+  payload: unknown;
+  aggregateId?: string;
+  attempt: number;
+  /** Admin-triggered (test event / redelivery): delivered even while the subscription is disabled */
+  manual?: boolean;
+}
+
+/**
+ * Queue a delivery attempt.  Falls back to an in-process timer when Redis is
+ * unavailable, which keeps deliveries flowing but loses pending retries on
+ * restart.
+ */
+export async function enqueueWebhookAttempt(
+  data: Omit<WebhookAttemptJobData, 'eventType'>,
+  options: { delay?: number; jobId?: string } = {}
+): Promise<void> {
+  const job: WebhookAttemptJobData = { ...data, eventType: WEBHOOK_ATTEMPT_JOB };
+  const jobId = options.jobId ?? `${data.outboxEventId}-${data.subscriptionId}-${data.attempt}`;
+
+  const enqueued = await queueManager.enqueueTo(QUEUE_NAMES.WEBHOOK_DELIVERY, job, {
+    jobId,
+    delay: options.delay,
+  });
+  if (enqueued) {
+    return;
+  }
+
+  setTimeout(() => {
+    processWebhookAttempt(job).catch((err) => {
+      LoggerService.logError(err instanceof Error ? err : new Error(String(err)), {
+        context: 'Inline webhook delivery attempt',
+        subscriptionId: job.subscriptionId,
+        eventId: job.outboxEventId,
+      });
+    });
+  }, options.delay ?? 0);
+}
+
+/**
+ * Run one queued delivery attempt against the subscription's current
+ * endpoint and secrets.
+ */
+export async function processWebhookAttempt(job: WebhookAttemptJobData): Promise<void> {
+  const subscription = await prisma.webhookSubscription.findUnique({
+    where: { id: job.subscriptionId },
+  });
+
+  if (!subscription) {
+    logger.debug('Webhook subscription no longer exists, dropping delivery attempt', {
+      subscriptionId: job.subscriptionId,
+      eventId: job.outboxEventId,
+    });
+    return;
+  }
+
+  if (!subscription.active && !job.manual) {
+    // Keep the event replayable instead of silently dropping the retry
+    await moveToDeadLetter({
+      subscriptionId: subscription.id,
+      eventId: job.outboxEventId,
+      eventType: job.webhookEventType,
+      payload: job.payload,
+      lastError: 'Subscription is disabled',
+      retryCount: job.attempt - 1,
+    });
+    return;
+  }
+
+  if (subscription.deliveryMode !== 'external') {
+    await deliverInternalWebhook({
+      subscriptionId: subscription.id,
+      eventId: job.outboxEventId,
+      eventType: job.webhookEventType,
+      payload: job.payload,
+      installationId: subscription.installationId,
+      aggregateId: job.aggregateId,
+    });
+    return;
+  }
+
+  if (!subscription.endpointUrl) {
+    logger.warn('External subscription missing endpointUrl, skipping', {
+      subscriptionId: subscription.id,
+      eventType: job.webhookEventType,
+    });
+    return;
+  }
+
+  const slot = await acquireEndpointSlot(subscription.endpointUrl);
+  if (slot === null) {
+    // Endpoint saturated: try the same attempt again shortly
+    await enqueueWebhookAttempt(job, {
+      delay: ENDPOINT_BUSY_DELAY_MS,
+      jobId: `${job.outboxEventId}-${job.subscriptionId}-${job.attempt}-busy-${Date.now()}`,
+    });
+    return;
+  }
+
+  const previousSecretValid =
+    !!subscription.previousSecret &&
+    !!subscription.previousSecretExpiresAt &&
+    subscription.previousSecretExpiresAt.getTime() > Date.now();
+
+  try {
+    await deliverExternalWebhook({
+      subscriptionId: subscription.id,
+      eventId: job.outboxEventId,
+      eventType: job.webhookEventType,
+      payload: job.payload,
+      aggregateId: job.aggregateId,
+      endpointUrl: subscription.endpointUrl,
+      secret: subscription.secret ?? undefined,
+      previousSecret: previousSecretValid ? subscription.previousSecret ?? undefined : undefined,
+      attempt: job.attempt,
+      manual: job.manual,
+    });
+  } finally {
+    await releaseEndpointSlot(slot);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint concurrency
+// ---------------------------------------------------------------------------
+
+/**
+ * Reserve an in-flight slot for the endpoint's origin in Redis, shared by
+ * every worker.  Returns the counter key, `undefined` when Redis is
+ * unavailable (no limit applied), or null when the endpoint is saturated.
+ */
+async function acquireEndpointSlot(endpointUrl: string): Promise<string | null | undefined> {
+  const redis = queueManager.getConnection();
+  if (!redis) {
+    return undefined;
+  }
+
+  let origin: string;
+  try {
+    origin = new URL(endpointUrl).origin;
+  } catch {
+    origin = endpointUrl;
+  }
+
+  const key = `webhook:inflight:${origin}`;
+  const limit = readPositiveNumber(process.env.WEBHOOK_ENDPOINT_CONCURRENCY, DEFAULT_ENDPOINT_CONCURRENCY);
+  const inFlight = await redis.incr(key);
+  // Expire the counter so a crashed worker can't hold a slot forever
+  await redis.pexpire(key, DELIVERY_TIMEOUT_MS * 2);
+
+  if (inFlight > limit) {
+    await redis.decr(key);
+    return null;
+  }
+  return key;
+}
+
+async function releaseEndpointSlot(key: string | undefined): Promise<void> {
+  const redis = queueManager.getConnection();
+  if (!key || !redis) {
+    return;
+  }
+  await redis.decr(key).catch(() => {
+    // The counter expires on its own
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint health
+// ---------------------------------------------------------------------------
+
+async function recordEndpointSuccess(subscriptionId: string): Promise<void> {
+  await prisma.webhookSubscription.updateMany({
+    where: { id: subscriptionId, failingSince: { not: null } },
+    data: { failingSince: null },
+  });
+}
+
+/**
+ * Track how long the subscription has been failing and disable it once
+ * failures have lasted WEBHOOK_AUTO_DISABLE_HOURS.
+ */
+async function recordEndpointFailure(subscriptionId: string): Promise<void> {
+  const now = new Date();
+  const started = await prisma.webhookSubscription.updateMany({
+    where: { id: subscriptionId, failingSince: null },
+    data: { failingSince: now },
+  });
+  if (started.count > 0) {
+    return;
+  }
+
+  const subscription = await prisma.webhookSubscription.findUnique({
+    where: { id: subscriptionId },
+    select: { active: true, failingSince: true },
+  });
+  if (!subscription?.active || !subscription.failingSince) {
+    return;
+  }
+
+  const hours = readPositiveNumber(process.env.WEBHOOK_AUTO_DISABLE_HOURS, DEFAULT_AUTO_DISABLE_HOURS);
+  if (now.getTime() - subscription.failingSince.getTime() < hours * 3_600_000) {
+    return;
+  }
+
+  await prisma.webhookSubscription.update({
+    where: { id: subscriptionId },
+    data: {
+      active: false,
+      disabledAt: now,
+      disabledReason: `Deliveries failing since ${subscription.failingSince.toISOString()}`,
+    },
+  });
+
+  logger.warn('Webhook subscription disabled after repeated delivery failures', {
+    subscriptionId,
+    failingSince: subscription.failingSince.toISOString(),
+    hours,
+  });
+}
+
 // ---------------------------------------------------------------------------
 // External delivery
 // ---------------------------------------------------------------------------
@@ -43,15 +311,19 @@ export interface ExternalDeliveryParams {
   eventId: string;
   eventType: string;
   payload: unknown;
+  aggregateId?: string;
   endpointUrl: string;
   secret?: string;
+  /** Pre-rotation secret, still signed with while its overlap window is open */
+  previousSecret?: string;
   attempt?: number;
+  manual?: boolean;
 }
 
 /**
  * Deliver a webhook event to an external HTTP endpoint.
  *
- * On failure the function schedules a retry with exponential back-off.
+ * On failure the function queues the next attempt with jittered back-off.
  * After MAX_RETRIES the event is moved to the dead-letter queue.
  */
 export async function deliverExternalWebhook(params: ExternalDeliveryParams): Promise<void> {
@@ -62,10 +334,13 @@ export async function deliverExternalWebhook(params: ExternalDeliveryParams): Pr
     payload,
     endpointUrl,
     secret,
+    previousSecret,
     attempt = 1,
   } = params;
 
   const startTime = Date.now();
+  // Set when the endpoint answered with a non-2xx status
+  let failedResponse: { status: number; body: string } | null = null;
 
   try {
     // Build the request body
@@ -85,10 +360,14 @@ export async function deliverExternalWebhook(params: ExternalDeliveryParams): Pr
       'X-Webhook-Attempt': String(attempt),
     };
 
-    // HMAC-SHA256 signature when a shared secret is configured
-    if (secret) {
-      const signature = createHmac('sha256', secret).update(body).digest('hex');
-      headers['X-Webhook-Signature'] = `sha256=${signature}`;
+    // HMAC-SHA256 signature when a shared secret is configured.  During a
+    // rotation overlap both signatures are sent, comma-separated, so
+    // receivers holding either secret can verify.
+    const signatures = [secret, previousSecret]
+      .filter((value): value is string => !!value)
+      .map((value) => `sha256=${createHmac('sha256', value).update(body).digest('hex')}`);
+    if (signatures.length > 0) {
+      headers['X-Webhook-Signature'] = signatures.join(',');
     }
 
     // Issue the request with a timeout
@@ -110,22 +389,29 @@ export async function deliverExternalWebhook(params: ExternalDeliveryParams): Pr
     const latencyMs = Date.now() - startTime;
     const responseBody = await response.text().catch(() => '');
 
+    if (!response.ok) {
+      failedResponse = { status: response.status, body: responseBody };
+      throw new Error(`HTTP ${response.status}: ${responseBody.slice(0, 200)}`);
+    }
+
     // Persist delivery log
     await prisma.webhookDeliveryLog.create({
       data: {
         subscriptionId,
         eventId,
+        eventType,
+        payload: payload as any,
         attempt,
-        status: response.ok ? 'success' : 'failed',
+        status: 'success',
         responseCode: response.status,
         responseBody: responseBody.slice(0, MAX_RESPONSE_BODY_LENGTH),
         latencyMs,
       },
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${responseBody.slice(0, 200)}`);
-    }
+    await recordEndpointSuccess(subscriptionId).catch(() => {
+      // Health bookkeeping must not turn a delivered event into a retry
+    });
 
     logger.debug('External webhook delivered successfully', {
       subscriptionId,
@@ -142,8 +428,12 @@ export async function deliverExternalWebhook(params: ExternalDeliveryParams): Pr
       data: {
         subscriptionId,
         eventId,
+        eventType,
+        payload: payload as any,
         attempt,
         status: 'failed',
+        responseCode: failedResponse?.status,
+        responseBody: failedResponse?.body.slice(0, MAX_RESPONSE_BODY_LENGTH),
         errorMessage: String(error.message ?? error).slice(0, 500),
         latencyMs,
       },
@@ -151,6 +441,13 @@ export async function deliverExternalWebhook(params: ExternalDeliveryParams): Pr
       // Swallow log-write failures so they don't mask the real error
     });
 
+    await recordEndpointFailure(subscriptionId).catch((healthError) => {
+      LoggerService.logError(healthError instanceof Error ? healthError : new Error(String(healthError)), {
+        context: 'Failed to record webhook endpoint failure',
+        subscriptionId,
+      });
+    });
+
     // Dead-letter if we exhausted all retries
     if (attempt >= MAX_RETRIES) {
       await moveToDeadLetter({
@@ -164,8 +461,8 @@ export async function deliverExternalWebhook(params: ExternalDeliveryParams): Pr
       return;
     }
 
-    // Schedule the next retry with exponential back-off
-    const delay = RETRY_DELAYS_MS[attempt - 1] ?? RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1];
+    // Queue the next attempt with jittered exponential back-off
+    const delay = computeRetryDelay(attempt);
 
     logger.debug(`Scheduling webhook retry #${attempt + 1} in ${delay}ms`, {
       subscriptionId,
@@ -173,14 +470,18 @@ export async function deliverExternalWebhook(params: ExternalDeliveryParams): Pr
       eventType,
     });
 
-    setTimeout(() => {
-      deliverExternalWebhook({
-        ...params,
+    await enqueueWebhookAttempt(
+      {
+        outboxEventId: eventId,
+        subscriptionId,
+        webhookEventType: eventType,
+        payload,
+        aggregateId: params.aggregateId,
         attempt: attempt + 1,
-      }).catch(() => {
-        // Retry is fire-and-forget; errors are handled inside the next call
-      });
-    }, delay);
+        manual: params.manual,
+      },
+      { delay }
+    );
   }
 }
 
@@ -307,6 +608,8 @@ export async function deliverInternalWebhook(params: InternalDeliveryParams): Pr
       data: {
         subscriptionId,
         eventId,
+        eventType,
+        payload: payload as any,
         attempt: 1,
         status: 'success',
         latencyMs,
@@ -327,6 +630,8 @@ export async function deliverInternalWebhook(params: InternalDeliveryParams): Pr
       data: {
         subscriptionId,
         eventId,
+        eventType,
+        payload: payload as any,
         attempt: 1,
         status: 'failed',
         errorMessage: String(error.message ?? error).slice(0, 500),
@@ -7,7 +7,7 @@
  */
 
 import { WebhookSubscriptionService } from './subscription-service';
-import { deliverExternalWebhook, deliverInternalWebhook } from './delivery-worker';
+import { enqueueWebhookAttempt } from './delivery-worker';
 import { LoggerService, logger } from '@/core/logger/unified-logger';
 
 // ---------------------------------------------------------------------------
@@ -18,9 +18,9 @@ import { LoggerService, logger } from '@/core/logger/unified-logger';
  * Dispatch an outbox event to all matching webhook subscriptions.
  *
  * Called by the OutboxWorkerService after an event is dequeued.
- * Delivery is fire-and-forget per subscription -- individual failures
- * are logged and retried by the delivery worker; they do NOT prevent
- * other subscriptions from receiving the event.
+ * Each subscription gets its own delivery job on the webhook-delivery
+ * queue -- individual failures are logged and retried by the delivery
+ * worker; they do NOT prevent other subscriptions from receiving the event.
  */
 export async function dispatchWebhookEvent(event: {
   id: string;
@@ -40,49 +40,25 @@ export async function dispatchWebhookEvent(event: {
   });
 
   for (const sub of subscriptions) {
-    try {
-      if (sub.deliveryMode === 'external') {
-        if (!sub.endpointUrl) {
-          logger.warn('External subscription missing endpointUrl, skipping', {
-            subscriptionId: sub.id,
-            eventType: event.type,
-          });
-          continue;
-        }
+    if (sub.deliveryMode === 'external' && !sub.endpointUrl) {
+      logger.warn('External subscription missing endpointUrl, skipping', {
+        subscriptionId: sub.id,
+        eventType: event.type,
+      });
+      continue;
+    }
 
-        // Fire-and-forget -- deliverExternalWebhook handles its own retries
-        deliverExternalWebhook({
-          subscriptionId: sub.id,
-          eventId: event.id,
-          eventType: event.type,
-          payload: event.payload,
-          endpointUrl: sub.endpointUrl,
-          secret: sub.secret ?? undefined,
-        }).catch((err) => {
-          LoggerService.logError(err instanceof Error ? err : new Error(String(err)), {
-            context: 'External webhook delivery',
-            subscriptionId: sub.id,
-            eventType: event.type,
-          });
-        });
-      } else {
-        // Internal delivery
-        deliverInternalWebhook({
-          subscriptionId: sub.id,
-          eventId: event.id,
-          eventType: event.type,
-          payload: event.payload,
-          installationId: sub.installationId,
-        }).catch((err) => {
-          LoggerService.logError(err instanceof Error ? err : new Error(String(err)), {
-            context: 'Internal webhook delivery',
-            subscriptionId: sub.id,
-            eventType: event.type,
-          });
-        });
-      }
+    try {
+      // One queued attempt per subscription; retries are queued by the worker
+      await enqueueWebhookAttempt({
+        outboxEventId: event.id,
+        subscriptionId: sub.id,
+        webhookEventType: event.type,
+        payload: event.payload,
+        aggregateId: event.aggregateId,
+        attempt: 1,
+      });
     } catch (error: any) {
-      // Guard against unexpected synchronous throws
       LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
         context: 'Webhook dispatch loop',
         subscriptionId: sub.id,
@@ -1,8 +1,9 @@
 /**
  * Webhook Admin Routes
  *
- * Provides admin-only CRUD for webhook subscriptions, delivery log
- * inspection, and dead-letter queue management.
+ * Provides admin-only CRUD for webhook subscriptions, secret rotation,
+ * test events, delivery log inspection and redelivery, and dead-letter
+ * queue management.
  *
  * All routes are mounted under `/api/admin/webhooks`.
  */
@@ -40,21 +41,25 @@ export async function webhookRoutes(fastify: FastifyInstance) {
         type: 'object',
         properties: {
           installationId: { type: 'string', description: 'Filter by plugin installation ID' },
+          includeDisabled: { type: 'boolean', default: false, description: 'Include disabled and auto-disabled subscriptions' },
         },
       },
     },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const { installationId } = request.query as { installationId?: string };
+      const { installationId, includeDisabled } = request.query as {
+        installationId?: string;
+        includeDisabled?: boolean;
+      };
 
       let subscriptions;
       if (installationId) {
-        subscriptions = await WebhookSubscriptionService.listByInstallation(installationId);
+        subscriptions = await WebhookSubscriptionService.listByInstallation(installationId, includeDisabled);
       } else {
-        // Return all active subscriptions (admin overview)
+        // Return all subscriptions (admin overview)
         const { prisma } = await import('@/config/database');
         subscriptions = await prisma.webhookSubscription.findMany({
-          where: { active: true },
+          where: includeDisabled ? undefined : { active: true },
           orderBy: { createdAt: 'desc' },
         });
       }
@@ -231,6 +236,79 @@ export async function webhookRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /subscriptions/:id/rotate-secret
+   *
+   * Generate a new signing secret.  The old secret keeps signing deliveries
+   * alongside the new one until the overlap window ends.
+   */
+  fastify.post('/subscriptions/:id/rotate-secret', {
+    schema: {
+      tags: ['admin-webhooks'],
+      summary: 'Rotate webhook signing secret',
+      description: 'Generate a new HMAC secret; deliveries carry signatures for both secrets during the overlap window.',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+        },
+      },
+      body: {
+        type: 'object',
+        properties: {
+          overlapHours: { type: 'integer', minimum: 0, maximum: 168, default: 24, description: 'Hours the previous secret stays valid' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { overlapHours } = (request.body ?? {}) as { overlapHours?: number };
+
+      const updated = await WebhookSubscriptionService.rotateSecret(id, overlapHours);
+      return sendSuccess(reply, updated, 'Webhook signing secret rotated');
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', 'Failed to rotate webhook secret', error.message);
+    }
+  });
+
+  /**
+   * POST /subscriptions/:id/test
+   *
+   * Queue a `webhook.test` event for this subscription.
+   */
+  fastify.post('/subscriptions/:id/test', {
+    schema: {
+      tags: ['admin-webhooks'],
+      summary: 'Send test webhook event',
+      description: 'Queue a webhook.test event for delivery to this subscription, even if it is disabled.',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const result = await WebhookSubscriptionService.sendTestEvent(id);
+      return sendSuccess(reply, result, 'Test event queued', 202);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', 'Failed to send test event', error.message);
+    }
+  });
+
   // ==========================================================================
   // Delivery Logs
   // ==========================================================================
@@ -278,6 +356,41 @@ export async function webhookRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /delivery-logs/:id/redeliver
+   *
+   * Queue the event recorded in a delivery log entry for delivery again.
+   */
+  fastify.post('/delivery-logs/:id/redeliver', {
+    schema: {
+      tags: ['admin-webhooks'],
+      summary: 'Redeliver webhook event',
+      description: 'Queue the event from a delivery log entry for delivery to the same subscription.',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const result = await WebhookSubscriptionService.redeliverLog(id);
+      return sendSuccess(reply, result, 'Webhook event queued for redelivery', 202);
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return sendError(reply, 404, 'NOT_FOUND', error.message);
+      }
+      if (error.message?.includes('no stored payload')) {
+        return sendError(reply, 409, 'CONFLICT', error.message);
+      }
+      return sendError(reply, 500, 'INTERNAL_SERVER_ERROR', 'Failed to redeliver webhook event', error.message);
+    }
+  });
+
   // ==========================================================================
   // Dead Letters
   // ==========================================================================
@@ -6,8 +6,10 @@
  * either an internal (in-process) or external (HTTP POST) delivery mode.
  */
 
+import { randomBytes, randomUUID } from 'crypto';
 import { prisma } from '@/config/database';
 import { logger } from '@/core/logger/unified-logger';
+import { enqueueWebhookAttempt } from './delivery-worker';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -27,6 +29,9 @@ export interface UpdateSubscriptionInput {
   secret?: string;
 }
 
+/** Default time the pre-rotation secret stays valid after a rotation. */
+const DEFAULT_SECRET_OVERLAP_HOURS = 24;
+
 // ---------------------------------------------------------------------------
 // Service
 // ---------------------------------------------------------------------------
@@ -56,11 +61,12 @@ export const WebhookSubscriptionService = {
   },
 
   /**
-   * List all active subscriptions for a given plugin installation.
+   * List subscriptions for a given plugin installation.  Disabled ones
+   * (including auto-disabled endpoints) are only included on request.
    */
-  async listByInstallation(installationId: string) {
+  async listByInstallation(installationId: string, includeDisabled = false) {
     return prisma.webhookSubscription.findMany({
-      where: { installationId, active: true },
+      where: includeDisabled ? { installationId } : { installationId, active: true },
       orderBy: { createdAt: 'desc' },
     });
   },
@@ -84,12 +90,117 @@ export const WebhookSubscriptionService = {
 
   /**
    * Update mutable fields on an existing subscription.
+   * Re-enabling a subscription clears its failure tracking.
    */
   async update(id: string, data: UpdateSubscriptionInput) {
     return prisma.webhookSubscription.update({
       where: { id },
-      data,
+      data: data.active === true
+        ? { ...data, failingSince: null, disabledAt: null, disabledReason: null }
+        : data,
+    });
+  },
+
+  /**
+   * Replace the signing secret with a freshly generated one.  The old secret
+   * keeps signing deliveries (alongside the new one) for `overlapHours`, so
+   * receivers can switch over without rejecting events.
+   */
+  async rotateSecret(id: string, overlapHours = DEFAULT_SECRET_OVERLAP_HOURS) {
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+    if (!subscription) {
+      throw new Error('Webhook subscription not found');
+    }
+
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+    const hasOverlap = !!subscription.secret && overlapHours > 0;
+
+    const updated = await prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        secret,
+        previousSecret: hasOverlap ? subscription.secret : null,
+        previousSecretExpiresAt: hasOverlap ? new Date(Date.now() + overlapHours * 3_600_000) : null,
+      },
+    });
+
+    logger.info('Webhook signing secret rotated', {
+      subscriptionId: id,
+      overlapHours: hasOverlap ? overlapHours : 0,
+    });
+
+    return updated;
+  },
+
+  // ---------- Manual deliveries ---------------------------------------------
+
+  /**
+   * Queue a `webhook.test` event for a single subscription.  Test events are
+   * delivered even when the subscription is disabled.
+   */
+  async sendTestEvent(id: string) {
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+    if (!subscription) {
+      throw new Error('Webhook subscription not found');
+    }
+
+    const eventId = `evt_test_${randomUUID()}`;
+    await enqueueWebhookAttempt(
+      {
+        outboxEventId: eventId,
+        subscriptionId: subscription.id,
+        webhookEventType: 'webhook.test',
+        payload: {
+          test: true,
+          subscriptionId: subscription.id,
+          subscribedEventType: subscription.eventType,
+          sentAt: new Date().toISOString(),
+        },
+        attempt: 1,
+        manual: true,
+      },
+      { jobId: `${eventId}-${subscription.id}` }
+    );
+
+    return { queued: true, eventId, subscriptionId: subscription.id };
+  },
+
+  /**
+   * Queue the event recorded in a delivery log entry for delivery again, to
+   * the same subscription only.
+   */
+  async redeliverLog(logId: string) {
+    const log = await prisma.webhookDeliveryLog.findUnique({
+      where: { id: logId },
+      include: { subscription: true },
     });
+
+    if (!log) {
+      throw new Error('Delivery log not found');
+    }
+    if (log.payload === null) {
+      throw new Error('Delivery log has no stored payload to redeliver');
+    }
+
+    await enqueueWebhookAttempt(
+      {
+        outboxEventId: log.eventId,
+        subscriptionId: log.subscriptionId,
+        webhookEventType: log.eventType ?? log.subscription.eventType,
+        payload: log.payload,
+        attempt: 1,
+        manual: true,
+      },
+      { jobId: `${log.eventId}-${log.subscriptionId}-redeliver-${Date.now()}` }
+    );
+
+    logger.info('Webhook delivery log queued for redelivery', {
+      logId,
+      eventId: log.eventId,
+      subscriptionId: log.subscriptionId,
+    });
+
+    return { queued: true, logId, eventId: log.eventId, subscriptionId: log.subscriptionId };
   },
 
   /**
@@ -192,7 +303,7 @@ export const WebhookSubscriptionService = {
   },
 
   /**
-   * Replay a dead-letter event by re-dispatching it through the event dispatcher.
+   * Replay a dead-letter event by queueing it for its subscription again.
    * Marks the dead-letter entry with a replayedAt timestamp.
    */
   async replayDeadLetter(deadLetterId: string) {
@@ -209,15 +320,18 @@ export const WebhookSubscriptionService = {
       throw new Error('Dead letter has already been replayed');
     }
 
-    // Dynamically import to avoid circular dependencies
-    const { dispatchWebhookEvent } = await import('./event-dispatcher');
-
-    await dispatchWebhookEvent({
-      id: deadLetter.eventId,
-      type: deadLetter.eventType,
-      payload: deadLetter.payload,
-      aggregateId: deadLetter.eventId, // Use eventId as aggregateId for replays
-    });
+    await enqueueWebhookAttempt(
+      {
+        outboxEventId: deadLetter.eventId,
+        subscriptionId: deadLetter.subscriptionId,
+        webhookEventType: deadLetter.eventType,
+        payload: deadLetter.payload,
+        aggregateId: deadLetter.eventId, // Use eventId as aggregateId for replays
+        attempt: 1,
+        manual: true,
+      },
+      { jobId: `${deadLetter.eventId}-${deadLetter.subscriptionId}-replay-${deadLetterId}` }
+    );
 
     // Mark as replayed
     await prisma.webhookDeadLetter.update({
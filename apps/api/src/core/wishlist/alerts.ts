@@ -0,0 +1,91 @@
+/**
+ * Wishlist Alerts
+ *
+ * Queue back-in-stock and price-drop alerts for wishlist items from inside
+ * the transaction that changed the stock or the price. Each alert is a
+ * wishlist.* outbox event, which the email pipeline turns into a customer
+ * email.
+ *
+ * Kept apart from WishlistService so inventory and product code can call it
+ * without pulling in the cart.
+ */
+
+import { prisma } from '@/config/database';
+import { OutboxService } from '@/infra/outbox';
+
+export type WishlistAlertTx = Pick<typeof prisma, 'wishlistItem' | 'outboxEvent'>;
+
+const alertItemSelect = {
+  id: true,
+  wishlistId: true,
+  productId: true,
+  variantId: true,
+  addedPrice: true,
+  lastNotifiedPrice: true,
+  wishlist: { select: { userId: true } },
+} as const;
+
+/**
+ * Alert customers waiting for a variant that has sellable stock again
+ *
+ * Each subscription fires once; the customer re-arms it by turning the
+ * alert on again.
+ *
+ * @returns Number of alerts queued
+ */
+export async function queueBackInStockAlerts(tx: WishlistAlertTx, variantId: string): Promise<number> {
+  const items = await tx.wishlistItem.findMany({
+    where: { variantId, notifyBackInStock: true, backInStockNotifiedAt: null },
+    select: alertItemSelect,
+  });
+  if (items.length === 0) return 0;
+
+  for (const item of items) {
+    await OutboxService.emit(tx, 'wishlist.back_in_stock', item.id, {
+      wishlistItemId: item.id,
+      wishlistId: item.wishlistId,
+      userId: item.wishlist.userId,
+      productId: item.productId,
+      variantId: item.variantId,
+    });
+  }
+
+  await tx.wishlistItem.updateMany({
+    where: { id: { in: items.map((item) => item.id) } },
+    data: { backInStockNotifiedAt: new Date() },
+  });
+  return items.length;
+}
+
+/**
+ * Alert customers whose wishlisted variant is now cheaper than the price
+ * they added it at, or the price of their last alert
+ *
+ * @returns Number of alerts queued
+ */
+export async function queuePriceDropAlerts(tx: WishlistAlertTx, variantId: string, price: number): Promise<number> {
+  const items = await tx.wishlistItem.findMany({
+    where: { variantId, notifyPriceDrop: true },
+    select: alertItemSelect,
+  });
+  const dropped = items.filter((item) => price < Number(item.lastNotifiedPrice ?? item.addedPrice));
+  if (dropped.length === 0) return 0;
+
+  for (const item of dropped) {
+    await OutboxService.emit(tx, 'wishlist.price_drop', item.id, {
+      wishlistItemId: item.id,
+      wishlistId: item.wishlistId,
+      userId: item.wishlist.userId,
+      productId: item.productId,
+      variantId: item.variantId,
+      previousPrice: Number(item.lastNotifiedPrice ?? item.addedPrice),
+      price,
+    });
+  }
+
+  await tx.wishlistItem.updateMany({
+    where: { id: { in: dropped.map((item) => item.id) } },
+    data: { lastNotifiedPrice: price },
+  });
+  return dropped.length;
+}
@@ -0,0 +1,272 @@
+/**
+ * Wishlist Routes
+ *
+ * Customer wishlists (mounted at /api/wishlists): named lists, the
+ * saved-for-later list, alert settings per item, share links and move to
+ * cart. Shared lists are readable without signing in.
+ */
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { WishlistService } from './service';
+import { wishlistSchemas } from './schemas';
+import { CartService } from '@/core/cart/service';
+import { authMiddleware } from '@/core/auth/middleware';
+import { sendSuccess, sendError } from '@/utils/response';
+import { mapWishlistRouteError } from '@/utils/route-error-mapper';
+
+function sendWishlistError(reply: FastifyReply, error: unknown, defaultMessage: string) {
+  const mapped = mapWishlistRouteError(error, {
+    defaultStatus: 500,
+    defaultCode: 'INTERNAL_SERVER_ERROR',
+    defaultMessage,
+  });
+  return sendError(reply, mapped.status, mapped.code, mapped.message, mapped.details);
+}
+
+export async function wishlistRoutes(fastify: FastifyInstance) {
+  // Shared wishlist (public)
+  fastify.get('/shared/:token', {
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Get shared wishlist',
+      description: 'Read-only view of a wishlist its owner shared by link',
+      ...wishlistSchemas.getSharedWishlist,
+    }
+  }, async (request, reply) => {
+    try {
+      const { token } = request.params as any;
+      const wishlist = await WishlistService.getSharedWishlist(token);
+      return sendSuccess(reply, wishlist);
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to get shared wishlist');
+    }
+  });
+
+  // List own wishlists
+  fastify.get('/', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'List wishlists',
+      description: 'The customer\'s wishlists and saved-for-later list with item counts',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.listWishlists,
+    }
+  }, async (request, reply) => {
+    try {
+      const wishlists = await WishlistService.listWishlists(request.user!.id);
+      return sendSuccess(reply, wishlists);
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to get wishlists');
+    }
+  });
+
+  // Create wishlist
+  fastify.post('/', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Create wishlist',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.createWishlist,
+    }
+  }, async (request, reply) => {
+    try {
+      const { name } = request.body as any;
+      const wishlist = await WishlistService.createWishlist(request.user!.id, name);
+      return sendSuccess(reply, wishlist, 'Wishlist created', 201);
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to create wishlist');
+    }
+  });
+
+  // Add item
+  fastify.post('/items', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Add item to wishlist',
+      description: 'Add a product variant to a wishlist, or update its alert settings if it is already there',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.addItem,
+    }
+  }, async (request, reply) => {
+    try {
+      const data = request.body as any;
+      // Explicitly pick only allowed fields
+      const item = await WishlistService.addItem(request.user!.id, {
+        productId: data.productId,
+        variantId: data.variantId,
+        wishlistId: data.wishlistId,
+        notifyBackInStock: data.notifyBackInStock,
+        notifyPriceDrop: data.notifyPriceDrop,
+      });
+      return sendSuccess(reply, item, 'Added to wishlist', 201);
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to add item to wishlist');
+    }
+  });
+
+  // Update item
+  fastify.put('/items/:itemId', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Update wishlist item',
+      description: 'Change alert settings or move the item to another list',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.updateItem,
+    }
+  }, async (request, reply) => {
+    try {
+      const { itemId } = request.params as any;
+      const data = request.body as any;
+      const item = await WishlistService.updateItem(request.user!.id, itemId, {
+        notifyBackInStock: data.notifyBackInStock,
+        notifyPriceDrop: data.notifyPriceDrop,
+        wishlistId: data.wishlistId,
+      });
+      return sendSuccess(reply, item, 'Wishlist item updated');
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to update wishlist item');
+    }
+  });
+
+  // Remove item
+  fastify.delete('/items/:itemId', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Remove wishlist item',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.removeItem,
+    }
+  }, async (request, reply) => {
+    try {
+      const { itemId } = request.params as any;
+      await WishlistService.removeItem(request.user!.id, itemId);
+      return sendSuccess(reply, null, 'Removed from wishlist');
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to remove wishlist item');
+    }
+  });
+
+  // Move item to cart
+  fastify.post('/items/:itemId/move-to-cart', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Move wishlist item to cart',
+      description: 'Add the item to the cart and remove it from its list; returns the updated cart',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.moveToCart,
+    }
+  }, async (request, reply) => {
+    try {
+      const { itemId } = request.params as any;
+      const cart = await CartService.moveFromWishlist(request.user!.id, itemId);
+      return sendSuccess(reply, cart, 'Moved to cart');
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to move item to cart');
+    }
+  });
+
+  // Get wishlist
+  fastify.get('/:id', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Get wishlist',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.getWishlist,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const wishlist = await WishlistService.getWishlist(request.user!.id, id);
+      return sendSuccess(reply, wishlist);
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to get wishlist');
+    }
+  });
+
+  // Rename wishlist
+  fastify.put('/:id', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Rename wishlist',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.renameWishlist,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { name } = request.body as any;
+      const wishlist = await WishlistService.renameWishlist(request.user!.id, id, name);
+      return sendSuccess(reply, wishlist, 'Wishlist renamed');
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to rename wishlist');
+    }
+  });
+
+  // Delete wishlist
+  fastify.delete('/:id', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Delete wishlist',
+      description: 'Delete a wishlist and its items',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.deleteWishlist,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      await WishlistService.deleteWishlist(request.user!.id, id);
+      return sendSuccess(reply, null, 'Wishlist deleted');
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to delete wishlist');
+    }
+  });
+
+  // Share wishlist
+  fastify.post('/:id/share', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Share wishlist',
+      description: 'Create a share link token; an already shared list keeps its token',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.shareWishlist,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const wishlist = await WishlistService.shareWishlist(request.user!.id, id);
+      return sendSuccess(reply, wishlist, 'Wishlist shared');
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to share wishlist');
+    }
+  });
+
+  // Stop sharing wishlist
+  fastify.delete('/:id/share', {
+    onRequest: [authMiddleware],
+    schema: {
+      tags: ['wishlists'],
+      summary: 'Stop sharing wishlist',
+      description: 'Revoke the share link',
+      security: [{ bearerAuth: [] }],
+      ...wishlistSchemas.unshareWishlist,
+    }
+  }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const wishlist = await WishlistService.unshareWishlist(request.user!.id, id);
+      return sendSuccess(reply, wishlist, 'Wishlist no longer shared');
+    } catch (error: unknown) {
+      return sendWishlistError(reply, error, 'Failed to stop sharing wishlist');
+    }
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Wishlist OpenAPI Schemas
+ */
+
+import {
+  createTypedCreateResponses,
+  createTypedDeleteResponses,
+  createTypedReadResponses,
+  createTypedUpdateResponses,
+} from '@/types/common-dto';
+import { WISHLIST_NAME_MAX_LENGTH, WishlistType } from './types';
+
+const sharedItemProperties = {
+  id: { type: 'string', description: 'Wishlist item ID' },
+  productId: { type: 'string', description: 'Product ID' },
+  productName: { type: 'string', description: 'Product name' },
+  productSlug: { type: 'string', nullable: true, description: 'Product slug' },
+  productImage: { type: 'string', nullable: true, description: 'First product image' },
+  variantId: { type: 'string', description: 'Variant ID' },
+  variantName: { type: 'string', nullable: true, description: 'Variant name' },
+  quantity: { type: 'integer', description: 'Quantity added to the cart on move to cart' },
+  price: { type: 'number', description: 'Current sale price' },
+  addedPrice: { type: 'number', description: 'Sale price when the item was added' },
+  inStock: { type: 'boolean', description: 'Whether the variant has sellable stock' },
+  isAvailable: { type: 'boolean', description: 'False when the product or variant was deactivated' },
+  createdAt: { type: 'string', format: 'date-time' },
+} as const;
+
+const sharedItemRequired = [
+  'id', 'productId', 'productName', 'variantId', 'quantity', 'price', 'addedPrice', 'inStock', 'isAvailable', 'createdAt',
+];
+
+const sharedItemSchema = {
+  type: 'object',
+  properties: sharedItemProperties,
+  required: sharedItemRequired,
+} as const;
+
+export const wishlistItemSchema = {
+  type: 'object',
+  properties: {
+    ...sharedItemProperties,
+    wishlistId: { type: 'string', description: 'Wishlist ID' },
+    notifyBackInStock: { type: 'boolean', description: 'Email the customer when the variant is back in stock' },
+    notifyPriceDrop: { type: 'boolean', description: 'Email the customer when the price drops' },
+  },
+  required: [...sharedItemRequired, 'wishlistId', 'notifyBackInStock', 'notifyPriceDrop'],
+} as const;
+
+const summaryProperties = {
+  id: { type: 'string', description: 'Wishlist ID' },
+  name: { type: 'string', description: 'Wishlist name' },
+  type: { type: 'string', enum: Object.values(WishlistType), description: 'WISHLIST or the SAVED_FOR_LATER list' },
+  itemCount: { type: 'integer', description: 'Number of items' },
+  shareToken: { type: 'string', nullable: true, description: 'Share token while the list is shared' },
+  createdAt: { type: 'string', format: 'date-time' },
+  updatedAt: { type: 'string', format: 'date-time' },
+} as const;
+
+const summaryRequired = ['id', 'name', 'type', 'itemCount', 'createdAt', 'updatedAt'];
+
+export const wishlistSummarySchema = {
+  type: 'object',
+  properties: summaryProperties,
+  required: summaryRequired,
+} as const;
+
+export const wishlistSchema = {
+  type: 'object',
+  properties: {
+    ...summaryProperties,
+    items: { type: 'array', items: wishlistItemSchema },
+  },
+  required: [...summaryRequired, 'items'],
+} as const;
+
+const sharedWishlistSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Wishlist name' },
+    ownerName: { type: 'string', description: 'Username of the owner' },
+    items: { type: 'array', items: sharedItemSchema },
+  },
+  required: ['name', 'ownerName', 'items'],
+} as const;
+
+const nameBody = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: WISHLIST_NAME_MAX_LENGTH, description: 'Wishlist name' },
+  },
+} as const;
+
+const wishlistIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Wishlist ID' },
+  },
+} as const;
+
+const itemIdParams = {
+  type: 'object',
+  required: ['itemId'],
+  properties: {
+    itemId: { type: 'string', description: 'Wishlist item ID' },
+  },
+} as const;
+
+export const wishlistSchemas = {
+  // GET /api/wishlists
+  listWishlists: {
+    response: createTypedReadResponses({ type: 'array', items: wishlistSummarySchema }),
+  },
+
+  // POST /api/wishlists
+  createWishlist: {
+    body: nameBody,
+    response: createTypedCreateResponses(wishlistSchema),
+  },
+
+  // GET /api/wishlists/:id
+  getWishlist: {
+    params: wishlistIdParams,
+    response: createTypedReadResponses(wishlistSchema),
+  },
+
+  // PUT /api/wishlists/:id
+  renameWishlist: {
+    params: wishlistIdParams,
+    body: nameBody,
+    response: createTypedUpdateResponses(wishlistSchema),
+  },
+
+  // DELETE /api/wishlists/:id
+  deleteWishlist: {
+    params: wishlistIdParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // POST /api/wishlists/:id/share
+  shareWishlist: {
+    params: wishlistIdParams,
+    response: createTypedUpdateResponses(wishlistSummarySchema),
+  },
+
+  // DELETE /api/wishlists/:id/share
+  unshareWishlist: {
+    params: wishlistIdParams,
+    response: createTypedUpdateResponses(wishlistSummarySchema),
+  },
+
+  // GET /api/wishlists/shared/:token
+  getSharedWishlist: {
+    params: {
+      type: 'object',
+      required: ['token'],
+      properties: {
+        token: { type: 'string', description: 'Share token' },
+      },
+    },
+    response: createTypedReadResponses(sharedWishlistSchema),
+  },
+
+  // POST /api/wishlists/items
+  addItem: {
+    body: {
+      type: 'object',
+      required: ['productId'],
+      properties: {
+        productId: { type: 'string', description: 'Product ID' },
+        variantId: { type: 'string', description: 'Variant ID, defaults to the first active variant' },
+        wishlistId: { type: 'string', description: 'Target list, defaults to the customer\'s first wishlist' },
+        notifyBackInStock: { type: 'boolean', description: 'Email when back in stock' },
+        notifyPriceDrop: { type: 'boolean', description: 'Email when the price drops' },
+      },
+    },
+    response: createTypedCreateResponses(wishlistItemSchema),
+  },
+
+  // PUT /api/wishlists/items/:itemId
+  updateItem: {
+    params: itemIdParams,
+    body: {
+      type: 'object',
+      properties: {
+        notifyBackInStock: { type: 'boolean', description: 'Email when back in stock; turning it on re-arms the alert' },
+        notifyPriceDrop: { type: 'boolean', description: 'Email when the price drops' },
+        wishlistId: { type: 'string', description: 'Move the item to this list' },
+      },
+    },
+    response: createTypedUpdateResponses(wishlistItemSchema),
+  },
+
+  // DELETE /api/wishlists/items/:itemId
+  removeItem: {
+    params: itemIdParams,
+    response: createTypedDeleteResponses({ type: 'null' }),
+  },
+
+  // POST /api/wishlists/items/:itemId/move-to-cart
+  moveToCart: {
+    params: itemIdParams,
+    // Cart payload as returned by the cart endpoints
+    response: createTypedUpdateResponses({ type: 'object', additionalProperties: true }),
+  },
+} as const;
@@ -0,0 +1,471 @@
+/**
+ * Wishlist Service
+ *
+ * Per-customer wishlists. A customer has any number of named lists (the
+ * first one is created on the first "add to wishlist") and at most one
+ * SAVED_FOR_LATER list that CartService fills when a cart line is saved for
+ * later. Items point at a variant, so back-in-stock and price-drop alerts
+ * (see ./alerts) are per variant.
+ *
+ * Sharing a list sets a random share token; anyone with the link can view
+ * the list until the owner stops sharing it.
+ *
+ * Adding an item is recorded as an `add-to-wishlist` recommendation
+ * interaction for the personalized engine.
+ */
+
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { parseJsonRecord } from '@/core/external-orders/utils';
+import { InventoryService } from '@/core/inventory/service';
+import { LoggerService } from '@/core/logger/unified-logger';
+import { RecommendationService } from '@/core/recommendations/service';
+import { InteractionActionEnum, RecommendationTypeEnum } from '@/core/recommendations/types';
+import {
+  AddWishlistItemInput,
+  DEFAULT_WISHLIST_NAME,
+  SAVED_FOR_LATER_NAME,
+  SharedWishlistItemResponse,
+  SharedWishlistResponse,
+  UpdateWishlistItemInput,
+  WISHLIST_MAX_ITEMS,
+  WISHLIST_MAX_LISTS,
+  WISHLIST_NAME_MAX_LENGTH,
+  WishlistItemResponse,
+  WishlistResponse,
+  WishlistSummaryResponse,
+  WishlistType,
+  WishlistTypeValue,
+} from './types';
+
+const itemInclude = {
+  product: { select: { name: true, slug: true, isActive: true, typeData: true } },
+  variant: { select: { name: true, salePrice: true, isActive: true } },
+} satisfies Prisma.WishlistItemInclude;
+
+type WishlistItemWithDetails = Prisma.WishlistItemGetPayload<{ include: typeof itemInclude }>;
+
+type WishlistRow = {
+  id: string;
+  name: string;
+  type: string;
+  shareToken: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+function productImage(typeData: unknown): string | null {
+  const images = parseJsonRecord(typeData)?.images;
+  return Array.isArray(images) ? images.find((image): image is string => typeof image === 'string') ?? null : null;
+}
+
+function validateName(name: string | undefined): string {
+  const trimmed = (name ?? '').trim();
+  if (!trimmed) {
+    throw new Error('Wishlist name is required');
+  }
+  if (trimmed.length > WISHLIST_NAME_MAX_LENGTH) {
+    throw new Error(`Wishlist name must be at most ${WISHLIST_NAME_MAX_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function formatSummary(list: WishlistRow, itemCount: number): WishlistSummaryResponse {
+  return {
+    id: list.id,
+    name: list.name,
+    type: list.type as WishlistTypeValue,
+    itemCount,
+    shareToken: list.shareToken,
+    createdAt: list.createdAt.toISOString(),
+    updatedAt: list.updatedAt.toISOString(),
+  };
+}
+
+function toSharedItem(item: WishlistItemWithDetails, stock: Map<string, number>): SharedWishlistItemResponse {
+  return {
+    id: item.id,
+    productId: item.productId,
+    productName: item.product?.name ?? '',
+    productSlug: item.product?.slug ?? null,
+    productImage: productImage(item.product?.typeData),
+    variantId: item.variantId,
+    variantName: item.variant?.name ?? null,
+    quantity: item.quantity,
+    price: Number(item.variant?.salePrice ?? 0),
+    addedPrice: Number(item.addedPrice),
+    inStock: (stock.get(item.variantId) ?? 0) > 0,
+    isAvailable: Boolean(item.product?.isActive && item.variant?.isActive),
+    createdAt: item.createdAt.toISOString(),
+  };
+}
+
+function toItemResponse(item: WishlistItemWithDetails, stock: Map<string, number>): WishlistItemResponse {
+  return {
+    ...toSharedItem(item, stock),
+    wishlistId: item.wishlistId,
+    notifyBackInStock: item.notifyBackInStock,
+    notifyPriceDrop: item.notifyPriceDrop,
+  };
+}
+
+export class WishlistService {
+  /**
+   * The customer's lists, oldest first, with the saved-for-later list last
+   */
+  static async listWishlists(userId: string): Promise<WishlistSummaryResponse[]> {
+    const lists = await prisma.wishlist.findMany({
+      where: { userId },
+      orderBy: [{ type: 'asc' }, { createdAt: 'asc' }],
+      include: { _count: { select: { items: true } } },
+    });
+    return lists.map((list) => formatSummary(list, list._count.items));
+  }
+
+  /**
+   * @throws Error if the list does not exist or belongs to someone else
+   */
+  static async getWishlist(userId: string, wishlistId: string): Promise<WishlistResponse> {
+    const list = await this.findOwnList(userId, wishlistId);
+    return this.withItems(list);
+  }
+
+  /**
+   * @throws Error if the name is invalid or the customer has too many lists
+   */
+  static async createWishlist(userId: string, name: string): Promise<WishlistResponse> {
+    const validName = validateName(name);
+    const count = await prisma.wishlist.count({ where: { userId, type: WishlistType.WISHLIST } });
+    if (count >= WISHLIST_MAX_LISTS) {
+      throw new Error(`Wishlist limit reached: at most ${WISHLIST_MAX_LISTS} lists`);
+    }
+
+    const list = await prisma.wishlist.create({
+      data: { userId, name: validName, type: WishlistType.WISHLIST },
+    });
+    return { ...formatSummary(list, 0), items: [] };
+  }
+
+  /**
+   * @throws Error if the list is the saved-for-later list
+   */
+  static async renameWishlist(userId: string, wishlistId: string, name: string): Promise<WishlistResponse> {
+    const validName = validateName(name);
+    const list = await this.findOwnList(userId, wishlistId);
+    this.assertNamedList(list, 'renamed');
+
+    const updated = await prisma.wishlist.update({ where: { id: list.id }, data: { name: validName } });
+    return this.withItems(updated);
+  }
+
+  static async deleteWishlist(userId: string, wishlistId: string): Promise<void> {
+    const list = await this.findOwnList(userId, wishlistId);
+    await prisma.wishlist.delete({ where: { id: list.id } });
+  }
+
+  /**
+   * Share a list by link; sharing an already shared list keeps its token
+   *
+   * @throws Error if the list is the saved-for-later list
+   */
+  static async shareWishlist(userId: string, wishlistId: string): Promise<WishlistSummaryResponse> {
+    const list = await this.findOwnList(userId, wishlistId);
+    this.assertNamedList(list, 'shared');
+
+    const updated = list.shareToken
+      ? list
+      : await prisma.wishlist.update({
+        where: { id: list.id },
+        data: { shareToken: randomBytes(24).toString('base64url') },
+      });
+    const itemCount = await prisma.wishlistItem.count({ where: { wishlistId: list.id } });
+    return formatSummary(updated, itemCount);
+  }
+
+  /**
+   * Stop sharing a list; the old link stops working
+   */
+  static async unshareWishlist(userId: string, wishlistId: string): Promise<WishlistSummaryResponse> {
+    const list = await this.findOwnList(userId, wishlistId);
+    const updated = await prisma.wishlist.update({ where: { id: list.id }, data: { shareToken: null } });
+    const itemCount = await prisma.wishlistItem.count({ where: { wishlistId: list.id } });
+    return formatSummary(updated, itemCount);
+  }
+
+  /**
+   * Public view of a shared list; inactive products are left out
+   *
+   * @throws Error if no list is shared under the token
+   */
+  static async getSharedWishlist(shareToken: string): Promise<SharedWishlistResponse> {
+    const list = await prisma.wishlist.findUnique({
+      where: { shareToken },
+      include: {
+        user: { select: { username: true } },
+        items: { include: itemInclude, orderBy: { createdAt: 'desc' } },
+      },
+    });
+    if (!list || list.type !== WishlistType.WISHLIST) {
+      throw new Error('Shared wishlist not found');
+    }
+
+    const items = list.items.filter((item) => item.product?.isActive && item.variant?.isActive);
+    const stock = await InventoryService.getAvailableStockByVariantIds(items.map((item) => item.variantId));
+    return {
+      name: list.name,
+      ownerName: list.user?.username ?? '',
+      items: items.map((item) => toSharedItem(item, stock)),
+    };
+  }
+
+  /**
+   * Add a product to a wishlist
+   *
+   * Adding a variant that is already on the list only updates the alert
+   * settings that were passed.
+   *
+   * @throws Error if the product or variant is not available, the list is
+   *   not the customer's or the list is full
+   */
+  static async addItem(userId: string, input: AddWishlistItemInput): Promise<WishlistItemResponse> {
+    const variant = await this.resolveVariant(input.productId, input.variantId);
+    const list = input.wishlistId
+      ? await this.findOwnList(userId, input.wishlistId)
+      : await this.getOrCreateList(userId, WishlistType.WISHLIST);
+    this.assertNamedList(list, 'used for wishlist items');
+
+    const alerts = {
+      ...(input.notifyBackInStock !== undefined ? { notifyBackInStock: input.notifyBackInStock, backInStockNotifiedAt: null } : {}),
+      ...(input.notifyPriceDrop !== undefined ? { notifyPriceDrop: input.notifyPriceDrop } : {}),
+    };
+
+    const existing = await prisma.wishlistItem.findUnique({
+      where: { wishlistId_variantId: { wishlistId: list.id, variantId: variant.id } },
+    });
+    if (!existing) {
+      await this.assertRoomFor(list.id);
+    }
+
+    const item = existing
+      ? await prisma.wishlistItem.update({ where: { id: existing.id }, data: alerts, include: itemInclude })
+      : await prisma.wishlistItem.create({
+        data: {
+          wishlistId: list.id,
+          productId: input.productId,
+          variantId: variant.id,
+          addedPrice: variant.salePrice,
+          ...alerts,
+        },
+        include: itemInclude,
+      });
+
+    if (!existing) {
+      await this.trackInteraction(userId, input.productId);
+    }
+    const [formatted] = await this.formatItems([item]);
+    return formatted;
+  }
+
+  /**
+   * Change an item's alerts or move it to another of the customer's lists
+   *
+   * Turning an alert on re-arms it after it fired.
+   *
+   * @throws Error if the item or target list is not the customer's, or the
+   *   variant is already on the target list
+   */
+  static async updateItem(userId: string, itemId: string, input: UpdateWishlistItemInput): Promise<WishlistItemResponse> {
+    const item = await this.findOwnItem(userId, itemId);
+
+    const data: Prisma.WishlistItemUncheckedUpdateInput = {};
+    if (input.notifyBackInStock !== undefined) {
+      data.notifyBackInStock = input.notifyBackInStock;
+      if (input.notifyBackInStock) data.backInStockNotifiedAt = null;
+    }
+    if (input.notifyPriceDrop !== undefined) {
+      data.notifyPriceDrop = input.notifyPriceDrop;
+    }
+    if (input.wishlistId && input.wishlistId !== item.wishlistId) {
+      const target = await this.findOwnList(userId, input.wishlistId);
+      const duplicate = await prisma.wishlistItem.findUnique({
+        where: { wishlistId_variantId: { wishlistId: target.id, variantId: item.variantId } },
+        select: { id: true },
+      });
+      if (duplicate) {
+        throw new Error('Item is already on that list');
+      }
+      await this.assertRoomFor(target.id);
+      data.wishlistId = target.id;
+    }
+
+    const updated = await prisma.wishlistItem.update({ where: { id: item.id }, data, include: itemInclude });
+    const [formatted] = await this.formatItems([updated]);
+    return formatted;
+  }
+
+  static async removeItem(userId: string, itemId: string): Promise<void> {
+    const item = await this.findOwnItem(userId, itemId);
+    await prisma.wishlistItem.delete({ where: { id: item.id } });
+  }
+
+  /**
+   * Look up one of the customer's items for a move to the cart
+   *
+   * @throws Error if the item is not the customer's
+   */
+  static async getItemForCart(
+    userId: string,
+    itemId: string
+  ): Promise<{ id: string; productId: string; variantId: string; quantity: number }> {
+    const item = await this.findOwnItem(userId, itemId);
+    return { id: item.id, productId: item.productId, variantId: item.variantId, quantity: item.quantity };
+  }
+
+  /**
+   * Put a cart line on the saved-for-later list
+   *
+   * Saving a variant that is already on the list adds up the quantities.
+   */
+  static async saveForLater(
+    userId: string,
+    line: { productId: string; variantId: string; quantity: number; price: number }
+  ): Promise<WishlistItemResponse> {
+    const list = await this.getOrCreateList(userId, WishlistType.SAVED_FOR_LATER);
+    const item = await prisma.wishlistItem.upsert({
+      where: { wishlistId_variantId: { wishlistId: list.id, variantId: line.variantId } },
+      create: {
+        wishlistId: list.id,
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        addedPrice: line.price,
+      },
+      update: { quantity: { increment: line.quantity } },
+      include: itemInclude,
+    });
+
+    await this.trackInteraction(userId, line.productId);
+    const [formatted] = await this.formatItems([item]);
+    return formatted;
+  }
+
+  // ============================================
+  // Private Methods
+  // ============================================
+
+  private static async findOwnList(userId: string, wishlistId: string): Promise<WishlistRow> {
+    const list = await prisma.wishlist.findFirst({ where: { id: wishlistId, userId } });
+    if (!list) {
+      throw new Error('Wishlist not found');
+    }
+    return list;
+  }
+
+  private static async findOwnItem(userId: string, itemId: string) {
+    const item = await prisma.wishlistItem.findFirst({ where: { id: itemId, wishlist: { userId } } });
+    if (!item) {
+      throw new Error('Wishlist item not found');
+    }
+    return item;
+  }
+
+  private static assertNamedList(list: WishlistRow, action: string): void {
+    if (list.type === WishlistType.SAVED_FOR_LATER) {
+      throw new Error(`The saved-for-later list cannot be ${action}`);
+    }
+  }
+
+  private static async assertRoomFor(wishlistId: string): Promise<void> {
+    const count = await prisma.wishlistItem.count({ where: { wishlistId } });
+    if (count >= WISHLIST_MAX_ITEMS) {
+      throw new Error(`Wishlist is full: at most ${WISHLIST_MAX_ITEMS} items`);
+    }
+  }
+
+  /**
+   * The customer's first list of the type, created when missing. A parallel
+   * create of the saved-for-later list loses on its unique index and reads
+   * the winner's list.
+   */
+  private static async getOrCreateList(userId: string, type: WishlistTypeValue): Promise<WishlistRow> {
+    const where = { userId, type };
+    const existing = await prisma.wishlist.findFirst({ where, orderBy: { createdAt: 'asc' } });
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await prisma.wishlist.create({
+        data: { ...where, name: type === WishlistType.SAVED_FOR_LATER ? SAVED_FOR_LATER_NAME : DEFAULT_WISHLIST_NAME },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await prisma.wishlist.findFirst({ where, orderBy: { createdAt: 'asc' } });
+        if (winner) return winner;
+      }
+      throw error;
+    }
+  }
+
+  private static async resolveVariant(
+    productId: string,
+    variantId?: string
+  ): Promise<{ id: string; salePrice: Prisma.Decimal }> {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, isActive: true },
+      select: {
+        variants: {
+          where: { isActive: true, ...(variantId ? { id: variantId } : {}) },
+          orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+          take: 1,
+          select: { id: true, salePrice: true },
+        },
+      },
+    });
+    if (!product) {
+      throw new Error('Product is not available');
+    }
+    const variant = product.variants[0];
+    if (!variant) {
+      throw new Error('Product or variant not found');
+    }
+    return variant;
+  }
+
+  private static async withItems(list: WishlistRow): Promise<WishlistResponse> {
+    const items = await prisma.wishlistItem.findMany({
+      where: { wishlistId: list.id },
+      include: itemInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return { ...formatSummary(list, items.length), items: await this.formatItems(items) };
+  }
+
+  private static async formatItems(items: WishlistItemWithDetails[]): Promise<WishlistItemResponse[]> {
+    const stock = await InventoryService.getAvailableStockByVariantIds(items.map((item) => item.variantId));
+    return items.map((item) => toItemResponse(item, stock));
+  }
+
+  /**
+   * Feed the wishlist signal to the personalized recommendations; failures
+   * must not fail the wishlist write
+   */
+  private static async trackInteraction(userId: string, productId: string): Promise<void> {
+    try {
+      await RecommendationService.trackInteraction({
+        userId,
+        productId,
+        sessionId: `user:${userId}`,
+        recommendationType: RecommendationTypeEnum.PERSONALIZED,
+        action: InteractionActionEnum.ADD_TO_WISHLIST,
+        sourceContext: 'wishlist',
+      });
+    } catch (error) {
+      LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+        context: 'wishlist interaction tracking',
+        productId,
+      });
+    }
+  }
+}
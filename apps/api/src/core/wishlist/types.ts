@@ -0,0 +1,90 @@
+/**
+ * Wishlist Types
+ *
+ * Customers keep any number of named wishlists plus one "saved for later"
+ * list that holds lines moved out of the cart. A wishlist can be shared by
+ * link; items can alert the customer when the variant is back in stock or
+ * its price drops.
+ */
+
+export const WishlistType = {
+  WISHLIST: 'WISHLIST',
+  SAVED_FOR_LATER: 'SAVED_FOR_LATER',
+} as const;
+
+export type WishlistTypeValue = typeof WishlistType[keyof typeof WishlistType];
+
+export const WISHLIST_NAME_MAX_LENGTH = 100;
+
+/** Name of the list created on first "add to wishlist" without a list */
+export const DEFAULT_WISHLIST_NAME = 'Wishlist';
+export const SAVED_FOR_LATER_NAME = 'Saved for later';
+
+/** Named wishlists per customer; the saved-for-later list does not count */
+export const WISHLIST_MAX_LISTS = 20;
+export const WISHLIST_MAX_ITEMS = 200;
+
+export interface AddWishlistItemInput {
+  productId: string;
+  /** Defaults to the first active variant */
+  variantId?: string;
+  /** Defaults to the customer's first wishlist, created when missing */
+  wishlistId?: string;
+  notifyBackInStock?: boolean;
+  notifyPriceDrop?: boolean;
+}
+
+export interface UpdateWishlistItemInput {
+  notifyBackInStock?: boolean;
+  notifyPriceDrop?: boolean;
+  /** Move the item to another of the customer's lists */
+  wishlistId?: string;
+}
+
+/** Item as shown on a shared list; no alert settings */
+export interface SharedWishlistItemResponse {
+  id: string;
+  productId: string;
+  productName: string;
+  productSlug: string | null;
+  productImage: string | null;
+  variantId: string;
+  variantName: string | null;
+  quantity: number;
+  /** Current sale price */
+  price: number;
+  /** Sale price when the item was added */
+  addedPrice: number;
+  inStock: boolean;
+  /** False when the product or variant was deactivated */
+  isAvailable: boolean;
+  createdAt: string;
+}
+
+export interface WishlistItemResponse extends SharedWishlistItemResponse {
+  wishlistId: string;
+  notifyBackInStock: boolean;
+  notifyPriceDrop: boolean;
+}
+
+export interface WishlistSummaryResponse {
+  id: string;
+  name: string;
+  type: WishlistTypeValue;
+  itemCount: number;
+  /** Set while the list is shared */
+  shareToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WishlistResponse extends WishlistSummaryResponse {
+  items: WishlistItemResponse[];
+}
+
+/** Shared list as shown to anyone with the link */
+export interface SharedWishlistResponse {
+  name: string;
+  ownerName: string;
+  items: SharedWishlistItemResponse[];
+}
@@ -11,13 +11,34 @@ import type { JobHandler, BaseJobData } from './types';
 import { QUEUE_NAMES } from './types';
 import { workerManager } from './worker-manager';
 import { renderDigitalDeliveryEmail, extractDigitalItems } from '@/core/notification/digital-delivery-email';
-import { ResendProvider } from '@/plugins/email-providers/resend-provider';
+import { deliverEmail } from '@/core/email/transport';
+import { EmailNotificationService } from '@/core/email/service';
 import { systemSettingsService } from '@/core/admin/system-settings/service';
+import type { WebhookAttemptJobData } from '@/core/webhooks/delivery-worker';
+import type { ReservationExpiryJobData } from '@/jobs/reservation-expiry';
 
 // ============================================================
 // Webhook Delivery Handler
 // ============================================================
 
+/**
+ * Fan an outbox event out to its webhook subscriptions.
+ */
+async function dispatchToWebhookSubscribers(event: {
+  id: string;
+  type: string;
+  payload: unknown;
+  aggregateId: string;
+}): Promise<void> {
+  const { dispatchWebhookEvent } = await import('@/core/webhooks/event-dispatcher');
+  await dispatchWebhookEvent({
+    id: event.id,
+    type: event.type,
+    payload: (event.payload as any)?.data ?? event.payload,
+    aggregateId: event.aggregateId,
+  });
+}
+
 /**
  * Dispatches events to webhook subscribers.
  * Replaces the inline webhook dispatch in the old OutboxWorkerService.
@@ -29,10 +50,30 @@ const webhookDeliveryHandler: JobHandler = {
     'order.created',
     'order.updated',
     'order.cancelled',
+    'order.shipped',
+    'order.delivered',
+    'order.refunded',
+    'refund.completed',
+    'return.requested',
+    'return.approved',
+    'return.rejected',
+    'return.received',
+    'review.submitted',
+    'review.approved',
+    'review.rejected',
+    'wishlist.back_in_stock',
+    'wishlist.price_drop',
     'payment.succeeded',
     'payment.failed',
     'product.created',
     'product.updated',
+    'product.deleted',
+    'product.variant_created',
+    'product.variant_updated',
+    'product.variant_deleted',
+    'customer.registered',
+    'discount.redeemed',
+    'theme.activated',
   ],
   async handle(data: BaseJobData): Promise<void> {
     const { outboxEventId, eventType } = data;
@@ -51,13 +92,10 @@ const webhookDeliveryHandler: JobHandler = {
     }
 
     // Dispatch to webhook subscribers
-    const { dispatchWebhookEvent } = await import('@/core/webhooks/event-dispatcher');
-    await dispatchWebhookEvent({
-      id: event.id,
-      type: event.type,
-      payload: (event.payload as any)?.data ?? event.payload,
-      aggregateId: event.aggregateId,
-    });
+    await dispatchToWebhookSubscribers(event);
+
+    // Order, refund, registration and wishlist alert events also email the customer
+    await EmailNotificationService.handleEvent(event);
 
     winstonLogger.debug('Webhook event dispatched', {
       component: 'webhookDeliveryHandler',
@@ -67,6 +105,19 @@ const webhookDeliveryHandler: JobHandler = {
   },
 };
 
+/**
+ * Runs a single queued webhook delivery attempt.  Failed deliveries queue
+ * their own delayed retry, so only unexpected errors reach BullMQ's retries.
+ */
+const webhookAttemptHandler: JobHandler = {
+  queue: QUEUE_NAMES.WEBHOOK_DELIVERY,
+  eventTypes: ['webhook.attempt'],
+  async handle(data: BaseJobData): Promise<void> {
+    const { processWebhookAttempt } = await import('@/core/webhooks/delivery-worker');
+    await processWebhookAttempt(data as WebhookAttemptJobData);
+  },
+};
+
 // ============================================================
 // Email Handler
 // ============================================================
@@ -81,6 +132,7 @@ const emailHandler: JobHandler = {
     'user.registered',
     'order.confirmation',
     'order.paid',
+    'gift_card.issued',
     'password.reset',
   ],
   async handle(data: BaseJobData): Promise<void> {
@@ -105,8 +157,9 @@ const emailHandler: JobHandler = {
       aggregateId: event.aggregateId,
     });
 
-    // Task 7.1.2: Digital delivery email for paid orders
-    if (eventType === 'order.paid' || eventType === 'order.confirmation') {
+    // Task 7.1.2: Digital delivery email for paid orders; gift card codes go
+    // out the same way once the cards are issued
+    if (eventType === 'order.paid' || eventType === 'order.confirmation' || eventType === 'gift_card.issued') {
       await sendDigitalDeliveryEmail(event.aggregateId, event.payload);
     }
   },
@@ -149,6 +202,11 @@ const fulfillmentHandler: JobHandler = {
       aggregateId: event.aggregateId,
     });
 
+    if (eventType === 'order.paid') {
+      await dispatchToWebhookSubscribers(event);
+      await EmailNotificationService.handleEvent(event);
+    }
+
     // Task 7.1.2: Digital fulfillment is handled by ExternalOrderService
     // (called directly from payment reconciliation). This handler serves as
     // a monitoring/logging checkpoint for the unified job layer.
@@ -169,6 +227,7 @@ const stockAlertHandler: JobHandler = {
     'stock.check',
     'stock.alert',
     'inventory.adjusted',
+    'inventory.low_stock',
     'inventory.transferred',
   ],
   async handle(data: BaseJobData): Promise<void> {
@@ -180,33 +239,60 @@ const stockAlertHandler: JobHandler = {
       outboxEventId,
     });
 
+    // Inventory domain events are also published to webhook subscribers
+    if (eventType === 'inventory.adjusted' || eventType === 'inventory.low_stock') {
+      const event = await prisma.outboxEvent.findUnique({
+        where: { id: outboxEventId },
+      });
+      if (event) {
+        await dispatchToWebhookSubscribers(event);
+      }
+    }
+
     // The stock alert check logic is in StockAlertService.checkAlerts().
     // This handler is triggered by inventory change events.
     // TODO: Wire to StockAlertService.checkAlerts() for event-driven alerts
   },
 };
 
+/**
+ * Runs one scheduled reservation expiry pass (releases stock held by unpaid
+ * orders). Scheduled by ReservationExpiryJob.start().
+ */
+const reservationExpiryHandler: JobHandler = {
+  queue: QUEUE_NAMES.STOCK_ALERT,
+  eventTypes: ['inventory.reservations_expire'],
+  async handle(data: BaseJobData): Promise<void> {
+    const { ReservationExpiryJob } = await import('@/jobs/reservation-expiry');
+    await ReservationExpiryJob.expireNow((data as ReservationExpiryJobData).limit);
+  },
+};
+
 // ============================================================
 // Register all handlers
 // ============================================================
 
 export function registerAllHandlers(): void {
   workerManager.register(webhookDeliveryHandler);
+  workerManager.register(webhookAttemptHandler);
   workerManager.register(emailHandler);
   workerManager.register(fulfillmentHandler);
   workerManager.register(stockAlertHandler);
+  workerManager.register(reservationExpiryHandler);
 
   winstonLogger.info('All job handlers registered', {
     component: 'JobHandlers',
-    count: 4,
+    count: 6,
   });
 }
 
 export {
   webhookDeliveryHandler,
+  webhookAttemptHandler,
   emailHandler,
   fulfillmentHandler,
   stockAlertHandler,
+  reservationExpiryHandler,
 };
 
 // ============================================================
@@ -228,8 +314,10 @@ async function sendDigitalDeliveryEmail(orderId: string, eventPayload: unknown):
       },
     });
 
-    if (!order || !order.user?.email) {
-      winstonLogger.warn('Cannot send digital delivery email: order or user email not found', {
+    // Guest orders only carry the checkout email
+    const recipientEmail = order?.user?.email || order?.customerEmail;
+    if (!order || !recipientEmail) {
+      winstonLogger.warn('Cannot send digital delivery email: order or customer email not found', {
         component: 'emailHandler',
         orderId,
       });
@@ -254,7 +342,7 @@ async function sendDigitalDeliveryEmail(orderId: string, eventPayload: unknown):
 
     const { html, text, subject } = renderDigitalDeliveryEmail({
       orderNumber: order.id,
-      customerEmail: order.user.email,
+      customerEmail: recipientEmail,
       storeName,
       items: emailItems,
     });
@@ -263,12 +351,8 @@ async function sendDigitalDeliveryEmail(orderId: string, eventPayload: unknown):
       return; // No digital content to send
     }
 
-    // Send via Resend provider (no-op if not configured)
-    const provider = new ResendProvider();
-    const fromEmail = process.env.EMAIL_FROM || 'noreply@jiffoo.com';
-    const result = await provider.send({
-      to: order.user.email,
-      from: fromEmail,
+    const result = await deliverEmail({
+      to: recipientEmail,
       fromName: storeName,
       subject,
       html,
@@ -280,7 +364,7 @@ async function sendDigitalDeliveryEmail(orderId: string, eventPayload: unknown):
       winstonLogger.info('Digital delivery email sent', {
         component: 'emailHandler',
         orderId,
-        email: order.user.email,
+        email: recipientEmail,
         messageId: result.messageId,
       });
     } else {
@@ -38,15 +38,25 @@ const EVENT_TYPE_TO_QUEUE: Record<string, QueueName> = {
   'order.created': QUEUE_NAMES.WEBHOOK_DELIVERY,
   'order.updated': QUEUE_NAMES.WEBHOOK_DELIVERY,
   'order.cancelled': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'order.shipped': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'order.delivered': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'order.refunded': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'refund.completed': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'return.': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'review.': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'wishlist.': QUEUE_NAMES.WEBHOOK_DELIVERY,
   'payment.succeeded': QUEUE_NAMES.WEBHOOK_DELIVERY,
   'payment.failed': QUEUE_NAMES.WEBHOOK_DELIVERY,
-  'product.created': QUEUE_NAMES.WEBHOOK_DELIVERY,
-  'product.updated': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'product.': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'customer.registered': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'discount.redeemed': QUEUE_NAMES.WEBHOOK_DELIVERY,
+  'theme.activated': QUEUE_NAMES.WEBHOOK_DELIVERY,
 
   // Email events
   'email.': QUEUE_NAMES.EMAIL,
   'user.registered': QUEUE_NAMES.EMAIL,
   'order.confirmation': QUEUE_NAMES.EMAIL,
+  'gift_card.issued': QUEUE_NAMES.EMAIL,
   'password.reset': QUEUE_NAMES.EMAIL,
 
   // Fulfillment events
@@ -172,6 +182,95 @@ class QueueManager {
     }
   }
 
+  /**
+   * Enqueue a job directly onto a named queue, bypassing event-type routing.
+   * Used for follow-up jobs (e.g. webhook delivery retries) that carry their
+   * own job ID and delay.
+   *
+   * @returns true if enqueued to BullMQ, false if Redis unavailable
+   */
+  async enqueueTo(
+    queueName: QueueName,
+    data: BaseJobData,
+    options: { jobId?: string; delay?: number } = {}
+  ): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      return false;
+    }
+
+    try {
+      await queue.add(data.eventType, data, {
+        jobId: options.jobId ?? data.outboxEventId,
+        delay: options.delay,
+      });
+      return true;
+    } catch (error) {
+      winstonLogger.error('Failed to enqueue job', {
+        component: 'QueueManager',
+        queueName,
+        eventType: data.eventType,
+        jobId: options.jobId ?? data.outboxEventId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Create or update a repeatable job on a named queue.
+   * The scheduler ID is shared by every process, so each instance can call
+   * this at startup and BullMQ still runs a single job per interval.
+   * Each run is a single attempt; the next run is the retry.
+   *
+   * @returns true if scheduled in BullMQ, false if Redis unavailable
+   */
+  async schedule(
+    queueName: QueueName,
+    schedulerId: string,
+    everyMs: number,
+    data: BaseJobData
+  ): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      return false;
+    }
+
+    try {
+      await queue.upsertJobScheduler(
+        schedulerId,
+        { every: everyMs },
+        { name: data.eventType, data, opts: { attempts: 1 } }
+      );
+      return true;
+    } catch (error) {
+      winstonLogger.error('Failed to schedule repeatable job', {
+        component: 'QueueManager',
+        queueName,
+        schedulerId,
+        eventType: data.eventType,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Shared Redis connection, for short-lived coordination keys.
+   * Returns null when Redis is unavailable.
+   */
+  getConnection(): IORedis | null {
+    return this.isAvailable() ? this.connection : null;
+  }
+
   /**
    * Resolve which queue an event type should be routed to.
    */
@@ -1,6 +1,9 @@
 import { prisma } from '@/config/database';
-import { CoreEvent, EventTypes } from '@jiffoo/shared';
+import { CORE_EVENT_VERSION, CoreEvent, CoreEventPayloads, CoreEventType } from '@jiffoo/shared';
 import { v4 as uuidv4 } from 'uuid';
+import { LoggerService } from '@/core/logger/unified-logger';
+
+type OutboxEventMetadata = { traceId?: string; actorId?: string };
 
 /**
  * Outbox Service
@@ -14,30 +17,30 @@ export class OutboxService {
      * @param tx Prisma transaction client
      * @param type Event type (from EventTypes)
      * @param aggregateId ID of the related entity
-     * @param data Event payload
+     * @param data Event payload, as documented in @jiffoo/shared core-events
      * @param metadata Optional metadata
      */
-    static async emit(
+    static async emit<T extends CoreEventType>(
         tx: any,
-        type: string,
+        type: T,
         aggregateId: string,
-        data: any,
-        metadata: { traceId?: string; actorId?: string } = {}
+        data: CoreEventPayloads[T],
+        metadata: OutboxEventMetadata = {}
     ) {
         const eventId = uuidv4();
         const occurredAt = Date.now();
 
-        const event: CoreEvent = {
+        const event = {
             id: eventId,
-            type: type as any,
+            type,
             aggregateId,
             occurredAt,
-            version: 'v1',
+            version: CORE_EVENT_VERSION,
             data,
             metadata: {
                 ...metadata,
             }
-        };
+        } as CoreEvent;
 
         return tx.outboxEvent.create({
             data: {
@@ -45,7 +48,7 @@ export class OutboxService {
                 type,
                 aggregateId,
                 payload: event as any,
-                version: 'v1',
+                version: CORE_EVENT_VERSION,
                 occurredAt: new Date(occurredAt),
                 traceId: metadata.traceId,
                 actorId: metadata.actorId,
@@ -54,6 +57,25 @@ export class OutboxService {
         });
     }
 
+    /**
+     * Emit an event for a change that was written outside a transaction
+     *
+     * The change is already committed, so a failed write is logged rather than
+     * thrown back to the caller.
+     */
+    static async emitBestEffort<T extends CoreEventType>(
+        type: T,
+        aggregateId: string,
+        data: CoreEventPayloads[T],
+        metadata: OutboxEventMetadata = {}
+    ) {
+        try {
+            await this.emit(prisma, type, aggregateId, data, metadata);
+        } catch (err) {
+            LoggerService.logError(err instanceof Error ? err : new Error(String(err)), { context: `${type} event emission` });
+        }
+    }
+
     /**
      * Poll unpublished events and return them for publishing
      */
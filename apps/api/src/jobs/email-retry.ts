@@ -0,0 +1,76 @@
+import { logger } from '@/core/logger/unified-logger';
+import { EmailNotificationService } from '@/core/email/service';
+
+type EmailRetryJobOptions = {
+  intervalMs?: number;
+  limit?: number;
+};
+
+/**
+ * Email Retry Job
+ *
+ * Periodically resends failed customer emails whose retry backoff has
+ * elapsed.
+ */
+export class EmailRetryJob {
+  private static isRunning = false;
+  private static updateInterval: NodeJS.Timeout | null = null;
+  private static options: EmailRetryJobOptions = {};
+
+  /**
+   * Start the retry cron job
+   */
+  static start(options: EmailRetryJobOptions = {}) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.options = options;
+
+    const intervalMs = options.intervalMs ?? 60_000;
+    logger.info(`Email retry job started (every ${Math.round(intervalMs / 1000)}s)`);
+
+    this.retryNow();
+
+    this.updateInterval = setInterval(async () => {
+      await this.retryNow();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the retry job
+   */
+  static stop() {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+    this.isRunning = false;
+    logger.info('Email retry job stopped');
+  }
+
+  /**
+   * Run one retry pass
+   */
+  static async retryNow(): Promise<{ sent: number }> {
+    let sent = 0;
+    try {
+      sent = await EmailNotificationService.retryDue(this.options.limit ?? 20);
+      if (sent > 0) {
+        logger.info('Email retry completed', { sent });
+      }
+    } catch (error) {
+      logger.error('Email retry failed', { error });
+    }
+    return { sent };
+  }
+
+  /**
+   * Job status
+   */
+  static getStatus() {
+    return {
+      isRunning: this.isRunning,
+      hasScheduledUpdates: this.updateInterval !== null,
+      options: this.options,
+    };
+  }
+}
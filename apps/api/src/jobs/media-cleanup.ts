@@ -0,0 +1,82 @@
+import { logger } from '@/core/logger/unified-logger';
+import { ProductMediaService } from '@/core/media/service';
+import type { MediaCleanupResult } from '@/core/media/types';
+
+type MediaCleanupJobOptions = {
+  intervalMs?: number;
+  olderThanHours?: number;
+  limit?: number;
+};
+
+/**
+ * Media Cleanup Job
+ *
+ * Periodically deletes product media that has been detached from its product
+ * (or uploaded and never attached) past the grace period, together with its
+ * files.
+ */
+export class MediaCleanupJob {
+  private static isRunning = false;
+  private static updateInterval: NodeJS.Timeout | null = null;
+  private static options: MediaCleanupJobOptions = {};
+
+  /**
+   * Start the cleanup cron job
+   */
+  static start(options: MediaCleanupJobOptions = {}) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.options = options;
+
+    const intervalMs = options.intervalMs ?? 3_600_000;
+    logger.info(`Media cleanup job started (every ${Math.round(intervalMs / 1000)}s)`);
+
+    this.cleanupNow();
+
+    this.updateInterval = setInterval(async () => {
+      await this.cleanupNow();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the cleanup job
+   */
+  static stop() {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+    this.isRunning = false;
+    logger.info('Media cleanup job stopped');
+  }
+
+  /**
+   * Run one cleanup pass
+   */
+  static async cleanupNow(): Promise<MediaCleanupResult> {
+    let result: MediaCleanupResult = { deleted: 0, filesRemoved: 0 };
+    try {
+      result = await ProductMediaService.cleanupOrphans({
+        olderThanHours: this.options.olderThanHours,
+        limit: this.options.limit,
+      });
+      if (result.deleted > 0) {
+        logger.info('Media cleanup completed', { ...result });
+      }
+    } catch (error) {
+      logger.error('Media cleanup failed', { error });
+    }
+    return result;
+  }
+
+  /**
+   * Job status
+   */
+  static getStatus() {
+    return {
+      isRunning: this.isRunning,
+      hasScheduledUpdates: this.updateInterval !== null,
+      options: this.options,
+    };
+  }
+}
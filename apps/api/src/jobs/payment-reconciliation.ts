@@ -1,5 +1,6 @@
 import { logger } from '@/core/logger/unified-logger';
 import { reconcilePendingPayments, type PaymentReconciliationOptions } from '@/core/payment/reconciliation';
+import { reconcilePendingRefunds } from '@/core/payment/refunds';
 
 type PaymentReconciliationJobOptions = PaymentReconciliationOptions & {
   intervalMs?: number;
@@ -8,8 +9,8 @@ type PaymentReconciliationJobOptions = PaymentReconciliationOptions & {
 /**
  * Payment Reconciliation Job
  *
- * Periodically re-checks pending payment sessions against payment plugins
- * to reconcile provider status with local records.
+ * Periodically re-checks pending payment sessions and refunds against
+ * payment plugins to reconcile provider status with local records.
  */
 export class PaymentReconciliationJob {
   private static isRunning = false;
@@ -58,11 +59,13 @@ export class PaymentReconciliationJob {
         maxAgeMinutes,
         minAgeMinutes,
       });
+      const refunds = await reconcilePendingRefunds({ limit, minAgeMinutes });
       const duration = Date.now() - startTime;
       logger.info('Payment reconciliation completed', {
         scanned,
         updated,
         failed,
+        refunds,
         durationMs: duration,
       });
     } catch (error) {
@@ -0,0 +1,134 @@
+import { logger } from '@/core/logger/unified-logger';
+import { InventoryService } from '@/core/inventory/service';
+import { OrderService } from '@/core/order/service';
+import { queueManager } from '@/infra/jobs/queue-manager';
+import { workerManager } from '@/infra/jobs/worker-manager';
+import { QUEUE_NAMES, type BaseJobData } from '@/infra/jobs/types';
+
+type ReservationExpiryJobOptions = {
+  intervalMs?: number;
+  limit?: number;
+};
+
+export const RESERVATION_EXPIRY_JOB = 'inventory.reservations_expire';
+
+const RESERVATION_EXPIRY_SCHEDULER_ID = 'reservation-expiry';
+
+export interface ReservationExpiryJobData extends BaseJobData {
+  limit: number;
+}
+
+/**
+ * Reservation Expiry Job
+ *
+ * Releases stock held by unpaid orders whose reservations have passed their
+ * expiry, and cancels those orders. When this process runs the BullMQ
+ * workers it is a repeatable job on the stock-alert queue, so one worker
+ * handles each pass however many API instances are up. Otherwise (no Redis,
+ * or WORKER_MODE standalone/off, where nothing guarantees a consumer) it
+ * runs on an in-process timer like the other jobs.
+ */
+export class ReservationExpiryJob {
+  private static isRunning = false;
+  private static updateInterval: NodeJS.Timeout | null = null;
+  private static options: ReservationExpiryJobOptions = {};
+
+  /**
+   * Schedule the expiry job
+   */
+  static async start(options: ReservationExpiryJobOptions = {}) {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.options = options;
+
+    const intervalMs = options.intervalMs ?? 60_000;
+    const job: ReservationExpiryJobData = {
+      outboxEventId: RESERVATION_EXPIRY_SCHEDULER_ID,
+      eventType: RESERVATION_EXPIRY_JOB,
+      limit: options.limit ?? 100,
+    };
+
+    const scheduled = workerManager.isRunning() && await queueManager.schedule(
+      QUEUE_NAMES.STOCK_ALERT,
+      RESERVATION_EXPIRY_SCHEDULER_ID,
+      intervalMs,
+      job
+    );
+    if (scheduled) {
+      logger.info(`Reservation expiry job scheduled (every ${Math.round(intervalMs / 1000)}s)`);
+      return;
+    }
+
+    logger.warn(`No job worker in this process, running reservation expiry in-process (every ${Math.round(intervalMs / 1000)}s)`);
+
+    this.expireNow(job.limit);
+
+    this.updateInterval = setInterval(async () => {
+      await this.expireNow(job.limit);
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the in-process fallback timer
+   *
+   * The BullMQ schedule is shared by all instances and stays in place.
+   */
+  static stop() {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+    this.isRunning = false;
+    logger.info('Reservation expiry job stopped');
+  }
+
+  /**
+   * Run one expiry pass
+   */
+  static async expireNow(limit = this.options.limit ?? 100): Promise<{ scanned: number; cancelled: number; failed: number }> {
+    const startTime = Date.now();
+    let scanned = 0;
+    let cancelled = 0;
+    let failed = 0;
+
+    try {
+      const orderIds = await InventoryService.findOrdersWithExpiredReservations(limit);
+      scanned = orderIds.length;
+
+      for (const orderId of orderIds) {
+        try {
+          if (await OrderService.expireUnpaidOrder(orderId)) {
+            cancelled++;
+          }
+        } catch (error) {
+          failed++;
+          logger.error('Failed to expire order reservations', { orderId, error });
+        }
+      }
+
+      if (scanned > 0) {
+        logger.info('Reservation expiry completed', {
+          scanned,
+          cancelled,
+          failed,
+          durationMs: Date.now() - startTime,
+        });
+      }
+    } catch (error) {
+      logger.error('Reservation expiry failed', { error });
+    }
+
+    return { scanned, cancelled, failed };
+  }
+
+  /**
+   * Job status
+   */
+  static getStatus() {
+    return {
+      isRunning: this.isRunning,
+      hasScheduledUpdates: this.updateInterval !== null,
+      options: this.options,
+    };
+  }
+}
@@ -55,7 +55,8 @@ export class ExchangeRateUpdateJob {
             logger.info('Starting exchange rate update...');
 
             const startTime = Date.now();
-            const updatedCount = await this.currencyService.updateExchangeRates('USD');
+            const baseCurrency = await this.currencyService.getBaseCurrency();
+            const updatedCount = await this.currencyService.updateExchangeRates(baseCurrency);
             const duration = Date.now() - startTime;
 
             logger.info(`Successfully updated ${updatedCount} exchange rates (duration: ${duration}ms)`);
@@ -63,7 +64,7 @@ export class ExchangeRateUpdateJob {
             // Log performance metric
             (logger as any).logPerformance?.('exchange_rate_update', duration, {
                 updatedCount,
-                baseCurrency: 'USD'
+                baseCurrency
             });
         } catch (error) {
             logger.error('Failed to update exchange rates:', error);
@@ -96,7 +97,8 @@ export class ExchangeRateUpdateJob {
     static async triggerUpdate(): Promise<{ success: boolean; updatedCount?: number; error?: string }> {
         try {
             logger.info('Manual exchange rate update triggered');
-            const updatedCount = await this.currencyService.updateExchangeRates('USD');
+            const baseCurrency = await this.currencyService.getBaseCurrency();
+            const updatedCount = await this.currencyService.updateExchangeRates(baseCurrency);
             return { success: true, updatedCount };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
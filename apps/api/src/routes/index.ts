@@ -11,8 +11,8 @@ import { registerV1Routes } from './v1';
 import { authRoutes } from '@/core/auth/routes';
 import { accountRoutes } from '@/core/account/routes';
 import { productRoutes } from '@/core/product/routes';
-import { cartRoutes } from '@/core/cart/routes';
-import { orderRoutes } from '@/core/order/routes';
+import { cartRoutes, guestCartRoutes } from '@/core/cart/routes';
+import { guestOrderRoutes, orderRoutes } from '@/core/order/routes';
 import { paymentRoutes as legacyPaymentRoutes } from '@/core/payment/routes';
 import { paymentsRoutes as stripePaymentRoutes } from './payments'; // NEW explicit stripe intent routes
 import { notificationRoutes } from '@/core/notification/routes';
@@ -42,6 +42,17 @@ import { seoRoutes, sitemapRoute } from '@/core/seo/routes';
 import { adminWarehouseRoutes } from '@/core/warehouse/routes';
 import { adminInventoryRoutes } from '@/core/inventory/routes';
 import { adminStockAlertRoutes } from '@/core/stock-alert/routes';
+import { adminTaxRoutes } from '@/core/tax/routes';
+import { adminShippingRoutes } from '@/core/shipping/routes';
+import { adminEmailRoutes } from '@/core/email/routes';
+import { adminReturnRoutes } from '@/core/returns/routes';
+import { adminCategoryRoutes } from '@/core/category/routes';
+import { adminProductMediaRoutes } from '@/core/media/routes';
+import { adminReviewRoutes, productReviewRoutes } from '@/core/reviews/routes';
+import { adminCustomerGroupRoutes } from '@/core/customer-groups/routes';
+import { wishlistRoutes } from '@/core/wishlist/routes';
+import { adminGiftCardRoutes, giftCardRoutes } from '@/core/gift-cards/routes';
+import { adminContentRoutes, contentRoutes } from '@/core/content/routes';
 
 import { forecastingRoutes } from '@/core/inventory/forecasting/routes';
 
@@ -82,12 +93,22 @@ export async function registerRoutes(fastify: FastifyInstance) {
   await fastify.register(adminUserRoutes, { prefix: '/api/admin/users' });
   await fastify.register(adminStaffRoutes, { prefix: '/api/admin/staff' });
   await fastify.register(adminProductRoutes, { prefix: '/api/admin/products' });
+  await fastify.register(adminProductMediaRoutes, { prefix: '/api/admin/products' });
   await fastify.register(adminOrderRoutes, { prefix: '/api/admin/orders' });
   await fastify.register(adminThemeRoutes, { prefix: '/api/admin/themes' });
   await fastify.register(adminWarehouseRoutes, { prefix: '/api/admin/warehouses' });
   await fastify.register(adminInventoryRoutes, { prefix: '/api/admin/inventory' });
   await fastify.register(forecastingRoutes, { prefix: '/api/admin/inventory' });
   await fastify.register(adminStockAlertRoutes, { prefix: '/api/admin/stock-alerts' });
+  await fastify.register(adminTaxRoutes, { prefix: '/api/admin/tax' });
+  await fastify.register(adminShippingRoutes, { prefix: '/api/admin/shipping' });
+  await fastify.register(adminEmailRoutes, { prefix: '/api/admin/email' });
+  await fastify.register(adminReturnRoutes, { prefix: '/api/admin/returns' });
+  await fastify.register(adminCategoryRoutes, { prefix: '/api/admin/categories' });
+  await fastify.register(adminReviewRoutes, { prefix: '/api/admin/reviews' });
+  await fastify.register(adminCustomerGroupRoutes, { prefix: '/api/admin/customer-groups' });
+  await fastify.register(adminGiftCardRoutes, { prefix: '/api/admin/gift-cards' });
+  await fastify.register(adminContentRoutes, { prefix: '/api/admin/content' });
   await fastify.register(systemSettingsRoutes, { prefix: '/api/admin' });
   await fastify.register(platformConnectionRoutes, { prefix: '/api/admin/platform/connection' });
   await fastify.register(managedPackageRoutes, { prefix: '/api/admin/commercial-package' });
@@ -110,7 +131,13 @@ export async function registerRoutes(fastify: FastifyInstance) {
 
   // Public routes
   await fastify.register(productRoutes, { prefix: '/api/products' });
+  await fastify.register(productReviewRoutes, { prefix: '/api/products' });
+  await fastify.register(guestCartRoutes, { prefix: '/api/cart/guest' });
   await fastify.register(cartRoutes, { prefix: '/api/cart' });
+  await fastify.register(wishlistRoutes, { prefix: '/api/wishlists' });
+  await fastify.register(giftCardRoutes, { prefix: '/api/gift-cards' });
+  await fastify.register(contentRoutes, { prefix: '/api/content' });
+  await fastify.register(guestOrderRoutes, { prefix: '/api/orders/guest' });
   await fastify.register(orderRoutes, { prefix: '/api/orders' });
   await fastify.register(legacyPaymentRoutes, { prefix: '/api/payments' });
   // Keep the legacy Stripe direct-intent path alive for the current shop checkout.
@@ -6,6 +6,8 @@ import { authMiddleware } from '@/core/auth/middleware';
 import { LoggerService } from '@/core/logger/unified-logger';
 import { OrderStatus, PaymentStatus } from '@/core/order/types';
 import { recordOrderStatusHistory } from '@/core/order/status-history';
+import { InventoryService } from '@/core/inventory/service';
+import { TenderService } from '@/core/gift-cards/tenders';
 import { OrderPaymentStatus as PrismaOrderPaymentStatus, OrderStatus as PrismaOrderStatus, Prisma } from '@prisma/client';
 
 // Schema for create-intent request
@@ -103,8 +105,14 @@ export const paymentsRoutes: FastifyPluginAsync = async (fastify) => {
                 });
             }
 
+            // Gift cards and store credit applied to the order are not charged again
+            const amountDue = await TenderService.getAmountDue(order.id, order.totalAmount);
+            if (amountDue <= 0) {
+                return reply.status(409).send({ success: false, message: 'Order is covered by gift cards or store credit' });
+            }
+
             const { clientSecret, id: paymentIntentId } = await StripeService.createPaymentIntent({
-                amount: Number(order.totalAmount),
+                amount: amountDue,
                 currency: order.currency.toLowerCase(),
                 orderId: order.id,
                 metadata: {
@@ -115,12 +123,18 @@ export const paymentsRoutes: FastifyPluginAsync = async (fastify) => {
             // Log payment creation attempt
             try {
                 await prisma.$transaction(async (tx) => {
+                    // Tenders applied while the intent was being created change what is due
+                    await TenderService.lockOrder(tx, order.id);
+                    if (await TenderService.getAmountDue(order.id, order.totalAmount, tx) !== amountDue) {
+                        throw new Error('Gift cards or store credit on this order changed, please try again');
+                    }
+
                     const payment = await tx.payment.create({
                         data: {
                             orderId: order.id,
                             paymentMethod: 'stripe',
                             paymentIntentId: paymentIntentId,
-                            amount: Number(order.totalAmount),
+                            amount: amountDue,
                             currency: order.currency,
                             status: 'PENDING',
                             attemptNumber,
@@ -136,7 +150,7 @@ export const paymentsRoutes: FastifyPluginAsync = async (fastify) => {
                             paymentId: payment.id,
                             orderId: order.id,
                             eventType: 'CREATED',
-                            amount: Number(order.totalAmount),
+                            amount: amountDue,
                             currency: order.currency,
                             provider: 'stripe',
                             idempotencyKey,
@@ -299,6 +313,9 @@ export const paymentsRoutes: FastifyPluginAsync = async (fastify) => {
                                 },
                             });
 
+                            await InventoryService.consumeReservations(tx, orderId);
+                            await TenderService.captureForPaidOrder(tx, orderId);
+
                             const updatedOrder = await tx.order.update({
                                 where: { id: orderId },
                                 data: {
@@ -12,6 +12,7 @@ import { authRoutes } from '@/core/auth/routes';
 import { apiTokenRoutes } from '@/core/auth/api-token-routes';
 import { accountRoutes } from '@/core/account/routes';
 import { productRoutes } from '@/core/product/routes';
+import { productReviewRoutes } from '@/core/reviews/routes';
 import { cartRoutes } from '@/core/cart/routes';
 import { orderRoutes } from '@/core/order/routes';
 import { paymentRoutes } from '@/core/payment/routes';
@@ -70,6 +71,7 @@ export async function registerV1Routes(fastify: FastifyInstance) {
 
   // Public routes
   await fastify.register(productRoutes, { prefix: '/products' });
+  await fastify.register(productReviewRoutes, { prefix: '/products' });
   await fastify.register(cartRoutes, { prefix: '/cart' });
   await fastify.register(orderRoutes, { prefix: '/orders' });
   await fastify.register(paymentRoutes, { prefix: '/payments' });
@@ -588,6 +588,55 @@ async function start() {
       }
     }
 
+    // Start reservation expiry job (releases stock held by unpaid orders)
+    if (process.env.ENABLE_RESERVATION_EXPIRY_JOB !== 'false') {
+      try {
+        const { ReservationExpiryJob } = await import('@/jobs/reservation-expiry');
+        const intervalMs = Number(process.env.RESERVATION_EXPIRY_INTERVAL_MS || 60_000) || 60_000;
+        const limit = Number(process.env.RESERVATION_EXPIRY_LIMIT || 100) || 100;
+        await ReservationExpiryJob.start({ intervalMs, limit });
+        LoggerService.logSystem('Reservation expiry job started', { intervalMs, limit });
+      } catch (reservationError) {
+        LoggerService.logError(reservationError as Error, { context: 'Reservation expiry job startup' });
+      }
+    }
+
+    // Start email retry job (resends failed customer emails after backoff)
+    if (process.env.ENABLE_EMAIL_RETRY_JOB !== 'false') {
+      try {
+        const { EmailRetryJob } = await import('@/jobs/email-retry');
+        const intervalMs = Number(process.env.EMAIL_RETRY_INTERVAL_MS || 60_000) || 60_000;
+        EmailRetryJob.start({ intervalMs });
+        LoggerService.logSystem('Email retry job started', { intervalMs });
+      } catch (emailRetryError) {
+        LoggerService.logError(emailRetryError as Error, { context: 'Email retry job startup' });
+      }
+    }
+
+    // Start media cleanup job (deletes detached product images after a grace period)
+    if (process.env.ENABLE_MEDIA_CLEANUP_JOB !== 'false') {
+      try {
+        const { MediaCleanupJob } = await import('@/jobs/media-cleanup');
+        const intervalMs = Number(process.env.MEDIA_CLEANUP_INTERVAL_MS || 3_600_000) || 3_600_000;
+        MediaCleanupJob.start({ intervalMs });
+        LoggerService.logSystem('Media cleanup job started', { intervalMs });
+      } catch (mediaCleanupError) {
+        LoggerService.logError(mediaCleanupError as Error, { context: 'Media cleanup job startup' });
+      }
+    }
+
+    // Start exchange rate updates (Optional; skipped for the offline manual provider)
+    if (process.env.ENABLE_EXCHANGE_RATE_JOB === 'true' && process.env.EXCHANGE_RATE_PROVIDER !== 'manual') {
+      try {
+        const { ExchangeRateUpdateJob } = await import('@/jobs/update-exchange-rates');
+        const intervalMs = Number(process.env.EXCHANGE_RATE_UPDATE_INTERVAL_MS || 21_600_000) || 21_600_000;
+        ExchangeRateUpdateJob.start(intervalMs);
+        LoggerService.logSystem('Exchange rate update job started', { intervalMs });
+      } catch (exchangeRateError) {
+        LoggerService.logError(exchangeRateError as Error, { context: 'Exchange rate update job startup' });
+      }
+    }
+
     // Start backup health checks (Optional)
     if (process.env.ENABLE_BACKUP_HEALTH_JOB === 'true') {
       try {
@@ -646,6 +695,38 @@ const gracefulShutdown = async (signal: string) => {
     } catch (pollingError) {
       LoggerService.logError(pollingError as Error, { context: 'External order polling worker shutdown' });
     }
+
+    // Stop reservation expiry job
+    try {
+      const { ReservationExpiryJob } = await import('@/jobs/reservation-expiry');
+      ReservationExpiryJob.stop();
+    } catch {
+      // Ignore - may not have been started
+    }
+
+    // Stop email retry job
+    try {
+      const { EmailRetryJob } = await import('@/jobs/email-retry');
+      EmailRetryJob.stop();
+    } catch {
+      // Ignore - may not have been started
+    }
+
+    // Stop media cleanup job
+    try {
+      const { MediaCleanupJob } = await import('@/jobs/media-cleanup');
+      MediaCleanupJob.stop();
+    } catch {
+      // Ignore - may not have been started
+    }
+
+    // Stop exchange rate update job
+    try {
+      const { ExchangeRateUpdateJob } = await import('@/jobs/update-exchange-rates');
+      ExchangeRateUpdateJob.stop();
+    } catch {
+      // Ignore - may not have been started
+    }
     await redisCache.disconnect();
     await prisma.$disconnect();
 
@@ -2,13 +2,15 @@
  * Email Verification Service
  *
  * Handles user email verification tokens and notification sending.
- * Uses a best-effort email send strategy to avoid hard failures when
- * mail credentials are not configured.
+ * Emails go through the configured email transport, which only logs them
+ * when no provider is set up, so signup never fails on missing credentials.
  */
 
 import crypto from 'crypto';
 import { prisma } from '@/config/database';
 import { env } from '@/config/env';
+import { deliverEmail } from '@/core/email/transport';
+import { LoggerService } from '@/core/logger/unified-logger';
 
 export class EmailVerificationService {
   /**
@@ -49,32 +51,19 @@ export class EmailVerificationService {
 
       const verificationUrl = `${env.NEXT_PUBLIC_SHOP_URL}/verify-email?token=${token}`;
 
-      // If no email provider is configured, treat as success to avoid blocking signup.
-      if (!env.RESEND_API_KEY || !env.EMAIL_FROM) {
-        if (env.NODE_ENV !== 'test') {
-          console.warn('Email provider not configured; skipping verification email send.');
-        }
-        return { success: true };
-      }
-
-      // Lazy import to avoid hard dependency in test environments.
-      const { Resend } = await import('resend');
-      const resend = new Resend(env.RESEND_API_KEY);
-      const fromName = env.EMAIL_FROM_NAME || 'Jiffoo';
-      const fromAddress = `${fromName} <${env.EMAIL_FROM}>`;
-
-      const result = await resend.emails.send({
-        from: fromAddress,
+      const result = await deliverEmail({
         to: email,
+        fromName: env.EMAIL_FROM_NAME || 'Jiffoo',
         subject: 'Verify your email address',
         html: this.getVerificationEmailHtml(username, verificationUrl),
         text: this.getVerificationEmailText(username, verificationUrl),
+        tags: ['email-verification'],
       });
 
-      if (!result.data) {
+      if (!result.success) {
         return {
           success: false,
-          error: result.error?.message || 'Failed to send verification email',
+          error: result.error || 'Failed to send verification email',
         };
       }
 
@@ -124,6 +113,17 @@ export class EmailVerificationService {
         },
       });
 
+      // The address is proven now: guest orders placed with it join the account
+      try {
+        const { OrderService } = await import('@/core/order/service');
+        await OrderService.claimGuestOrdersByEmail(user.id, user.email);
+      } catch (error) {
+        LoggerService.logError(error instanceof Error ? error : new Error(String(error)), {
+          context: 'guest order claim after email verification',
+          userId: user.id,
+        });
+      }
+
       return { success: true };
     } catch (error: any) {
       return {
@@ -185,30 +185,19 @@ export class EmailVerificationService {
 
       const verificationUrl = `${env.NEXT_PUBLIC_SHOP_URL}/verify-email?token=${token}`;
 
-      if (!env.RESEND_API_KEY || !env.EMAIL_FROM) {
-        if (env.NODE_ENV !== 'test') {
-          console.warn('Email provider not configured; skipping staff invitation email send.');
-        }
-        return { success: true };
-      }
-
-      const { Resend } = await import('resend');
-      const resend = new Resend(env.RESEND_API_KEY);
-      const fromName = env.EMAIL_FROM_NAME || 'Jiffoo';
-      const fromAddress = `${fromName} <${env.EMAIL_FROM}>`;
-
-      const result = await resend.emails.send({
-        from: fromAddress,
+      const result = await deliverEmail({
         to: email,
+        fromName: env.EMAIL_FROM_NAME || 'Jiffoo',
         subject: 'You have been invited to the Jiffoo admin team',
         html: this.getStaffInvitationEmailHtml(username, verificationUrl),
         text: this.getStaffInvitationEmailText(username, verificationUrl),
+        tags: ['staff-invitation'],
       });
 
-      if (!result.data) {
+      if (!result.success) {
         return {
           success: false,
-          error: result.error?.message || 'Failed to send staff invitation email',
+          error: result.error || 'Failed to send staff invitation email',
         };
       }
 
@@ -189,6 +189,8 @@ declare module 'fastify' {
     apiVersion?: string;
     versionMetadata?: any;
     storeContext?: StoreContext;
+    // Anonymous cart resolved from the X-Cart-Token header (guest checkout)
+    guestCartId?: string;
   }
 }
 
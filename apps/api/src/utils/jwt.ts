@@ -6,6 +6,8 @@ export interface JwtPayload {
   email: string;
   role: string;
   type?: 'access' | 'refresh';
+  /** Refresh tokens only: the user's tokenVersion when the token was issued */
+  ver?: number;
 }
 
 export class JwtUtils {
@@ -16,7 +18,7 @@ export class JwtUtils {
     });
   }
 
-  static signRefresh(payload: { userId: string }, expiresIn: string | number = '7d'): string {
+  static signRefresh(payload: { userId: string; ver?: number }, expiresIn: string | number = '7d'): string {
     return jwt.sign({ ...payload, type: 'refresh' }, env.JWT_SECRET, {
       expiresIn: expiresIn as any,
       issuer: 'jiffoo-mall',
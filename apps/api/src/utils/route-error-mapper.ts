@@ -112,11 +112,290 @@ export function mapAdminOrderRouteError(
     lowerMessage.includes('order is not paid, cannot refund') ||
     lowerMessage.includes('no successful payment found for this order') ||
     lowerMessage.includes('cannot cancel order with status') ||
-    lowerMessage.includes('order is already cancelled')
+    lowerMessage.includes('order is already cancelled') ||
+    lowerMessage.includes('no refundable balance') ||
+    lowerMessage.includes('exceeds the refundable balance') ||
+    lowerMessage.includes('refund amount must be') ||
+    lowerMessage.includes('refund quantity for order item') ||
+    lowerMessage.includes('is not part of this order') ||
+    lowerMessage.includes('is listed more than once') ||
+    lowerMessage.includes('refund it to store credit') ||
+    lowerMessage.includes('cannot be refunded to store credit') ||
+    lowerMessage.includes('store credit is kept in')
   ) {
     return { status: 400, code: 'VALIDATION_ERROR', message };
   }
 
+  if (lowerMessage.includes('idempotency key already used')) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  if (lowerMessage.includes('payment provider rejected the refund')) {
+    return { status: 502, code: 'PAYMENT_PLUGIN_FAILED', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+
+export function mapReturnRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (
+    rawCode === 'P2025' ||
+    lowerMessage.includes('order not found') ||
+    lowerMessage.includes('return request not found') ||
+    lowerMessage.includes('warehouse with id')
+  ) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('can be returned') ||
+    lowerMessage.includes('return photos must be uploaded') ||
+    lowerMessage.includes('return quantity for order item') ||
+    lowerMessage.includes('is not part of this') ||
+    lowerMessage.includes('is listed more than once') ||
+    lowerMessage.includes('inspection result missing') ||
+    lowerMessage.includes('warehouseid is required') ||
+    lowerMessage.includes('no file uploaded') ||
+    lowerMessage.includes('invalid file type') ||
+    lowerMessage.includes('file too large') ||
+    lowerMessage.includes('order is not paid, cannot refund') ||
+    lowerMessage.includes('no successful payment found for this order') ||
+    lowerMessage.includes('no refundable balance') ||
+    lowerMessage.includes('exceeds the refundable balance') ||
+    lowerMessage.includes('refund quantity for order item')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (
+    lowerMessage.includes('cannot move a') ||
+    lowerMessage.includes('must be approved before') ||
+    lowerMessage.includes('must be received before') ||
+    lowerMessage.includes('can only be recorded for approved') ||
+    lowerMessage.includes('has already been refunded')
+  ) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  if (lowerMessage.includes('payment provider rejected the refund')) {
+    return { status: 502, code: 'PAYMENT_PLUGIN_FAILED', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapCategoryRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('category name is required') ||
+    lowerMessage.includes('category slug is invalid') ||
+    lowerMessage.includes('unsupported locale') ||
+    lowerMessage.includes('category order must list')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (
+    rawCode === 'P2002' ||
+    lowerMessage.includes('cannot be moved under itself') ||
+    lowerMessage.includes('cannot be reassigned to the category being deleted') ||
+    lowerMessage.includes('category has products')
+  ) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapMediaRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('invalid file type') ||
+    lowerMessage.includes('file too large') ||
+    lowerMessage.includes('focal point coordinates') ||
+    lowerMessage.includes('alt text is required') ||
+    lowerMessage.includes('unsupported locale') ||
+    lowerMessage.includes('variant does not belong') ||
+    lowerMessage.includes('media order must list')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapReviewRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('rating must be') ||
+    lowerMessage.includes('review text must be') ||
+    lowerMessage.includes('review title must be') ||
+    lowerMessage.includes('reply text') ||
+    lowerMessage.includes('may contain at most') ||
+    lowerMessage.includes('duplicate review text')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (lowerMessage.includes('only customers with a delivered order')) {
+    return { status: 403, code: 'FORBIDDEN', message };
+  }
+
+  if (lowerMessage.includes('review limit reached')) {
+    return { status: 429, code: 'RATE_LIMITED', message };
+  }
+
+  if (
+    rawCode === 'P2002' ||
+    lowerMessage.includes('already reviewed') ||
+    lowerMessage.includes('review is already')
+  ) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapWishlistRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('wishlist name') ||
+    lowerMessage.includes('saved-for-later list cannot') ||
+    lowerMessage.includes('not available') ||
+    lowerMessage.includes('supplier') ||
+    lowerMessage.includes('sign in to')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (
+    rawCode === 'P2002' ||
+    lowerMessage.includes('already on that list') ||
+    lowerMessage.includes('wishlist limit reached') ||
+    lowerMessage.includes('wishlist is full')
+  ) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapAddressRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message: 'Address not found' };
+  }
+
+  if (lowerMessage.includes('shipping address field')) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (rawCode === 'P2002' || lowerMessage.includes('address book is full')) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
   return {
     status: options.defaultStatus,
     code: options.defaultCode,
@@ -124,3 +403,156 @@ export function mapAdminOrderRouteError(
   };
 }
 
+export function mapCustomerGroupRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('customer group name is required') ||
+    lowerMessage.includes('customer group code is invalid')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (rawCode === 'P2002' || lowerMessage.includes('customer group is used by')) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapGiftCardRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('gift card is no longer active') ||
+    lowerMessage.includes('gift card has expired') ||
+    lowerMessage.includes('gift card has no balance') ||
+    lowerMessage.includes('gift card is in') ||
+    lowerMessage.includes('gift card code must') ||
+    lowerMessage.includes('gift cards can be used') ||
+    lowerMessage.includes('store credit is kept in') ||
+    lowerMessage.includes('store credit balance is too low') ||
+    lowerMessage.includes('cannot go below zero') ||
+    lowerMessage.includes('must not be zero') ||
+    lowerMessage.includes('sign in to')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (
+    rawCode === 'P2002' ||
+    lowerMessage.includes('already in use') ||
+    lowerMessage.includes('balance changed') ||
+    lowerMessage.includes('not awaiting payment') ||
+    lowerMessage.includes('payment has already started')
+  ) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapThemeEditorRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+
+  if (lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (lowerMessage.startsWith('invalid ')) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (
+    lowerMessage.includes('no draft to') ||
+    lowerMessage.includes('only available for theme packs')
+  ) {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
+
+export function mapContentRouteError(
+  error: unknown,
+  options: MapRouteErrorOptions
+): MappedRouteError {
+  if (error instanceof ZodError) {
+    return mapZodError(error);
+  }
+
+  const message = toErrorMessage(error, options.defaultMessage);
+  const lowerMessage = message.toLowerCase();
+  const rawCode = toErrorCode(error);
+
+  if (rawCode === 'P2025' || lowerMessage.includes('not found')) {
+    return { status: 404, code: 'NOT_FOUND', message };
+  }
+
+  if (
+    lowerMessage.includes('content title is required') ||
+    lowerMessage.includes('content slug is invalid') ||
+    lowerMessage.includes('content publish date is invalid') ||
+    lowerMessage.includes('can have at most') ||
+    lowerMessage.includes('unsupported locale') ||
+    lowerMessage.includes('default locale content')
+  ) {
+    return { status: 400, code: 'VALIDATION_ERROR', message };
+  }
+
+  if (rawCode === 'P2002') {
+    return { status: 409, code: 'CONFLICT', message };
+  }
+
+  return {
+    status: options.defaultStatus,
+    code: options.defaultCode,
+    message,
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Account Recovery Unit Tests
+ *
+ * Coverage:
+ * - requestPasswordReset: silent for unknown accounts, stores only the token hash,
+ *   replaces earlier links, emails the reset link without logging it
+ * - resetPassword: single use, expiry/purpose checks, bumps tokenVersion and
+ *   invalidates outstanding tokens, loses concurrent races
+ * - magic links: disabled by default, sign-in marks the email verified
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const authToken = {
+    findUnique: vi.fn(),
+    updateMany: vi.fn(),
+    create: vi.fn(),
+  };
+  const user = {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  };
+  return {
+    authToken,
+    user,
+    emailTemplate: { findUnique: vi.fn() },
+    emailLog: { create: vi.fn(), update: vi.fn() },
+    transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn({ authToken, user })),
+    emailSend: vi.fn(),
+    completeBootstrapPasswordRotation: vi.fn(),
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: {
+    authToken: mocks.authToken,
+    user: mocks.user,
+    emailTemplate: mocks.emailTemplate,
+    emailLog: mocks.emailLog,
+    $transaction: mocks.transaction,
+  },
+}));
+
+vi.mock('@/utils/password', () => ({
+  PasswordUtils: {
+    hash: vi.fn().mockResolvedValue('hashed-new-password'),
+  },
+}));
+
+vi.mock('@/core/admin/system-settings/service', () => ({
+  systemSettingsService: {
+    getSetting: vi.fn().mockResolvedValue('Test Store'),
+    getShopLocale: vi.fn().mockResolvedValue('en-US'),
+  },
+}));
+
+vi.mock('@/core/auth/bootstrap', () => ({
+  completeBootstrapPasswordRotation: mocks.completeBootstrapPasswordRotation,
+  shouldRequirePasswordRotation: vi.fn().mockResolvedValue(false),
+}));
+
+vi.mock('@/plugins/email-providers/resend-provider', () => ({
+  ResendProvider: class {
+    send = mocks.emailSend;
+  },
+}));
+
+import { AccountRecoveryService, hashAuthToken } from '@/core/auth/account-recovery';
+import { AuthService } from '@/core/auth/service';
+import { setEmailTransport } from '@/core/email/transport';
+import { env } from '@/config/env';
+
+const originalResendKey = env.RESEND_API_KEY;
+const originalMagicLink = env.AUTH_MAGIC_LINK_ENABLED;
+
+const tokenRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'tok-1',
+  userId: 'user-1',
+  purpose: 'PASSWORD_RESET',
+  tokenHash: hashAuthToken('plain-token'),
+  expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+  usedAt: null,
+  user: { email: 'jane@example.com', role: 'USER', isActive: true, emailVerified: true },
+  ...overrides,
+});
+
+describe('AccountRecoveryService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    env.RESEND_API_KEY = 're_test';
+    setEmailTransport(null);
+    mocks.emailSend.mockResolvedValue({ success: true, messageId: 'msg-1' });
+    mocks.emailTemplate.findUnique.mockResolvedValue(null);
+    mocks.emailLog.create.mockImplementation(async ({ data }) => ({ id: 'log-1', attempts: 0, ...data }));
+    mocks.authToken.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    env.RESEND_API_KEY = originalResendKey;
+    env.AUTH_MAGIC_LINK_ENABLED = originalMagicLink;
+  });
+
+  describe('requestPasswordReset', () => {
+    it('does nothing for unknown or inactive accounts', async () => {
+      mocks.user.findUnique.mockResolvedValueOnce(null);
+      await AccountRecoveryService.requestPasswordReset('nobody@example.com');
+
+      mocks.user.findUnique.mockResolvedValueOnce({ id: 'user-1', email: 'jane@example.com', username: 'jane', isActive: false });
+      await AccountRecoveryService.requestPasswordReset('jane@example.com');
+
+      expect(mocks.authToken.create).not.toHaveBeenCalled();
+      expect(mocks.emailSend).not.toHaveBeenCalled();
+    });
+
+    it('replaces earlier links and emails a link whose token is stored hashed', async () => {
+      mocks.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'jane@example.com', username: 'jane', isActive: true });
+
+      await AccountRecoveryService.requestPasswordReset('jane@example.com');
+
+      expect(mocks.authToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', purpose: 'PASSWORD_RESET', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+
+      const sent = mocks.emailSend.mock.calls[0][0];
+      expect(sent).toMatchObject({ to: 'jane@example.com', fromName: 'Test Store' });
+      const token = decodeURIComponent(/reset-password\?token=([^\s"]+)/.exec(sent.text)![1]);
+
+      const created = mocks.authToken.create.mock.calls[0][0].data;
+      expect(created).toMatchObject({ userId: 'user-1', purpose: 'PASSWORD_RESET', tokenHash: hashAuthToken(token) });
+      expect(created.tokenHash).not.toBe(token);
+      expect(created.expiresAt.getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+
+      // The send log keeps no copy of the single-use link
+      expect(mocks.emailLog.create.mock.calls[0][0].data).toMatchObject({ templateKey: 'password_reset', variables: {} });
+    });
+
+    it('only logs the email when no provider is configured', async () => {
+      env.RESEND_API_KEY = undefined;
+      mocks.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'jane@example.com', username: 'jane', isActive: true });
+
+      await AccountRecoveryService.requestPasswordReset('jane@example.com');
+
+      expect(mocks.authToken.create).toHaveBeenCalled();
+      expect(mocks.emailSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('sets the password, revokes sessions and consumes outstanding tokens', async () => {
+      mocks.authToken.findUnique.mockResolvedValue(tokenRecord());
+
+      await expect(AccountRecoveryService.resetPassword('plain-token', 'N3w-password')).resolves.toEqual({ userId: 'user-1' });
+
+      expect(mocks.authToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: hashAuthToken('plain-token') },
+      }));
+      expect(mocks.authToken.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 'tok-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mocks.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { password: 'hashed-new-password', emailVerified: true, tokenVersion: { increment: 1 } },
+      });
+      expect(mocks.authToken.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { userId: 'user-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mocks.completeBootstrapPasswordRotation).toHaveBeenCalledWith('jane@example.com');
+    });
+
+    it.each([
+      ['unknown', null],
+      ['used', tokenRecord({ usedAt: new Date() })],
+      ['expired', tokenRecord({ expiresAt: new Date(Date.now() - 1000) })],
+      ['magic-link', tokenRecord({ purpose: 'MAGIC_LINK' })],
+    ])('rejects a %s token', async (_label, record) => {
+      mocks.authToken.findUnique.mockResolvedValue(record);
+
+      await expect(AccountRecoveryService.resetPassword('plain-token', 'N3w-password')).rejects.toThrow('Invalid or expired token');
+      expect(mocks.user.update).not.toHaveBeenCalled();
+    });
+
+    it('fails when a concurrent request consumed the token first', async () => {
+      mocks.authToken.findUnique.mockResolvedValue(tokenRecord());
+      mocks.authToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(AccountRecoveryService.resetPassword('plain-token', 'N3w-password')).rejects.toThrow('Invalid or expired token');
+      expect(mocks.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('magic links', () => {
+    it('are disabled unless AUTH_MAGIC_LINK_ENABLED is set', async () => {
+      env.AUTH_MAGIC_LINK_ENABLED = false;
+
+      await expect(AccountRecoveryService.requestMagicLink('jane@example.com')).rejects.toThrow('Magic link sign-in is disabled');
+      await expect(AccountRecoveryService.consumeMagicLink('plain-token')).rejects.toThrow('Magic link sign-in is disabled');
+      expect(mocks.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('sign the user in once and verify their email', async () => {
+      env.AUTH_MAGIC_LINK_ENABLED = true;
+      mocks.authToken.findUnique.mockResolvedValue(tokenRecord({
+        purpose: 'MAGIC_LINK',
+        user: { email: 'jane@example.com', role: 'USER', isActive: true, emailVerified: false },
+      }));
+      const createSession = vi.spyOn(AuthService, 'createSession').mockResolvedValue({ user: { id: 'user-1' } } as never);
+
+      const session = await AccountRecoveryService.consumeMagicLink('plain-token');
+
+      expect(session).toEqual({ user: { id: 'user-1' } });
+      expect(mocks.authToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'tok-1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(mocks.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { emailVerified: true } });
+      expect(createSession).toHaveBeenCalledWith('user-1');
+      createSession.mockRestore();
+    });
+  });
+});
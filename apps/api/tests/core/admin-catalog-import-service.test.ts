@@ -20,6 +20,12 @@ vi.mock('@/core/warehouse/service', () => ({
   },
 }));
 
+vi.mock('@/core/media/service', () => ({
+  ProductMediaService: {
+    replaceProductImages: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 vi.mock('@/core/inventory/service', () => ({
   InventoryService: {
     setStock: vi.fn().mockResolvedValue(undefined),
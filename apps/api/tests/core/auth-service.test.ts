@@ -5,7 +5,7 @@
  * - register: success path, duplicate user error
  * - login: success path, wrong password, inactive user, unverified email
  * - getCurrentUser: success path, user not found, inactive user
- * - refreshSession: success path, invalid refresh token
+ * - refreshSession: success path, invalid refresh token, revoked token version
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -579,6 +579,31 @@ describe('AuthService', () => {
       expect(mockPrismaUser.findUnique).not.toHaveBeenCalled();
     });
 
+    it('should reject refresh tokens issued before the last password reset', async () => {
+      mockJwtUtils.verify.mockReturnValue({ userId: TEST_USER.id, type: 'refresh', ver: 1 });
+      mockPrismaUser.findUnique.mockImplementation(async (args: { select: Record<string, boolean> }) =>
+        args.select.tokenVersion ? { tokenVersion: 2 } : TEST_USER
+      );
+
+      await expect(AuthService.refreshSession('stale-refresh-token')).rejects.toThrow(
+        'Invalid refresh token'
+      );
+      expect(mockJwtUtils.signRefresh).not.toHaveBeenCalled();
+    });
+
+    it('should sign rotated refresh tokens with the current token version', async () => {
+      mockJwtUtils.verify.mockReturnValue({ userId: TEST_USER.id, type: 'refresh', ver: 2 });
+      mockPrismaUser.findUnique.mockImplementation(async (args: { select: Record<string, boolean> }) =>
+        args.select.tokenVersion ? { tokenVersion: 2 } : TEST_USER
+      );
+      mockJwtUtils.sign.mockReturnValue('new-access-token');
+      mockJwtUtils.signRefresh.mockReturnValue('new-refresh-token');
+
+      await AuthService.refreshSession('current-refresh-token');
+
+      expect(mockJwtUtils.signRefresh).toHaveBeenCalledWith({ userId: TEST_USER.id, ver: 2 });
+    });
+
     it('should throw when the token payload is missing userId or type', async () => {
       // Payload without the required 'type: refresh' field
       mockJwtUtils.verify.mockReturnValue({ userId: TEST_USER.id, type: 'access' });
@@ -0,0 +1,254 @@
+/**
+ * Category Service Unit Tests
+ *
+ * Coverage:
+ * - createCategory: level follows the parent, slugs are unique, new categories go last
+ * - moveCategory: cycles are refused; the moved subtree gets new levels and both
+ *   sibling lists stay densely ordered
+ * - reorderCategories: the order must list every child exactly once
+ * - deleteCategory: products need a target; children move up in place of the deleted category
+ * - setTranslation: only supported locales
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  level: number;
+  sortOrder: number;
+  productCount: number;
+}
+
+const mocks = vi.hoisted(() => {
+  const state = { categories: [] as any[], nextId: 1 };
+
+  const matchValue = (value: unknown, condition: any) => {
+    if (condition && typeof condition === 'object') {
+      if ('in' in condition) return condition.in.includes(value);
+      if ('not' in condition) return value !== condition.not;
+      if ('lt' in condition) return (value as number) < condition.lt;
+    }
+    return value === condition;
+  };
+  const matches = (row: any, where: any = {}) =>
+    Object.entries(where).every(([key, condition]) => matchValue(row[key], condition));
+  const sorted = (rows: any[]) =>
+    [...rows].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  const withDetails = (row: any) => ({
+    ...row,
+    description: null,
+    metaTitle: null,
+    metaDescription: null,
+    canonicalUrl: null,
+    structuredData: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    translations: [],
+    _count: {
+      products: row.productCount,
+      children: state.categories.filter((c) => c.parentId === row.id).length,
+    },
+  });
+
+  const category = {
+    findUnique: vi.fn(async ({ where }: any) => {
+      const row = state.categories.find((c) => matches(c, where));
+      return row ? withDetails(row) : null;
+    }),
+    findUniqueOrThrow: vi.fn(async ({ where }: any) => withDetails(state.categories.find((c) => matches(c, where)))),
+    findMany: vi.fn(async ({ where }: any = {}) =>
+      sorted(state.categories.filter((c) => matches(c, where))).map(withDetails)
+    ),
+    count: vi.fn(async ({ where }: any = {}) => state.categories.filter((c) => matches(c, where)).length),
+    create: vi.fn(async ({ data }: any) => {
+      const row = { id: `cat-${state.nextId++}`, productCount: 0, ...data };
+      state.categories.push(row);
+      return withDetails(row);
+    }),
+    update: vi.fn(async ({ where, data }: any) => {
+      const row = state.categories.find((c) => c.id === where.id);
+      Object.assign(row, data);
+      return withDetails(row);
+    }),
+    updateMany: vi.fn(async ({ where, data }: any) => {
+      const rows = state.categories.filter((c) => matches(c, where));
+      rows.forEach((row) => Object.assign(row, data));
+      return { count: rows.length };
+    }),
+    delete: vi.fn(async ({ where }: any) => {
+      state.categories = state.categories.filter((c) => c.id !== where.id);
+    }),
+  };
+
+  const prisma: any = {
+    category,
+    product: { updateMany: vi.fn() },
+    externalCategoryLink: { deleteMany: vi.fn() },
+    categoryTranslation: { upsert: vi.fn(), deleteMany: vi.fn() },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma));
+
+  return { state, prisma, incrementProductVersion: vi.fn() };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: { incrementProductVersion: mocks.incrementProductVersion },
+}));
+
+import { CategoryService } from '@/core/category/service';
+
+const seed = (rows: Array<Partial<CategoryRow> & Pick<CategoryRow, 'id' | 'parentId' | 'level' | 'sortOrder'>>) => {
+  mocks.state.categories = rows.map((row) => ({
+    name: row.id,
+    slug: row.id,
+    productCount: 0,
+    ...row,
+  }));
+};
+
+const row = (id: string) => mocks.state.categories.find((c) => c.id === id);
+
+const childIds = (parentId: string | null) =>
+  mocks.state.categories
+    .filter((c) => c.parentId === parentId)
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map((c) => c.id);
+
+describe('CategoryService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.state.nextId = 1;
+    // apparel
+    //   tops
+    //     shirts
+    //   shoes
+    // home
+    seed([
+      { id: 'apparel', parentId: null, level: 1, sortOrder: 0 },
+      { id: 'home', parentId: null, level: 1, sortOrder: 1 },
+      { id: 'tops', parentId: 'apparel', level: 2, sortOrder: 0 },
+      { id: 'shoes', parentId: 'apparel', level: 2, sortOrder: 1 },
+      { id: 'shirts', parentId: 'tops', level: 3, sortOrder: 0 },
+    ]);
+  });
+
+  describe('createCategory', () => {
+    it('places the category last under its parent one level deeper', async () => {
+      const category = await CategoryService.createCategory({ name: 'Bags', parentId: 'apparel' });
+
+      expect(category).toMatchObject({ slug: 'bags', parentId: 'apparel', level: 2, sortOrder: 2 });
+      expect(mocks.incrementProductVersion).toHaveBeenCalled();
+    });
+
+    it('suffixes slugs that are already taken', async () => {
+      const category = await CategoryService.createCategory({ name: 'Shoes' });
+
+      expect(category.slug).toBe('shoes-1');
+      expect(category.level).toBe(1);
+    });
+
+    it('rejects an unknown parent', async () => {
+      await expect(CategoryService.createCategory({ name: 'Bags', parentId: 'missing' }))
+        .rejects.toThrow('Parent category not found');
+    });
+  });
+
+  describe('moveCategory', () => {
+    it('refuses to move a category under its own descendant', async () => {
+      await expect(CategoryService.moveCategory('apparel', { parentId: 'shirts' }))
+        .rejects.toThrow('cannot be moved under itself or its descendants');
+      await expect(CategoryService.moveCategory('apparel', { parentId: 'apparel' }))
+        .rejects.toThrow('cannot be moved under itself or its descendants');
+    });
+
+    it('recomputes levels for the moved subtree and renumbers both sibling lists', async () => {
+      await CategoryService.moveCategory('tops', { parentId: 'home', position: 0 });
+
+      expect(row('tops')).toMatchObject({ parentId: 'home', level: 2, sortOrder: 0 });
+      expect(row('shirts').level).toBe(3);
+      expect(row('shoes').sortOrder).toBe(0);
+      expect(childIds('apparel')).toEqual(['shoes']);
+    });
+
+    it('moves a subtree to the root', async () => {
+      await CategoryService.moveCategory('tops', { parentId: null, position: 1 });
+
+      expect(childIds(null)).toEqual(['apparel', 'tops', 'home']);
+      expect(row('tops').level).toBe(1);
+      expect(row('shirts').level).toBe(2);
+    });
+  });
+
+  describe('reorderCategories', () => {
+    it('applies the new order', async () => {
+      await CategoryService.reorderCategories('apparel', ['shoes', 'tops']);
+
+      expect(childIds('apparel')).toEqual(['shoes', 'tops']);
+    });
+
+    it('requires every child exactly once', async () => {
+      await expect(CategoryService.reorderCategories('apparel', ['shoes']))
+        .rejects.toThrow('Category order must list every child of the parent exactly once');
+      await expect(CategoryService.reorderCategories('apparel', ['shoes', 'shoes']))
+        .rejects.toThrow('Category order must list every child of the parent exactly once');
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('refuses to orphan products without a target', async () => {
+      row('tops').productCount = 3;
+
+      await expect(CategoryService.deleteCategory('tops'))
+        .rejects.toThrow('Category has products');
+      await expect(CategoryService.deleteCategory('tops', { reassignProductsTo: 'tops' }))
+        .rejects.toThrow('Products cannot be reassigned to the category being deleted');
+    });
+
+    it('reassigns products and promotes children into its place', async () => {
+      row('tops').productCount = 3;
+
+      await CategoryService.deleteCategory('tops', { reassignProductsTo: 'shoes' });
+
+      expect(mocks.prisma.product.updateMany).toHaveBeenCalledWith({
+        where: { categoryId: 'tops' },
+        data: { categoryId: 'shoes' },
+      });
+      expect(mocks.prisma.externalCategoryLink.deleteMany).toHaveBeenCalledWith({ where: { coreCategoryId: 'tops' } });
+      expect(row('tops')).toBeUndefined();
+      expect(row('shirts')).toMatchObject({ parentId: 'apparel', level: 2 });
+      expect(childIds('apparel')).toEqual(['shirts', 'shoes']);
+    });
+  });
+
+  describe('setTranslation', () => {
+    it('rejects unsupported locales', async () => {
+      await expect(CategoryService.setTranslation('tops', 'fr', { name: 'Hauts' }))
+        .rejects.toThrow('Unsupported locale: fr');
+      expect(mocks.prisma.categoryTranslation.upsert).not.toHaveBeenCalled();
+    });
+
+    it('upserts the translation for the category', async () => {
+      mocks.prisma.categoryTranslation.upsert.mockResolvedValue({
+        locale: 'zh-Hant',
+        name: '上衣',
+        description: null,
+        updatedAt: new Date('2026-01-01T00:00:00Z'),
+      });
+
+      const translation = await CategoryService.setTranslation('tops', 'zh-Hant', { name: ' 上衣 ' });
+
+      expect(mocks.prisma.categoryTranslation.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { categoryId_locale: { categoryId: 'tops', locale: 'zh-Hant' } },
+        update: { name: '上衣', description: null },
+      }));
+      expect(translation.name).toBe('上衣');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prismaMock } = vi.hoisted(() => ({
+  prismaMock: {
+    contentEntry: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    contentEntryTranslation: {
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    product: { findMany: vi.fn(), count: vi.fn() },
+    category: { findMany: vi.fn(), count: vi.fn() },
+  },
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: prismaMock,
+}));
+
+import { ContentService } from '@/core/content/service';
+import { renderMarkdown } from '@/core/content/markdown';
+import { SitemapService } from '@/core/seo/sitemap.service';
+
+const createdAt = new Date('2026-10-01T00:00:00Z');
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'entry-1',
+    type: 'PAGE',
+    slug: 'privacy',
+    title: 'Privacy Policy',
+    excerpt: null,
+    body: '# Privacy\n\nWe keep your data safe.',
+    coverImage: null,
+    tags: [],
+    status: 'PUBLISHED',
+    publishedAt: createdAt,
+    authorId: 'admin-1',
+    metaTitle: 'Privacy',
+    metaDescription: null,
+    canonicalUrl: null,
+    structuredData: null,
+    translations: [],
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+describe('renderMarkdown', () => {
+  it('renders the supported subset', () => {
+    const html = renderMarkdown(
+      '## Terms\n\nRead **carefully** and see [help](/help).\n\n- one\n- two\n\n1. first\n\n> quoted\n\n```\nconst a = 1;\n```'
+    );
+
+    expect(html).toContain('<h2>Terms</h2>');
+    expect(html).toContain('<p>Read <strong>carefully</strong> and see <a href="/help">help</a>.</p>');
+    expect(html).toContain('<ul><li>one</li><li>two</li></ul>');
+    expect(html).toContain('<ol><li>first</li></ol>');
+    expect(html).toContain('<blockquote><p>quoted</p></blockquote>');
+    expect(html).toContain('<pre><code>const a = 1;</code></pre>');
+  });
+
+  it('escapes raw HTML and drops unsafe link targets', () => {
+    const html = renderMarkdown('<script>alert(1)</script>\n\n[click](javascript:alert(1)) ![x](data:image/png) `<b>`');
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('href="javascript');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<code>&lt;b&gt;</code>');
+  });
+});
+
+describe('ContentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.contentEntry.findUnique.mockResolvedValue(null);
+    prismaMock.contentEntry.create.mockImplementation(async ({ data }) => entry({ ...data, translations: [] }));
+  });
+
+  it('derives a unique slug per type and publishes immediately without a date', async () => {
+    prismaMock.contentEntry.findUnique
+      .mockResolvedValueOnce({ id: 'other' })
+      .mockResolvedValueOnce(null);
+
+    const before = Date.now();
+    await ContentService.createContent(
+      { type: 'POST', title: '  Spring Sale Recap ', status: 'PUBLISHED', tags: ['News', 'news ', ''] },
+      'admin-1'
+    );
+
+    expect(prismaMock.contentEntry.findUnique).toHaveBeenLastCalledWith({
+      where: { type_slug: { type: 'POST', slug: 'spring-sale-recap-1' } },
+      select: { id: true },
+    });
+    const { data } = prismaMock.contentEntry.create.mock.calls[0][0];
+    expect(data).toMatchObject({ slug: 'spring-sale-recap-1', title: 'Spring Sale Recap', tags: ['news'], authorId: 'admin-1' });
+    expect(data.publishedAt.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('reports scheduled entries and rejects invalid dates', async () => {
+    const created = await ContentService.createContent(
+      { type: 'PAGE', title: 'Terms', status: 'PUBLISHED', publishedAt: '2999-01-01T00:00:00Z' },
+      null
+    );
+    expect(created.visibility).toBe('scheduled');
+
+    await expect(
+      ContentService.createContent({ type: 'PAGE', title: 'Terms', publishedAt: 'tomorrow' }, null)
+    ).rejects.toThrow('Content publish date is invalid');
+    await expect(ContentService.createContent({ type: 'PAGE', title: '   ' }, null)).rejects.toThrow(
+      'Content title is required'
+    );
+  });
+
+  it('only serves live entries to the storefront', async () => {
+    prismaMock.contentEntry.findFirst.mockResolvedValue(null);
+
+    await expect(ContentService.getPublishedPage('Privacy', 'en')).rejects.toThrow('Page not found');
+    expect(prismaMock.contentEntry.findFirst).toHaveBeenCalledWith({
+      where: { type: 'PAGE', slug: 'privacy', status: 'PUBLISHED', publishedAt: { lte: expect.any(Date) } },
+      include: { translations: { where: { locale: 'en' }, orderBy: { locale: 'asc' } } },
+    });
+  });
+
+  it('applies translations and falls back to the default locale', async () => {
+    prismaMock.contentEntry.findFirst.mockResolvedValue(
+      entry({
+        translations: [{ locale: 'zh-Hant', title: '隱私權政策', excerpt: null, body: '', metaTitle: null, metaDescription: null }],
+      })
+    );
+
+    const page = await ContentService.getPublishedPage('privacy', 'zh-Hant');
+
+    expect(page).toMatchObject({ locale: 'zh-Hant', title: '隱私權政策', metaTitle: 'Privacy' });
+    expect(page.bodyHtml).toBe('<h1>Privacy</h1>\n<p>We keep your data safe.</p>');
+
+    prismaMock.contentEntry.findFirst.mockResolvedValue(entry());
+    await expect(ContentService.getPublishedPage('privacy', 'zh-Hant')).resolves.toMatchObject({
+      locale: 'en',
+      title: 'Privacy Policy',
+    });
+  });
+
+  it('keeps default-locale text on the entry itself', async () => {
+    await expect(ContentService.setTranslation('entry-1', 'en', { title: 'Privacy' })).rejects.toThrow(
+      'Default locale content is edited on the entry itself'
+    );
+    await expect(ContentService.setTranslation('entry-1', 'fr', { title: 'Privé' })).rejects.toThrow(
+      'Unsupported locale: fr'
+    );
+    expect(prismaMock.contentEntryTranslation.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('SitemapService content URLs', () => {
+  it('maps live pages and posts to storefront routes', async () => {
+    prismaMock.contentEntry.findMany.mockResolvedValue([
+      { type: 'PAGE', slug: 'privacy', updatedAt: new Date('2026-10-02T00:00:00Z') },
+      { type: 'PAGE', slug: 'shipping-info', updatedAt: new Date('2026-10-03T00:00:00Z') },
+      { type: 'POST', slug: 'hello', updatedAt: new Date('2026-10-04T00:00:00Z') },
+    ]);
+
+    const urls = await SitemapService.getContentUrls('https://shop.test');
+
+    expect(urls.map((url) => url.loc)).toEqual([
+      'https://shop.test/privacy',
+      'https://shop.test/pages/shipping-info',
+      'https://shop.test/blog/hello',
+      'https://shop.test/blog',
+    ]);
+    expect(urls[3].lastmod).toBe('2026-10-04');
+    expect(prismaMock.contentEntry.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { status: 'PUBLISHED', publishedAt: { lte: expect.any(Date) } } })
+    );
+  });
+});
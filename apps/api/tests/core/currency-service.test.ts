@@ -0,0 +1,138 @@
+/**
+ * CurrencyService Unit Tests
+ *
+ * Coverage:
+ * - ManualRateProvider: CSV parsing (3-column, 2-column with base, validation errors)
+ * - importRatesFromCsv: stores non-expiring manual rates
+ * - getExchangeRate: inverse pair fallback
+ * - resolveCurrency: disabled currencies fall back to the base currency
+ * - resolveVariantPrices: per-variant overrides win over converted base prices
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prismaMock, settingsMock } = vi.hoisted(() => ({
+  prismaMock: {
+    exchangeRate: {
+      createMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    currencyPrice: {
+      findMany: vi.fn(),
+    },
+  },
+  settingsMock: {
+    getShopCurrency: vi.fn(),
+    getAllSettings: vi.fn(),
+  },
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: prismaMock,
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(true),
+    clearByPrefix: vi.fn().mockResolvedValue(0),
+  },
+}));
+
+vi.mock('@/core/admin/system-settings/service', () => ({
+  systemSettingsService: settingsMock,
+}));
+
+import { CurrencyService } from '@/core/currency/service';
+import { ManualRateProvider } from '@/core/currency/providers';
+
+describe('CurrencyService', () => {
+  let service: CurrencyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    settingsMock.getShopCurrency.mockResolvedValue('USD');
+    settingsMock.getAllSettings.mockResolvedValue({ 'currency.enabled': ['EUR', 'jpy'] });
+    prismaMock.exchangeRate.createMany.mockResolvedValue({ count: 0 });
+    prismaMock.exchangeRate.findFirst.mockResolvedValue(null);
+    prismaMock.currencyPrice.findMany.mockResolvedValue([]);
+    service = new CurrencyService(new ManualRateProvider());
+  });
+
+  describe('ManualRateProvider.fromCsv', () => {
+    it('parses from,to,rate rows and to,rate rows relative to the default base', async () => {
+      const provider = ManualRateProvider.fromCsv('from,to,rate\nUSD,EUR,0.9\n# comment\nGBP,1.25\n', 'eur');
+
+      expect(provider.getBaseCurrencies()).toEqual(['USD', 'EUR']);
+      await expect(provider.fetchRates('EUR')).resolves.toEqual({ GBP: 1.25 });
+    });
+
+    it('rejects invalid rates with the offending line number', () => {
+      expect(() => ManualRateProvider.fromCsv('USD,EUR,0.9\nUSD,JPY,-1')).toThrow('Line 2');
+    });
+  });
+
+  describe('importRatesFromCsv', () => {
+    it('stores manual rates without an expiry', async () => {
+      const result = await service.importRatesFromCsv('EUR,0.9\nJPY,150');
+
+      expect(result).toEqual({ importedCount: 2, baseCurrencies: ['USD'], source: 'manual' });
+      const { data } = prismaMock.exchangeRate.createMany.mock.calls[0][0];
+      expect(data).toEqual([
+        expect.objectContaining({ fromCurrency: 'USD', toCurrency: 'EUR', rate: 0.9, validUntil: null, source: 'manual' }),
+        expect.objectContaining({ fromCurrency: 'USD', toCurrency: 'JPY', rate: 150, validUntil: null, source: 'manual' }),
+      ]);
+    });
+  });
+
+  describe('getExchangeRate', () => {
+    it('falls back to the inverse of the reverse pair', async () => {
+      prismaMock.exchangeRate.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ rate: 0.8 });
+
+      await expect(service.getExchangeRate('EUR', 'USD')).resolves.toBeCloseTo(1.25);
+    });
+  });
+
+  describe('resolveCurrency', () => {
+    it('returns enabled currencies and falls back to the base currency otherwise', async () => {
+      await expect(service.resolveCurrency('jpy')).resolves.toBe('JPY');
+      await expect(service.resolveCurrency('CHF')).resolves.toBe('USD');
+      await expect(service.resolveCurrency(undefined)).resolves.toBe('USD');
+    });
+  });
+
+  describe('resolveVariantPrices', () => {
+    it('prefers currency overrides and converts the rest', async () => {
+      prismaMock.currencyPrice.findMany.mockResolvedValue([{ variantId: 'v1', price: 9.5 }]);
+      prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: 0.91 });
+
+      const prices = await service.resolveVariantPrices(
+        [
+          { id: 'v1', salePrice: 10 },
+          { id: 'v2', salePrice: 19.99 },
+        ],
+        'EUR'
+      );
+
+      expect(prices.get('v1')).toBe(9.5);
+      expect(prices.get('v2')).toBe(18.19);
+    });
+
+    it('rounds to the currency minor unit', async () => {
+      prismaMock.exchangeRate.findFirst.mockResolvedValue({ rate: 151.237 });
+
+      const prices = await service.resolveVariantPrices([{ id: 'v1', salePrice: 10 }], 'JPY');
+
+      expect(prices.get('v1')).toBe(1512);
+    });
+
+    it('returns base sale prices without lookups for the base currency', async () => {
+      const prices = await service.resolveVariantPrices([{ id: 'v1', salePrice: '12.50' }], 'USD');
+
+      expect(prices.get('v1')).toBe(12.5);
+      expect(prismaMock.currencyPrice.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
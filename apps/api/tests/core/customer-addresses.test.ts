@@ -0,0 +1,169 @@
+/**
+ * Customer Address Book Unit Tests
+ *
+ * Coverage:
+ * - createAddress: first address becomes both defaults, a new default clears the previous one,
+ *   address validation, full address book
+ * - updateAddress: merged address is validated, setting a default clears it on other addresses
+ * - deleteAddress: a deleted default passes to the most recently updated address
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  prisma: {
+    customerAddress: {
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  } as any,
+  validateShippingAddress: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/core/order/service', () => ({
+  OrderService: { validateShippingAddress: mocks.validateShippingAddress },
+}));
+
+import { CustomerAddressService } from '@/core/account/addresses';
+
+const { prisma } = mocks;
+const now = new Date('2026-10-01T00:00:00.000Z');
+
+const input = {
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  phone: '555-0100',
+  addressLine1: '1 Main St',
+  city: 'Berlin',
+  country: 'DE',
+};
+
+function addressRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'addr-1',
+    userId: 'user-1',
+    label: null,
+    email: null,
+    company: null,
+    addressLine2: null,
+    state: null,
+    postalCode: null,
+    ...input,
+    isDefaultShipping: false,
+    isDefaultBilling: false,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('CustomerAddressService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(prisma));
+    mocks.validateShippingAddress.mockResolvedValue(undefined);
+    prisma.customerAddress.count.mockResolvedValue(0);
+    prisma.customerAddress.create.mockImplementation(({ data }: any) => addressRow(data));
+    prisma.customerAddress.update.mockImplementation(({ data }: any) => addressRow(data));
+  });
+
+  describe('createAddress', () => {
+    it('makes the first address the default shipping and billing address', async () => {
+      const address = await CustomerAddressService.createAddress('user-1', { ...input, label: '' });
+
+      expect(mocks.validateShippingAddress).toHaveBeenCalledWith(expect.objectContaining(input));
+      expect(prisma.customerAddress.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', label: null, isDefaultShipping: true, isDefaultBilling: true }),
+      });
+      expect(address).toMatchObject({ isDefaultShipping: true, isDefaultBilling: true, createdAt: now.toISOString() });
+    });
+
+    it('clears the previous default when a new default is saved', async () => {
+      prisma.customerAddress.count.mockResolvedValue(2);
+
+      await CustomerAddressService.createAddress('user-1', { ...input, isDefaultShipping: true });
+
+      expect(prisma.customerAddress.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.customerAddress.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', isDefaultShipping: true },
+        data: { isDefaultShipping: false },
+      });
+      expect(prisma.customerAddress.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ isDefaultShipping: true, isDefaultBilling: false }),
+      });
+    });
+
+    it('rejects incomplete addresses and full address books', async () => {
+      mocks.validateShippingAddress.mockRejectedValueOnce(new Error('Shipping address field "city" is required'));
+      await expect(CustomerAddressService.createAddress('user-1', { ...input, city: '' })).rejects.toThrow('"city" is required');
+
+      prisma.customerAddress.count.mockResolvedValue(20);
+      await expect(CustomerAddressService.createAddress('user-1', input)).rejects.toThrow('Address book is full');
+      expect(prisma.customerAddress.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateAddress', () => {
+    it('validates the merged address and moves the default flag', async () => {
+      prisma.customerAddress.findFirst.mockResolvedValue(addressRow({ id: 'addr-2', state: 'BE' }));
+
+      await CustomerAddressService.updateAddress('user-1', 'addr-2', { postalCode: '10115', isDefaultBilling: true });
+
+      expect(mocks.validateShippingAddress).toHaveBeenCalledWith(expect.objectContaining({
+        city: 'Berlin',
+        state: 'BE',
+        postalCode: '10115',
+      }));
+      expect(prisma.customerAddress.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', id: { not: 'addr-2' }, isDefaultBilling: true },
+        data: { isDefaultBilling: false },
+      });
+      expect(prisma.customerAddress.update).toHaveBeenCalledWith({
+        where: { id: 'addr-2' },
+        data: expect.objectContaining({ postalCode: '10115', isDefaultBilling: true }),
+      });
+    });
+
+    it('rejects addresses of other customers', async () => {
+      prisma.customerAddress.findFirst.mockResolvedValue(null);
+
+      await expect(CustomerAddressService.updateAddress('user-1', 'addr-9', { city: 'Paris' })).rejects.toThrow('Address not found');
+      expect(prisma.customerAddress.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteAddress', () => {
+    it('passes the default flags of a deleted address on', async () => {
+      prisma.customerAddress.findFirst
+        .mockResolvedValueOnce(addressRow({ isDefaultShipping: true }))
+        .mockResolvedValueOnce({ id: 'addr-3' });
+
+      await CustomerAddressService.deleteAddress('user-1', 'addr-1');
+
+      expect(prisma.customerAddress.delete).toHaveBeenCalledWith({ where: { id: 'addr-1' } });
+      expect(prisma.customerAddress.update).toHaveBeenCalledWith({
+        where: { id: 'addr-3' },
+        data: { isDefaultShipping: true },
+      });
+    });
+
+    it('leaves other addresses alone when the deleted address was not a default', async () => {
+      prisma.customerAddress.findFirst.mockResolvedValueOnce(addressRow());
+
+      await CustomerAddressService.deleteAddress('user-1', 'addr-1');
+
+      expect(prisma.customerAddress.delete).toHaveBeenCalled();
+      expect(prisma.customerAddress.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Customer Group Service Unit Tests
+ *
+ * Coverage:
+ * - getUserMemberships: manual members, spend / order count / email domain rules,
+ *   orders only aggregated when a rule needs them, cached memberships
+ * - getGroupPrices: lowest price over the customer's groups
+ * - assertProductsVisible: group-restricted products for members and non-members
+ * - createGroup / deleteGroup: code and domain normalization, groups used by discounts
+ * - DiscountService.validateDiscount: group restrictions checked against memberships
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    order: { aggregate: vi.fn() },
+    customerGroup: { create: vi.fn(), delete: vi.fn(), findMany: vi.fn(), findUnique: vi.fn() },
+    customerGroupMember: { findMany: vi.fn() },
+    customerGroupPrice: { findMany: vi.fn() },
+    productCustomerGroup: { findMany: vi.fn() },
+    discount: { findUnique: vi.fn() },
+    discountCustomerGroup: { count: vi.fn() },
+  } as any,
+  cache: {
+    get: vi.fn(),
+    set: vi.fn(),
+    delete: vi.fn(),
+    clearByPrefix: vi.fn(),
+    incrementProductVersion: vi.fn(),
+  },
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: mocks.cache,
+}));
+
+import { CustomerGroupService } from '@/core/customer-groups/service';
+import { DiscountService } from '@/core/discount/service';
+
+const { prisma, cache } = mocks;
+const now = new Date('2026-10-01T00:00:00.000Z');
+
+function ruleGroup(overrides: Record<string, unknown> = {}) {
+  return { id: 'grp-vip', name: 'VIP', code: 'vip', minLifetimeSpend: null, minOrderCount: null, emailDomains: [], ...overrides };
+}
+
+function groupRow(overrides: Record<string, unknown> = {}) {
+  return {
+    ...ruleGroup(),
+    description: null,
+    createdAt: now,
+    updatedAt: now,
+    _count: { members: 0, prices: 0, products: 0 },
+    ...overrides,
+  };
+}
+
+describe('CustomerGroupService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cache.get.mockResolvedValue(null);
+    prisma.user.findUnique.mockResolvedValue({ email: 'Ann@Acme.example' });
+    prisma.customerGroupMember.findMany.mockResolvedValue([]);
+    prisma.customerGroup.findMany.mockResolvedValue([]);
+    prisma.order.aggregate.mockResolvedValue({ _count: { _all: 3 }, _sum: { totalAmount: 480 } });
+  });
+
+  describe('getUserMemberships', () => {
+    it('combines manual memberships with groups whose rules the customer matches', async () => {
+      prisma.customerGroupMember.findMany.mockResolvedValue([{ group: { id: 'grp-press', name: 'Press', code: 'press' } }]);
+      prisma.customerGroup.findMany.mockResolvedValue([
+        ruleGroup({ minLifetimeSpend: 400, minOrderCount: 3 }),
+        ruleGroup({ id: 'grp-gold', name: 'Gold', code: 'gold', minLifetimeSpend: 1000 }),
+        ruleGroup({ id: 'grp-acme', name: 'Acme staff', code: 'acme', emailDomains: ['acme.example'] }),
+      ]);
+
+      const memberships = await CustomerGroupService.getUserMemberships('user-1');
+
+      expect(memberships).toEqual([
+        { groupId: 'grp-press', name: 'Press', code: 'press', source: 'MANUAL' },
+        { groupId: 'grp-vip', name: 'VIP', code: 'vip', source: 'RULE' },
+        { groupId: 'grp-acme', name: 'Acme staff', code: 'acme', source: 'RULE' },
+      ]);
+      expect(prisma.order.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-1', paymentStatus: { in: ['PAID', 'PARTIALLY_REFUNDED'] } },
+      }));
+      expect(cache.set).toHaveBeenCalledWith('customer_groups:user:user-1', memberships, { ttl: 300 });
+    });
+
+    it('only aggregates orders when a rule needs them', async () => {
+      prisma.customerGroup.findMany.mockResolvedValue([ruleGroup({ emailDomains: ['other.example'] })]);
+
+      expect(await CustomerGroupService.getUserMemberships('user-1')).toEqual([]);
+      expect(prisma.order.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('returns cached memberships and sorted group IDs', async () => {
+      cache.get.mockResolvedValue([
+        { groupId: 'grp-b', name: 'B', code: 'b', source: 'RULE' },
+        { groupId: 'grp-a', name: 'A', code: 'a', source: 'MANUAL' },
+      ]);
+
+      expect(await CustomerGroupService.getUserGroupIds('user-1')).toEqual(['grp-a', 'grp-b']);
+      expect(await CustomerGroupService.getUserGroupIds(null)).toEqual([]);
+      expect(prisma.customerGroupMember.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('storefront', () => {
+    it('uses the lowest price over the customer groups', async () => {
+      prisma.customerGroupPrice.findMany.mockResolvedValue([
+        { variantId: 'var-1', price: 18 },
+        { variantId: 'var-1', price: 15.5 },
+        { variantId: 'var-2', price: 40 },
+      ]);
+
+      const prices = await CustomerGroupService.getGroupPrices(['grp-a', 'grp-b'], ['var-1', 'var-2']);
+
+      expect(Object.fromEntries(prices)).toEqual({ 'var-1': 15.5, 'var-2': 40 });
+      expect(await CustomerGroupService.getGroupPrices([], ['var-1'])).toEqual(new Map());
+      expect(prisma.customerGroupPrice.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('only lets members of an assigned group see restricted products', async () => {
+      prisma.productCustomerGroup.findMany.mockResolvedValue([
+        { productId: 'prod-1', groupId: 'grp-a' },
+        { productId: 'prod-1', groupId: 'grp-b' },
+      ]);
+
+      await expect(CustomerGroupService.assertProductsVisible(['prod-1', 'prod-2'], ['grp-b'])).resolves.toBeUndefined();
+      await expect(CustomerGroupService.assertProductsVisible(['prod-1'], ['grp-c'])).rejects.toThrow('Product is not available');
+      await expect(CustomerGroupService.assertProductsVisible(['prod-1'], [])).rejects.toThrow('Product is not available');
+    });
+  });
+
+  describe('admin', () => {
+    it('derives the code from the name and normalizes email domains', async () => {
+      prisma.customerGroup.create.mockImplementation(({ data }: any) => groupRow(data));
+
+      const group = await CustomerGroupService.createGroup({
+        name: 'Wholesale Partners',
+        emailDomains: ['@Shop.Example', 'shop.example', ' '],
+        minOrderCount: 2,
+      });
+
+      expect(prisma.customerGroup.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          name: 'Wholesale Partners',
+          code: 'wholesale-partners',
+          description: null,
+          minOrderCount: 2,
+          emailDomains: ['shop.example'],
+        },
+      }));
+      expect(group).toMatchObject({ code: 'wholesale-partners', memberCount: 0, createdAt: now.toISOString() });
+      expect(cache.clearByPrefix).toHaveBeenCalledWith('customer_groups:user:');
+    });
+
+    it('does not delete groups that discount codes are restricted to', async () => {
+      prisma.customerGroup.findUnique.mockResolvedValue(groupRow());
+      prisma.discountCustomerGroup.count.mockResolvedValue(2);
+
+      await expect(CustomerGroupService.deleteGroup('grp-vip')).rejects.toThrow('Customer group is used by 2 discount code(s)');
+      expect(prisma.discountCustomerGroup.count).toHaveBeenCalledWith({ where: { customerGroup: 'vip' } });
+      expect(prisma.customerGroup.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DiscountService.validateDiscount', () => {
+    beforeEach(() => {
+      prisma.discount.findUnique.mockResolvedValue({
+        id: 'disc-1',
+        code: 'VIP10',
+        type: 'PERCENTAGE',
+        value: 10,
+        isActive: true,
+        startDate: null,
+        endDate: null,
+        maxUses: null,
+        usedCount: 0,
+        minAmount: null,
+        stackable: false,
+        description: null,
+        createdAt: now,
+        updatedAt: now,
+        products: [],
+        customerGroups: [{ id: 'dcg-1', discountId: 'disc-1', customerGroup: 'vip' }],
+      });
+    });
+
+    it('accepts members of a listed group', async () => {
+      cache.get.mockResolvedValue([{ groupId: 'grp-vip', name: 'VIP', code: 'vip', source: 'RULE' }]);
+
+      const result = await DiscountService.validateDiscount({ code: 'vip10', userId: 'user-1' });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('rejects other customers and guests', async () => {
+      cache.get.mockResolvedValue([{ groupId: 'grp-press', name: 'Press', code: 'press', source: 'MANUAL' }]);
+
+      const customer = await DiscountService.validateDiscount({ code: 'vip10', userId: 'user-1' });
+      const guest = await DiscountService.validateDiscount({ code: 'vip10' });
+
+      expect(customer.errors).toEqual(['Discount code is not available for your customer group']);
+      expect(guest.errors).toEqual(['Discount code is not available for your customer group']);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Domain Event Catalog Unit Tests
+ *
+ * Coverage:
+ * - OutboxService.emit: versioned envelope written to the outbox
+ * - recordOrderStatusHistory: shipped/delivered/cancelled/refunded transitions emit
+ *   order events, other statuses and no-op transitions do not
+ * - InventoryService.adjustInventory: inventory.adjusted always, inventory.low_stock
+ *   only when the threshold is crossed, wishlist.back_in_stock when a sold-out
+ *   variant is restocked
+ * - AdminProductService.deleteProducts: one product.deleted per deleted product
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const tx = {
+    warehouseInventory: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    wishlistItem: { findMany: vi.fn(), updateMany: vi.fn() },
+    inventoryAdjustment: { create: vi.fn() },
+    product: { findMany: vi.fn(), deleteMany: vi.fn() },
+    outboxEvent: { create: vi.fn() },
+  };
+  return {
+    tx,
+    prisma: {
+      warehouse: { findUnique: vi.fn() },
+      productVariant: { findUnique: vi.fn() },
+      outboxEvent: tx.outboxEvent,
+      $transaction: vi.fn(async (fn: (client: unknown) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(true),
+    incr: vi.fn().mockResolvedValue(1),
+    incrementProductVersion: vi.fn(),
+    deleteProduct: vi.fn(),
+  },
+}));
+
+import { OutboxService } from '@/infra/outbox';
+import { recordOrderStatusHistory } from '@/core/order/status-history';
+import { InventoryService } from '@/core/inventory/service';
+import { AdminProductService } from '@/core/admin/product-management/service';
+
+const emitted = () => mocks.tx.outboxEvent.create.mock.calls.map(([args]) => args.data);
+
+describe('domain events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.tx.outboxEvent.create.mockResolvedValue({});
+  });
+
+  it('writes a versioned envelope to the outbox', async () => {
+    await OutboxService.emit(mocks.tx, 'product.deleted', 'prod-1', { id: 'prod-1' }, { actorId: 'admin-1' });
+
+    const [row] = emitted();
+    expect(row).toMatchObject({ type: 'product.deleted', aggregateId: 'prod-1', version: 'v1', actorId: 'admin-1', published: false });
+    expect(row.payload).toMatchObject({
+      id: row.id,
+      type: 'product.deleted',
+      version: 'v1',
+      data: { id: 'prod-1' },
+      metadata: { actorId: 'admin-1' },
+    });
+  });
+
+  describe('order status transitions', () => {
+    const history = { orderStatusHistory: { create: vi.fn() }, outboxEvent: mocks.tx.outboxEvent };
+
+    it.each([
+      ['SHIPPED', 'order.shipped'],
+      ['DELIVERED', 'order.delivered'],
+      ['CANCELLED', 'order.cancelled'],
+      ['REFUNDED', 'order.refunded'],
+    ] as const)('emits %s as %s', async (toStatus, type) => {
+      await recordOrderStatusHistory(history, {
+        orderId: 'order-1',
+        fromStatus: 'PAID',
+        toStatus,
+        reason: 'admin_update_status',
+        actorType: 'admin',
+        actorId: 'admin-1',
+        metadata: { carrier: 'UPS' },
+      });
+
+      expect(emitted()).toEqual([expect.objectContaining({ type, aggregateId: 'order-1' })]);
+      expect(emitted()[0].payload.data).toEqual({
+        id: 'order-1',
+        fromStatus: 'PAID',
+        toStatus,
+        fromPaymentStatus: null,
+        toPaymentStatus: null,
+        reason: 'admin_update_status',
+        actorType: 'admin',
+        actorId: 'admin-1',
+        metadata: { carrier: 'UPS' },
+      });
+    });
+
+    it('stays quiet for other statuses and repeated statuses', async () => {
+      await recordOrderStatusHistory(history, { orderId: 'order-1', fromStatus: 'PENDING', toStatus: 'PAID' });
+      await recordOrderStatusHistory(history, { orderId: 'order-1', fromStatus: 'SHIPPED', toStatus: 'SHIPPED' });
+
+      expect(history.orderStatusHistory.create).toHaveBeenCalledTimes(2);
+      expect(mocks.tx.outboxEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inventory adjustments', () => {
+    beforeEach(() => {
+      mocks.prisma.warehouse.findUnique.mockResolvedValue({ id: 'wh-1' });
+      mocks.prisma.productVariant.findUnique.mockResolvedValue({ id: 'var-1' });
+      mocks.tx.inventoryAdjustment.create.mockResolvedValue({ id: 'adj-1' });
+    });
+
+    const adjust = (quantity: number) => InventoryService.adjustInventory({
+      warehouseId: 'wh-1',
+      variantId: 'var-1',
+      type: 'DAMAGE' as never,
+      quantity,
+      reason: 'Broken in storage',
+      userId: 'admin-1',
+    });
+
+    it('emits inventory.adjusted and inventory.low_stock when stock falls past the threshold', async () => {
+      mocks.tx.warehouseInventory.findUnique.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 12, reserved: 0, available: 12, lowStock: 10 });
+      mocks.tx.warehouseInventory.update.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 8, reserved: 0, available: 8, lowStock: 10 });
+
+      await adjust(-4);
+
+      expect(emitted().map((row) => row.type)).toEqual(['inventory.adjusted', 'inventory.low_stock']);
+      expect(emitted()[0].payload.data).toMatchObject({ id: 'adj-1', quantity: -4, previousQuantity: 12, newQuantity: 8, available: 8 });
+      expect(emitted()[1].payload.data).toEqual({ variantId: 'var-1', warehouseId: 'wh-1', available: 8, threshold: 10 });
+    });
+
+    it('does not repeat inventory.low_stock while stock is already low', async () => {
+      mocks.tx.warehouseInventory.findUnique.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 8, reserved: 0, available: 8, lowStock: 10 });
+      mocks.tx.warehouseInventory.update.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 6, reserved: 0, available: 6, lowStock: 10 });
+
+      await adjust(-2);
+
+      expect(emitted().map((row) => row.type)).toEqual(['inventory.adjusted']);
+    });
+
+    it('queues wishlist.back_in_stock once when a sold-out variant is restocked', async () => {
+      mocks.tx.warehouseInventory.findUnique.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 0, reserved: 0, available: 0, lowStock: 10 });
+      mocks.tx.warehouseInventory.update.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 20, reserved: 0, available: 20, lowStock: 10 });
+      mocks.tx.warehouseInventory.aggregate.mockResolvedValue({ _sum: { available: null } });
+      mocks.tx.wishlistItem.findMany.mockResolvedValue([
+        { id: 'wli-1', wishlistId: 'wl-1', productId: 'prod-1', variantId: 'var-1', wishlist: { userId: 'user-1' } },
+      ]);
+
+      await adjust(20);
+
+      expect(emitted().map((row) => row.type)).toEqual(['inventory.adjusted', 'wishlist.back_in_stock']);
+      expect(emitted()[1].payload.data).toEqual({
+        wishlistItemId: 'wli-1',
+        wishlistId: 'wl-1',
+        userId: 'user-1',
+        productId: 'prod-1',
+        variantId: 'var-1',
+      });
+      expect(mocks.tx.wishlistItem.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { variantId: 'var-1', notifyBackInStock: true, backInStockNotifiedAt: null },
+      }));
+      expect(mocks.tx.wishlistItem.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['wli-1'] } },
+        data: { backInStockNotifiedAt: expect.any(Date) },
+      });
+    });
+
+    it('does not alert wishlists while another warehouse still has stock', async () => {
+      mocks.tx.warehouseInventory.findUnique.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 0, reserved: 0, available: 0, lowStock: 10 });
+      mocks.tx.warehouseInventory.update.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-1', variantId: 'var-1', quantity: 20, reserved: 0, available: 20, lowStock: 10 });
+      mocks.tx.warehouseInventory.aggregate.mockResolvedValue({ _sum: { available: 3 } });
+
+      await adjust(20);
+
+      expect(emitted().map((row) => row.type)).toEqual(['inventory.adjusted']);
+      expect(mocks.tx.wishlistItem.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('emits product.deleted for each product that existed', async () => {
+    mocks.tx.product.findMany.mockResolvedValue([{ id: 'prod-1' }, { id: 'prod-2' }]);
+    mocks.tx.product.deleteMany.mockResolvedValue({ count: 2 });
+
+    await AdminProductService.deleteProducts(['prod-1', 'prod-2', 'missing']);
+
+    expect(emitted().map((row) => [row.type, row.aggregateId])).toEqual([
+      ['product.deleted', 'prod-1'],
+      ['product.deleted', 'prod-2'],
+    ]);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Email Notification Unit Tests
+ *
+ * Coverage:
+ * - renderTemplateString: escaping, conditional and list sections
+ * - validateTemplate: unknown variables and unbalanced sections
+ * - EmailNotificationService.handleEvent: order emails in the customer's locale,
+ *   outbox redelivery does not resend, wishlist alerts skip removed items
+ * - send log: failures are scheduled for retry, single-use link emails are not,
+ *   retryDue claims and resends due entries
+ * - admin edits: saved templates are validated, previews use sample data
+ * - SmtpTransport: delivery to an SMTP server, no AUTH without TLS
+ */
+
+import net from 'net';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const mocks = vi.hoisted(() => ({
+  prisma: {
+    order: { findUnique: vi.fn() },
+    user: { findUnique: vi.fn() },
+    wishlistItem: { findUnique: vi.fn() },
+    emailTemplate: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    emailLog: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+  send: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/core/admin/system-settings/service', () => ({
+  systemSettingsService: {
+    getSetting: vi.fn().mockResolvedValue('Test Store'),
+    getShopLocale: vi.fn().mockResolvedValue('en-US'),
+    getShopCurrency: vi.fn().mockResolvedValue('USD'),
+  },
+}));
+
+import { EmailNotificationService } from '@/core/email/service';
+import { renderTemplateString, validateTemplate } from '@/core/email/templates';
+import { setEmailTransport } from '@/core/email/transport';
+import { SmtpTransport } from '@/core/email/smtp-transport';
+
+const paidOrder = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order-1',
+  userId: 'user-1',
+  customerEmail: null,
+  totalAmount: 30,
+  currency: 'USD',
+  user: { email: 'jane@example.com', username: 'jane', locale: null },
+  items: [{ quantity: 2, unitPrice: 15, shippingFirstName: 'Jane', product: { name: 'Canvas <Tote>' } }],
+  ...overrides,
+});
+
+const shippedEvent = {
+  id: 'evt-1',
+  type: 'order.shipped',
+  payload: {
+    data: { id: 'order-1', toStatus: 'SHIPPED', metadata: { carrier: 'UPS', trackingNumber: '1Z999' } },
+  },
+};
+
+const sentMessage = () => mocks.send.mock.calls[0][0];
+
+describe('email templates', () => {
+  it('escapes variables in HTML and renders sections', () => {
+    const source = '{{#items}}<li>{{productName}} × {{quantity}}</li>{{/items}}{{^orderUrl}}<p>no link</p>{{/orderUrl}}';
+    const html = renderTemplateString(source, {
+      items: [{ productName: 'Mug & <Cup>', quantity: 1 }, { productName: 'Tote', quantity: 2 }],
+      orderUrl: '',
+    }, { html: true });
+
+    expect(html).toBe('<li>Mug &amp; &lt;Cup&gt; × 1</li><li>Tote × 2</li><p>no link</p>');
+    expect(renderTemplateString('Hi {{customerName}}', { customerName: 'A & B' }, { html: false })).toBe('Hi A & B');
+  });
+
+  it('reports unknown variables and unbalanced sections', () => {
+    expect(validateTemplate('order_shipped', {
+      subject: 'Order {{orderNumber}}',
+      html: '{{#trackingNumber}}{{trackingNumber}}',
+      text: '{{password}}',
+    })).toEqual([
+      'html: {{#trackingNumber}} is never closed',
+      'text: unknown variable "password"',
+    ]);
+  });
+});
+
+describe('EmailNotificationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setEmailTransport({ name: 'test', send: mocks.send });
+    mocks.send.mockResolvedValue({ success: true, messageId: 'msg-1' });
+    mocks.prisma.emailTemplate.findUnique.mockResolvedValue(null);
+    mocks.prisma.emailLog.create.mockImplementation(async ({ data }) => ({ id: 'log-1', attempts: 0, ...data }));
+    mocks.prisma.order.findUnique.mockResolvedValue(paidOrder());
+  });
+
+  it('sends the shipped email with tracking details and records it', async () => {
+    await EmailNotificationService.handleEvent(shippedEvent);
+
+    expect(sentMessage()).toMatchObject({ to: 'jane@example.com', fromName: 'Test Store', subject: 'Order order-1 has shipped' });
+    expect(sentMessage().text).toContain('Tracking number: 1Z999');
+    expect(mocks.prisma.emailLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ templateKey: 'order_shipped', locale: 'en', sourceEventId: 'evt-1', status: 'PENDING' }),
+    });
+    expect(mocks.prisma.emailLog.update).toHaveBeenCalledWith({
+      where: { id: 'log-1' },
+      data: expect.objectContaining({ status: 'SENT', transport: 'test', providerMessageId: 'msg-1', attempts: 1 }),
+    });
+  });
+
+  it('writes in the customer locale when their account has one', async () => {
+    mocks.prisma.order.findUnique.mockResolvedValue(paidOrder({
+      user: { email: 'jane@example.com', username: 'jane', locale: 'zh-Hant' },
+    }));
+
+    await EmailNotificationService.handleEvent({ ...shippedEvent, type: 'order.paid', payload: { data: { orderId: 'order-1' } } });
+
+    expect(sentMessage().subject).toBe('訂單 order-1 已確認');
+    expect(sentMessage().html).toContain('Canvas &lt;Tote&gt; × 2');
+  });
+
+  it('skips an event whose email was already logged', async () => {
+    mocks.prisma.emailLog.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+
+    await EmailNotificationService.handleEvent(shippedEvent);
+
+    expect(mocks.send).not.toHaveBeenCalled();
+  });
+
+  it('sends the price drop email for a wishlisted item', async () => {
+    mocks.prisma.wishlistItem.findUnique.mockResolvedValue({
+      notifyBackInStock: false,
+      notifyPriceDrop: true,
+      product: { id: 'prod-1', name: 'Canvas Tote' },
+      variant: { name: 'Natural', salePrice: 15 },
+      wishlist: { user: { email: 'jane@example.com', username: 'jane', locale: null } },
+    });
+    const priceDrop = {
+      id: 'evt-3',
+      type: 'wishlist.price_drop',
+      payload: { data: { wishlistItemId: 'wli-1', variantId: 'var-1', previousPrice: 20, price: 15 } },
+    };
+
+    await EmailNotificationService.handleEvent(priceDrop);
+
+    expect(sentMessage()).toMatchObject({ to: 'jane@example.com', subject: 'Price drop: Canvas Tote is now $15.00' });
+    expect(sentMessage().text).toContain('dropped from $20.00 to $15.00');
+
+    mocks.send.mockClear();
+    mocks.prisma.wishlistItem.findUnique.mockResolvedValue(null);
+    await EmailNotificationService.handleEvent({ ...priceDrop, id: 'evt-4' });
+
+    expect(mocks.send).not.toHaveBeenCalled();
+  });
+
+  it('ignores events without a customer email', async () => {
+    await EmailNotificationService.handleEvent({ id: 'evt-2', type: 'product.updated', payload: { data: { id: 'prod-1' } } });
+
+    expect(mocks.prisma.emailLog.create).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry when the transport fails', async () => {
+    mocks.send.mockResolvedValue({ success: false, error: 'connection refused' });
+
+    await EmailNotificationService.handleEvent(shippedEvent);
+
+    const data = mocks.prisma.emailLog.update.mock.calls[0][0].data;
+    expect(data).toMatchObject({ status: 'FAILED', attempts: 1, lastError: 'connection refused' });
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('does not store or retry emails carrying single-use links', async () => {
+    mocks.send.mockResolvedValue({ success: false, error: 'connection refused' });
+
+    await EmailNotificationService.send({
+      templateKey: 'password_reset',
+      to: 'jane@example.com',
+      locale: 'en',
+      variables: { customerName: 'jane', actionUrl: 'https://shop.test/reset?token=secret', expiresInMinutes: 60 },
+    });
+
+    expect(sentMessage().text).toContain('token=secret');
+    expect(mocks.prisma.emailLog.create.mock.calls[0][0].data.variables).toEqual({});
+    expect(mocks.prisma.emailLog.update.mock.calls[0][0].data).toMatchObject({ status: 'FAILED', nextAttemptAt: null });
+  });
+
+  it('claims due failures before resending them', async () => {
+    const due = {
+      id: 'log-2',
+      templateKey: 'welcome',
+      locale: 'en',
+      recipient: 'jane@example.com',
+      subject: 'Welcome to Test Store',
+      variables: { storeName: 'Test Store', customerName: 'jane' },
+      status: 'FAILED',
+      attempts: 1,
+      nextAttemptAt: new Date(Date.now() - 1000),
+    };
+    mocks.prisma.emailLog.findMany.mockResolvedValue([due, { ...due, id: 'log-3' }]);
+    mocks.prisma.emailLog.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(EmailNotificationService.retryDue()).resolves.toBe(1);
+
+    expect(mocks.send).toHaveBeenCalledTimes(1);
+    expect(sentMessage()).toMatchObject({ to: 'jane@example.com', subject: 'Welcome to Test Store' });
+    expect(mocks.prisma.emailLog.update).toHaveBeenCalledWith({
+      where: { id: 'log-2' },
+      data: expect.objectContaining({ status: 'SENT', attempts: 2 }),
+    });
+  });
+
+  describe('admin templates', () => {
+    it('rejects edits that use variables the email does not provide', async () => {
+      await expect(
+        EmailNotificationService.updateTemplate('welcome', 'en', { subject: 'Hi {{orderNumber}}' })
+      ).rejects.toThrow('Invalid email template: subject: unknown variable "orderNumber"');
+      expect(mocks.prisma.emailTemplate.upsert).not.toHaveBeenCalled();
+    });
+
+    it('previews unsaved content with sample data', async () => {
+      const preview = await EmailNotificationService.previewTemplate('order_shipped', 'en', {
+        subject: 'Shipped via {{carrier}}',
+      });
+
+      expect(preview.subject).toBe('Shipped via UPS');
+      expect(preview.html).toContain('Test Store');
+      expect(preview.problems).toEqual([]);
+    });
+
+    it('rejects unsupported locales', async () => {
+      await expect(EmailNotificationService.getTemplate('welcome', 'fr')).rejects.toThrow('Unsupported locale: fr');
+    });
+  });
+});
+
+describe('SmtpTransport', () => {
+  type FakeSmtpServer = { port: number; commands: string[]; data: string[]; close: () => Promise<void> };
+
+  /** Plain-text SMTP server that offers AUTH but not STARTTLS */
+  const startSmtpServer = async (): Promise<FakeSmtpServer> => {
+    const commands: string[] = [];
+    const data: string[] = [];
+    const server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 fake ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          data.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued as fake-1\r\n');
+        }
+        let newline = buffer.indexOf('\r\n');
+        while (!inData && newline !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+          commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (verb === 'EHLO') socket.write('250-fake\r\n250 AUTH PLAIN LOGIN\r\n');
+          else if (verb === 'AUTH') socket.write('235 ok\r\n');
+          else if (verb === 'STARTTLS') socket.write('502 command not implemented\r\n');
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+          newline = buffer.indexOf('\r\n');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return {
+      port: (server.address() as net.AddressInfo).port,
+      commands,
+      data,
+      close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+  };
+
+  const message = {
+    to: 'jane@example.com',
+    from: 'shop@example.com',
+    fromName: 'Test Store',
+    subject: '訂單已出貨',
+    html: '<p>hi</p>',
+    text: 'hi',
+  };
+
+  it('delivers the message and encodes non-ASCII subjects', async () => {
+    const server = await startSmtpServer();
+    try {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 });
+
+      const result = await transport.send(message);
+
+      expect(result.success).toBe(true);
+      expect(server.commands).toContain('MAIL FROM:<shop@example.com>');
+      expect(server.commands).toContain('RCPT TO:<jane@example.com>');
+      expect(server.data[0]).toMatch(/^From: "?Test Store"? <shop@example\.com>$/m);
+      expect(server.data[0]).toMatch(/^Subject: =\?UTF-8\?[BQ]\?/m);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('refuses to send credentials over a connection without TLS', async () => {
+    const server = await startSmtpServer();
+    try {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        user: 'shop',
+        password: 'secret',
+        timeoutMs: 5000,
+      });
+
+      const result = await transport.send(message);
+
+      expect(result.success).toBe(false);
+      expect(server.commands.some((line) => line.toUpperCase().startsWith('AUTH'))).toBe(false);
+      expect(server.data).toHaveLength(0);
+    } finally {
+      await server.close();
+    }
+  });
+});
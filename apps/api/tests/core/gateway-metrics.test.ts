@@ -49,6 +49,15 @@ describe('Gateway Metrics (Task 2.6.2)', () => {
     expect(prom).toContain('plugin_gateway_breaker_state');
   });
 
+  it('exports isolated plugin process gauges', () => {
+    gatewayMetrics.recordRuntimeState('plugin-g', 'inst-1', { up: true, restarts: 2, rssBytes: 52428800 });
+
+    const prom = gatewayMetrics.toPrometheus();
+    expect(prom).toContain('plugin_runtime_up{slug="plugin-g",installation="inst-1"} 1');
+    expect(prom).toContain('plugin_runtime_restarts_total{slug="plugin-g",installation="inst-1"} 2');
+    expect(prom).toContain('plugin_runtime_memory_bytes{slug="plugin-g",installation="inst-1"} 52428800');
+  });
+
   it('reset clears all metrics', () => {
     gatewayMetrics.recordRequest('plugin-e', 200, 50);
     gatewayMetrics.recordBreakerState('plugin-e', 'open');
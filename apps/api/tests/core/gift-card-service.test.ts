@@ -0,0 +1,338 @@
+/**
+ * Gift Card & Store Credit Unit Tests
+ *
+ * Coverage:
+ * - codes: normalization, display grouping and masking
+ * - GiftCardService.lookupBalance: masked code, expired cards reported inactive
+ * - GiftCardService.issueForOrder: one card per unit, codes on the order line,
+ *   gift_card.issued event, lines with cards skipped
+ * - GiftCardService.voidForOrder: refunded units void the fullest cards of their line
+ * - TenderService.apply: partial cover leaves an amount due, gift cards plus store
+ *   credit covering the total pay the order, guests cannot use store credit,
+ *   open provider sessions block changes, checked under the order lock
+ * - TenderService.releaseForOrder: balances go back to the card and store credit
+ * - StoreCreditService.debit: rejects balances that are too low
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const prisma: any = {
+    order: { findFirst: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+    orderItem: { findMany: vi.fn(), update: vi.fn() },
+    payment: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    paymentLedger: { create: vi.fn() },
+    giftCard: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    giftCardTransaction: { create: vi.fn() },
+    storeCreditAccount: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), create: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    storeCreditTransaction: { create: vi.fn() },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma));
+  prisma.$queryRaw = vi.fn();
+  return {
+    prisma,
+    emit: vi.fn(),
+    emitOrderPaidEvent: vi.fn(),
+    recordOrderStatusHistory: vi.fn(),
+    processPaidOrder: vi.fn().mockResolvedValue(undefined),
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/infra/outbox', () => ({
+  OutboxService: { emit: mocks.emit },
+}));
+
+vi.mock('@/core/payment/order-paid-event', () => ({
+  emitOrderPaidEvent: mocks.emitOrderPaidEvent,
+}));
+
+vi.mock('@/core/order/status-history', () => ({
+  recordOrderStatusHistory: mocks.recordOrderStatusHistory,
+}));
+
+vi.mock('@/core/external-orders/service', () => ({
+  ExternalOrderService: { processPaidOrder: mocks.processPaidOrder },
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: { incrementOrderVersion: vi.fn() },
+}));
+
+vi.mock('@/core/admin/system-settings/service', () => ({
+  systemSettingsService: { getShopCurrency: vi.fn().mockResolvedValue('USD') },
+}));
+
+import {
+  GiftCardService,
+  formatGiftCardCode,
+  maskGiftCardCode,
+  normalizeGiftCardCode,
+} from '@/core/gift-cards/service';
+import { StoreCreditService } from '@/core/gift-cards/store-credit';
+import { TenderService } from '@/core/gift-cards/tenders';
+import { hashGuestAccessToken } from '@/core/order/guest-access';
+
+const { prisma } = mocks;
+const customer = { userId: 'user-1' };
+
+function pendingOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'order-1',
+    userId: 'user-1',
+    status: 'PENDING',
+    paymentStatus: 'PENDING',
+    totalAmount: 50,
+    currency: 'USD',
+    paymentAttempts: 0,
+    guestAccessTokenHash: null,
+    ...overrides,
+  };
+}
+
+function giftCard(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'gc-1',
+    code: 'ABCDEFGHJKLMNPQR',
+    balance: 30,
+    currency: 'USD',
+    isActive: true,
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+describe('gift card codes', () => {
+  it('normalizes, groups and masks codes', () => {
+    expect(normalizeGiftCardCode(' abcd-efgh jklm-npqr ')).toBe('ABCDEFGHJKLMNPQR');
+    expect(formatGiftCardCode('ABCDEFGHJKLMNPQR')).toBe('ABCD-EFGH-JKLM-NPQR');
+    expect(maskGiftCardCode('ABCDEFGHJKLMNPQR')).toBe('****-NPQR');
+  });
+});
+
+describe('GiftCardService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('looks up balances by code with the code masked', async () => {
+    prisma.giftCard.findUnique.mockResolvedValue(giftCard({ expiresAt: new Date('2020-01-01T00:00:00.000Z') }));
+
+    await expect(GiftCardService.lookupBalance('abcd-efgh-jklm-npqr')).resolves.toEqual({
+      code: '****-NPQR',
+      balance: 30,
+      currency: 'USD',
+      isActive: false,
+      expiresAt: '2020-01-01T00:00:00.000Z',
+    });
+    expect(prisma.giftCard.findUnique).toHaveBeenCalledWith({ where: { code: 'ABCDEFGHJKLMNPQR' } });
+  });
+
+  it('issues one card per unit bought and puts the codes on the order line', async () => {
+    prisma.orderItem.findMany.mockResolvedValue([
+      { id: 'item-1', quantity: 2, unitPrice: 25, fulfillmentData: null, order: { currency: 'USD' }, giftCards: [] },
+      { id: 'item-2', quantity: 1, unitPrice: 50, fulfillmentData: null, order: { currency: 'USD' }, giftCards: [{ id: 'gc-old' }] },
+    ]);
+    prisma.giftCard.findUnique.mockResolvedValue(null);
+    prisma.giftCard.create
+      .mockResolvedValueOnce({ id: 'gc-1', code: 'AAAABBBBCCCCDDDD', currency: 'USD' })
+      .mockResolvedValueOnce({ id: 'gc-2', code: 'EEEEFFFFGGGGHHHH', currency: 'USD' });
+
+    await expect(GiftCardService.issueForOrder(prisma, 'order-1')).resolves.toEqual(['gc-1', 'gc-2']);
+
+    expect(prisma.giftCard.create).toHaveBeenCalledTimes(2);
+    expect(prisma.giftCardTransaction.create).toHaveBeenCalledWith({
+      data: { giftCardId: 'gc-1', type: 'ISSUE', amount: 25, balanceAfter: 25, orderId: 'order-1' },
+    });
+    expect(prisma.orderItem.update).toHaveBeenCalledTimes(1);
+    expect(prisma.orderItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: {
+        fulfillmentStatus: 'delivered',
+        fulfillmentData: { cardUid: 'AAAA-BBBB-CCCC-DDDD, EEEE-FFFF-GGGG-HHHH', giftCardIds: ['gc-1', 'gc-2'] },
+      },
+    });
+    expect(mocks.emit).toHaveBeenCalledWith(prisma, 'gift_card.issued', 'order-1', {
+      orderId: 'order-1',
+      giftCards: [
+        { id: 'gc-1', orderItemId: 'item-1', amount: 25, currency: 'USD' },
+        { id: 'gc-2', orderItemId: 'item-1', amount: 25, currency: 'USD' },
+      ],
+    });
+  });
+
+  it('voids the cards of refunded units, fullest first, and writes off their balance', async () => {
+    prisma.giftCard.findMany.mockResolvedValue([
+      giftCard({ id: 'gc-1', orderItemId: 'item-1', balance: 25 }),
+      giftCard({ id: 'gc-2', orderItemId: 'item-1', balance: 10 }),
+    ]);
+    prisma.giftCard.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(GiftCardService.voidForOrder(prisma, 'order-1', [{ orderItemId: 'item-1', quantity: 1 }]))
+      .resolves.toEqual(['gc-1']);
+
+    expect(prisma.giftCard.findMany).toHaveBeenCalledWith({
+      where: { isActive: true, orderItem: { orderId: 'order-1' }, orderItemId: { in: ['item-1'] } },
+      orderBy: { balance: 'desc' },
+    });
+    expect(prisma.giftCard.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.giftCard.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gc-1', isActive: true },
+      data: { isActive: false, balance: 0 },
+    });
+    expect(prisma.giftCardTransaction.create).toHaveBeenCalledWith({
+      data: { giftCardId: 'gc-1', type: 'ADJUST', amount: -25, balanceAfter: 0, orderId: 'order-1', note: 'order_refunded' },
+    });
+  });
+});
+
+describe('TenderService', () => {
+  let created: Array<Record<string, any>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    created = [];
+    prisma.order.findFirst.mockResolvedValue(pendingOrder());
+    prisma.order.findUniqueOrThrow.mockResolvedValue({ status: 'PENDING', paymentStatus: 'PENDING' });
+    prisma.order.update.mockImplementation(async ({ data }: any) => ({ ...pendingOrder(), ...data }));
+    prisma.payment.count.mockResolvedValue(0);
+    prisma.payment.findFirst.mockResolvedValue(null);
+    prisma.payment.create.mockImplementation(async ({ data }: any) => {
+      const payment = { id: `pay-${created.length + 1}`, ...data };
+      created.push(payment);
+      return payment;
+    });
+    prisma.payment.updateMany.mockResolvedValue({ count: 1 });
+    prisma.payment.findMany.mockImplementation(async () => created.map((payment) => ({ ...payment, order: { userId: 'user-1' } })));
+    prisma.giftCard.findUnique.mockResolvedValue(giftCard());
+    prisma.giftCard.updateMany.mockResolvedValue({ count: 1 });
+    prisma.giftCard.findUniqueOrThrow.mockResolvedValue(giftCard({ balance: 0 }));
+    prisma.orderItem.findMany.mockResolvedValue([]);
+  });
+
+  it('holds a gift card against part of the order and leaves the rest due', async () => {
+    const result = await TenderService.apply('order-1', customer, { giftCardCodes: ['abcd-efgh-jklm-npqr'] });
+
+    expect(prisma.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentMethod: 'gift_card',
+        amount: 30,
+        status: 'PENDING',
+        attemptNumber: 1,
+        idempotencyKey: 'tender:order-1:attempt:1:gift_card',
+        metadata: { giftCardId: 'gc-1', label: '****-NPQR' },
+      }),
+    });
+    expect(prisma.giftCard.updateMany).toHaveBeenCalledWith({
+      where: { id: 'gc-1', balance: { gte: 30 } },
+      data: { balance: { decrement: 30 } },
+    });
+    expect(result).toMatchObject({ totalAmount: 50, appliedAmount: 30, amountDue: 20, paid: false });
+    expect(mocks.emitOrderPaidEvent).not.toHaveBeenCalled();
+  });
+
+  it('pays the order when gift cards and store credit cover the total', async () => {
+    prisma.storeCreditAccount.findUnique.mockResolvedValue({ userId: 'user-1', balance: 40, currency: 'USD' });
+    prisma.storeCreditAccount.updateMany.mockResolvedValue({ count: 1 });
+    prisma.storeCreditAccount.findUniqueOrThrow.mockResolvedValue({ userId: 'user-1', balance: 20, currency: 'USD' });
+
+    await TenderService.apply('order-1', customer, { giftCardCodes: ['ABCDEFGHJKLMNPQR'], useStoreCredit: true });
+
+    expect(prisma.payment.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ paymentMethod: 'store_credit', amount: 20, attemptNumber: 2 }),
+    });
+    expect(prisma.storeCreditTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', type: 'REDEEM', amount: -20, balanceAfter: 20, paymentId: 'pay-2' }),
+    });
+    expect(prisma.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'pay-1', status: 'PENDING' },
+      data: { status: 'SUCCEEDED', providerEventId: 'tender:pay-1:captured' },
+    });
+    expect(prisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { paymentStatus: 'PAID', status: 'PROCESSING' },
+    });
+    expect(mocks.emitOrderPaidEvent).toHaveBeenCalledWith(prisma, 'order-1', expect.objectContaining({
+      paymentId: 'pay-1',
+      paymentMethod: 'gift_card',
+    }));
+    expect(mocks.processPaidOrder).toHaveBeenCalledWith('order-1');
+  });
+
+  it('asks guests to sign in before using store credit', async () => {
+    prisma.order.findFirst.mockResolvedValue(pendingOrder({ userId: null, guestAccessTokenHash: hashGuestAccessToken('token-1') }));
+
+    await expect(TenderService.apply('order-1', { userId: null, guestToken: 'token-1' }, { useStoreCredit: true }))
+      .rejects.toThrow('Sign in to use store credit');
+    await expect(TenderService.apply('order-1', { userId: null, guestToken: 'wrong' }, { giftCardCodes: ['ABCDEFGHJKLMNPQR'] }))
+      .rejects.toThrow('Order not found');
+  });
+
+  it('refuses changes once a provider payment session is open', async () => {
+    prisma.payment.count.mockResolvedValue(1);
+
+    await expect(TenderService.apply('order-1', customer, { giftCardCodes: ['ABCDEFGHJKLMNPQR'] }))
+      .rejects.toThrow('Payment has already started for this order');
+    expect(prisma.payment.create).not.toHaveBeenCalled();
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(prisma.$queryRaw.mock.invocationCallOrder[0])
+      .toBeLessThan(prisma.payment.count.mock.invocationCallOrder[0]);
+  });
+
+  it('gives held balances back when the order is released', async () => {
+    prisma.payment.findMany.mockResolvedValue([
+      { id: 'pay-1', paymentMethod: 'gift_card', amount: 30, currency: 'USD', metadata: { giftCardId: 'gc-1' }, order: { userId: 'user-1' } },
+      { id: 'pay-2', paymentMethod: 'store_credit', amount: 20, currency: 'USD', metadata: {}, order: { userId: 'user-1' } },
+    ]);
+    prisma.giftCard.update.mockResolvedValue(giftCard());
+    prisma.storeCreditAccount.findUnique.mockResolvedValue({ userId: 'user-1', balance: 0, currency: 'USD' });
+    prisma.storeCreditAccount.update.mockResolvedValue({ userId: 'user-1', balance: 20, currency: 'USD' });
+
+    await expect(TenderService.releaseForOrder(prisma, 'order-1', 'cancelled')).resolves.toBe(2);
+
+    expect(prisma.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'pay-1', status: 'PENDING' },
+      data: { status: 'CANCELLED', failureReason: 'cancelled' },
+    });
+    expect(prisma.giftCard.update).toHaveBeenCalledWith({
+      where: { id: 'gc-1' },
+      data: { balance: { increment: 30 } },
+    });
+    expect(prisma.storeCreditTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'RELEASE', amount: 20, balanceAfter: 20, orderId: 'order-1' }),
+    });
+    expect(prisma.paymentLedger.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ paymentId: 'pay-2', eventType: 'FAILED', metadata: { reason: 'cancelled' } }),
+    });
+  });
+});
+
+describe('StoreCreditService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('rejects debits above the balance', async () => {
+    prisma.storeCreditAccount.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(StoreCreditService.debit(prisma, 'user-1', 25, { type: 'REDEEM', currency: 'USD' }))
+      .rejects.toThrow('Store credit balance is too low');
+    expect(prisma.storeCreditTransaction.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Guest Checkout Unit Tests
+ *
+ * Coverage:
+ * - cart tokens: sign/verify round trip, other JWTs and garbage rejected
+ * - cart owner keys: guest owners address carts by id, never a user cart
+ * - CartService.mergeGuestCart: re-adds items through addToCart, skips unavailable
+ *   products, deletes the guest cart, rejects invalid tokens
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  cartFindUnique: vi.fn(),
+  cartDeleteMany: vi.fn(),
+  cartItemDeleteMany: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: {
+    cart: { findUnique: mocks.cartFindUnique, deleteMany: mocks.cartDeleteMany },
+    cartItem: { deleteMany: mocks.cartItemDeleteMany },
+  },
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(true),
+    delete: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+vi.mock('@/core/inventory/service', () => ({
+  InventoryService: {
+    getAvailableStockByVariantIds: vi.fn().mockResolvedValue(new Map()),
+  },
+}));
+
+import { CartService } from '@/core/cart/service';
+import { guestCartOwner, parseGuestCartOwner, signCartToken, verifyCartToken } from '@/core/cart/guest';
+import { JwtUtils } from '@/utils/jwt';
+
+describe('cart tokens', () => {
+  it('round-trips the cart id', () => {
+    expect(verifyCartToken(signCartToken('cart-1'))).toBe('cart-1');
+  });
+
+  it('rejects access tokens and malformed input', () => {
+    const accessToken = JwtUtils.sign({ userId: 'user-1', email: 'a@example.com', role: 'USER' });
+
+    expect(verifyCartToken(accessToken)).toBeNull();
+    expect(verifyCartToken('not-a-token')).toBeNull();
+    expect(verifyCartToken(undefined)).toBeNull();
+  });
+
+  it('maps guest owner keys to cart ids', () => {
+    expect(parseGuestCartOwner(guestCartOwner('cart-1'))).toBe('cart-1');
+    expect(parseGuestCartOwner('user-1')).toBeNull();
+  });
+});
+
+describe('CartService guest carts', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('scopes guest cart writes to the anonymous cart', async () => {
+    mocks.cartFindUnique.mockResolvedValue(null);
+
+    await CartService.removeFromCart(guestCartOwner('cart-1'), 'item-1');
+
+    expect(mocks.cartItemDeleteMany).toHaveBeenCalledWith({
+      where: { id: 'item-1', cart: { id: 'cart-1', userId: null } },
+    });
+  });
+
+  it('does not create a cart for an unknown guest', async () => {
+    mocks.cartFindUnique.mockResolvedValue(null);
+
+    await expect(CartService.addToCart(guestCartOwner('gone'), 'prod-1')).rejects.toThrow('Cart not found');
+  });
+
+  it('merges guest items into the user cart and deletes the guest cart', async () => {
+    mocks.cartFindUnique.mockResolvedValue({
+      id: 'guest-cart',
+      userId: null,
+      items: [
+        { productId: 'prod-1', variantId: 'var-1', quantity: 2, fulfillmentData: null },
+        { productId: 'prod-card', variantId: 'var-card', quantity: 1, fulfillmentData: { cardUid: 'C-1' } },
+        { productId: 'prod-gone', variantId: 'var-gone', quantity: 1, fulfillmentData: null },
+      ],
+    });
+    const addToCart = vi.spyOn(CartService, 'addToCart').mockImplementation(async (_userId, productId) => {
+      if (productId === 'prod-gone') throw new Error('Product is not available');
+      return {} as never;
+    });
+    vi.spyOn(CartService, 'getCart').mockResolvedValue({ id: 'user-cart' } as never);
+
+    const cart = await CartService.mergeGuestCart('user-1', signCartToken('guest-cart'));
+
+    expect(mocks.cartFindUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'guest-cart', userId: null },
+    }));
+    expect(addToCart.mock.calls).toEqual([
+      ['user-1', 'prod-1', 2, 'var-1', undefined],
+      ['user-1', 'prod-card', 1, 'var-card', { cardUid: 'C-1' }],
+      ['user-1', 'prod-gone', 1, 'var-gone', undefined],
+    ]);
+    expect(mocks.cartDeleteMany).toHaveBeenCalledWith({ where: { id: 'guest-cart', userId: null } });
+    expect(cart).toEqual({ id: 'user-cart' });
+  });
+
+  it('rejects an invalid cart token', async () => {
+    await expect(CartService.mergeGuestCart('user-1', 'forged')).rejects.toThrow('Invalid cart token');
+    expect(mocks.cartFindUnique).not.toHaveBeenCalled();
+  });
+});
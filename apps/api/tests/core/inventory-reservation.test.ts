@@ -0,0 +1,241 @@
+/**
+ * InventoryService Reservation Unit Tests
+ *
+ * Coverage:
+ * - reserveStock: aggregates lines per variant, moves available -> reserved, records ACTIVE holds,
+ *   emits inventory.low_stock when the threshold is crossed,
+ *   throws on insufficient stock
+ * - consumeReservations: sold stock leaves quantity/reserved, lost status races are skipped
+ * - releaseReservations: held stock returns to available with the given status
+ * - restockOrder: legacy orders without holds restock items; consumed holds restock once
+ * - restockItems: partial quantities come off the consumed hold and return to its warehouse
+ * - findOrdersWithExpiredReservations: orders with an open payment session are not scanned
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+vi.mock('@/core/warehouse/service', () => ({
+  WarehouseService: {
+    getDefaultWarehouse: vi.fn().mockResolvedValue({ id: 'wh-default' }),
+  },
+}));
+
+import { prisma } from '@/config/database';
+import { InventoryService } from '@/core/inventory/service';
+
+const EXPIRES_AT = new Date('2026-10-18T13:00:00Z');
+
+function makeTx() {
+  return {
+    warehouseInventory: {
+      findUnique: vi.fn().mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-default', variantId: 'var-1', reserved: 0, available: 20, lowStock: 10 }),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      create: vi.fn().mockResolvedValue({}),
+    },
+    inventoryReservation: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    outboxEvent: {
+      create: vi.fn().mockResolvedValue({}),
+    },
+  };
+}
+
+const reservation = (overrides: Record<string, unknown> = {}) => ({
+  id: 'res-1',
+  orderId: 'order-1',
+  productId: 'prod-1',
+  variantId: 'var-1',
+  warehouseId: 'wh-1',
+  quantity: 3,
+  status: 'ACTIVE',
+  expiresAt: EXPIRES_AT,
+  ...overrides,
+});
+
+describe('InventoryService reservations', () => {
+  let tx: ReturnType<typeof makeTx>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx = makeTx();
+  });
+
+  describe('reserveStock', () => {
+    it('holds the combined quantity per variant on the default warehouse', async () => {
+      await InventoryService.reserveStock(
+        tx,
+        'order-1',
+        [
+          { productId: 'prod-1', variantId: 'var-1', quantity: 1 },
+          { productId: 'prod-1', variantId: 'var-1', quantity: 2 },
+        ],
+        EXPIRES_AT
+      );
+
+      expect(tx.warehouseInventory.updateMany).toHaveBeenCalledTimes(1);
+      expect(tx.warehouseInventory.updateMany).toHaveBeenCalledWith({
+        where: { warehouseId: 'wh-default', variantId: 'var-1', available: { gte: 3 } },
+        data: { reserved: { increment: 3 }, available: { decrement: 3 } },
+      });
+      expect(tx.inventoryReservation.create).toHaveBeenCalledWith({
+        data: {
+          orderId: 'order-1',
+          productId: 'prod-1',
+          variantId: 'var-1',
+          warehouseId: 'wh-default',
+          quantity: 3,
+          expiresAt: EXPIRES_AT,
+        },
+      });
+    });
+
+    it('emits inventory.low_stock when a hold takes available stock past the threshold', async () => {
+      tx.warehouseInventory.findUnique.mockResolvedValue({ id: 'inv-1', warehouseId: 'wh-default', variantId: 'var-1', reserved: 3, available: 9, lowStock: 10 });
+
+      await InventoryService.reserveStock(tx, 'order-1', [{ productId: 'prod-1', variantId: 'var-1', quantity: 3 }], EXPIRES_AT);
+
+      expect(tx.outboxEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'inventory.low_stock', aggregateId: 'var-1' }),
+      });
+    });
+
+    it('throws without recording a hold when stock is short', async () => {
+      tx.warehouseInventory.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        InventoryService.reserveStock(tx, 'order-1', [{ productId: 'prod-1', variantId: 'var-1', quantity: 5 }], EXPIRES_AT)
+      ).rejects.toThrow('Insufficient stock');
+      expect(tx.inventoryReservation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consumeReservations', () => {
+    it('removes sold stock from quantity and reserved', async () => {
+      tx.inventoryReservation.findMany.mockResolvedValue([reservation()]);
+
+      await expect(InventoryService.consumeReservations(tx, 'order-1')).resolves.toBe(1);
+
+      expect(tx.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'res-1', status: 'ACTIVE' },
+        data: { status: 'CONSUMED' },
+      });
+      expect(tx.warehouseInventory.updateMany).toHaveBeenCalledWith({
+        where: { warehouseId: 'wh-1', variantId: 'var-1' },
+        data: { quantity: { decrement: 3 }, reserved: { decrement: 3 } },
+      });
+    });
+
+    it('leaves stock alone when the hold was already expired concurrently', async () => {
+      tx.inventoryReservation.findMany.mockResolvedValue([reservation()]);
+      tx.inventoryReservation.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(InventoryService.consumeReservations(tx, 'order-1')).resolves.toBe(0);
+      expect(tx.warehouseInventory.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseReservations', () => {
+    it('returns held stock to available', async () => {
+      tx.inventoryReservation.findMany.mockResolvedValue([reservation()]);
+
+      await expect(InventoryService.releaseReservations(tx, 'order-1', 'EXPIRED')).resolves.toBe(1);
+
+      expect(tx.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'res-1', status: 'ACTIVE' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(tx.warehouseInventory.updateMany).toHaveBeenCalledWith({
+        where: { warehouseId: 'wh-1', variantId: 'var-1' },
+        data: { reserved: { decrement: 3 }, available: { increment: 3 } },
+      });
+    });
+  });
+
+  describe('restockOrder', () => {
+    it('restocks items on the default warehouse for orders without holds', async () => {
+      await InventoryService.restockOrder(tx, 'order-1', [{ variantId: 'var-1', quantity: 2 }]);
+
+      expect(tx.warehouseInventory.update).toHaveBeenCalledWith({
+        where: { warehouseId_variantId: { warehouseId: 'wh-default', variantId: 'var-1' } },
+        data: { quantity: { increment: 2 }, available: { increment: 2 } },
+      });
+    });
+
+    it('restocks consumed holds to their warehouse and marks them released', async () => {
+      const consumed = reservation({ status: 'CONSUMED' });
+      tx.inventoryReservation.findMany
+        .mockResolvedValueOnce([consumed])
+        .mockResolvedValueOnce([]);
+
+      await InventoryService.restockOrder(tx, 'order-1', [{ variantId: 'var-1', quantity: 3 }]);
+
+      expect(tx.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'res-1', status: 'CONSUMED' },
+        data: { status: 'RELEASED' },
+      });
+      expect(tx.warehouseInventory.update).toHaveBeenCalledWith({
+        where: { warehouseId_variantId: { warehouseId: 'wh-1', variantId: 'var-1' } },
+        data: { quantity: { increment: 3 }, available: { increment: 3 } },
+      });
+    });
+  });
+
+  describe('restockItems', () => {
+    it('takes a partial quantity off the consumed hold and restocks its warehouse', async () => {
+      tx.inventoryReservation.findMany.mockResolvedValue([reservation({ status: 'CONSUMED' })]);
+
+      await InventoryService.restockItems(tx, 'order-1', [{ variantId: 'var-1', quantity: 1 }]);
+
+      expect(tx.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'res-1', status: 'CONSUMED', quantity: { gte: 1 } },
+        data: { quantity: { decrement: 1 } },
+      });
+      expect(tx.warehouseInventory.update).toHaveBeenCalledWith({
+        where: { warehouseId_variantId: { warehouseId: 'wh-1', variantId: 'var-1' } },
+        data: { quantity: { increment: 1 }, available: { increment: 1 } },
+      });
+    });
+
+    it('does not restock holds that were already released', async () => {
+      tx.inventoryReservation.findMany.mockResolvedValue([reservation({ status: 'RELEASED' })]);
+
+      await InventoryService.restockItems(tx, 'order-1', [{ variantId: 'var-1', quantity: 2 }]);
+
+      expect(tx.warehouseInventory.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOrdersWithExpiredReservations', () => {
+    it('leaves out orders whose payment session is still open', async () => {
+      const findMany = vi.fn().mockResolvedValue([{ orderId: 'order-2' }]);
+      Object.assign(prisma, { inventoryReservation: { findMany } });
+      const now = new Date('2026-10-18T14:00:00Z');
+
+      await expect(InventoryService.findOrdersWithExpiredReservations(50, now)).resolves.toEqual(['order-2']);
+
+      expect(findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          status: 'ACTIVE',
+          expiresAt: { lte: now },
+          order: { payments: { none: { status: 'PENDING', expiresAt: { gt: now } } } },
+        },
+        take: 50,
+      }));
+    });
+  });
+});
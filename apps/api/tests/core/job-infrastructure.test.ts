@@ -2,12 +2,14 @@
  * Tests for the Unified Job Infrastructure
  *
  * Tests cover:
- * - QueueManager: enqueue, resolveQueue, isAvailable
+ * - QueueManager: enqueue, schedule, resolveQueue, isAvailable
  * - WorkerManager: register, executeInline
+ * - Handlers: registration, scheduled reservation expiry
  * - OutboxPoller: processBatch (with mocked DB + queue)
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ReservationExpiryJobData } from '@/jobs/reservation-expiry';
 
 // Mock dependencies before importing
 vi.mock('@/config/database', () => ({
@@ -52,6 +54,14 @@ vi.mock('@/core/webhooks/event-dispatcher', () => ({
   dispatchWebhookEvent: vi.fn().mockResolvedValue(undefined),
 }));
 
+const reservationExpiry = vi.hoisted(() => ({
+  expireNow: vi.fn().mockResolvedValue({ scanned: 0, cancelled: 0, failed: 0 }),
+}));
+
+vi.mock('@/jobs/reservation-expiry', () => ({
+  ReservationExpiryJob: reservationExpiry,
+}));
+
 // ============================================================
 // Tests
 // ============================================================
@@ -100,6 +110,15 @@ describe('Unified Job Infrastructure', () => {
       });
       expect(result).toBe(false);
     });
+
+    it('should return false from schedule when Redis unavailable', async () => {
+      const { queueManager } = await import('@/infra/jobs/queue-manager');
+      const result = await queueManager.schedule('stock-alert', 'test-scheduler', 60_000, {
+        outboxEventId: 'test-scheduler',
+        eventType: 'inventory.reservations_expire',
+      });
+      expect(result).toBe(false);
+    });
   });
 
   describe('WorkerManager', () => {
@@ -167,6 +186,21 @@ describe('Unified Job Infrastructure', () => {
       // Should not throw
       registerAllHandlers();
     });
+
+    it('should run a reservation expiry pass for the scheduled job', async () => {
+      const { registerAllHandlers } = await import('@/infra/jobs/handlers');
+      const { workerManager } = await import('@/infra/jobs/worker-manager');
+      registerAllHandlers();
+
+      const job: ReservationExpiryJobData = {
+        outboxEventId: 'reservation-expiry',
+        eventType: 'inventory.reservations_expire',
+        limit: 25,
+      };
+      await workerManager.executeInline(job);
+
+      expect(reservationExpiry.expireNow).toHaveBeenCalledWith(25);
+    });
   });
 
   describe('Event Type Routing', () => {
@@ -8,6 +8,7 @@ const { prismaMock, stripeServiceMock } = vi.hoisted(() => ({
     },
     payment: {
       findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
     },
     $transaction: vi.fn(),
   },
@@ -33,6 +34,7 @@ function buildTx() {
   return {
     payment: {
       findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
       create: vi.fn(),
       update: vi.fn(),
     },
@@ -50,6 +52,12 @@ function buildTx() {
     outboxEvent: {
       create: vi.fn(),
     },
+    inventoryReservation: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    orderItem: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
   };
 }
 
@@ -2,35 +2,46 @@
  * OrderService Unit Tests
  *
  * Coverage:
- * - createOrder: success path, empty items error, insufficient stock error
+ * - createOrder: success path, empty items error, insufficient stock error, saved addresses,
+ *   customer group prices and restricted products
  * - cancelOrder: success (restores stock), order not found, non-pending order
+ * - expireUnpaidOrder: releases expired holds and cancels, consumes holds of orders paid meanwhile,
+ *   waits for open payment sessions
  * - completeOrder: success (updates status, sends push, fires hooks), order not found, already completed
  * - refundOrder: success (creates refund, restores stock, fires hooks), order not found, already refunded
  * - getUserOrders: pagination with status filter
+ * - guest orders: email required, hashed lookup token + email link, lookup, claiming by email
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
 
 // ---------------------------------------------------------------------------
 // Mocks - declared before the service import so vi.mock hoisting works
 // ---------------------------------------------------------------------------
 
+const mockEmailSend = vi.hoisted(() => vi.fn());
+
 vi.mock('@/config/database', () => ({
   prisma: {
     user: { findUnique: vi.fn() },
     product: { findMany: vi.fn() },
+    customerAddress: { findFirst: vi.fn() },
     order: {
       create: vi.fn(),
       findFirst: vi.fn(),
       findUnique: vi.fn(),
       findMany: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
       count: vi.fn(),
     },
+    discountUsage: { updateMany: vi.fn() },
     store: { findFirst: vi.fn() },
     refund: { create: vi.fn(), findUnique: vi.fn() },
     refundLedger: { create: vi.fn() },
     paymentLedger: { create: vi.fn() },
+    payment: { findMany: vi.fn().mockResolvedValue([]), findFirst: vi.fn().mockResolvedValue(null) },
     externalProductLink: { findFirst: vi.fn() },
     externalVariantLink: { findFirst: vi.fn() },
     $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn(prisma)),
@@ -41,6 +52,7 @@ vi.mock('@/core/admin/system-settings/service', () => ({
   systemSettingsService: {
     getShopCurrency: vi.fn().mockResolvedValue('USD'),
     getCheckoutCountriesRequireStatePostal: vi.fn().mockResolvedValue(['US', 'CA']),
+    getSetting: vi.fn().mockResolvedValue('Test Shop'),
   },
 }));
 
@@ -77,8 +89,10 @@ vi.mock('@/infra/outbox', () => ({
 vi.mock('@/core/inventory/service', () => ({
   InventoryService: {
     getAvailableStockByVariantIds: vi.fn(),
-    decrementStock: vi.fn().mockResolvedValue(undefined),
-    incrementStock: vi.fn().mockResolvedValue(undefined),
+    reserveStock: vi.fn().mockResolvedValue(undefined),
+    consumeReservations: vi.fn().mockResolvedValue(0),
+    releaseReservations: vi.fn().mockResolvedValue(0),
+    restockOrder: vi.fn().mockResolvedValue(undefined),
   },
 }));
 
@@ -88,6 +102,26 @@ vi.mock('@/core/warehouse/service', () => ({
   },
 }));
 
+vi.mock('@/core/shipping/service', () => ({
+  ShippingService: {
+    getOptions: vi.fn().mockResolvedValue([]),
+  },
+}));
+
+vi.mock('@/core/customer-groups/service', () => ({
+  CustomerGroupService: {
+    getUserGroupIds: vi.fn(),
+    assertProductsVisible: vi.fn(),
+    getGroupPrices: vi.fn(),
+  },
+}));
+
+vi.mock('@/core/tax/service', () => ({
+  TaxService: {
+    quote: vi.fn().mockResolvedValue({ calculator: 'builtin', pricesIncludeTax: false, taxAmount: 0, lines: [] }),
+  },
+}));
+
 // ---------------------------------------------------------------------------
 // Imports (after mocks)
 // ---------------------------------------------------------------------------
@@ -97,6 +131,9 @@ import { prisma } from '@/config/database';
 import { getOrderHooks } from '@/core/order/hooks';
 import { PushNotificationService } from '@/core/notification/push-notification.service';
 import { InventoryService } from '@/core/inventory/service';
+import { ShippingService } from '@/core/shipping/service';
+import { CustomerGroupService } from '@/core/customer-groups/service';
+import { setEmailTransport } from '@/core/email/transport';
 
 // ---------------------------------------------------------------------------
 // Typed mock helpers
@@ -105,14 +142,17 @@ import { InventoryService } from '@/core/inventory/service';
 const mockPrisma = prisma as unknown as {
   user: { findUnique: ReturnType<typeof vi.fn> };
   product: { findMany: ReturnType<typeof vi.fn> };
+  customerAddress: { findFirst: ReturnType<typeof vi.fn> };
   order: {
     create: ReturnType<typeof vi.fn>;
     findFirst: ReturnType<typeof vi.fn>;
     findUnique: ReturnType<typeof vi.fn>;
     findMany: ReturnType<typeof vi.fn>;
     update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
     count: ReturnType<typeof vi.fn>;
   };
+  discountUsage: { updateMany: ReturnType<typeof vi.fn> };
   store: { findFirst: ReturnType<typeof vi.fn> };
   refund: { create: ReturnType<typeof vi.fn>; findUnique: ReturnType<typeof vi.fn> };
   refundLedger: { create: ReturnType<typeof vi.fn> };
@@ -128,8 +168,20 @@ const mockPushNotification = PushNotificationService as {
 };
 const mockInventory = InventoryService as unknown as {
   getAvailableStockByVariantIds: ReturnType<typeof vi.fn>;
-  decrementStock: ReturnType<typeof vi.fn>;
-  incrementStock: ReturnType<typeof vi.fn>;
+  reserveStock: ReturnType<typeof vi.fn>;
+  consumeReservations: ReturnType<typeof vi.fn>;
+  releaseReservations: ReturnType<typeof vi.fn>;
+  restockOrder: ReturnType<typeof vi.fn>;
+};
+
+const mockShipping = ShippingService as unknown as {
+  getOptions: ReturnType<typeof vi.fn>;
+};
+
+const mockCustomerGroups = CustomerGroupService as unknown as {
+  getUserGroupIds: ReturnType<typeof vi.fn>;
+  assertProductsVisible: ReturnType<typeof vi.fn>;
+  getGroupPrices: ReturnType<typeof vi.fn>;
 };
 
 // ---------------------------------------------------------------------------
@@ -194,6 +246,11 @@ describe('OrderService', () => {
     mockPrisma.refundLedger.create.mockResolvedValue({});
     mockPrisma.paymentLedger.create.mockResolvedValue({});
     mockInventory.getAvailableStockByVariantIds.mockResolvedValue(new Map([['var-1', 10]]));
+    mockCustomerGroups.getUserGroupIds.mockResolvedValue([]);
+    mockCustomerGroups.assertProductsVisible.mockResolvedValue(undefined);
+    mockCustomerGroups.getGroupPrices.mockResolvedValue(new Map());
+    mockEmailSend.mockResolvedValue({ success: true, messageId: 'msg-1' });
+    setEmailTransport({ name: 'test', send: mockEmailSend });
     (mockPrisma.$transaction as ReturnType<typeof vi.fn>).mockImplementation(
       (fn: (tx: unknown) => unknown) => fn(mockPrisma)
     );
@@ -242,11 +299,12 @@ describe('OrderService', () => {
         })
       );
 
-      // Deducted stock
-      expect(mockInventory.decrementStock).toHaveBeenCalledWith(
+      // Held stock until payment instead of deducting it
+      expect(mockInventory.reserveStock).toHaveBeenCalledWith(
         mockPrisma,
-        'var-1',
-        2
+        'order-1',
+        [expect.objectContaining({ productId: 'prod-1', variantId: 'var-1', quantity: 2 })],
+        expect.any(Date)
       );
 
       // Returns formatted response
@@ -259,6 +317,143 @@ describe('OrderService', () => {
       });
     });
 
+    describe('shipping', () => {
+      const shippableProduct = { ...TEST_PRODUCT, requiresShipping: true };
+      const shippingAddress = {
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        phone: '555-0100',
+        addressLine1: '1 Main St',
+        city: 'Berlin',
+        country: 'DE',
+      };
+      const expressOption = {
+        id: 'ship-express',
+        name: 'Express',
+        description: null,
+        zoneId: 'zone-de',
+        zoneName: 'Germany',
+        amount: 9.5,
+        currency: 'USD',
+        freeShipping: false,
+        minDeliveryDays: 1,
+        maxDeliveryDays: 2,
+      };
+
+      beforeEach(() => {
+        mockPrisma.user.findUnique.mockResolvedValue(TEST_USER);
+        mockPrisma.product.findMany.mockResolvedValue([shippableProduct]);
+        mockPrisma.order.create.mockResolvedValue(makeCreatedOrder());
+      });
+
+      it('adds the selected method to the total and records it', async () => {
+        mockShipping.getOptions.mockResolvedValueOnce([expressOption]);
+
+        await OrderService.createOrder('user-1', { ...orderData, shippingAddress, shippingMethodId: 'ship-express' });
+
+        expect(mockShipping.getOptions).toHaveBeenCalledWith({
+          address: { country: 'DE', state: undefined, postalCode: undefined },
+          items: [{ productId: 'prod-1', quantity: 2, amount: 50 }],
+        });
+        expect(mockPrisma.order.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: expect.objectContaining({
+              subtotalAmount: 50,
+              shippingAmount: 9.5,
+              totalAmount: 59.5,
+              shippingMethod: { connect: { id: 'ship-express' } },
+              shippingMethodName: 'Express',
+            }),
+          })
+        );
+      });
+
+      it('requires a method when the address has shipping options', async () => {
+        mockShipping.getOptions.mockResolvedValueOnce([expressOption]);
+
+        await expect(
+          OrderService.createOrder('user-1', { ...orderData, shippingAddress })
+        ).rejects.toThrow('Shipping method is required');
+        expect(mockPrisma.order.create).not.toHaveBeenCalled();
+      });
+
+      it('rejects a method that is not offered for the address', async () => {
+        mockShipping.getOptions.mockResolvedValueOnce([expressOption]);
+
+        await expect(
+          OrderService.createOrder('user-1', { ...orderData, shippingAddress, shippingMethodId: 'ship-other' })
+        ).rejects.toThrow('Shipping method is not available for this address');
+      });
+
+      it('ships to a saved address of the customer', async () => {
+        mockPrisma.customerAddress.findFirst.mockResolvedValue({
+          ...shippingAddress,
+          id: 'addr-1',
+          addressLine2: null,
+          state: null,
+          postalCode: '10115',
+          email: null,
+        });
+
+        await OrderService.createOrder('user-1', { ...orderData, addressId: 'addr-1' });
+
+        expect(mockPrisma.customerAddress.findFirst).toHaveBeenCalledWith({ where: { id: 'addr-1', userId: 'user-1' } });
+        expect(mockShipping.getOptions).toHaveBeenCalledWith(expect.objectContaining({
+          address: { country: 'DE', state: undefined, postalCode: '10115' },
+        }));
+        expect(mockPrisma.order.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: expect.objectContaining({
+              shippingAddress: {
+                create: expect.objectContaining({ firstName: 'Ada', addressLine1: '1 Main St', postalCode: '10115' }),
+              },
+            }),
+          })
+        );
+      });
+
+      it('rejects saved addresses of other customers and guests', async () => {
+        mockPrisma.customerAddress.findFirst.mockResolvedValue(null);
+
+        await expect(
+          OrderService.createOrder('user-1', { ...orderData, addressId: 'addr-2' })
+        ).rejects.toThrow('Saved address not found');
+        await expect(
+          OrderService.createOrder(null, { ...orderData, addressId: 'addr-1', customerEmail: 'guest@example.com' })
+        ).rejects.toThrow('Sign in to use a saved address');
+        expect(mockPrisma.order.create).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('customer groups', () => {
+      it('charges the group price of the customer', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue(TEST_USER);
+        mockPrisma.product.findMany.mockResolvedValue([TEST_PRODUCT]);
+        mockPrisma.order.create.mockResolvedValue(makeCreatedOrder({ subtotalAmount: 40, totalAmount: 40 }));
+        mockCustomerGroups.getUserGroupIds.mockResolvedValue(['grp-1']);
+        mockCustomerGroups.getGroupPrices.mockResolvedValue(new Map([['var-1', 20]]));
+
+        await OrderService.createOrder('user-1', orderData);
+
+        expect(mockCustomerGroups.assertProductsVisible).toHaveBeenCalledWith(['prod-1'], ['grp-1']);
+        expect(mockCustomerGroups.getGroupPrices).toHaveBeenCalledWith(['grp-1'], ['var-1']);
+        expect(mockPrisma.order.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: expect.objectContaining({ subtotalAmount: 40, totalAmount: 40 }),
+          })
+        );
+      });
+
+      it('rejects products restricted to other customer groups', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue(TEST_USER);
+        mockPrisma.product.findMany.mockResolvedValue([TEST_PRODUCT]);
+        mockCustomerGroups.assertProductsVisible.mockRejectedValue(new Error('Product is not available'));
+
+        await expect(OrderService.createOrder('user-1', orderData)).rejects.toThrow('Product is not available');
+        expect(mockPrisma.order.create).not.toHaveBeenCalled();
+      });
+    });
+
     it('should throw when order has no items', async () => {
       mockPrisma.user.findUnique.mockResolvedValue(TEST_USER);
 
@@ -309,11 +504,11 @@ describe('OrderService', () => {
 
       const result = await OrderService.cancelOrder('order-1', 'user-1', 'Changed mind');
 
-      // Restored stock (increment)
-      expect(mockInventory.incrementStock).toHaveBeenCalledWith(
+      // Released the order's stock
+      expect(mockInventory.restockOrder).toHaveBeenCalledWith(
         mockPrisma,
-        'var-1',
-        2
+        'order-1',
+        pendingOrder.items
       );
 
       // Updated order to CANCELLED
@@ -357,6 +552,48 @@ describe('OrderService', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // expireUnpaidOrder
+  // -----------------------------------------------------------------------
+
+  describe('expireUnpaidOrder', () => {
+    it('should release expired holds and cancel the unpaid order', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({ id: 'order-1', status: 'PENDING', paymentStatus: 'PENDING' });
+      mockPrisma.order.update.mockResolvedValue(makeCreatedOrder({ status: 'CANCELLED' }));
+
+      await expect(OrderService.expireUnpaidOrder('order-1')).resolves.toBe(true);
+
+      expect(mockInventory.releaseReservations).toHaveBeenCalledWith(mockPrisma, 'order-1', 'EXPIRED');
+      expect(mockPrisma.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: expect.objectContaining({ status: 'CANCELLED', cancelReason: 'payment_expired' }),
+      });
+    });
+
+    it('should consume holds instead when the order was paid meanwhile', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({ id: 'order-1', status: 'PROCESSING', paymentStatus: 'PAID' });
+
+      await expect(OrderService.expireUnpaidOrder('order-1')).resolves.toBe(false);
+
+      expect(mockInventory.consumeReservations).toHaveBeenCalledWith(mockPrisma, 'order-1');
+      expect(mockInventory.releaseReservations).not.toHaveBeenCalled();
+      expect(mockPrisma.order.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the holds while a payment session is still open', async () => {
+      mockPrisma.order.findUnique.mockResolvedValue({ id: 'order-1', status: 'PENDING', paymentStatus: 'PENDING' });
+      mockPrisma.payment.findFirst.mockResolvedValueOnce({ id: 'pay-1' });
+
+      await expect(OrderService.expireUnpaidOrder('order-1')).resolves.toBe(false);
+
+      expect(mockPrisma.payment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ orderId: 'order-1', status: 'PENDING' }),
+      }));
+      expect(mockInventory.releaseReservations).not.toHaveBeenCalled();
+      expect(mockPrisma.order.update).not.toHaveBeenCalled();
+    });
+  });
+
   // -----------------------------------------------------------------------
   // completeOrder
   // -----------------------------------------------------------------------
@@ -475,10 +712,10 @@ describe('OrderService', () => {
       );
 
       // Stock restored
-      expect(mockInventory.incrementStock).toHaveBeenCalledWith(
+      expect(mockInventory.restockOrder).toHaveBeenCalledWith(
         mockPrisma,
-        'var-1',
-        2
+        'order-1',
+        expect.any(Array)
       );
 
       // Push notification sent
@@ -555,4 +792,75 @@ describe('OrderService', () => {
       expect(result.items[0].currency).toBe('USD');
     });
   });
+
+  // -----------------------------------------------------------------------
+  // guest orders
+  // -----------------------------------------------------------------------
+
+  describe('guest orders', () => {
+    const guestOrderData = {
+      items: [{ productId: 'prod-1', variantId: 'var-1', quantity: 2 }],
+      customerEmail: 'guest@example.com',
+    };
+    const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+    it('requires a customer email', async () => {
+      await expect(
+        OrderService.createOrder(null, { items: guestOrderData.items })
+      ).rejects.toThrow('Customer email is required for guest checkout');
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('stores only the token hash and emails the lookup link', async () => {
+      mockPrisma.product.findMany.mockResolvedValue([TEST_PRODUCT]);
+      mockPrisma.order.create.mockResolvedValue(
+        makeCreatedOrder({ userId: null, customerEmail: 'guest@example.com', currency: 'USD' })
+      );
+
+      const result = await OrderService.createOrder(null, guestOrderData);
+
+      expect(result.userId).toBeNull();
+      expect(result.guestAccessToken).toEqual(expect.any(String));
+      const { data } = mockPrisma.order.create.mock.calls[0][0];
+      expect(data.user).toBeUndefined();
+      expect(data.customerEmail).toBe('guest@example.com');
+      expect(data.guestAccessTokenHash).toBe(hash(result.guestAccessToken!));
+      expect(mockEmailSend).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'guest@example.com',
+        text: expect.stringContaining(`orderId=order-1&token=${result.guestAccessToken}`),
+      }));
+    });
+
+    it('looks up guest orders only with the matching token', async () => {
+      mockPrisma.order.findFirst.mockResolvedValue(
+        makeCreatedOrder({ userId: null, guestAccessTokenHash: hash('secret') })
+      );
+
+      await expect(OrderService.getGuestOrder('order-1', 'secret')).resolves.toMatchObject({ id: 'order-1' });
+      await expect(OrderService.getGuestOrder('order-1', 'guess')).resolves.toBeNull();
+      expect(mockPrisma.order.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'order-1', userId: null },
+      }));
+    });
+
+    it('claims guest orders placed with the account email', async () => {
+      mockPrisma.order.findMany.mockResolvedValue([{ id: 'order-1' }, { id: 'order-2' }]);
+
+      const claimed = await OrderService.claimGuestOrdersByEmail('user-1', 'Guest@Example.com');
+
+      expect(claimed).toBe(2);
+      expect(mockPrisma.order.findMany).toHaveBeenCalledWith({
+        where: { userId: null, customerEmail: { equals: 'Guest@Example.com', mode: 'insensitive' } },
+        select: { id: true },
+      });
+      expect(mockPrisma.order.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['order-1', 'order-2'] }, userId: null },
+        data: { userId: 'user-1', guestAccessTokenHash: null },
+      });
+      expect(mockPrisma.discountUsage.updateMany).toHaveBeenCalledWith({
+        where: { orderId: { in: ['order-1', 'order-2'] }, userId: null },
+        data: { userId: 'user-1' },
+      });
+    });
+  });
 });
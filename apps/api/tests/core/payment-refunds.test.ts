@@ -0,0 +1,516 @@
+/**
+ * Payment Refund Unit Tests
+ *
+ * Coverage:
+ * - requestOrderRefund: line-level refunds are priced from the order lines, stay PENDING
+ *   and are sent to the payment plugin; quantities and amounts beyond what is left are
+ *   rejected, again under the order lock; provider rejections mark the refund FAILED,
+ *   an unreachable plugin leaves it PENDING; idempotent on the key;
+ *   gift card tenders are only refundable as store credit, which completes at once
+ * - completeRefund: ledger + refund.completed, restock of the chosen lines only,
+ *   PARTIALLY_REFUNDED below the captured total and REFUNDED at it, supplier
+ *   orders refunded only then; runs once; store credit refunds credit the customer;
+ *   gift cards sold with the order are voided per refunded line, or all at a full refund
+ * - syncRefundFromPlugin: provider failures mark the refund FAILED
+ * - reconcilePendingRefunds: refunds without a provider refund ID are sent again
+ *   as the requesting admin; refusals on resend (403, open breaker) keep them PENDING
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const prisma: any = {
+    order: { findUnique: vi.fn(), update: vi.fn() },
+    refund: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    payment: { aggregate: vi.fn() },
+    refundLedger: { create: vi.fn() },
+    paymentLedger: { create: vi.fn() },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma));
+  prisma.$queryRaw = vi.fn();
+  return {
+    prisma,
+    callPaymentPlugin: vi.fn(),
+    restockItems: vi.fn(),
+    emit: vi.fn(),
+    recordOrderStatusHistory: vi.fn(),
+    requestRefundForOrder: vi.fn(),
+    creditStoreCredit: vi.fn(),
+    voidGiftCards: vi.fn(),
+    findAuthIdentityById: vi.fn(),
+    signJwt: vi.fn(),
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/core/payment/plugin-gateway', () => ({
+  callPaymentPlugin: mocks.callPaymentPlugin,
+}));
+
+vi.mock('@/core/inventory/service', () => ({
+  InventoryService: { restockItems: mocks.restockItems },
+}));
+
+vi.mock('@/infra/outbox', () => ({
+  OutboxService: { emit: mocks.emit },
+}));
+
+vi.mock('@/core/order/status-history', () => ({
+  recordOrderStatusHistory: mocks.recordOrderStatusHistory,
+}));
+
+vi.mock('@/core/external-orders/service', () => ({
+  ExternalOrderService: { requestRefundForOrder: mocks.requestRefundForOrder },
+}));
+
+vi.mock('@/core/gift-cards/store-credit', () => ({
+  StoreCreditService: { credit: mocks.creditStoreCredit },
+}));
+
+vi.mock('@/core/gift-cards/service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/core/gift-cards/service')>();
+  return {
+    ...actual,
+    GiftCardService: { ...actual.GiftCardService, voidForOrder: mocks.voidGiftCards },
+  };
+});
+
+vi.mock('@/core/auth/user-compat', () => ({
+  findAuthIdentityById: mocks.findAuthIdentityById,
+}));
+
+vi.mock('@/utils/jwt', () => ({
+  JwtUtils: { sign: mocks.signJwt },
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: { incrementOrderVersion: vi.fn() },
+}));
+
+vi.mock('@/core/logger/unified-logger', () => ({
+  LoggerService: { logPayment: vi.fn(), logError: vi.fn() },
+}));
+
+import { completeRefund, reconcilePendingRefunds, requestOrderRefund, syncRefundFromPlugin } from '@/core/payment/refunds';
+
+const paidOrder = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order-1',
+  userId: 'user-1',
+  status: 'PROCESSING',
+  paymentStatus: 'PAID',
+  pricesIncludeTax: false,
+  payments: [{
+    id: 'pay-1',
+    amount: 70,
+    currency: 'USD',
+    paymentMethod: 'stripe',
+    sessionId: 'cs_1',
+    paymentIntentId: 'pi_1',
+  }],
+  items: [
+    { id: 'item-1', variantId: 'var-1', quantity: 2, unitPrice: 20, taxAmount: 4 },
+    { id: 'item-2', variantId: 'var-2', quantity: 1, unitPrice: 25, taxAmount: 0 },
+  ],
+  refunds: [],
+  ...overrides,
+});
+
+const pendingRefund = (overrides: Record<string, unknown> = {}) => ({
+  id: 'refund-1',
+  orderId: 'order-1',
+  paymentId: 'pay-1',
+  amount: 22,
+  currency: 'USD',
+  status: 'COMPLETED',
+  reason: 'Damaged',
+  provider: 'STRIPE',
+  providerRefundId: 're_1',
+  idempotencyKey: 'key-1',
+  payment: { amount: 70, paymentMethod: 'stripe' },
+  order: { status: 'PROCESSING', paymentStatus: 'PAID' },
+  items: [
+    { orderItemId: 'item-1', quantity: 1, amount: 22, restock: true, orderItem: { variantId: 'var-1' } },
+  ],
+  ...overrides,
+});
+
+describe('requestOrderRefund', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.prisma.order.findUnique.mockResolvedValue(paidOrder());
+    mocks.prisma.refund.findUnique.mockResolvedValue(null);
+    mocks.prisma.refund.findMany.mockResolvedValue([]);
+    mocks.prisma.refund.create.mockImplementation(async ({ data }) => ({ id: 'refund-1', ...data }));
+    mocks.prisma.refund.update.mockImplementation(async ({ data }) => ({ id: 'refund-1', status: 'PENDING', ...data }));
+    mocks.prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+    mocks.prisma.refund.findUniqueOrThrow.mockResolvedValue(pendingRefund({ status: 'FAILED' }));
+    mocks.callPaymentPlugin.mockResolvedValue({ ok: true, status: 200, payload: { success: true, data: { refundId: 're_1', status: 'pending' } } });
+  });
+
+  it('prices line refunds from the order lines and leaves them pending at the provider', async () => {
+    const refund = await requestOrderRefund('order-1', {
+      idempotencyKey: 'key-1',
+      reason: 'Damaged',
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+    });
+
+    expect(mocks.prisma.refund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: 22,
+        status: 'PENDING',
+        items: { create: [{ orderItemId: 'item-1', quantity: 1, amount: 22, restock: true }] },
+      }),
+    });
+    expect(mocks.callPaymentPlugin).toHaveBeenCalledWith(expect.objectContaining({
+      pluginSlug: 'stripe',
+      path: '/api/payments/refund?installation=default',
+      body: expect.objectContaining({ refundId: 'refund-1', orderId: 'order-1', amount: 22, idempotencyKey: 'key-1' }),
+    }));
+    expect(refund).toMatchObject({ status: 'PENDING', providerRefundId: 're_1' });
+    expect(mocks.prisma.paymentLedger.create).not.toHaveBeenCalled();
+    expect(mocks.restockItems).not.toHaveBeenCalled();
+    expect(mocks.prisma.order.update).not.toHaveBeenCalled();
+    expect(mocks.requestRefundForOrder).not.toHaveBeenCalled();
+  });
+
+  it('rejects quantities that were already refunded', async () => {
+    mocks.prisma.order.findUnique.mockResolvedValue(paidOrder({
+      paymentStatus: 'PARTIALLY_REFUNDED',
+      refunds: [{ amount: 22, items: [{ orderItemId: 'item-1', quantity: 1 }] }],
+    }));
+
+    await expect(requestOrderRefund('order-1', {
+      idempotencyKey: 'key-2',
+      items: [{ orderItemId: 'item-1', quantity: 2 }],
+    })).rejects.toThrow('Refund quantity for order item item-1 must be between 1 and 1');
+    expect(mocks.callPaymentPlugin).not.toHaveBeenCalled();
+  });
+
+  it('rejects amounts above the refundable balance', async () => {
+    mocks.prisma.order.findUnique.mockResolvedValue(paidOrder({
+      refunds: [{ amount: 60, items: [] }],
+    }));
+
+    await expect(requestOrderRefund('order-1', { idempotencyKey: 'key-2', amount: 15 }))
+      .rejects.toThrow('Refund amount 15 exceeds the refundable balance of 10');
+  });
+
+  it('re-checks the balance under the order lock', async () => {
+    // Another refund was committed after the order was first read
+    mocks.prisma.refund.findMany.mockResolvedValue([
+      { amount: 60, paymentId: 'pay-1', provider: 'STRIPE', items: [] },
+    ]);
+
+    await expect(requestOrderRefund('order-1', { idempotencyKey: 'key-2', amount: 15 }))
+      .rejects.toThrow('Refund amount 15 exceeds the refundable balance of 10');
+
+    expect(mocks.prisma.$queryRaw).toHaveBeenCalled();
+    expect(mocks.prisma.refund.create).not.toHaveBeenCalled();
+    expect(mocks.callPaymentPlugin).not.toHaveBeenCalled();
+  });
+
+  it('marks the refund failed when the provider rejects it', async () => {
+    mocks.callPaymentPlugin.mockResolvedValue({
+      ok: false,
+      status: 400,
+      payload: { success: false, error: { message: 'Charge already refunded' } },
+    });
+
+    await expect(requestOrderRefund('order-1', { idempotencyKey: 'key-1' }))
+      .rejects.toThrow('Payment provider rejected the refund: Charge already refunded');
+
+    expect(mocks.requestRefundForOrder).not.toHaveBeenCalled();
+    expect(mocks.prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund-1', status: 'PENDING' },
+      data: { status: 'FAILED', failureReason: 'Charge already refunded' },
+    });
+    expect(mocks.prisma.refundLedger.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ eventType: 'FAILED' }),
+    });
+  });
+
+  it('leaves the refund pending when the plugin does not answer', async () => {
+    mocks.callPaymentPlugin.mockResolvedValue({
+      ok: false,
+      status: 502,
+      payload: { error: 'plugin_unreachable', message: 'This operation was aborted' },
+    });
+
+    const refund = await requestOrderRefund('order-1', { idempotencyKey: 'key-1' });
+
+    expect(refund).toMatchObject({ id: 'refund-1', status: 'PENDING' });
+    expect(mocks.prisma.refund.updateMany).not.toHaveBeenCalled();
+    expect(mocks.prisma.refundLedger.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the existing refund for a repeated idempotency key', async () => {
+    const existing = { id: 'refund-1', orderId: 'order-1', status: 'PENDING' };
+    mocks.prisma.refund.findUnique.mockResolvedValue(existing);
+
+    await expect(requestOrderRefund('order-1', { idempotencyKey: 'key-1' })).resolves.toBe(existing);
+    expect(mocks.callPaymentPlugin).not.toHaveBeenCalled();
+  });
+
+  describe('split tender orders', () => {
+    const splitOrder = (overrides: Record<string, unknown> = {}) => paidOrder({
+      payments: [
+        { id: 'pay-1', amount: 50, currency: 'USD', paymentMethod: 'stripe', sessionId: 'cs_1', paymentIntentId: 'pi_1' },
+        { id: 'pay-gc', amount: 20, currency: 'USD', paymentMethod: 'gift_card', sessionId: null, paymentIntentId: null },
+      ],
+      ...overrides,
+    });
+
+    it('caps refunds to the original payment at what the provider captured', async () => {
+      mocks.prisma.order.findUnique.mockResolvedValue(splitOrder());
+
+      await expect(requestOrderRefund('order-1', { idempotencyKey: 'key-2', amount: 60 }))
+        .rejects.toThrow('Refund amount 60 exceeds the refundable balance of 50');
+    });
+
+    it('refunds the whole order to store credit without calling the provider', async () => {
+      mocks.prisma.order.findUnique.mockResolvedValue(splitOrder());
+      mocks.prisma.refund.findUniqueOrThrow.mockResolvedValue(pendingRefund({
+        amount: 70,
+        provider: 'STORE_CREDIT',
+        order: { status: 'PROCESSING', paymentStatus: 'PAID', userId: 'user-1' },
+      }));
+      mocks.prisma.refund.aggregate.mockResolvedValue({ _sum: { amount: 70 } });
+      mocks.prisma.payment.aggregate.mockResolvedValue({ _sum: { amount: 70 } });
+      mocks.prisma.order.update.mockImplementation(async ({ data }) => ({ id: 'order-1', ...data }));
+
+      await requestOrderRefund('order-1', { idempotencyKey: 'key-2', refundTo: 'store_credit' });
+
+      expect(mocks.prisma.refund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 70, provider: 'STORE_CREDIT', paymentId: 'pay-1' }),
+      });
+      expect(mocks.callPaymentPlugin).not.toHaveBeenCalled();
+      expect(mocks.creditStoreCredit).toHaveBeenCalledWith(mocks.prisma, 'user-1', 70, expect.objectContaining({
+        type: 'REFUND',
+        currency: 'USD',
+        refundId: 'refund-1',
+      }));
+      expect(mocks.requestRefundForOrder).toHaveBeenCalledWith('order-1');
+    });
+
+    it('sends orders paid only with gift cards to store credit', async () => {
+      mocks.prisma.order.findUnique.mockResolvedValue(paidOrder({
+        payments: [{ id: 'pay-gc', amount: 70, currency: 'USD', paymentMethod: 'gift_card' }],
+      }));
+
+      await expect(requestOrderRefund('order-1', { idempotencyKey: 'key-2' }))
+        .rejects.toThrow('Order was paid with gift cards or store credit only, refund it to store credit');
+    });
+
+    it('does not refund guest orders to store credit', async () => {
+      mocks.prisma.order.findUnique.mockResolvedValue(splitOrder({ userId: null }));
+
+      await expect(requestOrderRefund('order-1', { idempotencyKey: 'key-2', refundTo: 'store_credit' }))
+        .rejects.toThrow('Guest orders cannot be refunded to store credit');
+    });
+  });
+});
+
+describe('completeRefund', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+    mocks.prisma.refund.findUniqueOrThrow.mockResolvedValue(pendingRefund({
+      items: [
+        { orderItemId: 'item-1', quantity: 1, amount: 22, restock: true, orderItem: { variantId: 'var-1' } },
+        { orderItemId: 'item-2', quantity: 1, amount: 25, restock: false, orderItem: { variantId: 'var-2' } },
+      ],
+      amount: 47,
+    }));
+    mocks.prisma.order.update.mockImplementation(async ({ data }) => ({ id: 'order-1', status: 'PROCESSING', ...data }));
+    mocks.prisma.payment.aggregate.mockResolvedValue({ _sum: { amount: 70 } });
+  });
+
+  it('books the refund, restocks chosen lines and marks the order partially refunded', async () => {
+    mocks.prisma.refund.aggregate.mockResolvedValue({ _sum: { amount: 47 } });
+
+    await expect(completeRefund('refund-1')).resolves.toBe(true);
+
+    expect(mocks.prisma.paymentLedger.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'REFUNDED', amount: 47, providerEventId: 'refund:refund-1' }),
+    });
+    expect(mocks.emit).toHaveBeenCalledWith(mocks.prisma, 'refund.completed', 'refund-1', expect.objectContaining({
+      amount: 47,
+      items: [
+        { orderItemId: 'item-1', quantity: 1, amount: 22, restock: true },
+        { orderItemId: 'item-2', quantity: 1, amount: 25, restock: false },
+      ],
+    }));
+    expect(mocks.restockItems).toHaveBeenCalledWith(mocks.prisma, 'order-1', [{ variantId: 'var-1', quantity: 1 }]);
+    expect(mocks.prisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { paymentStatus: 'PARTIALLY_REFUNDED' },
+    });
+    expect(mocks.voidGiftCards).toHaveBeenCalledWith(mocks.prisma, 'order-1', [
+      expect.objectContaining({ orderItemId: 'item-1', quantity: 1 }),
+      expect.objectContaining({ orderItemId: 'item-2', quantity: 1 }),
+    ]);
+    expect(mocks.requestRefundForOrder).not.toHaveBeenCalled();
+  });
+
+  it('marks the order refunded once the captured total is refunded', async () => {
+    mocks.prisma.refund.aggregate.mockResolvedValue({ _sum: { amount: 70 } });
+
+    await completeRefund('refund-1');
+
+    expect(mocks.prisma.order.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { paymentStatus: 'REFUNDED', status: 'REFUNDED' },
+    });
+    expect(mocks.recordOrderStatusHistory).toHaveBeenCalledWith(mocks.prisma, expect.objectContaining({
+      fromPaymentStatus: 'PAID',
+      toPaymentStatus: 'REFUNDED',
+      toStatus: 'REFUNDED',
+    }));
+    expect(mocks.voidGiftCards).toHaveBeenCalledWith(mocks.prisma, 'order-1', undefined);
+    expect(mocks.requestRefundForOrder).toHaveBeenCalledWith('order-1');
+  });
+
+  it('does nothing when the refund is no longer pending', async () => {
+    mocks.prisma.refund.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(completeRefund('refund-1')).resolves.toBe(false);
+
+    expect(mocks.emit).not.toHaveBeenCalled();
+    expect(mocks.prisma.order.update).not.toHaveBeenCalled();
+  });
+
+  it('credits store credit refunds to the customer', async () => {
+    mocks.prisma.refund.findUniqueOrThrow.mockResolvedValue(pendingRefund({
+      provider: 'STORE_CREDIT',
+      providerRefundId: null,
+      order: { status: 'PROCESSING', paymentStatus: 'PAID', userId: 'user-1' },
+    }));
+    mocks.prisma.refund.aggregate.mockResolvedValue({ _sum: { amount: 22 } });
+
+    await completeRefund('refund-1');
+
+    expect(mocks.creditStoreCredit).toHaveBeenCalledWith(mocks.prisma, 'user-1', 22, expect.objectContaining({
+      type: 'REFUND',
+      orderId: 'order-1',
+      refundId: 'refund-1',
+    }));
+    expect(mocks.prisma.paymentLedger.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventType: 'REFUNDED', provider: 'store_credit' }),
+    });
+  });
+});
+
+describe('syncRefundFromPlugin', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.prisma.refund.findUnique.mockResolvedValue({
+      id: 'refund-1',
+      status: 'PENDING',
+      providerRefundId: 're_1',
+      payment: { paymentMethod: 'stripe' },
+    });
+    mocks.prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+    mocks.prisma.refund.findUniqueOrThrow.mockResolvedValue(pendingRefund({ status: 'FAILED' }));
+  });
+
+  it('marks the refund failed when the provider reports a failure', async () => {
+    mocks.callPaymentPlugin.mockResolvedValue({
+      ok: true,
+      status: 200,
+      payload: { success: true, data: { refundId: 're_1', status: 'failed', reason: 'expired_or_canceled_card' } },
+    });
+
+    await expect(syncRefundFromPlugin('re_1')).resolves.toBe(true);
+
+    expect(mocks.callPaymentPlugin).toHaveBeenCalledWith(expect.objectContaining({
+      path: '/api/payments/verify-refund?installation=default',
+      body: { refundId: 're_1' },
+    }));
+    expect(mocks.prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund-1', status: 'PENDING' },
+      data: { status: 'FAILED', failureReason: 'expired_or_canceled_card' },
+    });
+    expect(mocks.emit).not.toHaveBeenCalled();
+  });
+
+  it('leaves the refund pending while the provider is still processing it', async () => {
+    mocks.callPaymentPlugin.mockResolvedValue({ ok: true, status: 200, payload: { data: { status: 'pending' } } });
+
+    await expect(syncRefundFromPlugin('re_1')).resolves.toBe(false);
+    expect(mocks.prisma.refund.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('reconcilePendingRefunds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.prisma.refund.findMany.mockResolvedValue([{ id: 'refund-1', providerRefundId: null }]);
+    mocks.prisma.refund.findUnique.mockImplementation(async ({ where }) => (where.id
+      ? {
+          ...pendingRefund({ status: 'PENDING', providerRefundId: null, metadata: { requestedBy: 'admin-1' } }),
+          payment: { id: 'pay-1', paymentMethod: 'stripe', sessionId: 'cs_1', paymentIntentId: 'pi_1' },
+        }
+      : { id: 'refund-1', status: 'PENDING', providerRefundId: 're_1', payment: { paymentMethod: 'stripe' } }));
+    mocks.prisma.refund.updateMany.mockResolvedValue({ count: 1 });
+    mocks.findAuthIdentityById.mockResolvedValue({ id: 'admin-1', email: 'admin@example.com', role: 'ADMIN', isActive: true });
+    mocks.signJwt.mockReturnValue('admin-token');
+  });
+
+  it('sends refunds the plugin never answered again under the same key', async () => {
+    mocks.callPaymentPlugin
+      .mockResolvedValueOnce({ ok: true, status: 200, payload: { data: { refundId: 're_1', status: 'pending' } } })
+      .mockResolvedValueOnce({ ok: true, status: 200, payload: { data: { status: 'pending' } } });
+
+    await expect(reconcilePendingRefunds({ minAgeMinutes: 0 })).resolves.toEqual({ scanned: 1, updated: 0, failed: 0 });
+
+    expect(mocks.prisma.refund.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'PENDING' },
+    }));
+    expect(mocks.callPaymentPlugin).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      path: '/api/payments/refund?installation=default',
+      body: expect.objectContaining({ refundId: 'refund-1', idempotencyKey: 'key-1', amount: 22 }),
+      headers: { authorization: 'Bearer admin-token' },
+    }));
+    expect(mocks.signJwt).toHaveBeenCalledWith(
+      { userId: 'admin-1', email: 'admin@example.com', role: 'ADMIN' },
+      expect.any(Number)
+    );
+    expect(mocks.prisma.refund.updateMany).toHaveBeenCalledWith({
+      where: { id: 'refund-1', status: 'PENDING', providerRefundId: null },
+      data: { providerRefundId: 're_1' },
+    });
+    expect(mocks.callPaymentPlugin).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      path: '/api/payments/verify-refund?installation=default',
+      body: { refundId: 're_1' },
+    }));
+  });
+
+  it('keeps the refund pending while the plugin is still unreachable', async () => {
+    mocks.callPaymentPlugin.mockResolvedValue({ ok: false, status: 502, payload: { error: 'plugin_unreachable' } });
+
+    await expect(reconcilePendingRefunds({ minAgeMinutes: 0 })).resolves.toEqual({ scanned: 1, updated: 0, failed: 0 });
+    expect(mocks.prisma.refund.updateMany).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [403, { error: { code: 'FORBIDDEN' } }],
+    [503, { error: 'payment_plugin_circuit_open' }],
+  ])('keeps the refund pending when the resend is refused with %i', async (status, payload) => {
+    mocks.callPaymentPlugin.mockResolvedValue({ ok: false, status, payload });
+
+    await expect(reconcilePendingRefunds({ minAgeMinutes: 0 })).resolves.toEqual({ scanned: 1, updated: 0, failed: 0 });
+    expect(mocks.prisma.refund.updateMany).not.toHaveBeenCalled();
+    expect(mocks.prisma.refund.update).not.toHaveBeenCalled();
+  });
+});
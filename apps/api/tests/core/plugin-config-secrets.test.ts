@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
+  decryptConfigSecret,
+  encryptConfigSecret,
   mergeSecretConfigForUpdate,
   sanitizePluginConfigForAdmin,
 } from '@/core/admin/plugin-management/config-secrets';
@@ -49,4 +51,15 @@ describe('plugin config secret helpers', () => {
       visibleField: 'new',
     });
   });
+
+  it('encrypts secrets for storage and reads values stored in plaintext', () => {
+    const encrypted = encryptConfigSecret('role-password');
+
+    expect(encrypted).toMatch(/^enc:v1:/);
+    expect(encrypted).not.toContain('role-password');
+    expect(encryptConfigSecret('role-password')).not.toBe(encrypted);
+    expect(decryptConfigSecret(encrypted)).toBe('role-password');
+    expect(decryptConfigSecret('legacy-plaintext')).toBe('legacy-plaintext');
+    expect(() => decryptConfigSecret(encrypted.slice(0, -4) + 'AAAA')).toThrow();
+  });
 });
@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { forkMock, children } = vi.hoisted(() => ({
+  forkMock: vi.fn(),
+  children: [] as any[],
+}));
+
+vi.mock('child_process', () => ({
+  fork: forkMock,
+}));
+
+import {
+  PluginProcessError,
+  PluginProcessRuntime,
+  computeRestartDelay,
+} from '@/core/admin/extension-installer/plugin-process-runtime';
+import { gatewayMetrics } from '@/core/admin/extension-installer/gateway-metrics';
+
+/**
+ * Fake child process: answers init with ready and echoes requests.
+ */
+function createChild() {
+  const child: any = new EventEmitter();
+  child.pid = 1000 + children.length;
+  child.connected = true;
+  child.exitCode = null;
+  child.signalCode = null;
+  child.sent = [] as any[];
+  child.respond = true;
+  child.send = vi.fn((message: any) => {
+    child.sent.push(message);
+    if (message.type === 'init') {
+      queueMicrotask(() => child.emit('message', { type: 'ready' }));
+    }
+    if (message.type === 'request' && child.respond) {
+      queueMicrotask(() =>
+        child.emit('message', {
+          type: 'response',
+          id: message.id,
+          statusCode: 200,
+          headers: { 'content-type': 'application/json' },
+          body: Buffer.from(JSON.stringify({ url: message.url, caller: message.headers['x-caller'] })).toString('base64'),
+        }),
+      );
+    }
+    if (message.type === 'shutdown') {
+      queueMicrotask(() => child.crash(0, null));
+    }
+  });
+  child.kill = vi.fn((signal: string) => {
+    queueMicrotask(() => child.crash(null, signal));
+  });
+  child.crash = (code: number | null, signal: string | null) => {
+    child.connected = false;
+    child.exitCode = code;
+    child.signalCode = signal;
+    child.emit('exit', code, signal);
+  };
+  children.push(child);
+  return child;
+}
+
+function createRuntime() {
+  return new PluginProcessRuntime({
+    slug: 'demo',
+    installationId: 'inst-1',
+    entryPath: '/plugins/demo/server/index.js',
+    version: '1.0.0',
+    config: { apiKey: 'k' },
+    env: { DEMO_DATABASE_URL: 'postgresql://plugin_demo_role@db/jiffoo?schema=plugin_demo' },
+  });
+}
+
+describe('PluginProcessRuntime', () => {
+  beforeEach(() => {
+    children.length = 0;
+    forkMock.mockReset();
+    forkMock.mockImplementation(() => createChild());
+    gatewayMetrics.reset();
+    process.env.PLUGIN_PROCESS_MAX_MEMORY_MB = '128';
+    process.env.PLUGIN_ENV_PASSTHROUGH = 'DEMO_API_KEY';
+    process.env.DEMO_API_KEY = 'secret';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.PLUGIN_PROCESS_MAX_MEMORY_MB;
+    delete process.env.PLUGIN_ENV_PASSTHROUGH;
+    delete process.env.DEMO_API_KEY;
+  });
+
+  it('backs off exponentially up to a minute', () => {
+    expect([1, 2, 3, 4].map(computeRestartDelay)).toEqual([1000, 2000, 4000, 8000]);
+    expect(computeRestartDelay(10)).toBe(60000);
+  });
+
+  it('forks with a heap limit and a minimal environment', async () => {
+    const runtime = createRuntime();
+    await runtime.start();
+
+    const [hostPath, , options] = forkMock.mock.calls[0];
+    expect(hostPath).toMatch(/plugin-process-host\.(ts|js)$/);
+    expect(options.execArgv).toContain('--max-old-space-size=128');
+    expect(options.env.DEMO_API_KEY).toBe('secret');
+    expect(options.env.DEMO_DATABASE_URL).toContain('schema=plugin_demo');
+    expect(options.env.DATABASE_URL).toBeUndefined();
+    expect(runtime.status().state).toBe('running');
+    expect(gatewayMetrics.snapshot().runtimeStates.get('demo|inst-1')).toEqual({ up: true, restarts: 0, rssBytes: 0 });
+
+    await runtime.close();
+  });
+
+  it('forwards requests over IPC with the injected headers', async () => {
+    const runtime = createRuntime();
+    await runtime.start();
+
+    const res = await runtime.inject(
+      { method: 'POST', url: '/orders?x=1', headers: { 'x-caller': 'shop' }, payload: '{"a":1}' },
+      1000,
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res.body.toString())).toEqual({ url: '/orders?x=1', caller: 'shop' });
+    const request = children[0].sent.find((m: any) => m.type === 'request');
+    expect(Buffer.from(request.payload, 'base64').toString()).toBe('{"a":1}');
+
+    await runtime.close();
+  });
+
+  it('rejects in-flight requests on crash and restarts with backoff', async () => {
+    const runtime = createRuntime();
+    await runtime.start();
+    vi.useFakeTimers();
+
+    children[0].respond = false;
+    const inflight = runtime.inject({ method: 'GET', url: '/slow', headers: {} }, 5000);
+    children[0].crash(null, 'SIGSEGV');
+
+    await expect(inflight).rejects.toThrow('Plugin "demo" process crashed (signal SIGSEGV)');
+    await expect(inflight).rejects.toMatchObject({ code: 'PROCESS_EXITED' });
+    expect(runtime.status().state).toBe('crashed');
+    const unavailable = runtime.inject({ method: 'GET', url: '/', headers: {} }, 1000);
+    await expect(unavailable).rejects.toThrow('Plugin "demo" process is unavailable (restart in 1s)');
+    await expect(unavailable).rejects.toMatchObject({ code: 'PROCESS_UNAVAILABLE' });
+    expect(gatewayMetrics.snapshot().runtimeStates.get('demo|inst-1')?.up).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(forkMock).toHaveBeenCalledTimes(2);
+    expect(runtime.status()).toMatchObject({ state: 'running', restarts: 1, lastExitReason: 'signal SIGSEGV' });
+
+    // A second crash right away doubles the delay
+    children[1].crash(1, null);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(forkMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(forkMock).toHaveBeenCalledTimes(3);
+
+    await runtime.close();
+  });
+
+  it('rejects a request the plugin does not answer in time', async () => {
+    const runtime = createRuntime();
+    await runtime.start();
+    vi.useFakeTimers();
+
+    children[0].respond = false;
+    const request = runtime.inject({ method: 'GET', url: '/slow', headers: {} }, 500);
+    const assertion = expect(request).rejects.toBeInstanceOf(PluginProcessError);
+    await vi.advanceTimersByTimeAsync(500);
+
+    await assertion;
+    await expect(request).rejects.toMatchObject({
+      code: 'REQUEST_TIMEOUT',
+      message: 'Plugin "demo" request timeout (500ms)',
+    });
+
+    await runtime.close();
+  });
+
+  it('kills a process that stops answering heartbeats', async () => {
+    process.env.PLUGIN_PROCESS_HEARTBEAT_MS = '100';
+    vi.useFakeTimers();
+    const runtime = createRuntime();
+    await runtime.start();
+
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(children[0].kill).toHaveBeenCalledWith('SIGKILL');
+    expect(runtime.status()).toMatchObject({ state: 'crashed', lastExitReason: 'unresponsive' });
+
+    await runtime.close();
+    delete process.env.PLUGIN_PROCESS_HEARTBEAT_MS;
+  });
+
+  it('does not restart a plugin that fails to load', async () => {
+    forkMock.mockImplementation(() => {
+      const child = createChild();
+      child.send = vi.fn();
+      queueMicrotask(() => child.emit('message', { type: 'init-error', message: 'Cannot find module stripe' }));
+      return child;
+    });
+
+    const runtime = createRuntime();
+    await expect(runtime.start()).rejects.toMatchObject({
+      code: 'START_FAILED',
+      message: 'Cannot find module stripe',
+    });
+    await Promise.resolve();
+    expect(runtime.status().state).toBe('stopped');
+  });
+});
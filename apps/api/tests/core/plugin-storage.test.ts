@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prismaMock, cacheMock, validateToken } = vi.hoisted(() => ({
+  prismaMock: {
+    pluginInstallation: {
+      findUnique: vi.fn(),
+    },
+    pluginKvEntry: {
+      aggregate: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    pluginStorageFile: {
+      deleteMany: vi.fn(),
+    },
+  },
+  cacheMock: {
+    set: vi.fn(),
+    get: vi.fn(),
+  },
+  validateToken: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: prismaMock,
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: cacheMock,
+}));
+
+vi.mock('@/core/admin/plugin-management/token-service', () => ({
+  PluginTokenService: { validateToken },
+}));
+
+import {
+  authenticatePluginStorageRequest,
+  PluginStorageError,
+  PluginStorageService,
+  purgeInstallationStorage,
+  recordIssuedPlatformSignature,
+  toRelativeKey,
+  toRelativePrefix,
+} from '@/core/admin/extension-installer/plugin-storage';
+
+const ctx = { installationId: 'ins_1', pluginSlug: 'loyalty' };
+
+function nowSeconds(): string {
+  return Math.floor(Date.now() / 1000).toString();
+}
+
+function headers(signature: string, timestamp: string, overrides: Record<string, string> = {}) {
+  return {
+    'x-plugin-slug': 'loyalty',
+    'x-installation-id': 'ins_1',
+    'x-platform-signature': signature,
+    'x-platform-timestamp': timestamp,
+    ...overrides,
+  };
+}
+
+describe('plugin sandbox storage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.PLUGIN_STORAGE_MAX_VALUE_BYTES;
+    delete process.env.PLUGIN_STORAGE_MAX_KEYS;
+    cacheMock.set.mockResolvedValue(true);
+    cacheMock.get.mockResolvedValue(null);
+    prismaMock.pluginInstallation.findUnique.mockResolvedValue({
+      id: 'ins_1',
+      pluginSlug: 'loyalty',
+      enabled: true,
+      deletedAt: null,
+      plugin: { deletedAt: null },
+    });
+    prismaMock.pluginKvEntry.deleteMany.mockResolvedValue({ count: 0 });
+    prismaMock.pluginKvEntry.findMany.mockResolvedValue([]);
+    prismaMock.pluginKvEntry.aggregate.mockResolvedValue({ _count: { _all: 0 }, _sum: { sizeBytes: 0 } });
+  });
+
+  describe('authentication', () => {
+    it('accepts a fresh signature issued by the gateway for the same installation', async () => {
+      const timestamp = nowSeconds();
+      await recordIssuedPlatformSignature('ins_1', 'sig-accepted', timestamp);
+
+      await expect(authenticatePluginStorageRequest(headers('sig-accepted', timestamp))).resolves.toEqual(ctx);
+    });
+
+    it('rejects signatures the gateway never issued', async () => {
+      await expect(authenticatePluginStorageRequest(headers('forged', nowSeconds()))).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+        statusCode: 401,
+      });
+    });
+
+    it('rejects a signature replayed for another installation', async () => {
+      const timestamp = nowSeconds();
+      await recordIssuedPlatformSignature('ins_1', 'sig-other', timestamp);
+
+      await expect(
+        authenticatePluginStorageRequest(headers('sig-other', timestamp, { 'x-installation-id': 'ins_2' }))
+      ).rejects.toBeInstanceOf(PluginStorageError);
+    });
+
+    it('rejects stale timestamps', async () => {
+      const stale = (Math.floor(Date.now() / 1000) - 3600).toString();
+      await recordIssuedPlatformSignature('ins_1', 'sig-stale', stale);
+
+      await expect(authenticatePluginStorageRequest(headers('sig-stale', stale))).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+      });
+    });
+
+    it('rejects a slug that does not own the installation', async () => {
+      const timestamp = nowSeconds();
+      await recordIssuedPlatformSignature('ins_1', 'sig-slug', timestamp);
+
+      await expect(
+        authenticatePluginStorageRequest(headers('sig-slug', timestamp, { 'x-plugin-slug': 'other' }))
+      ).rejects.toMatchObject({ code: 'FORBIDDEN', statusCode: 403 });
+    });
+
+    it('accepts the plugin service token without a gateway signature', async () => {
+      validateToken.mockResolvedValue({ installationId: 'ins_1', pluginSlug: 'loyalty', grantedPermissions: [] });
+
+      await expect(authenticatePluginStorageRequest({ authorization: 'Bearer svc-token' })).resolves.toEqual(ctx);
+      expect(validateToken).toHaveBeenCalledWith('svc-token');
+    });
+
+    it('rejects invalid service tokens', async () => {
+      validateToken.mockResolvedValue(null);
+
+      await expect(authenticatePluginStorageRequest({ authorization: 'Bearer revoked' })).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+        statusCode: 401,
+      });
+    });
+
+    it('rejects a service token sent for another installation', async () => {
+      validateToken.mockResolvedValue({ installationId: 'ins_1', pluginSlug: 'loyalty', grantedPermissions: [] });
+
+      await expect(
+        authenticatePluginStorageRequest({ authorization: 'Bearer svc-token', 'x-installation-id': 'ins_2' })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN', statusCode: 403 });
+    });
+  });
+
+  describe('cleanup', () => {
+    it('removes the storage of a deleted installation only', async () => {
+      prismaMock.pluginStorageFile.deleteMany.mockResolvedValue({ count: 0 });
+
+      await purgeInstallationStorage('loyalty', 'ins_1');
+
+      expect(prismaMock.pluginKvEntry.deleteMany).toHaveBeenCalledWith({ where: { installationId: 'ins_1' } });
+      expect(prismaMock.pluginStorageFile.deleteMany).toHaveBeenCalledWith({ where: { installationId: 'ins_1' } });
+    });
+  });
+
+  describe('namespaces', () => {
+    it('strips the caller namespace from keys', () => {
+      expect(toRelativeKey('plugin:loyalty:ins_1', ':', 'plugin:loyalty:ins_1:user:1')).toBe('user:1');
+      expect(toRelativeKey('plugins/loyalty/ins_1', '/', 'plugins/loyalty/ins_1/a/b.pdf')).toBe('a/b.pdf');
+    });
+
+    it('rejects keys from another namespace', () => {
+      expect(() => toRelativeKey('plugin:loyalty:ins_1', ':', 'plugin:loyalty:ins_2:user:1')).toThrow(PluginStorageError);
+    });
+
+    it('treats the bare namespace as an empty prefix', () => {
+      expect(toRelativePrefix('plugin:loyalty:ins_1', ':', 'plugin:loyalty:ins_1')).toBe('');
+      expect(toRelativePrefix('plugin:loyalty:ins_1', ':', undefined)).toBe('');
+      expect(toRelativePrefix('plugin:loyalty:ins_1', ':', 'plugin:loyalty:ins_1:user:')).toBe('user:');
+    });
+  });
+
+  describe('quotas', () => {
+    it('rejects values above the per-value limit', async () => {
+      process.env.PLUGIN_STORAGE_MAX_VALUE_BYTES = '16';
+
+      await expect(PluginStorageService.setValue(ctx, 'big', 'x'.repeat(64))).rejects.toMatchObject({
+        code: 'PAYLOAD_TOO_LARGE',
+        statusCode: 413,
+      });
+      expect(prismaMock.pluginKvEntry.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects new keys once the key quota is reached', async () => {
+      process.env.PLUGIN_STORAGE_MAX_KEYS = '2';
+      prismaMock.pluginKvEntry.aggregate.mockResolvedValue({ _count: { _all: 2 }, _sum: { sizeBytes: 10 } });
+
+      await expect(PluginStorageService.setValue(ctx, 'third', 1)).rejects.toMatchObject({
+        code: 'QUOTA_EXCEEDED',
+      });
+    });
+
+    it('allows overwriting an existing key at the key quota', async () => {
+      process.env.PLUGIN_STORAGE_MAX_KEYS = '2';
+      prismaMock.pluginKvEntry.aggregate.mockResolvedValue({ _count: { _all: 2 }, _sum: { sizeBytes: 10 } });
+      prismaMock.pluginKvEntry.findMany.mockResolvedValue([{ key: 'second', sizeBytes: 5 }]);
+
+      await PluginStorageService.setValue(ctx, 'second', 2, 60);
+
+      expect(prismaMock.pluginKvEntry.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { installationId_key: { installationId: 'ins_1', key: 'second' } },
+        update: expect.objectContaining({ value: 2, expiresAt: expect.any(Date) }),
+      }));
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * ProductMediaService Unit Tests
+ *
+ * Coverage:
+ * - replaceProductImages: keeps known rows, claims unattached uploads, creates rows
+ *   for new URLs, detaches removed ones and rewrites the typeData.images projection
+ * - reorderProductMedia: rejects orders that do not list every image exactly once
+ * - uploadProductMedia: rejects variants of another product before storing files
+ * - updateProductMedia: a new focal point re-crops the generated sizes
+ * - setMediaTranslation: unsupported locales are rejected
+ * - deleteProductMedia: files are only removed when no other row uses them
+ * - cleanupOrphans: deletes old detached rows and their unused files
+ * - getGalleries: alt text resolved for the locale with fallback to the base alt
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const prisma = {
+    product: { findUnique: vi.fn(), update: vi.fn() },
+    productVariant: { findUnique: vi.fn() },
+    productMedia: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+      count: vi.fn(),
+    },
+    productMediaTranslation: { upsert: vi.fn(), deleteMany: vi.fn() },
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma)),
+  };
+  return {
+    prisma,
+    upload: {
+      uploadProductImage: vi.fn(),
+      regenerateProductImageSizes: vi.fn(),
+      deleteFile: vi.fn(),
+      getProductImageSizes: vi.fn((filename: string) => ({
+        thumbnail: `/uploads/products/thumb_${filename}`,
+        medium: `/uploads/products/medium_${filename}`,
+        large: `/uploads/products/large_${filename}`,
+      })),
+    },
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    deleteProduct: vi.fn(),
+    incrementProductVersion: vi.fn(),
+  },
+}));
+
+vi.mock('@/core/upload/service', () => ({
+  UploadService: mocks.upload,
+}));
+
+import { ProductMediaService } from '@/core/media/service';
+
+const { prisma, upload } = mocks;
+
+function mediaRow(overrides: Record<string, unknown> = {}) {
+  const now = new Date('2026-10-01T00:00:00.000Z');
+  return {
+    id: 'pm-1',
+    productId: 'prod-1',
+    variantId: null,
+    url: '/uploads/products/a.jpg',
+    filename: 'a.jpg',
+    mimeType: 'image/jpeg',
+    fileSize: 1000,
+    width: 800,
+    height: 600,
+    alt: null,
+    focalX: 0.5,
+    focalY: 0.5,
+    sizes: null,
+    sortOrder: 0,
+    translations: [],
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('ProductMediaService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.product.findUnique.mockResolvedValue({ id: 'prod-1', typeData: { images: [], badge: 'new' } });
+    prisma.productMedia.update.mockResolvedValue(mediaRow());
+  });
+
+  describe('replaceProductImages', () => {
+    it('reconciles gallery rows with the submitted URLs and rewrites the projection', async () => {
+      prisma.productMedia.findMany
+        // Current gallery
+        .mockResolvedValueOnce([
+          { id: 'pm-keep', url: '/uploads/products/keep.jpg', sortOrder: 0 },
+          { id: 'pm-drop', url: '/uploads/products/drop.jpg', sortOrder: 1 },
+        ])
+        // Gallery read back for the projection
+        .mockResolvedValueOnce([
+          { url: 'https://cdn.example.com/new.jpg' },
+          { url: '/uploads/products/keep.jpg' },
+          { url: '/uploads/products/claimed.jpg' },
+        ]);
+      prisma.productMedia.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'pm-claimed' });
+
+      await ProductMediaService.replaceProductImages(prisma as any, 'prod-1', [
+        'https://cdn.example.com/new.jpg',
+        '/uploads/products/keep.jpg',
+        '/uploads/products/claimed.jpg',
+        '/uploads/products/keep.jpg',
+      ]);
+
+      expect(prisma.productMedia.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['pm-drop'] } },
+        data: { productId: null, variantId: null },
+      });
+      expect(prisma.productMedia.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          productId: 'prod-1',
+          url: 'https://cdn.example.com/new.jpg',
+          filename: null,
+          sortOrder: 0,
+        }),
+      });
+      expect(prisma.productMedia.update).toHaveBeenCalledWith({ where: { id: 'pm-keep' }, data: { sortOrder: 1 } });
+      expect(prisma.productMedia.update).toHaveBeenCalledWith({
+        where: { id: 'pm-claimed' },
+        data: { productId: 'prod-1', sortOrder: 2 },
+      });
+      expect(prisma.product.update).toHaveBeenCalledWith({
+        where: { id: 'prod-1' },
+        data: {
+          typeData: {
+            badge: 'new',
+            images: ['https://cdn.example.com/new.jpg', '/uploads/products/keep.jpg', '/uploads/products/claimed.jpg'],
+          },
+        },
+      });
+    });
+
+    it('derives generated size URLs for images stored by the upload pipeline', async () => {
+      prisma.productMedia.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+      prisma.productMedia.findFirst.mockResolvedValue(null);
+
+      await ProductMediaService.replaceProductImages(prisma as any, 'prod-1', ['/uploads/products/b.jpg']);
+
+      expect(prisma.productMedia.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          filename: 'b.jpg',
+          sizes: {
+            thumbnail: '/uploads/products/thumb_b.jpg',
+            medium: '/uploads/products/medium_b.jpg',
+            large: '/uploads/products/large_b.jpg',
+          },
+        }),
+      });
+      expect(prisma.productMedia.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('rejects a reorder that does not list every image exactly once', async () => {
+    prisma.productMedia.findMany.mockResolvedValueOnce([{ id: 'pm-1' }, { id: 'pm-2' }]);
+
+    await expect(ProductMediaService.reorderProductMedia('prod-1', ['pm-1', 'pm-1']))
+      .rejects.toThrow('Media order must list every image of the product exactly once');
+    expect(prisma.productMedia.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects uploads assigned to a variant of another product', async () => {
+    prisma.productVariant.findUnique.mockResolvedValue({ productId: 'prod-2' });
+
+    await expect(ProductMediaService.uploadProductMedia('prod-1', {} as any, { variantId: 'var-9' }))
+      .rejects.toThrow('Variant does not belong to this product');
+    expect(upload.uploadProductImage).not.toHaveBeenCalled();
+  });
+
+  it('re-crops generated sizes when the focal point changes', async () => {
+    prisma.productMedia.findUnique.mockResolvedValue(mediaRow());
+    prisma.productMedia.update.mockResolvedValue(mediaRow({ focalX: 0.2, focalY: 0.8 }));
+
+    const result = await ProductMediaService.updateProductMedia('prod-1', 'pm-1', {
+      focalPoint: { x: 0.2, y: 0.8 },
+    });
+
+    expect(upload.regenerateProductImageSizes).toHaveBeenCalledWith('a.jpg', { x: 0.2, y: 0.8 });
+    expect(result.focalPoint).toEqual({ x: 0.2, y: 0.8 });
+  });
+
+  it('rejects alt text translations for unsupported locales', async () => {
+    await expect(ProductMediaService.setMediaTranslation('prod-1', 'pm-1', 'fr', { alt: 'Chemise' }))
+      .rejects.toThrow('Unsupported locale: fr');
+    expect(prisma.productMediaTranslation.upsert).not.toHaveBeenCalled();
+  });
+
+  it('keeps files that another media row still references', async () => {
+    prisma.productMedia.findUnique.mockResolvedValue(mediaRow());
+    prisma.productMedia.findMany.mockResolvedValue([]);
+    prisma.productMedia.count.mockResolvedValue(1);
+
+    await ProductMediaService.deleteProductMedia('prod-1', 'pm-1');
+
+    expect(prisma.productMedia.delete).toHaveBeenCalledWith({ where: { id: 'pm-1' } });
+    expect(upload.deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('cleans up old detached media and removes unused files', async () => {
+    prisma.productMedia.findMany.mockResolvedValue([
+      { id: 'pm-1', filename: 'a.jpg' },
+      { id: 'pm-2', filename: null },
+    ]);
+    prisma.productMedia.deleteMany.mockResolvedValue({ count: 2 });
+    prisma.productMedia.count.mockResolvedValue(0);
+
+    const result = await ProductMediaService.cleanupOrphans({ olderThanHours: 1 });
+
+    expect(result).toEqual({ deleted: 2, filesRemoved: 1 });
+    expect(prisma.productMedia.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { productId: null, updatedAt: { lt: expect.any(Date) } },
+    }));
+    expect(upload.deleteFile).toHaveBeenCalledWith('products/a.jpg');
+  });
+
+  it('resolves gallery alt text for the locale with a fallback to the base alt', async () => {
+    prisma.productMedia.findMany.mockResolvedValue([
+      mediaRow({ id: 'pm-1', alt: 'Blue shirt', translations: [{ alt: '藍色襯衫' }] }),
+      mediaRow({ id: 'pm-2', alt: 'Back view', variantId: 'var-1', sortOrder: 1 }),
+    ]);
+
+    const galleries = await ProductMediaService.getGalleries(['prod-1'], 'zh-Hant');
+
+    expect(galleries.get('prod-1')).toEqual([
+      expect.objectContaining({ id: 'pm-1', alt: '藍色襯衫', variantId: null }),
+      expect.objectContaining({ id: 'pm-2', alt: 'Back view', variantId: 'var-1' }),
+    ]);
+  });
+});
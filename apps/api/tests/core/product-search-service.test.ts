@@ -0,0 +1,116 @@
+/**
+ * ProductSearchService Unit Tests
+ *
+ * Coverage:
+ * - search: blank query short-circuits, page slicing over ranked candidates,
+ *   facet assembly (categories, price, attribute grouping, availability)
+ * - search: did-you-mean suggestion only when nothing matched exactly
+ * - matchProductIds: returns candidate IDs in ranking order
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const { mockQueryRaw } = vi.hoisted(() => ({
+  mockQueryRaw: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: {
+    $queryRaw: mockQueryRaw,
+  },
+}));
+
+import { ProductSearchService } from '@/core/search/service';
+
+function candidates(ids: string[], exact = true) {
+  return ids.map((id, index) => ({ id, score: 1 - index / 10, exact }));
+}
+
+/** Queue the four facet queries in the order the service issues them. */
+function queueFacets() {
+  mockQueryRaw
+    .mockResolvedValueOnce([{ id: 'cat-1', name: 'Shirts', slug: 'shirts', count: 2 }])
+    .mockResolvedValueOnce([{ min: '9.99', max: '29.50' }])
+    .mockResolvedValueOnce([
+      { name: 'color', value: 'blue', count: 2 },
+      { name: 'color', value: 'red', count: 1 },
+      { name: 'size', value: 'M', count: 3 },
+    ])
+    .mockResolvedValueOnce([{ inStock: 2, outOfStock: 1 }]);
+}
+
+describe('ProductSearchService', () => {
+  beforeEach(() => {
+    mockQueryRaw.mockReset();
+  });
+
+  it('returns an empty result for a blank query without querying the database', async () => {
+    const result = await ProductSearchService.search({ q: '   ', locale: 'en', page: 1, limit: 10 });
+
+    expect(result).toEqual({
+      productIds: [],
+      total: 0,
+      facets: { categories: [], price: null, attributes: [], availability: { inStock: 0, outOfStock: 0 } },
+      suggestion: null,
+    });
+    expect(mockQueryRaw).not.toHaveBeenCalled();
+  });
+
+  it('pages through ranked candidates and assembles facets', async () => {
+    mockQueryRaw.mockResolvedValueOnce(candidates(['p1', 'p2', 'p3']));
+    queueFacets();
+
+    const result = await ProductSearchService.search({ q: 'shirt', locale: 'en', page: 2, limit: 2 });
+
+    expect(result.productIds).toEqual(['p3']);
+    expect(result.total).toBe(3);
+    expect(result.suggestion).toBeNull();
+    expect(result.facets).toEqual({
+      categories: [{ id: 'cat-1', name: 'Shirts', slug: 'shirts', count: 2 }],
+      price: { min: 9.99, max: 29.5 },
+      attributes: [
+        { name: 'color', values: [{ value: 'blue', count: 2 }, { value: 'red', count: 1 }] },
+        { name: 'size', values: [{ value: 'M', count: 3 }] },
+      ],
+      availability: { inStock: 2, outOfStock: 1 },
+    });
+    // Candidates + four facet queries, no suggestion lookup
+    expect(mockQueryRaw).toHaveBeenCalledTimes(5);
+  });
+
+  it('suggests a corrected query when only fuzzy matches were found', async () => {
+    mockQueryRaw.mockResolvedValueOnce(candidates(['p1'], false));
+    queueFacets();
+    mockQueryRaw
+      .mockResolvedValueOnce([{ word: 'blue', score: 0.5 }])
+      .mockResolvedValueOnce([{ word: 'shirt', score: 0.4 }]);
+
+    const result = await ProductSearchService.search({ q: 'bleu shrit', locale: 'en', page: 1, limit: 10 });
+
+    expect(result.productIds).toEqual(['p1']);
+    expect(result.suggestion).toBe('blue shirt');
+  });
+
+  it('returns no suggestion when no indexed word is similar enough', async () => {
+    mockQueryRaw
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ word: 'lamp', score: 0.1 }]);
+
+    const result = await ProductSearchService.search({ q: 'xyzzy', locale: 'en', page: 1, limit: 10 });
+
+    expect(result.total).toBe(0);
+    expect(result.facets.categories).toEqual([]);
+    expect(result.suggestion).toBeNull();
+    // Candidates + one suggestion lookup; facets are skipped for an empty match set
+    expect(mockQueryRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('matchProductIds returns candidate IDs in ranking order', async () => {
+    mockQueryRaw.mockResolvedValueOnce(candidates(['p2', 'p1']));
+
+    const ids = await ProductSearchService.matchProductIds('widget', 'zh-Hant');
+
+    expect(ids).toEqual(['p2', 'p1']);
+    expect(mockQueryRaw).toHaveBeenCalledTimes(1);
+  });
+});
@@ -5,8 +5,9 @@
  * - getPublicProducts: pagination (page/limit), search filter, cache hit returns cached,
  *   basic result formatting (price from min variant, stock from sum, images from typeData)
  * - getProductById: success path returns DTO, product not found returns null,
- *   translations applied when locale differs from default
- * - searchProducts: returns results with pagination
+ *   translations applied when locale differs from default, customer group visibility and prices
+ * - searchProducts: pages through ranked search matches, keeps ranking order,
+ *   returns facets and suggestion
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
@@ -37,6 +38,9 @@ vi.mock('@/config/database', () => ({
     externalVariantLink: {
       findMany: vi.fn(),
     },
+    customerGroupPrice: {
+      findMany: vi.fn(),
+    },
   },
 }));
 
@@ -55,6 +59,19 @@ vi.mock('@/core/inventory/service', () => ({
   },
 }));
 
+vi.mock('@/core/search/service', () => ({
+  ProductSearchService: {
+    search: vi.fn(),
+    matchProductIds: vi.fn(),
+  },
+}));
+
+vi.mock('@/core/media/service', () => ({
+  ProductMediaService: {
+    getGalleries: vi.fn().mockResolvedValue(new Map()),
+  },
+}));
+
 // ---------------------------------------------------------------------------
 // Imports (after mocks)
 // ---------------------------------------------------------------------------
@@ -63,6 +80,7 @@ import { ProductService } from '@/core/product/service';
 import { prisma } from '@/config/database';
 import { CacheService } from '@/core/cache/service';
 import { InventoryService } from '@/core/inventory/service';
+import { ProductSearchService } from '@/core/search/service';
 
 // ---------------------------------------------------------------------------
 // Typed mock helpers
@@ -89,6 +107,9 @@ const mockPrisma = prisma as unknown as {
   externalVariantLink: {
     findMany: ReturnType<typeof vi.fn>;
   };
+  customerGroupPrice: {
+    findMany: ReturnType<typeof vi.fn>;
+  };
 };
 
 const mockCache = CacheService as unknown as {
@@ -102,6 +123,18 @@ const mockInventory = InventoryService as unknown as {
   getVariantIdsByAvailability: ReturnType<typeof vi.fn>;
 };
 
+const mockSearch = ProductSearchService as unknown as {
+  search: ReturnType<typeof vi.fn>;
+  matchProductIds: ReturnType<typeof vi.fn>;
+};
+
+const EMPTY_FACETS = {
+  categories: [],
+  price: null,
+  attributes: [],
+  availability: { inStock: 0, outOfStock: 0 },
+};
+
 // ---------------------------------------------------------------------------
 // Shared fixtures
 // ---------------------------------------------------------------------------
@@ -202,7 +235,8 @@ describe('ProductService', () => {
       expect(item.images).toEqual(['img1.jpg', 'img2.jpg']);
     });
 
-    it('should apply search filter to name and description', async () => {
+    it('should restrict results to full-text search matches', async () => {
+      mockSearch.matchProductIds.mockResolvedValue(['prod-1']);
       mockPrisma.product.findMany.mockResolvedValue([MOCK_PRODUCT]);
       mockPrisma.product.count.mockResolvedValue(1);
       mockInventory.getAvailableStockByVariantIds.mockResolvedValue(new Map([
@@ -212,18 +246,25 @@ describe('ProductService', () => {
 
       await ProductService.getPublicProducts(1, 10, { search: 'Widget' });
 
+      expect(mockSearch.matchProductIds).toHaveBeenCalledWith('Widget', 'en', []);
       expect(mockPrisma.product.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
-            OR: [
-              { name: { contains: 'Widget', mode: 'insensitive' } },
-              { description: { contains: 'Widget', mode: 'insensitive' } },
-            ],
+            id: { in: ['prod-1'] },
           }),
         })
       );
     });
 
+    it('should return an empty page without querying products when nothing matches the search', async () => {
+      mockSearch.matchProductIds.mockResolvedValue([]);
+
+      const result = await ProductService.getPublicProducts(1, 10, { search: 'nothing' });
+
+      expect(result).toEqual({ items: [], page: 1, limit: 10, total: 0, totalPages: 0 });
+      expect(mockPrisma.product.findMany).not.toHaveBeenCalled();
+    });
+
     it('should return cached result on cache hit without querying database', async () => {
       const cachedResult = {
         items: [{ id: 'prod-cached', name: 'Cached' }],
@@ -279,6 +320,29 @@ describe('ProductService', () => {
       });
     });
 
+    it('should show group-restricted products and group prices to customer group members', async () => {
+      mockPrisma.product.findFirst.mockResolvedValue(MOCK_PRODUCT);
+      mockPrisma.customerGroupPrice.findMany.mockResolvedValue([
+        { variantId: 'var-2', price: 15 },
+        { variantId: 'var-2', price: 12.5 },
+      ]);
+
+      const result = await ProductService.getProductById('prod-1', 'en', undefined, ['grp-1', 'grp-2']);
+
+      expect(mockPrisma.product.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          id: 'prod-1',
+          isActive: true,
+          OR: [
+            { customerGroups: { none: {} } },
+            { customerGroups: { some: { groupId: { in: ['grp-1', 'grp-2'] } } } },
+          ],
+        },
+      }));
+      expect(result!.variants.map((variant: { salePrice: number }) => variant.salePrice)).toEqual([9.99, 12.5]);
+      expect(mockCache.set).toHaveBeenCalledWith('pub:products:detail:v1:prod-1:en:g:grp-1,grp-2', result, { ttl: 60 });
+    });
+
     it('should return null when product is not found', async () => {
       mockPrisma.product.findFirst.mockResolvedValue(null);
 
@@ -323,8 +387,13 @@ describe('ProductService', () => {
 
   describe('searchProducts', () => {
     it('should return matching products with pagination metadata', async () => {
+      mockSearch.search.mockResolvedValue({
+        productIds: ['prod-1'],
+        total: 1,
+        facets: EMPTY_FACETS,
+        suggestion: null,
+      });
       mockPrisma.product.findMany.mockResolvedValue([MOCK_PRODUCT]);
-      mockPrisma.product.count.mockResolvedValue(1);
       mockInventory.getAvailableStockByVariantIds.mockResolvedValue(new Map([
         ['var-1', 50],
         ['var-2', 30],
@@ -332,30 +401,29 @@ describe('ProductService', () => {
 
       const result = await ProductService.searchProducts('Widget', 1, 10);
 
-      expect(mockPrisma.product.findMany).toHaveBeenCalledWith(
-        expect.objectContaining({
-          include: {
-            variants: {
-              where: { isActive: true },
-            },
-          },
-          where: {
-            isActive: true,
-            OR: [
-              { name: { contains: 'Widget', mode: 'insensitive' } },
-              { description: { contains: 'Widget', mode: 'insensitive' } },
-            ],
+      expect(mockSearch.search).toHaveBeenCalledWith({
+        customerGroupIds: [],
+        q: 'Widget',
+        locale: 'en',
+        page: 1,
+        limit: 10,
+      });
+      expect(mockPrisma.product.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['prod-1'] } },
+        include: {
+          variants: {
+            where: { isActive: true },
           },
-          skip: 0,
-          take: 10,
-        })
-      );
+        },
+      });
 
       expect(result).toMatchObject({
         page: 1,
         limit: 10,
         total: 1,
         totalPages: 1,
+        facets: EMPTY_FACETS,
+        suggestion: null,
       });
       expect(result.items).toHaveLength(1);
       expect(result.items[0]).toMatchObject({
@@ -366,5 +434,50 @@ describe('ProductService', () => {
         images: ['img1.jpg', 'img2.jpg'],
       });
     });
+
+    it('should keep the search ranking order and pass filters through', async () => {
+      const facets = {
+        ...EMPTY_FACETS,
+        categories: [{ id: 'cat-1', name: 'Tools', slug: 'tools', count: 2 }],
+      };
+      mockSearch.search.mockResolvedValue({
+        productIds: ['prod-2', 'prod-1'],
+        total: 12,
+        facets,
+        suggestion: 'gadget',
+      });
+      mockPrisma.product.findMany.mockResolvedValue([MOCK_PRODUCT, MOCK_PRODUCT_2]);
+
+      const result = await ProductService.searchProducts('gadgte', 2, 2, 'en', undefined, {
+        category: 'cat-1',
+        attributes: { size: ['S'] },
+        sort: 'price_asc',
+      });
+
+      expect(mockSearch.search).toHaveBeenCalledWith(expect.objectContaining({
+        q: 'gadgte',
+        page: 2,
+        limit: 2,
+        category: 'cat-1',
+        attributes: { size: ['S'] },
+        sort: 'price_asc',
+      }));
+      expect(result.items.map((item: { id: string }) => item.id)).toEqual(['prod-2', 'prod-1']);
+      expect(result).toMatchObject({ total: 12, totalPages: 6, facets, suggestion: 'gadget' });
+    });
+
+    it('should skip the product query when nothing matches', async () => {
+      mockSearch.search.mockResolvedValue({
+        productIds: [],
+        total: 0,
+        facets: EMPTY_FACETS,
+        suggestion: 'widget',
+      });
+
+      const result = await ProductService.searchProducts('wdiget', 1, 10);
+
+      expect(mockPrisma.product.findMany).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ items: [], total: 0, suggestion: 'widget' });
+    });
   });
 });
@@ -0,0 +1,90 @@
+/**
+ * Reservation Expiry Job Tests
+ *
+ * Tests that expiry is handed to BullMQ only when this process consumes the
+ * queue, and otherwise runs in-process.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  schedule: vi.fn(),
+  workersRunning: vi.fn(),
+  findOrdersWithExpiredReservations: vi.fn(),
+  expireUnpaidOrder: vi.fn(),
+}));
+
+vi.mock('@/infra/jobs/queue-manager', () => ({
+  queueManager: { schedule: mocks.schedule },
+}));
+
+vi.mock('@/infra/jobs/worker-manager', () => ({
+  workerManager: { isRunning: mocks.workersRunning },
+}));
+
+vi.mock('@/core/inventory/service', () => ({
+  InventoryService: { findOrdersWithExpiredReservations: mocks.findOrdersWithExpiredReservations },
+}));
+
+vi.mock('@/core/order/service', () => ({
+  OrderService: { expireUnpaidOrder: mocks.expireUnpaidOrder },
+}));
+
+vi.mock('@/core/logger/unified-logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { ReservationExpiryJob } from '@/jobs/reservation-expiry';
+
+describe('ReservationExpiryJob.start', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    mocks.schedule.mockResolvedValue(true);
+    mocks.findOrdersWithExpiredReservations.mockResolvedValue(['order-1']);
+    mocks.expireUnpaidOrder.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    ReservationExpiryJob.stop();
+    vi.useRealTimers();
+  });
+
+  it('schedules a repeatable job when this process runs the workers', async () => {
+    mocks.workersRunning.mockReturnValue(true);
+
+    await ReservationExpiryJob.start({ intervalMs: 1000, limit: 10 });
+
+    expect(mocks.schedule).toHaveBeenCalledWith(
+      'stock-alert',
+      'reservation-expiry',
+      1000,
+      expect.objectContaining({ limit: 10 })
+    );
+    expect(ReservationExpiryJob.getStatus().hasScheduledUpdates).toBe(false);
+    expect(mocks.findOrdersWithExpiredReservations).not.toHaveBeenCalled();
+  });
+
+  it('expires reservations in-process when no worker runs here', async () => {
+    mocks.workersRunning.mockReturnValue(false);
+
+    await ReservationExpiryJob.start({ intervalMs: 1000, limit: 10 });
+
+    expect(mocks.schedule).not.toHaveBeenCalled();
+    expect(ReservationExpiryJob.getStatus().hasScheduledUpdates).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(mocks.findOrdersWithExpiredReservations).toHaveBeenCalledTimes(2);
+    expect(mocks.expireUnpaidOrder).toHaveBeenCalledWith('order-1');
+  });
+
+  it('falls back to in-process when scheduling fails', async () => {
+    mocks.workersRunning.mockReturnValue(true);
+    mocks.schedule.mockResolvedValue(false);
+
+    await ReservationExpiryJob.start({ intervalMs: 1000, limit: 10 });
+
+    expect(ReservationExpiryJob.getStatus().hasScheduledUpdates).toBe(true);
+  });
+});
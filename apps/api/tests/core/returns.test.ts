@@ -0,0 +1,344 @@
+/**
+ * Return (RMA) Service Unit Tests
+ *
+ * Coverage:
+ * - createReturn: only shipped/delivered paid orders; quantities are limited by open
+ *   returns and refunds made outside a return; photos must come from the upload endpoint
+ * - approveReturn / rejectReturn: conditional status transitions emit return.* events
+ * - receiveReturn: every line needs an inspection result; resellable lines are restocked
+ *   into the chosen warehouse and the returned lines are refunded without restock
+ * - refundReturn: provider rejections keep the failed refund linked; retries use a new key
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const prisma: any = {
+    order: { findFirst: vi.fn() },
+    refund: { findMany: vi.fn(), findUnique: vi.fn() },
+    warehouse: { findUnique: vi.fn() },
+    returnRequest: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    returnItem: { update: vi.fn() },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma));
+  return {
+    prisma,
+    emit: vi.fn(),
+    adjustInventory: vi.fn(),
+    requestOrderRefund: vi.fn(),
+    uploadReturnPhoto: vi.fn(),
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/infra/outbox', () => ({
+  OutboxService: { emit: mocks.emit },
+}));
+
+vi.mock('@/core/inventory/service', () => ({
+  InventoryService: { adjustInventory: mocks.adjustInventory },
+}));
+
+vi.mock('@/core/payment/refunds', () => ({
+  requestOrderRefund: mocks.requestOrderRefund,
+}));
+
+vi.mock('@/core/upload/service', () => ({
+  UploadService: { uploadReturnPhoto: mocks.uploadReturnPhoto },
+}));
+
+vi.mock('@/core/logger/unified-logger', () => ({
+  LoggerService: { logError: vi.fn() },
+}));
+
+import { ReturnService } from '@/core/returns/service';
+
+const shippedOrder = (overrides: Record<string, unknown> = {}) => ({
+  id: 'order-1',
+  userId: 'user-1',
+  status: 'DELIVERED',
+  paymentStatus: 'PAID',
+  items: [
+    { id: 'item-1', quantity: 2 },
+    { id: 'item-2', quantity: 1 },
+  ],
+  ...overrides,
+});
+
+const returnRequest = (overrides: Record<string, unknown> = {}) => ({
+  id: 'ret-1',
+  orderId: 'order-1',
+  status: 'APPROVED',
+  reason: 'DAMAGED',
+  customerNote: null,
+  photos: null,
+  rejectionReason: null,
+  carrier: null,
+  trackingNumber: null,
+  labelUrl: null,
+  warehouseId: null,
+  inspectionNote: null,
+  refundId: null,
+  refund: null,
+  approvedAt: new Date('2026-10-01T00:00:00Z'),
+  rejectedAt: null,
+  receivedAt: null,
+  createdAt: new Date('2026-09-30T00:00:00Z'),
+  updatedAt: new Date('2026-10-01T00:00:00Z'),
+  items: [
+    {
+      id: 'ri-1',
+      orderItemId: 'item-1',
+      quantity: 2,
+      reason: null,
+      inspectionResult: null,
+      orderItem: { variantId: 'var-1', product: { name: 'Mug' }, variant: { name: 'Blue' } },
+    },
+    {
+      id: 'ri-2',
+      orderItemId: 'item-2',
+      quantity: 1,
+      reason: null,
+      inspectionResult: null,
+      orderItem: { variantId: 'var-2', product: { name: 'Plate' }, variant: null },
+    },
+  ],
+  ...overrides,
+});
+
+describe('ReturnService.createReturn', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.prisma.order.findFirst.mockResolvedValue(shippedOrder());
+    mocks.prisma.returnRequest.findMany.mockResolvedValue([]);
+    mocks.prisma.refund.findMany.mockResolvedValue([]);
+    mocks.prisma.returnRequest.create.mockImplementation(async ({ data }) => returnRequest({
+      status: 'REQUESTED',
+      reason: data.reason,
+      photos: data.photos ?? null,
+      items: data.items.create.map((line: any, index: number) => ({
+        id: `ri-${index + 1}`,
+        ...line,
+        reason: line.reason ?? null,
+        inspectionResult: null,
+        orderItem: { variantId: 'var-1', product: { name: 'Mug' }, variant: null },
+      })),
+    }));
+  });
+
+  it('creates the request and emits return.requested', async () => {
+    const result = await ReturnService.createReturn('order-1', 'user-1', {
+      reason: 'DAMAGED',
+      photos: ['https://cdn.example.com/uploads/returns/a.jpg'],
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+    });
+
+    expect(result.status).toBe('REQUESTED');
+    expect(result.photos).toEqual(['https://cdn.example.com/uploads/returns/a.jpg']);
+    expect(mocks.emit).toHaveBeenCalledWith(
+      mocks.prisma,
+      'return.requested',
+      'ret-1',
+      expect.objectContaining({ orderId: 'order-1', items: [{ orderItemId: 'item-1', quantity: 1, inspectionResult: null }] }),
+      { actorId: 'user-1' }
+    );
+  });
+
+  it('rejects orders that have not shipped', async () => {
+    mocks.prisma.order.findFirst.mockResolvedValue(shippedOrder({ status: 'PROCESSING' }));
+
+    await expect(ReturnService.createReturn('order-1', 'user-1', {
+      reason: 'DAMAGED',
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+    })).rejects.toThrow('Only shipped or delivered orders can be returned');
+  });
+
+  it('rejects orders of another customer', async () => {
+    mocks.prisma.order.findFirst.mockResolvedValue(null);
+
+    await expect(ReturnService.createReturn('order-1', 'user-2', {
+      reason: 'DAMAGED',
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+    })).rejects.toThrow('Order not found');
+  });
+
+  it('subtracts open returns and refunds outside a return from the returnable quantity', async () => {
+    mocks.prisma.returnRequest.findMany.mockResolvedValue([{ items: [{ orderItemId: 'item-1', quantity: 1 }] }]);
+    mocks.prisma.refund.findMany.mockResolvedValue([{ items: [{ orderItemId: 'item-1', quantity: 1 }] }]);
+
+    await expect(ReturnService.createReturn('order-1', 'user-1', {
+      reason: 'DAMAGED',
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+    })).rejects.toThrow('Return quantity for order item item-1 must be between 1 and 0');
+    expect(mocks.prisma.refund.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ returnRequest: { is: null } }),
+    }));
+    expect(mocks.prisma.returnRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects lines that are not on the order', async () => {
+    await expect(ReturnService.createReturn('order-1', 'user-1', {
+      reason: 'DAMAGED',
+      items: [{ orderItemId: 'item-9', quantity: 1 }],
+    })).rejects.toThrow('Order item item-9 is not part of this order');
+  });
+
+  it('rejects photos that were not uploaded for returns', async () => {
+    await expect(ReturnService.createReturn('order-1', 'user-1', {
+      reason: 'DAMAGED',
+      photos: ['https://example.com/evil.jpg'],
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+    })).rejects.toThrow('Return photos must be uploaded through the return photo endpoint');
+  });
+});
+
+describe('ReturnService approve / reject', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.prisma.returnRequest.findUniqueOrThrow.mockResolvedValue(returnRequest());
+  });
+
+  it('approves a requested return with its label', async () => {
+    mocks.prisma.returnRequest.updateMany.mockResolvedValue({ count: 1 });
+
+    await ReturnService.approveReturn('ret-1', { carrier: 'UPS', trackingNumber: '1Z' }, { actorId: 'admin-1' });
+
+    expect(mocks.prisma.returnRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'ret-1', status: { in: ['REQUESTED'] } },
+      data: expect.objectContaining({ status: 'APPROVED', carrier: 'UPS', trackingNumber: '1Z', labelUrl: null }),
+    });
+    expect(mocks.emit).toHaveBeenCalledWith(mocks.prisma, 'return.approved', 'ret-1', expect.any(Object), { actorId: 'admin-1' });
+  });
+
+  it('refuses to reject a received return', async () => {
+    mocks.prisma.returnRequest.updateMany.mockResolvedValue({ count: 0 });
+    mocks.prisma.returnRequest.findUnique.mockResolvedValue({ status: 'RECEIVED' });
+
+    await expect(ReturnService.rejectReturn('ret-1', 'Too late')).rejects.toThrow(
+      'Cannot move a RECEIVED return request to REJECTED'
+    );
+    expect(mocks.emit).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReturnService.receiveReturn', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.prisma.returnRequest.findUnique.mockResolvedValue(returnRequest());
+    mocks.prisma.returnRequest.findUniqueOrThrow.mockResolvedValue(returnRequest({ status: 'RECEIVED' }));
+    mocks.prisma.returnRequest.updateMany.mockResolvedValue({ count: 1 });
+    mocks.prisma.warehouse.findUnique.mockResolvedValue({ isActive: true });
+    mocks.requestOrderRefund.mockResolvedValue({ id: 'refund-1' });
+  });
+
+  it('restocks resellable lines and refunds every returned line', async () => {
+    mocks.prisma.returnRequest.findUnique
+      .mockResolvedValueOnce(returnRequest())
+      .mockResolvedValueOnce(returnRequest({ status: 'RECEIVED' }))
+      .mockResolvedValue(returnRequest({ status: 'RECEIVED', refundId: 'refund-1' }));
+
+    await ReturnService.receiveReturn('ret-1', {
+      warehouseId: 'wh-1',
+      items: [
+        { orderItemId: 'item-1', inspectionResult: 'RESELLABLE' },
+        { orderItemId: 'item-2', inspectionResult: 'DAMAGED' },
+      ],
+    }, { actorId: 'admin-1', authorization: 'Bearer t' });
+
+    expect(mocks.prisma.returnItem.update).toHaveBeenCalledWith({ where: { id: 'ri-2' }, data: { inspectionResult: 'DAMAGED' } });
+    expect(mocks.emit).toHaveBeenCalledWith(mocks.prisma, 'return.received', 'ret-1', expect.any(Object), { actorId: 'admin-1' });
+    expect(mocks.adjustInventory).toHaveBeenCalledTimes(1);
+    expect(mocks.adjustInventory).toHaveBeenCalledWith(expect.objectContaining({
+      warehouseId: 'wh-1',
+      variantId: 'var-1',
+      type: 'return',
+      quantity: 2,
+      referenceId: 'ret-1',
+    }));
+    expect(mocks.requestOrderRefund).toHaveBeenCalledWith('order-1', expect.objectContaining({
+      idempotencyKey: 'return:ret-1',
+      items: [{ orderItemId: 'item-1', quantity: 2 }, { orderItemId: 'item-2', quantity: 1 }],
+      restock: false,
+      authorization: 'Bearer t',
+    }));
+    expect(mocks.prisma.returnRequest.update).toHaveBeenCalledWith({ where: { id: 'ret-1' }, data: { refundId: 'refund-1' } });
+  });
+
+  it('requires an inspection result for every line', async () => {
+    await expect(ReturnService.receiveReturn('ret-1', {
+      warehouseId: 'wh-1',
+      items: [{ orderItemId: 'item-1', inspectionResult: 'RESELLABLE' }],
+    })).rejects.toThrow('Inspection result missing for order item item-2');
+    expect(mocks.prisma.returnRequest.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('requires a warehouse when a line is resellable', async () => {
+    await expect(ReturnService.receiveReturn('ret-1', {
+      items: [
+        { orderItemId: 'item-1', inspectionResult: 'RESELLABLE' },
+        { orderItemId: 'item-2', inspectionResult: 'DAMAGED' },
+      ],
+    })).rejects.toThrow('warehouseId is required to restock resellable items');
+  });
+
+  it('keeps the receipt when the refund is rejected', async () => {
+    mocks.prisma.returnRequest.findUnique
+      .mockResolvedValueOnce(returnRequest())
+      .mockResolvedValue(returnRequest({ status: 'RECEIVED' }));
+    mocks.requestOrderRefund.mockRejectedValue(new Error('Payment provider rejected the refund: card closed'));
+    mocks.prisma.refund.findUnique.mockResolvedValue({ id: 'refund-failed' });
+
+    const result = await ReturnService.receiveReturn('ret-1', {
+      items: [
+        { orderItemId: 'item-1', inspectionResult: 'DAMAGED' },
+        { orderItemId: 'item-2', inspectionResult: 'DAMAGED' },
+      ],
+    });
+
+    expect(result.status).toBe('RECEIVED');
+    expect(mocks.adjustInventory).not.toHaveBeenCalled();
+    expect(mocks.prisma.returnRequest.update).toHaveBeenCalledWith({ where: { id: 'ret-1' }, data: { refundId: 'refund-failed' } });
+  });
+});
+
+describe('ReturnService.refundReturn', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.requestOrderRefund.mockResolvedValue({ id: 'refund-2' });
+  });
+
+  it('retries a failed refund under a new idempotency key', async () => {
+    mocks.prisma.returnRequest.findUnique.mockResolvedValue(returnRequest({
+      status: 'RECEIVED',
+      refundId: 'refund-1',
+      refund: { id: 'refund-1', amount: 45, currency: 'USD', status: 'FAILED' },
+    }));
+
+    await ReturnService.refundReturn('ret-1', { actorId: 'admin-1' });
+
+    expect(mocks.requestOrderRefund).toHaveBeenCalledWith('order-1', expect.objectContaining({
+      idempotencyKey: 'return:ret-1:after:refund-1',
+    }));
+    expect(mocks.prisma.returnRequest.update).toHaveBeenCalledWith({ where: { id: 'ret-1' }, data: { refundId: 'refund-2' } });
+  });
+
+  it('refuses a second refund while the first is pending or completed', async () => {
+    mocks.prisma.returnRequest.findUnique.mockResolvedValue(returnRequest({
+      status: 'RECEIVED',
+      refund: { id: 'refund-1', amount: 45, currency: 'USD', status: 'PENDING' },
+    }));
+
+    await expect(ReturnService.refundReturn('ret-1')).rejects.toThrow('Return request has already been refunded');
+    expect(mocks.requestOrderRefund).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Product Review Service Unit Tests
+ *
+ * Coverage:
+ * - createReview: verified purchase against a delivered order line, one review per
+ *   product, rating/text validation, link, rate and duplicate-text spam guards
+ * - approveReview / rejectReview: conditional transitions refresh the product and
+ *   variant rating aggregate and emit review.* events
+ * - updateOwnReview: edits go back to moderation and leave the rating
+ * - getReviewSummary: star distribution and rounded average of approved reviews
+ * - setReply: empty replies are rejected
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const prisma: any = {
+    product: { findFirst: vi.fn(), update: vi.fn() },
+    productVariant: { update: vi.fn() },
+    orderItem: { findFirst: vi.fn() },
+    productReview: {
+      aggregate: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      groupBy: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma));
+  return {
+    prisma,
+    emit: vi.fn(),
+    deleteProduct: vi.fn(),
+    incrementProductVersion: vi.fn(),
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/infra/outbox', () => ({
+  OutboxService: { emit: mocks.emit },
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    deleteProduct: mocks.deleteProduct,
+    incrementProductVersion: mocks.incrementProductVersion,
+  },
+}));
+
+import { ReviewService } from '@/core/reviews/service';
+
+const { prisma } = mocks;
+
+function reviewRow(overrides: Record<string, unknown> = {}) {
+  const now = new Date('2026-10-01T00:00:00.000Z');
+  return {
+    id: 'rev-1',
+    productId: 'prod-1',
+    variantId: 'var-1',
+    userId: 'user-1',
+    orderItemId: 'item-1',
+    rating: 4,
+    title: null,
+    body: 'Fits well and the fabric is soft.',
+    status: 'PENDING',
+    rejectionReason: null,
+    moderatedAt: null,
+    moderatedById: null,
+    reply: null,
+    repliedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    user: { id: 'user-1', email: 'ann@example.com', username: 'ann' },
+    variant: { name: 'Blue / M' },
+    product: { name: 'Shirt' },
+    ...overrides,
+  };
+}
+
+const validInput = { rating: 5, body: 'Great shirt, true to size.' };
+
+describe('ReviewService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.product.findFirst.mockResolvedValue({ id: 'prod-1' });
+    prisma.productReview.findUnique.mockResolvedValue(null);
+    prisma.productReview.count.mockResolvedValue(0);
+    prisma.productReview.findMany.mockResolvedValue([]);
+    prisma.orderItem.findFirst.mockResolvedValue({ id: 'item-1', variantId: 'var-1' });
+    prisma.productReview.aggregate.mockResolvedValue({ _avg: { rating: 4.333333 }, _count: { _all: 3 } });
+  });
+
+  describe('createReview', () => {
+    it('links the delivered order line and emits review.submitted', async () => {
+      prisma.productReview.create.mockResolvedValue(reviewRow({ rating: 5, body: validInput.body }));
+
+      const review = await ReviewService.createReview('prod-1', 'user-1', validInput);
+
+      expect(prisma.orderItem.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          productId: 'prod-1',
+          order: { userId: 'user-1', status: { in: ['DELIVERED', 'COMPLETED'] } },
+        },
+      }));
+      expect(prisma.productReview.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          productId: 'prod-1',
+          variantId: 'var-1',
+          userId: 'user-1',
+          orderItemId: 'item-1',
+          rating: 5,
+          title: null,
+          body: validInput.body,
+        },
+      }));
+      expect(mocks.emit).toHaveBeenCalledWith(prisma, 'review.submitted', 'rev-1', expect.objectContaining({
+        status: 'PENDING',
+        rating: 5,
+      }), { actorId: 'user-1' });
+      expect(review).toEqual(expect.objectContaining({ status: 'PENDING', verifiedPurchase: true, authorName: 'ann' }));
+    });
+
+    it('rejects customers without a delivered order', async () => {
+      prisma.orderItem.findFirst.mockResolvedValue(null);
+
+      await expect(ReviewService.createReview('prod-1', 'user-1', validInput))
+        .rejects.toThrow('Only customers with a delivered order can review this product');
+      expect(prisma.productReview.create).not.toHaveBeenCalled();
+    });
+
+    it('allows one review per product', async () => {
+      prisma.productReview.findUnique.mockResolvedValue({ id: 'rev-1' });
+
+      await expect(ReviewService.createReview('prod-1', 'user-1', validInput))
+        .rejects.toThrow('You have already reviewed this product');
+    });
+
+    it.each([
+      [{ rating: 0, body: validInput.body }, 'Rating must be a whole number from 1 to 5'],
+      [{ rating: 4.5, body: validInput.body }, 'Rating must be a whole number from 1 to 5'],
+      [{ rating: 4, body: 'Too short' }, 'Review text must be between 10 and 5000 characters'],
+      [
+        { rating: 4, body: 'Buy here https://a.example www.b.example http://c.example' },
+        'Reviews may contain at most 2 links',
+      ],
+    ])('validates %o', async (input, message) => {
+      await expect(ReviewService.createReview('prod-1', 'user-1', input)).rejects.toThrow(message);
+      expect(prisma.orderItem.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('limits the number of reviews per customer and day', async () => {
+      prisma.productReview.count.mockResolvedValue(5);
+
+      await expect(ReviewService.createReview('prod-1', 'user-1', validInput))
+        .rejects.toThrow('Review limit reached, please try again later');
+    });
+
+    it('rejects text the customer already posted for another product', async () => {
+      prisma.productReview.findMany.mockResolvedValue([{ body: '  great SHIRT,   true to size. ' }]);
+
+      await expect(ReviewService.createReview('prod-1', 'user-1', validInput))
+        .rejects.toThrow('Duplicate review text');
+    });
+  });
+
+  describe('moderation', () => {
+    it('approves a review and refreshes the product and variant rating', async () => {
+      prisma.productReview.updateMany.mockResolvedValue({ count: 1 });
+      prisma.productReview.findUniqueOrThrow.mockResolvedValue(reviewRow({ status: 'APPROVED' }));
+
+      await ReviewService.approveReview('rev-1', 'admin-1');
+
+      expect(prisma.productReview.updateMany).toHaveBeenCalledWith({
+        where: { id: 'rev-1', status: { not: 'APPROVED' } },
+        data: expect.objectContaining({ status: 'APPROVED', rejectionReason: null, moderatedById: 'admin-1' }),
+      });
+      expect(prisma.product.update).toHaveBeenCalledWith({
+        where: { id: 'prod-1' },
+        data: { ratingAverage: 4.33, reviewCount: 3 },
+      });
+      expect(prisma.productVariant.update).toHaveBeenCalledWith({
+        where: { id: 'var-1' },
+        data: { ratingAverage: 4.33, reviewCount: 3 },
+      });
+      expect(mocks.emit).toHaveBeenCalledWith(prisma, 'review.approved', 'rev-1', expect.any(Object), { actorId: 'admin-1' });
+      expect(mocks.deleteProduct).toHaveBeenCalledWith('prod-1');
+    });
+
+    it('refuses to reject a review twice', async () => {
+      prisma.productReview.updateMany.mockResolvedValue({ count: 0 });
+      prisma.productReview.findUnique.mockResolvedValue({ status: 'REJECTED' });
+
+      await expect(ReviewService.rejectReview('rev-1', 'Spam', 'admin-1')).rejects.toThrow('Review is already REJECTED');
+      expect(mocks.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  it('sends an edited approved review back to moderation and out of the rating', async () => {
+    prisma.productReview.findFirst.mockResolvedValue(reviewRow({ status: 'APPROVED' }));
+    prisma.productReview.update.mockResolvedValue(reviewRow({ status: 'PENDING', rating: 2 }));
+    prisma.productReview.aggregate.mockResolvedValue({ _avg: { rating: null }, _count: { _all: 0 } });
+
+    const review = await ReviewService.updateOwnReview('prod-1', 'rev-1', 'user-1', {
+      rating: 2,
+      body: 'Shrank after the first wash.',
+    });
+
+    expect(prisma.productReview.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'PENDING', rating: 2, moderatedAt: null }),
+    }));
+    expect(prisma.product.update).toHaveBeenCalledWith({
+      where: { id: 'prod-1' },
+      data: { ratingAverage: 0, reviewCount: 0 },
+    });
+    expect(prisma.productReview.count).not.toHaveBeenCalled();
+    expect(review.status).toBe('PENDING');
+  });
+
+  it('summarizes approved reviews per star', async () => {
+    prisma.productReview.groupBy.mockResolvedValue([
+      { rating: 5, _count: { _all: 2 } },
+      { rating: 2, _count: { _all: 1 } },
+    ]);
+
+    const summary = await ReviewService.getReviewSummary('prod-1');
+
+    expect(summary).toEqual({
+      average: 4,
+      count: 3,
+      distribution: { '1': 0, '2': 1, '3': 0, '4': 0, '5': 2 },
+    });
+  });
+
+  it('rejects empty merchant replies', async () => {
+    await expect(ReviewService.setReply('rev-1', '   ')).rejects.toThrow('Reply text is required');
+    expect(prisma.productReview.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Shipping Rate Engine Unit Tests
+ *
+ * Coverage:
+ * - selectShippingZone: country beats rest-of-world, postal beats state, priority breaks ties
+ * - calculateShippingRate: flat, per-item, weight/price tiers, class surcharges, free thresholds
+ * - ShippingService.getOptions: shippable-only parcels, zone lookup, FREE_SHIPPING, ordering
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  productFindMany: vi.fn(),
+  shippingZoneFindMany: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: {
+    product: { findMany: mocks.productFindMany },
+    shippingZone: { findMany: mocks.shippingZoneFindMany },
+  },
+}));
+
+vi.mock('@/core/admin/system-settings/service', () => ({
+  systemSettingsService: {
+    getShopCurrency: vi.fn().mockResolvedValue('USD'),
+  },
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+import { calculateShippingRate, selectShippingZone, type RatedMethod } from '@/core/shipping/rates';
+import { ShippingService } from '@/core/shipping/service';
+
+const parcel = (overrides: Record<string, unknown> = {}) => ({
+  weight: 2.5,
+  subtotal: 80,
+  quantity: 3,
+  quantityByClass: {},
+  ...overrides,
+});
+
+const method = (overrides: Partial<RatedMethod> = {}): RatedMethod => ({
+  rateType: 'FLAT',
+  amount: 5,
+  tiers: [],
+  classSurcharges: {},
+  freeShippingThreshold: null,
+  ...overrides,
+});
+
+const zone = (overrides: Record<string, unknown> = {}) => ({
+  id: 'zone-world',
+  name: 'Rest of world',
+  country: null,
+  state: null,
+  postalCodePattern: null,
+  priority: 0,
+  methods: [],
+  ...overrides,
+});
+
+const methodRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'm-standard',
+  name: 'Standard',
+  description: null,
+  rateType: 'FLAT',
+  amount: 5,
+  tiers: null,
+  classSurcharges: null,
+  freeShippingThreshold: null,
+  minDeliveryDays: 3,
+  maxDeliveryDays: 5,
+  ...overrides,
+});
+
+describe('shipping rates', () => {
+  describe('selectShippingZone', () => {
+    const zones = [
+      zone(),
+      zone({ id: 'zone-us', country: 'US' }),
+      zone({ id: 'zone-ca', country: 'US', state: 'CA' }),
+      zone({ id: 'zone-la', country: 'US', postalCodePattern: '900*' }),
+    ];
+
+    it('prefers the most specific matching zone', () => {
+      expect(selectShippingZone(zones, { country: 'US', state: 'CA', postalCode: '90001' })?.id).toBe('zone-la');
+      expect(selectShippingZone(zones, { country: 'us', state: 'CA', postalCode: '94105' })?.id).toBe('zone-ca');
+      expect(selectShippingZone(zones, { country: 'US', state: 'NY' })?.id).toBe('zone-us');
+      expect(selectShippingZone(zones, { country: 'FR' })?.id).toBe('zone-world');
+    });
+
+    it('returns null when nothing covers the address', () => {
+      expect(selectShippingZone([zone({ country: 'US' })], { country: 'FR' })).toBeNull();
+    });
+  });
+
+  describe('calculateShippingRate', () => {
+    it('charges flat and per-item amounts', () => {
+      expect(calculateShippingRate(method(), parcel())).toEqual({ amount: 5, freeShipping: false });
+      expect(calculateShippingRate(method({ rateType: 'PER_ITEM', amount: 2 }), parcel())).toEqual({
+        amount: 6,
+        freeShipping: false,
+      });
+    });
+
+    it('uses the tier covering the parcel weight or subtotal', () => {
+      const tiers = [
+        { min: 0, max: 1, amount: 4 },
+        { min: 1, max: 5, amount: 7 },
+        { min: 5, max: null, amount: 12 },
+      ];
+
+      expect(calculateShippingRate(method({ rateType: 'WEIGHT', tiers }), parcel())?.amount).toBe(7);
+      expect(calculateShippingRate(method({ rateType: 'WEIGHT', tiers }), parcel({ weight: 5 }))?.amount).toBe(12);
+      expect(calculateShippingRate(method({ rateType: 'PRICE', tiers }), parcel({ subtotal: 0.5 }))?.amount).toBe(4);
+    });
+
+    it('skips methods without a matching tier', () => {
+      const tiers = [{ min: 0, max: 2, amount: 4 }];
+
+      expect(calculateShippingRate(method({ rateType: 'WEIGHT', tiers }), parcel())).toBeNull();
+    });
+
+    it('adds class surcharges per unit', () => {
+      const rate = calculateShippingRate(
+        method({ classSurcharges: { bulky: 10 } }),
+        parcel({ quantityByClass: { bulky: 2, fragile: 1 } })
+      );
+
+      expect(rate?.amount).toBe(25);
+    });
+
+    it('is free at or above the threshold', () => {
+      expect(calculateShippingRate(method({ freeShippingThreshold: 80 }), parcel())).toEqual({
+        amount: 0,
+        freeShipping: true,
+      });
+      expect(calculateShippingRate(method({ freeShippingThreshold: 100 }), parcel())?.freeShipping).toBe(false);
+    });
+  });
+});
+
+describe('ShippingService.getOptions', () => {
+  const items = [
+    { productId: 'p-ship', quantity: 2, amount: 40 },
+    { productId: 'p-digital', quantity: 1, amount: 15 },
+    { productId: 'p-supplier', quantity: 1, amount: 30 },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.productFindMany.mockResolvedValue([
+      { id: 'p-ship', weight: 1.5, requiresShipping: true, shippingClass: 'bulky', typeData: null },
+      { id: 'p-digital', weight: null, requiresShipping: false, shippingClass: null, typeData: null },
+      { id: 'p-supplier', weight: 1, requiresShipping: true, shippingClass: null, typeData: { provider: 'acme' } },
+    ]);
+    mocks.shippingZoneFindMany.mockResolvedValue([
+      zone({
+        id: 'zone-de',
+        name: 'Germany',
+        country: 'DE',
+        methods: [
+          methodRecord({ id: 'm-express', name: 'Express', amount: 15 }),
+          methodRecord({ classSurcharges: { bulky: 1 } }),
+          methodRecord({ id: 'm-heavy', name: 'Freight', rateType: 'WEIGHT', tiers: [{ min: 10, amount: 50 }] }),
+        ],
+      }),
+    ]);
+  });
+
+  it('prices only shippable, non-supplier items and sorts cheapest first', async () => {
+    const options = await ShippingService.getOptions({ address: { country: 'de' }, items });
+
+    expect(mocks.shippingZoneFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { isActive: true, OR: [{ country: 'DE' }, { country: null }] },
+    }));
+    expect(options.map((option) => [option.id, option.amount])).toEqual([
+      ['m-standard', 7],
+      ['m-express', 15],
+    ]);
+    expect(options[0]).toMatchObject({ zoneId: 'zone-de', currency: 'USD', freeShipping: false });
+  });
+
+  it('zeroes every option for a FREE_SHIPPING discount', async () => {
+    const options = await ShippingService.getOptions({ address: { country: 'DE' }, items, freeShipping: true });
+
+    expect(options.every((option) => option.amount === 0 && option.freeShipping)).toBe(true);
+  });
+
+  it('returns nothing when no item needs shipping', async () => {
+    const options = await ShippingService.getOptions({
+      address: { country: 'DE' },
+      items: [{ productId: 'p-digital', quantity: 1, amount: 15 }],
+    });
+
+    expect(options).toEqual([]);
+    expect(mocks.shippingZoneFindMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Tax Engine Unit Tests
+ *
+ * Coverage:
+ * - matchesPostalCode: wildcards, numeric ranges, comma-separated lists
+ * - selectTaxZone: postal beats state beats country-wide, priority breaks ties
+ * - calculateLineTax: exclusive, inclusive and compound rates
+ * - allocateDiscount: proportional split that always sums to the discount
+ * - TaxService.quote: product tax classes, default address, plugin fallback
+ * - PluginTaxCalculator: requests go through the real plugin gateway route
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  productFindMany: vi.fn(),
+  taxZoneFindMany: vi.fn(),
+  getAllSettings: vi.fn(),
+  pluginGateway: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: {
+    product: { findMany: mocks.productFindMany },
+    taxZone: { findMany: mocks.taxZoneFindMany },
+  },
+}));
+
+vi.mock('@/core/admin/system-settings/service', () => ({
+  systemSettingsService: {
+    getAllSettings: mocks.getAllSettings,
+  },
+}));
+
+// The gateway routes are real; only the plugin runtime behind them is stubbed
+vi.mock('@/core/admin/extension-installer/plugin-runtime', () => ({
+  handlePluginGateway: mocks.pluginGateway,
+  warmPluginRuntime: vi.fn(),
+  PluginGatewayError: class PluginGatewayError extends Error {},
+}));
+
+vi.mock('@/core/logger/unified-logger', () => ({
+  LoggerService: {
+    logError: vi.fn(),
+  },
+}));
+
+import Fastify, { type FastifyInstance } from 'fastify';
+import { extensionInstallerRoutes } from '@/core/admin/extension-installer/routes';
+import { calculateLineTax, matchesPostalCode, selectTaxZone } from '@/core/tax/calculators';
+import { allocateDiscount, TaxService } from '@/core/tax/service';
+
+const line = (amount: number, id = 'l1') => ({ id, productId: 'p1', quantity: 1, amount });
+
+const zone = (overrides: Record<string, unknown> = {}) => ({
+  id: 'zone-country',
+  state: null,
+  postalCodePattern: null,
+  priority: 0,
+  rates: [],
+  ...overrides,
+});
+
+describe('tax calculators', () => {
+  describe('matchesPostalCode', () => {
+    it('matches wildcards and numeric ranges', () => {
+      expect(matchesPostalCode('90*', '90210')).toBe(true);
+      expect(matchesPostalCode('90000-90299', '90210')).toBe(true);
+      expect(matchesPostalCode('90000-90199', '90210')).toBe(false);
+      expect(matchesPostalCode('SW1A*, 10*', 'sw1a 1aa')).toBe(true);
+      expect(matchesPostalCode('90*', null)).toBe(false);
+    });
+  });
+
+  describe('selectTaxZone', () => {
+    const zones = [
+      zone(),
+      zone({ id: 'zone-state', state: 'CA' }),
+      zone({ id: 'zone-postal', state: 'CA', postalCodePattern: '900*' }),
+      zone({ id: 'zone-state-priority', state: 'CA', priority: 5 }),
+    ];
+
+    it('prefers the most specific matching zone', () => {
+      expect(selectTaxZone(zones, { country: 'US', state: 'CA', postalCode: '90001' })?.id).toBe('zone-postal');
+      expect(selectTaxZone(zones, { country: 'US', state: 'ca', postalCode: '94105' })?.id).toBe('zone-state-priority');
+      expect(selectTaxZone(zones, { country: 'US', state: 'NY' })?.id).toBe('zone-country');
+    });
+  });
+
+  describe('calculateLineTax', () => {
+    it('adds simple rates on top of exclusive prices', () => {
+      const result = calculateLineTax(line(100), [
+        { name: 'State', rate: 6, isCompound: false, priority: 0 },
+        { name: 'County', rate: 2.25, isCompound: false, priority: 1 },
+      ], 'USD', false);
+
+      expect(result.taxAmount).toBe(8.25);
+      expect(result.taxRate).toBe(8.25);
+      expect(result.breakdown.map((component) => component.amount)).toEqual([6, 2.25]);
+    });
+
+    it('applies compound rates on top of earlier tax', () => {
+      const result = calculateLineTax(line(100), [
+        { name: 'QST', rate: 10, isCompound: true, priority: 1 },
+        { name: 'GST', rate: 5, isCompound: false, priority: 0 },
+      ], 'CAD', false);
+
+      expect(result.breakdown).toEqual([
+        expect.objectContaining({ name: 'GST', amount: 5, compound: false }),
+        expect.objectContaining({ name: 'QST', amount: 10.5, compound: true }),
+      ]);
+      expect(result.taxAmount).toBe(15.5);
+    });
+
+    it('backs tax out of inclusive prices', () => {
+      const result = calculateLineTax(line(119), [{ name: 'VAT', rate: 19, isCompound: false, priority: 0 }], 'EUR', true);
+
+      expect(result.taxAmount).toBe(19);
+      expect(result.taxRate).toBe(19);
+    });
+  });
+});
+
+describe('allocateDiscount', () => {
+  it('splits proportionally and assigns rounding to the last line', () => {
+    const parts = allocateDiscount([10, 10, 10], 10, 'USD');
+
+    expect(parts).toEqual([3.33, 3.33, 3.34]);
+  });
+
+  it('never allocates more than the lines are worth', () => {
+    expect(allocateDiscount([5, 15], 50, 'USD')).toEqual([5, 15]);
+    expect(allocateDiscount([5, 15], 0, 'USD')).toEqual([0, 0]);
+  });
+});
+
+describe('TaxService.quote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.getAllSettings.mockResolvedValue({ 'tax.defaultCountry': 'de' });
+    mocks.productFindMany.mockResolvedValue([
+      { id: 'p1', taxClass: null },
+      { id: 'p2', taxClass: 'reduced' },
+    ]);
+    mocks.taxZoneFindMany.mockResolvedValue([
+      zone({
+        rates: [
+          { id: 'r-std', taxClass: null, name: 'VAT', rate: 19, isCompound: false, priority: 0 },
+          { id: 'r-red', taxClass: 'reduced', name: 'VAT reduced', rate: 7, isCompound: false, priority: 0 },
+        ],
+      }),
+    ]);
+  });
+
+  it('uses class rates, the default country and discounted amounts', async () => {
+    const result = await TaxService.quote({
+      currency: 'EUR',
+      lines: [
+        { id: 'a', productId: 'p1', quantity: 1, amount: 100 },
+        { id: 'b', productId: 'p2', quantity: 1, amount: 100 },
+      ],
+      discountAmount: 20,
+    });
+
+    expect(mocks.taxZoneFindMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { country: 'DE', isActive: true },
+    }));
+    expect(result.calculator).toBe('builtin');
+    expect(result.lines).toEqual([
+      expect.objectContaining({ id: 'a', taxAmount: 17.1 }),
+      expect.objectContaining({ id: 'b', taxAmount: 6.3 }),
+    ]);
+    expect(result.taxAmount).toBe(23.4);
+  });
+
+  describe('plugin calculator through the gateway', () => {
+    let app: FastifyInstance;
+
+    beforeAll(async () => {
+      app = Fastify();
+      await app.register(extensionInstallerRoutes, { prefix: '/api/extensions' });
+      await app.ready();
+    });
+
+    afterAll(async () => {
+      vi.unstubAllGlobals();
+      await app.close();
+    });
+
+    beforeEach(() => {
+      // Route the calculator's HTTP call into the in-process gateway
+      vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+        const target = new URL(url);
+        const response = await app.inject({
+          method: init.method as 'POST',
+          url: `${target.pathname}${target.search}`,
+          headers: init.headers as Record<string, string>,
+          payload: init.body as string,
+        });
+        return new Response(response.body, {
+          status: response.statusCode,
+          headers: { 'content-type': 'application/json' },
+        });
+      });
+    });
+
+    it('falls back to the built-in zones when the tax plugin fails', async () => {
+      mocks.getAllSettings.mockResolvedValue({ 'tax.calculator': 'avalara', 'tax.defaultCountry': 'DE' });
+      mocks.pluginGateway.mockImplementation(async (_request, reply) =>
+        reply.code(400).type('application/json').send(JSON.stringify({ message: 'down' })));
+
+      const result = await TaxService.quote({
+        currency: 'EUR',
+        lines: [{ id: 'a', productId: 'p1', quantity: 1, amount: 100 }],
+      });
+
+      expect(mocks.pluginGateway).toHaveBeenCalledTimes(1);
+      expect(result.calculator).toBe('builtin');
+      expect(result.taxAmount).toBe(19);
+    });
+
+    it('reaches the plugin at /tax/calculate and uses its answer', async () => {
+      mocks.getAllSettings.mockResolvedValue({ 'tax.calculator': 'avalara' });
+      mocks.pluginGateway.mockImplementation(async (request, reply, targetPath) => {
+        if (targetPath !== '/tax/calculate') {
+          return reply.code(404).type('application/json').send(JSON.stringify({ message: 'Not found' }));
+        }
+        return reply
+          .type('application/json')
+          .send(JSON.stringify({ data: { lines: [{ id: 'a', taxAmount: 8.875, taxRate: 8.875 }] } }));
+      });
+
+      const result = await TaxService.quote({
+        address: { country: 'us', state: 'NY' },
+        currency: 'USD',
+        lines: [{ id: 'a', productId: 'p1', quantity: 1, amount: 100 }],
+      });
+
+      const [request, , targetPath] = mocks.pluginGateway.mock.calls[0];
+      expect(request.params.slug).toBe('avalara');
+      expect(targetPath).toBe('/tax/calculate');
+      expect(request.body.address).toEqual({ country: 'US', state: 'NY' });
+      expect(result.calculator).toBe('plugin:avalara');
+      expect(result.taxAmount).toBe(8.88);
+    });
+  });
+});
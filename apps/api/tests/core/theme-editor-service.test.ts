@@ -0,0 +1,266 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prismaMock, txMock, mocks } = vi.hoisted(() => {
+  const txMock = {
+    themePublication: { findFirst: vi.fn(), create: vi.fn() },
+    themeDraft: { deleteMany: vi.fn() },
+  };
+  return {
+    txMock,
+    prismaMock: {
+      $transaction: vi.fn(async (fn: (tx: typeof txMock) => Promise<unknown>) => fn(txMock)),
+      themeDraft: {
+        findUnique: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+      themePublication: {
+        findFirst: vi.fn(),
+        findUnique: vi.fn(),
+        findMany: vi.fn(),
+      },
+    },
+    mocks: {
+      getActiveTheme: vi.fn(),
+      replaceThemeConfig: vi.fn(),
+      getActiveBlocks: vi.fn(),
+      cacheGet: vi.fn(),
+      cacheSet: vi.fn(),
+      cacheDelete: vi.fn(),
+      themeDir: '',
+    },
+  };
+});
+
+vi.mock('@/config/database', () => ({
+  prisma: prismaMock,
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    get: mocks.cacheGet,
+    set: mocks.cacheSet,
+    delete: mocks.cacheDelete,
+  },
+}));
+
+vi.mock('@/utils/jwt', () => ({
+  JwtUtils: {
+    sign: (payload: object) => `signed.${Buffer.from(JSON.stringify(payload)).toString('base64url')}`,
+    verify: (token: string) => {
+      if (!token.startsWith('signed.')) throw new Error('invalid signature');
+      return JSON.parse(Buffer.from(token.slice('signed.'.length), 'base64url').toString());
+    },
+  },
+}));
+
+vi.mock('@/core/admin/plugin-management/theme-extensions-service', () => ({
+  ThemeExtensionsService: { getActiveBlocks: mocks.getActiveBlocks },
+}));
+
+vi.mock('@/core/admin/theme-management/service', () => ({
+  getActiveTheme: mocks.getActiveTheme,
+  replaceThemeConfig: mocks.replaceThemeConfig,
+  getThemePackDir: (_target: string, slug: string) => path.join(mocks.themeDir, slug),
+}));
+
+import { ThemeEditorService } from '@/core/admin/theme-management/editor-service';
+
+const activeTheme = {
+  slug: 'fire',
+  version: '0.1.0',
+  source: 'installed',
+  type: 'pack',
+  config: { colors: { primary: '#325dff' } },
+  activatedAt: '2026-10-01T00:00:00.000Z',
+};
+
+const homeTemplate = {
+  schemaVersion: 1,
+  page: 'home',
+  blocks: [{ type: 'hero', id: 'hero-1', settings: { headline: 'Welcome' } }],
+};
+
+describe('ThemeEditorService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mocks.themeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'theme-editor-'));
+    const packDir = path.join(mocks.themeDir, 'fire');
+    await fs.mkdir(path.join(packDir, 'templates'), { recursive: true });
+    await fs.mkdir(path.join(packDir, 'schemas'), { recursive: true });
+    await fs.writeFile(
+      path.join(packDir, 'theme.json'),
+      JSON.stringify({ slug: 'fire', name: 'Fire Theme', version: '0.1.0', entry: { settingsSchema: 'schemas/settings.schema.json' } }),
+    );
+    await fs.writeFile(path.join(packDir, 'templates', 'home.json'), JSON.stringify(homeTemplate));
+    await fs.writeFile(path.join(packDir, 'templates', 'product.json'), JSON.stringify({ ...homeTemplate, page: 'product' }));
+    await fs.writeFile(
+      path.join(packDir, 'schemas', 'settings.schema.json'),
+      JSON.stringify({ type: 'object', properties: { colors: { type: 'object' } } }),
+    );
+
+    mocks.getActiveTheme.mockResolvedValue(activeTheme);
+    mocks.getActiveBlocks.mockResolvedValue([
+      { extensionId: 'reviews', installation: { pluginSlug: 'acme-reviews', enabled: true } },
+    ]);
+    prismaMock.themeDraft.findUnique.mockResolvedValue(null);
+    prismaMock.themePublication.findFirst.mockResolvedValue(null);
+    txMock.themePublication.findFirst.mockResolvedValue(null);
+    txMock.themePublication.create.mockImplementation(async ({ data }) => ({ ...data, createdAt: new Date('2026-10-19T00:00:00Z') }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(mocks.themeDir, { recursive: true, force: true });
+  });
+
+  it('lists pack pages with draft and published overrides', async () => {
+    prismaMock.themePublication.findFirst.mockResolvedValue({
+      version: 3,
+      templates: { product: { ...homeTemplate, page: 'product', blocks: [] } },
+    });
+    prismaMock.themeDraft.findUnique.mockResolvedValue({
+      templates: { home: { ...homeTemplate, blocks: [...homeTemplate.blocks, ...homeTemplate.blocks] } },
+      config: null,
+      baseVersion: 3,
+      updatedBy: 'admin-1',
+      updatedAt: new Date('2026-10-19T00:00:00Z'),
+    });
+
+    const state = await ThemeEditorService.getEditorState('shop');
+
+    expect(state.theme).toEqual({ slug: 'fire', name: 'Fire Theme', version: '0.1.0' });
+    expect(state.pages).toEqual([
+      { page: 'home', source: 'draft', blockCount: 2 },
+      { page: 'product', source: 'published', blockCount: 0 },
+    ]);
+    expect(state.settingsSchema).toEqual({ type: 'object', properties: { colors: { type: 'object' } } });
+    expect(state.config).toEqual(activeTheme.config);
+    expect(state.draft).toMatchObject({ baseVersion: 3, hasConfigChanges: false });
+    expect(state.liveVersion).toBe(3);
+  });
+
+  it('saves validated blocks into a new draft based on the live version', async () => {
+    prismaMock.themePublication.findFirst.mockResolvedValue({ version: 2, templates: {} });
+
+    const template = await ThemeEditorService.saveDraftPage(
+      'shop',
+      'home',
+      [
+        { type: 'hero', id: 'hero-1', settings: { headline: 'Hi' } },
+        { type: 'app_block:acme-reviews:reviews' },
+        { type: 'banner', id: 'hero-1' },
+      ],
+      'admin-1',
+    );
+
+    expect(template.blocks.map((block) => block.type)).toEqual(['hero', 'app_block:acme-reviews:reviews', 'banner']);
+    expect(template.blocks[0].id).toBe('hero-1');
+    expect(template.blocks[1].settings).toEqual({});
+    // Duplicate ids are replaced so reordering stays unambiguous
+    expect(template.blocks[2].id).toMatch(/^banner-[0-9a-f]{8}$/);
+    expect(prismaMock.themeDraft.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        target: 'shop',
+        themeSlug: 'fire',
+        templates: { home: template },
+        baseVersion: 2,
+        updatedBy: 'admin-1',
+      }),
+    });
+  });
+
+  it('rejects unknown app blocks and invalid pages', async () => {
+    await expect(
+      ThemeEditorService.saveDraftPage('shop', 'home', [{ type: 'app_block:acme-reviews:missing' }], null),
+    ).rejects.toThrow('Invalid block: app block "app_block:acme-reviews:missing" is not available');
+    await expect(ThemeEditorService.saveDraftPage('shop', '../secrets', [], null)).rejects.toThrow(
+      'Invalid page name "../secrets"',
+    );
+    expect(prismaMock.themeDraft.create).not.toHaveBeenCalled();
+  });
+
+  it('publishes the draft over the live templates and replaces the theme config', async () => {
+    prismaMock.themePublication.findFirst.mockResolvedValue({
+      version: 1,
+      templates: { product: { ...homeTemplate, page: 'product' } },
+    });
+    txMock.themePublication.findFirst.mockResolvedValue({ version: 1 });
+    prismaMock.themeDraft.findUnique.mockResolvedValue({
+      templates: { home: homeTemplate },
+      config: { colors: { primary: '#ff0000' } },
+    });
+
+    const publication = await ThemeEditorService.publishDraft('shop', 'admin-1', '  Spring refresh ');
+
+    expect(txMock.themePublication.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        version: 2,
+        templates: { product: { ...homeTemplate, page: 'product' }, home: homeTemplate },
+        config: { colors: { primary: '#ff0000' } },
+        note: 'Spring refresh',
+      }),
+    });
+    expect(txMock.themeDraft.deleteMany).toHaveBeenCalledWith({ where: { target: 'shop', themeSlug: 'fire' } });
+    expect(mocks.replaceThemeConfig).toHaveBeenCalledWith({ colors: { primary: '#ff0000' } }, 'shop');
+    expect(mocks.cacheDelete).toHaveBeenCalledWith('themes:templates:shop:fire');
+    expect(publication).toMatchObject({ version: 2, isLive: true, pages: ['home', 'product'] });
+  });
+
+  it('refuses to publish or preview without a draft', async () => {
+    await expect(ThemeEditorService.publishDraft('shop', null)).rejects.toThrow('No draft to publish');
+    await expect(ThemeEditorService.createPreviewToken('shop')).rejects.toThrow('No draft to preview');
+  });
+
+  it('reverts by publishing a copy of an older version', async () => {
+    txMock.themePublication.findFirst.mockResolvedValue({ version: 4 });
+    prismaMock.themePublication.findUnique.mockResolvedValue({
+      version: 2,
+      templates: { home: homeTemplate },
+      config: { colors: { primary: '#000000' } },
+      note: 'Launch',
+    });
+
+    const publication = await ThemeEditorService.revertToPublication('shop', 2, 'admin-1');
+
+    expect(publication).toMatchObject({ version: 5, revertedFrom: 2, isLive: true });
+    expect(mocks.replaceThemeConfig).toHaveBeenCalledWith({ colors: { primary: '#000000' } }, 'shop');
+
+    prismaMock.themePublication.findUnique.mockResolvedValue(null);
+    await expect(ThemeEditorService.revertToPublication('shop', 9, null)).rejects.toThrow('Theme version 9 not found');
+  });
+
+  it('resolves preview tokens to the draft of the still-active theme', async () => {
+    prismaMock.themeDraft.findUnique.mockResolvedValue({
+      templates: { home: homeTemplate },
+      config: { colors: { primary: '#ff0000' } },
+    });
+
+    const { token, previewUrl } = await ThemeEditorService.createPreviewToken('shop');
+    expect(previewUrl).toMatch(/\/\?themePreview=signed\./);
+    const preview = await ThemeEditorService.resolvePreviewToken(token);
+
+    expect(preview).toEqual({
+      target: 'shop',
+      themeSlug: 'fire',
+      templates: { home: homeTemplate },
+      config: { colors: { primary: '#ff0000' } },
+    });
+    await expect(ThemeEditorService.resolvePreviewToken('forged')).resolves.toBeNull();
+
+    mocks.getActiveTheme.mockResolvedValue({ ...activeTheme, slug: 'yevbi' });
+    await expect(ThemeEditorService.resolvePreviewToken(token)).resolves.toBeNull();
+  });
+
+  it('serves published templates to the storefront through the cache', async () => {
+    mocks.cacheGet.mockResolvedValue(null);
+    prismaMock.themePublication.findFirst.mockResolvedValue({ version: 1, templates: { home: homeTemplate } });
+
+    await expect(ThemeEditorService.getPublishedTemplate('shop', 'home')).resolves.toEqual(homeTemplate);
+    await expect(ThemeEditorService.getPublishedTemplate('shop', 'product')).resolves.toBeNull();
+    expect(mocks.cacheSet).toHaveBeenCalledWith('themes:templates:shop:fire', { home: homeTemplate }, { ttl: 60 });
+  });
+});
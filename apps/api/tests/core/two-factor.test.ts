@@ -0,0 +1,333 @@
+/**
+ * Staff Two-Factor Authentication Unit Tests
+ *
+ * Coverage:
+ * - TotpUtils: RFC 6238 test vector, drift window, malformed codes, base32 round trip
+ * - AuthService.login: enrolled staff get a challenge instead of tokens
+ * - TwoFactorService: enrollment stores hashed recovery codes, challenges accept a
+ *   TOTP step once or a recovery code once, failures are audited, owner-only policy
+ * - authMiddleware: a challenge token cannot stand in for an access token
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  userFindUnique: vi.fn(),
+  adminMembershipFindUnique: vi.fn(),
+  twoFactor: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    upsert: vi.fn(),
+    delete: vi.fn(),
+  },
+  recoveryCode: {
+    deleteMany: vi.fn(),
+    count: vi.fn(),
+  },
+  auditCreate: vi.fn(),
+  getBoolean: vi.fn(),
+  setSetting: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: {
+    user: { findUnique: mocks.userFindUnique },
+    adminMembership: { findUnique: mocks.adminMembershipFindUnique },
+    staffTwoFactor: mocks.twoFactor,
+    staffRecoveryCode: mocks.recoveryCode,
+    adminStaffAuditLog: { create: mocks.auditCreate },
+  },
+}));
+
+vi.mock('@/core/admin/system-settings/service', () => ({
+  systemSettingsService: {
+    getBoolean: mocks.getBoolean,
+    getSetting: vi.fn().mockResolvedValue('Test Store'),
+    setSetting: mocks.setSetting,
+  },
+}));
+
+vi.mock('@/utils/password', () => ({
+  PasswordUtils: {
+    verify: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+vi.mock('@/core/auth/bootstrap', () => ({
+  shouldRequirePasswordRotation: vi.fn().mockResolvedValue(false),
+}));
+
+import crypto from 'crypto';
+import Fastify from 'fastify';
+import { TotpUtils } from '@/utils/totp';
+import { AuthService } from '@/core/auth/service';
+import { TwoFactorService } from '@/core/auth/two-factor';
+import { authMiddleware, requireAdmin } from '@/core/auth/middleware';
+import { JwtUtils } from '@/utils/jwt';
+import { resetAdminMembershipCompatibilityCache } from '@/core/auth/admin-membership-compat';
+import { resetAuthCompatibilityCache } from '@/core/auth/user-compat';
+
+const RFC_SECRET = TotpUtils.base32Encode(Buffer.from('12345678901234567890'));
+const SECRET = TotpUtils.generateSecret();
+
+const staffUser = {
+  id: 'staff-1',
+  email: 'staff@example.com',
+  username: 'staff',
+  password: 'hashed',
+  role: 'USER',
+  isActive: true,
+  emailVerified: true,
+  storeId: null,
+  avatar: null,
+};
+
+const membership = {
+  id: 'm-1',
+  userId: 'staff-1',
+  role: 'ADMIN',
+  status: 'ACTIVE',
+  isOwner: false,
+  extraPermissions: [],
+  revokedPermissions: [],
+  createdByUserId: null,
+  updatedByUserId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code.replace('-', '')).digest('hex');
+
+const enrolledRecord = (overrides: Record<string, unknown> = {}) => ({
+  userId: 'staff-1',
+  secret: SECRET,
+  enabledAt: new Date(),
+  lastUsedStep: null,
+  user: { email: 'staff@example.com', username: 'staff' },
+  ...overrides,
+});
+
+describe('TotpUtils', () => {
+  it('matches the RFC 6238 SHA-1 test vector', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(TotpUtils.generateCode(RFC_SECRET, TotpUtils.currentStep(59 * 1000))).toBe('287082');
+    expect(TotpUtils.generateCode(RFC_SECRET, TotpUtils.currentStep(1111111109 * 1000))).toBe('081804');
+  });
+
+  it('accepts codes within one step of drift and returns the matched step', () => {
+    const now = 1_700_000_000_000;
+    const step = TotpUtils.currentStep(now);
+
+    expect(TotpUtils.verifyCode(SECRET, TotpUtils.generateCode(SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(TotpUtils.verifyCode(SECRET, TotpUtils.generateCode(SECRET, step - 2), 1, now)).toBeNull();
+    expect(TotpUtils.verifyCode(SECRET, 'abcdef', 1, now)).toBeNull();
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    const uri = TotpUtils.buildOtpAuthUri(SECRET, 'staff@example.com', 'Test Store');
+
+    expect(uri.startsWith('otpauth://totp/Test%20Store%3Astaff%40example.com?')).toBe(true);
+    expect(new URL(uri).searchParams.get('secret')).toBe(SECRET);
+  });
+});
+
+describe('staff two-factor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetAdminMembershipCompatibilityCache();
+    resetAuthCompatibilityCache();
+    mocks.adminMembershipFindUnique.mockResolvedValue(membership);
+    mocks.getBoolean.mockResolvedValue(false);
+    mocks.twoFactor.updateMany.mockResolvedValue({ count: 1 });
+    mocks.recoveryCode.deleteMany.mockResolvedValue({ count: 1 });
+    mocks.recoveryCode.count.mockResolvedValue(9);
+  });
+
+  it('returns a challenge instead of tokens when enrolled staff log in', async () => {
+    mocks.userFindUnique.mockResolvedValue(staffUser);
+    mocks.twoFactor.findUnique.mockResolvedValue({ enabledAt: new Date() });
+
+    const result = await AuthService.login({ email: 'staff@example.com', password: 'pw123456' });
+
+    expect(result).toMatchObject({ twoFactorRequired: true, expires_in: 300 });
+    expect('access_token' in result).toBe(false);
+    expect(AuthService.verifyTwoFactorChallenge((result as { challengeToken: string }).challengeToken)).toBe('staff-1');
+  });
+
+  it('logs staff without an enabled second factor straight in', async () => {
+    mocks.userFindUnique.mockResolvedValue(staffUser);
+    mocks.twoFactor.findUnique.mockResolvedValue({ enabledAt: null });
+
+    const result = await AuthService.login({ email: 'staff@example.com', password: 'pw123456' });
+
+    expect(result).toHaveProperty('access_token');
+  });
+
+  it('enables enrollment with hashed recovery codes and audits it', async () => {
+    mocks.twoFactor.findUnique.mockResolvedValue(enrolledRecord({ enabledAt: null }));
+
+    const { recoveryCodes } = await TwoFactorService.confirmEnrollment('staff-1', TotpUtils.generateCode(SECRET));
+
+    expect(recoveryCodes).toHaveLength(10);
+    const data = mocks.twoFactor.update.mock.calls[0][0].data;
+    expect(data.enabledAt).toBeInstanceOf(Date);
+    expect(data.recoveryCodes).toEqual({
+      deleteMany: {},
+      createMany: { data: recoveryCodes.map((code) => ({ hash: hashCode(code) })) },
+    });
+    expect(mocks.auditCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ staffUserId: 'staff-1', action: 'STAFF_2FA_ENROLLED' }),
+    });
+  });
+
+  it('rejects a wrong enrollment code', async () => {
+    mocks.twoFactor.findUnique.mockResolvedValue(enrolledRecord({ enabledAt: null }));
+
+    await expect(TwoFactorService.confirmEnrollment('staff-1', '000000')).rejects.toThrow('Invalid two-factor code');
+    expect(mocks.twoFactor.update).not.toHaveBeenCalled();
+  });
+
+  describe('verifyChallenge', () => {
+    const challenge = async () => {
+      mocks.userFindUnique.mockResolvedValue(staffUser);
+      mocks.twoFactor.findUnique.mockResolvedValue({ enabledAt: new Date() });
+      const result = await AuthService.login({ email: 'staff@example.com', password: 'pw123456' });
+      return (result as { challengeToken: string }).challengeToken;
+    };
+
+    it('issues tokens for a fresh TOTP code and records its step', async () => {
+      const token = await challenge();
+      mocks.twoFactor.findUnique.mockResolvedValue(enrolledRecord());
+
+      const session = await TwoFactorService.verifyChallenge(token, TotpUtils.generateCode(SECRET));
+
+      expect(session.user.id).toBe('staff-1');
+      expect(mocks.twoFactor.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'staff-1',
+          OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: expect.any(Number) } }],
+        },
+        data: { lastUsedStep: expect.any(Number) },
+      });
+    });
+
+    it('rejects a replayed code and audits the failure', async () => {
+      const token = await challenge();
+      mocks.twoFactor.findUnique.mockResolvedValue(enrolledRecord());
+      mocks.twoFactor.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(TwoFactorService.verifyChallenge(token, TotpUtils.generateCode(SECRET))).rejects.toThrow('Invalid two-factor code');
+      expect(mocks.auditCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({ staffUserId: 'staff-1', action: 'STAFF_2FA_CHALLENGE_FAILED' }),
+      });
+    });
+
+    it('spends a recovery code once', async () => {
+      const token = await challenge();
+      mocks.twoFactor.findUnique.mockResolvedValue(enrolledRecord());
+
+      await TwoFactorService.verifyChallenge(token, 'ABCDE-12345');
+
+      expect(mocks.recoveryCode.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'staff-1', hash: hashCode('abcde-12345') },
+      });
+      expect(mocks.auditCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'STAFF_2FA_RECOVERY_CODE_USED',
+          metadata: { recoveryCodesRemaining: 9 },
+        }),
+      });
+    });
+
+    it('rejects a recovery code another request already spent', async () => {
+      const token = await challenge();
+      mocks.twoFactor.findUnique.mockResolvedValue(enrolledRecord());
+      mocks.recoveryCode.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(TwoFactorService.verifyChallenge(token, 'ABCDE-12345')).rejects.toThrow('Invalid two-factor code');
+      expect(mocks.auditCreate).not.toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'STAFF_2FA_RECOVERY_CODE_USED' }),
+      });
+    });
+
+    it('rejects tokens that are not challenge tokens', async () => {
+      await expect(TwoFactorService.verifyChallenge('forged', '123456')).rejects.toThrow('Invalid or expired challenge');
+      expect(mocks.twoFactor.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('challenge tokens on authenticated routes', () => {
+    const buildApp = async () => {
+      const app = Fastify();
+      app.get('/api/admin/ping', { preHandler: [authMiddleware, requireAdmin] }, async () => ({ ok: true }));
+      await app.ready();
+      return app;
+    };
+
+    it('refuses a challenge token as a bearer token', async () => {
+      mocks.userFindUnique.mockResolvedValue({ ...staffUser, role: 'ADMIN' });
+      mocks.twoFactor.findUnique.mockResolvedValue({ enabledAt: new Date() });
+      const result = await AuthService.login({ email: 'staff@example.com', password: 'pw123456' });
+      const app = await buildApp();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/admin/ping',
+        headers: { authorization: `Bearer ${(result as { challengeToken: string }).challengeToken}` },
+      });
+
+      expect(response.statusCode).toBe(401);
+      await app.close();
+    });
+
+    it('accepts an access token for the same user', async () => {
+      mocks.userFindUnique.mockResolvedValue({ ...staffUser, role: 'ADMIN' });
+      const token = JwtUtils.sign({ userId: 'staff-1', email: 'staff@example.com', role: 'ADMIN' });
+      const app = await buildApp();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/admin/ping',
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      await app.close();
+    });
+  });
+
+  describe('staff policy', () => {
+    it('requires enrollment only when the owner setting is on', async () => {
+      mocks.twoFactor.findUnique.mockResolvedValue(null);
+      await expect(TwoFactorService.isEnrollmentRequired('staff-1')).resolves.toBe(false);
+
+      mocks.getBoolean.mockResolvedValue(true);
+      await expect(TwoFactorService.isEnrollmentRequired('staff-1')).resolves.toBe(true);
+
+      mocks.twoFactor.findUnique.mockResolvedValue({ enabledAt: new Date() });
+      await expect(TwoFactorService.isEnrollmentRequired('staff-1')).resolves.toBe(false);
+    });
+
+    it('lets only enrolled owners turn the requirement on', async () => {
+      await expect(TwoFactorService.setRequiredForStaff({ userId: 'staff-1', isOwner: false }, true))
+        .rejects.toMatchObject({ statusCode: 403 });
+
+      mocks.twoFactor.findUnique.mockResolvedValue(null);
+      await expect(TwoFactorService.setRequiredForStaff({ userId: 'owner-1', isOwner: true }, true))
+        .rejects.toMatchObject({ code: 'TWO_FACTOR_NOT_ENABLED' });
+
+      mocks.twoFactor.findUnique.mockResolvedValue({ enabledAt: new Date() });
+      await expect(TwoFactorService.setRequiredForStaff({ userId: 'owner-1', isOwner: true }, true))
+        .resolves.toEqual({ requireTwoFactor: true });
+      expect(mocks.setSetting).toHaveBeenCalledWith('security.requireStaffTwoFactor', true);
+    });
+
+    it('refuses to disable two-factor while it is required', async () => {
+      mocks.getBoolean.mockResolvedValue(true);
+
+      await expect(TwoFactorService.disable('staff-1', '123456')).rejects.toThrow('Two-factor authentication is required for staff accounts');
+      expect(mocks.twoFactor.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,8 +1,13 @@
 import { createHmac } from 'node:crypto';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-const { prismaMock, pluginManagementServiceMock } = vi.hoisted(() => ({
+const { prismaMock, pluginManagementServiceMock, queueManagerMock, redisMock } = vi.hoisted(() => ({
   prismaMock: {
+    webhookSubscription: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
     webhookDeliveryLog: {
       create: vi.fn(),
     },
@@ -10,6 +15,15 @@ const { prismaMock, pluginManagementServiceMock } = vi.hoisted(() => ({
       create: vi.fn(),
     },
   },
+  queueManagerMock: {
+    enqueueTo: vi.fn(),
+    getConnection: vi.fn(),
+  },
+  redisMock: {
+    incr: vi.fn(),
+    decr: vi.fn(),
+    pexpire: vi.fn(),
+  },
   pluginManagementServiceMock: {
     getInstanceById: vi.fn(),
     getPluginPackage: vi.fn(),
@@ -24,7 +38,16 @@ vi.mock('@/core/admin/plugin-management/service', () => ({
   PluginManagementService: pluginManagementServiceMock,
 }));
 
-import { deliverInternalWebhook } from '@/core/webhooks/delivery-worker';
+vi.mock('@/infra/jobs/queue-manager', () => ({
+  queueManager: queueManagerMock,
+}));
+
+import {
+  computeRetryDelay,
+  deliverInternalWebhook,
+  processWebhookAttempt,
+} from '@/core/webhooks/delivery-worker';
+import { WebhookSubscriptionService } from '@/core/webhooks/subscription-service';
 
 describe('internal webhook delivery', () => {
   beforeEach(() => {
@@ -95,3 +118,175 @@ describe('internal webhook delivery', () => {
     });
   });
 });
+
+describe('queued external webhook delivery', () => {
+  const externalSubscription = {
+    id: 'sub_ext',
+    installationId: 'ins_1',
+    eventType: 'order.created',
+    deliveryMode: 'external',
+    endpointUrl: 'https://hooks.example.com/jiffoo',
+    secret: 'new_secret',
+    previousSecret: null as string | null,
+    previousSecretExpiresAt: null as Date | null,
+    active: true,
+    failingSince: null as Date | null,
+  };
+
+  const attempt = {
+    outboxEventId: 'evt_1',
+    eventType: 'webhook.attempt',
+    subscriptionId: 'sub_ext',
+    webhookEventType: 'order.created',
+    payload: { orderId: 'ord_1' },
+    aggregateId: 'ord_1',
+    attempt: 1,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.WEBHOOK_ENDPOINT_CONCURRENCY;
+    delete process.env.WEBHOOK_AUTO_DISABLE_HOURS;
+    prismaMock.webhookSubscription.findUnique.mockResolvedValue({ ...externalSubscription });
+    prismaMock.webhookSubscription.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.webhookDeliveryLog.create.mockResolvedValue({});
+    prismaMock.webhookDeadLetter.create.mockResolvedValue({});
+    queueManagerMock.enqueueTo.mockResolvedValue(true);
+    queueManagerMock.getConnection.mockReturnValue(redisMock);
+    redisMock.incr.mockResolvedValue(1);
+    redisMock.decr.mockResolvedValue(0);
+    redisMock.pexpire.mockResolvedValue(1);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: vi.fn().mockResolvedValue('ok'),
+    }));
+  });
+
+  it('spreads retry delays with jitter around the backoff schedule', () => {
+    expect(computeRetryDelay(1, () => 0)).toBe(8_000);
+    expect(computeRetryDelay(1, () => 1)).toBe(12_000);
+    expect(computeRetryDelay(3, () => 0.5)).toBe(60_000);
+    expect(computeRetryDelay(9, () => 0.5)).toBe(900_000);
+  });
+
+  it('signs with both secrets while the rotation overlap is open', async () => {
+    prismaMock.webhookSubscription.findUnique.mockResolvedValue({
+      ...externalSubscription,
+      previousSecret: 'old_secret',
+      previousSecretExpiresAt: new Date(Date.now() + 3_600_000),
+    });
+
+    await processWebhookAttempt(attempt);
+
+    const [, init] = (global.fetch as unknown as ReturnType<typeof vi.fn>).mock.calls[0] as [string, RequestInit];
+    const body = init.body as string;
+    const sign = (secret: string) => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+    expect((init.headers as Record<string, string>)['X-Webhook-Signature']).toBe(
+      `${sign('new_secret')},${sign('old_secret')}`,
+    );
+    expect(prismaMock.webhookDeliveryLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        eventId: 'evt_1',
+        eventType: 'order.created',
+        payload: { orderId: 'ord_1' },
+        status: 'success',
+      }),
+    });
+    expect(redisMock.decr).toHaveBeenCalledWith('webhook:inflight:https://hooks.example.com');
+  });
+
+  it('queues the next attempt as a delayed job instead of an in-process timer', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      text: vi.fn().mockResolvedValue('unavailable'),
+    }));
+    prismaMock.webhookSubscription.updateMany.mockResolvedValue({ count: 1 });
+
+    await processWebhookAttempt(attempt);
+
+    expect(prismaMock.webhookDeliveryLog.create).toHaveBeenCalledTimes(1);
+    expect(prismaMock.webhookDeliveryLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'failed', responseCode: 503, attempt: 1 }),
+    });
+    expect(queueManagerMock.enqueueTo).toHaveBeenCalledWith(
+      'webhook-delivery',
+      expect.objectContaining({ eventType: 'webhook.attempt', outboxEventId: 'evt_1', attempt: 2 }),
+      { jobId: 'evt_1-sub_ext-2', delay: expect.any(Number) },
+    );
+    const { delay } = queueManagerMock.enqueueTo.mock.calls[0][2];
+    expect(delay).toBeGreaterThanOrEqual(8_000);
+    expect(delay).toBeLessThanOrEqual(12_000);
+  });
+
+  it('disables a subscription that has been failing for longer than the threshold', async () => {
+    process.env.WEBHOOK_AUTO_DISABLE_HOURS = '6';
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('ECONNREFUSED')));
+    const failingSince = new Date(Date.now() - 7 * 3_600_000);
+    prismaMock.webhookSubscription.findUnique
+      .mockResolvedValueOnce({ ...externalSubscription, failingSince })
+      .mockResolvedValueOnce({ active: true, failingSince });
+
+    await processWebhookAttempt({ ...attempt, attempt: 3 });
+
+    expect(prismaMock.webhookSubscription.update).toHaveBeenCalledWith({
+      where: { id: 'sub_ext' },
+      data: expect.objectContaining({ active: false, disabledAt: expect.any(Date) }),
+    });
+  });
+
+  it('requeues the attempt without calling a saturated endpoint', async () => {
+    redisMock.incr.mockResolvedValue(3);
+
+    await processWebhookAttempt(attempt);
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(redisMock.decr).toHaveBeenCalledTimes(1);
+    expect(queueManagerMock.enqueueTo).toHaveBeenCalledWith(
+      'webhook-delivery',
+      expect.objectContaining({ attempt: 1 }),
+      expect.objectContaining({ delay: 2_000 }),
+    );
+  });
+
+  it('dead-letters retries for a disabled subscription unless sent manually', async () => {
+    prismaMock.webhookSubscription.findUnique.mockResolvedValue({ ...externalSubscription, active: false });
+
+    await processWebhookAttempt({ ...attempt, attempt: 2 });
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(prismaMock.webhookDeadLetter.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ eventId: 'evt_1', lastError: 'Subscription is disabled' }),
+    });
+
+    await processWebhookAttempt({ ...attempt, manual: true });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('webhook subscription secret rotation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.webhookSubscription.update.mockImplementation(async ({ data }) => data);
+  });
+
+  it('keeps the previous secret valid for the overlap window', async () => {
+    prismaMock.webhookSubscription.findUnique.mockResolvedValue({ id: 'sub_ext', secret: 'old_secret' });
+
+    const updated = await WebhookSubscriptionService.rotateSecret('sub_ext', 12);
+
+    expect(updated.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(updated.previousSecret).toBe('old_secret');
+    const expiresIn = (updated.previousSecretExpiresAt as Date).getTime() - Date.now();
+    expect(expiresIn).toBeGreaterThan(11.9 * 3_600_000);
+    expect(expiresIn).toBeLessThanOrEqual(12 * 3_600_000);
+  });
+
+  it('rejects unknown subscriptions', async () => {
+    prismaMock.webhookSubscription.findUnique.mockResolvedValue(null);
+
+    await expect(WebhookSubscriptionService.rotateSecret('missing')).rejects.toThrow(
+      'Webhook subscription not found',
+    );
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Wishlist Service Unit Tests
+ *
+ * Coverage:
+ * - addItem: default list created on first add, first active variant and its price,
+ *   add-to-wishlist interaction tracked once, re-adding only updates alerts
+ * - lists: the saved-for-later list cannot be shared or renamed, share tokens are kept
+ * - getSharedWishlist: unknown tokens and inactive items
+ * - CartService.saveForLater / moveFromWishlist: lines move between cart and lists
+ * - queuePriceDropAlerts: alerts only below the added or last alerted price
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  prisma: {
+    product: { findFirst: vi.fn() },
+    cartItem: { findFirst: vi.fn() },
+    wishlist: {
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    wishlistItem: {
+      count: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+  } as any,
+  emit: vi.fn(),
+  trackInteraction: vi.fn(),
+}));
+
+vi.mock('@/config/database', () => ({
+  prisma: mocks.prisma,
+}));
+
+vi.mock('@/infra/outbox', () => ({
+  OutboxService: { emit: mocks.emit },
+}));
+
+vi.mock('@/core/cache/service', () => ({
+  CacheService: {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(true),
+    delete: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+vi.mock('@/core/inventory/service', () => ({
+  InventoryService: {
+    getAvailableStockByVariantIds: vi.fn().mockResolvedValue(new Map([['var-1', 4]])),
+  },
+}));
+
+vi.mock('@/core/recommendations/service', () => ({
+  RecommendationService: { trackInteraction: mocks.trackInteraction },
+}));
+
+import { CartService } from '@/core/cart/service';
+import { guestCartOwner } from '@/core/cart/guest';
+import { queuePriceDropAlerts } from '@/core/wishlist/alerts';
+import { WishlistService } from '@/core/wishlist/service';
+
+const { prisma } = mocks;
+const now = new Date('2026-10-01T00:00:00.000Z');
+
+function listRow(overrides: Record<string, unknown> = {}) {
+  return { id: 'wl-1', userId: 'user-1', name: 'Wishlist', type: 'WISHLIST', shareToken: null, createdAt: now, updatedAt: now, ...overrides };
+}
+
+function itemRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'wli-1',
+    wishlistId: 'wl-1',
+    productId: 'prod-1',
+    variantId: 'var-1',
+    quantity: 1,
+    addedPrice: 20,
+    notifyBackInStock: false,
+    notifyPriceDrop: false,
+    backInStockNotifiedAt: null,
+    lastNotifiedPrice: null,
+    createdAt: now,
+    updatedAt: now,
+    product: { name: 'Canvas Tote', slug: 'canvas-tote', isActive: true, typeData: { images: ['/tote.jpg'] } },
+    variant: { name: 'Natural', salePrice: 15, isActive: true },
+    ...overrides,
+  };
+}
+
+describe('WishlistService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    prisma.product.findFirst.mockResolvedValue({ variants: [{ id: 'var-1', salePrice: 20 }] });
+    prisma.wishlist.findFirst.mockResolvedValue(null);
+    prisma.wishlist.create.mockResolvedValue(listRow());
+    prisma.wishlistItem.findUnique.mockResolvedValue(null);
+    prisma.wishlistItem.count.mockResolvedValue(0);
+    prisma.wishlistItem.create.mockResolvedValue(itemRow());
+  });
+
+  describe('addItem', () => {
+    it('creates the default wishlist on the first add and tracks the interaction', async () => {
+      const item = await WishlistService.addItem('user-1', { productId: 'prod-1', notifyPriceDrop: true });
+
+      expect(prisma.wishlist.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', type: 'WISHLIST', name: 'Wishlist' },
+      });
+      expect(prisma.wishlistItem.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { wishlistId: 'wl-1', productId: 'prod-1', variantId: 'var-1', addedPrice: 20, notifyPriceDrop: true },
+      }));
+      expect(mocks.trackInteraction).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        productId: 'prod-1',
+        action: 'add-to-wishlist',
+      }));
+      expect(item).toMatchObject({
+        productName: 'Canvas Tote',
+        productImage: '/tote.jpg',
+        price: 15,
+        addedPrice: 20,
+        inStock: true,
+        isAvailable: true,
+      });
+    });
+
+    it('only updates alerts when the variant is already on the list', async () => {
+      prisma.wishlist.findFirst.mockResolvedValue(listRow());
+      prisma.wishlistItem.findUnique.mockResolvedValue({ id: 'wli-1' });
+      prisma.wishlistItem.update.mockResolvedValue(itemRow({ notifyBackInStock: true }));
+
+      await WishlistService.addItem('user-1', { productId: 'prod-1', notifyBackInStock: true });
+
+      expect(prisma.wishlistItem.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'wli-1' },
+        data: { notifyBackInStock: true, backInStockNotifiedAt: null },
+      }));
+      expect(prisma.wishlistItem.create).not.toHaveBeenCalled();
+      expect(mocks.trackInteraction).not.toHaveBeenCalled();
+    });
+
+    it('rejects inactive products and full lists', async () => {
+      prisma.product.findFirst.mockResolvedValueOnce(null);
+      await expect(WishlistService.addItem('user-1', { productId: 'prod-1' })).rejects.toThrow('Product is not available');
+
+      prisma.wishlistItem.count.mockResolvedValue(200);
+      await expect(WishlistService.addItem('user-1', { productId: 'prod-1' })).rejects.toThrow('Wishlist is full');
+    });
+
+    it('does not add wishlist items to the saved-for-later list', async () => {
+      prisma.wishlist.findFirst.mockResolvedValue(listRow({ type: 'SAVED_FOR_LATER' }));
+
+      await expect(WishlistService.addItem('user-1', { productId: 'prod-1', wishlistId: 'wl-1' }))
+        .rejects.toThrow('The saved-for-later list cannot be used for wishlist items');
+    });
+  });
+
+  describe('sharing', () => {
+    it('keeps the existing share token', async () => {
+      prisma.wishlist.findFirst.mockResolvedValue(listRow({ shareToken: 'token-1' }));
+      prisma.wishlistItem.count.mockResolvedValue(3);
+
+      const summary = await WishlistService.shareWishlist('user-1', 'wl-1');
+
+      expect(prisma.wishlist.update).not.toHaveBeenCalled();
+      expect(summary).toMatchObject({ shareToken: 'token-1', itemCount: 3 });
+    });
+
+    it('does not share or rename the saved-for-later list', async () => {
+      prisma.wishlist.findFirst.mockResolvedValue(listRow({ type: 'SAVED_FOR_LATER' }));
+
+      await expect(WishlistService.shareWishlist('user-1', 'wl-1')).rejects.toThrow('cannot be shared');
+      await expect(WishlistService.renameWishlist('user-1', 'wl-1', 'Later')).rejects.toThrow('cannot be renamed');
+    });
+
+    it('shows active items of a shared list', async () => {
+      prisma.wishlist.findUnique.mockResolvedValue({
+        ...listRow({ shareToken: 'token-1' }),
+        user: { username: 'ann' },
+        items: [itemRow(), itemRow({ id: 'wli-2', product: { name: 'Old', isActive: false } })],
+      });
+
+      const shared = await WishlistService.getSharedWishlist('token-1');
+
+      expect(shared.ownerName).toBe('ann');
+      expect(shared.items.map((item) => item.id)).toEqual(['wli-1']);
+      expect(shared.items[0]).not.toHaveProperty('notifyPriceDrop');
+    });
+
+    it('rejects unknown share tokens', async () => {
+      prisma.wishlist.findUnique.mockResolvedValue(null);
+
+      await expect(WishlistService.getSharedWishlist('nope')).rejects.toThrow('Shared wishlist not found');
+    });
+  });
+
+  describe('cart moves', () => {
+    it('saves a cart line for later and removes it from the cart', async () => {
+      prisma.cartItem.findFirst.mockResolvedValue({ id: 'ci-1', productId: 'prod-1', variantId: 'var-1', quantity: 2, price: 20 });
+      prisma.wishlist.create.mockResolvedValue(listRow({ id: 'sfl-1', type: 'SAVED_FOR_LATER', name: 'Saved for later' }));
+      prisma.wishlistItem.upsert.mockResolvedValue(itemRow({ wishlistId: 'sfl-1', quantity: 2 }));
+      const removeFromCart = vi.spyOn(CartService, 'removeFromCart').mockResolvedValue({ id: 'cart-1' } as any);
+
+      await CartService.saveForLater('user-1', 'ci-1');
+
+      expect(prisma.wishlistItem.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { wishlistId_variantId: { wishlistId: 'sfl-1', variantId: 'var-1' } },
+        create: { wishlistId: 'sfl-1', productId: 'prod-1', variantId: 'var-1', quantity: 2, addedPrice: 20 },
+        update: { quantity: { increment: 2 } },
+      }));
+      expect(removeFromCart).toHaveBeenCalledWith('user-1', 'ci-1');
+    });
+
+    it('does not save guest cart lines for later', async () => {
+      await expect(CartService.saveForLater(guestCartOwner('cart-1'), 'ci-1')).rejects.toThrow('Sign in to save items for later');
+      expect(prisma.cartItem.findFirst).not.toHaveBeenCalled();
+    });
+
+    it('moves an item to the cart before removing it from its list', async () => {
+      prisma.wishlistItem.findFirst.mockResolvedValue(itemRow({ quantity: 2 }));
+      const addToCart = vi.spyOn(CartService, 'addToCart').mockResolvedValue({ id: 'cart-1' } as any);
+      vi.spyOn(CartService, 'getCart').mockResolvedValue({ id: 'cart-1' } as any);
+
+      await CartService.moveFromWishlist('user-1', 'wli-1');
+
+      expect(addToCart).toHaveBeenCalledWith('user-1', 'prod-1', 2, 'var-1');
+      expect(prisma.wishlistItem.delete).toHaveBeenCalledWith({ where: { id: 'wli-1' } });
+    });
+
+    it('keeps the item when it can no longer be added to the cart', async () => {
+      prisma.wishlistItem.findFirst.mockResolvedValue(itemRow());
+      vi.spyOn(CartService, 'addToCart').mockRejectedValue(new Error('Product is not available'));
+
+      await expect(CartService.moveFromWishlist('user-1', 'wli-1')).rejects.toThrow('Product is not available');
+      expect(prisma.wishlistItem.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queuePriceDropAlerts', () => {
+    it('alerts items priced above the new price and records it', async () => {
+      prisma.wishlistItem.findMany.mockResolvedValue([
+        { ...itemRow(), wishlist: { userId: 'user-1' } },
+        { ...itemRow({ id: 'wli-2', addedPrice: 20, lastNotifiedPrice: 12 }), wishlist: { userId: 'user-2' } },
+      ]);
+
+      const queued = await queuePriceDropAlerts(prisma, 'var-1', 15);
+
+      expect(queued).toBe(1);
+      expect(mocks.emit).toHaveBeenCalledWith(prisma, 'wishlist.price_drop', 'wli-1', {
+        wishlistItemId: 'wli-1',
+        wishlistId: 'wl-1',
+        userId: 'user-1',
+        productId: 'prod-1',
+        variantId: 'var-1',
+        previousPrice: 20,
+        price: 15,
+      });
+      expect(prisma.wishlistItem.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['wli-1'] } },
+        data: { lastNotifiedPrice: 15 },
+      });
+    });
+  });
+});
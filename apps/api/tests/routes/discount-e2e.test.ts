@@ -604,11 +604,34 @@ describe('Additional Discount Type Tests', () => {
   it('should handle customer group discounts', async () => {
     const prisma = getTestPrisma();
 
-    // Create VIP user with ADMIN role
-    const vipUser = await createUserWithToken({ role: 'ADMIN' });
+    // Create VIP customer group with the VIP user as member
+    const vipUser = await createUserWithToken();
     const vipToken = vipUser.token;
+    const groupResponse = await app.inject({
+      method: 'POST',
+      url: '/api/admin/customer-groups',
+      headers: { authorization: `Bearer ${adminToken}` },
+      payload: { name: 'VIP', code: 'vip' },
+    });
+    expect(groupResponse.statusCode).toBe(201);
+    const vipGroup = groupResponse.json().data;
+    await app.inject({
+      method: 'POST',
+      url: `/api/admin/customer-groups/${vipGroup.id}/members`,
+      headers: { authorization: `Bearer ${adminToken}` },
+      payload: { userIds: [vipUser.user.id] },
+    });
 
-    // Create VIP-only discount (restricted to ADMIN role)
+    // Unknown groups are rejected
+    const unknownGroupResponse = await app.inject({
+      method: 'POST',
+      url: '/api/discounts',
+      headers: { authorization: `Bearer ${adminToken}` },
+      payload: { code: 'NOGROUP', type: 'PERCENTAGE', value: 5, customerGroups: ['ADMIN'] },
+    });
+    expect(unknownGroupResponse.statusCode).toBe(400);
+
+    // Create VIP-only discount
     const vipResponse = await app.inject({
       method: 'POST',
       url: '/api/discounts',
@@ -618,14 +641,14 @@ describe('Additional Discount Type Tests', () => {
         type: 'PERCENTAGE',
         value: 20,
         isActive: true,
-        customerGroups: ['ADMIN'], // Only ADMIN role can use
+        customerGroups: ['vip'], // Only VIP group members can use
       },
     });
 
     expect(vipResponse.statusCode).toBe(200);
     const vipDiscount = vipResponse.json().data;
     expect(vipDiscount.customerGroups).toHaveLength(1);
-    expect(vipDiscount.customerGroups[0].customerGroup).toBe('ADMIN');
+    expect(vipDiscount.customerGroups[0].customerGroup).toBe('vip');
 
     // Clear VIP user's cart and add items
     await app.inject({
@@ -675,7 +698,7 @@ describe('Additional Discount Type Tests', () => {
       },
     });
 
-    // Regular user (USER role) should NOT be able to apply VIP discount
+    // Regular user (not in the VIP group) should NOT be able to apply VIP discount
     const regularApplyResponse = await app.inject({
       method: 'POST',
       url: '/api/cart/apply-discount',
@@ -690,8 +713,10 @@ describe('Additional Discount Type Tests', () => {
     expect(regularBody.success).toBe(false);
     expect(regularBody.error.toLowerCase()).toMatch(/customer group|not available/);
 
-    // Clean up VIP user
+    // Clean up VIP user and group
     await prisma.user.delete({ where: { id: vipUser.user.id } });
+    await prisma.discountCustomerGroup.deleteMany({});
+    await prisma.customerGroup.delete({ where: { id: vipGroup.id } });
   });
 
   it('should enforce discount stacking rules', async () => {
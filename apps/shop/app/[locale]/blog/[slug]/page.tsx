@@ -0,0 +1,57 @@
+/**
+ * Blog Post Page for Shop Application
+ *
+ * Server component that renders a published blog post with its SEO metadata.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ContentArticle } from '@/components/content/ContentArticle';
+import {
+  generateContentMetadata,
+  getServerContent,
+  serializeContentStructuredData,
+} from '@/lib/server-content';
+
+interface BlogPostPageProps {
+  params: Promise<{
+    slug: string;
+    locale: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: BlogPostPageProps): Promise<Metadata> {
+  const { slug, locale } = await params;
+  try {
+    const post = await getServerContent('posts', slug, locale);
+    if (post) {
+      return generateContentMetadata(post, `/blog/${post.slug}`, locale);
+    }
+  } catch {
+    // Fall through to the default metadata
+  }
+  return {
+    title: 'Post Not Found',
+    description: 'The requested post could not be found.',
+  };
+}
+
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const { slug, locale } = await params;
+
+  const post = await getServerContent('posts', slug, locale).catch(() => null);
+  if (!post) {
+    notFound();
+  }
+
+  const structuredData = serializeContentStructuredData(post);
+
+  return (
+    <>
+      {structuredData && (
+        <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: structuredData }} />
+      )}
+      <ContentArticle content={post} variant="post" />
+    </>
+  );
+}
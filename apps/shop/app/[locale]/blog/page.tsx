@@ -0,0 +1,136 @@
+/**
+ * Blog Page for Shop Application
+ *
+ * Lists published blog posts, newest first, with an optional tag filter.
+ * Supports i18n through the translation function.
+ */
+
+'use client';
+
+import * as React from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useContentPosts } from '@/hooks/use-content';
+import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
+import { useT } from 'shared/src/i18n/react';
+import { LoadingState, ErrorState, EmptyState } from '@/components/ui/state-components';
+
+const POSTS_PER_PAGE = 12;
+
+export default function BlogPage() {
+  const nav = useLocalizedNavigation();
+  const searchParams = useSearchParams();
+  const t = useT();
+
+  const tag = searchParams.get('tag') || undefined;
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const { data, isLoading, error } = useContentPosts({ locale: nav.locale, tag, page, limit: POSTS_PER_PAGE });
+
+  const getText = (key: string, fallback: string): string => (t ? t(key) : fallback);
+
+  const goToPage = (nextPage: number) => {
+    const params = new URLSearchParams();
+    if (tag) params.set('tag', tag);
+    if (nextPage > 1) params.set('page', String(nextPage));
+    const query = params.toString();
+    nav.push(query ? `/blog?${query}` : '/blog');
+  };
+
+  if (isLoading) {
+    return <LoadingState type="spinner" message={getText('common.actions.loading', 'Loading...')} fullPage />;
+  }
+
+  if (error) {
+    return (
+      <ErrorState
+        title={getText('shop.blog.loadFailed', 'Unable to load posts')}
+        error={error}
+        onGoHome={() => nav.push('/')}
+        fullPage
+      />
+    );
+  }
+
+  const posts = data?.items ?? [];
+  const totalPages = data?.totalPages ?? 1;
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="mx-auto max-w-6xl px-4 py-12 sm:px-6 lg:py-16">
+        <header className="mb-10 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">
+              {getText('shop.blog.title', 'Blog')}
+            </h1>
+            {tag && (
+              <p className="mt-2 text-sm text-gray-500">
+                {getText('shop.blog.taggedWith', 'Posts tagged')} <span className="font-medium text-gray-900">{tag}</span>
+              </p>
+            )}
+          </div>
+          {tag && (
+            <button
+              type="button"
+              onClick={() => nav.push('/blog')}
+              className="text-sm font-medium text-gray-500 hover:text-gray-900"
+            >
+              {getText('shop.blog.allPosts', 'All posts')}
+            </button>
+          )}
+        </header>
+
+        {posts.length === 0 ? (
+          <EmptyState
+            title={getText('shop.blog.empty', 'No posts yet')}
+            message={getText('shop.blog.emptyDescription', 'Check back soon for news and stories.')}
+          />
+        ) : (
+          <div className="grid gap-8 sm:grid-cols-2 lg:grid-cols-3">
+            {posts.map((post) => (
+              <button
+                key={post.slug}
+                type="button"
+                onClick={() => nav.push(`/blog/${post.slug}`)}
+                className="group flex flex-col overflow-hidden rounded-2xl border border-gray-100 text-left transition hover:shadow-lg"
+              >
+                {post.coverImage && (
+                  <img src={post.coverImage} alt="" className="aspect-[16/9] w-full object-cover" />
+                )}
+                <div className="flex flex-1 flex-col p-5">
+                  <time dateTime={post.publishedAt} className="text-xs text-gray-500">
+                    {new Intl.DateTimeFormat(post.locale, { dateStyle: 'medium' }).format(new Date(post.publishedAt))}
+                  </time>
+                  <h2 className="mt-2 text-lg font-semibold text-gray-900 group-hover:text-blue-600">{post.title}</h2>
+                  {post.excerpt && <p className="mt-2 line-clamp-3 text-sm text-gray-600">{post.excerpt}</p>}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <nav className="mt-12 flex items-center justify-center gap-4 text-sm">
+            <button
+              type="button"
+              disabled={page <= 1}
+              onClick={() => goToPage(page - 1)}
+              className="rounded-lg border border-gray-200 px-4 py-2 disabled:opacity-40"
+            >
+              {getText('shop.blog.newer', 'Newer posts')}
+            </button>
+            <span className="text-gray-500">
+              {page} / {totalPages}
+            </span>
+            <button
+              type="button"
+              disabled={page >= totalPages}
+              onClick={() => goToPage(page + 1)}
+              className="rounded-lg border border-gray-200 px-4 py-2 disabled:opacity-40"
+            >
+              {getText('shop.blog.older', 'Older posts')}
+            </button>
+          </nav>
+        )}
+      </div>
+    </main>
+  );
+}
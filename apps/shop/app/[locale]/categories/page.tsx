@@ -33,7 +33,7 @@ export default function CategoriesPage() {
       try {
         setLoading(true);
         setError(null);
-        const response = await ProductService.getCategories();
+        const response = await ProductService.getCategories(1, 20, nav.locale);
 
         if (cancelled) return;
 
@@ -63,7 +63,7 @@ export default function CategoriesPage() {
     return () => {
       cancelled = true;
     };
-  }, [getText]);
+  }, [getText, nav.locale]);
 
   if (themeLoading) {
     return <LoadingState type="spinner" message={getText('common.actions.loading', 'Loading...')} fullPage />;
@@ -13,12 +13,13 @@ import { useCartStore } from '@/store/cart';
 import { useAuthStore } from '@/store/auth';
 import { useStoreContext } from '@/store/store';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
-import { ordersApi, paymentApi } from '@/lib/api';
+import { accountApi, giftCardsApi, ordersApi, paymentApi } from '@/lib/api';
 import { useT } from 'shared/src/i18n/react';
 import { toast } from '@/components/ui/toaster';
 import { LoadingState, ErrorState } from '@/components/ui/state-components';
 import type { CheckoutFormData } from 'shared/src/types/theme';
 import type { Cart } from 'shared/src/types/cart';
+import type { CustomerAddressDTO } from 'shared';
 import {
   clearSelectedCartItemIds,
   persistSelectedCartItemIds,
@@ -59,6 +60,8 @@ export default function CheckoutPage() {
   const [isProcessing, setIsProcessing] = React.useState(false);
   const [availablePaymentMethods, setAvailablePaymentMethods] = React.useState<PaymentMethodOption[]>([]);
   const [selectedCartItemIds, setSelectedCartItemIds] = React.useState<string[] | null>(null);
+  const [savedAddresses, setSavedAddresses] = React.useState<CustomerAddressDTO[]>([]);
+  const [storeCreditBalance, setStoreCreditBalance] = React.useState<number | undefined>(undefined);
 
   // Stripe Elements integration state
   const [stripeClientSecret, setStripeClientSecret] = React.useState<string | null>(null);
@@ -167,6 +170,60 @@ export default function CheckoutPage() {
     };
   }, []);
 
+  // Load the address book of signed-in customers
+  React.useEffect(() => {
+    if (!user) {
+      setSavedAddresses([]);
+      return;
+    }
+    let mounted = true;
+
+    accountApi.getAddresses()
+      .then((response) => {
+        if (mounted && response.success && Array.isArray(response.data)) {
+          setSavedAddresses(response.data);
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to load saved addresses:', error);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [user]);
+
+  // Store credit of signed-in customers
+  React.useEffect(() => {
+    if (!user) {
+      setStoreCreditBalance(undefined);
+      return;
+    }
+    let mounted = true;
+
+    giftCardsApi.getStoreCredit()
+      .then((response) => {
+        if (mounted && response.success && response.data && response.data.balance > 0) {
+          setStoreCreditBalance(response.data.balance);
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to load store credit:', error);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [user]);
+
+  const handleCheckGiftCardBalance = async (code: string) => {
+    const response = await giftCardsApi.checkBalance(code);
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Gift card not found');
+    }
+    return response.data;
+  };
+
   // Handle form submit
   const handleSubmit = async (data: CheckoutFormData) => {
     setIsProcessing(true);
@@ -198,7 +255,8 @@ export default function CheckoutPage() {
           quantity: item.quantity,
           variantId: item.variantId,
         })),
-        shippingAddress: hasShippingAddress
+        addressId: data.addressId || undefined,
+        shippingAddress: hasShippingAddress && !data.addressId
           ? {
             firstName: data.firstName.trim(),
             lastName: data.lastName.trim(),
@@ -217,9 +275,25 @@ export default function CheckoutPage() {
         throw new Error(orderResponse?.message || getText('common.errors.general', 'Failed to create order'));
       }
 
-      const order = orderResponse.data as { id: string };
+      const order = orderResponse.data as { id: string; guestAccessToken?: string };
       const orderId = order.id;
 
+      // 2. Hold gift cards and store credit before any payment session is created
+      if ((data.giftCardCodes && data.giftCardCodes.length > 0) || data.useStoreCredit) {
+        const tenderResponse = await giftCardsApi.applyTenders(
+          orderId,
+          { giftCardCodes: data.giftCardCodes, useStoreCredit: data.useStoreCredit },
+          order.guestAccessToken
+        );
+        if (!tenderResponse || !tenderResponse.success || !tenderResponse.data) {
+          throw new Error(tenderResponse?.message || getText('common.errors.general', 'Failed to apply gift cards'));
+        }
+        if (tenderResponse.data.paid) {
+          nav.push('/order-success');
+          return;
+        }
+      }
+
       if (
         availablePaymentMethods.length > 0 &&
         !availablePaymentMethods.some((method) => method.name === data.paymentMethod)
@@ -252,7 +326,7 @@ export default function CheckoutPage() {
         return; // Modal now assumes control
       }
 
-      // 2. Create payment session using legacy unified payment gateway
+      // 3. Create payment session using legacy unified payment gateway
       const paymentResponse = await paymentApi.createSession({
         paymentMethod: data.paymentMethod,
         orderId: orderId,
@@ -266,7 +340,7 @@ export default function CheckoutPage() {
         throw new Error(paymentResponse?.message || getText('common.errors.general', 'Failed to create payment session'));
       }
 
-      // 3. Redirect to payment page
+      // 4. Redirect to payment page
       const sessionData = paymentResponse.data as any;
       const paymentUrl = sessionData.url || sessionData.data?.url;
 
@@ -347,6 +421,9 @@ export default function CheckoutPage() {
         requireShippingAddress={requireShippingAddress}
         countriesRequireStatePostal={countriesRequireStatePostal}
         currentUserEmail={user?.email}
+        savedAddresses={savedAddresses}
+        storeCreditBalance={storeCreditBalance}
+        onCheckGiftCardBalance={handleCheckGiftCardBalance}
         locale={nav.locale}
         t={t}
         availablePaymentMethods={availablePaymentMethods}
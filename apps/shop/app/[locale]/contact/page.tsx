@@ -11,6 +11,7 @@ import React from 'react';
 import { useShopTheme } from '@/lib/themes/provider';
 import { useToast } from '@/hooks/use-toast';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
+import { useContentPage } from '@/hooks/use-content';
 import { useT } from 'shared/src/i18n/react';
 
 export default function ContactPage() {
@@ -18,6 +19,7 @@ export default function ContactPage() {
   const { toast } = useToast();
   const nav = useLocalizedNavigation();
   const t = useT();
+  const content = useContentPage('contact', nav.locale);
 
   // Helper function for translations with fallback
   const getText = (key: string, fallback: string): string => {
@@ -25,7 +27,7 @@ export default function ContactPage() {
   };
 
   // Theme loading state
-  if (themeLoading) {
+  if (themeLoading || content.isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="animate-pulse space-y-4">
@@ -77,6 +79,7 @@ export default function ContactPage() {
       config={config}
       locale={nav.locale}
       t={t}
+      content={content.data}
       onSubmitForm={handleSubmitForm}
     />
   );
@@ -13,7 +13,7 @@ import { useShopTheme } from '@/lib/themes/provider';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
 import { useToast } from '@/hooks/use-toast';
 import { ordersApi } from '@/lib/api';
-import { ShopOrderDetailDTO, PaymentStatus } from 'shared';
+import { ShopOrderDetailDTO, PaymentStatus, CreateReturnRequestDTO } from 'shared';
 import { useT } from 'shared/src/i18n/react';
 
 export default function OrderDetailPage() {
@@ -90,6 +90,43 @@ export default function OrderDetailPage() {
     }
   };
 
+  // Handle return request; errors are rethrown so the theme form keeps its input
+  const handleRequestReturn = async (input: CreateReturnRequestDTO) => {
+    if (!order) return;
+
+    const response = await ordersApi.requestReturn(order.id, input);
+    if (!response.success) {
+      const message = response.error?.message || (typeof response.error === 'string' ? response.error : undefined) || getText('shop.orders.returnFailed', 'Failed to request return');
+      toast({
+        title: getText('shop.orders.returnFailed', 'Failed to request return'),
+        description: message,
+        variant: 'destructive',
+      });
+      throw new Error(message);
+    }
+
+    toast({
+      title: getText('shop.orders.returnRequested', 'Return requested'),
+      description: getText('shop.orders.returnRequestedDescription', 'We will review your return request shortly'),
+    });
+    fetchOrder();
+  };
+
+  // Handle return photo upload
+  const handleUploadReturnPhoto = async (file: File): Promise<string> => {
+    const response = await ordersApi.uploadReturnPhoto(orderId, file);
+    if (!response.success || !response.data) {
+      const message = response.error?.message || (typeof response.error === 'string' ? response.error : undefined) || getText('shop.orders.photoUploadFailed', 'Failed to upload photo');
+      toast({
+        title: getText('common.errors.error', 'Error'),
+        description: message,
+        variant: 'destructive',
+      });
+      throw new Error(message);
+    }
+    return response.data.url;
+  };
+
   // Theme loading state
   if (themeLoading) {
     return (
@@ -175,6 +212,8 @@ export default function OrderDetailPage() {
       locale={nav.locale}
       t={t}
       onCancelOrder={handleCancelOrder}
+      onRequestReturn={handleRequestReturn}
+      onUploadReturnPhoto={handleUploadReturnPhoto}
       onBackToOrders={() => nav.push('/orders')}
     />
   );
@@ -0,0 +1,58 @@
+/**
+ * CMS Page for Shop Application
+ *
+ * Server component that renders a merchant-edited page at /pages/:slug with
+ * its SEO metadata. Privacy, terms, help and contact keep their own routes.
+ */
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ContentArticle } from '@/components/content/ContentArticle';
+import {
+  generateContentMetadata,
+  getServerContent,
+  serializeContentStructuredData,
+} from '@/lib/server-content';
+
+interface ContentPageProps {
+  params: Promise<{
+    slug: string;
+    locale: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: ContentPageProps): Promise<Metadata> {
+  const { slug, locale } = await params;
+  try {
+    const content = await getServerContent('pages', slug, locale);
+    if (content) {
+      return generateContentMetadata(content, `/pages/${content.slug}`, locale);
+    }
+  } catch {
+    // Fall through to the default metadata
+  }
+  return {
+    title: 'Page Not Found',
+    description: 'The requested page could not be found.',
+  };
+}
+
+export default async function ContentPage({ params }: ContentPageProps) {
+  const { slug, locale } = await params;
+
+  const content = await getServerContent('pages', slug, locale).catch(() => null);
+  if (!content) {
+    notFound();
+  }
+
+  const structuredData = serializeContentStructuredData(content);
+
+  return (
+    <>
+      {structuredData && (
+        <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: structuredData }} />
+      )}
+      <ContentArticle content={content} />
+    </>
+  );
+}
@@ -3,6 +3,7 @@
  *
  * Handles client-side interactivity for product detail page
  * including cart operations, variant selection, and quantity management.
+ * Loads the latest approved reviews when the theme shows ratings.
  */
 
 'use client';
@@ -12,6 +13,8 @@ import { useShopTheme } from '@/lib/themes/provider';
 import { useCartStore } from '@/store/cart';
 import { useToast } from '@/hooks/use-toast';
 import { ShopProductDetailDTO } from '@/services/product.service';
+import { productsApi } from '@/lib/api';
+import type { ProductReviewDTO, ProductReviewSummaryDTO } from 'shared';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
 import { useT } from 'shared/src/i18n/react';
 
@@ -29,6 +32,9 @@ export default function ProductDetailClient({ product, locale }: ProductDetailCl
 
   const [selectedVariant, setSelectedVariant] = React.useState<string | undefined>(undefined);
   const [quantity, setQuantity] = React.useState(1);
+  const [reviews, setReviews] = React.useState<ProductReviewDTO[]>([]);
+  const [reviewSummary, setReviewSummary] = React.useState<ProductReviewSummaryDTO | undefined>(undefined);
+  const showRatings = config?.features?.showRatings === true;
 
   // Helper function for translations with fallback
   const getText = (key: string, fallback: string): string => {
@@ -45,6 +51,24 @@ export default function ProductDetailClient({ product, locale }: ProductDetailCl
     }
   }, [product]);
 
+  // Load reviews only for themes that display them
+  React.useEffect(() => {
+    if (!showRatings) return;
+    let cancelled = false;
+    productsApi.getReviews(product.id, { limit: 10 })
+      .then((response) => {
+        if (cancelled || !response.success || !response.data) return;
+        setReviews(response.data.items);
+        setReviewSummary(response.data.summary);
+      })
+      .catch(() => {
+        // Reviews are optional on the page; the product still renders without them
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [product.id, showRatings]);
+
   // Handle variant selection
   const handleVariantChange = (variantId: string) => {
     setSelectedVariant(variantId);
@@ -132,6 +156,9 @@ export default function ProductDetailClient({ product, locale }: ProductDetailCl
   return (
     <ProductDetailPageComponent
       product={product as any}
+      media={product.media}
+      reviews={reviews}
+      reviewSummary={reviewSummary}
       isLoading={false}
       selectedVariant={selectedVariant}
       quantity={quantity}
@@ -14,6 +14,8 @@ import * as React from 'react';
 import { useSearchParams } from 'next/navigation';
 import { useShopTheme } from '@/lib/themes/provider';
 import { useCartStore } from '@/store/cart';
+import { useAuthStore } from '@/store/auth';
+import { wishlistsApi } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { ProductService, ShopProductListItemDTO, ProductSearchFilters } from '@/services/product.service';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
@@ -26,6 +28,7 @@ export default function ProductsPage() {
   const nav = useLocalizedNavigation();
   const searchParams = useSearchParams();
   const { addToCart } = useCartStore();
+  const { isAuthenticated } = useAuthStore();
   const { toast } = useToast();
   const t = useT();
 
@@ -132,6 +135,30 @@ export default function ProductsPage() {
     }
   };
 
+  // Handle add to wishlist - the first variant goes to the default wishlist
+  const handleAddToWishlist = async (productId: string) => {
+    if (!isAuthenticated) {
+      toast({ title: getText('shop.wishlist.signInRequired', 'Sign in to save items to your wishlist') });
+      nav.push('/auth/login');
+      return;
+    }
+    try {
+      const product = products.find(p => p.id === productId);
+      await wishlistsApi.addItem({ productId, variantId: product?.variants?.[0]?.id });
+      toast({
+        title: getText('shop.wishlist.added', 'Added to wishlist'),
+        description: product?.name,
+      });
+    } catch (err) {
+      console.error('Failed to add product to wishlist:', err);
+      toast({
+        title: getText('shop.wishlist.addFailed', 'Failed to add to wishlist'),
+        description: err instanceof Error ? err.message : getText('common.errors.unknown', 'Unknown error'),
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Handle product click - preserves locale
   const handleProductClick = (productId: string) => {
     nav.push(`/products/${productId}`);
@@ -208,6 +235,7 @@ export default function ProductsPage() {
       onViewModeChange={handleViewModeChange}
       onPageChange={handlePageChange}
       onAddToCart={handleAddToCart}
+      onAddToWishlist={config?.features?.showWishlist ? handleAddToWishlist : undefined}
       onProductClick={handleProductClick}
       onSearch={handleSearch}
     />
@@ -1,7 +1,8 @@
 /**
  * Profile Page for Shop Application
  *
- * Displays user profile information and navigation to settings/orders.
+ * Displays user profile information, store credit and a gift card balance
+ * lookup, and navigation to settings/orders.
  * Supports i18n through the translation function.
  */
 
@@ -12,12 +13,15 @@ import { useShopTheme } from '@/lib/themes/provider';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
 import { useAuthStore } from '@/store/auth';
 import { useT } from 'shared/src/i18n/react';
+import { giftCardsApi } from '@/lib/api';
+import type { StoreCreditDTO } from 'shared';
 
 export default function ProfilePage() {
   const { theme, config, isLoading: themeLoading } = useShopTheme();
   const nav = useLocalizedNavigation();
   const { user, isAuthenticated, isLoading, getProfile } = useAuthStore();
   const t = useT();
+  const [storeCredit, setStoreCredit] = React.useState<StoreCreditDTO | null>(null);
 
   // Fetch user profile on mount
   React.useEffect(() => {
@@ -26,6 +30,36 @@ export default function ProfilePage() {
     }
   }, [isAuthenticated, getProfile]);
 
+  React.useEffect(() => {
+    if (!isAuthenticated) {
+      setStoreCredit(null);
+      return;
+    }
+    let mounted = true;
+
+    giftCardsApi.getStoreCredit()
+      .then((response) => {
+        if (mounted && response.success && response.data) {
+          setStoreCredit(response.data);
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to load store credit:', error);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [isAuthenticated]);
+
+  const handleCheckGiftCardBalance = async (code: string) => {
+    const response = await giftCardsApi.checkBalance(code);
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Gift card not found');
+    }
+    return response.data;
+  };
+
   // Helper function for translations with fallback
   const getText = (key: string, fallback: string): string => {
     return t ? t(key) : fallback;
@@ -77,6 +111,8 @@ export default function ProfilePage() {
       isLoading={isLoading}
       isAuthenticated={isAuthenticated}
       config={config}
+      storeCredit={storeCredit}
+      onCheckGiftCardBalance={handleCheckGiftCardBalance}
       locale={nav.locale}
       t={t}
       onNavigateToSettings={() => nav.push('/profile/settings')}
@@ -4,14 +4,17 @@ import * as React from 'react';
 import { useShopTheme } from '@/lib/themes/provider';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
 import { useAuthStore } from '@/store/auth';
+import { accountApi } from '@/lib/api';
 import { useT } from 'shared/src/i18n/react';
 import { LoadingState, ErrorState } from '@/components/ui/state-components';
+import type { CustomerAddressDTO } from 'shared';
 
 export default function ProfileSettingsPage() {
   const { theme, config, isLoading: themeLoading } = useShopTheme();
   const nav = useLocalizedNavigation();
   const { user, isAuthenticated, isLoading, getProfile, updateProfile, changePassword } = useAuthStore();
   const t = useT();
+  const [addresses, setAddresses] = React.useState<CustomerAddressDTO[]>([]);
 
   const displayName = user
     ? [user.firstName, user.lastName].filter(Boolean).join(' ').trim() || user.username || user.email
@@ -25,6 +28,30 @@ export default function ProfileSettingsPage() {
 
   const getText = (key: string, fallback: string): string => (t ? t(key) : fallback);
 
+  const loadAddresses = React.useCallback(async () => {
+    const response = await accountApi.getAddresses();
+    if (response.success && Array.isArray(response.data)) {
+      setAddresses(response.data);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (isAuthenticated) {
+      loadAddresses().catch((error) => {
+        console.warn('Failed to load saved addresses:', error);
+      });
+    }
+  }, [isAuthenticated, loadAddresses]);
+
+  // Address changes can move default flags to other addresses, so reload the list
+  const runAddressChange = async (change: () => Promise<{ success: boolean; message?: string }>) => {
+    const response = await change();
+    if (!response.success) {
+      throw new Error(response.message || getText('common.errors.general', 'Failed to update address'));
+    }
+    await loadAddresses();
+  };
+
   if (themeLoading) {
     return <LoadingState type="spinner" message={getText('common.actions.loading', 'Loading...')} fullPage />;
   }
@@ -66,6 +93,15 @@ export default function ProfileSettingsPage() {
       onChangePassword={async (currentPassword, newPassword) => {
         await changePassword({ currentPassword, newPassword });
       }}
+      addresses={addresses}
+      onSaveAddress={(data, addressId) => runAddressChange(() => (
+        addressId ? accountApi.updateAddress(addressId, data) : accountApi.createAddress(data)
+      ))}
+      onDeleteAddress={(addressId) => runAddressChange(() => accountApi.deleteAddress(addressId))}
+      onSetDefaultAddress={(addressId, type) => runAddressChange(() => accountApi.updateAddress(
+        addressId,
+        type === 'shipping' ? { isDefaultShipping: true } : { isDefaultBilling: true }
+      ))}
       onNavigateBack={() => nav.push('/profile')}
       onNavigateToLogin={() => nav.push('/auth/login')}
     />
@@ -6,11 +6,32 @@ import { useShopTheme } from '@/lib/themes/provider';
 import { useCartStore } from '@/store/cart';
 import { useToast } from '@/hooks/use-toast';
 import { ProductService, ShopProductListItemDTO } from '@/services/product.service';
+import type { ProductSearchFacetsDTO, ProductSearchSortDTO } from 'shared';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
 import { useT } from 'shared/src/i18n/react';
 import { LoadingState, ErrorState } from '@/components/ui/state-components';
 import { TemplateRenderer } from '@/lib/theme-pack';
 
+const SEARCH_SORTS: ProductSearchSortDTO[] = ['relevance', 'price_asc', 'price_desc', 'newest', 'name'];
+
+/** Map theme sort values (including legacy list-endpoint fields) to search sort orders. */
+function toSearchSort(sortBy: string): ProductSearchSortDTO {
+  if ((SEARCH_SORTS as string[]).includes(sortBy)) return sortBy as ProductSearchSortDTO;
+  if (sortBy === 'price') return 'price_asc';
+  if (sortBy === 'createdAt') return 'newest';
+  return 'relevance';
+}
+
+/** Parse theme price ranges such as "10-25" or "50+" into bounds. */
+function parsePriceRange(priceRange: string): { minPrice?: number; maxPrice?: number } {
+  const match = /^(\d+(?:\.\d+)?)(?:-(\d+(?:\.\d+)?)|\+)$/.exec(priceRange.trim());
+  if (!match) return {};
+  return {
+    minPrice: Number(match[1]),
+    ...(match[2] !== undefined ? { maxPrice: Number(match[2]) } : {}),
+  };
+}
+
 export default function SearchPage() {
   const { theme, config, isLoading: themeLoading } = useShopTheme();
   const nav = useLocalizedNavigation();
@@ -21,9 +42,19 @@ export default function SearchPage() {
 
   const [products, setProducts] = React.useState<ShopProductListItemDTO[]>([]);
   const [loading, setLoading] = React.useState(true);
-  const [sortBy, setSortBy] = React.useState('createdAt');
+  const [total, setTotal] = React.useState(0);
+  const [facets, setFacets] = React.useState<ProductSearchFacetsDTO | undefined>();
+  const [suggestion, setSuggestion] = React.useState<string | null>(null);
+  const [sortBy, setSortBy] = React.useState('relevance');
   const [viewMode, setViewMode] = React.useState<'grid' | 'list'>('grid');
-  const [filters, setFilters] = React.useState({
+  const [filters, setFilters] = React.useState<{
+    category: string;
+    priceRange: string;
+    brand: string;
+    rating: string;
+    inStock: boolean;
+    attributes?: Record<string, string[]>;
+  }>({
     category: '',
     priceRange: '',
     brand: '',
@@ -40,17 +71,30 @@ export default function SearchPage() {
     nextSortBy: string,
     nextFilters: typeof filters
   ) => {
+    if (!nextQuery.trim()) {
+      setProducts([]);
+      setTotal(0);
+      setFacets(undefined);
+      setSuggestion(null);
+      setLoading(false);
+      return;
+    }
+
     try {
       setLoading(true);
-      const response = await ProductService.searchProducts(nextQuery, 1, 12, {
+      const response = await ProductService.searchWithFacets(nextQuery, 1, 12, {
         category: nextFilters.category || undefined,
         inStock: nextFilters.inStock || undefined,
-        sortBy: nextSortBy as 'price' | 'rating' | 'name' | 'createdAt' | 'stock',
-        sortOrder: nextSortBy === 'price' ? 'asc' : 'desc',
+        attributes: nextFilters.attributes,
+        sort: toSearchSort(nextSortBy),
         locale: nav.locale,
+        ...parsePriceRange(nextFilters.priceRange),
       });
 
       setProducts(response.items);
+      setTotal(response.total);
+      setFacets(response.facets ?? undefined);
+      setSuggestion(response.suggestion);
     } finally {
       setLoading(false);
     }
@@ -100,12 +144,16 @@ export default function SearchPage() {
       sortBy={sortBy}
       viewMode={viewMode}
       filters={filters}
+      totalResults={total}
+      facets={facets}
+      suggestion={suggestion}
       config={config}
       locale={nav.locale}
       t={t}
       onSortChange={setSortBy}
       onViewModeChange={setViewMode}
       onFilterChange={(nextFilters) => setFilters((current) => ({ ...current, ...nextFilters }))}
+      onSuggestionClick={(nextQuery) => nav.push(`/search?q=${encodeURIComponent(nextQuery)}`)}
       onAddToCart={handleAddToCart}
       onProductClick={(productId) => nav.push(`/products/${productId}`)}
     />
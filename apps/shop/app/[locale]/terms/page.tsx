@@ -10,12 +10,14 @@
 import React from 'react';
 import { useShopTheme } from '@/lib/themes/provider';
 import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
+import { useContentPage } from '@/hooks/use-content';
 import { useT } from 'shared/src/i18n/react';
 
 export default function TermsPage() {
   const { theme, config, isLoading: themeLoading } = useShopTheme();
   const nav = useLocalizedNavigation();
   const t = useT();
+  const content = useContentPage('terms', nav.locale);
 
   // Helper function for translations with fallback
   const getText = (key: string, fallback: string): string => {
@@ -23,7 +25,7 @@ export default function TermsPage() {
   };
 
   // Theme loading state
-  if (themeLoading) {
+  if (themeLoading || content.isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="animate-pulse space-y-4">
@@ -53,6 +55,7 @@ export default function TermsPage() {
       config={config}
       locale={nav.locale}
       t={t}
+      content={content.data}
     />
   );
 }
@@ -0,0 +1,74 @@
+/**
+ * Content Article
+ *
+ * Built-in layout for CMS pages and blog posts that have no theme component.
+ * `bodyHtml` comes from the API with raw HTML escaped, so it is injected as-is.
+ */
+
+'use client';
+
+import type { ContentPageDTO } from 'shared';
+import { useLocalizedNavigation } from '@/hooks/use-localized-navigation';
+import { useT } from 'shared/src/i18n/react';
+
+interface ContentArticleProps {
+  content: ContentPageDTO;
+  /** Blog posts show their date, tags and a link back to the blog */
+  variant?: 'page' | 'post';
+}
+
+export function ContentArticle({ content, variant = 'page' }: ContentArticleProps) {
+  const nav = useLocalizedNavigation();
+  const t = useT();
+
+  const getText = (key: string, fallback: string): string => (t ? t(key) : fallback);
+
+  const publishedOn = new Intl.DateTimeFormat(content.locale, { dateStyle: 'long' }).format(
+    new Date(content.publishedAt)
+  );
+
+  return (
+    <main className="min-h-screen bg-white">
+      <article className="mx-auto max-w-3xl px-4 py-12 sm:px-6 lg:py-16">
+        {variant === 'post' && (
+          <button
+            type="button"
+            onClick={() => nav.push('/blog')}
+            className="mb-8 inline-block text-sm font-medium text-gray-500 hover:text-gray-900"
+          >
+            ← {getText('shop.blog.backToBlog', 'Back to blog')}
+          </button>
+        )}
+
+        <header className="mb-10">
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">{content.title}</h1>
+          {variant === 'post' && (
+            <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-gray-500">
+              <time dateTime={content.publishedAt}>{publishedOn}</time>
+              {content.tags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => nav.push(`/blog?tag=${encodeURIComponent(tag)}`)}
+                  className="rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-600 hover:bg-gray-200"
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+          {content.excerpt && <p className="mt-4 text-lg text-gray-600">{content.excerpt}</p>}
+        </header>
+
+        {content.coverImage && (
+          <img src={content.coverImage} alt="" className="mb-10 w-full rounded-2xl object-cover" />
+        )}
+
+        <div
+          className="prose prose-gray max-w-none"
+          dangerouslySetInnerHTML={{ __html: content.bodyHtml }}
+        />
+      </article>
+    </main>
+  );
+}
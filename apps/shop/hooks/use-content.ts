@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ContentPageDTO, ContentPostSummaryDTO, PageResult } from 'shared';
+import { contentApi } from '@/lib/api';
+
+type ContentState<T> = {
+  data: T | null;
+  isLoading: boolean;
+  error: string | null;
+};
+
+/**
+ * Load a resource from the content API, re-fetching when the key changes.
+ * A missing entry (404) resolves to null rather than an error.
+ */
+function useContentResource<T>(
+  key: string | null,
+  load: () => Promise<{ success?: boolean; data?: T }>,
+): ContentState<T> {
+  const [state, setState] = useState<ContentState<T>>({ data: null, isLoading: key !== null, error: null });
+
+  useEffect(() => {
+    if (key === null) {
+      setState({ data: null, isLoading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    load()
+      .then((response) => {
+        if (!cancelled) {
+          setState({ data: response.success ? response.data ?? null : null, isLoading: false, error: null });
+        }
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        const status = (err as { response?: { status?: number } })?.response?.status;
+        setState({
+          data: null,
+          isLoading: false,
+          error: status === 404 ? null : err instanceof Error ? err.message : 'Failed to load content',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // `load` is recreated every render; the key captures its inputs
+  }, [key]);
+
+  return state;
+}
+
+/**
+ * Merchant-edited CMS page, or null when none is published
+ */
+export function useContentPage(slug: string, locale?: string) {
+  return useContentResource<ContentPageDTO>(
+    `page:${slug}:${locale ?? ''}`,
+    () => contentApi.getPage(slug, locale),
+  );
+}
+
+/**
+ * Published blog post, or null when it does not exist (yet)
+ */
+export function useContentPost(slug: string | null, locale?: string) {
+  return useContentResource<ContentPageDTO>(
+    slug ? `post:${slug}:${locale ?? ''}` : null,
+    () => contentApi.getPost(slug as string, locale),
+  );
+}
+
+/**
+ * Page of published blog posts, newest first
+ */
+export function useContentPosts(params: { locale?: string; tag?: string; page?: number; limit?: number }) {
+  return useContentResource<PageResult<ContentPostSummaryDTO>>(
+    `posts:${params.locale ?? ''}:${params.tag ?? ''}:${params.page ?? 1}:${params.limit ?? ''}`,
+    () => contentApi.getPosts(params),
+  );
+}
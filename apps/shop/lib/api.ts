@@ -19,17 +19,36 @@ import type {
   ProductSearchFilters,
   OrderFilters,
 } from 'shared/src';
+import type { PageTemplate } from './theme-pack/types';
 
 // Import DTO types - Aligned with actual backend response structure
 import type {
   ShopProductListItemDTO,
   ShopProductDetailDTO,
   ProductCategoryDTO,
+  ProductSearchFacetsDTO,
+  ProductSearchSortDTO,
+  ProductReviewDTO,
+  ProductReviewSummaryDTO,
   CartDTO,
   CartItemDTO,
   ShopOrderListItemDTO,
   ShopOrderDetailDTO,
   AddToCartRequestDTO,
+  ReturnRequestDTO,
+  CreateReturnRequestDTO,
+  CustomerAddressDTO,
+  SaveCustomerAddressDTO,
+  GiftCardBalanceDTO,
+  StoreCreditDTO,
+  AppliedTendersDTO,
+  WishlistDTO,
+  WishlistItemDTO,
+  WishlistSummaryDTO,
+  SharedWishlistDTO,
+  AddToWishlistRequestDTO,
+  ContentPageDTO,
+  ContentPostSummaryDTO,
 } from 'shared';
 
 /**
@@ -98,6 +117,19 @@ export const accountApi = {
 
   updateProfile: (data: { username?: string; avatar?: string }) =>
     apiClient.put('/account/profile', data),
+
+  // Address book
+  getAddresses: (): Promise<ApiResponse<CustomerAddressDTO[]>> =>
+    apiClient.get(API_ENDPOINTS.ACCOUNT.ADDRESSES),
+
+  createAddress: (data: SaveCustomerAddressDTO): Promise<ApiResponse<CustomerAddressDTO>> =>
+    apiClient.post(API_ENDPOINTS.ACCOUNT.ADDRESSES, data),
+
+  updateAddress: (id: string, data: Partial<SaveCustomerAddressDTO>): Promise<ApiResponse<CustomerAddressDTO>> =>
+    apiClient.put(API_ENDPOINTS.ACCOUNT.ADDRESS.replace(':id', id), data),
+
+  deleteAddress: (id: string): Promise<ApiResponse<void>> =>
+    apiClient.delete(API_ENDPOINTS.ACCOUNT.ADDRESS.replace(':id', id)),
 };
 
 // Products API - Use unified apiClient with DTO types
@@ -123,24 +155,50 @@ export const productsApi = {
       }
     }),
 
+  /**
+   * Get approved reviews of a product with its rating summary
+   * @param id - Product ID
+   */
+  getReviews: (
+    id: string,
+    params?: { page?: number; limit?: number; rating?: number; variantId?: string; sort?: 'newest' | 'highest' | 'lowest' }
+  ): Promise<ApiResponse<PageResult<ProductReviewDTO> & { summary: ProductReviewSummaryDTO }>> =>
+    apiClient.get(API_ENDPOINTS.PRODUCTS.REVIEWS.replace(':id', id), { params }),
+
   /**
    * Get product categories
    */
-  getCategories: (params?: { page?: number; limit?: number }): Promise<ApiResponse<PageResult<ProductCategoryDTO>>> =>
+  getCategories: (params?: { page?: number; limit?: number; locale?: string }): Promise<ApiResponse<PageResult<ProductCategoryDTO>>> =>
     apiClient.get(API_ENDPOINTS.PRODUCTS.CATEGORIES, {
       params,
     }),
 
   /**
    * Search products by keyword (dedicated backend endpoint)
+   * Attribute filters are sent as repeated `attribute=name:value` parameters.
    */
   searchProducts: (params: {
     q: string;
     page?: number;
     limit?: number;
     locale?: string;
-  }): Promise<ApiResponse<PageResult<ShopProductListItemDTO>>> =>
-    apiClient.get(API_ENDPOINTS.PRODUCTS.SEARCH, { params }),
+    category?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+    attributes?: Record<string, string[]>;
+    sort?: ProductSearchSortDTO;
+  }): Promise<ApiResponse<PageResult<ShopProductListItemDTO> & { facets?: ProductSearchFacetsDTO; suggestion?: string | null }>> => {
+    const { attributes, ...rest } = params;
+    const searchParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(rest)) {
+      if (value !== undefined && value !== '') searchParams.append(key, String(value));
+    }
+    for (const [name, values] of Object.entries(attributes ?? {})) {
+      values.forEach((value) => searchParams.append('attribute', `${name}:${value}`));
+    }
+    return apiClient.get(API_ENDPOINTS.PRODUCTS.SEARCH, { params: searchParams });
+  },
 };
 
 // Cart API - Use unified apiClient with DTO types
@@ -168,6 +226,60 @@ export const cartApi = {
 
   removeDiscount: (code: string): Promise<ApiResponse<CartDTO>> =>
     apiClient.delete(`/cart/discount/${code}`),
+
+  /**
+   * Move a cart line to the customer's saved-for-later list (signed-in only)
+   */
+  saveForLater: (itemId: string): Promise<ApiResponse<CartDTO>> =>
+    apiClient.post(API_ENDPOINTS.CART.SAVE_FOR_LATER.replace(':id', itemId)),
+};
+
+// Wishlists API - requires a signed-in customer except for shared lists
+export const wishlistsApi = {
+  getWishlists: (): Promise<ApiResponse<WishlistSummaryDTO[]>> =>
+    apiClient.get(API_ENDPOINTS.WISHLISTS.LIST),
+
+  getWishlist: (id: string): Promise<ApiResponse<WishlistDTO>> =>
+    apiClient.get(API_ENDPOINTS.WISHLISTS.DETAIL.replace(':id', id)),
+
+  createWishlist: (name: string): Promise<ApiResponse<WishlistDTO>> =>
+    apiClient.post(API_ENDPOINTS.WISHLISTS.LIST, { name }),
+
+  renameWishlist: (id: string, name: string): Promise<ApiResponse<WishlistDTO>> =>
+    apiClient.put(API_ENDPOINTS.WISHLISTS.DETAIL.replace(':id', id), { name }),
+
+  deleteWishlist: (id: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(API_ENDPOINTS.WISHLISTS.DETAIL.replace(':id', id)),
+
+  share: (id: string): Promise<ApiResponse<WishlistSummaryDTO>> =>
+    apiClient.post(API_ENDPOINTS.WISHLISTS.SHARE.replace(':id', id)),
+
+  unshare: (id: string): Promise<ApiResponse<WishlistSummaryDTO>> =>
+    apiClient.delete(API_ENDPOINTS.WISHLISTS.SHARE.replace(':id', id)),
+
+  /**
+   * Get a wishlist shared by link; no sign-in needed
+   */
+  getShared: (token: string): Promise<ApiResponse<SharedWishlistDTO>> =>
+    apiClient.get(API_ENDPOINTS.WISHLISTS.SHARED.replace(':token', encodeURIComponent(token))),
+
+  addItem: (data: AddToWishlistRequestDTO): Promise<ApiResponse<WishlistItemDTO>> =>
+    apiClient.post(API_ENDPOINTS.WISHLISTS.ITEMS, data),
+
+  updateItem: (
+    itemId: string,
+    data: { notifyBackInStock?: boolean; notifyPriceDrop?: boolean; wishlistId?: string }
+  ): Promise<ApiResponse<WishlistItemDTO>> =>
+    apiClient.put(API_ENDPOINTS.WISHLISTS.ITEM.replace(':itemId', itemId), data),
+
+  removeItem: (itemId: string): Promise<ApiResponse<null>> =>
+    apiClient.delete(API_ENDPOINTS.WISHLISTS.ITEM.replace(':itemId', itemId)),
+
+  /**
+   * Add the item to the cart and remove it from its list
+   */
+  moveToCart: (itemId: string): Promise<ApiResponse<CartDTO>> =>
+    apiClient.post(API_ENDPOINTS.WISHLISTS.MOVE_TO_CART.replace(':itemId', itemId)),
 };
 
 // Orders API - Use unified apiClient with DTO types
@@ -197,6 +309,7 @@ export const ordersApi = {
       country: string;
       postalCode: string;
     };
+    addressId?: string;  // Saved address of a signed-in customer, replaces shippingAddress
     customerEmail?: string;
     discountCodes?: string[];  // Optional discount codes to apply to order
   }): Promise<ApiResponse<ShopOrderDetailDTO>> =>
@@ -207,6 +320,63 @@ export const ordersApi = {
   // Cancel order
   cancelOrder: (orderId: string, cancelReason: string): Promise<ApiResponse<void>> =>
     apiClient.post(`/orders/${orderId}/cancel`, { cancelReason }),
+
+  // Request a return for lines of a shipped or delivered order
+  requestReturn: (orderId: string, data: CreateReturnRequestDTO): Promise<ApiResponse<ReturnRequestDTO>> =>
+    apiClient.post(`/orders/${orderId}/returns`, data),
+
+  // Upload a photo to attach to a return request (use the returned url in photos)
+  uploadReturnPhoto: (orderId: string, file: File): Promise<ApiResponse<{ url: string }>> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return apiClient.post(`/orders/${orderId}/returns/photos`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+};
+
+// Gift Cards & Store Credit API
+export const giftCardsApi = {
+  checkBalance: (code: string): Promise<ApiResponse<GiftCardBalanceDTO>> =>
+    apiClient.post(API_ENDPOINTS.GIFT_CARDS.BALANCE, { code }),
+
+  getStoreCredit: (): Promise<ApiResponse<StoreCreditDTO>> =>
+    apiClient.get(API_ENDPOINTS.GIFT_CARDS.STORE_CREDIT),
+
+  /**
+   * Hold gift cards and store credit against an order before the payment
+   * session is created. Guests pass the order's lookup token.
+   */
+  applyTenders: (
+    orderId: string,
+    data: { giftCardCodes?: string[]; useStoreCredit?: boolean },
+    orderToken?: string
+  ): Promise<ApiResponse<AppliedTendersDTO>> =>
+    apiClient.put(API_ENDPOINTS.GIFT_CARDS.ORDER_TENDERS.replace(':orderId', orderId), data, {
+      headers: orderToken ? { 'X-Order-Token': orderToken } : undefined,
+    }),
+
+  removeTenders: (orderId: string, orderToken?: string): Promise<ApiResponse<AppliedTendersDTO>> =>
+    apiClient.delete(API_ENDPOINTS.GIFT_CARDS.ORDER_TENDERS.replace(':orderId', orderId), {
+      headers: orderToken ? { 'X-Order-Token': orderToken } : undefined,
+    }),
+};
+
+// Content API - Merchant-edited pages and blog posts
+export const contentApi = {
+  getPage: (slug: string, locale?: string): Promise<ApiResponse<ContentPageDTO>> =>
+    apiClient.get(API_ENDPOINTS.CONTENT.PAGE.replace(':slug', encodeURIComponent(slug)), { params: { locale } }),
+
+  getPosts: (params?: {
+    locale?: string;
+    tag?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<ApiResponse<PageResult<ContentPostSummaryDTO>>> =>
+    apiClient.get(API_ENDPOINTS.CONTENT.POSTS, { params }),
+
+  getPost: (slug: string, locale?: string): Promise<ApiResponse<ContentPageDTO>> =>
+    apiClient.get(API_ENDPOINTS.CONTENT.POST.replace(':slug', encodeURIComponent(slug)), { params: { locale } }),
 };
 
 // Store Context API - For store identification
@@ -310,8 +480,19 @@ export const themesApi = {
   /**
    * Get active theme (Public)
    */
-  getActiveTheme: (): Promise<ApiResponse<any>> =>
-    apiClient.get('/themes/active'),
+  getActiveTheme: (previewToken?: string): Promise<ApiResponse<any>> =>
+    apiClient.get('/themes/active', previewToken ? { params: { previewToken } } : undefined),
+
+  /**
+   * Get the theme editor template override for a page (Public).
+   * template=null means the Theme Pack's own template file applies.
+   */
+  getPageTemplate: (page: string, previewToken?: string): Promise<ApiResponse<{
+    page: string;
+    template: PageTemplate | null;
+    source: 'draft' | 'published' | null;
+  }>> =>
+    apiClient.get(`/themes/templates/${encodeURIComponent(page)}`, previewToken ? { params: { previewToken } } : undefined),
 };
 
 // Export convenience functions
@@ -0,0 +1,75 @@
+/**
+ * Server-side CMS content helpers
+ *
+ * Fetches published pages and blog posts for server components and turns
+ * their SEO fields into Next.js metadata.
+ */
+
+import type { Metadata } from 'next';
+import type { ApiResponse, ContentPageDTO } from 'shared';
+import { generateMetadata as generateSeoMetadata } from '@/components/seo/SeoHead';
+import { buildServerApiUrl, resolvePublicOrigin } from './server-api-url';
+
+export type ServerContentKind = 'pages' | 'posts';
+
+/**
+ * Fetch a live page or post; null when it is missing or not published yet
+ */
+export async function getServerContent(
+  kind: ServerContentKind,
+  slug: string,
+  locale: string
+): Promise<ContentPageDTO | null> {
+  const url = new URL(await buildServerApiUrl(`/content/${kind}/${encodeURIComponent(slug)}`));
+  url.searchParams.set('locale', locale);
+
+  const response = await fetch(url.toString(), {
+    cache: 'no-store',
+    headers: {
+      Accept: 'application/json',
+      'X-App-Type': 'shop',
+      'X-Client-Version': '1.0.0',
+    },
+  });
+  if (response.status === 404) {
+    return null;
+  }
+
+  const payload = await response.json().catch(() => null) as ApiResponse<ContentPageDTO> | null;
+  if (!response.ok || !payload?.success || !payload.data) {
+    throw new Error(payload?.error?.message || `Failed to fetch content ${slug}`);
+  }
+  return payload.data;
+}
+
+/**
+ * Metadata for a content page; the stored canonical URL wins over the
+ * page's own path.
+ */
+export async function generateContentMetadata(
+  content: ContentPageDTO,
+  path: string,
+  locale: string
+): Promise<Metadata> {
+  const publicOrigin = await resolvePublicOrigin();
+  const title = content.metaTitle || content.title;
+  const description = content.metaDescription || content.excerpt || '';
+
+  return generateSeoMetadata({
+    title,
+    description,
+    canonical: content.canonicalUrl || `${publicOrigin}/${locale}${path}`,
+    ogTitle: title,
+    ogDescription: description,
+    ogImage: content.coverImage || undefined,
+    ogType: content.type === 'POST' ? 'article' : 'website',
+  }, { locale });
+}
+
+/**
+ * JSON-LD for a content page, safe to embed in a script tag
+ */
+export function serializeContentStructuredData(content: ContentPageDTO): string | null {
+  if (!content.structuredData) return null;
+  return JSON.stringify(content.structuredData).replace(/</g, '\\u003c');
+}
@@ -80,11 +80,14 @@ export {
   fetchThemeManifest,
   getTokensCssUrl,
   fetchPageTemplate,
+  fetchTemplateOverride,
   fetchSettingsSchema,
   resolveAssetUrl,
   clearCache,
   clearThemeCache,
   preloadTheme,
+  getThemePreviewToken,
+  clearThemePreviewToken,
 } from './loader';
 
 // Block components (for direct use if needed)
@@ -84,18 +84,65 @@ function getCacheKey(slug: string, resource: string, version?: string): string {
   return `${slug}:${resource}:${version || 'latest'}`;
 }
 
+/** Query parameter the admin theme editor appends to preview links */
+const PREVIEW_TOKEN_PARAM = 'themePreview';
+const PREVIEW_TOKEN_STORAGE_KEY = 'theme_preview_token';
+
+/**
+ * Get the theme editor preview token for this browser tab.
+ * A `?themePreview=<token>` link starts the preview and keeps it for the
+ * session so navigation stays in preview; `?themePreview=off` ends it.
+ */
+export function getThemePreviewToken(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get(PREVIEW_TOKEN_PARAM);
+    if (fromUrl === 'off') {
+      window.sessionStorage.removeItem(PREVIEW_TOKEN_STORAGE_KEY);
+      return null;
+    }
+    if (fromUrl) {
+      window.sessionStorage.setItem(PREVIEW_TOKEN_STORAGE_KEY, fromUrl);
+      return fromUrl;
+    }
+    return window.sessionStorage.getItem(PREVIEW_TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * End the theme editor preview for this browser tab
+ */
+export function clearThemePreviewToken(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.sessionStorage.removeItem(PREVIEW_TOKEN_STORAGE_KEY);
+  } catch {
+    // Storage unavailable: nothing to clear
+  }
+}
+
 /**
  * Fetch active theme from API
  */
 export async function fetchActiveTheme(): Promise<ActiveTheme | null> {
   try {
     const { themesApi } = await import('@/lib/api');
-    const response = await themesApi.getActiveTheme();
+    const previewToken = getThemePreviewToken();
+    const response = await themesApi.getActiveTheme(previewToken || undefined);
     if (!response.success) {
       console.warn('[ThemePack] Failed to fetch active theme:', response.error?.message || 'unknown error');
       return null;
     }
-    return (response.data || null) as ActiveTheme | null;
+    const activeTheme = (response.data || null) as ActiveTheme | null;
+    if (previewToken && activeTheme && !activeTheme.preview) {
+      // Expired, forged or published in the meantime: stop sending it
+      clearThemePreviewToken();
+    }
+    return activeTheme;
   } catch (error) {
     console.error('[ThemePack] Error fetching active theme:', error);
     return null;
@@ -216,6 +263,27 @@ export async function fetchPageTemplate(
   }
 }
 
+/**
+ * Fetch the theme editor override for a page template.
+ * Returns the previewed draft or the published template, or null when the
+ * Theme Pack's own template file applies. Not cached here: publishing must
+ * reach the storefront without a reload of the theme resources.
+ * @param page - Page name
+ */
+export async function fetchTemplateOverride(page: string): Promise<PageTemplate | null> {
+  try {
+    const { themesApi } = await import('@/lib/api');
+    const response = await themesApi.getPageTemplate(page, getThemePreviewToken() || undefined);
+    if (!response.success) {
+      return null;
+    }
+    return response.data?.template || null;
+  } catch (error) {
+    console.debug(`[ThemePack] No template override for ${page}:`, error);
+    return null;
+  }
+}
+
 /**
  * Fetch settings schema
  * @param slug - Theme slug
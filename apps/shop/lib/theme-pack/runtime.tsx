@@ -33,6 +33,7 @@ import {
   fetchActiveTheme,
   fetchThemeManifest,
   fetchPageTemplate,
+  fetchTemplateOverride,
   getTokensCssUrl,
   resolveAssetUrl,
   clearThemeCache,
@@ -258,7 +259,10 @@ export function ThemePackProvider({
         return null;
       }
 
-      const template = await fetchPageTemplate(
+      // Theme editor overrides (draft preview or published) only apply to the
+      // active theme, not to a theme previewed by slug.
+      const override = previewSlug ? null : await fetchTemplateOverride(page);
+      const template = override || await fetchPageTemplate(
         effectiveSlug,
         page,
         manifest || undefined,
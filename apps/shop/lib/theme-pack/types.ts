@@ -145,6 +145,8 @@ export interface ActiveTheme {
   activatedAt: string;
   previousSlug?: string;
   previousVersion?: string;
+  /** True when config comes from a theme editor draft (preview token) */
+  preview?: boolean;
 }
 
 /**
@@ -15,7 +15,7 @@ export type { ShopProductListItemDTO, ShopProductDetailDTO, ProductCategory, Pro
 
 // Import the DTO types for internal use
 import type { ApiResponse, ShopProductListItemDTO, ShopProductDetailDTO, ProductSearchFilters, PageResult } from 'shared';
-import type { ProductCategoryDTO } from 'shared';
+import type { ProductCategoryDTO, ProductSearchFacetsDTO, ProductSearchSortDTO } from 'shared';
 
 async function getProductServerSide(
     id: string,
@@ -66,6 +66,21 @@ export interface ProductListResponse {
     totalPages: number;
 }
 
+export interface ProductSearchResponse extends ProductListResponse {
+    facets: ProductSearchFacetsDTO | null;
+    suggestion: string | null;
+}
+
+export interface ProductSearchOptions {
+    locale?: string;
+    category?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+    attributes?: Record<string, string[]>;
+    sort?: ProductSearchSortDTO;
+}
+
 /**
  * ProductService - High-level service for product operations
  */
@@ -133,9 +148,10 @@ export const ProductService = {
      * Get product categories
      * @param page - Page number
      * @param limit - Items per page
+     * @param locale - Optional language code for translated category names
      */
-    async getCategories(page = 1, limit = 20): Promise<PageResult<ProductCategoryDTO>> {
-        const response = await productsApi.getCategories({ page, limit });
+    async getCategories(page = 1, limit = 20, locale?: string): Promise<PageResult<ProductCategoryDTO>> {
+        const response = await productsApi.getCategories({ page, limit, ...(locale ? { locale } : {}) });
 
         if (!response.success || !response.data) {
             throw new Error(response.error?.message || 'Failed to fetch categories');
@@ -199,6 +215,36 @@ export const ProductService = {
         });
     },
 
+    /**
+     * Full-text search with facets and "did you mean" suggestion
+     * @param query - Search text
+     * @param page - Page number
+     * @param limit - Items per page
+     * @param options - Category, price, stock and attribute filters plus sort order
+     */
+    async searchWithFacets(
+        query: string,
+        page = 1,
+        limit = 12,
+        options: ProductSearchOptions = {}
+    ): Promise<ProductSearchResponse> {
+        const response = await productsApi.searchProducts({ q: query, page, limit, ...options });
+
+        if (!response.success || !response.data) {
+            throw new Error(response.error?.message || 'Failed to search products');
+        }
+
+        return {
+            items: response.data.items || [],
+            page: response.data.page || page,
+            limit: response.data.limit || limit,
+            total: response.data.total || 0,
+            totalPages: response.data.totalPages || 1,
+            facets: response.data.facets ?? null,
+            suggestion: response.data.suggestion ?? null,
+        };
+    },
+
     /**
      * Get products by category
      * @param category - Category slug or ID
@@ -1,5 +1,5 @@
 /**
- * Session API - Implements the core platform's payment session contract.
+ * Session API - Implements the core platform's payment session and refund contract.
  *
  * These routes are mounted at /payments in the Express app so that the
  * core gateway forwarding path matches correctly:
@@ -12,6 +12,7 @@
 
 import { Router, Request, Response } from 'express';
 import { sessionService } from '../services/session.service';
+import { refundService, type StripeRefundReason } from '../services/refund.service';
 import { getContext, getPluginConfig } from '../lib/platform-context';
 
 const router = Router();
@@ -89,4 +90,101 @@ router.post('/verify-session', async (req: Request, res: Response) => {
   }
 });
 
+const STRIPE_REFUND_REASONS = new Set<StripeRefundReason>(['duplicate', 'fraudulent', 'requested_by_customer']);
+
+// POST /refund
+// Called by the core when an admin refunds an order. The refund is final only
+// once verify-refund (or the Stripe webhook) reports it succeeded.
+router.post('/refund', async (req: Request, res: Response) => {
+  try {
+    const ctx = getContext(req.headers as any);
+    const config = getPluginConfig(req.headers as any);
+
+    if (ctx.userRole !== 'ADMIN') {
+      return res.status(403).json({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'Admin access required' },
+      });
+    }
+
+    const { orderId, amount, reason, idempotencyKey, refundId } = req.body;
+
+    if (!orderId) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'orderId is required' },
+      });
+    }
+
+    if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'amount must be a positive number (in cents)',
+        },
+      });
+    }
+
+    const result = await refundService.createRefundForOrder(
+      ctx.installationId,
+      {
+        orderId,
+        amount,
+        // Free-text reasons from the admin stay in the core; Stripe only accepts its own codes
+        reason: STRIPE_REFUND_REASONS.has(reason) ? reason : undefined,
+        idempotencyKey,
+        metadata: refundId ? { coreRefundId: String(refundId) } : undefined,
+      },
+      config.secretKey,
+    );
+
+    return res.json({
+      success: true,
+      data: { refundId: result.stripeRefundId, status: result.status, amount: result.amount },
+    });
+  } catch (error: any) {
+    const statusCode = error.message?.includes('not found')
+      ? 404
+      : error.message?.includes('Cannot refund') || error.message?.includes('exceeds')
+        ? 400
+        : 500;
+    return res.status(statusCode).json({
+      success: false,
+      error: {
+        code: 'REFUND_ERROR',
+        message: error.message || 'Failed to process refund',
+      },
+    });
+  }
+});
+
+// POST /verify-refund
+// Called by the core to check a refund's status at Stripe.
+router.post('/verify-refund', async (req: Request, res: Response) => {
+  try {
+    const config = getPluginConfig(req.headers as any);
+    const { refundId } = req.body;
+
+    if (!refundId) {
+      return res.status(400).json({
+        success: false,
+        error: { code: 'VALIDATION_ERROR', message: 'refundId is required' },
+      });
+    }
+
+    const result = await refundService.verifyRefund(refundId, config.secretKey);
+
+    return res.json({ success: true, data: result });
+  } catch (error: any) {
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: 'VERIFICATION_ERROR',
+        message: error.message || 'Failed to verify refund',
+      },
+    });
+  }
+});
+
 export { router as sessionApiRoutes };
@@ -1,10 +1,28 @@
 import { prisma } from '../lib/prisma';
 import { getStripeClient } from '../lib/stripe-client';
 
+export type StripeRefundReason = 'duplicate' | 'fraudulent' | 'requested_by_customer';
+
 export interface RefundInput {
   paymentRecordId: string;
   amount?: number; // partial refund in cents; if omitted, full refund
-  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer';
+  reason?: StripeRefundReason;
+  idempotencyKey?: string; // forwarded to Stripe so a retried request cannot refund twice
+  metadata?: Record<string, string>;
+}
+
+export interface OrderRefundInput {
+  orderId: string;
+  amount?: number;
+  reason?: StripeRefundReason;
+  idempotencyKey?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface VerifyRefundResult {
+  refundId: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  reason?: string;
 }
 
 export interface RefundResult {
@@ -57,15 +75,19 @@ export class RefundService {
     }
 
     // Create Stripe refund
-    const stripeRefund = await stripe.refunds.create({
+    const refundParams = {
       payment_intent: payment.stripePaymentIntentId,
       amount: refundAmount,
       reason: input.reason,
       metadata: {
+        ...(input.metadata || {}),
         installationId,
         paymentRecordId: payment.id,
       },
-    });
+    };
+    const stripeRefund = input.idempotencyKey
+      ? await stripe.refunds.create(refundParams, { idempotencyKey: input.idempotencyKey })
+      : await stripe.refunds.create(refundParams);
 
     // Create refund record
     const refundRecord = await prisma.refundRecord.create({
@@ -99,6 +121,63 @@ export class RefundService {
     };
   }
 
+  /**
+   * Refund the payment recorded for a core order (core refund contract).
+   */
+  async createRefundForOrder(
+    installationId: string,
+    input: OrderRefundInput,
+    secretKey?: string
+  ): Promise<RefundResult> {
+    const payment = await prisma.paymentRecord.findUnique({
+      where: {
+        installationId_orderId: { installationId, orderId: input.orderId },
+      },
+    });
+
+    if (!payment) {
+      throw new Error('Payment record not found');
+    }
+
+    return this.createRefund(
+      installationId,
+      {
+        paymentRecordId: payment.id,
+        amount: input.amount,
+        reason: input.reason,
+        idempotencyKey: input.idempotencyKey,
+        metadata: input.metadata,
+      },
+      secretKey
+    );
+  }
+
+  /**
+   * Fetch the current status of a refund from Stripe and mirror it locally.
+   */
+  async verifyRefund(stripeRefundId: string, secretKey?: string): Promise<VerifyRefundResult> {
+    const stripe = getStripeClient(secretKey);
+    const refund = await stripe.refunds.retrieve(stripeRefundId);
+
+    const status =
+      refund.status === 'succeeded'
+        ? 'succeeded'
+        : refund.status === 'failed' || refund.status === 'canceled'
+          ? 'failed'
+          : 'pending';
+
+    await prisma.refundRecord.updateMany({
+      where: { stripeRefundId },
+      data: { status, ...(refund.failure_reason && { errorMessage: refund.failure_reason }) },
+    });
+
+    return {
+      refundId: refund.id,
+      status,
+      ...(refund.failure_reason ? { reason: refund.failure_reason } : {}),
+    };
+  }
+
   async getRefund(installationId: string, refundId: string) {
     return prisma.refundRecord.findFirst({
       where: { id: refundId, installationId },
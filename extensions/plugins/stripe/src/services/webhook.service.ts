@@ -137,6 +137,8 @@ export class WebhookService {
           break;
 
         case 'charge.refund.updated':
+        case 'refund.updated':
+        case 'refund.failed':
           await this.handleRefundUpdated(event.data.object as Stripe.Refund);
           handled = true;
           break;
@@ -7,10 +7,19 @@ const mockSessionService = vi.hoisted(() => ({
   verifySession: vi.fn(),
 }));
 
+const mockRefundService = vi.hoisted(() => ({
+  createRefundForOrder: vi.fn(),
+  verifyRefund: vi.fn(),
+}));
+
 vi.mock('../../src/services/session.service', () => ({
   sessionService: mockSessionService,
 }));
 
+vi.mock('../../src/services/refund.service', () => ({
+  refundService: mockRefundService,
+}));
+
 vi.mock('../../src/lib/prisma', () => ({
   prisma: {},
 }));
@@ -257,4 +266,117 @@ describe('session-api routes', () => {
       });
     });
   });
+
+  // ==========================================================================
+  // POST /payments/refund
+  // ==========================================================================
+
+  describe('POST /payments/refund', () => {
+    it('refunds the order and returns the Stripe refund ID', async () => {
+      mockRefundService.createRefundForOrder.mockResolvedValue({
+        refundId: 'ref_1',
+        stripeRefundId: 're_1',
+        amount: 1500,
+        status: 'pending',
+      });
+
+      await withServer(async (baseUrl) => {
+        const res = await requestJson(baseUrl, '/payments/refund', {
+          method: 'POST',
+          headers: defaultHeaders({
+            'x-user-role': 'ADMIN',
+            'x-plugin-config': configHeader({ secretKey: 'sk_test' }),
+          }),
+          body: JSON.stringify({
+            refundId: 'core_ref_1',
+            orderId: 'order_1',
+            amount: 1500,
+            reason: 'Damaged on arrival',
+            idempotencyKey: 'refund-key-1',
+          }),
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.json.data).toEqual({ refundId: 're_1', status: 'pending', amount: 1500 });
+        expect(mockRefundService.createRefundForOrder).toHaveBeenCalledWith(
+          'ins_test',
+          {
+            orderId: 'order_1',
+            amount: 1500,
+            reason: undefined,
+            idempotencyKey: 'refund-key-1',
+            metadata: { coreRefundId: 'core_ref_1' },
+          },
+          'sk_test',
+        );
+      });
+    });
+
+    it('returns 403 unless an admin initiated the refund', async () => {
+      await withServer(async (baseUrl) => {
+        const res = await requestJson(baseUrl, '/payments/refund', {
+          method: 'POST',
+          headers: defaultHeaders({ 'x-user-role': 'USER' }),
+          body: JSON.stringify({ orderId: 'order_1' }),
+        });
+
+        expect(res.status).toBe(403);
+        expect(mockRefundService.createRefundForOrder).not.toHaveBeenCalled();
+      });
+    });
+
+    it('returns 400 when the amount exceeds what is left', async () => {
+      mockRefundService.createRefundForOrder.mockRejectedValue(
+        new Error('Refund amount (6000) exceeds remaining refundable amount (5000)'),
+      );
+
+      await withServer(async (baseUrl) => {
+        const res = await requestJson(baseUrl, '/payments/refund', {
+          method: 'POST',
+          headers: defaultHeaders({ 'x-user-role': 'ADMIN' }),
+          body: JSON.stringify({ orderId: 'order_1', amount: 6000 }),
+        });
+
+        expect(res.status).toBe(400);
+        expect(res.json.error.code).toBe('REFUND_ERROR');
+      });
+    });
+  });
+
+  // ==========================================================================
+  // POST /payments/verify-refund
+  // ==========================================================================
+
+  describe('POST /payments/verify-refund', () => {
+    it('returns the refund status', async () => {
+      mockRefundService.verifyRefund.mockResolvedValue({ refundId: 're_1', status: 'succeeded' });
+
+      await withServer(async (baseUrl) => {
+        const res = await requestJson(baseUrl, '/payments/verify-refund', {
+          method: 'POST',
+          headers: defaultHeaders({
+            'x-plugin-config': configHeader({ secretKey: 'sk_test' }),
+          }),
+          body: JSON.stringify({ refundId: 're_1' }),
+        });
+
+        expect(res.status).toBe(200);
+        expect(res.json.data).toEqual({ refundId: 're_1', status: 'succeeded' });
+        expect(mockRefundService.verifyRefund).toHaveBeenCalledWith('re_1', 'sk_test');
+      });
+    });
+
+    it('returns 400 when refundId is missing', async () => {
+      await withServer(async (baseUrl) => {
+        const res = await requestJson(baseUrl, '/payments/verify-refund', {
+          method: 'POST',
+          headers: defaultHeaders(),
+          body: JSON.stringify({}),
+        });
+
+        expect(res.status).toBe(400);
+        expect(res.json.error.message).toContain('refundId');
+      });
+    });
+  });
 });
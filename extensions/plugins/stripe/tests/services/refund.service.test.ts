@@ -3,6 +3,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 const mockPrisma = vi.hoisted(() => ({
   paymentRecord: {
     findFirst: vi.fn(),
+    findUnique: vi.fn(),
     update: vi.fn(),
   },
   refundRecord: {
@@ -11,6 +12,7 @@ const mockPrisma = vi.hoisted(() => ({
     findMany: vi.fn(),
     count: vi.fn(),
     update: vi.fn(),
+    updateMany: vi.fn(),
     aggregate: vi.fn(),
   },
 }));
@@ -18,6 +20,7 @@ const mockPrisma = vi.hoisted(() => ({
 const mockStripe = vi.hoisted(() => ({
   refunds: {
     create: vi.fn(),
+    retrieve: vi.fn(),
   },
 }));
 
@@ -226,6 +229,90 @@ describe('RefundService.createRefund', () => {
   });
 });
 
+// ============================================================================
+// createRefundForOrder
+// ============================================================================
+
+describe('RefundService.createRefundForOrder', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('refunds the payment recorded for the order with the idempotency key', async () => {
+    mockPrisma.paymentRecord.findUnique.mockResolvedValue(fakePaymentRecord());
+    mockPrisma.paymentRecord.findFirst.mockResolvedValue(fakePaymentRecord());
+    mockPrisma.refundRecord.aggregate.mockResolvedValue({ _sum: { amount: null } });
+    mockStripe.refunds.create.mockResolvedValue({ id: 're_order', status: 'pending' });
+    mockPrisma.refundRecord.create.mockResolvedValue(
+      fakeRefundRecord({ id: 'ref_order', stripeRefundId: 're_order', amount: 1500, status: 'pending' }),
+    );
+
+    const result = await service.createRefundForOrder('ins_1', {
+      orderId: 'order_1',
+      amount: 1500,
+      idempotencyKey: 'refund-key-1',
+      metadata: { coreRefundId: 'core_ref_1' },
+    });
+
+    expect(result).toMatchObject({ stripeRefundId: 're_order', amount: 1500, status: 'pending' });
+    expect(mockPrisma.paymentRecord.findUnique).toHaveBeenCalledWith({
+      where: { installationId_orderId: { installationId: 'ins_1', orderId: 'order_1' } },
+    });
+    expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: 1500,
+        metadata: expect.objectContaining({ coreRefundId: 'core_ref_1' }),
+      }),
+      { idempotencyKey: 'refund-key-1' },
+    );
+  });
+
+  it('throws when the order has no payment record', async () => {
+    mockPrisma.paymentRecord.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.createRefundForOrder('ins_1', { orderId: 'order_missing' }),
+    ).rejects.toThrow('Payment record not found');
+    expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// verifyRefund
+// ============================================================================
+
+describe('RefundService.verifyRefund', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('reports and stores the Stripe refund status', async () => {
+    mockStripe.refunds.retrieve.mockResolvedValue({ id: 're_abc123', status: 'succeeded' });
+    mockPrisma.refundRecord.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await service.verifyRefund('re_abc123');
+
+    expect(result).toEqual({ refundId: 're_abc123', status: 'succeeded' });
+    expect(mockPrisma.refundRecord.updateMany).toHaveBeenCalledWith({
+      where: { stripeRefundId: 're_abc123' },
+      data: { status: 'succeeded' },
+    });
+  });
+
+  it('maps canceled refunds to failed with the failure reason', async () => {
+    mockStripe.refunds.retrieve.mockResolvedValue({
+      id: 're_abc123',
+      status: 'canceled',
+      failure_reason: 'expired_or_canceled_card',
+    });
+    mockPrisma.refundRecord.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await service.verifyRefund('re_abc123');
+
+    expect(result).toEqual({
+      refundId: 're_abc123',
+      status: 'failed',
+      reason: 'expired_or_canceled_card',
+    });
+  });
+});
+
 // ============================================================================
 // getRefund
 // ============================================================================
@@ -45,6 +45,21 @@ export interface ProductListResult {
   totalPages: number;
 }
 
+export type ProductSearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'name';
+
+export interface ProductSearchFacets {
+  categories: Array<{ id: string; name: string; slug: string; count: number }>;
+  price: { min: number; max: number } | null;
+  attributes: Array<{ name: string; values: Array<{ value: string; count: number }> }>;
+  availability: { inStock: number; outOfStock: number };
+}
+
+export interface ProductSearchResult extends ProductListResult {
+  facets?: ProductSearchFacets;
+  /** "Did you mean" query returned when nothing matched the search words exactly */
+  suggestion?: string | null;
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -130,7 +145,7 @@ export class JiffooApiClient {
     method: string,
     path: string,
     options?: {
-      query?: Record<string, string | number | boolean | undefined>;
+      query?: Record<string, string | number | boolean | string[] | undefined>;
       body?: unknown;
     },
   ): Promise<T> {
@@ -138,7 +153,9 @@ export class JiffooApiClient {
 
     if (options?.query) {
       for (const [key, value] of Object.entries(options.query)) {
-        if (value !== undefined) {
+        if (Array.isArray(value)) {
+          value.forEach((item) => url.searchParams.append(key, item));
+        } else if (value !== undefined) {
           url.searchParams.set(key, String(value));
         }
       }
@@ -188,7 +205,8 @@ export class JiffooApiClient {
   // -------------------------------------------------------------------------
 
   /**
-   * Search products by keyword, category, or price range.
+   * Full-text product search with category, price, stock and attribute filters.
+   * Results include facets and an optional "did you mean" suggestion.
    */
   async searchProducts(params: {
     q?: string;
@@ -198,12 +216,15 @@ export class JiffooApiClient {
     minPrice?: number;
     maxPrice?: number;
     inStock?: boolean;
-    sortBy?: 'price' | 'name' | 'createdAt' | 'stock';
-    sortOrder?: 'asc' | 'desc';
+    attributes?: Record<string, string[]>;
+    sort?: ProductSearchSort;
     locale?: string;
-  }): Promise<ProductListResult> {
-    return this.request<ProductListResult>('GET', '/products/search', {
-      query: params,
+  }): Promise<ProductSearchResult> {
+    const { attributes, ...query } = params;
+    const attribute = Object.entries(attributes ?? {})
+      .flatMap(([name, values]) => values.map((value) => `${name}:${value}`));
+    return this.request<ProductSearchResult>('GET', '/products/search', {
+      query: { ...query, attribute: attribute.length > 0 ? attribute : undefined },
     });
   }
 
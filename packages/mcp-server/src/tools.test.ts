@@ -167,6 +167,53 @@ describe('MCP Tools', () => {
       const result = await toolHandlers.search_products({ q: 'nonexistent' }, ctx);
       assert.ok(result.content[0].text.includes('No products found'));
     });
+
+    it('should offer the did-you-mean suggestion when nothing matched', async () => {
+      const ctx: ToolContext = {
+        client: createMockClient({
+          searchProducts: async () => ({
+            items: [],
+            page: 1,
+            limit: 10,
+            total: 0,
+            totalPages: 0,
+            suggestion: 'gift card',
+          }),
+        }),
+        hasToken: false,
+      };
+
+      const result = await toolHandlers.search_products({ q: 'gfit crad' }, ctx);
+      assert.ok(result.content[0].text.includes('Did you mean "gift card"?'));
+    });
+
+    it('should list facets after the results', async () => {
+      const ctx: ToolContext = {
+        client: createMockClient({
+          searchProducts: async () => ({
+            items: [{ id: 'p1', name: 'Test Product', price: 19.99, stock: 10 }],
+            page: 1,
+            limit: 10,
+            total: 1,
+            totalPages: 1,
+            facets: {
+              categories: [{ id: 'cat-1', name: 'Gift Cards', slug: 'gift-cards', count: 1 }],
+              price: { min: 19.99, max: 19.99 },
+              attributes: [{ name: 'region', values: [{ value: 'EU', count: 1 }] }],
+              availability: { inStock: 1, outOfStock: 0 },
+            },
+            suggestion: null,
+          }),
+        }),
+        hasToken: false,
+      };
+
+      const result = await toolHandlers.search_products({ q: 'gift', attributes: { region: ['EU'] } }, ctx);
+      const text = result.content[0].text;
+      assert.ok(text.includes('Gift Cards [cat-1] (1)'));
+      assert.ok(text.includes('region: EU (1)'));
+      assert.ok(text.includes('1 in stock, 0 out of stock'));
+    });
   });
 
   describe('get_product handler', () => {
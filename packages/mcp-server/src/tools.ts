@@ -10,6 +10,7 @@
 
 import { z } from 'zod';
 import { JiffooApiClient, JiffooApiError } from './client.js';
+import type { ProductSearchFacets } from './client.js';
 
 // ---------------------------------------------------------------------------
 // Tool Schema Definitions
@@ -19,15 +20,16 @@ export const toolSchemas = {
   search_products: {
     name: 'search_products',
     description:
-      'Search the product catalog by keyword, category, or price range. ' +
-      'Returns paginated results with product name, price, stock, and images. ' +
+      'Search the product catalog by keyword with optional category, price, stock and attribute filters. ' +
+      'Results are ranked by relevance and tolerate typos; they include facet counts (categories, price range, ' +
+      'attributes, availability) and a "did you mean" suggestion when nothing matched exactly. ' +
       'Use this when a user asks to browse or find products.',
     inputSchema: {
       type: 'object',
       properties: {
         q: {
           type: 'string',
-          description: 'Search query — matches product name and description (case-insensitive). Example: "gift card" or "eSIM Europe"',
+          description: 'Search query — matches product name, SKU and description, including translations. Example: "gift card" or "eSIM Europe"',
         },
         page: {
           type: 'number',
@@ -44,7 +46,7 @@ export const toolSchemas = {
         },
         category: {
           type: 'string',
-          description: 'Category ID to filter by. Use get_categories to find available category IDs.',
+          description: 'Category ID to filter by (includes subcategories). Use get_categories to find available category IDs.',
         },
         minPrice: {
           type: 'number',
@@ -58,15 +60,15 @@ export const toolSchemas = {
           type: 'boolean',
           description: 'If true, only return products that are currently in stock.',
         },
-        sortBy: {
-          type: 'string',
-          enum: ['price', 'name', 'createdAt', 'stock'],
-          description: 'Sort field. Default: relevance (search order).',
+        attributes: {
+          type: 'object',
+          additionalProperties: { type: 'array', items: { type: 'string' } },
+          description: 'Variant attribute filters, e.g. { "color": ["red", "blue"], "size": ["M"] }. Values of one attribute are alternatives.',
         },
-        sortOrder: {
+        sort: {
           type: 'string',
-          enum: ['asc', 'desc'],
-          description: 'Sort direction. Default: asc.',
+          enum: ['relevance', 'price_asc', 'price_desc', 'newest', 'name'],
+          description: 'Sort order. Default: relevance.',
         },
       },
     },
@@ -223,6 +225,21 @@ function formatSuccess(text: string) {
   };
 }
 
+function formatSearchFacets(facets: ProductSearchFacets): string[] {
+  const lines: string[] = ['Refine by:'];
+  if (facets.categories.length > 0) {
+    lines.push(`  Categories: ${facets.categories.map((c) => `${c.name} [${c.id}] (${c.count})`).join(', ')}`);
+  }
+  if (facets.price) {
+    lines.push(`  Price: ${facets.price.min} – ${facets.price.max}`);
+  }
+  for (const attribute of facets.attributes) {
+    lines.push(`  ${attribute.name}: ${attribute.values.map((v) => `${v.value} (${v.count})`).join(', ')}`);
+  }
+  lines.push(`  Availability: ${facets.availability.inStock} in stock, ${facets.availability.outOfStock} out of stock`);
+  return lines;
+}
+
 function requireToken(ctx: ToolContext): string | null {
   if (!ctx.hasToken) {
     return 'This tool requires an API token. Set the JIFFOO_API_TOKEN environment variable or use --token flag.\n\nGenerate a token in Admin → Settings → API Tokens.';
@@ -237,10 +254,17 @@ export const toolHandlers: Record<string, (params: any, ctx: ToolContext) => Pro
       const lines: string[] = [];
 
       if (result.items.length === 0) {
-        return formatSuccess('No products found. Try different search terms or filters.');
+        return formatSuccess(
+          result.suggestion
+            ? `No products found. Did you mean "${result.suggestion}"?`
+            : 'No products found. Try different search terms or filters.',
+        );
       }
 
       lines.push(`Found ${result.total} product(s) (page ${result.page}/${result.totalPages}):`);
+      if (result.suggestion) {
+        lines.push(`Did you mean "${result.suggestion}"?`);
+      }
       lines.push('');
 
       for (const product of result.items) {
@@ -256,6 +280,10 @@ export const toolHandlers: Record<string, (params: any, ctx: ToolContext) => Pro
         lines.push('');
       }
 
+      if (result.facets) {
+        lines.push(...formatSearchFacets(result.facets));
+      }
+
       return formatSuccess(lines.join('\n'));
     } catch (error) {
       return formatError(error);
@@ -390,11 +390,26 @@ router.post('/payments/create-session', async (req${reqType}, res${resType}) =>
   });
 });
 
+// Core refund contract: body { refundId, orderId, paymentId, sessionId, paymentIntentId,
+// amount, currency, reason, idempotencyKey }. Reply with the provider's refund ID; the core
+// keeps the refund pending until verify-refund reports 'succeeded' or 'failed'.
 router.post('/payments/refund', async (req${reqType}, res${resType}) => {
-  const { paymentId, amount } = req.body || {};
+  const { orderId, amount, idempotencyKey } = req.body || {};
+
+  // TODO: Refund through your payment provider, passing idempotencyKey along.
+  res.json({
+    success: true,
+    data: { refundId: 'mock_refund_' + (idempotencyKey || orderId), amount, status: 'pending' },
+  });
+});
+
+router.post('/payments/verify-refund', async (req${reqType}, res${resType}) => {
+  const { refundId } = req.body || {};
+
+  // TODO: Look the refund up at your payment provider.
   res.json({
     success: true,
-    data: { paymentId, amount, status: 'pending' },
+    data: { refundId, status: 'succeeded' },
   });
 });
 
@@ -5,7 +5,54 @@
  * Each plugin gets its own namespace to prevent data conflicts.
  */
 
-import type { PluginContext } from './types';
+import type { ApiResponse, PluginContext } from './types';
+
+/**
+ * Read a platform storage response.
+ * HEAD requests carry no body, so existence is reported from the status code;
+ * JSON responses are unwrapped from the platform `ApiResponse` envelope.
+ */
+async function readStorageResponse(
+  response: Response,
+  method: string,
+  errorLabel: string
+): Promise<unknown> {
+  if (method === 'HEAD') {
+    if (response.ok || response.status === 404) {
+      return { exists: response.ok };
+    }
+    throw new Error(`${errorLabel}: ${response.statusText}`);
+  }
+
+  const payload = await response.json().catch(() => null) as (Omit<ApiResponse, 'error'> & {
+    error?: { message?: string } | string;
+  }) | null;
+
+  if (!response.ok) {
+    const message = typeof payload?.error === 'object' ? payload.error?.message : payload?.message;
+    throw new Error(`${errorLabel}: ${message || response.statusText}`);
+  }
+
+  return payload && typeof payload === 'object' && 'data' in payload ? payload.data : payload;
+}
+
+/**
+ * Credentials for platform storage calls: the service token when the plugin
+ * has one, otherwise the signature of the gateway request being handled.
+ */
+function storageAuthHeaders(context: PluginContext): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-Plugin-Slug': context.pluginSlug,
+    'X-Installation-Id': context.installationId,
+  };
+  if (context.serviceToken) {
+    headers.Authorization = `Bearer ${context.serviceToken}`;
+  } else {
+    headers['X-Platform-Signature'] = context.signature;
+    headers['X-Platform-Timestamp'] = context.timestamp;
+  }
+  return headers;
+}
 
 /**
  * Plugin database interface (sandboxed)
@@ -125,20 +172,12 @@ export function createPluginDatabase(
       method,
       headers: {
         'Content-Type': 'application/json',
-        'X-Plugin-Slug': context.pluginSlug,
-        'X-Installation-Id': context.installationId,
-        'X-Platform-Signature': context.signature,
-        'X-Platform-Timestamp': context.timestamp,
+        ...storageAuthHeaders(context),
       },
       body: body ? JSON.stringify(body) : undefined,
     });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'Unknown error' })) as { message?: string };
-      throw new Error(`Database error: ${error.message || response.statusText}`);
-    }
-
-    return response.json();
+    return readStorageResponse(response, method, 'Database error');
   };
 
   return {
@@ -229,12 +268,7 @@ export function createPluginStorage(
     isFormData = false
   ): Promise<unknown> => {
     const url = `${apiBaseUrl}/api/extensions/plugin/files${endpoint}`;
-    const headers: Record<string, string> = {
-      'X-Plugin-Slug': context.pluginSlug,
-      'X-Installation-Id': context.installationId,
-      'X-Platform-Signature': context.signature,
-      'X-Platform-Timestamp': context.timestamp,
-    };
+    const headers = storageAuthHeaders(context);
 
     if (!isFormData) {
       headers['Content-Type'] = 'application/json';
@@ -246,12 +280,7 @@ export function createPluginStorage(
       body: isFormData ? (body as FormData) : body ? JSON.stringify(body) : undefined,
     });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'Unknown error' })) as { message?: string };
-      throw new Error(`Storage error: ${error.message || response.statusText}`);
-    }
-
-    return response.json();
+    return readStorageResponse(response, method, 'Storage error');
   };
 
   return {
@@ -263,7 +292,7 @@ export function createPluginStorage(
       const key = `${namespace}/${filename}`;
       const result = await makeRequest('POST', '/upload', {
         key,
-        content: Buffer.isBuffer(content) ? content.toString('base64') : content,
+        content: (Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8')).toString('base64'),
         contentType: options?.contentType,
         public: options?.public,
       });
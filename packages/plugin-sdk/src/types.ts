@@ -53,6 +53,8 @@ export interface PluginContext {
   signature: string;
   /** Request timestamp for replay attack prevention */
   timestamp: string;
+  /** Plugin service token; lets storage calls work outside a gateway request */
+  serviceToken?: string;
 }
 
 /**
@@ -162,28 +162,47 @@ export {
 } from './src/schemas/stock-alert';
 
 // Core Events
+export { CORE_EVENT_VERSION, EventTypes } from './src/events/core-events';
 export type {
   CoreEvent,
+  CoreEventType,
+  CoreEventPayloads,
   JiffooEvent,
-  EventTypes,
   // User Payloads
   UserCreatedPayload,
   UserUpdatedPayload,
   UserDisabledPayload,
+  CustomerRegisteredPayload,
   // Product Payloads
+  ProductVariantSummary,
   ProductCreatedPayload,
   ProductUpdatedPayload,
+  ProductDeletedPayload,
+  ProductVariantPayload,
+  ProductVariantDeletedPayload,
   ProductStockChangedPayload,
+  // Inventory Payloads
+  InventoryAdjustedPayload,
+  InventoryLowStockPayload,
+  WishlistBackInStockPayload,
+  WishlistPriceDropPayload,
   // Order Payloads
   OrderCreatedPayload,
   OrderPaidPayload,
-  OrderCancelledPayload,
+  OrderStatusTransitionPayload,
   OrderShippedPayload,
+  OrderDeliveredPayload,
+  OrderCancelledPayload,
   OrderRefundedPayload,
   OrderStatusChangedPayload,
+  RefundCompletedPayload,
   // Payment Payloads
   PaymentSessionCreatedPayload,
   PaymentWebhookProcessedPayload,
+  GiftCardIssuedPayload,
+  // Marketing & Storefront Payloads
+  DiscountRedeemedPayload,
+  ThemeActivatedPayload,
 } from './src/events/core-events';
 
 // Types and Utilities from src
@@ -199,6 +218,13 @@ export type {
   ProductVariantDTO,
   ProductSpecificationDTO,
   ProductCategoryDTO,
+  ProductMediaDTO,
+  ProductReviewDTO,
+  ProductReviewSummaryDTO,
+  ProductReviewStatus,
+  AdminProductReviewDTO,
+  ProductSearchFacetsDTO,
+  ProductSearchSortDTO,
   // Order DTOs
   ShopOrderListItemDTO,
   ShopOrderDetailDTO,
@@ -207,13 +233,32 @@ export type {
   OrderItemDTO,
   AdminOrderItemDTO,
   OrderAddressDTO,
+  CustomerAddressDTO,
+  SaveCustomerAddressDTO,
+  GiftCardBalanceDTO,
+  StoreCreditDTO,
+  AppliedTendersDTO,
   OrderStatus,
   PaymentStatus,
+  ReturnRequestDTO,
+  CreateReturnRequestDTO,
+  ReturnStatus,
+  ReturnReason,
   // Cart DTOs
   CartDTO,
   CartItemDTO,
   AddToCartRequestDTO,
   UpdateCartItemRequestDTO,
+  WishlistType,
+  WishlistItemDTO,
+  WishlistSummaryDTO,
+  WishlistDTO,
+  SharedWishlistDTO,
+  AddToWishlistRequestDTO,
+  // Content DTOs
+  ContentTypeDTO,
+  ContentPageDTO,
+  ContentPostSummaryDTO,
 } from './src/types/dto';
 
 // eSIM Schema Types - Platform Standard for productType="esim"
@@ -1,12 +1,21 @@
 /**
  * Core Event System Contracts
- * 
+ *
  * This file defines the strictly typed event payloads for the Jiffoo Core system.
- * It strictly adheres to the definitions in docs/development/CORE_EVENTS.md.
+ * Every event is written to the outbox inside the transaction that caused it and
+ * delivered to webhook subscriptions and plugins as a JiffooEvent envelope.
+ *
+ * Payloads are versioned through the envelope's `version` field. Fields are only
+ * ever added to a version; renaming or removing a field ships as a new version.
  */
 
 // --- 1. Standard Envelope ---
 
+/**
+ * Payload schema version stamped on every event the core emits
+ */
+export const CORE_EVENT_VERSION = 'v1';
+
 export interface JiffooEvent<T = unknown> {
     // Unique Event ID (UUID v4)
     id: string;
@@ -48,19 +57,74 @@ export interface UserDisabledPayload {
     reason: string;
 }
 
+/**
+ * customer.registered (v1) — a shopper created an account
+ *
+ * Aggregate: user ID. Staff accounts created from the admin do not emit it.
+ */
+export interface CustomerRegisteredPayload {
+    id: string;
+    email: string;
+    username: string;
+    emailVerified: boolean;
+}
+
 // --- 3. Product Domain Events ---
 
+export interface ProductVariantSummary {
+    id: string;
+    name: string;
+    skuCode: string | null;
+    salePrice: number;
+    isActive: boolean;
+}
+
+/**
+ * product.created (v1)
+ *
+ * Aggregate: product ID. Variants created together with the product are listed
+ * here and do not get their own product.variant_created events.
+ */
 export interface ProductCreatedPayload {
     id: string;
-    title: string;
-    price: number;
-    sku?: string;
+    name: string;
+    slug: string;
+    productType: string;
+    categoryId: string | null;
+    variants: ProductVariantSummary[];
 }
 
+/**
+ * product.updated (v1)
+ *
+ * Aggregate: product ID. `changes` lists the product fields that were written;
+ * variant changes arrive as product.variant_* events.
+ */
 export interface ProductUpdatedPayload {
     id: string;
-    changes: Record<string, unknown>;
-    status: string;
+    changes: string[];
+}
+
+/**
+ * product.deleted (v1) — aggregate: product ID
+ */
+export interface ProductDeletedPayload {
+    id: string;
+}
+
+/**
+ * product.variant_created / product.variant_updated (v1) — aggregate: variant ID
+ */
+export interface ProductVariantPayload extends ProductVariantSummary {
+    productId: string;
+}
+
+/**
+ * product.variant_deleted (v1) — aggregate: variant ID
+ */
+export interface ProductVariantDeletedPayload {
+    id: string;
+    productId: string;
 }
 
 export interface ProductStockChangedPayload {
@@ -72,44 +136,159 @@ export interface ProductStockChangedPayload {
     reason?: string;
 }
 
-// --- 4. Order Domain Events ---
+// --- 4. Inventory Domain Events ---
 
-export interface OrderCreatedPayload {
+/**
+ * inventory.adjusted (v1) — a manual stock adjustment
+ *
+ * Aggregate: inventory adjustment ID. `quantity` is the signed delta.
+ */
+export interface InventoryAdjustedPayload {
     id: string;
+    warehouseId: string;
+    variantId: string;
+    type: string;
+    quantity: number;
+    previousQuantity: number;
+    newQuantity: number;
+    available: number;
+    reason: string | null;
+    userId: string | null;
+}
+
+/**
+ * inventory.low_stock (v1) — available stock fell to or below the row's
+ * low-stock threshold
+ *
+ * Aggregate: variant ID. Emitted once when the threshold is crossed, not on
+ * every change while stock stays low.
+ */
+export interface InventoryLowStockPayload {
+    variantId: string;
+    warehouseId: string;
+    available: number;
+    threshold: number;
+}
+
+/**
+ * wishlist.back_in_stock (v1) — a variant a customer asked to be told about
+ * has sellable stock again
+ *
+ * Aggregate: wishlist item ID. Emitted once per subscription; turning the
+ * alert back on re-arms it.
+ */
+export interface WishlistBackInStockPayload {
+    wishlistItemId: string;
+    wishlistId: string;
     userId: string;
+    productId: string;
+    variantId: string;
+}
+
+/**
+ * wishlist.price_drop (v1) — a wishlisted variant's sale price fell below
+ * the price the customer saw when adding it, or was last alerted about
+ *
+ * Aggregate: wishlist item ID.
+ */
+export interface WishlistPriceDropPayload extends WishlistBackInStockPayload {
+    previousPrice: number;
+    price: number;
+}
+
+// --- 5. Order Domain Events ---
+
+/**
+ * order.created (v1) — aggregate: order ID
+ */
+export interface OrderCreatedPayload {
+    id: string;
+    userId: string | null;
     totalAmount: number;
     currency: string;
     items: Array<{
+        id: string;
         productId: string;
         variantId: string;
         quantity: number;
         unitPrice: number;
+        fulfillmentData: Record<string, unknown>;
     }>;
 }
 
+/**
+ * order.paid (v1) — aggregate: order ID
+ */
 export interface OrderPaidPayload {
-    id: string;
-    paymentMethod: string;
-    transactionId?: string;
-    amount: number;
+    event: 'order.paid';
+    orderId: string;
+    userId: string | null;
+    order: {
+        id: string;
+        userId: string | null;
+        customerEmail: string | null;
+        totalAmount: number;
+        currency: string;
+        items: Array<{
+            id: string;
+            productId: string;
+            variantId: string;
+            productName?: string;
+            variantName?: string;
+            skuCode?: string | null;
+            quantity: number;
+            unitPrice: number;
+            fulfillmentData: Record<string, unknown>;
+            productTypeData: Record<string, unknown>;
+        }>;
+    };
+    payment: {
+        paymentId?: string;
+        paymentMethod?: string;
+        paymentIntentId?: string | null;
+        sessionId?: string | null;
+        providerEventId?: string | null;
+    };
+    metadata: Record<string, unknown>;
 }
 
-export interface OrderCancelledPayload {
+/**
+ * Shared shape of the order status transition events (v1)
+ *
+ * order.shipped, order.delivered, order.cancelled and order.refunded are
+ * emitted from the order status history, so every transition into those
+ * statuses is covered whichever service made it. Aggregate: order ID.
+ */
+export interface OrderStatusTransitionPayload {
     id: string;
-    reason?: string;
-    refunded: boolean;
+    fromStatus: string | null;
+    toStatus: string;
+    fromPaymentStatus: string | null;
+    toPaymentStatus: string | null;
+    reason: string | null;
+    actorType: string | null;
+    actorId: string | null;
+    metadata: Record<string, unknown>;
 }
 
-export interface OrderShippedPayload {
-    id: string;
-    trackingNumber: string;
-    carrier: string;
+/**
+ * order.shipped (v1) — `metadata` carries `carrier` and `trackingNumber`
+ * when the order was shipped with a tracked shipment
+ */
+export interface OrderShippedPayload extends OrderStatusTransitionPayload {
+    toStatus: 'SHIPPED';
 }
 
-export interface OrderRefundedPayload {
-    id: string;
-    amount: number;
-    reason?: string;
+export interface OrderDeliveredPayload extends OrderStatusTransitionPayload {
+    toStatus: 'DELIVERED';
+}
+
+export interface OrderCancelledPayload extends OrderStatusTransitionPayload {
+    toStatus: 'CANCELLED';
+}
+
+export interface OrderRefundedPayload extends OrderStatusTransitionPayload {
+    toStatus: 'REFUNDED';
 }
 
 export interface OrderStatusChangedPayload {
@@ -118,7 +297,68 @@ export interface OrderStatusChangedPayload {
     to: string;
 }
 
-// --- 5. Payment Domain Events ---
+/**
+ * refund.completed (v1) — money went back to the customer
+ *
+ * Aggregate: refund ID. `items` lists the order lines covered by a
+ * line-level refund; amount-only refunds omit it.
+ */
+export interface RefundCompletedPayload {
+    id: string;
+    orderId: string;
+    paymentId: string;
+    amount: number;
+    currency: string;
+    provider: string | null;
+    reason: string | null;
+    items?: Array<{
+        orderItemId: string;
+        quantity: number;
+        amount: number;
+        restock: boolean;
+    }>;
+}
+
+/**
+ * return.requested / return.approved / return.rejected / return.received (v1)
+ *
+ * Aggregate: return request ID. `items` carries the inspection result once
+ * the return was received; `refundId` is set when its refund was requested.
+ */
+export interface ReturnStatusPayload {
+    id: string;
+    orderId: string;
+    status: 'REQUESTED' | 'APPROVED' | 'REJECTED' | 'RECEIVED';
+    reason: string;
+    items: Array<{
+        orderItemId: string;
+        quantity: number;
+        inspectionResult: 'RESELLABLE' | 'DAMAGED' | null;
+    }>;
+    carrier: string | null;
+    trackingNumber: string | null;
+    rejectionReason: string | null;
+    warehouseId: string | null;
+    refundId: string | null;
+}
+
+/**
+ * review.submitted / review.approved / review.rejected (v1)
+ *
+ * Aggregate: review ID. `submitted` is emitted for new reviews and for edits,
+ * which go back to moderation.
+ */
+export interface ReviewStatusPayload {
+    id: string;
+    productId: string;
+    variantId: string | null;
+    userId: string;
+    rating: number;
+    status: 'PENDING' | 'APPROVED' | 'REJECTED';
+    rejectionReason: string | null;
+}
+
+// --- 6. Payment Domain Events ---
 
 export interface PaymentSessionCreatedPayload {
     id: string;
@@ -134,23 +374,102 @@ export interface PaymentWebhookProcessedPayload {
     rawPayload: unknown; // Sanitized payload
 }
 
-// --- 6. Union Type for All Events ---
+/**
+ * gift_card.issued (v1) — gift cards bought with an order were created
+ *
+ * Aggregate: order ID. Codes are left out; they are on the order lines'
+ * fulfillment data and go to the customer in the digital delivery email.
+ */
+export interface GiftCardIssuedPayload {
+    orderId: string;
+    giftCards: Array<{
+        id: string;
+        orderItemId: string;
+        amount: number;
+        currency: string;
+    }>;
+}
+
+// --- 7. Marketing & Storefront Events ---
 
-export type CoreEvent =
-    | JiffooEvent<UserCreatedPayload> & { type: 'user.created' }
-    | JiffooEvent<UserUpdatedPayload> & { type: 'user.updated' }
-    | JiffooEvent<UserDisabledPayload> & { type: 'user.disabled' }
-    | JiffooEvent<ProductCreatedPayload> & { type: 'product.created' }
-    | JiffooEvent<ProductUpdatedPayload> & { type: 'product.updated' }
-    | JiffooEvent<ProductStockChangedPayload> & { type: 'product.stock_changed' }
-    | JiffooEvent<OrderCreatedPayload> & { type: 'order.created' }
-    | JiffooEvent<OrderPaidPayload> & { type: 'order.paid' }
-    | JiffooEvent<OrderCancelledPayload> & { type: 'order.cancelled' }
-    | JiffooEvent<OrderShippedPayload> & { type: 'order.shipped' }
-    | JiffooEvent<OrderRefundedPayload> & { type: 'order.refunded' }
-    | JiffooEvent<OrderStatusChangedPayload> & { type: 'order.status_changed' }
-    | JiffooEvent<PaymentSessionCreatedPayload> & { type: 'payment.session_created' }
-    | JiffooEvent<PaymentWebhookProcessedPayload> & { type: 'payment.webhook_processed' };
+/**
+ * discount.redeemed (v1) — a discount was applied to a placed order
+ *
+ * Aggregate: discount ID.
+ */
+export interface DiscountRedeemedPayload {
+    id: string;
+    code: string;
+    orderId: string;
+    userId: string | null;
+    discountAmount: number;
+    currency: string;
+}
+
+/**
+ * theme.activated (v1) — aggregate: theme slug
+ */
+export interface ThemeActivatedPayload {
+    slug: string;
+    target: string;
+    version: string;
+    type: string;
+    source: string;
+    previousSlug: string | null;
+}
+
+// --- 8. Event Catalog ---
+
+/**
+ * Payload type for every event type, for typing handlers:
+ *
+ *   (event: JiffooEvent<CoreEventPayloads['order.shipped']>) => ...
+ */
+export interface CoreEventPayloads {
+    'user.created': UserCreatedPayload;
+    'user.updated': UserUpdatedPayload;
+    'user.disabled': UserDisabledPayload;
+    'customer.registered': CustomerRegisteredPayload;
+    'product.created': ProductCreatedPayload;
+    'product.updated': ProductUpdatedPayload;
+    'product.deleted': ProductDeletedPayload;
+    'product.variant_created': ProductVariantPayload;
+    'product.variant_updated': ProductVariantPayload;
+    'product.variant_deleted': ProductVariantDeletedPayload;
+    'product.stock_changed': ProductStockChangedPayload;
+    'inventory.adjusted': InventoryAdjustedPayload;
+    'inventory.low_stock': InventoryLowStockPayload;
+    'wishlist.back_in_stock': WishlistBackInStockPayload;
+    'wishlist.price_drop': WishlistPriceDropPayload;
+    'order.created': OrderCreatedPayload;
+    'order.paid': OrderPaidPayload;
+    'order.shipped': OrderShippedPayload;
+    'order.delivered': OrderDeliveredPayload;
+    'order.cancelled': OrderCancelledPayload;
+    'order.refunded': OrderRefundedPayload;
+    'order.status_changed': OrderStatusChangedPayload;
+    'refund.completed': RefundCompletedPayload;
+    'return.requested': ReturnStatusPayload;
+    'return.approved': ReturnStatusPayload;
+    'return.rejected': ReturnStatusPayload;
+    'return.received': ReturnStatusPayload;
+    'review.submitted': ReviewStatusPayload;
+    'review.approved': ReviewStatusPayload;
+    'review.rejected': ReviewStatusPayload;
+    'payment.session_created': PaymentSessionCreatedPayload;
+    'payment.webhook_processed': PaymentWebhookProcessedPayload;
+    'gift_card.issued': GiftCardIssuedPayload;
+    'discount.redeemed': DiscountRedeemedPayload;
+    'theme.activated': ThemeActivatedPayload;
+}
+
+export type CoreEventType = keyof CoreEventPayloads;
+
+// --- 9. Union Type for All Events ---
+
+export type CoreEvent = {
+    [K in CoreEventType]: JiffooEvent<CoreEventPayloads[K]> & { type: K };
+}[CoreEventType];
 
 /**
  * Helper definitions for Event Types keys
@@ -159,15 +478,36 @@ export const EventTypes = {
     USER_CREATED: 'user.created',
     USER_UPDATED: 'user.updated',
     USER_DISABLED: 'user.disabled',
+    CUSTOMER_REGISTERED: 'customer.registered',
     PRODUCT_CREATED: 'product.created',
     PRODUCT_UPDATED: 'product.updated',
+    PRODUCT_DELETED: 'product.deleted',
+    PRODUCT_VARIANT_CREATED: 'product.variant_created',
+    PRODUCT_VARIANT_UPDATED: 'product.variant_updated',
+    PRODUCT_VARIANT_DELETED: 'product.variant_deleted',
     PRODUCT_STOCK_CHANGED: 'product.stock_changed',
+    INVENTORY_ADJUSTED: 'inventory.adjusted',
+    INVENTORY_LOW_STOCK: 'inventory.low_stock',
+    WISHLIST_BACK_IN_STOCK: 'wishlist.back_in_stock',
+    WISHLIST_PRICE_DROP: 'wishlist.price_drop',
     ORDER_CREATED: 'order.created',
     ORDER_PAID: 'order.paid',
-    ORDER_CANCELLED: 'order.cancelled',
     ORDER_SHIPPED: 'order.shipped',
+    ORDER_DELIVERED: 'order.delivered',
+    ORDER_CANCELLED: 'order.cancelled',
     ORDER_REFUNDED: 'order.refunded',
     ORDER_STATUS_CHANGED: 'order.status_changed',
+    REFUND_COMPLETED: 'refund.completed',
+    RETURN_REQUESTED: 'return.requested',
+    RETURN_APPROVED: 'return.approved',
+    RETURN_REJECTED: 'return.rejected',
+    RETURN_RECEIVED: 'return.received',
+    REVIEW_SUBMITTED: 'review.submitted',
+    REVIEW_APPROVED: 'review.approved',
+    REVIEW_REJECTED: 'review.rejected',
     PAYMENT_SESSION_CREATED: 'payment.session_created',
     PAYMENT_WEBHOOK_PROCESSED: 'payment.webhook_processed',
-} as const;
+    GIFT_CARD_ISSUED: 'gift_card.issued',
+    DISCOUNT_REDEEMED: 'discount.redeemed',
+    THEME_ACTIVATED: 'theme.activated',
+} as const satisfies Record<string, CoreEventType>;
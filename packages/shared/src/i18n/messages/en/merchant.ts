@@ -14,6 +14,7 @@ export const merchant = {
     customers: 'Customers',
     plugins: 'Plugins',
     themes: 'Themes',
+    content: 'Content',
     settings: 'Settings',
   },
 
@@ -121,6 +122,8 @@ export const merchant = {
     allProducts: 'All Products',
     addProduct: 'Add Product',
     editProduct: 'Edit Product',
+    giftCard: 'Gift Card',
+    giftCardHint: 'Each unit sold issues a gift card worth its price',
     deleteProduct: 'Delete Product',
     productName: 'Product Name',
     price: 'Price',
@@ -300,6 +303,56 @@ export const merchant = {
       quickActions: 'Quick Actions',
       unnamedProduct: 'Unnamed Product',
     },
+    categories: {
+      title: 'Categories',
+      subtitle: 'Organize your catalog',
+      addCategory: 'Add Category',
+      addSubcategory: 'Add subcategory',
+      editCategory: 'Edit Category',
+      empty: 'No categories yet',
+      dragHint: 'Drag a category onto another to nest it, or between categories to reorder.',
+      moveToRoot: 'Drop here to move to the top level',
+      name: 'Name',
+      slug: 'Slug',
+      nameRequired: 'Please enter a name',
+      slugHint: 'Leave empty to generate from the name',
+      description: 'Description',
+      parent: 'Parent',
+      noParent: 'None (top level)',
+      products: 'products',
+      translations: 'Translations',
+      translationName: 'Translated name',
+      translationDescription: 'Translated description',
+      removeTranslation: 'Remove translation',
+      deleteTitle: 'Delete Category',
+      deleteDescription: 'Subcategories move up one level.',
+      reassignProducts: 'Move products to',
+      reassignRequired: 'Choose a category for the products in this category',
+      createFirst: 'Save the category before adding translations',
+    },
+    reviews: {
+      title: 'Reviews',
+      subtitle: 'Moderate customer reviews',
+      pending: 'Pending',
+      approved: 'Approved',
+      rejected: 'Rejected',
+      empty: 'No reviews in this queue',
+      verifiedPurchase: 'Verified purchase',
+      approve: 'Approve',
+      reject: 'Reject',
+      rejectReason: 'Reason shown to the customer (optional)',
+      reply: 'Reply',
+      editReply: 'Edit reply',
+      replyPlaceholder: 'Write a public reply from the store',
+      saveReply: 'Save reply',
+      removeReply: 'Remove reply',
+      storeReply: 'Store reply',
+      delete: 'Delete',
+      deleteConfirm: 'Delete this review? This cannot be undone.',
+      cancel: 'Cancel',
+      previous: 'Previous',
+      next: 'Next',
+    },
   },
 
   // Orders
@@ -402,6 +455,8 @@ export const merchant = {
       reasonPlaceholder: 'Enter refund reason...',
       warning: 'This action cannot be undone.',
       confirm: 'Refund {amount}',
+      toStoreCredit: 'Refund to store credit',
+      toStoreCreditHint: "Add the amount to the customer's store credit instead of the original payment. Required for orders paid with gift cards or store credit.",
     },
   },
 
@@ -410,6 +465,43 @@ export const merchant = {
     title: 'Customers',
     subtitle: 'Manage your customer relationships',
     allCustomers: 'All Customers',
+    groups: {
+      title: 'Groups',
+      subtitle: 'Segments, prices and exclusive products',
+      addGroup: 'Add Group',
+      editGroup: 'Edit Group',
+      empty: 'No customer groups yet',
+      name: 'Name',
+      nameRequired: 'Please enter a name',
+      code: 'Code',
+      codeHint: 'Leave empty to generate from the name',
+      description: 'Description',
+      rules: 'Automatic membership',
+      rulesHint: 'Customers matching every rule set here join the group automatically.',
+      minLifetimeSpend: 'Minimum lifetime spend',
+      minOrderCount: 'Minimum paid orders',
+      emailDomains: 'Email domains',
+      manualOnly: 'Manual membership only',
+      automatic: 'automatic',
+      noGroups: 'Not in any group',
+      members: 'Members',
+      prices: 'Prices',
+      products: 'Products',
+      membersHint: 'Customers added by hand. Customers matching the group rules are members without being listed.',
+      noMembers: 'No members added yet',
+      addMembers: 'Add customers',
+      add: 'Add',
+      pricesHint: 'Members pay the group price instead of the sale price. Prices are in the store currency.',
+      noPrices: 'No group prices yet',
+      groupPrice: 'Group price',
+      setPrices: 'Set prices',
+      productsHint: 'Products listed here are only visible to members of this group or another group they are assigned to.',
+      noProducts: 'Visible to all customers',
+      restrict: 'Restrict',
+      searchProducts: 'Search products...',
+      deleteTitle: 'Delete Group',
+      deleteDescription: 'Members lose the group prices and group-only products.',
+    },
     customerDetails: 'Customer Details',
     name: 'Name',
     email: 'Email',
@@ -939,6 +1031,51 @@ export const merchant = {
     includedInPackage: 'Included in package',
     installedThemes: 'Installed themes',
     installedThemesDescription: 'Switch the active storefront look, remove unused themes, and keep built-in themes available as fallbacks.',
+    editor: {
+      open: 'Customize',
+      title: 'Theme Editor',
+      subtitle: 'Blocks, settings and versions',
+      loadFailed: 'Theme editor unavailable',
+      packOnly: 'The editor works with an active Theme Pack.',
+      liveVersion: 'Live version',
+      unpublishedChanges: 'Unpublished changes',
+      pages: 'Pages',
+      settings: 'Theme settings',
+      history: 'History',
+      newPage: 'New page',
+      noPages: 'This theme has no page templates',
+      noBlocks: 'This page has no blocks yet',
+      selectBlock: 'Select a block to edit its settings',
+      addBlock: 'Add block',
+      builtinBlocks: 'Built-in blocks',
+      appBlocks: 'App blocks',
+      unsaved: 'unsaved',
+      sourceDraft: 'Draft',
+      sourcePublished: 'Published',
+      sourceTheme: 'Theme default',
+      saveDraft: 'Save draft',
+      draftSaved: 'Draft saved',
+      saveFailed: 'Failed to save draft',
+      discard: 'Discard',
+      draftDiscarded: 'Draft discarded',
+      discardFailed: 'Failed to discard draft',
+      preview: 'Preview',
+      previewFailed: 'Failed to create preview',
+      publish: 'Publish',
+      publishTitle: 'Publish theme changes?',
+      publishDescription: 'The draft goes live on the storefront and is saved as a new version.',
+      publishNote: 'Change note (optional)',
+      publishSuccess: 'Theme changes published',
+      publishFailed: 'Failed to publish theme changes',
+      noPublications: 'Nothing published yet',
+      live: 'Live',
+      revertedFrom: 'Reverted from',
+      revert: 'Revert',
+      revertTitle: 'Revert to this version?',
+      revertDescription: 'Its templates and settings are published again as a new version. Unpublished draft changes are discarded.',
+      revertSuccess: 'Theme reverted',
+      revertFailed: 'Failed to revert theme',
+    },
   },
 
   // System Updates Page
@@ -1098,4 +1235,46 @@ export const merchant = {
     dayOfWeekMultipliers: 'Day Of Week Multipliers',
     holidayImpact: 'Holiday Impact',
   },
+
+  // Content (pages and blog posts)
+  content: {
+    title: 'Content',
+    subtitle: 'Pages and blog posts',
+    pages: 'Pages',
+    posts: 'Blog Posts',
+    addPage: 'New Page',
+    addPost: 'New Post',
+    editPage: 'Edit Page',
+    editPost: 'Edit Post',
+    search: 'Search by title or slug',
+    empty: 'Nothing here yet',
+    loadFailed: 'Failed to load content',
+    tryAgain: 'Try Again',
+    entryTitle: 'Title',
+    titleRequired: 'Please enter a title',
+    slug: 'Slug',
+    slugHint: 'Leave empty to generate from the title',
+    excerpt: 'Excerpt',
+    body: 'Body (Markdown)',
+    status: 'Status',
+    statuses: {
+      draft: 'Draft',
+      published: 'Published',
+    },
+    visibility: {
+      draft: 'Draft',
+      scheduled: 'Scheduled',
+      live: 'Live',
+    },
+    publishedAt: 'Publish date',
+    scheduleHint: 'Published entries with a future date go live at that time. Leave the date empty to publish now.',
+    tags: 'Tags',
+    tagsHint: 'Comma separated',
+    coverImage: 'Cover image URL',
+    translations: 'Translations',
+    createFirst: 'Save the entry before adding translations',
+    removeTranslation: 'Remove translation',
+    deleteTitle: 'Delete',
+    deleteDescription: 'The entry and its translations are removed from the storefront.',
+  },
 };
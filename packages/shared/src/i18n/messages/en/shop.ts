@@ -240,6 +240,13 @@ export const shop = {
     },
   },
 
+  // Wishlist
+  wishlist: {
+    added: 'Added to wishlist',
+    addFailed: 'Failed to add to wishlist',
+    signInRequired: 'Sign in to save items to your wishlist',
+  },
+
   // Checkout
   checkout: {
     title: 'Checkout',
@@ -247,11 +254,23 @@ export const shop = {
       title: 'Shipping Information',
       address: 'Shipping Address',
       method: 'Shipping Method',
+      savedAddress: 'Saved Address',
+      newAddress: 'Enter a new address',
     },
     payment: {
       title: 'Payment Information',
       method: 'Payment Method',
     },
+    giftCard: {
+      title: 'Gift Cards & Store Credit',
+      placeholder: 'Gift card code',
+      apply: 'Apply',
+      remove: 'Remove',
+      applied: 'Gift cards & store credit',
+      useStoreCredit: 'Use store credit',
+      notFound: 'Gift card not found',
+      unusable: 'This gift card cannot be used',
+    },
     review: {
       title: 'Review Order',
     },
@@ -285,6 +304,10 @@ export const shop = {
     notFoundDescription: 'The order you are looking for does not exist.',
     paymentSessionFailed: 'Failed to create payment session',
     paymentRetryFailed: 'Failed to retry payment',
+    returnRequested: 'Return requested',
+    returnRequestedDescription: 'We will review your return request shortly',
+    returnFailed: 'Failed to request return',
+    photoUploadFailed: 'Failed to upload photo',
     statuses: {
       pending: 'Pending',
       processing: 'Processing',
@@ -360,6 +383,19 @@ export const shop = {
     underDevelopmentDescription: 'The contact form feature is currently under development. Please try again later.',
   },
 
+  // Blog
+  blog: {
+    title: 'Blog',
+    taggedWith: 'Posts tagged',
+    allPosts: 'All posts',
+    empty: 'No posts yet',
+    emptyDescription: 'Check back soon for news and stories.',
+    loadFailed: 'Unable to load posts',
+    newer: 'Newer posts',
+    older: 'Older posts',
+    backToBlog: 'Back to blog',
+  },
+
   // Recommendations
   recommendations: {
     errorTitle: 'Unable to load recommendations',
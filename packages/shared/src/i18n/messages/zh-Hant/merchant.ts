@@ -14,6 +14,7 @@ export const merchant = {
     customers: '顧客',
     plugins: '外掛',
     themes: '主題',
+    content: '內容',
     settings: '設定',
   },
 
@@ -121,6 +122,8 @@ export const merchant = {
     allProducts: '所有商品',
     addProduct: '新增商品',
     editProduct: '編輯商品',
+    giftCard: '禮品卡',
+    giftCardHint: '每售出一件即發出等值的禮品卡',
     deleteProduct: '刪除商品',
     productName: '商品名稱',
     price: '價格',
@@ -299,6 +302,56 @@ export const merchant = {
       quickActions: '快速操作',
       unnamedProduct: '未命名商品',
     },
+    categories: {
+      title: '分類',
+      subtitle: '整理您的商品目錄',
+      addCategory: '新增分類',
+      addSubcategory: '新增子分類',
+      editCategory: '編輯分類',
+      empty: '尚無分類',
+      dragHint: '將分類拖曳到另一個分類上即可設為子分類，拖曳到分類之間即可調整順序。',
+      moveToRoot: '拖曳到此處移至最上層',
+      name: '名稱',
+      slug: '網址代稱',
+      nameRequired: '請輸入名稱',
+      slugHint: '留空則依名稱產生',
+      description: '描述',
+      parent: '上層分類',
+      noParent: '無（最上層）',
+      products: '件商品',
+      translations: '翻譯',
+      translationName: '翻譯名稱',
+      translationDescription: '翻譯描述',
+      removeTranslation: '移除翻譯',
+      deleteTitle: '刪除分類',
+      deleteDescription: '子分類會上移一層。',
+      reassignProducts: '將商品移至',
+      reassignRequired: '請為此分類中的商品選擇新分類',
+      createFirst: '請先儲存分類再新增翻譯',
+    },
+    reviews: {
+      title: '評價',
+      subtitle: '審核顧客評價',
+      pending: '待審核',
+      approved: '已通過',
+      rejected: '已拒絕',
+      empty: '此佇列中沒有評價',
+      verifiedPurchase: '已驗證購買',
+      approve: '通過',
+      reject: '拒絕',
+      rejectReason: '向顧客顯示的原因（選填）',
+      reply: '回覆',
+      editReply: '編輯回覆',
+      replyPlaceholder: '以商店名義撰寫公開回覆',
+      saveReply: '儲存回覆',
+      removeReply: '移除回覆',
+      storeReply: '商店回覆',
+      delete: '刪除',
+      deleteConfirm: '確定刪除此評價？此操作無法復原。',
+      cancel: '取消',
+      previous: '上一頁',
+      next: '下一頁',
+    },
   },
 
   // Orders
@@ -401,6 +454,8 @@ export const merchant = {
       reasonPlaceholder: '輸入退款原因...',
       warning: '此操作無法撤銷。',
       confirm: '退款 {amount}',
+      toStoreCredit: '退至購物金',
+      toStoreCreditHint: '將金額退至顧客的購物金，而非原付款方式。以禮品卡或購物金付款的訂單必須使用此方式。',
     },
   },
 
@@ -409,6 +464,43 @@ export const merchant = {
     title: '顧客',
     subtitle: '管理您的顧客關係',
     allCustomers: '所有顧客',
+    groups: {
+      title: '顧客群組',
+      subtitle: '分群、專屬價格與限定商品',
+      addGroup: '新增群組',
+      editGroup: '編輯群組',
+      empty: '尚無顧客群組',
+      name: '名稱',
+      nameRequired: '請輸入名稱',
+      code: '代碼',
+      codeHint: '留空將依名稱自動產生',
+      description: '描述',
+      rules: '自動加入條件',
+      rulesHint: '符合此處所有條件的顧客會自動加入群組。',
+      minLifetimeSpend: '最低累計消費',
+      minOrderCount: '最少已付款訂單數',
+      emailDomains: '電子郵件網域',
+      manualOnly: '僅手動加入',
+      automatic: '自動',
+      noGroups: '未加入任何群組',
+      members: '成員',
+      prices: '價格',
+      products: '商品',
+      membersHint: '手動加入的顧客。符合群組條件的顧客不需列出即為成員。',
+      noMembers: '尚未加入成員',
+      addMembers: '加入顧客',
+      add: '加入',
+      pricesHint: '成員以群組價格取代售價購買，價格以商店幣別計算。',
+      noPrices: '尚無群組價格',
+      groupPrice: '群組價格',
+      setPrices: '設定價格',
+      productsHint: '此處列出的商品僅對此群組或其他指定群組的成員顯示。',
+      noProducts: '所有顧客皆可見',
+      restrict: '限定',
+      searchProducts: '搜尋商品...',
+      deleteTitle: '刪除群組',
+      deleteDescription: '成員將失去群組價格與限定商品。',
+    },
     customerDetails: '顧客詳情',
     name: '姓名',
     email: '電子郵件',
@@ -909,6 +1001,51 @@ export const merchant = {
     includedInPackage: '已包含於授權包',
     installedThemes: '已安裝主題',
     installedThemesDescription: '切換目前商店外觀、移除未使用主題，並保留內建主題作為備援。',
+    editor: {
+      open: '自訂',
+      title: '主題編輯器',
+      subtitle: '區塊、設定與版本',
+      loadFailed: '無法使用主題編輯器',
+      packOnly: '編輯器需搭配已啟用的 Theme Pack。',
+      liveVersion: '線上版本',
+      unpublishedChanges: '尚未發布的變更',
+      pages: '頁面',
+      settings: '主題設定',
+      history: '歷史紀錄',
+      newPage: '新頁面',
+      noPages: '此主題沒有頁面範本',
+      noBlocks: '此頁面尚無區塊',
+      selectBlock: '選擇區塊以編輯設定',
+      addBlock: '新增區塊',
+      builtinBlocks: '內建區塊',
+      appBlocks: '應用程式區塊',
+      unsaved: '未儲存',
+      sourceDraft: '草稿',
+      sourcePublished: '已發布',
+      sourceTheme: '主題預設',
+      saveDraft: '儲存草稿',
+      draftSaved: '草稿已儲存',
+      saveFailed: '儲存草稿失敗',
+      discard: '捨棄',
+      draftDiscarded: '草稿已捨棄',
+      discardFailed: '捨棄草稿失敗',
+      preview: '預覽',
+      previewFailed: '建立預覽失敗',
+      publish: '發布',
+      publishTitle: '發布主題變更？',
+      publishDescription: '草稿將在前台上線，並儲存為新版本。',
+      publishNote: '變更說明（選填）',
+      publishSuccess: '主題變更已發布',
+      publishFailed: '發布主題變更失敗',
+      noPublications: '尚未發布任何版本',
+      live: '線上',
+      revertedFrom: '還原自',
+      revert: '還原',
+      revertTitle: '還原至此版本？',
+      revertDescription: '其範本與設定將以新版本重新發布，尚未發布的草稿變更會被捨棄。',
+      revertSuccess: '主題已還原',
+      revertFailed: '還原主題失敗',
+    },
   },
 
   // System Updates Page
@@ -1067,4 +1204,46 @@ export const merchant = {
     dayOfWeekMultipliers: '星期乘數',
     holidayImpact: '節日影響',
   },
+
+  // Content (pages and blog posts)
+  content: {
+    title: '內容',
+    subtitle: '頁面與部落格文章',
+    pages: '頁面',
+    posts: '部落格文章',
+    addPage: '新增頁面',
+    addPost: '新增文章',
+    editPage: '編輯頁面',
+    editPost: '編輯文章',
+    search: '依標題或網址代稱搜尋',
+    empty: '目前沒有內容',
+    loadFailed: '載入內容失敗',
+    tryAgain: '重試',
+    entryTitle: '標題',
+    titleRequired: '請輸入標題',
+    slug: '網址代稱',
+    slugHint: '留空將依標題自動產生',
+    excerpt: '摘要',
+    body: '內文（Markdown）',
+    status: '狀態',
+    statuses: {
+      draft: '草稿',
+      published: '已發佈',
+    },
+    visibility: {
+      draft: '草稿',
+      scheduled: '已排程',
+      live: '已上線',
+    },
+    publishedAt: '發佈時間',
+    scheduleHint: '已發佈且時間在未來的內容會在該時間上線。留空則立即發佈。',
+    tags: '標籤',
+    tagsHint: '以逗號分隔',
+    coverImage: '封面圖片網址',
+    translations: '翻譯',
+    createFirst: '請先儲存內容再新增翻譯',
+    removeTranslation: '移除翻譯',
+    deleteTitle: '刪除',
+    deleteDescription: '內容及其翻譯將從商店移除。',
+  },
 };
@@ -240,6 +240,13 @@ export const shop = {
     },
   },
 
+  // Wishlist
+  wishlist: {
+    added: '已加入願望清單',
+    addFailed: '加入願望清單失敗',
+    signInRequired: '請先登入再加入願望清單',
+  },
+
   // Checkout
   checkout: {
     title: '結帳',
@@ -247,11 +254,23 @@ export const shop = {
       title: '運送資訊',
       address: '運送地址',
       method: '運送方式',
+      savedAddress: '已儲存的地址',
+      newAddress: '輸入新地址',
     },
     payment: {
       title: '付款資訊',
       method: '付款方式',
     },
+    giftCard: {
+      title: '禮品卡與購物金',
+      placeholder: '禮品卡代碼',
+      apply: '套用',
+      remove: '移除',
+      applied: '禮品卡與購物金',
+      useStoreCredit: '使用購物金',
+      notFound: '找不到此禮品卡',
+      unusable: '此禮品卡無法使用',
+    },
     review: {
       title: '訂單確認',
     },
@@ -285,6 +304,10 @@ export const shop = {
     notFoundDescription: '您要找的訂單不存在。',
     paymentSessionFailed: '無法建立付款會話',
     paymentRetryFailed: '重試付款失敗',
+    returnRequested: '已申請退貨',
+    returnRequestedDescription: '我們將盡快審核您的退貨申請',
+    returnFailed: '退貨申請失敗',
+    photoUploadFailed: '照片上傳失敗',
     statuses: {
       pending: '待處理',
       processing: '處理中',
@@ -360,6 +383,19 @@ export const shop = {
     underDevelopmentDescription: '聯絡表單功能目前正在開發中，請稍後再試。',
   },
 
+  // Blog
+  blog: {
+    title: '部落格',
+    taggedWith: '標籤文章',
+    allPosts: '所有文章',
+    empty: '尚無文章',
+    emptyDescription: '敬請期待最新消息與故事。',
+    loadFailed: '無法載入文章',
+    newer: '較新的文章',
+    older: '較舊的文章',
+    backToBlog: '返回部落格',
+  },
+
   // Recommendations
   recommendations: {
     errorTitle: '無法載入推薦',
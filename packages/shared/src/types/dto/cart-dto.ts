@@ -62,3 +62,65 @@ export interface UpdateCartItemRequestDTO {
   itemId: string;
   quantity: number;
 }
+
+// ============================================================================
+// Wishlist DTOs  (backend: apps/api/src/core/wishlist/types.ts)
+// ============================================================================
+
+// WISHLIST for named lists; one SAVED_FOR_LATER list holds lines moved out of the cart
+export type WishlistType = 'WISHLIST' | 'SAVED_FOR_LATER';
+
+export interface WishlistItemDTO {
+  id: string;
+  wishlistId: string;
+  productId: string;
+  productName: string;
+  productSlug: string | null;
+  productImage: string | null;
+  variantId: string;
+  variantName: string | null;
+  quantity: number;
+  /** Current sale price */
+  price: number;
+  /** Sale price when the item was added */
+  addedPrice: number;
+  inStock: boolean;
+  /** False when the product or variant was deactivated */
+  isAvailable: boolean;
+  notifyBackInStock: boolean;
+  notifyPriceDrop: boolean;
+  createdAt: string;
+}
+
+// GET /api/wishlists
+export interface WishlistSummaryDTO {
+  id: string;
+  name: string;
+  type: WishlistType;
+  itemCount: number;
+  /** Set while the list is shared */
+  shareToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// GET /api/wishlists/:id
+export interface WishlistDTO extends WishlistSummaryDTO {
+  items: WishlistItemDTO[];
+}
+
+// GET /api/wishlists/shared/:token
+export interface SharedWishlistDTO {
+  name: string;
+  ownerName: string;
+  items: Array<Omit<WishlistItemDTO, 'wishlistId' | 'notifyBackInStock' | 'notifyPriceDrop'>>;
+}
+
+export interface AddToWishlistRequestDTO {
+  productId: string;
+  variantId?: string;
+  /** Defaults to the customer's first wishlist */
+  wishlistId?: string;
+  notifyBackInStock?: boolean;
+  notifyPriceDrop?: boolean;
+}
@@ -0,0 +1,27 @@
+/**
+ * Content DTO Types
+ * Aligned with the public content endpoints (ContentService storefront views)
+ */
+
+export type ContentTypeDTO = 'PAGE' | 'POST';
+
+// GET /api/content/pages/:slug, GET /api/content/posts/:slug
+export interface ContentPageDTO {
+  slug: string;
+  type: ContentTypeDTO;
+  locale: string;  // Locale the text is in; the default locale when untranslated
+  title: string;
+  excerpt: string | null;
+  bodyHtml: string;  // Rendered from Markdown, raw HTML escaped
+  coverImage: string | null;
+  tags: string[];
+  publishedAt: string;
+  updatedAt: string;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+  structuredData: Record<string, unknown> | null;
+}
+
+// GET /api/content/posts (items)
+export type ContentPostSummaryDTO = Omit<ContentPageDTO, 'bodyHtml' | 'structuredData'>;
@@ -12,6 +12,13 @@ export type {
   ProductVariantDTO,
   ProductSpecificationDTO,
   ProductCategoryDTO,
+  ProductMediaDTO,
+  ProductReviewDTO,
+  ProductReviewSummaryDTO,
+  ProductReviewStatus,
+  AdminProductReviewDTO,
+  ProductSearchFacetsDTO,
+  ProductSearchSortDTO,
 } from './product-dto';
 
 // Order DTOs
@@ -23,8 +30,17 @@ export type {
   OrderItemDTO,
   AdminOrderItemDTO,
   OrderAddressDTO,
+  CustomerAddressDTO,
+  SaveCustomerAddressDTO,
+  GiftCardBalanceDTO,
+  StoreCreditDTO,
+  AppliedTendersDTO,
   OrderStatus,
   PaymentStatus,
+  ReturnRequestDTO,
+  CreateReturnRequestDTO,
+  ReturnStatus,
+  ReturnReason,
 } from './order-dto';
 
 // Cart DTOs
@@ -33,4 +49,17 @@ export type {
   CartItemDTO,
   AddToCartRequestDTO,
   UpdateCartItemRequestDTO,
+  WishlistType,
+  WishlistItemDTO,
+  WishlistSummaryDTO,
+  WishlistDTO,
+  SharedWishlistDTO,
+  AddToWishlistRequestDTO,
 } from './cart-dto';
+
+// Content DTOs
+export type {
+  ContentTypeDTO,
+  ContentPageDTO,
+  ContentPostSummaryDTO,
+} from './content-dto';
@@ -43,6 +43,8 @@ export interface ShopOrderListItemDTO {
   updatedAt: string;
   cancelReason: string | null;
   cancelledAt: string | null;
+  /** Return requests (order detail only) */
+  returns?: ReturnRequestDTO[];
 }
 
 // ============================================================================
@@ -52,6 +54,53 @@ export interface ShopOrderListItemDTO {
 
 export type ShopOrderDetailDTO = ShopOrderListItemDTO;
 
+// ============================================================================
+// Return Request DTO  (backend: ReturnResponse)
+// ============================================================================
+
+export interface ReturnRequestDTO {
+  id: string;
+  orderId: string;
+  status: ReturnStatus;
+  reason: ReturnReason;
+  customerNote: string | null;
+  photos: string[];
+  items: Array<{
+    id: string;
+    orderItemId: string;
+    productName: string | null;
+    variantName: string | null;
+    quantity: number;
+    reason: string | null;
+    inspectionResult: 'RESELLABLE' | 'DAMAGED' | null;
+  }>;
+  rejectionReason: string | null;
+  carrier: string | null;
+  trackingNumber: string | null;
+  labelUrl: string | null;
+  warehouseId: string | null;
+  inspectionNote: string | null;
+  refund: {
+    id: string;
+    amount: number;
+    currency: string;
+    status: string;
+  } | null;
+  approvedAt: string | null;
+  rejectedAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// POST /api/orders/:id/returns
+export interface CreateReturnRequestDTO {
+  reason: ReturnReason;
+  customerNote?: string;
+  photos?: string[];
+  items: Array<{ orderItemId: string; quantity: number; reason?: string }>;
+}
+
 // ============================================================================
 // Admin Order DTOs
 // ============================================================================
@@ -132,6 +181,7 @@ export interface AdminOrderDetailDTO {
     deliveredAt?: string | null;
   }>;
   items: AdminOrderItemDTO[];
+  returns?: ReturnRequestDTO[];
   user?: {
     id: string;
     username: string;
@@ -164,6 +214,93 @@ export interface OrderAddressDTO {
   isDefault?: boolean;
 }
 
+// ============================================================================
+// Customer Address DTO  (backend: CustomerAddress model, GET /account/addresses)
+// ============================================================================
+
+export interface CustomerAddressDTO {
+  id: string;
+  label?: string | null;
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email?: string | null;
+  company?: string | null;
+  addressLine1: string;
+  addressLine2?: string | null;
+  city: string;
+  state?: string | null;
+  postalCode?: string | null;
+  country: string;
+  isDefaultShipping: boolean;
+  isDefaultBilling: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Body of POST /account/addresses; PUT accepts any subset */
+export interface SaveCustomerAddressDTO {
+  label?: string;
+  firstName: string;
+  lastName: string;
+  phone: string;
+  email?: string;
+  company?: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state?: string;
+  postalCode?: string;
+  country: string;
+  isDefaultShipping?: boolean;
+  isDefaultBilling?: boolean;
+}
+
+// ============================================================================
+// Gift Card & Store Credit DTOs  (backend: /api/gift-cards)
+// ============================================================================
+
+// POST /api/gift-cards/balance
+export interface GiftCardBalanceDTO {
+  code: string;  // Masked, e.g. ****-NPQR
+  balance: number;
+  currency: string;
+  isActive: boolean;  // False once the card was disabled or has expired
+  expiresAt?: string | null;
+}
+
+// GET /api/gift-cards/store-credit
+export interface StoreCreditDTO {
+  balance: number;
+  currency: string;
+  transactions: Array<{
+    id: string;
+    type: 'REFUND' | 'ADJUST' | 'REDEEM' | 'RELEASE';
+    amount: number;  // Negative when the balance went down
+    balanceAfter: number;
+    orderId?: string | null;
+    refundId?: string | null;
+    note?: string | null;
+    createdAt: string;
+  }>;
+}
+
+// GET/PUT/DELETE /api/gift-cards/orders/:orderId/tenders
+export interface AppliedTendersDTO {
+  orderId: string;
+  currency: string;
+  totalAmount: number;
+  appliedAmount: number;  // Covered by gift cards and store credit
+  amountDue: number;  // Left for the payment provider
+  paid: boolean;  // True once the tenders paid the whole order
+  tenders: Array<{
+    paymentId: string;
+    method: 'gift_card' | 'store_credit';
+    amount: number;
+    label: string;
+  }>;
+}
+
 // ============================================================================
 // Status Enums (union types matching backend constants)
 // ============================================================================
@@ -182,4 +319,19 @@ export type PaymentStatus =
   | 'PENDING'
   | 'PAID'
   | 'FAILED'
+  | 'PARTIALLY_REFUNDED'
   | 'REFUNDED';
+
+export type ReturnStatus =
+  | 'REQUESTED'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'RECEIVED';
+
+export type ReturnReason =
+  | 'DAMAGED'
+  | 'DEFECTIVE'
+  | 'WRONG_ITEM'
+  | 'NOT_AS_DESCRIBED'
+  | 'NO_LONGER_NEEDED'
+  | 'OTHER';
@@ -11,19 +11,42 @@ export interface ShopProductListItemDTO {
   images: string[];
   price: number;
   stock: number;
+  /** Average approved review rating, 0 without reviews */
+  rating?: number;
+  reviewCount?: number;
   variants?: ProductVariantDTO[];
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Product gallery image (GET /api/products/:id)
+export interface ProductMediaDTO {
+  id: string;
+  url: string;
+  /** Alt text in the requested locale */
+  alt: string | null;
+  /** Variant this image shows, null for images of the whole product */
+  variantId: string | null;
+  width: number | null;
+  height: number | null;
+  /** Crop center as fractions of width/height, usable as CSS object-position */
+  focalPoint: { x: number; y: number };
+  sizes: { thumbnail: string; medium: string; large: string } | null;
+}
+
 // Shop product detail DTO
 export interface ShopProductDetailDTO {
   id: string;
   name: string;
   description?: string;
   images: string[];
+  /** Gallery in display order; empty for products without media rows */
+  media?: ProductMediaDTO[];
   price: number;
   stock: number;
+  /** Average approved review rating, 0 without reviews */
+  rating?: number;
+  reviewCount?: number;
   variants: Array<{
     id: string;
     name: string;
@@ -32,9 +55,54 @@ export interface ShopProductDetailDTO {
     baseStock: number;
     isActive: boolean;
     attributes: Record<string, any>;
+    rating?: number;
+    reviewCount?: number;
   }>;
 }
 
+// Approved review (GET /api/products/:id/reviews)
+export interface ProductReviewDTO {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  variantName: string | null;
+  rating: number;
+  title: string | null;
+  body: string;
+  authorName: string;
+  /** Linked to a delivered order line */
+  verifiedPurchase: boolean;
+  /** Merchant reply */
+  reply: string | null;
+  repliedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Rating summary of a product's approved reviews
+export interface ProductReviewSummaryDTO {
+  /** 0 without reviews */
+  average: number;
+  count: number;
+  /** Review count per star rating */
+  distribution: Record<'1' | '2' | '3' | '4' | '5', number>;
+}
+
+// Review moderation status
+export type ProductReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// Admin review (GET /api/admin/reviews)
+export interface AdminProductReviewDTO extends ProductReviewDTO {
+  status: ProductReviewStatus;
+  rejectionReason: string | null;
+  userId: string;
+  productName: string;
+  customer: { id: string; email: string; username: string };
+  orderItemId: string | null;
+  moderatedAt: string | null;
+  moderatedById: string | null;
+}
+
 // Admin product list item DTO (flattened)
 export interface AdminProductListItemDTO {
   id: string;
@@ -58,6 +126,7 @@ export interface AdminProductDetailDTO {
   id: string;
   name: string;
   description?: string | null;
+  productType?: string;  // physical, digital, gift_card, ...
   requiresShipping?: boolean;
   requiresShippingLocked?: boolean;
   categoryName?: string | null;
@@ -98,9 +167,21 @@ export interface ProductCategoryDTO {
   name: string;
   slug?: string;
   description?: string;
-  parentId?: string;
+  parentId?: string | null;
+  level?: number;
   isActive: boolean;
   productCount?: number;
   createdAt: string;
   updatedAt: string;
 }
+
+// Product search facets (GET /api/products/search)
+export interface ProductSearchFacetsDTO {
+  categories: Array<{ id: string; name: string; slug: string; count: number }>;
+  price: { min: number; max: number } | null;
+  attributes: Array<{ name: string; values: Array<{ value: string; count: number }> }>;
+  availability: { inStock: number; outOfStock: number };
+}
+
+// Product search sort orders
+export type ProductSearchSortDTO = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'name';
@@ -5,7 +5,21 @@
 
 import type { Product, ProductCategory } from './product';
 import type { Cart, CartItem } from './cart';
-import type { ShopOrderListItemDTO, ShopOrderDetailDTO } from './dto/order-dto';
+import type {
+  ShopOrderListItemDTO,
+  ShopOrderDetailDTO,
+  CreateReturnRequestDTO,
+  CustomerAddressDTO,
+  SaveCustomerAddressDTO,
+  GiftCardBalanceDTO,
+  StoreCreditDTO,
+} from './dto/order-dto';
+import type {
+  ProductMediaDTO,
+  ProductReviewDTO,
+  ProductReviewSummaryDTO,
+  ProductSearchFacetsDTO,
+} from './dto/product-dto';
 import type { Locale, TranslationFunction } from '../i18n/types';
 
 // ============================================================================
@@ -214,6 +228,8 @@ export interface ProductsPageProps extends ThemeI18nProps {
   onViewModeChange: (mode: 'grid' | 'list') => void;
   onPageChange: (page: number) => void;
   onAddToCart: (productId: string) => Promise<void>;
+  /** Provided when config.features.showWishlist is on */
+  onAddToWishlist?: (productId: string) => Promise<void>;
   onProductClick: (productId: string) => void;
   onSearch?: (query: string) => void;
 }
@@ -223,6 +239,11 @@ export interface ProductsPageProps extends ThemeI18nProps {
  */
 export interface ProductDetailPageProps extends ThemeI18nProps {
   product: Product | null;
+  /** Gallery in display order; images with a variantId belong to that variant. Falls back to product.images when empty. */
+  media?: ProductMediaDTO[];
+  /** Latest approved reviews; rendered when config.features.showRatings is on */
+  reviews?: ProductReviewDTO[];
+  reviewSummary?: ProductReviewSummaryDTO;
   isLoading: boolean;
   selectedVariant?: string;
   quantity: number;
@@ -267,6 +288,12 @@ export interface CheckoutFormData {
   postalCode: string;
   country: string;
   paymentMethod: string;
+  /** Saved address picked from savedAddresses; the API uses it instead of the typed fields */
+  addressId?: string;
+  /** Gift cards to redeem against the order, used in this order */
+  giftCardCodes?: string[];
+  /** Cover what the gift cards leave with store credit */
+  useStoreCredit?: boolean;
 }
 
 /**
@@ -280,6 +307,12 @@ export interface CheckoutPageProps extends ThemeI18nProps {
   requireShippingAddress?: boolean;
   countriesRequireStatePostal?: string[];
   currentUserEmail?: string;
+  /** Address book of a signed-in customer, default shipping address first */
+  savedAddresses?: CustomerAddressDTO[];
+  /** Store credit of a signed-in customer; omitted when there is none */
+  storeCreditBalance?: number;
+  /** Look up a gift card before applying it; rejects for unknown codes */
+  onCheckGiftCardBalance?: (code: string) => Promise<GiftCardBalanceDTO>;
   availablePaymentMethods?: Array<{
     name: string;
     displayName: string;
@@ -367,11 +400,20 @@ export interface SearchPageProps extends ThemeI18nProps {
     brand: string;
     rating: string;
     inStock: boolean;
+    /** Selected variant attribute values keyed by attribute name */
+    attributes?: Record<string, string[]>;
   };
+  /** Total number of matching products across all pages */
+  totalResults?: number;
+  /** Facet counts over the whole match set (categories, price range, attributes, availability) */
+  facets?: ProductSearchFacetsDTO;
+  /** "Did you mean" query when nothing matched the search words exactly */
+  suggestion?: string | null;
   config?: ThemeConfig;
   onSortChange: (sortBy: string) => void;
   onViewModeChange: (mode: 'grid' | 'list') => void;
   onFilterChange: (filters: any) => void;
+  onSuggestionClick?: (query: string) => void;
   onAddToCart: (productId: string) => Promise<void>;
   onProductClick: (productId: string) => void;
 }
@@ -401,6 +443,10 @@ export interface OrderDetailPageProps extends ThemeI18nProps {
   onBack?: () => void;
   onBackToOrders?: () => void;
   onCancelOrder?: () => Promise<void>;
+  /** Submit a return request for delivered items; rejects with the API error */
+  onRequestReturn?: (input: CreateReturnRequestDTO) => Promise<void>;
+  /** Upload a photo for a return request and resolve to its URL */
+  onUploadReturnPhoto?: (file: File) => Promise<string>;
 }
 
 /**
@@ -439,6 +485,10 @@ export interface ProfilePageProps extends ThemeI18nProps {
   isLoading: boolean;
   isAuthenticated: boolean;
   config?: ThemeConfig;
+  /** Store credit balance and recent changes */
+  storeCredit?: StoreCreditDTO | null;
+  /** Gift card balance lookup; rejects for unknown codes */
+  onCheckGiftCardBalance?: (code: string) => Promise<GiftCardBalanceDTO>;
   onNavigateToSettings: () => void;
   onNavigateToOrders: () => void;
   onNavigateToLogin: () => void;
@@ -471,15 +521,43 @@ export interface ProfileSettingsPageProps extends ThemeI18nProps {
     timezone?: string;
   }) => Promise<void>;
   onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  /** Address book; the handlers below are provided together with it */
+  addresses?: CustomerAddressDTO[];
+  /** Create an address, or update it when addressId is given */
+  onSaveAddress?: (data: SaveCustomerAddressDTO, addressId?: string) => Promise<void>;
+  onDeleteAddress?: (addressId: string) => Promise<void>;
+  onSetDefaultAddress?: (addressId: string, type: 'shipping' | 'billing') => Promise<void>;
   onNavigateBack: () => void;
   onNavigateToLogin: () => void;
 }
 
+/**
+ * Merchant-edited CMS page passed to content page components. When present,
+ * themes render it in place of their built-in copy; `bodyHtml` is rendered
+ * by the API from Markdown with raw HTML escaped.
+ */
+export interface ThemeContentPage {
+  slug: string;
+  /** Locale the text is in; the default locale when untranslated */
+  locale: string;
+  title: string;
+  excerpt: string | null;
+  bodyHtml: string;
+  coverImage: string | null;
+  publishedAt: string;
+  updatedAt: string;
+  metaTitle: string | null;
+  metaDescription: string | null;
+  canonicalUrl: string | null;
+}
+
 /**
  * Contact Page Component Props
  */
 export interface ContactPageProps extends ThemeI18nProps {
   config?: ThemeConfig;
+  /** Stored content for the `contact` page, shown above the form */
+  content?: ThemeContentPage | null;
   onSubmitForm: (data: {
     name: string;
     email: string;
@@ -493,6 +571,8 @@ export interface ContactPageProps extends ThemeI18nProps {
  */
 export interface HelpPageProps extends ThemeI18nProps {
   config?: ThemeConfig;
+  /** Stored content for the `help` page */
+  content?: ThemeContentPage | null;
   onNavigateToCategory?: (categoryId: string) => void;
   onNavigateToContact?: () => void;
 }
@@ -509,6 +589,8 @@ export interface HowItWorksPageProps extends ThemeI18nProps {
  */
 export interface PrivacyPageProps extends ThemeI18nProps {
   config?: ThemeConfig;
+  /** Stored content for the `privacy` page */
+  content?: ThemeContentPage | null;
 }
 
 /**
@@ -516,6 +598,8 @@ export interface PrivacyPageProps extends ThemeI18nProps {
  */
 export interface TermsPageProps extends ThemeI18nProps {
   config?: ThemeConfig;
+  /** Stored content for the `terms` page */
+  content?: ThemeContentPage | null;
 }
 
 /**
@@ -13,6 +13,8 @@ export const API_ENDPOINTS = {
   // Account - User account management endpoints
   ACCOUNT: {
     PROFILE: '/account/profile', // Get/Update profile
+    ADDRESSES: '/account/addresses', // List/Save addresses
+    ADDRESS: '/account/addresses/:id', // Get/Update/Delete address
   },
 
   // Products
@@ -21,6 +23,7 @@ export const API_ENDPOINTS = {
     DETAIL: '/products/:id',
     SEARCH: '/products/search',
     CATEGORIES: '/products/categories',
+    REVIEWS: '/products/:id/reviews',
   },
 
   // Cart
@@ -31,6 +34,18 @@ export const API_ENDPOINTS = {
     REMOVE: '/cart/items/:id',
     CLEAR: '/cart',
     BATCH: '/cart/items/batch',
+    SAVE_FOR_LATER: '/cart/items/:id/save-for-later',
+  },
+
+  // Wishlists
+  WISHLISTS: {
+    LIST: '/wishlists',
+    DETAIL: '/wishlists/:id',
+    SHARE: '/wishlists/:id/share',
+    SHARED: '/wishlists/shared/:token',
+    ITEMS: '/wishlists/items',
+    ITEM: '/wishlists/items/:itemId',
+    MOVE_TO_CART: '/wishlists/items/:itemId/move-to-cart',
   },
 
   // Orders
@@ -42,6 +57,20 @@ export const API_ENDPOINTS = {
     CANCEL: '/orders/:id/cancel',
   },
 
+  // Gift cards & store credit
+  GIFT_CARDS: {
+    BALANCE: '/gift-cards/balance',
+    STORE_CREDIT: '/gift-cards/store-credit',
+    ORDER_TENDERS: '/gift-cards/orders/:orderId/tenders',
+  },
+
+  // CMS pages & blog posts
+  CONTENT: {
+    PAGE: '/content/pages/:slug',
+    POSTS: '/content/posts',
+    POST: '/content/posts/:slug',
+  },
+
   // Users
   USERS: {
     LIST: '/users',
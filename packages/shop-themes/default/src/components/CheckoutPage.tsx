@@ -3,7 +3,7 @@
  */
 
 import React from 'react';
-import { ArrowLeft, CreditCard, Truck, Lock, Wallet } from 'lucide-react';
+import { ArrowLeft, CreditCard, Truck, Lock, Wallet, Gift, X } from 'lucide-react';
 import { cn } from '@jiffoo/ui';
 import type { CheckoutPageProps } from 'shared/src/types/theme';
 
@@ -15,6 +15,9 @@ export const CheckoutPage = React.memo(function CheckoutPage({
   requireShippingAddress,
   countriesRequireStatePostal,
   currentUserEmail,
+  savedAddresses,
+  storeCreditBalance,
+  onCheckGiftCardBalance,
   availablePaymentMethods,
   onSubmit,
   onBack,
@@ -52,9 +55,20 @@ export const CheckoutPage = React.memo(function CheckoutPage({
     country: '',
     phone: '',
     paymentMethod: paymentMethods[0]?.name || '',
+    addressId: '',
   });
 
   const [errors, setErrors] = React.useState<Record<string, string>>({});
+  const [giftCardInput, setGiftCardInput] = React.useState('');
+  const [giftCards, setGiftCards] = React.useState<Array<{ code: string; balance?: number }>>([]);
+  const [giftCardError, setGiftCardError] = React.useState('');
+  const [isCheckingGiftCard, setIsCheckingGiftCard] = React.useState(false);
+  const [useStoreCredit, setUseStoreCredit] = React.useState(false);
+
+  // Only an estimate: the API decides what each card covers when the order is placed
+  const estimatedTenders = giftCards.reduce((sum, card) => sum + (card.balance || 0), 0)
+    + (useStoreCredit ? storeCreditBalance || 0 : 0);
+  const coveredByTenders = estimatedTenders >= cart.total && cart.total > 0;
 
   const hasShippingInput = React.useMemo(
     () => [
@@ -98,6 +112,34 @@ export const CheckoutPage = React.memo(function CheckoutPage({
     });
   }, [currentUserEmail]);
 
+  const applySavedAddress = React.useCallback((addressId: string) => {
+    const address = savedAddresses?.find((item) => item.id === addressId);
+    setErrors({});
+    setFormData((prev) => (address
+      ? {
+        ...prev,
+        firstName: address.firstName,
+        lastName: address.lastName,
+        phone: address.phone,
+        addressLine1: address.addressLine1,
+        city: address.city,
+        state: address.state || '',
+        postalCode: address.postalCode || '',
+        country: address.country,
+        email: prev.email || address.email || '',
+        addressId: address.id,
+      }
+      : { ...prev, addressId: '' }));
+  }, [savedAddresses]);
+
+  // Start from the default shipping address while nothing has been typed
+  React.useEffect(() => {
+    const defaultAddress = savedAddresses?.find((item) => item.isDefaultShipping);
+    if (defaultAddress && !hasShippingInput) {
+      applySavedAddress(defaultAddress.id);
+    }
+  }, [savedAddresses]);
+
   const getPaymentIcon = (methodName: string) => {
     const normalized = methodName.toLowerCase();
     if (normalized === 'stripe' || normalized === 'card') {
@@ -108,7 +150,9 @@ export const CheckoutPage = React.memo(function CheckoutPage({
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+    // Editing an address field turns a picked saved address into a typed one
+    const keepsSavedAddress = name === 'email' || name === 'paymentMethod';
+    setFormData(prev => ({ ...prev, [name]: value, addressId: keepsSavedAddress ? prev.addressId : '' }));
     if (errors[name]) {
       setErrors(prev => {
         const newErrors = { ...prev };
@@ -141,10 +185,45 @@ export const CheckoutPage = React.memo(function CheckoutPage({
     return Object.keys(newErrors).length === 0;
   };
 
+  const handleAddGiftCard = async () => {
+    const code = giftCardInput.trim().toUpperCase();
+    if (!code) return;
+    if (giftCards.some((card) => card.code === code)) {
+      setGiftCardInput('');
+      return;
+    }
+
+    setGiftCardError('');
+    if (!onCheckGiftCardBalance) {
+      setGiftCards((prev) => [...prev, { code }]);
+      setGiftCardInput('');
+      return;
+    }
+
+    setIsCheckingGiftCard(true);
+    try {
+      const balance = await onCheckGiftCardBalance(code);
+      if (!balance.isActive || balance.balance <= 0) {
+        setGiftCardError(getText('shop.checkout.giftCard.unusable', 'This gift card cannot be used'));
+        return;
+      }
+      setGiftCards((prev) => [...prev, { code, balance: balance.balance }]);
+      setGiftCardInput('');
+    } catch {
+      setGiftCardError(getText('shop.checkout.giftCard.notFound', 'Gift card not found'));
+    } finally {
+      setIsCheckingGiftCard(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validateForm()) return;
-    await onSubmit(formData);
+    await onSubmit({
+      ...formData,
+      giftCardCodes: giftCards.length > 0 ? giftCards.map((card) => card.code) : undefined,
+      useStoreCredit: useStoreCredit || undefined,
+    });
   };
 
   const inputStyles = cn(
@@ -198,6 +277,27 @@ export const CheckoutPage = React.memo(function CheckoutPage({
                     </div>
 
                     <div className="space-y-4">
+                      {savedAddresses && savedAddresses.length > 0 && (
+                        <div>
+                          <label htmlFor="savedAddress" className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest block mb-2">SAVED ADDRESS</label>
+                          <select
+                            id="savedAddress"
+                            value={formData.addressId}
+                            onChange={(e) => applySavedAddress(e.target.value)}
+                            className={inputStyles}
+                          >
+                            <option value="">{getText('shop.checkout.shipping.newAddress', 'Enter a new address')}</option>
+                            {savedAddresses.map((address) => (
+                              <option key={address.id} value={address.id}>
+                                {[address.label, `${address.firstName} ${address.lastName}`, address.addressLine1, address.city]
+                                  .filter(Boolean)
+                                  .join(' · ')}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
                       <div>
                         <label htmlFor="email" className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest block mb-2">EMAIL</label>
                         <input
@@ -404,10 +504,82 @@ export const CheckoutPage = React.memo(function CheckoutPage({
                   </div>
                 </div>
 
+                {/* Gift cards & store credit */}
+                <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm">
+                  <div className="p-6 sm:p-8">
+                    <div className="flex items-center gap-3 mb-6">
+                      <div className="w-12 h-12 rounded-2xl bg-blue-50 dark:bg-blue-900/20 flex items-center justify-center">
+                        <Gift className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                      </div>
+                      <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">
+                        {getText('shop.checkout.giftCard.title', 'Gift Cards & Store Credit')}
+                      </h2>
+                    </div>
+
+                    <div className="space-y-4">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={giftCardInput}
+                          onChange={(e) => setGiftCardInput(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault();
+                              void handleAddGiftCard();
+                            }
+                          }}
+                          className={cn(inputStyles, giftCardError && errorInputStyles)}
+                          placeholder={getText('shop.checkout.giftCard.placeholder', 'Gift card code')}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => void handleAddGiftCard()}
+                          disabled={isCheckingGiftCard || !giftCardInput.trim()}
+                          className="px-5 rounded-xl border border-gray-200 dark:border-slate-600 font-semibold text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-50 transition-all"
+                        >
+                          {getText('shop.checkout.giftCard.apply', 'Apply')}
+                        </button>
+                      </div>
+                      {giftCardError && <p className="text-red-600 dark:text-red-400 text-xs font-medium">{giftCardError}</p>}
+
+                      {giftCards.map((card) => (
+                        <div key={card.code} className="flex items-center justify-between p-3 rounded-xl bg-gray-50 dark:bg-slate-700/50 text-sm">
+                          <span className="font-bold text-gray-900 dark:text-white">****-{card.code.slice(-4)}</span>
+                          <div className="flex items-center gap-3">
+                            {card.balance !== undefined && (
+                              <span className="text-gray-500 dark:text-gray-400 font-medium">${card.balance.toFixed(2)}</span>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => setGiftCards((prev) => prev.filter((item) => item.code !== card.code))}
+                              className="text-gray-400 hover:text-red-600"
+                              aria-label={getText('shop.checkout.giftCard.remove', 'Remove')}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+
+                      {(storeCreditBalance || 0) > 0 && (
+                        <label className="flex items-center gap-3 text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={useStoreCredit}
+                            onChange={(e) => setUseStoreCredit(e.target.checked)}
+                            className="w-4 h-4 text-blue-600"
+                          />
+                          {getText('shop.checkout.giftCard.useStoreCredit', 'Use store credit')} (${(storeCreditBalance || 0).toFixed(2)})
+                        </label>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
                 {/* Submit Button */}
                 <button
                   type="submit"
-                  disabled={isLoading || isProcessing || paymentMethods.length === 0}
+                  disabled={isLoading || isProcessing || (paymentMethods.length === 0 && !coveredByTenders)}
                   className="w-full h-12 rounded-xl font-semibold text-sm shadow-md shadow-blue-100 transition-all bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   <Lock className="h-4 w-4" />
@@ -493,6 +665,13 @@ export const CheckoutPage = React.memo(function CheckoutPage({
                         <span className="text-blue-600 font-bold">${cart.total.toFixed(2)}</span>
                       </div>
                     </div>
+
+                    {estimatedTenders > 0 && (
+                      <div className="flex justify-between text-sm text-green-600">
+                        <span className="font-medium">{getText('shop.checkout.giftCard.applied', 'Gift cards & store credit')}</span>
+                        <span className="font-bold">-${Math.min(estimatedTenders, cart.total).toFixed(2)}</span>
+                      </div>
+                    )}
                   </div>
 
                   {/* Security notice */}
@@ -6,6 +6,7 @@ import React, { useState } from 'react';
 import { Mail, Phone, MapPin, Clock, Send } from 'lucide-react';
 import type { ContactPageProps } from '../../../../shared/src/types/theme';
 import { cn } from '@jiffoo/ui';
+import { StoredContentBody } from './StoredContent';
 
 const inputStyles = cn(
   'w-full px-4 py-3 rounded-xl border border-gray-100 dark:border-slate-700',
@@ -14,7 +15,7 @@ const inputStyles = cn(
   'transition-all duration-150'
 );
 
-export function ContactPage({ config, onSubmitForm }: ContactPageProps) {
+export function ContactPage({ config, content, onSubmitForm }: ContactPageProps) {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -58,7 +59,7 @@ export function ContactPage({ config, onSubmitForm }: ContactPageProps) {
               <div className="w-2 h-2 bg-blue-600 dark:bg-blue-400 rounded-full animate-pulse" />
               <span className="text-[10px] font-bold text-blue-600 dark:text-blue-400 uppercase tracking-widest">CONTACT US</span>
             </div>
-            <h1 className="text-3xl sm:text-5xl font-bold text-gray-900 dark:text-white mb-4 tracking-tight">Get in Touch</h1>
+            <h1 className="text-3xl sm:text-5xl font-bold text-gray-900 dark:text-white mb-4 tracking-tight">{content?.title ?? 'Get in Touch'}</h1>
             <p className="text-[10px] font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">
               WE'D LOVE TO HEAR FROM YOU
             </p>
@@ -70,49 +71,53 @@ export function ContactPage({ config, onSubmitForm }: ContactPageProps) {
       <section className="py-12 sm:py-16">
         <div className="container mx-auto px-4">
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 sm:gap-8 max-w-7xl mx-auto">
-            {/* Contact Information */}
-            <div className="space-y-4 sm:space-y-6">
-              <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
-                <div className="w-12 h-12 bg-blue-50 dark:bg-blue-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
-                  <Mail className="w-5 h-5 text-blue-600 dark:text-blue-400" />
-                </div>
-                <div>
-                  <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">EMAIL</h3>
-                  <p className="text-sm font-bold text-gray-900 dark:text-white">support@jiffoomall.com</p>
+            {/* Contact Information - stored content replaces the built-in details */}
+            {content ? (
+              <StoredContentBody content={content} />
+            ) : (
+              <div className="space-y-4 sm:space-y-6">
+                <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
+                  <div className="w-12 h-12 bg-blue-50 dark:bg-blue-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
+                    <Mail className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">EMAIL</h3>
+                    <p className="text-sm font-bold text-gray-900 dark:text-white">support@jiffoomall.com</p>
+                  </div>
                 </div>
-              </div>
 
-              <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
-                <div className="w-12 h-12 bg-green-50 dark:bg-green-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
-                  <Phone className="w-5 h-5 text-green-600 dark:text-green-400" />
-                </div>
-                <div>
-                  <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">PHONE</h3>
-                  <p className="text-sm font-bold text-gray-900 dark:text-white">+1 (555) 123-4567</p>
+                <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
+                  <div className="w-12 h-12 bg-green-50 dark:bg-green-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
+                    <Phone className="w-5 h-5 text-green-600 dark:text-green-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">PHONE</h3>
+                    <p className="text-sm font-bold text-gray-900 dark:text-white">+1 (555) 123-4567</p>
+                  </div>
                 </div>
-              </div>
 
-              <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
-                <div className="w-12 h-12 bg-purple-50 dark:bg-purple-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
-                  <MapPin className="w-5 h-5 text-purple-600 dark:text-purple-400" />
-                </div>
-                <div>
-                  <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">ADDRESS</h3>
-                  <p className="text-sm font-bold text-gray-900 dark:text-white">123 Commerce Street, Business City, BC 12345</p>
+                <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
+                  <div className="w-12 h-12 bg-purple-50 dark:bg-purple-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
+                    <MapPin className="w-5 h-5 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">ADDRESS</h3>
+                    <p className="text-sm font-bold text-gray-900 dark:text-white">123 Commerce Street, Business City, BC 12345</p>
+                  </div>
                 </div>
-              </div>
 
-              <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
-                <div className="w-12 h-12 bg-yellow-50 dark:bg-yellow-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
-                  <Clock className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />
-                </div>
-                <div>
-                  <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">BUSINESS HOURS</h3>
-                  <p className="text-xs text-gray-600 dark:text-gray-400">Monday - Friday: 9:00 AM - 6:00 PM</p>
-                  <p className="text-xs text-gray-600 dark:text-gray-400">Saturday - Sunday: 10:00 AM - 4:00 PM</p>
+                <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 flex items-start space-x-4">
+                  <div className="w-12 h-12 bg-yellow-50 dark:bg-yellow-900/20 rounded-2xl flex items-center justify-center flex-shrink-0">
+                    <Clock className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest mb-2">BUSINESS HOURS</h3>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">Monday - Friday: 9:00 AM - 6:00 PM</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">Saturday - Sunday: 10:00 AM - 4:00 PM</p>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
 
             {/* Contact Form */}
             <div className="lg:col-span-2">
@@ -6,6 +6,7 @@ import React, { useState } from 'react';
 import { Search, MessageCircle, Phone, Mail, ChevronRight, Package, RotateCcw, UserRound, CreditCard, ShoppingBag, Settings } from 'lucide-react';
 import type { HelpPageProps } from '../../../../shared/src/types/theme';
 import { cn } from '@jiffoo/ui';
+import { StoredContentBody } from './StoredContent';
 
 const helpCategories = [
   { id: 'orders', icon: Package, iconStyles: 'bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400', title: 'Orders & Shipping', description: 'Track orders, shipping info, and delivery questions', articles: 12 },
@@ -16,7 +17,7 @@ const helpCategories = [
   { id: 'technical', icon: Settings, iconStyles: 'bg-slate-100 text-slate-600 dark:bg-slate-700/50 dark:text-slate-300', title: 'Technical Support', description: 'Website issues, app problems, and technical help', articles: 9 },
 ];
 
-export function HelpPage({ config, onNavigateToCategory, onNavigateToContact }: HelpPageProps) {
+export function HelpPage({ config, content, onNavigateToCategory, onNavigateToContact }: HelpPageProps) {
   const [searchQuery, setSearchQuery] = useState('');
 
   const filteredCategories = helpCategories.filter(cat =>
@@ -34,72 +35,82 @@ export function HelpPage({ config, onNavigateToCategory, onNavigateToContact }:
               <div className="w-2 h-2 bg-blue-600 dark:bg-blue-400 rounded-full animate-pulse" />
               <span className="text-[10px] font-bold text-blue-600 dark:text-blue-400 uppercase tracking-widest">SUPPORT CENTER</span>
             </div>
-            <h1 className="text-3xl sm:text-5xl font-bold text-gray-900 dark:text-white mb-4 tracking-tight">Help Center</h1>
+            <h1 className="text-3xl sm:text-5xl font-bold text-gray-900 dark:text-white mb-4 tracking-tight">{content?.title ?? 'Help Center'}</h1>
             <p className="text-[10px] font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-8">
               FIND ANSWERS TO COMMON QUESTIONS
             </p>
 
             {/* Search Bar */}
-            <div className="max-w-2xl mx-auto relative">
-              <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500 w-5 h-5" />
-              <input
-                type="text"
-                placeholder="Search help articles..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className={cn(
-                  'w-full pl-12 pr-4 py-4 rounded-2xl border border-gray-100 dark:border-slate-700',
-                  'bg-gray-50/50 dark:bg-slate-800 text-sm font-bold text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500',
-                  'focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400',
-                  'transition-all duration-150 shadow-sm'
-                )}
-              />
-            </div>
+            {!content && (
+              <div className="max-w-2xl mx-auto relative">
+                <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500 w-5 h-5" />
+                <input
+                  type="text"
+                  placeholder="Search help articles..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className={cn(
+                    'w-full pl-12 pr-4 py-4 rounded-2xl border border-gray-100 dark:border-slate-700',
+                    'bg-gray-50/50 dark:bg-slate-800 text-sm font-bold text-gray-900 dark:text-white placeholder:text-gray-400 dark:placeholder:text-gray-500',
+                    'focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:focus:border-blue-400',
+                    'transition-all duration-150 shadow-sm'
+                  )}
+                />
+              </div>
+            )}
           </div>
         </div>
       </section>
 
-      {/* Help Categories */}
-      <section className="py-12 sm:py-16">
-        <div className="container mx-auto px-4">
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 max-w-7xl mx-auto">
-            {filteredCategories.map((category) => (
-              <div
-                key={category.id}
-                onClick={() => onNavigateToCategory?.(category.id)}
-                className="group cursor-pointer"
-              >
-                <div className="bg-white dark:bg-slate-800 border border-gray-100 dark:border-slate-700 rounded-3xl p-6 sm:p-8 hover:shadow-md hover:border-blue-200 dark:hover:border-blue-700 transition-all duration-300 h-full">
-                  <div className={cn('w-12 h-12 sm:w-14 sm:h-14 rounded-2xl flex items-center justify-center mb-4 sm:mb-6', category.iconStyles)}>
-                    <category.icon className="w-6 h-6 sm:w-7 sm:h-7" />
-                  </div>
-                  <div className="space-y-3">
-                    <h3 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors tracking-tight">
-                      {category.title}
-                    </h3>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">
-                      {category.description}
-                    </p>
-                    <div className="flex items-center justify-between text-xs pt-2">
-                      <span className="text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider">{category.articles} ARTICLES</span>
-                      <ChevronRight className="w-4 h-4 text-gray-400 dark:text-gray-500 group-hover:translate-x-1 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-all" />
+      {/* Help Categories - stored content replaces the built-in topics */}
+      {content ? (
+        <section className="py-12 sm:py-16">
+          <div className="container mx-auto px-4 max-w-4xl">
+            <StoredContentBody content={content} />
+          </div>
+        </section>
+      ) : (
+        <section className="py-12 sm:py-16">
+          <div className="container mx-auto px-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 max-w-7xl mx-auto">
+              {filteredCategories.map((category) => (
+                <div
+                  key={category.id}
+                  onClick={() => onNavigateToCategory?.(category.id)}
+                  className="group cursor-pointer"
+                >
+                  <div className="bg-white dark:bg-slate-800 border border-gray-100 dark:border-slate-700 rounded-3xl p-6 sm:p-8 hover:shadow-md hover:border-blue-200 dark:hover:border-blue-700 transition-all duration-300 h-full">
+                    <div className={cn('w-12 h-12 sm:w-14 sm:h-14 rounded-2xl flex items-center justify-center mb-4 sm:mb-6', category.iconStyles)}>
+                      <category.icon className="w-6 h-6 sm:w-7 sm:h-7" />
+                    </div>
+                    <div className="space-y-3">
+                      <h3 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors tracking-tight">
+                        {category.title}
+                      </h3>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 leading-relaxed">
+                        {category.description}
+                      </p>
+                      <div className="flex items-center justify-between text-xs pt-2">
+                        <span className="text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider">{category.articles} ARTICLES</span>
+                        <ChevronRight className="w-4 h-4 text-gray-400 dark:text-gray-500 group-hover:translate-x-1 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-all" />
+                      </div>
                     </div>
                   </div>
                 </div>
+              ))}
+            </div>
+
+            {filteredCategories.length === 0 && (
+              <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm max-w-2xl mx-auto">
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No help articles found matching your search.</p>
+                <button onClick={() => setSearchQuery('')} className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-bold text-sm uppercase tracking-wider">
+                  CLEAR SEARCH
+                </button>
               </div>
-            ))}
+            )}
           </div>
-
-          {filteredCategories.length === 0 && (
-            <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm max-w-2xl mx-auto">
-              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No help articles found matching your search.</p>
-              <button onClick={() => setSearchQuery('')} className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-bold text-sm uppercase tracking-wider">
-                CLEAR SEARCH
-              </button>
-            </div>
-          )}
-        </div>
-      </section>
+        </section>
+      )}
 
       {/* Contact Support */}
       <section className="py-12 sm:py-16 bg-white dark:bg-slate-800 border-t border-gray-100 dark:border-slate-700">
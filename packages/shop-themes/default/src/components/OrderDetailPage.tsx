@@ -5,6 +5,7 @@
 import React from 'react';
 import { ArrowLeft, Loader2, AlertCircle, Package, CheckCircle2, Truck, Clock, Download, Key, QrCode } from 'lucide-react';
 import type { OrderDetailPageProps } from '../../../../shared/src/types/theme';
+import { OrderReturns } from './OrderReturns';
 
 function hasDigitalFulfillment(data: Record<string, unknown> | null): boolean {
   if (!data) return false;
@@ -21,6 +22,8 @@ export const OrderDetailPage = React.memo(function OrderDetailPage({
   onBack,
   onBackToOrders,
   onCancelOrder,
+  onRequestReturn,
+  onUploadReturnPhoto,
 }: OrderDetailPageProps) {
   // Support both onBack and onBackToOrders for backward compatibility
   const handleBack = onBack || onBackToOrders;
@@ -233,6 +236,12 @@ export const OrderDetailPage = React.memo(function OrderDetailPage({
                 </div>
               </div>
 
+              <OrderReturns
+                order={order}
+                onRequestReturn={onRequestReturn}
+                onUploadReturnPhoto={onUploadReturnPhoto}
+              />
+
               {/* Action Buttons */}
               {order.status.toLowerCase() === 'pending' && onCancelOrder && (
                 <button
@@ -0,0 +1,249 @@
+/**
+ * Order Returns Section - return requests of an order and the request form
+ */
+
+import React from 'react';
+import { Loader2, RotateCcw, Camera, X } from 'lucide-react';
+import type { CreateReturnRequestDTO, ReturnReason, ShopOrderDetailDTO } from '../../../../shared/src/types/dto';
+
+const RETURN_REASONS: Array<{ value: ReturnReason; label: string }> = [
+  { value: 'DAMAGED', label: 'Arrived damaged' },
+  { value: 'DEFECTIVE', label: 'Defective' },
+  { value: 'WRONG_ITEM', label: 'Wrong item' },
+  { value: 'NOT_AS_DESCRIBED', label: 'Not as described' },
+  { value: 'NO_LONGER_NEEDED', label: 'No longer needed' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+const MAX_PHOTOS = 5;
+
+const RETURNABLE_STATUSES = ['shipped', 'delivered', 'completed'];
+
+interface OrderReturnsProps {
+  order: ShopOrderDetailDTO;
+  onRequestReturn?: (input: CreateReturnRequestDTO) => Promise<void>;
+  onUploadReturnPhoto?: (file: File) => Promise<string>;
+}
+
+function getReturnStatusColor(status: string) {
+  switch (status) {
+    case 'REQUESTED': return 'bg-yellow-50 text-yellow-700 border-yellow-100';
+    case 'APPROVED': return 'bg-blue-50 text-blue-700 border-blue-100';
+    case 'RECEIVED': return 'bg-green-50 text-green-700 border-green-100';
+    case 'REJECTED': return 'bg-red-50 text-red-700 border-red-100';
+    default: return 'bg-gray-50 text-gray-700 border-gray-100';
+  }
+}
+
+export function OrderReturns({ order, onRequestReturn, onUploadReturnPhoto }: OrderReturnsProps) {
+  const returns = order.returns ?? [];
+  const [open, setOpen] = React.useState(false);
+  const [reason, setReason] = React.useState<ReturnReason>('DAMAGED');
+  const [note, setNote] = React.useState('');
+  const [quantities, setQuantities] = React.useState<Record<string, number>>({});
+  const [photos, setPhotos] = React.useState<string[]>([]);
+  const [uploading, setUploading] = React.useState(false);
+  const [submitting, setSubmitting] = React.useState(false);
+
+  const canRequest = Boolean(onRequestReturn) && RETURNABLE_STATUSES.includes(order.status.toLowerCase());
+  if (returns.length === 0 && !canRequest) {
+    return null;
+  }
+
+  const selectedItems = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !onUploadReturnPhoto) return;
+
+    setUploading(true);
+    try {
+      const url = await onUploadReturnPhoto(file);
+      setPhotos((current) => [...current, url]);
+    } catch {
+      // The page shows the upload error
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!onRequestReturn || selectedItems.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      await onRequestReturn({
+        reason,
+        customerNote: note.trim() || undefined,
+        photos: photos.length > 0 ? photos : undefined,
+        items: selectedItems,
+      });
+      setOpen(false);
+      setQuantities({});
+      setPhotos([]);
+      setNote('');
+    } catch {
+      // Keep the form filled in; the page shows the error
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 p-6 sm:p-8">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-2xl bg-orange-50 dark:bg-orange-900/20 flex items-center justify-center">
+            <RotateCcw className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <div className="h-3 w-0.5 bg-blue-600 rounded-full" />
+              <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">RETURNS</span>
+            </div>
+            <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-white">Returns</h2>
+          </div>
+        </div>
+        {canRequest && !open && (
+          <button
+            onClick={() => setOpen(true)}
+            className="h-10 px-4 rounded-xl border border-gray-200 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700 font-semibold text-xs text-gray-700 dark:text-gray-300 transition-all uppercase tracking-wider"
+          >
+            REQUEST RETURN
+          </button>
+        )}
+      </div>
+
+      {returns.length > 0 && (
+        <div className="space-y-4 mb-6">
+          {returns.map((ret) => (
+            <div key={ret.id} className="p-4 bg-gray-50 dark:bg-slate-700/50 rounded-xl border border-gray-100 dark:border-slate-600">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  RETURN #{ret.id.slice(-8).toUpperCase()}
+                </p>
+                <span className={`inline-flex items-center px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider border ${getReturnStatusColor(ret.status)}`}>
+                  {ret.status}
+                </span>
+              </div>
+              <ul className="text-sm text-gray-900 dark:text-white space-y-1">
+                {ret.items.map((item) => (
+                  <li key={item.id}>
+                    {item.productName ?? 'Item'} × {item.quantity}
+                    {item.inspectionResult && (
+                      <span className="ml-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider">{item.inspectionResult}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {ret.trackingNumber && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Return shipping: {ret.carrier} {ret.trackingNumber}
+                  {ret.labelUrl && (
+                    <a href={ret.labelUrl} target="_blank" rel="noreferrer" className="ml-2 text-blue-600 dark:text-blue-400 font-semibold">
+                      Print label
+                    </a>
+                  )}
+                </p>
+              )}
+              {ret.rejectionReason && (
+                <p className="text-xs text-red-600 dark:text-red-400 mt-2">{ret.rejectionReason}</p>
+              )}
+              {ret.refund && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Refund: {ret.refund.amount.toFixed(2)} {ret.refund.currency} ({ret.refund.status.toLowerCase()})
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canRequest && open && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            {order.items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-900 dark:text-white flex-1">{item.productName}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={item.quantity}
+                  value={quantities[item.id] ?? 0}
+                  onChange={(event) => setQuantities((current) => ({
+                    ...current,
+                    [item.id]: Math.min(item.quantity, Math.max(0, Number(event.target.value) || 0)),
+                  }))}
+                  className="w-20 h-10 px-3 rounded-xl border border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm"
+                />
+              </div>
+            ))}
+          </div>
+
+          <select
+            value={reason}
+            onChange={(event) => setReason(event.target.value as ReturnReason)}
+            className="w-full h-10 px-3 rounded-xl border border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm"
+          >
+            {RETURN_REASONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Tell us more (optional)"
+            rows={3}
+            className="w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm"
+          />
+
+          {onUploadReturnPhoto && (
+            <div className="flex flex-wrap items-center gap-2">
+              {photos.map((url) => (
+                <div key={url} className="relative w-16 h-16">
+                  <img src={url} alt="" className="w-16 h-16 object-cover rounded-lg border border-gray-200" />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos((current) => current.filter((photo) => photo !== url))}
+                    className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-gray-900 text-white flex items-center justify-center"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <label className="w-16 h-16 rounded-lg border border-dashed border-gray-300 dark:border-slate-600 flex items-center justify-center cursor-pointer">
+                  {uploading ? <Loader2 className="h-5 w-5 animate-spin text-gray-400" /> : <Camera className="h-5 w-5 text-gray-400" />}
+                  <input type="file" accept="image/jpeg,image/png,image/webp" onChange={handlePhoto} disabled={uploading} className="hidden" />
+                </label>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              className="flex-1 h-12 rounded-xl border border-gray-200 dark:border-slate-600 font-semibold text-sm text-gray-700 dark:text-gray-300 uppercase tracking-wider"
+            >
+              CANCEL
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || uploading || selectedItems.length === 0}
+              className="flex-1 h-12 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold text-sm uppercase tracking-wider flex items-center justify-center gap-2"
+            >
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              SUBMIT RETURN
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,13 @@
 import React from 'react';
 import { Shield, Eye, Lock, Users, FileText } from 'lucide-react';
 import type { PrivacyPageProps } from '../../../../shared/src/types/theme';
+import { StoredContentPage } from './StoredContent';
+
+export function PrivacyPage({ config, content }: PrivacyPageProps) {
+  if (content) {
+    return <StoredContentPage content={content} badge="PRIVACY POLICY" icon={Shield} />;
+  }
 
-export function PrivacyPage({ config }: PrivacyPageProps) {
   const sections = [
     { id: 'information-collect', icon: FileText, title: 'Information We Collect', content: 'We collect information you provide directly to us, such as when you create an account, make a purchase, or contact us.' },
     { id: 'how-we-use', icon: Eye, title: 'How We Use Your Information', content: 'We use the information we collect to provide, maintain, and improve our services, process transactions, and communicate with you.' },
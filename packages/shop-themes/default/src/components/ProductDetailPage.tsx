@@ -7,8 +7,20 @@ import { ArrowLeft, Minus, Plus, ShoppingCart, Star, Loader2, Heart, Share2 } fr
 import { cn } from '@jiffoo/ui';
 import type { ProductDetailPageProps } from '../../../../shared/src/types/theme';
 
+interface GalleryImage {
+  key: string;
+  url: string;
+  thumbnailUrl: string;
+  alt: string;
+  variantId: string | null;
+  objectPosition: string;
+}
+
 export const ProductDetailPage = React.memo(function ProductDetailPage({
   product,
+  media,
+  reviews,
+  reviewSummary,
   isLoading,
   selectedVariant,
   quantity,
@@ -33,6 +45,47 @@ export const ProductDetailPage = React.memo(function ProductDetailPage({
     return product.variants.find((v: any) => v.id === selectedVariant);
   }, [selectedVariant, product]);
 
+  // Gallery: media rows when available, otherwise the plain image list.
+  // With a variant selected, its own images come first and images of other
+  // variants are hidden.
+  const gallery = React.useMemo<GalleryImage[]>(() => {
+    const fallbackAlt = product?.name || '';
+    const all: GalleryImage[] = media && media.length > 0
+      ? media.map((item) => ({
+          key: item.id,
+          url: item.sizes?.large || item.url,
+          thumbnailUrl: item.sizes?.thumbnail || item.url,
+          alt: item.alt || fallbackAlt,
+          variantId: item.variantId,
+          objectPosition: `${item.focalPoint.x * 100}% ${item.focalPoint.y * 100}%`,
+        }))
+      : (product?.images || []).map((image: any, index: number) => {
+          const url = typeof image === 'string' ? image : image.url;
+          return {
+            key: typeof image === 'string' ? `img-${index}` : (image.id || `img-${index}`),
+            url,
+            thumbnailUrl: url,
+            alt: typeof image === 'string' ? fallbackAlt : (image.alt || fallbackAlt),
+            variantId: null,
+            objectPosition: 'center',
+          };
+        });
+
+    if (!selectedVariant) {
+      return all;
+    }
+    const own = all.filter((image) => image.variantId === selectedVariant);
+    const shared = all.filter((image) => image.variantId === null);
+    return own.length + shared.length > 0 ? [...own, ...shared] : all;
+  }, [media, product, selectedVariant]);
+
+  const [activeImageIndex, setActiveImageIndex] = React.useState(0);
+
+  // Switching variants shows that variant's first image
+  React.useEffect(() => {
+    setActiveImageIndex(0);
+  }, [selectedVariant]);
+
   // Get current stock from selected variant or fallback to product stock
   const stockValue = (currentVariant as any)?.baseStock ?? product?.inventory?.available ?? (product as any)?.stock ?? 0;
   const isOutOfStock = stockValue <= 0;
@@ -68,18 +121,7 @@ export const ProductDetailPage = React.memo(function ProductDetailPage({
     );
   }
 
-  const getMainImage = () => {
-    if (!product.images || product.images.length === 0) {
-      return '/placeholder-product.svg';
-    }
-    const firstImage = product.images[0];
-    if (typeof firstImage === 'string') {
-      return firstImage;
-    }
-    const mainImg = product.images.find((img: any) => img.isMain);
-    return mainImg?.url || (firstImage as any).url || '/placeholder-product.svg';
-  };
-  const mainImage = getMainImage();
+  const activeImage = gallery[Math.min(activeImageIndex, gallery.length - 1)] ?? null;
 
   const discountPercent = product.originalPrice && product.originalPrice > product.price
     ? Math.round((1 - product.price / product.originalPrice) * 100)
@@ -104,9 +146,11 @@ export const ProductDetailPage = React.memo(function ProductDetailPage({
           <div>
             <div className="aspect-square rounded-2xl sm:rounded-3xl overflow-hidden bg-white dark:bg-slate-800 shadow-sm border border-gray-100 dark:border-slate-700 mb-3 sm:mb-4 relative">
               <img
-                src={mainImage}
-                alt={product.name}
+                key={activeImage?.key}
+                src={activeImage?.url || '/placeholder-product.svg'}
+                alt={activeImage?.alt || product.name}
                 className="w-full h-full object-cover"
+                style={{ objectPosition: activeImage?.objectPosition }}
                 onError={handleProductImageError}
               />
               {discountPercent > 0 && (
@@ -116,26 +160,29 @@ export const ProductDetailPage = React.memo(function ProductDetailPage({
               )}
             </div>
 
-            {product.images && product.images.length > 1 && (
+            {gallery.length > 1 && (
               <div className="grid grid-cols-4 gap-2 sm:gap-3">
-                {product.images.slice(0, 4).map((image, index) => {
-                  const imageUrl = typeof image === 'string' ? image : (image as any).url;
-                  const imageAlt = typeof image === 'string' ? product.name : ((image as any).alt || product.name);
-                  const imageKey = typeof image === 'string' ? `img-${index}` : ((image as any).id || `img-${index}`);
-                  return (
-                    <div
-                      key={imageKey}
-                      className="aspect-square rounded-xl sm:rounded-2xl overflow-hidden bg-white dark:bg-slate-800 shadow-sm border border-gray-100 dark:border-slate-700 cursor-pointer hover:ring-2 hover:ring-blue-500 dark:hover:ring-blue-400 transition-all"
-                    >
-                      <img
-                        src={imageUrl}
-                        alt={imageAlt}
-                        className="w-full h-full object-cover"
-                        onError={handleProductImageError}
-                      />
-                    </div>
-                  );
-                })}
+                {gallery.map((image, index) => (
+                  <button
+                    key={image.key}
+                    type="button"
+                    onClick={() => setActiveImageIndex(index)}
+                    aria-label={image.alt}
+                    aria-pressed={image.key === activeImage?.key}
+                    className={cn(
+                      'aspect-square rounded-xl sm:rounded-2xl overflow-hidden bg-white dark:bg-slate-800 shadow-sm border border-gray-100 dark:border-slate-700 cursor-pointer hover:ring-2 hover:ring-blue-500 dark:hover:ring-blue-400 transition-all',
+                      image.key === activeImage?.key && 'ring-2 ring-blue-600 dark:ring-blue-400'
+                    )}
+                  >
+                    <img
+                      src={image.thumbnailUrl}
+                      alt={image.alt}
+                      className="w-full h-full object-cover"
+                      style={{ objectPosition: image.objectPosition }}
+                      onError={handleProductImageError}
+                    />
+                  </button>
+                ))}
               </div>
             )}
           </div>
@@ -293,6 +340,75 @@ export const ProductDetailPage = React.memo(function ProductDetailPage({
             </div>
           </div>
         </div>
+
+        {/* Reviews */}
+        {config?.features?.showRatings && reviewSummary && reviewSummary.count > 0 && (
+          <div className="mt-6 sm:mt-8 bg-white dark:bg-slate-800 rounded-2xl sm:rounded-3xl p-6 sm:p-8 shadow-sm border border-gray-100 dark:border-slate-700">
+            <div className="flex items-center gap-2 mb-5">
+              <div className="h-3 w-0.5 bg-blue-600 dark:bg-blue-400 rounded-full" />
+              <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">
+                REVIEWS ({reviewSummary.count})
+              </span>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-[200px_1fr]">
+              <div className="space-y-2">
+                <div className="text-4xl font-bold text-gray-900 dark:text-white">{reviewSummary.average.toFixed(1)}</div>
+                {([5, 4, 3, 2, 1] as const).map((stars) => {
+                  const count = reviewSummary.distribution[String(stars) as '1' | '2' | '3' | '4' | '5'] || 0;
+                  return (
+                    <div key={stars} className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                      <span className="w-3">{stars}</span>
+                      <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                      <div className="h-1.5 flex-1 rounded-full bg-gray-100 dark:bg-slate-700 overflow-hidden">
+                        <div
+                          className="h-full bg-yellow-400"
+                          style={{ width: `${(count / reviewSummary.count) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-6 text-right">{count}</span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <ul className="space-y-5">
+                {(reviews || []).map((review) => (
+                  <li key={review.id} className="border-b border-gray-100 dark:border-slate-700 pb-5 last:border-0 last:pb-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      {Array.from({ length: 5 }).map((_, i) => (
+                        <Star
+                          key={i}
+                          className={cn(
+                            'h-3.5 w-3.5',
+                            i < review.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-200 dark:text-gray-700'
+                          )}
+                        />
+                      ))}
+                      {review.title && (
+                        <span className="text-sm font-bold text-gray-900 dark:text-white">{review.title}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-400 dark:text-gray-500 mb-2">
+                      {review.authorName}
+                      {review.verifiedPurchase && ' · VERIFIED PURCHASE'}
+                      {review.variantName && ` · ${review.variantName}`}
+                      {' · '}
+                      {new Date(review.createdAt).toLocaleDateString()}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed whitespace-pre-line">{review.body}</p>
+                    {review.reply && (
+                      <div className="mt-3 rounded-xl bg-gray-50 dark:bg-slate-900/50 p-3">
+                        <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">STORE REPLY</span>
+                        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{review.reply}</p>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -24,6 +24,7 @@ export const ProductsPage = React.memo(function ProductsPage({
   onViewModeChange,
   onPageChange,
   onAddToCart,
+  onAddToWishlist,
   onProductClick,
   onSearch,
   t,
@@ -235,6 +236,7 @@ export const ProductsPage = React.memo(function ProductsPage({
                   viewMode={viewMode}
                   showWishlist={config?.features?.showWishlist}
                   onAddToCart={() => onAddToCart(product.id)}
+                  onAddToWishlist={onAddToWishlist ? () => onAddToWishlist(product.id) : undefined}
                   onClick={() => onProductClick(product.id)}
                 />
               ))}
@@ -3,7 +3,7 @@
  */
 
 import React from 'react';
-import { User, ShoppingBag } from 'lucide-react';
+import { User, ShoppingBag, Gift } from 'lucide-react';
 import type { ProfilePageProps } from '../../../../shared/src/types/theme';
 
 export const ProfilePage = React.memo(function ProfilePage({
@@ -11,10 +11,33 @@ export const ProfilePage = React.memo(function ProfilePage({
   isLoading,
   isAuthenticated,
   config,
+  storeCredit,
+  onCheckGiftCardBalance,
   onNavigateToSettings,
   onNavigateToOrders,
   onNavigateToLogin,
 }: ProfilePageProps) {
+  const [giftCardCode, setGiftCardCode] = React.useState('');
+  const [giftCardResult, setGiftCardResult] = React.useState<string | null>(null);
+  const [isCheckingGiftCard, setIsCheckingGiftCard] = React.useState(false);
+
+  const handleCheckGiftCard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCheckGiftCardBalance || !giftCardCode.trim()) return;
+
+    setIsCheckingGiftCard(true);
+    try {
+      const result = await onCheckGiftCardBalance(giftCardCode.trim());
+      setGiftCardResult(result.isActive
+        ? `${result.code}: ${result.balance.toFixed(2)} ${result.currency}`
+        : `${result.code}: NO LONGER ACTIVE`);
+    } catch {
+      setGiftCardResult('GIFT CARD NOT FOUND');
+    } finally {
+      setIsCheckingGiftCard(false);
+    }
+  };
+
   // Unauthenticated state
   if (!isAuthenticated || !user) {
     return (
@@ -138,6 +161,66 @@ export const ProfilePage = React.memo(function ProfilePage({
             </div>
           </div>
 
+          {/* Store Credit & Gift Card Balance */}
+          {(storeCredit || onCheckGiftCardBalance) && (
+            <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 sm:p-8">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="w-12 h-12 rounded-2xl bg-blue-50 dark:bg-blue-900/20 flex items-center justify-center">
+                  <Gift className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+                </div>
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <div className="h-3 w-0.5 bg-blue-600 rounded-full" />
+                    <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">STORE CREDIT</span>
+                  </div>
+                  <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+                    {storeCredit ? `${storeCredit.balance.toFixed(2)} ${storeCredit.currency}` : 'Gift Cards'}
+                  </h3>
+                </div>
+              </div>
+
+              {storeCredit && storeCredit.transactions.length > 0 && (
+                <div className="space-y-2 mb-6">
+                  {storeCredit.transactions.slice(0, 5).map((transaction) => (
+                    <div key={transaction.id} className="flex justify-between text-sm">
+                      <span className="text-gray-500 dark:text-gray-400 font-medium">
+                        {new Date(transaction.createdAt).toLocaleDateString()} · {transaction.note || transaction.type}
+                      </span>
+                      <span className={transaction.amount < 0 ? 'font-bold text-gray-900 dark:text-white' : 'font-bold text-green-600'}>
+                        {transaction.amount > 0 ? '+' : ''}{transaction.amount.toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {onCheckGiftCardBalance && (
+                <form onSubmit={handleCheckGiftCard} className="space-y-2">
+                  <p className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-widest">CHECK GIFT CARD BALANCE</p>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={giftCardCode}
+                      onChange={(e) => setGiftCardCode(e.target.value)}
+                      placeholder="XXXX-XXXX-XXXX-XXXX"
+                      className="flex-1 px-4 py-3 rounded-xl border border-gray-100 dark:border-slate-700 bg-gray-50/50 dark:bg-slate-800 text-sm font-bold text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                    />
+                    <button
+                      type="submit"
+                      disabled={isCheckingGiftCard || !giftCardCode.trim()}
+                      className="px-5 rounded-xl border border-gray-200 dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700 font-semibold text-sm text-gray-700 dark:text-gray-300 disabled:opacity-50 transition-all uppercase tracking-wider"
+                    >
+                      CHECK
+                    </button>
+                  </div>
+                  {giftCardResult && (
+                    <p className="text-sm font-bold text-gray-900 dark:text-white">{giftCardResult}</p>
+                  )}
+                </form>
+              )}
+            </div>
+          )}
+
           {/* Account Info Card */}
           <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 sm:p-8">
             <div className="flex items-center gap-2 mb-6">
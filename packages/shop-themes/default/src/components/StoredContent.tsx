@@ -0,0 +1,60 @@
+/**
+ * Stored Content - merchant-edited CMS copy in the Admin Style Design
+ *
+ * `bodyHtml` is rendered by the API from Markdown with raw HTML escaped.
+ */
+
+import React from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { ThemeContentPage } from '../../../../shared/src/types/theme';
+
+export function StoredContentBody({ content }: { content: ThemeContentPage }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 shadow-sm p-6 sm:p-8">
+      <div
+        className="prose prose-sm sm:prose-base prose-gray dark:prose-invert max-w-none prose-headings:tracking-tight prose-a:text-blue-600 dark:prose-a:text-blue-400"
+        dangerouslySetInnerHTML={{ __html: content.bodyHtml }}
+      />
+    </div>
+  );
+}
+
+/**
+ * Full page layout for legal pages: header with the stored title and last
+ * update date, then the body.
+ */
+export function StoredContentPage({
+  content,
+  badge,
+  icon: Icon,
+}: {
+  content: ThemeContentPage;
+  badge: string;
+  icon: LucideIcon;
+}) {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-slate-900">
+      {/* Header */}
+      <section className="py-16 sm:py-20 bg-white dark:bg-slate-800 border-b border-gray-100 dark:border-slate-700">
+        <div className="container mx-auto px-4">
+          <div className="text-center max-w-3xl mx-auto">
+            <div className="inline-flex items-center gap-2 px-4 py-2 bg-blue-50 dark:bg-blue-900/20 rounded-full mb-6">
+              <Icon className="w-3 h-3 text-blue-600 dark:text-blue-400" />
+              <span className="text-[10px] font-bold text-blue-600 dark:text-blue-400 uppercase tracking-widest">{badge}</span>
+            </div>
+            <h1 className="text-3xl sm:text-5xl font-bold text-gray-900 dark:text-white mb-4 tracking-tight">{content.title}</h1>
+            <p className="text-[10px] font-medium text-gray-400 dark:text-gray-500 uppercase tracking-wider">
+              LAST UPDATED: {new Date(content.updatedAt).toLocaleDateString(content.locale)}
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-8 sm:py-12">
+        <div className="container mx-auto px-4 max-w-4xl">
+          <StoredContentBody content={content} />
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -5,8 +5,13 @@
 import React from 'react';
 import { AlertCircle, CheckCircle, XCircle, Info } from 'lucide-react';
 import type { TermsPageProps } from '../../../../shared/src/types/theme';
+import { StoredContentPage } from './StoredContent';
+
+export function TermsPage({ config, content }: TermsPageProps) {
+  if (content) {
+    return <StoredContentPage content={content} badge="TERMS OF SERVICE" icon={CheckCircle} />;
+  }
 
-export function TermsPage({ config }: TermsPageProps) {
   const sections = [
     { id: 'acceptance', icon: CheckCircle, iconColor: 'bg-green-50', iconTextColor: 'text-green-600', title: 'Acceptance of Terms', content: 'By accessing and using this website, you accept and agree to be bound by the terms and provision of this agreement. If you do not agree to abide by the above, please do not use this service.' },
     { id: 'use-license', icon: Info, iconColor: 'bg-blue-50', iconTextColor: 'text-blue-600', title: 'Use License', content: 'Permission is granted to temporarily download one copy of the materials (information or software) on Jiffoo Mall for personal, non-commercial transitory viewing only. This is the grant of a license, not a transfer of title.' },
@@ -14,6 +14,7 @@ export interface ProductCardProps {
   viewMode?: 'grid' | 'list';
   showWishlist?: boolean;
   onAddToCart: () => void;
+  onAddToWishlist?: () => void;
   onClick: () => void;
 }
 
@@ -22,6 +23,7 @@ export const ProductCard = React.memo(function ProductCard({
   viewMode = 'grid',
   showWishlist = true,
   onAddToCart,
+  onAddToWishlist,
   onClick,
 }: ProductCardProps) {
   const handleProductImageError = (event: React.SyntheticEvent<HTMLImageElement>) => {
@@ -178,7 +180,7 @@ export const ProductCard = React.memo(function ProductCard({
         {/* Wishlist button */}
         {showWishlist && (
           <button
-            onClick={(e: React.MouseEvent) => { e.stopPropagation(); }}
+            onClick={(e: React.MouseEvent) => { e.stopPropagation(); onAddToWishlist?.(); }}
             className={cn(
               'absolute top-2 sm:top-3 right-2 sm:right-3 p-2 sm:p-2.5 rounded-full',
               'bg-white/90 dark:bg-slate-800/90 backdrop-blur-sm',
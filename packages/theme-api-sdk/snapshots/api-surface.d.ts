@@ -33,7 +33,21 @@ export type { PageResult, ThemeApiClientOptions, ThemeApiTokenProvider, RequestO
 
 import type { Product, ProductCategory } from './product';
 import type { Cart, CartItem } from './cart';
-import type { ShopOrderListItemDTO, ShopOrderDetailDTO } from './dto/order-dto';
+import type {
+  ShopOrderListItemDTO,
+  ShopOrderDetailDTO,
+  CreateReturnRequestDTO,
+  CustomerAddressDTO,
+  SaveCustomerAddressDTO,
+  GiftCardBalanceDTO,
+  StoreCreditDTO,
+} from './dto/order-dto';
+import type {
+  ProductMediaDTO,
+  ProductReviewDTO,
+  ProductReviewSummaryDTO,
+  ProductSearchFacetsDTO,
+} from './dto/product-dto';
 import type { Locale, TranslationFunction } from '../i18n/types';
 
 // ============================================================================
@@ -242,6 +256,8 @@ export interface ProductsPageProps extends ThemeI18nProps {
   onViewModeChange: (mode: 'grid' | 'list') => void;
   onPageChange: (page: number) => void;
   onAddToCart: (productId: string) => Promise<void>;
+  /** Provided when config.features.showWishlist is on */
+  onAddToWishlist?: (productId: string) => Promise<void>;
   onProductClick: (productId: string) => void;
   onSearch?: (query: string) => void;
 }
@@ -251,6 +267,11 @@ export interface ProductsPageProps extends ThemeI18nProps {
  */
 export interface ProductDetailPageProps extends ThemeI18nProps {
   product: Product | null;
+  /** Gallery in display order; images with a variantId belong to that variant. Falls back to product.images when empty. */
+  media?: ProductMediaDTO[];
+  /** Latest approved reviews; rendered when config.features.showRatings is on */
+  reviews?: ProductReviewDTO[];
+  reviewSummary?: ProductReviewSummaryDTO;
   isLoading: boolean;
   selectedVariant?: string;
   quantity: number;
@@ -295,6 +316,12 @@ export interface CheckoutFormData {
   postalCode: string;
   country: string;
   paymentMethod: string;
+  /** Saved address picked from savedAddresses; the API uses it instead of the typed fields */
+  addressId?: string;
+  /** Gift cards to redeem against the order, used in this order */
+  giftCardCodes?: string[];
+  /** Cover what the gift cards leave with store credit */
+  useStoreCredit?: boolean;
 }
 
 /**
@@ -308,6 +335,12 @@ export interface CheckoutPageProps extends ThemeI18nProps {
   requireShippingAddress?: boolean;
   countriesRequireStatePostal?: string[];
   currentUserEmail?: string;
+  /** Address book of a signed-in customer, default shipping address first */
+  savedAddresses?: CustomerAddressDTO[];
+  /** Store credit of a signed-in customer; omitted when there is none */
+  storeCreditBalance?: number;
+  /** Look up a gift card before applying it; rejects for unknown codes */
+  onCheckGiftCardBalance?: (code: string) => Promise<GiftCardBalanceDTO>;
   availablePaymentMethods?: Array<{
     name: string;
     displayName: string;
@@ -395,11 +428,20 @@ export interface SearchPageProps extends ThemeI18nProps {
     brand: string;
     rating: string;
     inStock: boolean;
+    /** Selected variant attribute values keyed by attribute name */
+    attributes?: Record<string, string[]>;
   };
+  /** Total number of matching products across all pages */
+  totalResults?: number;
+  /** Facet counts over the whole match set (categories, price range, attributes, availability) */
+  facets?: ProductSearchFacetsDTO;
+  /** "Did you mean" query when nothing matched the search words exactly */
+  suggestion?: string | null;
   config?: ThemeConfig;
   onSortChange: (sortBy: string) => void;
   onViewModeChange: (mode: 'grid' | 'list') => void;
   onFilterChange: (filters: any) => void;
+  onSuggestionClick?: (query: string) => void;
   onAddToCart: (productId: string) => Promise<void>;
   onProductClick: (productId: string) => void;
 }
@@ -429,6 +471,10 @@ export interface OrderDetailPageProps extends ThemeI18nProps {
   onBack?: () => void;
   onBackToOrders?: () => void;
   onCancelOrder?: () => Promise<void>;
+  /** Submit a return request for delivered items; rejects with the API error */
+  onRequestReturn?: (input: CreateReturnRequestDTO) => Promise<void>;
+  /** Upload a photo for a return request and resolve to its URL */
+  onUploadReturnPhoto?: (file: File) => Promise<string>;
 }
 
 /**
@@ -467,6 +513,10 @@ export interface ProfilePageProps extends ThemeI18nProps {
   isLoading: boolean;
   isAuthenticated: boolean;
   config?: ThemeConfig;
+  /** Store credit balance and recent changes */
+  storeCredit?: StoreCreditDTO | null;
+  /** Gift card balance lookup; rejects for unknown codes */
+  onCheckGiftCardBalance?: (code: string) => Promise<GiftCardBalanceDTO>;
   onNavigateToSettings: () => void;
   onNavigateToOrders: () => void;
   onNavigateToLogin: () => void;
@@ -499,6 +549,12 @@ export interface ProfileSettingsPageProps extends ThemeI18nProps {
     timezone?: string;
   }) => Promise<void>;
   onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  /** Address book; the handlers below are provided together with it */
+  addresses?: CustomerAddressDTO[];
+  /** Create an address, or update it when addressId is given */
+  onSaveAddress?: (data: SaveCustomerAddressDTO, addressId?: string) => Promise<void>;
+  onDeleteAddress?: (addressId: string) => Promise<void>;
+  onSetDefaultAddress?: (addressId: string, type: 'shipping' | 'billing') => Promise<void>;
   onNavigateBack: () => void;
   onNavigateToLogin: () => void;
 }